@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useEffect } from 'react';
-import { PlanDay, WorkoutLog, LoggedExercise, WorkoutPlan, DailyRoutine, UserProfile, WorkoutSession } from './types';
+import { PlanDay, WorkoutLog, LoggedExercise, WorkoutPlan, DailyRoutine, UserProfile, WorkoutSession, PRAchievement, PlanSource } from './types';
 import { useUser, useAuth } from '@clerk/clerk-react';
 import { useMutation } from 'convex/react';
 import { api } from './convex/_generated/api';
@@ -16,6 +16,8 @@ import ProfilePage from './pages/ProfilePage';
 import GoalTrackingPage from './pages/GoalTrackingPage';
 import SessionSummaryPage from './pages/SessionSummaryPage';
 import BuddiesPage from './pages/BuddiesPage';
+import MarketplacePage from './pages/MarketplacePage';
+import CoachPage from './pages/CoachPage';
 import AdminDashboardPage from './pages/AdminDashboardPage';
 import PrivacyPolicyPage from './pages/PrivacyPolicyPage';
 import TermsOfServicePage from './pages/TermsOfServicePage';
@@ -36,6 +38,10 @@ import ErrorBoundary from './components/ErrorBoundary';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 import OfflineIndicator from './components/OfflineIndicator';
 import { useExercisePreload } from './hooks/useExercisePreload';
+import { useOfflineSync } from './hooks/useOfflineSync';
+import { offlineQueue } from './services/offlineService';
+import { useResumableSession } from './hooks/useResumableSession';
+import { SessionCheckpoint, loadLocalCheckpoint, clearLocalCheckpoint } from './services/sessionCheckpointService';
 import { useSwipeNavigation } from './hooks/useSwipeNavigation';
 import { SplashScreen } from '@capacitor/splash-screen';
 
@@ -45,7 +51,7 @@ const LOCATION_TRACKED_KEY = 'rebld:location_tracked';
 const SPLASH_SHOWN_KEY = 'rebld:splash_shown_session';
 
 
-type Page = 'home' | 'goals' | 'buddies' | 'plan' | 'profile' | 'admin' | 'privacy' | 'terms';
+type Page = 'home' | 'goals' | 'buddies' | 'plan' | 'profile' | 'marketplace' | 'coach' | 'admin' | 'privacy' | 'terms';
 // Extended to support WorkoutSession for 2x daily training
 type SessionType = PlanDay | DailyRoutine | WorkoutSession;
 
@@ -71,6 +77,8 @@ export default function App() {
       buddies: 'Buddies',
       plan: 'Plan',
       profile: 'Profile',
+      marketplace: 'Community Plans',
+      coach: 'Coach Mode',
       admin: 'Admin Dashboard',
       privacy: 'Privacy Policy',
       terms: 'Terms of Service',
@@ -191,13 +199,15 @@ export default function App() {
     allPlans,
     addPlan,
     deletePlan,
-    updatePlan,
     setActivePlan,
     planLoaded
   } = useWorkoutPlan();
   const { logs, addLog, logsLoaded } = useWorkoutLogs();
   const { userProfile, updateUserProfile, profileLoaded } = useUserProfile();
 
+  // Replay workouts/history/streak updates that were saved while offline
+  useOfflineSync();
+
   // Ensure user code is generated on login
   const ensureUserCodeMutation = useMutation(api.userCodeMutations.ensureUserCode);
   const updateLocationMutation = useMutation(api.healthMetrics.updateLocationData);
@@ -268,8 +278,10 @@ export default function App() {
   }, []);
 
   const [activeSession, setActiveSession] = useState<PlanDay | null>(null);
+  const [resumeCheckpoint, setResumeCheckpoint] = useState<SessionCheckpoint | null>(null);
   const [pendingSession, setPendingSession] = useState<PlanDay | null>(null); // For PreWorkoutScreen
   const [sessionToSummarize, setSessionToSummarize] = useState<WorkoutLog | null>(null);
+  const [sessionPRs, setSessionPRs] = useState<PRAchievement[]>([]);
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [initialChatMessage, setInitialChatMessage] = useState('');
 
@@ -288,7 +300,35 @@ export default function App() {
     threshold: 0.25, // 25% of screen width to trigger navigation
   });
 
+  // Unfinished workout from a killed app or another device
+  const resumableSession = useResumableSession(user?.id);
+  const clearActiveSessionMutation = useMutation(api.activeSessions.clearActiveSession);
+
+  const handleResumeSession = useCallback(() => {
+    const checkpoint = resumableSession.checkpoint;
+    if (!checkpoint) return;
+    resumableSession.dismiss(checkpoint.sessionKey);
+    setResumeCheckpoint(checkpoint);
+    setActiveSession(checkpoint.session);
+  }, [resumableSession]);
+
+  // Session ended (saved or abandoned) - drop its checkpoint locally and on the server
+  const clearSessionCheckpoint = useCallback(() => {
+    if (!user?.id) return;
+    const sessionKey = loadLocalCheckpoint(user.id)?.sessionKey || resumeCheckpoint?.sessionKey;
+    clearLocalCheckpoint();
+    if (sessionKey) {
+      resumableSession.dismiss(sessionKey);
+      clearActiveSessionMutation({ userId: user.id, sessionKey }).catch(() => {
+        // Silent fail - discardable from the resume prompt
+      });
+    }
+    setResumeCheckpoint(null);
+    resumableSession.refresh();
+  }, [user?.id, resumeCheckpoint, clearActiveSessionMutation, resumableSession]);
+
   const handleStartSession = useCallback((session: SessionType) => {
+    setResumeCheckpoint(null);
     // Normalize different session types into a PlanDay so ZenSessionTracker can handle it
     let normalizedSession: PlanDay;
     const today = new Date();
@@ -347,9 +387,10 @@ export default function App() {
   }, [user?.id, activePlan?.id, logs]);
 
   // Called when user confirms start from PreWorkoutScreen
-  const handleConfirmStart = useCallback(() => {
+  // adjustedSession: readiness-adjusted copy of pendingSession, if the user accepted it
+  const handleConfirmStart = useCallback((adjustedSession?: PlanDay) => {
     if (pendingSession) {
-      setActiveSession(pendingSession);
+      setActiveSession(adjustedSession ?? pendingSession);
       setPendingSession(null);
 
       // Track workout started
@@ -369,8 +410,6 @@ export default function App() {
     setPendingSession(null);
   }, []);
 
-  const updateStreakMutation = useMutation(api.achievementMutations.updateStreak);
-
   const handleFinishSession = useCallback(async (sessionLog: { focus: string, exercises: LoggedExercise[], durationMinutes: number }) => {
     // Save workout log and handle result
     const result = await addLog({
@@ -390,10 +429,12 @@ export default function App() {
       return;
     }
 
+    clearSessionCheckpoint();
+
     // Workout saved successfully - show success notification
     notify({
       type: 'success',
-      message: 'Workout saved!'
+      message: result.queued ? 'Workout saved offline - will sync when you reconnect' : 'Workout saved!'
     });
 
     // Track workout completed
@@ -410,10 +451,21 @@ export default function App() {
 
     // Update streak and check achievements
     if (user?.id) {
-      updateStreakMutation({
+      offlineQueue.run('updateStreak', {
         userId: user.id,
         workoutDate: new Date().toISOString()
-      }).then((streakResult) => {
+      }).then((outcome) => {
+        // Queued offline: achievements are unlocked server-side when it syncs
+        if (outcome.status !== 'sent') return;
+        const streakResult = outcome.result as { achievementsUnlocked: any[]; freezesUsed?: number };
+        if (streakResult.freezesUsed) {
+          notify({
+            type: 'info',
+            message: streakResult.freezesUsed === 1
+              ? 'Streak freeze used - your streak is safe'
+              : `${streakResult.freezesUsed} streak freezes used - your streak is safe`
+          });
+        }
         if (streakResult.achievementsUnlocked.length > 0) {
           // Track achievement unlocked
           streakResult.achievementsUnlocked.forEach((achievement: any) => {
@@ -435,12 +487,13 @@ export default function App() {
       });
     }
 
+    setSessionPRs(result.personalRecords || []);
     setSessionToSummarize({
       ...sessionLog,
       date: new Date().toISOString()
     });
     setActiveSession(null);
-  }, [addLog, user, updateStreakMutation]);
+  }, [addLog, user, clearSessionCheckpoint]);
 
   const handleCancelSession = useCallback(() => {
     // Track workout abandoned
@@ -450,8 +503,9 @@ export default function App() {
         dayOfWeek: activeSession.day_of_week,
       });
     }
+    clearSessionCheckpoint();
     setActiveSession(null);
-  }, [user?.id, activeSession]);
+  }, [user?.id, activeSession, clearSessionCheckpoint]);
 
   const handleDeleteActivePlan = useCallback(async () => {
     if (activePlan?.id) {
@@ -466,11 +520,7 @@ export default function App() {
     }
   }, [deletePlan, activePlan]);
 
-  const handlePlanUpdate = (updatedPlan: WorkoutPlan) => {
-    updatePlan(updatedPlan);
-  };
-
-  const handlePlanGenerated = useCallback(async (plan: Omit<WorkoutPlan, 'id' | 'createdAt'>) => {
+  const handlePlanGenerated = useCallback(async (plan: Omit<WorkoutPlan, 'id' | 'createdAt'>, source: PlanSource = 'ai') => {
     // Navigate to home immediately - don't wait for save to complete
     setCurrentPage('home');
 
@@ -487,7 +537,7 @@ export default function App() {
 
     try {
       // Save plan in background - Convex will update activePlan query automatically
-      await addPlan(plan);
+      await addPlan(plan, source);
 
       // Track successful plan generation
       if (user?.id) {
@@ -544,6 +594,7 @@ export default function App() {
         sessionLog={sessionToSummarize}
         onDone={() => setSessionToSummarize(null)}
         allLogs={logs || []}
+        personalRecords={sessionPRs}
         userProfile={userProfile}
       />;
     }
@@ -557,6 +608,7 @@ export default function App() {
             onCancel={handleCancelSession}
             allLogs={logs || []}
             userProfile={userProfile}
+            resumeFrom={resumeCheckpoint}
           />
         </ErrorBoundary>
       );
@@ -586,6 +638,9 @@ export default function App() {
               plan={activePlan}
               onStartSession={handleStartSession}
               onOpenChat={() => setIsChatOpen(true)}
+              resumableSession={resumableSession.checkpoint}
+              onResumeSession={handleResumeSession}
+              onDiscardResumableSession={resumableSession.discard}
               userProfile={userProfile}
             />
           </ErrorBoundary>
@@ -602,6 +657,18 @@ export default function App() {
             <BuddiesPage />
           </ErrorBoundary>
         );
+      case 'marketplace':
+        return (
+          <ErrorBoundary componentName="MarketplacePage">
+            <MarketplacePage onBack={() => setCurrentPage('plan')} />
+          </ErrorBoundary>
+        );
+      case 'coach':
+        return (
+          <ErrorBoundary componentName="CoachPage">
+            <CoachPage onBack={() => setCurrentPage('profile')} />
+          </ErrorBoundary>
+        );
       case 'admin':
         return (
           <ErrorBoundary componentName="AdminDashboardPage">
@@ -615,13 +682,13 @@ export default function App() {
       case 'plan':
         return (
           <ErrorBoundary componentName="PlanPage">
-            <PlanPage activePlan={activePlan} onStartSession={handleStartSession} />
+            <PlanPage activePlan={activePlan} logs={logs || []} onStartSession={handleStartSession} onOpenMarketplace={() => setCurrentPage('marketplace')} />
           </ErrorBoundary>
         );
       case 'profile':
         return (
           <ErrorBoundary componentName="ProfilePage">
-            <ProfilePage logs={logs || []} userProfile={userProfile} onUpdateProfile={updateUserProfile} onCreateNewPlan={handleCreateNewPlan} />
+            <ProfilePage logs={logs || []} userProfile={userProfile} onUpdateProfile={updateUserProfile} onCreateNewPlan={handleCreateNewPlan} onOpenCoachMode={() => setCurrentPage('coach')} />
           </ErrorBoundary>
         );
       default:
@@ -631,6 +698,9 @@ export default function App() {
               plan={activePlan}
               onStartSession={handleStartSession}
               onOpenChat={() => setIsChatOpen(true)}
+              resumableSession={resumableSession.checkpoint}
+              onResumeSession={handleResumeSession}
+              onDiscardResumableSession={resumableSession.discard}
             />
           </ErrorBoundary>
         );
@@ -833,7 +903,6 @@ export default function App() {
         isOpen={isChatOpen}
         onClose={handleChatClose}
         plan={activePlan}
-        onPlanUpdate={handlePlanUpdate}
         initialMessage={initialChatMessage}
         dayOfWeek={dayIndexForGemini}
       />
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { X, Trash2 } from 'lucide-react';
+import { api } from '../convex/_generated/api';
+import { Id } from '../convex/_generated/dataModel';
+import { notify } from './layout/Toast';
+import { cn } from '../lib/utils';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ATHLETE DETAIL - Coach view: adherence, plan, sessions + comments, health
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface AthleteDetailSheetProps {
+  athleteId: string | null;
+  onClose: () => void;
+  userId: string;
+}
+
+type Tab = 'sessions' | 'plan' | 'health';
+
+const HEALTH_FIELDS: Array<{ key: 'weight' | 'bodyFat' | 'restingHeartRate' | 'sleepHours' | 'energyLevel'; label: string; unit: string }> = [
+  { key: 'weight', label: 'WEIGHT', unit: 'KG' },
+  { key: 'bodyFat', label: 'BODY FAT', unit: '%' },
+  { key: 'restingHeartRate', label: 'RESTING HR', unit: 'BPM' },
+  { key: 'sleepHours', label: 'SLEEP', unit: 'H' },
+  { key: 'energyLevel', label: 'ENERGY', unit: '/10' },
+];
+
+const countSets = (exercises: Array<{ sets: unknown[] }>) => exercises.reduce((sum, ex) => sum + ex.sets.length, 0);
+
+export default function AthleteDetailSheet({ athleteId, onClose, userId }: AthleteDetailSheetProps) {
+  const detail = useQuery(api.coachingQueries.getAthleteDetail, athleteId ? { userId, athleteId } : 'skip');
+  const myPlans = useQuery(api.queries.getWorkoutPlans, athleteId ? { userId } : 'skip');
+  const addComment = useMutation(api.coachingMutations.addSessionComment);
+  const deleteComment = useMutation(api.coachingMutations.deleteSessionComment);
+  const assignPlan = useMutation(api.coachingMutations.assignAthletePlan);
+  const [tab, setTab] = useState<Tab>('sessions');
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [isAssigning, setIsAssigning] = useState(false);
+
+  if (!athleteId) return null;
+
+  const handleComment = async (workoutLogId: Id<'workoutLogs'>) => {
+    const text = drafts[workoutLogId]?.trim();
+    if (!text) return;
+    try {
+      await addComment({ userId, workoutLogId, text });
+      setDrafts(prev => ({ ...prev, [workoutLogId]: '' }));
+    } catch (e: any) {
+      notify({ type: 'error', message: e.message });
+    }
+  };
+
+  const handleAssign = async (sourcePlanId: Id<'workoutPlans'>) => {
+    if (!confirm('GIVE THIS ATHLETE A COPY OF THE PLAN AND MAKE IT THEIR ACTIVE PLAN?')) return;
+    setIsAssigning(true);
+    try {
+      await assignPlan({ userId, athleteId, sourcePlanId, setActive: true });
+      notify({ type: 'success', message: 'PLAN ASSIGNED' });
+    } catch (e: any) {
+      notify({ type: 'error', message: e.message });
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const tabs: Array<{ tab: Tab; label: string; enabled: boolean }> = detail ? [
+    { tab: 'sessions', label: 'SESSIONS', enabled: detail.permissions.viewLogs },
+    { tab: 'plan', label: 'PLAN', enabled: detail.permissions.editPlans },
+    { tab: 'health', label: 'HEALTH', enabled: detail.permissions.viewHealthMetrics },
+  ] : [];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-end" onClick={onClose}>
+      <div
+        className="w-full h-[90vh] bg-black border-t border-white/20 flex flex-col pb-safe-bottom"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="px-6 py-5 border-b border-white/10">
+          <div className="flex justify-between items-start gap-4">
+            <div>
+              <p className="font-mono text-[10px] text-[#525252] tracking-widest uppercase">ATHLETE</p>
+              <h2 className="font-mono text-xl font-bold text-white mt-1">{detail?.athleteCode || '...'}</h2>
+            </div>
+            <button onClick={onClose} className="w-9 h-9 shrink-0 border border-white/20 flex items-center justify-center text-white">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {detail?.adherence && (
+            <div className="grid grid-cols-3 gap-2 mt-4">
+              <div className="border border-white/10 p-3">
+                <p className="text-2xl font-black text-white">
+                  {detail.adherence.percent === null ? '—' : `${detail.adherence.percent}%`}
+                </p>
+                <p className="font-mono text-[9px] text-[#525252] uppercase tracking-widest">ADHERENCE</p>
+              </div>
+              <div className="border border-white/10 p-3">
+                <p className="text-2xl font-black text-white">
+                  {detail.adherence.completedSessions}/{detail.adherence.plannedSessions}
+                </p>
+                <p className="font-mono text-[9px] text-[#525252] uppercase tracking-widest">SESSIONS · {detail.adherence.weeks} WK</p>
+              </div>
+              <div className="border border-white/10 p-3">
+                <p className="text-sm font-black text-white mt-2">
+                  {detail.adherence.lastWorkoutDate ? new Date(detail.adherence.lastWorkoutDate).toLocaleDateString() : '—'}
+                </p>
+                <p className="font-mono text-[9px] text-[#525252] uppercase tracking-widest mt-1">LAST SESSION</p>
+              </div>
+            </div>
+          )}
+          {detail && (
+            <div className="flex gap-6 mt-5">
+              {tabs.map(t => (
+                <button
+                  key={t.tab}
+                  onClick={() => setTab(t.tab)}
+                  disabled={!t.enabled}
+                  className={cn(
+                    'font-mono text-[10px] uppercase tracking-widest pb-1 border-b disabled:opacity-30',
+                    tab === t.tab ? 'text-white border-white' : 'text-[#525252] border-transparent'
+                  )}
+                >
+                  {t.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </header>
+
+        <div className="flex-1 overflow-y-auto px-6 py-5">
+          {detail === undefined ? (
+            <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">LOADING...</p>
+          ) : detail === null ? (
+            <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">THIS ATHLETE HAS REVOKED YOUR ACCESS</p>
+          ) : !tabs.find(t => t.tab === tab)?.enabled ? (
+            <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">NOT SHARED BY THIS ATHLETE</p>
+          ) : tab === 'sessions' ? (
+            !detail.logs || detail.logs.length === 0 ? (
+              <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">NO SESSIONS LOGGED</p>
+            ) : (
+              <div className="space-y-4">
+                {detail.logs.map(log => (
+                  <div key={log._id} className="border border-white/10 p-4">
+                    <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">
+                      {new Date(log.date).toLocaleDateString()} · {log.durationMinutes ?? '—'} MIN · {countSets(log.exercises)} SETS
+                    </p>
+                    <p className="text-sm font-bold text-white uppercase tracking-wide mt-1">{log.focus}</p>
+                    <p className="font-mono text-[10px] text-[#737373] mt-1">
+                      {log.exercises.map(ex => ex.exercise_name).join(' · ')}
+                    </p>
+                    {log.comments.map(comment => (
+                      <div key={comment._id} className="flex items-start gap-2 mt-3 pl-3 border-l border-white/20">
+                        <p className="flex-1 text-xs text-white/80">{comment.text}</p>
+                        <button
+                          onClick={() => deleteComment({ userId, commentId: comment._id })}
+                          aria-label="Delete comment"
+                          className="text-[#525252] hover:text-red-500"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </div>
+                    ))}
+                    <div className="flex gap-2 mt-3">
+                      <input
+                        value={drafts[log._id] || ''}
+                        onChange={(e) => setDrafts(prev => ({ ...prev, [log._id]: e.target.value }))}
+                        placeholder="Comment on this session"
+                        className="flex-1 bg-transparent border border-white/20 px-3 py-2 text-xs text-white placeholder:text-white/20 focus:border-white outline-none"
+                      />
+                      <button
+                        onClick={() => handleComment(log._id)}
+                        disabled={!drafts[log._id]?.trim()}
+                        className="px-3 bg-white text-black font-black uppercase tracking-widest text-[10px] disabled:opacity-30"
+                      >
+                        SEND
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )
+          ) : tab === 'plan' ? (
+            <div className="space-y-6">
+              <div>
+                <p className="font-mono text-[10px] text-white/40 mb-2 uppercase tracking-widest">ACTIVE PLAN</p>
+                <p className="text-sm font-bold text-white uppercase tracking-wide">{detail.activePlan?.name || 'NONE'}</p>
+                {detail.activePlan && (
+                  <div className="divide-y divide-white/10 border-y border-white/10 mt-3">
+                    {detail.activePlan.weeklyPlan.map((day, i) => (
+                      <p key={i} className="py-2 font-mono text-[10px] text-[#737373] uppercase tracking-widest">{day.focus}</p>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div>
+                <p className="font-mono text-[10px] text-white/40 mb-2 uppercase tracking-widest">ASSIGN ONE OF YOUR PLANS</p>
+                {(myPlans?.page || []).length === 0 ? (
+                  <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">YOU HAVE NO PLANS TO ASSIGN</p>
+                ) : (
+                  <div className="space-y-2">
+                    {myPlans!.page.map(plan => (
+                      <button
+                        key={plan._id}
+                        onClick={() => handleAssign(plan._id)}
+                        disabled={isAssigning}
+                        className="w-full text-left border border-white/10 px-4 py-3 text-sm text-white uppercase tracking-wide hover:border-white disabled:opacity-30"
+                      >
+                        {plan.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          ) : (
+            !detail.healthMetrics || detail.healthMetrics.length === 0 ? (
+              <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">NO HEALTH METRICS IN THE LAST 30 DAYS</p>
+            ) : (
+              <div className="divide-y divide-white/10 border-y border-white/10">
+                {detail.healthMetrics.map(entry => (
+                  <div key={entry._id} className="py-3">
+                    <p className="font-mono text-[10px] text-white/60 uppercase tracking-widest">{entry.date}</p>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1">
+                      {HEALTH_FIELDS.filter(f => entry[f.key] !== null).map(f => (
+                        <span key={f.key} className="font-mono text-[10px] text-[#737373] uppercase tracking-widest">
+                          {f.label} <span className="text-white">{entry[f.key]}</span>{f.unit}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -62,8 +62,10 @@ export default function BlockCompletionScreen({
           </h3>
           <p className="text-[var(--text-xs)] text-[var(--text-secondary)]">
             {Array.isArray(nextBlock.exercises) ? nextBlock.exercises.length : 0} {t('session.exercises')}
-            {nextBlock.type === 'superset' && ` · ${(nextBlock as any).rounds} ${t('session.rounds')}`}
-            {nextBlock.type === 'amrap' && ` · ${(nextBlock as any).duration_minutes} ${t('session.minAmrap')}`}
+            {nextBlock.type === 'superset' && ` · ${nextBlock.rounds} ${t('session.rounds')}`}
+            {nextBlock.type === 'amrap' && ` · ${nextBlock.duration_minutes} ${t('session.minAmrap')}`}
+            {nextBlock.type === 'emom' && ` · ${nextBlock.duration_minutes} ${t('session.minEmom')}`}
+            {nextBlock.type === 'tabata' && ` · ${nextBlock.rounds} × ${nextBlock.work_seconds}s/${nextBlock.rest_seconds}s`}
           </p>
         </div>
       ) : (
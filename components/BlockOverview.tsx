@@ -13,6 +13,8 @@ function getBlockIcon(type: string) {
     case 'superset':
       return <RepeatIcon className="w-3 h-3" />;
     case 'amrap':
+    case 'emom':
+    case 'tabata':
       return <TimerIcon className="w-3 h-3" />;
     default:
       return <DumbbellIcon className="w-3 h-3" />;
@@ -26,6 +28,10 @@ function getBlockTypeLabel(block: WorkoutBlock) {
       return `Superset${(block as any).rounds ? ` × ${(block as any).rounds}` : ''}`;
     case 'amrap':
       return `AMRAP${(block as any).duration_minutes ? ` ${(block as any).duration_minutes}min` : ''}`;
+    case 'emom':
+      return `EMOM ${block.duration_minutes}min`;
+    case 'tabata':
+      return `Tabata ${block.rounds} × ${block.work_seconds}s/${block.rest_seconds}s`;
     default:
       return 'Straight Sets';
   }
@@ -68,7 +74,7 @@ export default function BlockOverview({ blocks, currentBlockIndex }: BlockOvervi
             w-6 h-6 rounded-md flex items-center justify-center
             ${currentBlock.type === 'superset'
               ? 'bg-[var(--brand-primary-subtle)] text-[var(--brand-primary)]'
-              : currentBlock.type === 'amrap'
+              : currentBlock.type === 'amrap' || currentBlock.type === 'emom' || currentBlock.type === 'tabata'
               ? 'bg-[var(--status-warning-subtle)] text-[var(--status-warning-bg)]'
               : 'bg-[var(--surface-secondary)] text-[var(--text-tertiary)]'
             }
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { Id } from '../convex/_generated/dataModel';
+import CreateChallengeSheet from './CreateChallengeSheet';
+import { notify } from './layout/Toast';
+import { cn } from '../lib/utils';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// BUDDY CHALLENGES - Running/finished challenges with live leaderboards
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface BuddyChallengesProps {
+  userId: string;
+  buddies: Array<{ buddyId: string; userCode: string }>;
+}
+
+const METRIC_LABELS: Record<string, string> = {
+  workouts_completed: 'WORKOUTS',
+  total_volume: 'VOLUME',
+  streak_days: 'STREAK',
+  running_km: 'RUNNING',
+  lift_e1rm: 'E1RM',
+};
+
+const formatRange = (start: string, end: string) => {
+  const fmt = (d: string) => new Date(`${d}T12:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return `${fmt(start)} – ${fmt(end)}`;
+};
+
+function ChallengeLeaderboard({ userId, challengeId }: { userId: string; challengeId: Id<'buddyChallenges'> }) {
+  const board = useQuery(api.challengeQueries.getChallengeLeaderboard, { userId, challengeId });
+
+  if (board === undefined) {
+    return <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest py-3">LOADING...</p>;
+  }
+  if (!board) return null;
+
+  return (
+    <div className="mt-4 divide-y divide-white/10 border-t border-white/10">
+      {board.entries.map(entry => (
+        <div key={entry.userId} className="flex items-center justify-between py-3">
+          <div className="flex items-center gap-3">
+            <span className={cn(
+              'w-6 font-black italic text-lg',
+              entry.rank === 1 ? 'text-white' : 'text-[#525252]'
+            )}>
+              {entry.rank}
+            </span>
+            <span className={cn('font-mono text-xs uppercase tracking-widest', entry.isMe ? 'text-white' : 'text-white/60')}>
+              {entry.isMe ? 'YOU' : entry.userCode || 'BUDDY'}
+            </span>
+          </div>
+          <span className="font-mono text-xs text-white">
+            {entry.score.toLocaleString()} <span className="text-[#525252]">{board.unit.toUpperCase()}</span>
+          </span>
+        </div>
+      ))}
+      {board.invited > 0 && (
+        <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest pt-3">
+          {board.invited} INVITE{board.invited === 1 ? '' : 'S'} PENDING
+        </p>
+      )}
+      {board.live && (
+        <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest pt-3">LIVE · FROM LOGGED WORKOUTS</p>
+      )}
+    </div>
+  );
+}
+
+export default function BuddyChallenges({ userId, buddies }: BuddyChallengesProps) {
+  const challenges = useQuery(api.challengeQueries.getMyChallenges, { userId });
+  const respondToChallenge = useMutation(api.challengeMutations.respondToChallenge);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+
+  const handleRespond = async (challengeId: Id<'buddyChallenges'>, accept: boolean) => {
+    try {
+      await respondToChallenge({ userId, challengeId, accept });
+      notify({ type: 'success', message: accept ? 'CHALLENGE ACCEPTED' : 'CHALLENGE DECLINED' });
+      if (accept) setExpandedId(challengeId);
+    } catch (e: any) {
+      notify({ type: 'error', message: e.message });
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-3">
+        <p className="font-mono text-[10px] text-white/40 uppercase tracking-widest">CHALLENGES</p>
+        <button
+          onClick={() => setShowCreate(true)}
+          disabled={buddies.length === 0}
+          className="font-mono text-[10px] text-white uppercase tracking-widest disabled:opacity-30"
+        >
+          + NEW
+        </button>
+      </div>
+
+      {!challenges || challenges.length === 0 ? (
+        <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest border border-white/10 p-4">
+          NO CHALLENGES · RACE YOUR CIRCLE ON WORKOUTS, VOLUME, STREAKS, KM OR A LIFT
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {challenges.map(challenge => (
+            <div key={challenge._id} className="border border-white/10 p-4">
+              <button
+                onClick={() => setExpandedId(expandedId === challenge._id ? null : challenge._id)}
+                className="w-full text-left flex justify-between items-start gap-4"
+              >
+                <div>
+                  <p className="text-sm font-bold text-white uppercase tracking-wide">{challenge.name}</p>
+                  <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest mt-1">
+                    {METRIC_LABELS[challenge.metric]}{challenge.exerciseName ? ` · ${challenge.exerciseName}` : ''} · {formatRange(challenge.startDate, challenge.endDate)}
+                  </p>
+                </div>
+                <span className={cn(
+                  'font-mono text-[10px] uppercase tracking-widest shrink-0',
+                  challenge.status === 'active' ? 'text-green-500' : challenge.iWon ? 'text-white' : 'text-[#525252]'
+                )}>
+                  {challenge.status === 'active' ? 'LIVE' : challenge.iWon ? '🏆 WON' : `#${challenge.myFinalRank ?? '–'}`}
+                </span>
+              </button>
+
+              {challenge.myStatus === 'invited' && challenge.status === 'active' ? (
+                <div className="flex gap-2 mt-4">
+                  <button
+                    onClick={() => handleRespond(challenge._id, true)}
+                    className="flex-1 py-2 bg-white text-black font-bold uppercase tracking-widest text-[10px]"
+                  >
+                    ACCEPT
+                  </button>
+                  <button
+                    onClick={() => handleRespond(challenge._id, false)}
+                    className="flex-1 py-2 border border-white/20 text-white/60 font-bold uppercase tracking-widest text-[10px]"
+                  >
+                    DECLINE
+                  </button>
+                </div>
+              ) : expandedId === challenge._id && (
+                <ChallengeLeaderboard userId={userId} challengeId={challenge._id} />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <CreateChallengeSheet
+        isOpen={showCreate}
+        onClose={() => setShowCreate(false)}
+        userId={userId}
+        buddies={buddies}
+      />
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { api } from '../convex/_generated/api';
 import { Card, CardHeader, CardContent } from './ui/card';
 import { TrophyIcon, TrendingUpIcon } from './icons';
 import { cn } from '../lib/utils';
+import useSettings from '../hooks/useSettings';
 
 interface BuddyComparisonCardProps {
   userId: string;
@@ -19,10 +20,12 @@ export default function BuddyComparisonCard({
   buddyName = "Buddy",
   exerciseFilter
 }: BuddyComparisonCardProps) {
+  const { settings } = useSettings();
   const comparison = useQuery(api.buddyQueries.getBuddyPRComparison, {
     userId,
     buddyId,
     exerciseFilter: exerciseFilter && exerciseFilter.length > 0 ? exerciseFilter : undefined,
+    formula: settings.oneRepMaxFormula,
   });
 
   if (!comparison?.allowed) {
@@ -56,8 +59,9 @@ export default function BuddyComparisonCard({
       {comparison.comparisons.slice(0, 10).map((comp, i) => {
         const userPR = comp.userPR!;
         const buddyPR = comp.buddyPR!;
-        const userTotal = userPR.weight * userPR.reps;
-        const buddyTotal = buddyPR.weight * buddyPR.reps;
+        // Compare estimated 1RMs so different rep counts are on the same scale
+        const userTotal = userPR.e1rm;
+        const buddyTotal = buddyPR.e1rm;
         const userAhead = userTotal > buddyTotal;
         const tied = userTotal === buddyTotal;
 
@@ -90,7 +94,7 @@ export default function BuddyComparisonCard({
                     {userPR.weight}kg
                   </p>
                   <p className="text-[11px] text-[var(--text-secondary)]">
-                    × {userPR.reps} reps
+                    × {userPR.reps} reps · e1RM {userPR.e1rm}kg
                   </p>
                   {userAhead && (
                     <div className="mt-2 flex items-center gap-1 text-[var(--success)]">
@@ -116,7 +120,7 @@ export default function BuddyComparisonCard({
                     {buddyPR.weight}kg
                   </p>
                   <p className="text-[11px] text-[var(--text-secondary)]">
-                    × {buddyPR.reps} reps
+                    × {buddyPR.reps} reps · e1RM {buddyPR.e1rm}kg
                   </p>
                   {!userAhead && !tied && (
                     <div className="mt-2 flex items-center gap-1 text-[var(--accent)]">
@@ -132,8 +136,8 @@ export default function BuddyComparisonCard({
                 <div className="mt-3 text-center">
                   <p className="text-[11px] text-[var(--text-tertiary)]">
                     {userAhead
-                      ? `You're ahead by ${Math.abs(userTotal - buddyTotal).toFixed(1)}kg total volume`
-                      : `You're behind by ${Math.abs(userTotal - buddyTotal).toFixed(1)}kg`
+                      ? `You're ahead by ${Math.abs(userTotal - buddyTotal).toFixed(1)}kg estimated 1RM`
+                      : `You're behind by ${Math.abs(userTotal - buddyTotal).toFixed(1)}kg estimated 1RM`
                     }
                   </p>
                 </div>
@@ -0,0 +1,208 @@
+import React, { useState, useEffect } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { X, Download, Link2, RefreshCw } from 'lucide-react';
+import { api } from '../convex/_generated/api';
+import { WorkoutPlan } from '../types';
+import useUserProfile from '../hooks/useUserProfile';
+import {
+  CalendarTimes,
+  DEFAULT_CALENDAR_TIMES,
+  downloadIcsFile,
+  getCalendarFeedUrl,
+} from '../services/calendarService';
+import { notify } from './layout/Toast';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CALENDAR EXPORT - .ics download + subscribable feed (Editorial Noir)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface CalendarExportSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  plan: WorkoutPlan;
+  userId: string;
+}
+
+const getDeviceTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const TIME_FIELDS: { key: keyof CalendarTimes; label: string }[] = [
+  { key: 'training_time', label: 'TRAINING' },
+  { key: 'morning_time', label: 'AM SESSION' },
+  { key: 'evening_time', label: 'PM SESSION' },
+];
+
+export default function CalendarExportSheet({ isOpen, onClose, plan, userId }: CalendarExportSheetProps) {
+  const { userProfile } = useUserProfile();
+  const settings = useQuery(api.calendarFeed.getCalendarSettings, isOpen && userId ? { userId } : "skip");
+  const updateCalendarSettingsMutation = useMutation(api.calendarFeed.updateCalendarSettings);
+  const rotateCalendarFeedTokenMutation = useMutation(api.calendarFeed.rotateCalendarFeedToken);
+  const revokeCalendarFeedTokenMutation = useMutation(api.calendarFeed.revokeCalendarFeedToken);
+
+  const [times, setTimes] = useState<CalendarTimes>(DEFAULT_CALENDAR_TIMES);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (settings) {
+      setTimes({
+        training_time: settings.training_time,
+        morning_time: settings.morning_time,
+        evening_time: settings.evening_time,
+      });
+    }
+  }, [settings]);
+
+  if (!isOpen) return null;
+
+  const specificGoal = userProfile?.trainingPreferences?.specific_goal;
+  const hasTwoADay = plan.weeklyPlan.some(day => (day.sessions?.length || 0) > 0);
+  const feedUrl = settings?.feedToken ? getCalendarFeedUrl(settings.feedToken) : null;
+  const timesChanged = !!settings && TIME_FIELDS.some(({ key }) => settings[key] !== times[key]);
+
+  const saveTimes = async () => {
+    if (!userId || !timesChanged) return;
+    await updateCalendarSettingsMutation({ userId, ...times, timezone: getDeviceTimezone() });
+  };
+
+  const handleDownload = async () => {
+    downloadIcsFile(plan, {
+      times,
+      targetDate: specificGoal?.target_date,
+      eventName: specificGoal?.event_name,
+      preferredSessionLength: userProfile?.trainingPreferences?.preferred_session_length,
+    });
+    try {
+      await saveTimes();
+    } catch (error) {
+      // Download already happened - the times just aren't remembered
+    }
+  };
+
+  const handleSubscribe = async () => {
+    setIsBusy(true);
+    try {
+      await saveTimes();
+      const result = await rotateCalendarFeedTokenMutation({ userId, timezone: getDeviceTimezone() });
+      const url = getCalendarFeedUrl(result.feedToken);
+      if (url) {
+        // webcal:// opens the subscribe dialog in Apple/Google calendar apps
+        window.location.href = url.replace(/^https?:\/\//, 'webcal://');
+      }
+    } catch (error) {
+      notify({ type: 'error', message: 'Failed to create calendar feed' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCopyFeedUrl = () => {
+    if (!feedUrl) return;
+    navigator.clipboard.writeText(feedUrl);
+    notify({ type: 'success', message: 'Feed link copied to clipboard!' });
+  };
+
+  const handleRevoke = async () => {
+    setIsBusy(true);
+    try {
+      await revokeCalendarFeedTokenMutation({ userId });
+      notify({ type: 'success', message: 'Calendar feed disabled' });
+    } catch (error) {
+      notify({ type: 'error', message: 'Failed to disable calendar feed' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-end" onClick={onClose}>
+      <div
+        className="w-full max-h-[85vh] overflow-y-auto bg-black border-t border-white/20 pb-safe-bottom"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="px-6 py-5 border-b border-white/10 flex justify-between items-center">
+          <div>
+            <p className="font-mono text-[10px] text-[#525252] tracking-widest uppercase">
+              {specificGoal?.target_date ? `UNTIL ${specificGoal.target_date.split('T')[0]}` : 'NEXT 4 WEEKS'}
+            </p>
+            <h2 className="text-xl font-black italic tracking-tighter text-white uppercase leading-none">
+              CALENDAR
+            </h2>
+          </div>
+          <button onClick={onClose} className="w-9 h-9 border border-white/20 flex items-center justify-center text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </header>
+
+        <div className="px-6 py-5 space-y-6">
+          {/* Preferred training times */}
+          <div>
+            <p className="font-mono text-[10px] text-[#525252] mb-3 uppercase tracking-widest">PREFERRED TIMES</p>
+            <div className="grid grid-cols-3 gap-2">
+              {TIME_FIELDS.filter(({ key }) => key === 'training_time' || hasTwoADay).map(({ key, label }) => (
+                <label key={key} className="border border-white/10 p-3 flex flex-col gap-1">
+                  <span className="font-mono text-[10px] text-[#737373] uppercase tracking-widest">{label}</span>
+                  <input
+                    type="time"
+                    value={times[key]}
+                    onChange={(e) => setTimes(prev => ({ ...prev, [key]: e.target.value }))}
+                    className="bg-transparent text-white font-bold text-lg outline-none"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={handleDownload}
+            className="w-full h-12 border border-white text-white font-bold uppercase tracking-widest hover:bg-white hover:text-black transition-colors flex items-center justify-center gap-2"
+          >
+            <Download className="w-4 h-4" /> DOWNLOAD .ICS
+          </button>
+
+          {/* Subscribable feed */}
+          <div className="border-t border-white/10 pt-5">
+            <p className="font-mono text-[10px] text-[#525252] mb-2 uppercase tracking-widest">LIVE SUBSCRIPTION</p>
+            <p className="text-xs text-[#A3A3A3] mb-4">
+              Your calendar app refreshes the feed, so new weeks and plan edits show up automatically.
+            </p>
+
+            {feedUrl ? (
+              <div className="space-y-2">
+                <button
+                  onClick={handleCopyFeedUrl}
+                  className="w-full border border-white/10 p-3 text-left flex items-center gap-3 hover:border-white/30 transition-colors"
+                >
+                  <Link2 className="w-4 h-4 text-white shrink-0" />
+                  <span className="font-mono text-[10px] text-[#A3A3A3] truncate">{feedUrl}</span>
+                </button>
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleSubscribe}
+                    disabled={isBusy}
+                    className="flex-1 h-10 border border-white/20 text-white font-mono text-[10px] uppercase tracking-widest flex items-center justify-center gap-2 disabled:opacity-50"
+                  >
+                    <RefreshCw className="w-3 h-3" /> NEW LINK
+                  </button>
+                  <button
+                    onClick={handleRevoke}
+                    disabled={isBusy}
+                    className="flex-1 h-10 border border-white/20 text-[#737373] font-mono text-[10px] uppercase tracking-widest disabled:opacity-50"
+                  >
+                    DISABLE
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={handleSubscribe}
+                disabled={isBusy || settings === undefined}
+                className="w-full h-12 bg-white text-black font-bold uppercase tracking-widest disabled:opacity-50"
+              >
+                {isBusy ? 'CREATING...' : 'SUBSCRIBE IN CALENDAR'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
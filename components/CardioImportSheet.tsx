@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { X, Upload } from 'lucide-react';
+import { api } from '../convex/_generated/api';
+import { CardioActivity, PaceCompliance, PlanDay } from '../types';
+import {
+  parseCardioFile,
+  getPlannedCardioExercises,
+  formatDuration,
+  formatPacePerKm,
+} from '../services/cardioFileService';
+import { notify } from './layout/Toast';
+import { cn } from '../lib/utils';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CARDIO IMPORT - FIT / TCX / GPX → planned cardio exercise or standalone log
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface CardioImportSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+  day?: PlanDay; // Plan day the activity was done for
+}
+
+const STANDALONE = '__standalone__';
+
+const COMPLIANCE_LABELS: Record<PaceCompliance['status'], string> = {
+  on_target: 'ON TARGET',
+  too_fast: 'TOO FAST',
+  too_slow: 'TOO SLOW',
+};
+
+const ZONE_LABELS: Record<PaceCompliance['zone'], string> = {
+  race: 'RACE PACE',
+  zone2: 'ZONE 2',
+  tempo: 'TEMPO',
+  interval: 'INTERVAL',
+};
+
+export default function CardioImportSheet({ isOpen, onClose, userId, day }: CardioImportSheetProps) {
+  const importCardioActivityMutation = useMutation(api.cardioImport.importCardioActivity);
+
+  const [activity, setActivity] = useState<CardioActivity | null>(null);
+  const [target, setTarget] = useState<string>(STANDALONE);
+  const [isReading, setIsReading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [result, setResult] = useState<{ attached: boolean; duplicate: boolean; paceCompliance: PaceCompliance | null } | null>(null);
+
+  const plannedCardio = getPlannedCardioExercises(day);
+
+  const handleClose = () => {
+    setActivity(null);
+    setTarget(STANDALONE);
+    setResult(null);
+    onClose();
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const parsed = await parseCardioFile(file);
+      setActivity(parsed);
+      setTarget(plannedCardio[0]?.exercise_name ?? STANDALONE);
+    } catch (error) {
+      notify({ type: 'error', message: error instanceof Error ? error.message : 'Could not read this file' });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!activity) return;
+    const planned = plannedCardio.find(ex => ex.exercise_name === target);
+
+    setIsSaving(true);
+    try {
+      const saved = await importCardioActivityMutation({
+        userId,
+        activity,
+        planned: planned ? {
+          exercise_name: planned.exercise_name,
+          focus: planned.focus,
+          notes: planned.notes ?? null,
+          templateType: planned.metrics_template.type,
+        } : undefined,
+      });
+      setResult(saved);
+      if (saved.duplicate) {
+        notify({ type: 'info', message: 'This activity was already imported' });
+      }
+    } catch (error) {
+      notify({ type: 'error', message: error instanceof Error ? error.message : 'Failed to save activity' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const pace = activity && activity.sport === 'running' ? formatPacePerKm(activity.distance_m, activity.duration_s) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-end" onClick={handleClose}>
+      <div
+        className="w-full max-h-[85vh] bg-black border-t border-white/20 flex flex-col pb-safe-bottom"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="px-6 py-5 border-b border-white/10 flex justify-between items-center">
+          <div>
+            <p className="font-mono text-[10px] text-[#525252] tracking-widest uppercase">
+              {activity ? `${activity.source.toUpperCase()} · ${activity.sport.toUpperCase()}` : 'FIT · TCX · GPX'}
+            </p>
+            <h2 className="text-xl font-black italic tracking-tighter text-white uppercase leading-none">
+              IMPORT CARDIO
+            </h2>
+          </div>
+          <button onClick={handleClose} className="w-9 h-9 border border-white/20 flex items-center justify-center text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto px-6 py-5 space-y-6">
+          {!activity && (
+            <label className={cn(
+              'flex flex-col items-center justify-center gap-3 border border-dashed border-white/30 py-10 cursor-pointer',
+              isReading && 'opacity-50 pointer-events-none'
+            )}>
+              <Upload className="w-6 h-6 text-white" />
+              <span className="text-sm font-bold text-white uppercase tracking-wide">
+                {isReading ? 'READING...' : 'CHOOSE ACTIVITY FILE'}
+              </span>
+              <span className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">
+                PARSED ON THIS DEVICE
+              </span>
+              <input type="file" className="sr-only" accept=".fit,.tcx,.gpx" onChange={handleFileChange} />
+            </label>
+          )}
+
+          {activity && (
+            <>
+              <div className="grid grid-cols-3 gap-2">
+                {[
+                  { label: 'KM', value: (activity.distance_m / 1000).toFixed(2) },
+                  { label: 'TIME', value: formatDuration(activity.duration_s) },
+                  { label: pace ? 'PACE' : 'ELEV +M', value: pace ?? (activity.elevation_gain_m ?? '—') },
+                  { label: 'AVG HR', value: activity.avg_hr ?? '—' },
+                  { label: 'MAX HR', value: activity.max_hr ?? '—' },
+                  { label: pace ? 'ELEV +M' : 'SPLITS', value: pace ? (activity.elevation_gain_m ?? '—') : activity.splits.length },
+                ].map(({ label, value }) => (
+                  <div key={label} className="border border-white/10 p-3">
+                    <p className="text-lg font-black text-white">{value}</p>
+                    <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">{label}</p>
+                  </div>
+                ))}
+              </div>
+
+              {activity.splits.length > 0 && (
+                <div>
+                  <p className="font-mono text-[10px] text-[#525252] mb-2 uppercase tracking-widest">SPLITS</p>
+                  <div className="space-y-1">
+                    {activity.splits.map((split, i) => (
+                      <div key={i} className="flex justify-between font-mono text-xs border-b border-white/10 pb-1">
+                        <span className="text-[#737373]">
+                          {split.distance_m === 1000 ? `KM ${i + 1}` : `${(split.distance_m / 1000).toFixed(2)} KM`}
+                        </span>
+                        <span className="text-white">
+                          {formatPacePerKm(split.distance_m, split.duration_s) ?? formatDuration(split.duration_s)}
+                          {split.avg_hr !== null && <span className="text-[#737373]"> · {split.avg_hr} BPM</span>}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {!result && (
+                <div>
+                  <p className="font-mono text-[10px] text-[#525252] mb-2 uppercase tracking-widest">LOG AGAINST</p>
+                  <div className="space-y-2">
+                    {[...plannedCardio.map(ex => ({ key: ex.exercise_name, label: ex.exercise_name })), { key: STANDALONE, label: 'STANDALONE ACTIVITY' }]
+                      .map(({ key, label }) => (
+                        <button
+                          key={key}
+                          onClick={() => setTarget(key)}
+                          className={cn(
+                            'w-full text-left border p-3 text-sm font-bold uppercase tracking-wide',
+                            target === key ? 'border-white text-white' : 'border-white/10 text-[#737373]'
+                          )}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                  </div>
+                </div>
+              )}
+
+              {result && (
+                <div className="border border-white/20 p-4 space-y-2">
+                  <p className="text-sm font-bold text-white uppercase tracking-wide">
+                    {result.duplicate ? 'ALREADY IMPORTED' : result.attached ? 'ADDED TO TODAY\'S SESSION' : 'SAVED TO LOGBOOK'}
+                  </p>
+                  {result.paceCompliance ? (
+                    <p className={cn(
+                      'font-mono text-[10px] uppercase tracking-widest',
+                      result.paceCompliance.status === 'on_target' ? 'text-[#22C55E]' : 'text-[#EF4444]'
+                    )}>
+                      {COMPLIANCE_LABELS[result.paceCompliance.status]} · {ZONE_LABELS[result.paceCompliance.zone]} {result.paceCompliance.targetPace}
+                      {' '}· YOURS {result.paceCompliance.actualPace}
+                      {result.paceCompliance.splitCount > 0 && ` · ${result.paceCompliance.splitsOnTarget}/${result.paceCompliance.splitCount} SPLITS ON PACE`}
+                    </p>
+                  ) : target !== STANDALONE && activity.sport === 'running' && !result.duplicate && (
+                    <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">
+                      ADD YOUR 5K TIME TO YOUR PROFILE TO CHECK PACE TARGETS
+                    </p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {activity && (
+          <footer className="px-6 py-4 border-t border-white/10">
+            {result ? (
+              <button
+                onClick={handleClose}
+                className="w-full py-3 bg-white font-mono text-xs text-black font-bold uppercase tracking-widest"
+              >
+                DONE
+              </button>
+            ) : (
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="w-full py-3 bg-white font-mono text-xs text-black font-bold uppercase tracking-widest disabled:opacity-50"
+              >
+                {isSaving ? 'SAVING...' : 'SAVE ACTIVITY'}
+              </button>
+            )}
+          </footer>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,13 @@
 import React, { useState, useEffect, useRef, FormEvent } from 'react';
 import { useTranslation } from 'react-i18next';
-import { ChatMessage, WorkoutPlan, PlanExercise, PlanDay, WorkoutBlock } from '../types';
+import { ChatMessage, WorkoutPlan, CoachProposal } from '../types';
 import { XMarkIcon, SendIcon, SparklesIcon, LogoIcon, XCircleIcon } from './icons';
 import { notify } from './layout/Toast';
 import { useMutation, useAction } from 'convex/react';
 import { api } from '../convex/_generated/api';
+import { Id } from '../convex/_generated/dataModel';
 import { useUser } from '@clerk/clerk-react';
-import { hasExceededLimit, getLimitMessage, getRemainingUsage } from '../lib/rateLimiter';
-import useUserProfile from '../hooks/useUserProfile';
+import useUsageQuota from '../hooks/useUsageQuota';
 import { cn } from '../lib/utils';
 import { analytics, EventTypes } from '../services/analyticsService';
 
@@ -15,17 +15,17 @@ interface ChatbotProps {
   isOpen: boolean;
   onClose: () => void;
   plan: WorkoutPlan | null;
-  onPlanUpdate: (updatedPlan: WorkoutPlan) => void;
   initialMessage?: string;
   dayOfWeek: number;
 }
 
-export default function Chatbot({ isOpen, onClose, plan, onPlanUpdate, initialMessage, dayOfWeek }: ChatbotProps) {
+export default function Chatbot({ isOpen, onClose, plan, initialMessage, dayOfWeek }: ChatbotProps) {
   const { t, i18n } = useTranslation();
   const { user } = useUser();
-  const { userProfile } = useUserProfile();
-  const incrementChatUsageMutation = useMutation(api.mutations.incrementChatUsage);
+  const { getLimitMessage } = useUsageQuota();
   const handleChatMessageAction = useAction(api.ai.handleChatMessage);
+  const applyCoachActionMutation = useMutation(api.chatCoachMutations.applyCoachAction);
+  const undoCoachActionMutation = useMutation(api.chatCoachMutations.undoCoachAction);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [conversationHistory, setConversationHistory] = useState<Array<{ role: 'user' | 'model', content: string }>>([]);
   const [input, setInput] = useState('');
@@ -57,329 +57,159 @@ export default function Chatbot({ isOpen, onClose, plan, onPlanUpdate, initialMe
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, isLoading]);
 
-  const handleFunctionCall = (functionCall: any): string => {
-    let updatedPlan = plan ? JSON.parse(JSON.stringify(plan)) : null; // Deep copy
-    let functionResponseText = '';
-
-    if (functionCall.name === 'substituteExercise' && updatedPlan) {
-        const { day_of_week, original_exercise_name, new_exercise_name, new_exercise_metrics_template, rpe } = functionCall.args;
-        
-        const dayIndex = (updatedPlan.weeklyPlan || []).findIndex((d: PlanDay) => d.day_of_week === day_of_week);
-        
-        if (dayIndex !== -1) {
-            const dayToUpdate = updatedPlan.weeklyPlan[dayIndex];
-            let substituted = false;
-            (dayToUpdate.blocks || []).forEach((block: WorkoutBlock) => {
-                block.exercises = block.exercises.map((ex: PlanExercise) => {
-                    if (ex.exercise_name === original_exercise_name) {
-                        substituted = true;
-                        return {
-                            ...ex,
-                            exercise_name: new_exercise_name,
-                            metrics_template: new_exercise_metrics_template,
-                            original_exercise_name: ex.exercise_name, // Store original name
-                            rpe: rpe || ex.rpe,
-                        };
-                    }
-                    return ex;
-                });
-            });
-
-            if (substituted) {
-              onPlanUpdate(updatedPlan);
-              notify({ type: 'success', message: t('chat.exerciseReplaced', { original: original_exercise_name, new: new_exercise_name }) });
-              functionResponseText = t('chat.exerciseSubstituted', { original: original_exercise_name, new: new_exercise_name });
-            } else {
-              functionResponseText = t('chat.exerciseNotFound', { exercise: original_exercise_name });
-            }
-        } else {
-            functionResponseText = t('chat.dayNotFound', { day: day_of_week });
-        }
-    } else if (functionCall.name === 'addExercise' && updatedPlan) {
-        const { day_of_week, category, new_exercise_name, new_exercise_metrics_template, rpe } = functionCall.args;
-
-        const dayIndex = (updatedPlan.weeklyPlan || []).findIndex((d: PlanDay) => d.day_of_week === day_of_week);
-        if (dayIndex !== -1) {
-            const dayToUpdate = updatedPlan.weeklyPlan[dayIndex];
-            const newExercise: PlanExercise = {
-                exercise_name: new_exercise_name,
-                metrics_template: new_exercise_metrics_template,
-                rpe: rpe || null,
-                category: category,
-            };
-
-            const newBlock: WorkoutBlock = {
-                type: 'single',
-                title: new_exercise_name,
-                exercises: [newExercise]
-            };
-
-            if (!dayToUpdate.blocks) {
-              dayToUpdate.blocks = [];
-            }
-
-            let blocks = [...(dayToUpdate.blocks || [])];
-
-            if (category === 'warmup') {
-                blocks.unshift(newBlock);
-            } else if (category === 'cooldown') {
-                blocks.push(newBlock);
-            } else { // 'main'
-                let lastWarmupIndex = -1;
-                blocks.forEach((b, i) => {
-                    if(b.exercises.some(ex => ex.category === 'warmup')) {
-                        lastWarmupIndex = i;
-                    }
-                });
-                blocks.splice(lastWarmupIndex + 1, 0, newBlock);
-            }
-
-            dayToUpdate.blocks = blocks;
-
-            onPlanUpdate(updatedPlan);
-            notify({ type: 'success', message: t('chat.exerciseAdded', { exercise: new_exercise_name, day: day_of_week }) });
-            functionResponseText = t('chat.exerciseAddedMessage', { exercise: new_exercise_name });
-        } else {
-            functionResponseText = t('chat.dayNotFound', { day: day_of_week });
-        }
-    } else if (functionCall.name === 'modifyExercise' && updatedPlan) {
-        const { day_of_week, exercise_name, new_sets, new_reps, new_rest_period_s, new_rpe } = functionCall.args;
-
-        const dayIndex = (updatedPlan.weeklyPlan || []).findIndex((d: PlanDay) => d.day_of_week === day_of_week);
-        if (dayIndex !== -1) {
-            const dayToUpdate = updatedPlan.weeklyPlan[dayIndex];
-            let modified = false;
-            (dayToUpdate.blocks || []).forEach((block: WorkoutBlock) => {
-                block.exercises = block.exercises.map((ex: PlanExercise) => {
-                    if (ex.exercise_name.toLowerCase() === exercise_name.toLowerCase()) {
-                        modified = true;
-                        const updatedEx = { ...ex };
-                        if (new_sets !== undefined && updatedEx.metrics_template) {
-                            updatedEx.metrics_template = { ...updatedEx.metrics_template, target_sets: new_sets };
-                        }
-                        if (new_reps !== undefined && updatedEx.metrics_template) {
-                            updatedEx.metrics_template = { ...updatedEx.metrics_template, target_reps: new_reps };
-                        }
-                        if (new_rest_period_s !== undefined && updatedEx.metrics_template) {
-                            updatedEx.metrics_template = { ...updatedEx.metrics_template, rest_period_s: new_rest_period_s };
-                        }
-                        if (new_rpe !== undefined) {
-                            updatedEx.rpe = new_rpe;
-                        }
-                        return updatedEx;
-                    }
-                    return ex;
-                });
-            });
-
-            if (modified) {
-                onPlanUpdate(updatedPlan);
-                notify({ type: 'success', message: `Modified ${exercise_name}` });
-                functionResponseText = `Successfully modified ${exercise_name}`;
-            } else {
-                functionResponseText = `Could not find exercise "${exercise_name}" on day ${day_of_week}`;
-            }
-        } else {
-            functionResponseText = t('chat.dayNotFound', { day: day_of_week });
-        }
-    } else if (functionCall.name === 'removeExercise' && updatedPlan) {
-        const { day_of_week, exercise_name } = functionCall.args;
-
-        const dayIndex = (updatedPlan.weeklyPlan || []).findIndex((d: PlanDay) => d.day_of_week === day_of_week);
-        if (dayIndex !== -1) {
-            const dayToUpdate = updatedPlan.weeklyPlan[dayIndex];
-            let removed = false;
-
-            dayToUpdate.blocks = (dayToUpdate.blocks || []).map((block: WorkoutBlock) => {
-                const filteredExercises = block.exercises.filter((ex: PlanExercise) => {
-                    if (ex.exercise_name.toLowerCase() === exercise_name.toLowerCase()) {
-                        removed = true;
-                        return false;
-                    }
-                    return true;
-                });
-                return { ...block, exercises: filteredExercises };
-            }).filter((block: WorkoutBlock) => block.exercises.length > 0); // Remove empty blocks
-
-            if (removed) {
-                onPlanUpdate(updatedPlan);
-                notify({ type: 'success', message: `Removed ${exercise_name}` });
-                functionResponseText = `Successfully removed ${exercise_name} from day ${day_of_week}`;
-            } else {
-                functionResponseText = `Could not find exercise "${exercise_name}" on day ${day_of_week}`;
-            }
-        } else {
-            functionResponseText = t('chat.dayNotFound', { day: day_of_week });
-        }
-    } else if (functionCall.name === 'adjustDifficulty' && updatedPlan) {
-        const { day_of_week, direction, method } = functionCall.args;
-
-        const dayIndex = (updatedPlan.weeklyPlan || []).findIndex((d: PlanDay) => d.day_of_week === day_of_week);
-        if (dayIndex !== -1) {
-            const dayToUpdate = updatedPlan.weeklyPlan[dayIndex];
-            let modifications: string[] = [];
-
-            (dayToUpdate.blocks || []).forEach((block: WorkoutBlock) => {
-                block.exercises = block.exercises.map((ex: PlanExercise) => {
-                    if (ex.category !== 'main') return ex; // Only modify main exercises
-
-                    const updatedEx = { ...ex };
-
-                    if (method === 'volume' || method === 'all') {
-                        if (updatedEx.metrics_template?.target_sets) {
-                            const currentSets = updatedEx.metrics_template.target_sets;
-                            if (direction === 'harder') {
-                                updatedEx.metrics_template = { ...updatedEx.metrics_template, target_sets: currentSets + 1 };
-                            } else if (currentSets > 2) {
-                                updatedEx.metrics_template = { ...updatedEx.metrics_template, target_sets: currentSets - 1 };
-                            }
-                        }
-                    }
-
-                    if (method === 'intensity' || method === 'all') {
-                        const currentRpe = parseInt(ex.rpe || '7') || 7;
-                        if (direction === 'harder' && currentRpe < 10) {
-                            updatedEx.rpe = String(Math.min(currentRpe + 1, 10));
-                        } else if (direction === 'easier' && currentRpe > 5) {
-                            updatedEx.rpe = String(Math.max(currentRpe - 1, 5));
-                        }
-                    }
-
-                    modifications.push(ex.exercise_name);
-                    return updatedEx;
-                });
-            });
-
-            if (modifications.length > 0) {
-                onPlanUpdate(updatedPlan);
-                notify({ type: 'success', message: `Made workout ${direction}` });
-                functionResponseText = `Adjusted ${modifications.length} exercises to be ${direction} using ${method} method`;
-            } else {
-                functionResponseText = `No exercises found to modify on day ${day_of_week}`;
-            }
-        } else {
-            functionResponseText = t('chat.dayNotFound', { day: day_of_week });
-        }
-    } else if (functionCall.name === 'swapDayFocus' && updatedPlan) {
-        const { day_from, day_to } = functionCall.args;
-
-        const dayFromIndex = (updatedPlan.weeklyPlan || []).findIndex((d: PlanDay) => d.day_of_week === day_from);
-        const dayToIndex = (updatedPlan.weeklyPlan || []).findIndex((d: PlanDay) => d.day_of_week === day_to);
-
-        if (dayFromIndex !== -1 && dayToIndex !== -1) {
-            // Swap the blocks and focus
-            const tempBlocks = updatedPlan.weeklyPlan[dayFromIndex].blocks;
-            const tempFocus = updatedPlan.weeklyPlan[dayFromIndex].focus;
-            const tempNotes = updatedPlan.weeklyPlan[dayFromIndex].notes;
-
-            updatedPlan.weeklyPlan[dayFromIndex].blocks = updatedPlan.weeklyPlan[dayToIndex].blocks;
-            updatedPlan.weeklyPlan[dayFromIndex].focus = updatedPlan.weeklyPlan[dayToIndex].focus;
-            updatedPlan.weeklyPlan[dayFromIndex].notes = updatedPlan.weeklyPlan[dayToIndex].notes;
-
-            updatedPlan.weeklyPlan[dayToIndex].blocks = tempBlocks;
-            updatedPlan.weeklyPlan[dayToIndex].focus = tempFocus;
-            updatedPlan.weeklyPlan[dayToIndex].notes = tempNotes;
-
-            onPlanUpdate(updatedPlan);
-            const dayNames = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-            notify({ type: 'success', message: `Swapped ${dayNames[day_from - 1]} and ${dayNames[day_to - 1]}` });
-            functionResponseText = `Successfully swapped day ${day_from} and day ${day_to}`;
-        } else {
-            functionResponseText = `Could not find one or both days to swap`;
-        }
-    } else if (functionCall.name === 'extendWorkout' && updatedPlan) {
-        // For extend/shorten, we let the AI decide what to add/remove
-        // Just acknowledge and let AI make suggestions
-        const { day_of_week } = functionCall.args;
-        functionResponseText = `I'll suggest exercises to add to day ${day_of_week}. Use the addExercise function for each exercise you want to include.`;
-    } else if (functionCall.name === 'shortenWorkout' && updatedPlan) {
-        const { day_of_week } = functionCall.args;
-        const dayIndex = (updatedPlan.weeklyPlan || []).findIndex((d: PlanDay) => d.day_of_week === day_of_week);
-        if (dayIndex !== -1) {
-            const dayToUpdate = updatedPlan.weeklyPlan[dayIndex];
-            const mainExercises = (dayToUpdate.blocks || [])
-                .flatMap((b: WorkoutBlock) => b.exercises)
-                .filter((ex: PlanExercise) => ex.category === 'main')
-                .map((ex: PlanExercise) => ex.exercise_name);
-            functionResponseText = `Day ${day_of_week} has ${mainExercises.length} main exercises. I can remove any of these: ${mainExercises.join(', ')}. Which would you like to remove?`;
-        } else {
-            functionResponseText = t('chat.dayNotFound', { day: day_of_week });
-        }
-    } else if (functionCall.name === 'createSuperset' && updatedPlan) {
-        // NEW: Create a superset block from multiple exercises
-        const { day_of_week, exercises, rounds, rest_between_rounds } = functionCall.args;
-
-        const dayIndex = (updatedPlan.weeklyPlan || []).findIndex((d: PlanDay) => d.day_of_week === day_of_week);
-        if (dayIndex !== -1 && exercises && exercises.length >= 2) {
-            const dayToUpdate = updatedPlan.weeklyPlan[dayIndex];
-
-            // Create exercises for the superset
-            const supersetExercises: PlanExercise[] = exercises.map((ex: any, idx: number) => ({
-                exercise_name: `${String.fromCharCode(65 + idx)}${idx + 1}: ${ex.exercise_name}`, // A1, A2, etc.
-                metrics_template: ex.metrics_template,
-                category: ex.category || 'main',
-                rpe: null,
-                notes: null,
-            }));
+  const updateProposal = (index: number, patch: Partial<CoachProposal>) => {
+    setMessages(prev => prev.map((msg, i) =>
+      i === index && msg.proposal ? { ...msg, proposal: { ...msg.proposal, ...patch } } : msg
+    ));
+  };
 
-            // Create the superset block
-            const supersetBlock: WorkoutBlock = {
-                type: 'superset',
-                title: `Superset: ${exercises.map((ex: any) => ex.exercise_name).join(' + ')}`,
-                rounds: rounds || 3,
-                exercises: supersetExercises
-            };
+  // Commit a previewed edit - the server recomputes and validates it against the current plan
+  const handleApplyProposal = async (index: number) => {
+    const proposal = messages[index]?.proposal;
+    if (!proposal || !plan?._id || !user?.id) return;
 
-            // Initialize blocks if needed
-            if (!dayToUpdate.blocks) {
-                dayToUpdate.blocks = [];
-            }
+    updateProposal(index, { status: 'applying' });
+    try {
+      const result = await applyCoachActionMutation({
+        userId: user.id,
+        planId: plan._id as Id<'workoutPlans'>,
+        action: proposal.functionName,
+        args: proposal.functionArgs,
+      });
+      updateProposal(index, { status: 'applied', editId: result.editId });
+      notify({ type: 'success', message: result.summary });
+      setConversationHistory(prev => [...prev, { role: 'model', content: `Applied: ${result.summary}` }]);
 
-            // Find position for the superset (after warmups, before cooldowns)
-            const blocks = [...(dayToUpdate.blocks || [])];
-            let insertIndex = blocks.length;
+      analytics.track(EventTypes.CHATBOT_FUNCTION_CALLED, {
+        functionName: proposal.functionName,
+        success: true,
+      });
+    } catch (err) {
+      updateProposal(index, { status: 'pending' });
+      notify({ type: 'error', message: (err as Error).message || t('errors.unknownError') });
+      analytics.track(EventTypes.CHATBOT_FUNCTION_CALLED, {
+        functionName: proposal.functionName,
+        success: false,
+      });
+    }
+  };
 
-            // Find the first cooldown block
-            const firstCooldownIndex = blocks.findIndex(b =>
-                b.exercises.some(ex => ex.category === 'cooldown')
-            );
-            if (firstCooldownIndex !== -1) {
-                insertIndex = firstCooldownIndex;
-            }
+  const handleDismissProposal = (index: number) => {
+    updateProposal(index, { status: 'dismissed' });
+    setConversationHistory(prev => [...prev, { role: 'model', content: 'The user dismissed that change.' }]);
+  };
 
-            blocks.splice(insertIndex, 0, supersetBlock);
-            dayToUpdate.blocks = blocks;
+  const handleUndoProposal = async (index: number) => {
+    const proposal = messages[index]?.proposal;
+    if (!proposal?.editId || !user?.id) return;
 
-            onPlanUpdate(updatedPlan);
-            const exerciseNames = exercises.map((ex: any) => ex.exercise_name).join(', ');
-            notify({ type: 'success', message: `Created superset: ${exerciseNames}` });
-            functionResponseText = `Successfully created a ${rounds}-round superset with: ${exerciseNames}${rest_between_rounds ? ` (${rest_between_rounds}s rest between rounds)` : ''}`;
-        } else if (!exercises || exercises.length < 2) {
-            functionResponseText = 'A superset needs at least 2 exercises. Please specify which exercises to combine.';
-        } else {
-            functionResponseText = t('chat.dayNotFound', { day: day_of_week });
-        }
-    } else {
-        functionResponseText = t('chat.planNotAvailable');
+    try {
+      await undoCoachActionMutation({ userId: user.id, editId: proposal.editId as Id<'chatPlanEdits'> });
+      updateProposal(index, { status: 'undone' });
+      notify({ type: 'success', message: t('chat.changeUndone', { summary: proposal.summary }) });
+      setConversationHistory(prev => [...prev, { role: 'model', content: `Undid: ${proposal.summary}` }]);
+    } catch (err) {
+      notify({ type: 'error', message: (err as Error).message || t('errors.unknownError') });
     }
-
-    return functionResponseText;
   };
 
+  const CHANGE_MARKERS: Record<string, string> = { added: '+', removed: '−', modified: '~', focus: '~' };
+  const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+  const renderProposal = (proposal: CoachProposal, index: number) => (
+    <div className={cn(
+      'mt-[var(--space-3)] pt-[var(--space-3)]',
+      'border-t border-[var(--border-default)]',
+      'space-y-[var(--space-2)]'
+    )}>
+      <p className="text-[var(--text-2xs)] uppercase tracking-wider font-[var(--weight-bold)] text-[var(--text-tertiary)]">
+        {t('chat.proposedChange')}
+      </p>
+      <ul className="space-y-[var(--space-1)]">
+        {proposal.changes.map((change, i) => (
+          <li key={i} className="text-[var(--text-xs)] leading-snug">
+            <span className={cn(
+              'font-[var(--weight-bold)] mr-[var(--space-1)]',
+              change.kind === 'added' && 'text-[var(--success)]',
+              change.kind === 'removed' && 'text-[var(--error)]',
+              (change.kind === 'modified' || change.kind === 'focus') && 'text-[var(--brand-primary)]'
+            )}>
+              {CHANGE_MARKERS[change.kind]}
+            </span>
+            <span className="text-[var(--text-tertiary)]">{DAYS[change.day_of_week - 1] || `Day ${change.day_of_week}`}: </span>
+            <span className="font-[var(--weight-semibold)]">{change.exercise_name}</span>
+            {change.before && change.after && (
+              <span className="text-[var(--text-secondary)]"> ({change.before} → {change.after})</span>
+            )}
+          </li>
+        ))}
+      </ul>
+      {proposal.warnings.length > 0 && (
+        <ul className="space-y-[var(--space-1)]">
+          {proposal.warnings.map((warning, i) => (
+            <li key={i} className="text-[var(--text-2xs)] text-[var(--warning)]">⚠ {warning}</li>
+          ))}
+        </ul>
+      )}
+
+      {(proposal.status === 'pending' || proposal.status === 'applying') && (
+        <div className="flex gap-[var(--space-2)] pt-[var(--space-1)]">
+          <button
+            onClick={() => handleApplyProposal(index)}
+            disabled={proposal.status === 'applying'}
+            className={cn(
+              'flex-1 px-[var(--space-3)] py-[var(--space-2)]',
+              'rounded-[var(--radius-lg)]',
+              'bg-[var(--brand-primary)] text-[var(--text-on-brand)]',
+              'text-[var(--text-xs)] font-[var(--weight-bold)]',
+              'disabled:opacity-50'
+            )}
+          >
+            {proposal.status === 'applying' ? t('chat.loading') : t('chat.apply')}
+          </button>
+          <button
+            onClick={() => handleDismissProposal(index)}
+            disabled={proposal.status === 'applying'}
+            className={cn(
+              'flex-1 px-[var(--space-3)] py-[var(--space-2)]',
+              'rounded-[var(--radius-lg)]',
+              'border border-[var(--border-default)] text-[var(--text-secondary)]',
+              'text-[var(--text-xs)] font-[var(--weight-semibold)]',
+              'disabled:opacity-50'
+            )}
+          >
+            {t('chat.dismiss')}
+          </button>
+        </div>
+      )}
+      {proposal.status === 'applied' && (
+        <div className="flex items-center justify-between pt-[var(--space-1)]">
+          <span className="text-[var(--text-xs)] font-[var(--weight-semibold)] text-[var(--success)]">
+            ✓ {t('chat.applied')}
+          </span>
+          <button
+            onClick={() => handleUndoProposal(index)}
+            className="text-[var(--text-xs)] font-[var(--weight-bold)] text-[var(--brand-primary)] underline"
+          >
+            {t('chat.undo')}
+          </button>
+        </div>
+      )}
+      {proposal.status === 'undone' && (
+        <p className="text-[var(--text-xs)] text-[var(--text-tertiary)]">{t('chat.undone')}</p>
+      )}
+    </div>
+  );
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading || !plan?._id) return;
 
-    // Check rate limits
-    if (user?.id && userProfile) {
-      const tier = userProfile.apiUsage?.tier || 'free';
-      const usage = userProfile.apiUsage;
-
-      if (usage && hasExceededLimit(usage, tier, 'chat')) {
-        const remaining = getRemainingUsage(usage, tier);
-        setError(getLimitMessage('chat', tier, remaining));
-        return;
-      }
+    // Check rate limits (enforced server-side, this just avoids a doomed call)
+    const limitMessage = getLimitMessage('handleChatMessage');
+    if (limitMessage) {
+      setError(limitMessage);
+      return;
     }
 
     const userMessage: ChatMessage = { role: 'user', text: input };
@@ -414,33 +244,27 @@ export default function Chatbot({ isOpen, onClose, plan, onPlanUpdate, initialMe
         { role: 'user', content: currentInput },
       ]);
 
-      if (result.type === 'function_call') {
-        // AI wants to modify the plan
-        const functionCall = {
-          name: result.functionName,
-          args: result.functionArgs,
-        };
-
-        // Track function call
-        if (user?.id) {
-          analytics.track(EventTypes.CHATBOT_FUNCTION_CALLED, {
-            functionName: functionCall.name,
-            success: true,
-          });
-        }
-
-        // Execute function locally and get response text
-        const functionResponseText = handleFunctionCall(functionCall);
+      if (result.type === 'function_call' && 'preview' in result && result.preview) {
+        // AI proposed a plan edit - show the diff and let the user apply it
+        const summary = result.preview.summary;
+        setMessages(prev => [...prev, {
+          role: 'model',
+          text: result.textResponse || summary,
+          proposal: {
+            functionName: result.functionName,
+            functionArgs: result.functionArgs,
+            summary,
+            changes: result.preview.changes,
+            warnings: result.preview.warnings,
+            status: 'pending',
+          },
+        }]);
 
-        // Add the function response to conversation
         setConversationHistory(prev => [
           ...prev,
-          { role: 'model', content: functionResponseText },
+          { role: 'model', content: `Proposed: ${summary}` },
         ]);
 
-        // Show the response to user
-        setMessages(prev => [...prev, { role: 'model', text: functionResponseText }]);
-
       } else if (result.type === 'text') {
         // Simple text response
         const aiResponse = result.textResponse || t('chat.hello');
@@ -452,11 +276,6 @@ export default function Chatbot({ isOpen, onClose, plan, onPlanUpdate, initialMe
           { role: 'model', content: aiResponse },
         ]);
       }
-
-      // Track chat message for rate limiting
-      if (user?.id) {
-        await incrementChatUsageMutation({ userId: user.id });
-      }
     } catch (err) {
       const e = err as Error;
       console.error("Chatbot error:", e);
@@ -653,6 +472,7 @@ export default function Chatbot({ isOpen, onClose, plan, onPlanUpdate, initialMe
                               'whitespace-pre-wrap',
                               'font-[var(--weight-medium)]'
                             )}>{msg.text}</p>
+                            {msg.proposal && renderProposal(msg.proposal, index)}
                         </div>
                     </div>
                 ))}
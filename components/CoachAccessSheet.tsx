@@ -0,0 +1,157 @@
+import React from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { X } from 'lucide-react';
+import { api } from '../convex/_generated/api';
+import { Id } from '../convex/_generated/dataModel';
+import { notify } from './layout/Toast';
+import { cn } from '../lib/utils';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// COACHING - Athlete's control over what each coach can see and do
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface CoachAccessSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+}
+
+type Permission = 'viewLogs' | 'viewHealthMetrics' | 'editPlans';
+type Permissions = Record<Permission, boolean>;
+
+const PERMISSIONS: Array<{ key: Permission; label: string; hint: string }> = [
+  { key: 'viewLogs', label: 'WORKOUT LOGS', hint: 'Sessions, adherence and comments' },
+  { key: 'viewHealthMetrics', label: 'HEALTH METRICS', hint: 'Weight, sleep, heart rate, energy' },
+  { key: 'editPlans', label: 'EDIT PLANS', hint: 'Assign and change your workout plans' },
+];
+
+export default function CoachAccessSheet({ isOpen, onClose, userId }: CoachAccessSheetProps) {
+  const coaches = useQuery(api.coachingQueries.getMyCoaches, isOpen ? { userId } : 'skip');
+  const respond = useMutation(api.coachingMutations.respondToCoachInvite);
+  const updatePermissions = useMutation(api.coachingMutations.updateCoachPermissions);
+  const revoke = useMutation(api.coachingMutations.revokeCoachAccess);
+
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<unknown>, success?: string) => {
+    try {
+      await action();
+      if (success) notify({ type: 'success', message: success });
+    } catch (e: any) {
+      notify({ type: 'error', message: e.message });
+    }
+  };
+
+  const handleToggle = (coachId: string, permissions: Permissions, key: Permission) =>
+    run(() => updatePermissions({ userId, coachId, permissions: { ...permissions, [key]: !permissions[key] } }));
+
+  const handleRevoke = (linkId: Id<'coachAthletes'>) => {
+    if (!confirm('REVOKE THIS COACH\'S ACCESS? THEY WILL NO LONGER SEE YOUR DATA OR EDIT YOUR PLANS.')) return;
+    run(() => revoke({ userId, linkId }), 'ACCESS REVOKED');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-end" onClick={onClose}>
+      <div
+        className="w-full max-h-[85vh] bg-black border-t border-white/20 flex flex-col pb-safe-bottom"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="px-6 py-5 border-b border-white/10 flex justify-between items-start">
+          <div>
+            <p className="font-mono text-[10px] text-[#525252] tracking-widest uppercase">PRIVACY</p>
+            <h2 className="text-xl font-black italic tracking-tighter text-white uppercase leading-none mt-1">COACHING</h2>
+          </div>
+          <button onClick={onClose} className="w-9 h-9 border border-white/20 flex items-center justify-center text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto px-6 py-5 space-y-4">
+          {!coaches ? (
+            <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">LOADING...</p>
+          ) : coaches.length === 0 ? (
+            <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest border border-white/10 p-4">
+              NO COACHES · A COACH CAN INVITE YOU WITH YOUR USER CODE
+            </p>
+          ) : coaches.map(coach => (
+            <div key={coach.linkId} className="border border-white/10 p-4">
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <p className="font-mono text-sm text-white">{coach.coachCode || 'COACH'}</p>
+                  <p className={cn(
+                    'font-mono text-[10px] uppercase tracking-widest mt-1',
+                    coach.status === 'active' ? 'text-green-500' : 'text-yellow-500'
+                  )}>
+                    {coach.status === 'active' ? 'COACHING YOU' : 'WANTS TO COACH YOU'}
+                  </p>
+                </div>
+                {coach.status === 'active' && (
+                  <button
+                    onClick={() => handleRevoke(coach.linkId)}
+                    className="font-mono text-[10px] text-[#525252] hover:text-red-500 uppercase tracking-widest"
+                  >
+                    REVOKE
+                  </button>
+                )}
+              </div>
+
+              {coach.status === 'pending' ? (
+                <div className="flex gap-2 mt-4">
+                  <button
+                    onClick={() => run(() => respond({ userId, coachId: coach.coachId, accept: false }))}
+                    className="flex-1 py-3 border border-white/20 text-white font-mono text-[10px] uppercase tracking-widest"
+                  >
+                    DECLINE
+                  </button>
+                  <button
+                    onClick={() => run(() => respond({ userId, coachId: coach.coachId, accept: true }), 'COACH ADDED')}
+                    className="flex-1 py-3 bg-white text-black font-black uppercase tracking-widest text-[10px]"
+                  >
+                    ACCEPT
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <div className="mt-4 space-y-2">
+                    {PERMISSIONS.map(({ key, label, hint }) => (
+                      <button
+                        key={key}
+                        onClick={() => handleToggle(coach.coachId, coach.permissions, key)}
+                        className="w-full flex items-center justify-between text-left"
+                      >
+                        <div>
+                          <p className="font-mono text-[10px] text-white uppercase tracking-widest">{label}</p>
+                          <p className="text-[11px] text-white/40">{hint}</p>
+                        </div>
+                        <span className={cn(
+                          'px-2 py-1 border font-mono text-[9px] uppercase tracking-widest',
+                          coach.permissions[key] ? 'bg-white text-black border-white' : 'border-white/20 text-[#525252]'
+                        )}>
+                          {coach.permissions[key] ? 'ON' : 'OFF'}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+
+                  {coach.recentComments.length > 0 && (
+                    <div className="mt-4 pt-4 border-t border-white/10">
+                      <p className="font-mono text-[10px] text-white/40 mb-2 uppercase tracking-widest">LATEST COMMENTS</p>
+                      {coach.recentComments.map(comment => (
+                        <div key={comment._id} className="mb-2">
+                          <p className="font-mono text-[9px] text-[#525252] uppercase tracking-widest">
+                            {comment.logFocus || 'SESSION'}{comment.logDate ? ` · ${new Date(comment.logDate).toLocaleDateString()}` : ''}
+                          </p>
+                          <p className="text-xs text-white/80">{comment.text}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
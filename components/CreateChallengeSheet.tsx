@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { X } from 'lucide-react';
+import { api } from '../convex/_generated/api';
+import { notify } from './layout/Toast';
+import { cn } from '../lib/utils';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CREATE CHALLENGE - Time-boxed buddy challenge (Editorial Noir)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type ChallengeMetric = 'workouts_completed' | 'total_volume' | 'streak_days' | 'running_km' | 'lift_e1rm';
+
+interface CreateChallengeSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+  buddies: Array<{ buddyId: string; userCode: string }>;
+}
+
+const METRIC_OPTIONS: Array<{ metric: ChallengeMetric; label: string }> = [
+  { metric: 'workouts_completed', label: 'WORKOUTS' },
+  { metric: 'total_volume', label: 'VOLUME KG' },
+  { metric: 'streak_days', label: 'STREAK DAYS' },
+  { metric: 'running_km', label: 'RUNNING KM' },
+  { metric: 'lift_e1rm', label: 'LIFT E1RM' },
+];
+
+const toDateInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().split('T')[0];
+};
+
+export default function CreateChallengeSheet({ isOpen, onClose, userId, buddies }: CreateChallengeSheetProps) {
+  const createChallenge = useMutation(api.challengeMutations.createChallenge);
+  const [name, setName] = useState('');
+  const [metric, setMetric] = useState<ChallengeMetric>('workouts_completed');
+  const [exerciseName, setExerciseName] = useState('');
+  const [startDate, setStartDate] = useState(() => toDateInput(new Date()));
+  const [endDate, setEndDate] = useState(() => toDateInput(new Date(Date.now() + 6 * 24 * 60 * 60 * 1000)));
+  const [selectedCodes, setSelectedCodes] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const toggleCode = (code: string) => {
+    setSelectedCodes(prev => prev.includes(code) ? prev.filter(c => c !== code) : [...prev, code]);
+  };
+
+  const handleCreate = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await createChallenge({
+        userId,
+        name,
+        metric,
+        exerciseName: metric === 'lift_e1rm' ? exerciseName : undefined,
+        startDate,
+        endDate,
+        inviteCodes: selectedCodes,
+      });
+      notify({ type: 'success', message: `CHALLENGE SENT TO ${result.invited}` });
+      setName('');
+      setSelectedCodes([]);
+      onClose();
+    } catch (e: any) {
+      notify({ type: 'error', message: e.message || 'Could not create challenge' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const canSubmit = name.trim() && selectedCodes.length > 0 && (metric !== 'lift_e1rm' || exerciseName.trim());
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-end" onClick={onClose}>
+      <div
+        className="w-full max-h-[85vh] bg-black border-t border-white/20 flex flex-col pb-safe-bottom"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="px-6 py-5 border-b border-white/10 flex justify-between items-center">
+          <div>
+            <p className="font-mono text-[10px] text-[#525252] tracking-widest uppercase">CIRCLE</p>
+            <h2 className="text-xl font-black italic tracking-tighter text-white uppercase leading-none">NEW CHALLENGE</h2>
+          </div>
+          <button onClick={onClose} className="w-9 h-9 border border-white/20 flex items-center justify-center text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto px-6 py-5 space-y-6">
+          <div>
+            <p className="font-mono text-[10px] text-white/40 mb-2 uppercase tracking-widest">NAME</p>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="March Madness"
+              maxLength={60}
+              className="w-full bg-transparent border border-white/20 px-4 py-3 text-white placeholder:text-white/20 focus:border-white outline-none"
+            />
+          </div>
+
+          <div>
+            <p className="font-mono text-[10px] text-white/40 mb-2 uppercase tracking-widest">METRIC</p>
+            <div className="flex flex-wrap gap-2">
+              {METRIC_OPTIONS.map(option => (
+                <button
+                  key={option.metric}
+                  onClick={() => setMetric(option.metric)}
+                  className={cn(
+                    'px-3 py-2 border text-[10px] font-bold uppercase tracking-widest transition-colors',
+                    metric === option.metric ? 'bg-white text-black border-white' : 'border-white/20 text-white/60'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {metric === 'lift_e1rm' && (
+              <input
+                value={exerciseName}
+                onChange={(e) => setExerciseName(e.target.value)}
+                placeholder="Barbell Back Squat"
+                className="mt-3 w-full bg-transparent border border-white/20 px-4 py-3 text-white placeholder:text-white/20 focus:border-white outline-none"
+              />
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="font-mono text-[10px] text-white/40 uppercase tracking-widest">STARTS</span>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="mt-2 w-full bg-transparent border border-white/20 px-3 py-3 text-white outline-none [color-scheme:dark]"
+              />
+            </label>
+            <label className="block">
+              <span className="font-mono text-[10px] text-white/40 uppercase tracking-widest">ENDS</span>
+              <input
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="mt-2 w-full bg-transparent border border-white/20 px-3 py-3 text-white outline-none [color-scheme:dark]"
+              />
+            </label>
+          </div>
+
+          <div>
+            <p className="font-mono text-[10px] text-white/40 mb-2 uppercase tracking-widest">INVITE</p>
+            {buddies.length === 0 ? (
+              <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">ADD A BUDDY FIRST</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {buddies.map(buddy => (
+                  <button
+                    key={buddy.buddyId}
+                    onClick={() => toggleCode(buddy.userCode)}
+                    className={cn(
+                      'px-3 py-2 border font-mono text-[10px] uppercase tracking-widest transition-colors',
+                      selectedCodes.includes(buddy.userCode) ? 'bg-white text-black border-white' : 'border-white/20 text-white/60'
+                    )}
+                  >
+                    {buddy.userCode}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-white/10">
+          <button
+            onClick={handleCreate}
+            disabled={!canSubmit || isSubmitting}
+            className="w-full py-4 bg-white text-black font-black uppercase tracking-widest text-xs disabled:opacity-30"
+          >
+            {isSubmitting ? 'SENDING...' : 'SEND CHALLENGE'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
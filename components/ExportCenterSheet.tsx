@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { useConvex } from 'convex/react';
+import { X, Download } from 'lucide-react';
+import { api } from '../convex/_generated/api';
+import { WorkoutPlan } from '../types';
+import {
+  logsToCsv,
+  buildExportBundle,
+  printPlan,
+  downloadTextFile,
+  exportFileName,
+  collectPages,
+  ExportData,
+} from '../services/dataExportService';
+import { notify } from './layout/Toast';
+import { cn } from '../lib/utils';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// EXPORT CENTER - Logs CSV, full JSON bundle, printable plan (Editorial Noir)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface ExportCenterSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+}
+
+type ExportKind = 'csv' | 'json' | 'print';
+
+const EXPORT_OPTIONS: Array<{ kind: ExportKind; title: string; description: string }> = [
+  { kind: 'csv', title: 'WORKOUT LOGS · CSV', description: 'ONE ROW PER SET · OPENS IN ANY SPREADSHEET' },
+  { kind: 'json', title: 'ALL DATA · JSON', description: 'PLANS, LOGS, HEALTH METRICS AND PRS · VERSIONED REBLD BUNDLE' },
+  { kind: 'print', title: 'ACTIVE PLAN · PDF', description: 'PRINTABLE WEEK WITH BLOCKS, SUPERSETS AND TARGETS' },
+];
+
+export default function ExportCenterSheet({ isOpen, onClose, userId }: ExportCenterSheetProps) {
+  const convex = useConvex();
+  const [pending, setPending] = useState<ExportKind | null>(null);
+
+  const handleExport = async (kind: ExportKind) => {
+    setPending(kind);
+    try {
+      // Fetched on demand - no live subscription to the whole history
+      const summary = await convex.query(api.dataExport.getExportSummary, { userId });
+      if (!summary) {
+        notify({ type: 'error', message: 'Sign in to export your data' });
+        return;
+      }
+      const fetchWorkoutLogs = () => collectPages(cursor =>
+        convex.query(api.dataExport.getExportWorkoutLogs, { userId, cursor })
+      );
+
+      if (kind === 'csv') {
+        const workoutLogs = await fetchWorkoutLogs();
+        if (workoutLogs.length === 0) {
+          notify({ type: 'info', message: 'No workouts logged yet' });
+          return;
+        }
+        downloadTextFile(logsToCsv(workoutLogs), exportFileName('rebld-workout-logs', 'csv'), 'text/csv');
+      } else if (kind === 'json') {
+        const workoutLogs = await fetchWorkoutLogs();
+        const healthMetrics = await collectPages(cursor =>
+          convex.query(api.dataExport.getExportHealthMetrics, { userId, cursor })
+        );
+        const bundle = buildExportBundle({ ...summary, workoutLogs, healthMetrics } as unknown as ExportData);
+        downloadTextFile(JSON.stringify(bundle, null, 2), exportFileName('rebld-export', 'json'), 'application/json');
+      } else {
+        const plan = summary.plans.find(p => p._id === summary.activePlanId);
+        if (!plan) {
+          notify({ type: 'info', message: 'No active plan to print' });
+          return;
+        }
+        printPlan(plan as unknown as WorkoutPlan);
+      }
+    } catch (error) {
+      notify({ type: 'error', message: 'Export failed. Please try again.' });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-end" onClick={onClose}>
+      <div
+        className="w-full max-h-[85vh] bg-black border-t border-white/20 flex flex-col pb-safe-bottom"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="px-6 py-5 border-b border-white/10 flex justify-between items-center">
+          <div>
+            <p className="font-mono text-[10px] text-[#525252] tracking-widest uppercase">YOUR TRAINING DATA</p>
+            <h2 className="text-xl font-black italic tracking-tighter text-white uppercase leading-none">EXPORT</h2>
+          </div>
+          <button onClick={onClose} className="w-9 h-9 border border-white/20 flex items-center justify-center text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto px-6 py-5 space-y-2">
+          {EXPORT_OPTIONS.map(({ kind, title, description }) => (
+            <button
+              key={kind}
+              onClick={() => handleExport(kind)}
+              disabled={pending !== null}
+              className={cn(
+                'w-full text-left border border-white/10 p-4 flex items-center justify-between gap-4',
+                'hover:border-white/30 transition-colors disabled:opacity-50'
+              )}
+            >
+              <div>
+                <p className="text-sm font-bold text-white uppercase tracking-wide">{title}</p>
+                <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest mt-1">{description}</p>
+              </div>
+              {pending === kind ? (
+                <span className="font-mono text-[10px] text-[#737373] uppercase tracking-widest">...</span>
+              ) : (
+                <Download className="w-4 h-4 text-white shrink-0" />
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
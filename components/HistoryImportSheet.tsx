@@ -0,0 +1,317 @@
+import React, { useState } from 'react';
+import { useConvex, useMutation } from 'convex/react';
+import { X, Upload } from 'lucide-react';
+import { api } from '../convex/_generated/api';
+import { WeightUnit } from '../lib/unitUtils';
+import {
+  parseWorkoutHistory,
+  applyExerciseNameMapping,
+  ParsedHistory,
+  IMPORT_BATCH_SIZE,
+  SOURCE_LABELS,
+} from '../services/workoutHistoryImportService';
+import { notify } from './layout/Toast';
+import { cn } from '../lib/utils';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// HISTORY IMPORT - Strong / Hevy / generic CSV → workout logs (Editorial Noir)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface HistoryImportSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+}
+
+type Step = 'select' | 'review' | 'importing' | 'done';
+
+interface ImportTotals {
+  imported: number;
+  skipped: number;
+  personalRecords: number;
+  currentStreak: number | null;
+}
+
+const RESOLVE_CHUNK = 200;
+
+const formatDay = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export default function HistoryImportSheet({ isOpen, onClose, userId }: HistoryImportSheetProps) {
+  const convex = useConvex();
+  const importWorkoutHistoryMutation = useMutation(api.historyImport.importWorkoutHistory);
+
+  const [step, setStep] = useState<Step>('select');
+  const [unit, setUnit] = useState<WeightUnit>('kg');
+  const [parsed, setParsed] = useState<ParsedHistory | null>(null);
+  const [matched, setMatched] = useState<Record<string, string>>({});
+  const [renames, setRenames] = useState<Record<string, string>>({});
+  const [isReading, setIsReading] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [totals, setTotals] = useState<ImportTotals | null>(null);
+
+  const unmatchedNames = parsed ? parsed.exerciseNames.filter(name => !matched[name]) : [];
+
+  const reset = () => {
+    setStep('select');
+    setParsed(null);
+    setMatched({});
+    setRenames({});
+    setProgress({ done: 0, total: 0 });
+    setTotals(null);
+  };
+
+  const handleClose = () => {
+    if (step === 'importing') return;
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const history = parseWorkoutHistory(await file.text(), unit);
+      if (history.workouts.length === 0) {
+        notify({ type: 'error', message: 'No workouts found in this file' });
+        return;
+      }
+
+      const resolved: Record<string, string> = {};
+      for (let i = 0; i < history.exerciseNames.length; i += RESOLVE_CHUNK) {
+        const results = await convex.query(api.historyImport.resolveImportedExercises, {
+          userId,
+          names: history.exerciseNames.slice(i, i + RESOLVE_CHUNK),
+        });
+        results.forEach(({ name, resolvedName }) => {
+          if (resolvedName) resolved[name] = resolvedName;
+        });
+      }
+
+      setParsed(history);
+      setMatched(resolved);
+      setRenames({});
+      setStep('review');
+    } catch (error) {
+      notify({ type: 'error', message: error instanceof Error ? error.message : 'Could not read this file' });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+
+    const workouts = applyExerciseNameMapping(parsed.workouts, { ...matched, ...renames });
+    const batches: typeof workouts[] = [];
+    for (let i = 0; i < workouts.length; i += IMPORT_BATCH_SIZE) {
+      batches.push(workouts.slice(i, i + IMPORT_BATCH_SIZE));
+    }
+
+    setStep('importing');
+    setProgress({ done: 0, total: workouts.length });
+
+    const running: ImportTotals = { imported: 0, skipped: 0, personalRecords: 0, currentStreak: null };
+    try {
+      for (let i = 0; i < batches.length; i++) {
+        const result = await importWorkoutHistoryMutation({
+          userId,
+          source: parsed.source,
+          workouts: batches[i],
+          finalBatch: i === batches.length - 1,
+        });
+        running.imported += result.imported;
+        running.skipped += result.skipped;
+        running.personalRecords += result.personalRecords;
+        running.currentStreak = result.streak?.currentStreak ?? running.currentStreak;
+        setProgress(prev => ({ ...prev, done: Math.min(prev.total, prev.done + batches[i].length) }));
+      }
+      setTotals(running);
+      setStep('done');
+    } catch (error) {
+      // Batches already written stay imported; re-running skips them
+      setTotals(running);
+      setStep('done');
+      notify({ type: 'error', message: 'Import stopped early. Run it again to finish - imported workouts are skipped.' });
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-end" onClick={handleClose}>
+      <div
+        className="w-full max-h-[85vh] bg-black border-t border-white/20 flex flex-col pb-safe-bottom"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="px-6 py-5 border-b border-white/10 flex justify-between items-center">
+          <div>
+            <p className="font-mono text-[10px] text-[#525252] tracking-widest uppercase">
+              {parsed ? `${SOURCE_LABELS[parsed.source]} EXPORT` : 'STRONG · HEVY · CSV'}
+            </p>
+            <h2 className="text-xl font-black italic tracking-tighter text-white uppercase leading-none">
+              IMPORT HISTORY
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            disabled={step === 'importing'}
+            className="w-9 h-9 border border-white/20 flex items-center justify-center text-white disabled:opacity-30"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto px-6 py-5">
+          {step === 'select' && (
+            <div className="space-y-6">
+              <div>
+                <p className="font-mono text-[10px] text-[#525252] mb-3 uppercase tracking-widest">
+                  WEIGHTS IN THE FILE ARE IN
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['kg', 'lbs'] as WeightUnit[]).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setUnit(option)}
+                      className={cn(
+                        'py-3 border font-mono text-xs uppercase tracking-widest',
+                        unit === option ? 'border-white bg-white text-black' : 'border-white/20 text-[#A3A3A3]'
+                      )}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+                <p className="font-mono text-[10px] text-[#525252] mt-2 uppercase tracking-widest">
+                  HEVY FILES NAME THEIR UNIT - THIS ONLY APPLIES TO STRONG AND CSV
+                </p>
+              </div>
+
+              <label className={cn(
+                'flex flex-col items-center justify-center gap-3 border border-dashed border-white/30 py-10 cursor-pointer',
+                isReading && 'opacity-50 pointer-events-none'
+              )}>
+                <Upload className="w-6 h-6 text-white" />
+                <span className="text-sm font-bold text-white uppercase tracking-wide">
+                  {isReading ? 'READING...' : 'CHOOSE CSV FILE'}
+                </span>
+                <input type="file" className="sr-only" accept=".csv,text/csv" onChange={handleFileChange} />
+              </label>
+
+              <div className="border-t border-white/10 pt-4">
+                <p className="font-mono text-[10px] text-[#525252] mb-2 uppercase tracking-widest">GENERIC CSV COLUMNS</p>
+                <p className="font-mono text-[10px] text-[#737373] leading-relaxed">
+                  date, exercise (required) · workout, set, weight, unit, reps, rpe, duration_seconds, distance_m, duration_minutes
+                </p>
+              </div>
+            </div>
+          )}
+
+          {step === 'review' && parsed && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-3 gap-2">
+                {[
+                  { label: 'WORKOUTS', value: parsed.workouts.length },
+                  { label: 'SETS', value: parsed.setCount },
+                  { label: 'EXERCISES', value: parsed.exerciseNames.length },
+                ].map(({ label, value }) => (
+                  <div key={label} className="border border-white/10 p-3">
+                    <p className="text-2xl font-black text-white">{value}</p>
+                    <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">{label}</p>
+                  </div>
+                ))}
+              </div>
+              <p className="font-mono text-[10px] text-[#737373] uppercase tracking-widest">
+                {formatDay(parsed.workouts[0].date)} → {formatDay(parsed.workouts[parsed.workouts.length - 1].date)}
+                {parsed.skippedRows > 0 && ` · ${parsed.skippedRows} ROWS WITHOUT SET DATA SKIPPED`}
+              </p>
+
+              {unmatchedNames.length > 0 ? (
+                <div>
+                  <p className="font-mono text-[10px] text-[#525252] mb-3 uppercase tracking-widest">
+                    {unmatchedNames.length} UNMATCHED {unmatchedNames.length === 1 ? 'EXERCISE' : 'EXERCISES'} · RENAME OR KEEP AS IS
+                  </p>
+                  <div className="space-y-2">
+                    {unmatchedNames.map((name) => (
+                      <div key={name} className="border-b border-white/10 pb-2">
+                        <p className="font-mono text-[10px] text-[#737373] uppercase tracking-widest mb-1">{name}</p>
+                        <input
+                          type="text"
+                          value={renames[name] ?? name}
+                          onChange={(e) => setRenames(prev => ({ ...prev, [name]: e.target.value }))}
+                          className="w-full bg-transparent border border-white/20 px-3 py-2 text-sm text-white focus:border-white outline-none"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <p className="font-mono text-[10px] text-[#22C55E] uppercase tracking-widest">
+                  EVERY EXERCISE MATCHED THE LIBRARY
+                </p>
+              )}
+            </div>
+          )}
+
+          {step === 'importing' && (
+            <div className="py-10 text-center">
+              <p className="text-4xl font-black text-white">{progress.done}/{progress.total}</p>
+              <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest mt-2">
+                IMPORTING WORKOUTS · KEEP THIS OPEN
+              </p>
+            </div>
+          )}
+
+          {step === 'done' && totals && (
+            <div className="space-y-3">
+              <p className="text-sm font-bold text-white uppercase tracking-wide">
+                {totals.imported} {totals.imported === 1 ? 'WORKOUT' : 'WORKOUTS'} IMPORTED
+              </p>
+              {totals.skipped > 0 && (
+                <p className="font-mono text-[10px] text-[#737373] uppercase tracking-widest">
+                  {totals.skipped} ALREADY LOGGED OR INVALID · SKIPPED
+                </p>
+              )}
+              <p className="font-mono text-[10px] text-[#737373] uppercase tracking-widest">
+                {totals.personalRecords} PERSONAL RECORDS SET
+                {totals.currentStreak !== null && ` · STREAK ${totals.currentStreak}`}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {step === 'review' && (
+          <footer className="px-6 py-4 border-t border-white/10 grid grid-cols-2 gap-2">
+            <button
+              onClick={reset}
+              className="py-3 border border-white/20 font-mono text-xs text-white uppercase tracking-widest"
+            >
+              BACK
+            </button>
+            <button
+              onClick={handleImport}
+              className="py-3 bg-white font-mono text-xs text-black font-bold uppercase tracking-widest"
+            >
+              IMPORT
+            </button>
+          </footer>
+        )}
+
+        {step === 'done' && (
+          <footer className="px-6 py-4 border-t border-white/10">
+            <button
+              onClick={handleClose}
+              className="w-full py-3 bg-white font-mono text-xs text-black font-bold uppercase tracking-widest"
+            >
+              DONE
+            </button>
+          </footer>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { X, Heart, Copy, Flag } from 'lucide-react';
+import { api } from '../convex/_generated/api';
+import { Id } from '../convex/_generated/dataModel';
+import { notify } from './layout/Toast';
+import { cn } from '../lib/utils';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// COMMUNITY PLAN - Grade breakdown, week outline, like / copy / report
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface MarketplacePlanSheetProps {
+  submittedPlanId: Id<'userSubmittedPlans'> | null;
+  onClose: () => void;
+  userId: string;
+}
+
+type ReportReason = 'unsafe' | 'spam' | 'inappropriate' | 'copyright' | 'other';
+
+const REPORT_REASONS: Array<{ reason: ReportReason; label: string }> = [
+  { reason: 'unsafe', label: 'UNSAFE PROGRAMMING' },
+  { reason: 'spam', label: 'SPAM' },
+  { reason: 'inappropriate', label: 'INAPPROPRIATE' },
+  { reason: 'copyright', label: 'COPIED WITHOUT CREDIT' },
+  { reason: 'other', label: 'OTHER' },
+];
+
+const SCORE_LABELS: Array<{ key: 'balance' | 'progression' | 'recovery' | 'specificity'; label: string }> = [
+  { key: 'balance', label: 'BALANCE' },
+  { key: 'progression', label: 'PROGRESSION' },
+  { key: 'recovery', label: 'RECOVERY' },
+  { key: 'specificity', label: 'SPECIFICITY' },
+];
+
+const dayExercises = (day: any): string[] => {
+  const blocks = day?.sessions?.length ? day.sessions.flatMap((s: any) => s.blocks || []) : day?.blocks || [];
+  return blocks.flatMap((b: any) => (b.exercises || []).map((ex: any) => ex.exercise_name)).filter(Boolean);
+};
+
+export default function MarketplacePlanSheet({ submittedPlanId, onClose, userId }: MarketplacePlanSheetProps) {
+  const plan = useQuery(
+    api.marketplaceQueries.getSubmittedPlan,
+    submittedPlanId ? { userId, submittedPlanId } : 'skip'
+  );
+  const toggleLike = useMutation(api.marketplaceMutations.toggleSubmittedPlanLike);
+  const copyPlan = useMutation(api.marketplaceMutations.copySubmittedPlan);
+  const reportPlan = useMutation(api.marketplaceMutations.reportSubmittedPlan);
+  const [isCopying, setIsCopying] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+
+  if (!submittedPlanId) return null;
+
+  const handleLike = async () => {
+    try {
+      await toggleLike({ userId, submittedPlanId });
+    } catch (e: any) {
+      notify({ type: 'error', message: e.message });
+    }
+  };
+
+  const handleCopy = async (setActive: boolean) => {
+    setIsCopying(true);
+    try {
+      await copyPlan({ userId, submittedPlanId, setActive });
+      notify({ type: 'success', message: setActive ? 'PLAN ACTIVATED' : 'SAVED TO YOUR PLANS' });
+    } catch (e: any) {
+      notify({ type: 'error', message: e.message });
+    } finally {
+      setIsCopying(false);
+    }
+  };
+
+  const handleReport = async (reason: ReportReason) => {
+    try {
+      await reportPlan({ userId, submittedPlanId, reason });
+      notify({ type: 'success', message: 'REPORT SENT · THANKS' });
+      setShowReport(false);
+    } catch (e: any) {
+      notify({ type: 'error', message: e.message });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-end" onClick={onClose}>
+      <div
+        className="w-full max-h-[90vh] bg-black border-t border-white/20 flex flex-col pb-safe-bottom"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="px-6 py-5 border-b border-white/10 flex justify-between items-start gap-4">
+          <div>
+            <p className="font-mono text-[10px] text-[#525252] tracking-widest uppercase">
+              {plan ? `${plan.category} · ${plan.difficulty} · ${plan.trainingDays} DAYS/WK` : 'COMMUNITY PLAN'}
+            </p>
+            <h2 className="text-xl font-black italic tracking-tighter text-white uppercase leading-none mt-1">
+              {plan?.title || '...'}
+            </h2>
+          </div>
+          <button onClick={onClose} className="w-9 h-9 shrink-0 border border-white/20 flex items-center justify-center text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </header>
+
+        {plan === null ? (
+          <p className="px-6 py-8 font-mono text-[10px] text-[#525252] uppercase tracking-widest">PLAN NO LONGER AVAILABLE</p>
+        ) : plan && (
+          <>
+            <div className="flex-1 overflow-y-auto px-6 py-5 space-y-6">
+              {/* GRADE */}
+              <div className="flex items-center gap-5">
+                <span className="text-6xl font-black italic text-white leading-none">{plan.athleticGrade}</span>
+                <div className="flex-1 space-y-1.5">
+                  {SCORE_LABELS.map(({ key, label }) => (
+                    <div key={key} className="flex items-center gap-2">
+                      <span className="w-24 font-mono text-[9px] text-[#525252] uppercase tracking-widest">{label}</span>
+                      <div className="flex-1 h-1 bg-white/10">
+                        <div className="h-full bg-white" style={{ width: `${plan.gradeAnalysis.scoreBreakdown[key]}%` }} />
+                      </div>
+                      <span className="w-6 text-right font-mono text-[10px] text-white/60">{plan.gradeAnalysis.scoreBreakdown[key]}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {plan.gradeAnalysis.strengths.length > 0 && (
+                <div>
+                  <p className="font-mono text-[10px] text-white/40 mb-2 uppercase tracking-widest">STRENGTHS</p>
+                  {plan.gradeAnalysis.strengths.map(s => (
+                    <p key={s} className="text-xs text-white/80 mb-1">+ {s}</p>
+                  ))}
+                </div>
+              )}
+              {plan.gradeAnalysis.weaknesses.length > 0 && (
+                <div>
+                  <p className="font-mono text-[10px] text-white/40 mb-2 uppercase tracking-widest">WATCH OUT</p>
+                  {plan.gradeAnalysis.weaknesses.map(w => (
+                    <p key={w} className="text-xs text-white/60 mb-1">– {w}</p>
+                  ))}
+                </div>
+              )}
+
+              {/* WEEK OUTLINE */}
+              <div>
+                <p className="font-mono text-[10px] text-white/40 mb-2 uppercase tracking-widest">THE WEEK</p>
+                <div className="divide-y divide-white/10 border-y border-white/10">
+                  {plan.weeklyPlan.map((day: any, i: number) => {
+                    const exercises = dayExercises(day);
+                    return (
+                      <div key={i} className="py-3">
+                        <p className="text-sm font-bold text-white uppercase tracking-wide">{day.focus || `Day ${i + 1}`}</p>
+                        <p className="font-mono text-[10px] text-[#737373] mt-1">
+                          {exercises.length > 0 ? exercises.join(' · ') : 'REST'}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {!plan.isMine && (
+                showReport ? (
+                  <div>
+                    <p className="font-mono text-[10px] text-white/40 mb-2 uppercase tracking-widest">REPORT REASON</p>
+                    <div className="flex flex-wrap gap-2">
+                      {REPORT_REASONS.map(({ reason, label }) => (
+                        <button
+                          key={reason}
+                          onClick={() => handleReport(reason)}
+                          className="px-3 py-2 border border-white/20 font-mono text-[10px] text-white/60 uppercase tracking-widest hover:border-red-500 hover:text-red-500"
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setShowReport(true)}
+                    disabled={plan.reportedByMe}
+                    className="flex items-center gap-2 font-mono text-[10px] text-[#525252] uppercase tracking-widest hover:text-red-500 disabled:opacity-50"
+                  >
+                    <Flag className="w-3 h-3" />
+                    {plan.reportedByMe ? 'REPORTED' : 'REPORT PLAN'}
+                  </button>
+                )
+              )}
+            </div>
+
+            {/* ACTIONS */}
+            <div className="px-6 py-4 border-t border-white/10 flex gap-2">
+              <button
+                onClick={handleLike}
+                aria-label={plan.likedByMe ? 'Unlike' : 'Like'}
+                className={cn(
+                  'px-4 border flex items-center gap-2 font-mono text-xs',
+                  plan.likedByMe ? 'border-white bg-white text-black' : 'border-white/20 text-white'
+                )}
+              >
+                <Heart className={cn('w-4 h-4', plan.likedByMe && 'fill-current')} />
+                {plan.likes}
+              </button>
+              <button
+                onClick={() => handleCopy(false)}
+                disabled={isCopying}
+                className="px-4 border border-white/20 text-white flex items-center gap-2 font-mono text-xs disabled:opacity-50"
+              >
+                <Copy className="w-4 h-4" />
+                {plan.copies}
+              </button>
+              <button
+                onClick={() => handleCopy(true)}
+                disabled={isCopying}
+                className="flex-1 py-4 bg-white text-black font-black uppercase tracking-widest text-xs disabled:opacity-30"
+              >
+                {isCopying ? 'COPYING...' : 'USE THIS PLAN'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
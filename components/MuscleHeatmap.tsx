@@ -0,0 +1,259 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { cn } from '../lib/utils';
+
+/* ═══════════════════════════════════════════════════════════════
+   MUSCLE HEATMAP - Weekly hard sets per muscle, front + back
+
+   Sets come from convex/muscleVolume.ts (primary movers count a full
+   set, secondary movers half). Colour shows where the muscle sits
+   against the weekly set range for the user's goal.
+   ═══════════════════════════════════════════════════════════════ */
+
+type Muscle =
+  | 'chest' | 'front_delts' | 'side_delts' | 'rear_delts' | 'biceps' | 'triceps' | 'forearms'
+  | 'abs' | 'obliques' | 'upper_back' | 'lats' | 'lower_back' | 'glutes' | 'quads'
+  | 'hamstrings' | 'adductors' | 'calves';
+
+type View = 'logged' | 'planned';
+
+interface MuscleHeatmapProps {
+  userId: string;
+}
+
+const MUSCLE_LABELS: Record<Muscle, string> = {
+  chest: 'chest',
+  front_delts: 'front delts',
+  side_delts: 'side delts',
+  rear_delts: 'rear delts',
+  biceps: 'biceps',
+  triceps: 'triceps',
+  forearms: 'forearms',
+  abs: 'abs',
+  obliques: 'obliques',
+  upper_back: 'upper back',
+  lats: 'lats',
+  lower_back: 'lower back',
+  glutes: 'glutes',
+  quads: 'quads',
+  hamstrings: 'hamstrings',
+  adductors: 'adductors',
+  calves: 'calves',
+};
+
+const GOAL_LABELS: Record<string, string> = {
+  hypertrophy: 'Hypertrophy',
+  strength: 'Strength',
+  athletic: 'Athletic',
+  health: 'Health',
+};
+
+// Body outline regions (viewBox 0 0 120 230, drawn for the left side and mirrored)
+type Region =
+  | { muscle: Muscle; ellipse: [number, number, number, number] } // cx, cy, rx, ry
+  | { muscle: Muscle; rect: [number, number, number, number] }; // x, y, w, h
+
+const FRONT_REGIONS: Region[] = [
+  { muscle: 'adductors', ellipse: [56, 132, 3.5, 13] },
+  { muscle: 'front_delts', ellipse: [39, 50, 7, 6.5] },
+  { muscle: 'side_delts', ellipse: [31, 55, 4, 7] },
+  { muscle: 'chest', ellipse: [50, 59, 10, 8] },
+  { muscle: 'biceps', ellipse: [31, 77, 5, 11] },
+  { muscle: 'forearms', ellipse: [28, 103, 4.5, 12] },
+  { muscle: 'obliques', rect: [42, 71, 8, 30] },
+  { muscle: 'quads', ellipse: [49, 142, 8, 22] },
+  { muscle: 'calves', ellipse: [49, 192, 5, 16] },
+];
+
+const FRONT_CENTER: Region[] = [
+  { muscle: 'abs', rect: [52, 68, 16, 36] },
+];
+
+const BACK_REGIONS: Region[] = [
+  { muscle: 'rear_delts', ellipse: [39, 52, 7, 6] },
+  { muscle: 'side_delts', ellipse: [31, 55, 4, 7] },
+  { muscle: 'triceps', ellipse: [31, 77, 5, 11] },
+  { muscle: 'forearms', ellipse: [28, 103, 4.5, 12] },
+  { muscle: 'lats', ellipse: [48, 77, 8, 14] },
+  { muscle: 'glutes', ellipse: [51, 117, 9, 9] },
+  { muscle: 'hamstrings', ellipse: [50, 147, 8, 18] },
+  { muscle: 'calves', ellipse: [49, 190, 6, 15] },
+];
+
+const BACK_CENTER: Region[] = [
+  { muscle: 'upper_back', ellipse: [60, 52, 13, 9] },
+  { muscle: 'lower_back', rect: [53, 85, 14, 18] },
+];
+
+const mirror = (region: Region): Region =>
+  'ellipse' in region
+    ? { muscle: region.muscle, ellipse: [120 - region.ellipse[0], region.ellipse[1], region.ellipse[2], region.ellipse[3]] }
+    : { muscle: region.muscle, rect: [120 - region.rect[0] - region.rect[2], region.rect[1], region.rect[2], region.rect[3]] };
+
+const getLocalDayStartDaysAgo = (days: number): string => {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - days);
+  return date.toISOString();
+};
+
+const formatMuscleList = (muscles: string[]): string =>
+  muscles.slice(0, 4).map(m => MUSCLE_LABELS[m as Muscle] || m).join(', ');
+
+function BodyFigure({ label, regions, center, fillFor, titleFor }: {
+  label: string;
+  regions: Region[];
+  center: Region[];
+  fillFor: (muscle: Muscle) => string;
+  titleFor: (muscle: Muscle) => string;
+}) {
+  const shapes = [...regions, ...regions.map(mirror), ...center];
+
+  return (
+    <div className="flex-1 flex flex-col items-center">
+      <svg viewBox="0 0 120 230" className="w-full max-w-[140px]" role="img" aria-label={`${label} muscle map`}>
+        {/* Silhouette */}
+        <circle cx={60} cy={18} r={11} className="fill-white/[0.06]" />
+        <rect x={54} y={29} width={12} height={10} className="fill-white/[0.06]" />
+        <rect x={38} y={42} width={44} height={70} rx={12} className="fill-white/[0.06]" />
+        <rect x={40} y={108} width={40} height={105} rx={10} className="fill-white/[0.04]" />
+
+        {shapes.map((region, i) => (
+          'ellipse' in region ? (
+            <ellipse
+              key={i}
+              cx={region.ellipse[0]}
+              cy={region.ellipse[1]}
+              rx={region.ellipse[2]}
+              ry={region.ellipse[3]}
+              fill={fillFor(region.muscle)}
+            >
+              <title>{titleFor(region.muscle)}</title>
+            </ellipse>
+          ) : (
+            <rect
+              key={i}
+              x={region.rect[0]}
+              y={region.rect[1]}
+              width={region.rect[2]}
+              height={region.rect[3]}
+              rx={3}
+              fill={fillFor(region.muscle)}
+            >
+              <title>{titleFor(region.muscle)}</title>
+            </rect>
+          )
+        ))}
+      </svg>
+      <p className="text-white/50 text-[10px] uppercase tracking-wider mt-2">{label}</p>
+    </div>
+  );
+}
+
+export default function MuscleHeatmap({ userId }: MuscleHeatmapProps) {
+  const [view, setView] = useState<View>('logged');
+
+  // Rolling 7 days from local midnight - same window as the kg/week stat
+  const since = useMemo(() => getLocalDayStartDaysAgo(6), []);
+  const volume = useQuery(api.muscleVolume.getWeeklyMuscleVolume, { userId, since });
+
+  const setsByMuscle = useMemo(() => {
+    const map = new Map<string, number>();
+    volume?.muscles.forEach(m => map.set(m.muscle, view === 'logged' ? m.logged : m.planned));
+    return map;
+  }, [volume, view]);
+
+  if (!volume) return null;
+
+  const { min, max } = volume.range;
+  const totalLogged = volume.muscles.reduce((sum, m) => sum + m.logged, 0);
+
+  const fillFor = (muscle: Muscle): string => {
+    const sets = setsByMuscle.get(muscle) || 0;
+    if (sets === 0) return 'rgba(255,255,255,0.08)';
+    if (sets > max) return 'rgba(251,191,36,0.9)'; // Over the range
+    if (sets < min) return `rgba(239,68,68,${(0.2 + 0.5 * (sets / min)).toFixed(2)})`;
+    return 'rgba(239,68,68,1)';
+  };
+
+  const titleFor = (muscle: Muscle): string =>
+    `${MUSCLE_LABELS[muscle]}: ${setsByMuscle.get(muscle) || 0} sets`;
+
+  return (
+    <div className="mb-6 p-4 rounded-2xl bg-white/[0.04] border border-white/10">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <p className="text-white/50 text-xs uppercase tracking-wider">Muscle Volume</p>
+          <p className="text-white/30 text-[10px] mt-0.5">
+            {GOAL_LABELS[volume.goal] || volume.goal} · {min}–{max} hard sets/week
+          </p>
+        </div>
+        {volume.hasPlan && (
+          <div className="flex rounded-full bg-white/10 p-0.5">
+            {(['logged', 'planned'] as View[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={cn(
+                  'px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider transition-colors',
+                  view === option ? 'bg-white text-black' : 'text-white/50'
+                )}
+              >
+                {option === 'logged' ? '7 Days' : 'Plan'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-4">
+        <BodyFigure label="Front" regions={FRONT_REGIONS} center={FRONT_CENTER} fillFor={fillFor} titleFor={titleFor} />
+        <BodyFigure label="Back" regions={BACK_REGIONS} center={BACK_CENTER} fillFor={fillFor} titleFor={titleFor} />
+      </div>
+
+      {/* Legend */}
+      <div className="flex justify-center gap-4 mt-3">
+        {[
+          { label: 'Under', color: 'rgba(239,68,68,0.4)' },
+          { label: 'In range', color: 'rgba(239,68,68,1)' },
+          { label: 'Over', color: 'rgba(251,191,36,0.9)' },
+        ].map(({ label, color }) => (
+          <div key={label} className="flex items-center gap-1.5">
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color }} />
+            <span className="text-white/50 text-[10px]">{label}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Insights */}
+      <div className="mt-4 space-y-1.5">
+        {view === 'logged' && totalLogged === 0 ? (
+          <p className="text-white/50 text-xs">Log a strength session to see which muscles you're training.</p>
+        ) : view === 'logged' ? (
+          <>
+            {volume.underTrained.length > 0 && (
+              <p className="text-white/70 text-xs">
+                <span className="text-[#EF4444] font-semibold">Under-trained:</span> {formatMuscleList(volume.underTrained)}
+              </p>
+            )}
+            {volume.overTrained.length > 0 && (
+              <p className="text-white/70 text-xs">
+                <span className="text-amber-400 font-semibold">Above range:</span> {formatMuscleList(volume.overTrained)}
+              </p>
+            )}
+            {volume.underTrained.length === 0 && volume.overTrained.length === 0 && (
+              <p className="text-green-400 text-xs">Every major muscle group is in range this week.</p>
+            )}
+          </>
+        ) : volume.planGaps.length > 0 ? (
+          <p className="text-white/70 text-xs">
+            <span className="text-[#EF4444] font-semibold">Plan is light on:</span> {formatMuscleList(volume.planGaps)}
+          </p>
+        ) : (
+          <p className="text-green-400 text-xs">Your plan covers every major muscle group.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,14 +6,17 @@
  * - Appears at top when connection lost
  * - Auto-dismisses when back online
  * - Respects safe area insets
+ * - Pending-sync badge while queued mutations are waiting to replay
  */
 
 import React, { useEffect, useState } from 'react';
 import { useOnlineStatus, formatConnectionStatus } from '@/hooks/useOnlineStatus';
-import { WifiOffIcon, WifiIcon, AlertTriangleIcon } from 'lucide-react';
+import { WifiOffIcon, WifiIcon, AlertTriangleIcon, RefreshCwIcon } from 'lucide-react';
+import { offlineQueue, useOfflineQueueStatus } from '@/services/offlineService';
 
 export default function OfflineIndicator() {
   const status = useOnlineStatus();
+  const queue = useOfflineQueueStatus();
   const [show, setShow] = useState(false);
   const [justReconnected, setJustReconnected] = useState(false);
 
@@ -33,7 +36,9 @@ export default function OfflineIndicator() {
     }
   }, [status.isOnline, show]);
 
-  if (!show) return null;
+  if (!show) {
+    return status.isOnline ? <PendingSyncBadge pending={queue.pending} failed={queue.failed} /> : null;
+  }
 
   const bgColor = justReconnected ? 'bg-green-500 text-white' : 'bg-orange-500 text-white';
 
@@ -61,7 +66,9 @@ export default function OfflineIndicator() {
           </p>
           {!justReconnected && (
             <p className="text-xs opacity-90 mt-0.5">
-              Changes will sync when reconnected
+              {queue.pending > 0
+                ? `${queue.pending} ${queue.pending === 1 ? 'change' : 'changes'} will sync when reconnected`
+                : 'Changes will sync when reconnected'}
             </p>
           )}
         </div>
@@ -93,6 +100,38 @@ export default function OfflineIndicator() {
   );
 }
 
+/**
+ * Pending Sync Badge
+ * Small pill shown while online and queued mutations are still replaying,
+ * or when some gave up after repeated failures (tap to retry).
+ */
+function PendingSyncBadge({ pending, failed }: { pending: number; failed: number }) {
+  if (pending === 0 && failed === 0) return null;
+
+  return (
+    <div
+      className="fixed top-0 left-0 right-0 z-50 px-4 pt-safe-top flex justify-center pointer-events-none"
+      role="status"
+      aria-live="polite"
+    >
+      {failed > 0 ? (
+        <button
+          onClick={() => offlineQueue.retryFailed()}
+          className="pointer-events-auto mt-2 rounded-full shadow-lg px-3 py-1.5 flex items-center gap-2 bg-red-500 text-white text-xs font-medium active:scale-95 transition-transform"
+        >
+          <AlertTriangleIcon className="h-3.5 w-3.5" />
+          {failed} {failed === 1 ? 'change' : 'changes'} failed to sync · Retry
+        </button>
+      ) : (
+        <div className="mt-2 rounded-full shadow-lg px-3 py-1.5 flex items-center gap-2 bg-orange-500 text-white text-xs font-medium">
+          <RefreshCwIcon className="h-3.5 w-3.5 animate-spin" />
+          Syncing {pending} {pending === 1 ? 'change' : 'changes'}
+        </div>
+      )}
+    </div>
+  );
+}
+
 /**
  * Connection Quality Indicator (for Settings/Debug)
  */
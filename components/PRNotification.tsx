@@ -3,10 +3,12 @@ import { TrophyIcon } from './icons';
 
 interface PRNotificationProps {
   message: string | null;
+  /** Secondary line, e.g. "e1RM 120kg · 5RM 100kg" */
+  detail?: string | null;
   onDismiss: () => void;
 }
 
-const PRNotification: React.FC<PRNotificationProps> = ({ message, onDismiss }) => {
+const PRNotification: React.FC<PRNotificationProps> = ({ message, detail, onDismiss }) => {
   const [isVisible, setIsVisible] = useState(false);
 
   useEffect(() => {
@@ -33,7 +35,10 @@ const PRNotification: React.FC<PRNotificationProps> = ({ message, onDismiss }) =
           <div className="w-8 h-8 rounded-full bg-yellow-500/20 flex items-center justify-center">
             <TrophyIcon className="w-5 h-5 text-yellow-400" />
           </div>
-          <p className="text-sm font-semibold text-yellow-300 pr-2">{message}</p>
+          <div className="pr-2">
+            <p className="text-sm font-semibold text-yellow-300">{message}</p>
+            {detail && <p className="text-xs text-yellow-200/70">{detail}</p>}
+          </div>
         </div>
       )}
     </div>
@@ -19,6 +19,8 @@ interface Periodization {
   phase_description?: string;
   weeks_in_phase?: number;
   phase_end_week?: number;
+  is_deload?: boolean;
+  deload_reason?: string;
 }
 
 interface PeriodizationBadgeProps {
@@ -94,6 +96,8 @@ export default function PeriodizationBadge({
   // Calculate if this is a deload week (every 3-4 weeks depending on phase)
   const isDeloadWeek = useMemo(() => {
     if (!periodization) return false;
+    // Generated weeks record it (scheduled or detected) - prefer that
+    if (periodization.is_deload !== undefined) return periodization.is_deload;
     const { current_week, phase } = periodization;
 
     // Deload frequency by phase
@@ -121,7 +125,7 @@ export default function PeriodizationBadge({
 
   if (!periodization) return null;
 
-  const { total_weeks, current_week, phase, phase_description } = periodization;
+  const { total_weeks, current_week, phase, phase_description, deload_reason } = periodization;
   const config = PHASE_CONFIG[phase] || PHASE_CONFIG.base;
   const progress = (current_week / total_weeks) * 100;
 
@@ -198,6 +202,12 @@ export default function PeriodizationBadge({
         <div className="w-[15%] text-center">Taper</div>
       </div>
 
+      {isDeloadWeek && deload_reason && (
+        <p className="text-[var(--text-xs)] text-[var(--status-warning-bg)] mb-3">
+          {deload_reason}
+        </p>
+      )}
+
       {/* Description and countdown */}
       <div className="flex items-center justify-between">
         <p className="text-[var(--text-sm)] text-[var(--text-secondary)]">
@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { X, ChevronLeft } from 'lucide-react';
+import { api } from '../convex/_generated/api';
+import { Id } from '../convex/_generated/dataModel';
+import { PlanChange, PlanRevisionAuthor } from '../types';
+import { notify } from './layout/Toast';
+import { cn } from '../lib/utils';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PLAN HISTORY - Revision list, per-exercise diff and restore (Editorial Noir)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface PlanHistorySheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  planId: Id<"workoutPlans">;
+  userId: string;
+}
+
+const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const AUTHOR_LABELS: Record<PlanRevisionAuthor, string> = {
+  user: 'YOU',
+  chat: 'COACH CHAT',
+  ai: 'AI',
+  import: 'IMPORT',
+  coach: 'YOUR COACH',
+};
+
+const CHANGE_MARKERS: Record<PlanChange['kind'], string> = {
+  added: '+',
+  removed: '−',
+  modified: '~',
+  focus: '~',
+};
+
+const formatRevisionTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+function ChangeList({ changes, emptyLabel }: { changes: PlanChange[]; emptyLabel: string }) {
+  if (changes.length === 0) {
+    return <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest py-2">{emptyLabel}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {changes.map((change, i) => (
+        <div key={i} className="flex gap-3 border-b border-white/10 pb-2">
+          <span className={cn(
+            'font-mono text-sm font-bold w-3 shrink-0',
+            change.kind === 'added' && 'text-[#22C55E]',
+            change.kind === 'removed' && 'text-[#EF4444]',
+            (change.kind === 'modified' || change.kind === 'focus') && 'text-[#A3A3A3]'
+          )}>
+            {CHANGE_MARKERS[change.kind]}
+          </span>
+          <div className="min-w-0">
+            <p className="text-sm font-bold text-white uppercase tracking-wide truncate">
+              <span className="font-mono text-[10px] text-[#525252] mr-2">{DAYS[change.day_of_week - 1] || `D${change.day_of_week}`}</span>
+              {change.kind === 'focus' ? 'Focus' : change.exercise_name}
+            </p>
+            {(change.before || change.after) && (
+              <p className="font-mono text-[10px] text-[#737373]">
+                {change.before && <span className={cn(change.after && 'line-through')}>{change.before}</span>}
+                {change.before && change.after && ' → '}
+                {change.after && <span className="text-[#A3A3A3]">{change.after}</span>}
+              </p>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function PlanHistorySheet({ isOpen, onClose, planId, userId }: PlanHistorySheetProps) {
+  const [selectedRevisionId, setSelectedRevisionId] = useState<Id<"planRevisions"> | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const revisions = useQuery(
+    api.planRevisions.getPlanRevisions,
+    isOpen && userId ? { userId, planId } : "skip"
+  );
+  const revisionDiff = useQuery(
+    api.planRevisions.getPlanRevisionDiff,
+    isOpen && userId && selectedRevisionId ? { userId, revisionId: selectedRevisionId } : "skip"
+  );
+  const restorePlanRevisionMutation = useMutation(api.planRevisions.restorePlanRevision);
+
+  const selectedRevision = revisions?.find(r => r._id === selectedRevisionId) || null;
+
+  const handleClose = () => {
+    setSelectedRevisionId(null);
+    onClose();
+  };
+
+  const handleRestore = async () => {
+    if (!selectedRevisionId) return;
+    setIsRestoring(true);
+    try {
+      const result = await restorePlanRevisionMutation({ userId, revisionId: selectedRevisionId });
+      notify({ type: 'success', message: `Restored version ${result.revision}` });
+      setSelectedRevisionId(null);
+    } catch (error) {
+      notify({ type: 'error', message: 'Failed to restore this version' });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-end" onClick={handleClose}>
+      <div
+        className="w-full max-h-[85vh] bg-black border-t border-white/20 flex flex-col pb-safe-bottom"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="px-6 py-5 border-b border-white/10 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            {selectedRevisionId && (
+              <button onClick={() => setSelectedRevisionId(null)} className="text-white">
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+            )}
+            <div>
+              <p className="font-mono text-[10px] text-[#525252] tracking-widest uppercase">
+                {selectedRevision ? `VERSION ${selectedRevision.revision}` : 'REVISION HISTORY'}
+              </p>
+              <h2 className="text-xl font-black italic tracking-tighter text-white uppercase leading-none">
+                {selectedRevision ? selectedRevision.summary : 'PLAN HISTORY'}
+              </h2>
+            </div>
+          </div>
+          <button onClick={handleClose} className="w-9 h-9 border border-white/20 flex items-center justify-center text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto px-6 py-5">
+          {!selectedRevisionId && (
+            revisions === undefined ? (
+              <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">LOADING...</p>
+            ) : !revisions || revisions.length === 0 ? (
+              <p className="font-mono text-xs text-[#525252] uppercase tracking-widest">
+                NO REVISIONS YET. EDITS TO THIS PLAN WILL SHOW UP HERE.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {revisions.map((revision) => (
+                  <button
+                    key={revision._id}
+                    onClick={() => setSelectedRevisionId(revision._id)}
+                    className="w-full text-left border border-white/10 p-4 hover:border-white/30 transition-colors"
+                  >
+                    <div className="flex justify-between items-baseline mb-1">
+                      <span className="font-mono text-[10px] text-[#737373] uppercase tracking-widest">
+                        V{revision.revision} · {AUTHOR_LABELS[revision.author]} · {formatRevisionTime(revision.createdAt)}
+                      </span>
+                      {revision.isCurrent && (
+                        <span className="font-mono text-[10px] text-black bg-white px-1.5 uppercase tracking-widest">CURRENT</span>
+                      )}
+                    </div>
+                    <p className="text-sm font-bold text-white uppercase tracking-wide">{revision.summary}</p>
+                    {revision.changeCount > 0 && (
+                      <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest mt-1">
+                        {revision.changeCount} {revision.changeCount === 1 ? 'CHANGE' : 'CHANGES'}
+                      </p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )
+          )}
+
+          {selectedRevisionId && (
+            revisionDiff === undefined ? (
+              <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">LOADING...</p>
+            ) : !revisionDiff ? (
+              <p className="font-mono text-xs text-[#525252] uppercase tracking-widest">VERSION NOT FOUND</p>
+            ) : (
+              <div className="space-y-6">
+                <div>
+                  <p className="font-mono text-[10px] text-[#525252] mb-3 uppercase tracking-widest">
+                    WHAT CHANGED · {AUTHOR_LABELS[revisionDiff.author]} · {formatRevisionTime(revisionDiff.createdAt)}
+                  </p>
+                  <ChangeList changes={revisionDiff.changes} emptyLabel="FIRST RECORDED VERSION" />
+                </div>
+
+                {!selectedRevision?.isCurrent && (
+                  <div>
+                    <p className="font-mono text-[10px] text-[#525252] mb-3 uppercase tracking-widest">
+                      RESTORING WILL CHANGE YOUR CURRENT PLAN
+                    </p>
+                    <ChangeList changes={revisionDiff.restoreChanges} emptyLabel="SAME AS CURRENT PLAN" />
+                  </div>
+                )}
+              </div>
+            )
+          )}
+        </div>
+
+        {selectedRevisionId && revisionDiff && !selectedRevision?.isCurrent && (
+          <div className="px-6 py-4 border-t border-white/10">
+            <button
+              onClick={handleRestore}
+              disabled={isRestoring}
+              className="w-full h-12 border border-white text-white font-bold uppercase tracking-widest hover:bg-white hover:text-black transition-colors disabled:opacity-50"
+            >
+              {isRestoring ? 'RESTORING...' : `RESTORE VERSION ${revisionDiff.revision}`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,15 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
-import { WorkoutPlan, TrainingPreferences, TrainingSplit, SpecificGoal, BodyMetrics, CurrentStrength } from '../types';
+import { WorkoutPlan, TrainingPreferences, TrainingSplit, SpecificGoal, BodyMetrics, CurrentStrength, PlanSource } from '../types';
 import { LogoIcon, UploadIcon, SparklesIcon, XCircleIcon, DocumentIcon, ArrowLeftIcon, ArrowRightIcon, CheckIcon } from './icons';
 import { useUser } from '@clerk/clerk-react';
 import useUserProfile from '../hooks/useUserProfile';
+import useUsageQuota from '../hooks/useUsageQuota';
 import useOnboardingPersistence from '../hooks/useOnboardingPersistence';
 import { cn } from '../lib/utils';
 import { Button } from './ui/button';
-import { useMutation, useAction } from 'convex/react';
+import { useAction } from 'convex/react';
 import { api } from '../convex/_generated/api';
-import { hasExceededLimit, getLimitMessage, getRemainingUsage } from '../lib/rateLimiter';
 import { analytics, EventTypes } from '../services/analyticsService';
 
 // New onboarding step components
@@ -19,7 +19,7 @@ import PlanPreviewStep from './onboarding/PlanPreviewStep';
 import SwipeableOnboarding from './onboarding/SwipeableOnboarding';
 
 interface OnboardingProps {
-  onPlanGenerated: (plan: Omit<WorkoutPlan, 'id'>) => void;
+  onPlanGenerated: (plan: Omit<WorkoutPlan, 'id'>, source?: PlanSource) => void;
 }
 
 // Streamlined onboarding flow - 5 screens (was 9)
@@ -51,8 +51,7 @@ export default function Onboarding({ onPlanGenerated }: OnboardingProps) {
   const { t } = useTranslation();
   const { user } = useUser();
   const { userProfile, updateUserProfile } = useUserProfile();
-  const incrementPlanUsageMutation = useMutation(api.mutations.incrementPlanUsage);
-  const incrementParseUsageMutation = useMutation(api.mutations.incrementParseUsage);
+  const { getLimitMessage } = useUsageQuota();
   const generatePlanAction = useAction(api.ai.generateWorkoutPlan);
   const parseWorkoutPlanAction = useAction(api.ai.parseWorkoutPlan);
 
@@ -207,15 +206,10 @@ export default function Onboarding({ onPlanGenerated }: OnboardingProps) {
     }
 
     // Check rate limits before generating plan
-    if (user?.id && userProfile) {
-      const tier = userProfile.apiUsage?.tier || 'free';
-      const usage = userProfile.apiUsage;
-
-      if (usage && hasExceededLimit(usage, tier, 'plan')) {
-        const remaining = getRemainingUsage(usage, tier);
-        setError(getLimitMessage('plan', tier, remaining));
-        return;
-      }
+    const limitMessage = getLimitMessage('generateWorkoutPlan');
+    if (limitMessage) {
+      setError(limitMessage);
+      return;
     }
 
     setIsLoading(true);
@@ -254,11 +248,6 @@ export default function Onboarding({ onPlanGenerated }: OnboardingProps) {
             name: `${goal} Program`
         };
 
-        // Track plan generation for rate limiting
-        if (user?.id) {
-            await incrementPlanUsageMutation({ userId: user.id });
-        }
-
         // Save user preferences to profile (including new fields)
         if (user?.id) {
             const preferences: TrainingPreferences = {
@@ -354,7 +343,7 @@ export default function Onboarding({ onPlanGenerated }: OnboardingProps) {
         setIsLoading(false);
         return;
     }
-  }, [goal, experience, frequency, painPoints, sport, equipment, sessionLength, onPlanGenerated, user, userProfile, updateUserProfile, incrementPlanUsageMutation, t]);
+  }, [goal, experience, frequency, painPoints, sport, equipment, sessionLength, onPlanGenerated, user, userProfile, updateUserProfile, getLimitMessage, t]);
 
   // Handle regenerating the plan with user feedback
   const handleRegenerateWithFeedback = useCallback(async (feedback: string) => {
@@ -434,15 +423,10 @@ export default function Onboarding({ onPlanGenerated }: OnboardingProps) {
     }
 
     // Check rate limits before parsing plan
-    if (user?.id && userProfile) {
-      const tier = userProfile.apiUsage?.tier || 'free';
-      const usage = userProfile.apiUsage;
-
-      if (usage && hasExceededLimit(usage, tier, 'parse')) {
-        const remaining = getRemainingUsage(usage, tier);
-        setError(getLimitMessage('parse', tier, remaining));
-        return;
-      }
+    const limitMessage = getLimitMessage('parseWorkoutPlan');
+    if (limitMessage) {
+      setError(limitMessage);
+      return;
     }
 
     setIsLoading(true);
@@ -465,11 +449,6 @@ export default function Onboarding({ onPlanGenerated }: OnboardingProps) {
           name: planName
       };
 
-      // Track plan parsing for rate limiting
-      if (user?.id) {
-        await incrementParseUsageMutation({ userId: user.id });
-      }
-
       // Track successful plan parsing
       endTimer({
         lineCount: inputText.split('\n').length,
@@ -478,7 +457,7 @@ export default function Onboarding({ onPlanGenerated }: OnboardingProps) {
         daysInPlan: plan.weeklyPlan?.length || 0,
       });
 
-      await onPlanGenerated(plan);
+      await onPlanGenerated(plan, 'import');
     } catch (e) {
       const errorMessage = e instanceof Error ? e.message : t('errors.unknownError');
       setError(errorMessage);
@@ -497,7 +476,7 @@ export default function Onboarding({ onPlanGenerated }: OnboardingProps) {
       return; // Exit early
     }
     setIsLoading(false);
-  }, [rawText, selectedFile, onPlanGenerated, user?.id, incrementParseUsageMutation, t]);
+  }, [rawText, selectedFile, onPlanGenerated, user?.id, getLimitMessage, t]);
   
   // Helper to navigate to next step
   const goToNextStep = () => {
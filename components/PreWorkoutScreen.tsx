@@ -1,21 +1,23 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { PlanDay, DailyRoutine, WorkoutLog } from '../types';
 import { ChartBarIcon, FlameIcon, TrophyIcon, ZapIcon } from './icons';
 import { useHaptic } from '../hooks/useAnimations';
 import { cn } from '../lib/utils';
+import ReadinessCheckIn from './ReadinessCheckIn';
 
 /* ═══════════════════════════════════════════════════════════════
    PRE-WORKOUT SCREEN - Minimal Version (Option B)
 
    Only shows when user has previous workout history.
-   Displays "Beat Your Last Session" motivation card.
+   Displays "Beat Your Last Session" motivation card and the
+   morning readiness check-in (which can adjust today's session).
    ═══════════════════════════════════════════════════════════════ */
 
 interface PreWorkoutScreenProps {
   session: PlanDay | DailyRoutine;
   recentLogs: WorkoutLog[];
-  onStart: () => void;
+  onStart: (adjustedSession?: PlanDay) => void;
   onCancel: () => void;
 }
 
@@ -27,6 +29,7 @@ export default function PreWorkoutScreen({
 }: PreWorkoutScreenProps) {
   const { t } = useTranslation();
   const haptic = useHaptic();
+  const [adjustedSession, setAdjustedSession] = useState<PlanDay | null>(null);
 
   // Get stats from last session with same focus (if any)
   const getLastSessionStats = () => {
@@ -108,7 +111,7 @@ export default function PreWorkoutScreen({
 
   const handleStart = () => {
     haptic.heavy();
-    onStart();
+    onStart(adjustedSession ?? undefined);
   };
 
   return (
@@ -140,6 +143,11 @@ export default function PreWorkoutScreen({
         </div>
       </div>
 
+      {/* Readiness check-in - plan days only (daily routines have no sets to adjust) */}
+      {'day_of_week' in session && (
+        <ReadinessCheckIn session={session} onAdjustmentChange={setAdjustedSession} />
+      )}
+
       {/* Last Session Stats Card - Only shown if there's history */}
       {lastStats && (
         <div
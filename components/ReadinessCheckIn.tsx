@@ -0,0 +1,256 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQuery } from 'convex/react';
+import { useUser } from '@clerk/clerk-react';
+import { api } from '../convex/_generated/api';
+import { PlanDay } from '../types';
+import { adjustPlanDayForReadiness, getLocalDateString } from '../services/readinessService';
+import { useHaptic } from '../hooks/useAnimations';
+import { cn } from '../lib/utils';
+
+/* ═══════════════════════════════════════════════════════════════
+   READINESS CHECK-IN - Morning check-in on PreWorkoutScreen
+
+   Logs sleep / energy / soreness / stress (and optional resting HR),
+   shows the baseline-relative readiness score and offers a
+   reduced / push version of today's session.
+   ═══════════════════════════════════════════════════════════════ */
+
+interface ReadinessCheckInProps {
+  session: PlanDay;
+  /** Adjusted session when the user accepts the suggestion, null otherwise */
+  onAdjustmentChange: (adjusted: PlanDay | null) => void;
+}
+
+type RatingKey = 'sleepQuality' | 'energyLevel' | 'sorenessLevel' | 'stressLevel';
+
+const RATINGS: { key: RatingKey; label: string; low: string; high: string }[] = [
+  { key: 'sleepQuality', label: 'Sleep quality', low: 'Poor', high: 'Great' },
+  { key: 'energyLevel', label: 'Energy', low: 'Drained', high: 'Fired up' },
+  { key: 'sorenessLevel', label: 'Soreness', low: 'Fresh', high: 'Very sore' },
+  { key: 'stressLevel', label: 'Stress', low: 'Calm', high: 'Stressed' },
+];
+
+// 5 taps map onto the 1-10 scale healthMetrics uses
+const RATING_STEPS = [2, 4, 6, 8, 10];
+
+export default function ReadinessCheckIn({ session, onAdjustmentChange }: ReadinessCheckInProps) {
+  const { t } = useTranslation();
+  const { user } = useUser();
+  const haptic = useHaptic();
+  const date = useMemo(() => getLocalDateString(), []);
+
+  const readiness = useQuery(api.readiness.getReadiness, user?.id ? { userId: user.id, date } : "skip");
+  const logReadinessCheckInMutation = useMutation(api.readiness.logReadinessCheckIn);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [accepted, setAccepted] = useState(false);
+  const [sleepHours, setSleepHours] = useState(7.5);
+  const [restingHeartRate, setRestingHeartRate] = useState('');
+  const [ratings, setRatings] = useState<Partial<Record<RatingKey, number>>>({});
+
+  const adjustment = useMemo(
+    () => (readiness?.hasCheckIn ? adjustPlanDayForReadiness(session, readiness.band) : null),
+    [readiness?.hasCheckIn, readiness?.band, session]
+  );
+
+  useEffect(() => {
+    onAdjustmentChange(accepted && adjustment && adjustment.changes.length > 0 ? adjustment.day : null);
+  }, [accepted, adjustment, onAdjustmentChange]);
+
+  if (!user?.id || readiness === undefined || readiness === null) return null;
+
+  const showForm = !readiness.hasCheckIn || isEditing;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const hr = parseInt(restingHeartRate, 10);
+      await logReadinessCheckInMutation({
+        userId: user.id,
+        date,
+        sleepHours,
+        ...ratings,
+        ...(hr > 0 ? { restingHeartRate: hr } : {}),
+      });
+      haptic.light();
+      setIsEditing(false);
+      setAccepted(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const bandLabel = {
+    reduced: t('workout.readinessReduced', { defaultValue: 'Take it easier today' }),
+    normal: t('workout.readinessNormal', { defaultValue: 'Train as planned' }),
+    push: t('workout.readinessPush', { defaultValue: 'Good day to push' }),
+  }[readiness.band];
+
+  return (
+    <div
+      className={cn(
+        "mb-[var(--space-6)]",
+        "p-[var(--space-4)]",
+        "rounded-[var(--radius-xl)]",
+        "bg-[var(--surface-secondary)]",
+        "border border-[var(--border-default)]"
+      )}
+    >
+      <div className="flex items-center justify-between mb-[var(--space-3)]">
+        <h3 className="text-[var(--text-sm)] font-[var(--weight-bold)] text-[var(--text-primary)]">
+          {t('workout.readiness', { defaultValue: 'Readiness' })}
+        </h3>
+        {readiness.hasCheckIn && !isEditing && (
+          <button
+            onClick={() => setIsEditing(true)}
+            className="text-[var(--text-2xs)] text-[var(--text-tertiary)] uppercase tracking-wider"
+          >
+            {t('common.edit', { defaultValue: 'Edit' })}
+          </button>
+        )}
+      </div>
+
+      {showForm ? (
+        <div className="space-y-[var(--space-3)]">
+          {/* Sleep hours stepper */}
+          <div className="flex items-center justify-between">
+            <span className="text-[var(--text-xs)] text-[var(--text-secondary)]">
+              {t('workout.sleepHours', { defaultValue: 'Hours slept' })}
+            </span>
+            <div className="flex items-center gap-[var(--space-2)]">
+              <button
+                onClick={() => setSleepHours(h => Math.max(0, h - 0.5))}
+                className="w-8 h-8 rounded-[var(--radius-md)] bg-[var(--surface-hover)] text-[var(--text-primary)] font-[var(--weight-bold)]"
+              >
+                −
+              </button>
+              <span className="w-10 text-center text-[var(--text-base)] font-[var(--weight-bold)] tabular-nums text-[var(--text-primary)]">
+                {sleepHours}
+              </span>
+              <button
+                onClick={() => setSleepHours(h => Math.min(14, h + 0.5))}
+                className="w-8 h-8 rounded-[var(--radius-md)] bg-[var(--surface-hover)] text-[var(--text-primary)] font-[var(--weight-bold)]"
+              >
+                +
+              </button>
+            </div>
+          </div>
+
+          {/* 1-5 taps per rating */}
+          {RATINGS.map(({ key, label, low, high }) => (
+            <div key={key}>
+              <div className="flex items-center justify-between mb-[var(--space-1)]">
+                <span className="text-[var(--text-xs)] text-[var(--text-secondary)]">{t(`workout.${key}`, { defaultValue: label })}</span>
+                <span className="text-[var(--text-2xs)] text-[var(--text-tertiary)]">{low} → {high}</span>
+              </div>
+              <div className="grid grid-cols-5 gap-[var(--space-1)]">
+                {RATING_STEPS.map((value, i) => (
+                  <button
+                    key={value}
+                    onClick={() => setRatings(prev => ({ ...prev, [key]: value }))}
+                    className={cn(
+                      "h-8 rounded-[var(--radius-md)] text-[var(--text-xs)] font-[var(--weight-semibold)] transition-colors",
+                      ratings[key] === value
+                        ? "bg-[var(--brand-primary)] text-white"
+                        : "bg-[var(--surface-hover)] text-[var(--text-secondary)]"
+                    )}
+                  >
+                    {i + 1}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {/* Optional resting HR */}
+          <div className="flex items-center justify-between">
+            <span className="text-[var(--text-xs)] text-[var(--text-secondary)]">
+              {t('workout.restingHeartRate', { defaultValue: 'Resting HR (optional)' })}
+            </span>
+            <input
+              type="number"
+              inputMode="numeric"
+              value={restingHeartRate}
+              onChange={(e) => setRestingHeartRate(e.target.value)}
+              placeholder="bpm"
+              className="w-20 h-8 px-[var(--space-2)] rounded-[var(--radius-md)] bg-[var(--surface-hover)] text-[var(--text-primary)] text-right tabular-nums outline-none"
+            />
+          </div>
+
+          <button
+            onClick={handleSave}
+            disabled={isSaving || Object.keys(ratings).length === 0}
+            className={cn(
+              "w-full min-h-[44px] rounded-[var(--radius-lg)]",
+              "text-[var(--text-sm)] font-[var(--weight-bold)] text-white",
+              "bg-[var(--brand-primary)] disabled:opacity-50",
+              "transition-all duration-[var(--duration-fast)]"
+            )}
+          >
+            {isSaving
+              ? t('common.saving', { defaultValue: 'Saving...' })
+              : t('workout.saveCheckIn', { defaultValue: 'Save check-in' })}
+          </button>
+        </div>
+      ) : (
+        <div>
+          <div className="flex items-baseline gap-[var(--space-2)] mb-[var(--space-1)]">
+            <span className="text-[var(--text-2xl)] font-[var(--weight-black)] tabular-nums text-[var(--text-primary)]">
+              {readiness.score}
+            </span>
+            <span className="text-[var(--text-sm)] font-[var(--weight-semibold)] text-[var(--text-secondary)]">
+              {bandLabel}
+            </span>
+          </div>
+          {readiness.components.some(c => c.key === 'restingHeartRate') && (
+            <p className="text-[var(--text-2xs)] text-[var(--text-tertiary)]">
+              {(() => {
+                const hr = readiness.components.find(c => c.key === 'restingHeartRate')!;
+                return `${t('workout.restingHr', { defaultValue: 'Resting HR' })} ${hr.value} bpm · ${t('workout.baselineAvg', { defaultValue: '14-day avg' })} ${hr.baseline}`;
+              })()}
+            </p>
+          )}
+
+          {adjustment && adjustment.changes.length > 0 && (
+            <div className="mt-[var(--space-3)] pt-[var(--space-3)] border-t border-[var(--border-default)]">
+              <ul className="space-y-[var(--space-1)] mb-[var(--space-3)]">
+                {adjustment.changes.slice(0, 4).map((change, i) => (
+                  <li key={i} className="text-[var(--text-xs)] text-[var(--text-secondary)]">{change}</li>
+                ))}
+                {adjustment.changes.length > 4 && (
+                  <li className="text-[var(--text-2xs)] text-[var(--text-tertiary)]">
+                    +{adjustment.changes.length - 4} {t('workout.moreChanges', { defaultValue: 'more' })}
+                  </li>
+                )}
+              </ul>
+              <div className="grid grid-cols-2 gap-[var(--space-2)]">
+                <button
+                  onClick={() => { haptic.light(); setAccepted(true); }}
+                  className={cn(
+                    "min-h-[40px] rounded-[var(--radius-lg)] text-[var(--text-xs)] font-[var(--weight-bold)] transition-colors",
+                    accepted ? "bg-[var(--brand-primary)] text-white" : "bg-[var(--surface-hover)] text-[var(--text-secondary)]"
+                  )}
+                >
+                  {readiness.band === 'reduced'
+                    ? t('workout.useLighterSession', { defaultValue: 'Use lighter session' })
+                    : t('workout.useHarderSession', { defaultValue: 'Use harder session' })}
+                </button>
+                <button
+                  onClick={() => { haptic.light(); setAccepted(false); }}
+                  className={cn(
+                    "min-h-[40px] rounded-[var(--radius-lg)] text-[var(--text-xs)] font-[var(--weight-bold)] transition-colors",
+                    !accepted ? "bg-[var(--brand-primary)] text-white" : "bg-[var(--surface-hover)] text-[var(--text-secondary)]"
+                  )}
+                >
+                  {t('workout.keepPlan', { defaultValue: 'Keep plan' })}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
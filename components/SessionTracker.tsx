@@ -1,11 +1,12 @@
 import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { PlanDay, LoggedSetSRW, LoggedSetDuration, WorkoutLog, LoggedExercise, PlanExercise, SupersetBlock, AmrapBlock, StrengthProfile } from '../types';
+import { PlanDay, LoggedSetSRW, LoggedSetDuration, WorkoutLog, LoggedExercise, PlanExercise, SupersetBlock, AmrapBlock, IntervalBlock, StrengthProfile } from '../types';
 import { useHaptic } from '../hooks/useAnimations';
 import { notify } from './layout/Toast';
-import { detectPR, shouldTrackPR } from '../services/prService';
+import { detectPR, shouldTrackPR, getHeadlinePR, describePR } from '../services/prService';
 import { useSaveExerciseHistory } from '../services/exerciseHistoryService';
-import { useMutation } from 'convex/react';
+import { offlineQueue } from '../services/offlineService';
+import { useMutation, useQuery } from 'convex/react';
 import { api } from '../convex/_generated/api';
 import { cn } from '../lib/utils';
 import { Button } from './ui/button';
@@ -13,6 +14,7 @@ import { ariaAnnouncer } from '../services/ariaAnnouncer';
 import { validateWeight, validateReps } from '../lib/validationConstants';
 import {  CheckCircleIcon, FlameIcon, TrophyIcon, ZapIcon } from './icons';
 import { suggestWeight } from '../lib/workoutUtils';
+import { parseTargetRpe, parseTargetReps, suggestNextSetLoad, suggestNextSessionLoad } from '../services/autoregulationService';
 
 // Component imports
 import SessionHeader from './session/SessionHeader';
@@ -22,9 +24,11 @@ import SetInputControls from './session/SetInputControls';
 import SmartSuggestions from './session/SmartSuggestions';
 import WarmupScreen from './session/WarmupScreen';
 import AmrapScreen from './session/AmrapScreen';
+import IntervalTimerScreen from './session/IntervalTimerScreen';
 import RestTimer from './RestTimer';
 import ExerciseExplanationModal from './ExerciseExplanationModal';
 import { useSessionState } from './session/useSessionState';
+import type { SessionCheckpoint } from '../services/sessionCheckpointService';
 
 /* ═══════════════════════════════════════════════════════════════
    SESSION TRACKER - Refactored Version (Phase 10.1)
@@ -43,15 +47,16 @@ interface SessionTrackerProps {
   allLogs: WorkoutLog[];
   onOpenChatWithMessage?: (message: string) => void;
   strengthProfile?: StrengthProfile | null; // For AI weight suggestions
+  resumeFrom?: SessionCheckpoint | null; // Continue a checkpointed session
 }
 
-export default function SessionTracker({ session, onFinish, onCancel, allLogs, onOpenChatWithMessage, strengthProfile }: SessionTrackerProps) {
+export default function SessionTracker({ session, onFinish, onCancel, allLogs, onOpenChatWithMessage, strengthProfile, resumeFrom }: SessionTrackerProps) {
   const { t } = useTranslation();
   const saveExerciseHistory = useSaveExerciseHistory();
   const haptic = useHaptic();
 
   // Use custom hook for state management
-  const sessionState = useSessionState(session, allLogs, onFinish);
+  const sessionState = useSessionState(session, allLogs, onFinish, resumeFrom);
   const {
     loggedData,
     setLoggedData,
@@ -101,7 +106,6 @@ export default function SessionTracker({ session, onFinish, onCancel, allLogs, o
     getExerciseHistoryFull,
   } = sessionState;
 
-  const savePerformanceMutation = useMutation(api.sportBucketMutations.saveExercisePerformance);
   const updateSportBucketMutation = useMutation(api.sportBucketMutations.updateSportBucket);
   const updateSportPerformanceMutation = useMutation(api.sportBucketMutations.updateSportBucketPerformance);
 
@@ -172,19 +176,54 @@ export default function SessionTracker({ session, onFinish, onCancel, allLogs, o
 
   const lastPerformance = currentExercise ? getExerciseHistory(currentExercise.exercise_name) : null;
 
+  // RPE autoregulation: plan target RPE + logged RPE → next load
+  const targetRpe = parseTargetRpe(currentExercise?.rpe);
+  const targetReps = parseTargetReps(currentExercise?.metrics_template?.target_reps);
+  const fatigueProfile = useQuery(
+    api.autoregulationQueries.getExerciseFatigueProfile,
+    userId && currentExercise && targetRpe ? { userId, exerciseName: currentExercise.exercise_name } : "skip"
+  );
+
+  const loadSuggestion = useMemo(() => {
+    if (!currentExercise || !targetRpe) return null;
+
+    // Mid-exercise: adjust from the last set logged this session
+    const sessionSets = (loggedData[currentExercise.exercise_name] || [])
+      .filter((set): set is LoggedSetSRW => 'weight' in set && 'reps' in set);
+    const lastSet = sessionSets[sessionSets.length - 1];
+    if (lastSet) {
+      return suggestNextSetLoad({
+        lastWeight: Number(lastSet.weight),
+        lastReps: Number(lastSet.reps),
+        lastRpe: lastSet.rpe,
+        targetReps,
+        targetRpe,
+      });
+    }
+
+    // First set: start from previous sessions' RPE and the fatigue model
+    return suggestNextSessionLoad({
+      exerciseName: currentExercise.exercise_name,
+      allLogs,
+      targetReps,
+      targetRpe,
+      fatigue: fatigueProfile,
+    });
+  }, [currentExercise, targetRpe, targetReps, loggedData, allLogs, fatigueProfile]);
+
   useEffect(() => {
     if (currentExercise && lastPerformance && !currentInputData[currentExercise.exercise_name]) {
       setCurrentInputData(prev => ({
         ...prev,
         [currentExercise.exercise_name]: {
-          weight: lastPerformance.weight,
-          reps: lastPerformance.reps,
+          weight: loadSuggestion?.weight ?? lastPerformance.weight,
+          reps: loadSuggestion?.reps ?? lastPerformance.reps,
         }
       }));
     }
-  }, [currentExercise, lastPerformance, currentInputData]);
+  }, [currentExercise, lastPerformance, currentInputData, loadSuggestion]);
 
-  const handleInputChange = useCallback((field: 'weight' | 'reps' | 'duration' | 'distance', value: string) => {
+  const handleInputChange = useCallback((field: 'weight' | 'reps' | 'rpe' | 'duration' | 'distance', value: string) => {
     if (!currentExercise) return;
 
     setCurrentInputData(prev => ({
@@ -218,8 +257,13 @@ export default function SessionTracker({ session, onFinish, onCancel, allLogs, o
       const totalReps = loggedSets.reduce((sum, set) => sum + set.reps, 0);
       const avgWeight = totalSets > 0 ? loggedSets.reduce((sum, set) => sum + set.weight, 0) / totalSets : 0;
       const lastSet = loggedSets[loggedSets.length - 1];
+      const ratedSets = loggedSets.filter(set => typeof set.rpe === 'number' && set.rpe > 0);
+      const avgRpe = ratedSets.length > 0
+        ? Math.round((ratedSets.reduce((sum, set) => sum + set.rpe, 0) / ratedSets.length) * 10) / 10
+        : null;
 
-      await savePerformanceMutation({
+      // Queued durably so performance data logged offline isn't lost
+      await offlineQueue.run('recordExercisePerformance', {
         user_id: userId,
         exercise_name: exercise.exercise_name,
         sport_context: userProfile?.trainingPreferences?.sport_specific || null,
@@ -232,15 +276,17 @@ export default function SessionTracker({ session, onFinish, onCancel, allLogs, o
         actual_reps: totalReps,
         actual_weight: avgWeight,
         actual_duration_s: null,
-        rpe: lastSet?.rpe ? parseInt(lastSet.rpe) : null,
+        rpe: avgRpe,
         form_quality: null,
         pain_experienced: null,
         pain_location: null,
         was_pr: celebratedPRs.has(`${exercise.exercise_name}_${lastSet?.weight}_${lastSet?.reps}`),
         notes: null,
+        timestamp: new Date().toISOString(),
       });
 
-      if (userProfile?.trainingPreferences?.sport_specific) {
+      // Sport bucket stats are best-effort; skip offline rather than block the session
+      if (userProfile?.trainingPreferences?.sport_specific && navigator.onLine) {
         await updateSportBucketMutation({
           sport: userProfile.trainingPreferences.sport_specific,
           exercise_name: exercise.exercise_name,
@@ -339,7 +385,7 @@ export default function SessionTracker({ session, onFinish, onCancel, allLogs, o
       set: currentRound,
       weight,
       reps,
-      rpe: input.rpe ?? null,
+      rpe: input.rpe ? Number(input.rpe) : null,
     };
 
     setLoggedData(prev => ({
@@ -347,6 +393,15 @@ export default function SessionTracker({ session, onFinish, onCancel, allLogs, o
       [currentExercise.exercise_name]: [...(prev[currentExercise.exercise_name] || []), newSet]
     }));
 
+    // Autoregulate the next set's load from this set's RPE
+    const nextLoad = suggestNextSetLoad({ lastWeight: weight, lastReps: reps, lastRpe: newSet.rpe, targetReps, targetRpe });
+    if (nextLoad) {
+      setCurrentInputData(prev => ({
+        ...prev,
+        [currentExercise.exercise_name]: { weight: nextLoad.weight, reps: nextLoad.reps, rpe: null }
+      }));
+    }
+
     ariaAnnouncer.announceSetComplete(newSet.set, Number(input.weight), Number(input.reps));
 
     saveExerciseHistory(currentExercise.exercise_name, Number(input.weight), Number(input.reps))
@@ -368,10 +423,12 @@ export default function SessionTracker({ session, onFinish, onCancel, allLogs, o
           setCelebratedPRs(prev => new Set(prev).add(prKey));
           haptic.heavy();
           ariaAnnouncer.announcePR(currentExercise.exercise_name, Number(input.weight), Number(input.reps));
+          const headline = getHeadlinePR(prCheck.achievements);
           setTimeout(() => {
             notify({
               type: 'success',
               message: t('session.newPR', { exercise: currentExercise.exercise_name, weight: input.weight, reps: input.reps })
+                + (headline && headline.type !== 'weight' ? ` (${describePR(headline)})` : '')
             });
           }, 300);
         }
@@ -385,7 +442,7 @@ export default function SessionTracker({ session, onFinish, onCancel, allLogs, o
     } else {
       handleSingleExerciseLogic();
     }
-  }, [currentExercise, currentInputData, currentBlock, currentRound, haptic, t, allLogs, celebratedPRs, isTimeBased]);
+  }, [currentExercise, currentInputData, currentBlock, currentRound, haptic, t, allLogs, celebratedPRs, isTimeBased, targetReps, targetRpe]);
 
   const handleSupersetLogic = () => {
     const block = currentBlock as SupersetBlock;
@@ -451,9 +508,26 @@ export default function SessionTracker({ session, onFinish, onCancel, allLogs, o
     }
   };
 
-  const handleFinishWorkout = () => {
+  // EMOM/Tabata: merge the timer's interval sets, then move on like any block
+  const handleIntervalBlockComplete = async (intervalSets: Record<string, LoggedSetDuration[]>) => {
+    const merged = { ...loggedData };
+    Object.entries(intervalSets).forEach(([name, sets]) => {
+      merged[name] = [...(merged[name] || []), ...sets];
+    });
+    setLoggedData(merged);
+
+    if (currentBlockIndex + 1 < workoutBlocks.length) {
+      await handleBlockComplete();
+    } else {
+      finishWorkout(merged);
+    }
+  };
+
+  const handleFinishWorkout = () => finishWorkout(loggedData);
+
+  const finishWorkout = (data: typeof loggedData) => {
     const duration = Math.round(elapsedTimeMs / 60000);
-    const exercises: LoggedExercise[] = Object.entries(loggedData).map(([name, sets]) => ({
+    const exercises: LoggedExercise[] = Object.entries(data).map(([name, sets]) => ({
       exercise_name: name,
       sets: sets as LoggedSetSRW[]
     }));
@@ -554,6 +628,18 @@ export default function SessionTracker({ session, onFinish, onCancel, allLogs, o
     );
   }
 
+  // EMOM / TABATA INTERVAL TIMER SCREEN
+  if (currentBlock?.type === 'emom' || currentBlock?.type === 'tabata') {
+    return (
+      <IntervalTimerScreen
+        block={currentBlock as IntervalBlock}
+        currentBlockIndex={currentBlockIndex}
+        onCancel={onCancel}
+        onComplete={handleIntervalBlockComplete}
+      />
+    );
+  }
+
   // Safety checks
   if (!currentBlock) {
     return (
@@ -642,6 +728,7 @@ export default function SessionTracker({ session, onFinish, onCancel, allLogs, o
             lastWeight={lastPerformance.weight}
             lastReps={lastPerformance.reps}
             currentRound={currentRound}
+            suggestion={loadSuggestion}
             onRepeatLast={() => {
               // Fill in the values and complete
               setCurrentInputData(prev => ({
@@ -669,12 +756,15 @@ export default function SessionTracker({ session, onFinish, onCancel, allLogs, o
           onInputChange={handleInputChange}
           metricsTemplate={currentExercise.metrics_template}
           onComplete={handleCompleteSet}
-          suggestedWeight={strengthProfile ? suggestWeight(
+          suggestedWeight={loadSuggestion?.weight ?? (strengthProfile ? suggestWeight(
             currentExercise.exercise_name,
             strengthProfile,
             // Parse target reps for better suggestion
-            parseInt(currentExercise.metrics_template?.target_reps?.toString() || '10')
-          ) : null}
+            parseInt(currentExercise.metrics_template?.target_reps?.toString() || '10'),
+            targetRpe
+          ) : null)}
+          suggestionReason={loadSuggestion?.reason}
+          showRpe={!!targetRpe}
         />
 
         {/* Next Exercise Preview (for supersets) */}
@@ -3,6 +3,7 @@ import { useQuery } from 'convex/react';
 import { api } from '../convex/_generated/api';
 import { Card, CardContent } from './ui/card';
 import { FlameIcon } from './icons';
+import { Snowflake } from 'lucide-react';
 import { cn } from '../lib/utils';
 import { useTranslation } from 'react-i18next';
 
@@ -84,6 +85,44 @@ export default function StreakCounter({ userId }: StreakCounterProps) {
           </div>
         </div>
 
+        {/* Streak freezes - used automatically on missed training days */}
+        {(streakData.streakFreezes > 0 || streakData.lastFreezeUsed) && (
+          <div className={cn(
+            'mt-[var(--space-3)] pt-[var(--space-3)]',
+            'border-t border-[var(--border-default)]',
+            'flex items-center justify-between'
+          )}>
+            <div className="flex items-center gap-[var(--space-2)]">
+              <Snowflake className="w-4 h-4 text-[var(--text-secondary)]" />
+              <div>
+                <p className={cn(
+                  'text-[var(--text-xs)]',
+                  'text-[var(--text-secondary)]'
+                )}>
+                  {t('streak.freezes')}
+                </p>
+                {streakData.lastFreezeUsed && (
+                  <p className={cn(
+                    'text-[var(--text-2xs)]',
+                    'text-[var(--text-tertiary)]'
+                  )}>
+                    {t('streak.freezeLastUsed', {
+                      date: new Date(`${streakData.lastFreezeUsed}T12:00:00`).toLocaleDateString()
+                    })}
+                  </p>
+                )}
+              </div>
+            </div>
+            <p className={cn(
+              'text-[var(--text-sm)]',
+              'font-[var(--weight-bold)]',
+              'text-[var(--text-primary)]'
+            )}>
+              {streakData.streakFreezes}
+            </p>
+          </div>
+        )}
+
         {/* Longest streak */}
         {streakData.longestStreak > streakData.currentStreak && (
           <div className={cn(
@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { useMutation } from 'convex/react';
+import { X, TrendingUp } from 'lucide-react';
+import { api } from '../convex/_generated/api';
+import { Id } from '../convex/_generated/dataModel';
+import { WorkoutPlan, WorkoutLog } from '../types';
+import {
+  generateWeeklyProgression,
+  WeeklyFeedback,
+  WeeklyProgressionResult,
+} from '../services/geminiService';
+import { notify } from './layout/Toast';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// WEEKLY PROGRESSION - rate the week, preview next week's changes (Editorial Noir)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface WeeklyProgressionSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  plan: WorkoutPlan;
+  logs: WorkoutLog[];
+  userId: string;
+}
+
+const FEEDBACK_OPTIONS: { value: WeeklyFeedback; label: string; hint: string }[] = [
+  { value: 'too easy', label: 'TOO EASY', hint: 'More load, volume & reps' },
+  { value: 'just right', label: 'JUST RIGHT', hint: 'Progress what you completed' },
+  { value: 'too hard', label: 'TOO HARD', hint: 'Pull back load & volume' },
+];
+
+const DAY_LABELS = ['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN'];
+
+export default function WeeklyProgressionSheet({ isOpen, onClose, plan, logs, userId }: WeeklyProgressionSheetProps) {
+  const updatePlanWeeklyContentMutation = useMutation(api.mutations.updatePlanWeeklyContent);
+
+  const [feedback, setFeedback] = useState<WeeklyFeedback | null>(null);
+  const [preview, setPreview] = useState<WeeklyProgressionResult | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setFeedback(null);
+      setPreview(null);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!feedback) return;
+    let cancelled = false;
+    generateWeeklyProgression(plan, logs, feedback).then(result => {
+      if (!cancelled) setPreview(result);
+    });
+    return () => { cancelled = true; };
+  }, [feedback, plan, logs]);
+
+  if (!isOpen) return null;
+
+  const handleApply = async () => {
+    if (!preview || !plan._id || !userId) return;
+    setIsSaving(true);
+    try {
+      await updatePlanWeeklyContentMutation({
+        planId: plan._id as Id<"workoutPlans">,
+        userId,
+        weeklyPlan: preview.plan.weeklyPlan,
+        summary: preview.summary,
+      });
+      notify({ type: 'success', message: preview.changes.length > 0 ? 'Next week is ready' : 'Week repeated unchanged' });
+      onClose();
+    } catch (error) {
+      notify({ type: 'error', message: 'Failed to save next week' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-end" onClick={onClose}>
+      <div
+        className="w-full max-h-[85vh] overflow-y-auto bg-black border-t border-white/20 pb-safe-bottom"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="px-6 py-5 border-b border-white/10 flex justify-between items-center">
+          <div>
+            <p className="font-mono text-[10px] text-[#525252] tracking-widest uppercase">
+              HOW WAS THIS WEEK?
+            </p>
+            <h2 className="text-xl font-black italic tracking-tighter text-white uppercase leading-none">
+              NEXT WEEK
+            </h2>
+          </div>
+          <button onClick={onClose} className="w-9 h-9 border border-white/20 flex items-center justify-center text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </header>
+
+        <div className="px-6 py-5 space-y-6">
+          <div className="grid grid-cols-3 gap-2">
+            {FEEDBACK_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setFeedback(option.value)}
+                className={`border p-3 text-left transition-colors ${
+                  feedback === option.value ? 'bg-white text-black border-white' : 'border-white/10 text-white hover:border-white/30'
+                }`}
+              >
+                <span className="block font-bold text-sm uppercase tracking-tight">{option.label}</span>
+                <span className={`block font-mono text-[10px] uppercase tracking-widest mt-1 ${
+                  feedback === option.value ? 'text-black/60' : 'text-[#525252]'
+                }`}>
+                  {option.hint}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {preview && (
+            <div>
+              <p className="font-mono text-[10px] text-[#525252] mb-3 uppercase tracking-widest">
+                {preview.changes.length > 0 ? `${preview.changes.length} CHANGES` : 'NO CHANGES - SAME WEEK AGAIN'}
+              </p>
+              {preview.changes.length > 0 && (
+                <ul className="border border-white/10 divide-y divide-white/10">
+                  {preview.changes.map((change, i) => (
+                    <li key={i} className="px-4 py-3 flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <span className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">
+                          {DAY_LABELS[change.day_of_week - 1] || `DAY ${change.day_of_week}`}
+                        </span>
+                        <p className="text-sm font-bold text-white uppercase tracking-wide truncate">{change.exercise_name}</p>
+                      </div>
+                      <span className="font-mono text-[10px] text-[#A3A3A3] tabular-nums shrink-0">{change.description}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <button
+            onClick={handleApply}
+            disabled={!preview || isSaving}
+            className="w-full h-12 bg-white text-black font-bold uppercase tracking-widest disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            <TrendingUp className="w-4 h-4" /> {isSaving ? 'SAVING...' : 'START NEXT WEEK'}
+          </button>
+          <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest text-center">
+            THIS WEEK STAYS IN PLAN HISTORY
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
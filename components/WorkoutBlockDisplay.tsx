@@ -2,6 +2,7 @@ import React from 'react';
 import { WorkoutBlock, PlanExercise } from '../types';
 import { Badge } from './ui/badge';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
+import { getIntervalBlockSeconds } from '../lib/workoutUtils';
 import { 
   RepeatIcon, // For supersets
   TimerIcon, // For AMRAP
@@ -31,10 +32,12 @@ export default function WorkoutBlockDisplay({ block, blockIndex, onExerciseClick
       characteristics.push('superset');
     } else if (block.type === 'amrap') {
       characteristics.push('amrap');
+    } else if (block.type === 'tabata') {
+      characteristics.push('tabata');
     }
     
     // Check for EMOM patterns
-    if (blockTitle.includes('emom') || blockTitle.includes('every minute')) {
+    if (block.type === 'emom' || blockTitle.includes('emom') || blockTitle.includes('every minute')) {
       characteristics.push('emom');
     }
     
@@ -77,6 +80,7 @@ export default function WorkoutBlockDisplay({ block, blockIndex, onExerciseClick
     if (characteristics.includes('superset')) return <RepeatIcon className="w-5 h-5" />;
     if (characteristics.includes('amrap')) return <TimerIcon className="w-5 h-5" />;
     if (characteristics.includes('emom')) return <ClockIcon className="w-5 h-5" />;
+    if (characteristics.includes('tabata')) return <TimerIcon className="w-5 h-5" />;
     if (characteristics.includes('cardio')) return <HeartIcon className="w-5 h-5" />;
     if (characteristics.includes('strength')) return <DumbbellIcon className="w-5 h-5" />;
     if (characteristics.includes('finisher')) return <FlameIcon className="w-5 h-5" />;
@@ -106,8 +110,25 @@ export default function WorkoutBlockDisplay({ block, blockIndex, onExerciseClick
       );
     }
     
+    if (block.type === 'emom') {
+      const interval = block.interval_seconds || 60;
+      badges.push(
+        <Badge key="emom" variant="destructive" className="text-xs">
+          {block.duration_minutes} min {interval === 60 ? 'EMOM' : `E${interval / 60}MOM`}
+        </Badge>
+      );
+    }
+
+    if (block.type === 'tabata') {
+      badges.push(
+        <Badge key="tabata" variant="destructive" className="text-xs">
+          {block.rounds} × {block.work_seconds}s/{block.rest_seconds}s
+        </Badge>
+      );
+    }
+    
     // Additional characteristic badges
-    if (characteristics.includes('emom')) {
+    if (characteristics.includes('emom') && block.type !== 'emom') {
       badges.push(<Badge key="emom" variant="outline" className="text-xs">EMOM</Badge>);
     }
     
@@ -283,6 +304,24 @@ export default function WorkoutBlockDisplay({ block, blockIndex, onExerciseClick
           </div>
         )}
 
+        {block.type === 'emom' && block.duration_minutes && (
+          <div className="mt-4 p-3 bg-[var(--warning-light)] border border-[var(--warning)]/30 rounded-lg">
+            <p className="text-sm text-[var(--warning)] font-medium flex items-center gap-2">
+              <span className="inline-block w-2 h-2 rounded-full bg-[var(--warning)] animate-pulse" />
+              Start each exercise on the {(block.interval_seconds || 60) === 60 ? 'minute' : `${block.interval_seconds}s mark`}, rest for the remainder. {block.exercises.length > 1 ? 'Rotate exercises each interval. ' : ''}{block.duration_minutes} minutes total.
+            </p>
+          </div>
+        )}
+
+        {block.type === 'tabata' && (
+          <div className="mt-4 p-3 bg-[var(--warning-light)] border border-[var(--warning)]/30 rounded-lg">
+            <p className="text-sm text-[var(--warning)] font-medium flex items-center gap-2">
+              <span className="inline-block w-2 h-2 rounded-full bg-[var(--warning)] animate-pulse" />
+              {block.rounds} rounds: {block.work_seconds}s max effort, {block.rest_seconds}s rest ({Math.round(getIntervalBlockSeconds(block) / 60 * 10) / 10} min)
+            </p>
+          </div>
+        )}
+
         {block.type === 'superset' && block.rounds && (
           <div className="mt-4 p-3 bg-[var(--primary-light)] border border-[var(--primary)]/30 rounded-lg">
             <p className="text-sm text-[var(--primary)] font-medium">
@@ -1,14 +1,20 @@
 import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { PlanDay, LoggedExercise, WorkoutLog, LoggedSetSRW, LoggedSetDuration } from '../types';
+import { PlanDay, LoggedExercise, WorkoutLog, LoggedSetSRW, LoggedSetDuration, IntervalBlock } from '../types';
 import { useHaptic } from '../hooks/useAnimations';
 import { cn } from '../lib/utils';
 import { useSessionState } from './session/useSessionState';
+import type { SessionCheckpoint } from '../services/sessionCheckpointService';
 import { useQuery } from 'convex/react';
 import { api } from '../convex/_generated/api';
 import { validateWeight, validateReps } from '../lib/validationConstants';
 import { useSaveExerciseHistory } from '../services/exerciseHistoryService';
-import { shouldTrackPR, detectPR } from '../services/prService';
+import { shouldTrackPR, detectPR, getHeadlinePR, describePR } from '../services/prService';
+import { parseTargetRpe, parseTargetReps, suggestNextSetLoad, suggestNextSessionLoad } from '../services/autoregulationService';
+import PRNotification from './PRNotification';
+import IntervalTimerScreen from './session/IntervalTimerScreen';
+import SwapExerciseSheet from './session/SwapExerciseSheet';
+import { useExerciseSubstitutes } from '../hooks/useExerciseSubstitutes';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // ZEN SESSION TRACKER - Editorial Noir (Brutalist Edition)
@@ -20,21 +26,32 @@ interface ZenSessionTrackerProps {
   onCancel: () => void;
   allLogs: WorkoutLog[];
   userProfile?: any;
+  /** Checkpoint to continue from (crash/cross-device resume) */
+  resumeFrom?: SessionCheckpoint | null;
 }
 
 const CARDIO_KEYWORDS = ['cardio', 'treadmill', 'bike', 'cycling', 'rowing', 'elliptical', 'run', 'jog', 'swim', 'hiit'];
 const isTimeBased = (ex: any) => ex?.metrics_template?.type?.includes('duration') || CARDIO_KEYWORDS.some(k => ex?.exercise_name.toLowerCase().includes(k));
 const getTargetDuration = (ex: any) => (ex?.metrics_template?.target_duration_minutes || 30) * 60;
+const RPE_OPTIONS = [6, 7, 7.5, 8, 8.5, 9, 9.5, 10];
 
-export default function ZenSessionTracker({ session, onFinish, onCancel, allLogs }: ZenSessionTrackerProps) {
+export default function ZenSessionTracker({ session, onFinish, onCancel, allLogs, resumeFrom }: ZenSessionTrackerProps) {
   const haptic = useHaptic();
   const saveExerciseHistory = useSaveExerciseHistory();
-  const { loggedData, setLoggedData, elapsedTimeMs, currentExercise, currentRound, setCurrentRound, workoutBlocks, currentExerciseInBlock, currentBlock, currentBlockIndex, setCurrentBlockIndex, setCurrentExerciseInBlock } = useSessionState(session, allLogs, onFinish);
+  const { loggedData, setLoggedData, elapsedTimeMs, currentExercise, currentRound, setCurrentRound, workoutBlocks, currentExerciseInBlock, currentBlock, currentBlockIndex, setCurrentBlockIndex, setCurrentExerciseInBlock, allExercises, swapExercise, userId } = useSessionState(session, allLogs, onFinish, resumeFrom);
 
   const [inputWeight, setInputWeight] = useState('');
   const [inputReps, setInputReps] = useState('');
+  const [inputRpe, setInputRpe] = useState<number | null>(null);
   const [showInput, setShowInput] = useState(false);
   const [isResting, setIsResting] = useState(false);
+  const [prMessage, setPrMessage] = useState<{ message: string; detail: string | null } | null>(null);
+  const dismissPR = useCallback(() => setPrMessage(null), []);
+
+  // Swap: ranked substitutes for the session's exercises, cached for offline use
+  const [showSwap, setShowSwap] = useState(false);
+  const sessionExerciseNames = useMemo(() => allExercises.map(ex => ex.exercise_name), [allExercises]);
+  const { getSubstitutes, isOffline } = useExerciseSubstitutes(userId, sessionExerciseNames);
 
   // Timer (Cardio)
   const isCardio = isTimeBased(currentExercise);
@@ -48,12 +65,51 @@ export default function ZenSessionTracker({ session, onFinish, onCancel, allLogs
     return () => { if (timerRef.current) clearInterval(timerRef.current); };
   }, [timerRunning]);
 
+  // RPE autoregulation: plan target RPE + logged RPE → next load
+  const targetRpe = parseTargetRpe(currentExercise?.rpe);
+  const targetReps = parseTargetReps(currentExercise?.metrics_template?.target_reps);
+  const fatigueProfile = useQuery(
+    api.autoregulationQueries.getExerciseFatigueProfile,
+    userId && currentExercise && targetRpe && !isCardio ? { userId, exerciseName: currentExercise.exercise_name } : "skip"
+  );
+
+  const loadSuggestion = useMemo(() => {
+    if (!currentExercise || !targetRpe || isCardio) return null;
+    const sessionSets = (loggedData[currentExercise.exercise_name] || [])
+      .filter((set): set is LoggedSetSRW => 'weight' in set && 'reps' in set);
+    const lastSet = sessionSets[sessionSets.length - 1];
+    if (lastSet) {
+      return suggestNextSetLoad({
+        lastWeight: Number(lastSet.weight),
+        lastReps: Number(lastSet.reps),
+        lastRpe: lastSet.rpe,
+        targetReps,
+        targetRpe,
+      });
+    }
+    return suggestNextSessionLoad({
+      exerciseName: currentExercise.exercise_name,
+      allLogs,
+      targetReps,
+      targetRpe,
+      fatigue: fatigueProfile,
+    });
+  }, [currentExercise, targetRpe, targetReps, isCardio, loggedData, allLogs, fatigueProfile]);
+
+  // Prefill the autoregulated load when opening the input
+  useEffect(() => {
+    if (showInput && loadSuggestion) {
+      setInputWeight(prev => prev || String(loadSuggestion.weight));
+      setInputReps(prev => prev || String(loadSuggestion.reps));
+    }
+  }, [showInput, loadSuggestion]);
+
   // Handle Set Completion
   const handleCompleteSet = useCallback(() => {
     haptic.success();
     const newSet: any = isCardio
       ? { set: currentRound, duration_s: timerElapsed || getTargetDuration(currentExercise) }
-      : { set: currentRound, weight: Number(inputWeight), reps: Number(inputReps) };
+      : { set: currentRound, weight: Number(inputWeight), reps: Number(inputReps), rpe: inputRpe };
 
     if (!isCardio && (!newSet.weight || !newSet.reps)) return;
 
@@ -61,11 +117,36 @@ export default function ZenSessionTracker({ session, onFinish, onCancel, allLogs
     setLoggedData(prev => ({ ...prev, [name]: [...(prev[name] || []), newSet] }));
     if (!isCardio) saveExerciseHistory(name, newSet.weight, newSet.reps);
 
+    // Compare against history plus earlier sets from this session
+    if (!isCardio && shouldTrackPR(name)) {
+      const sessionSoFar: WorkoutLog = {
+        date: new Date().toISOString(),
+        focus: session.focus,
+        exercises: [{ exercise_name: name, sets: loggedData[name] || [] }],
+      };
+      const prCheck = detectPR(name, newSet.weight, newSet.reps, [...allLogs, sessionSoFar]);
+      const headline = getHeadlinePR(prCheck.achievements);
+      if (prCheck.isPR && headline) {
+        haptic.heavy();
+        setPrMessage({
+          message: `NEW PR · ${name}`,
+          detail: prCheck.achievements.map(describePR).join(' · '),
+        });
+      }
+    }
+
+    // Autoregulate the next set's load from this set's RPE
+    if (!isCardio) {
+      const nextLoad = suggestNextSetLoad({ lastWeight: newSet.weight, lastReps: newSet.reps, lastRpe: inputRpe, targetReps, targetRpe });
+      if (nextLoad) setInputWeight(String(nextLoad.weight));
+      setInputRpe(null);
+    }
+
     setShowInput(false);
     setTimerRunning(false);
     setTimerElapsed(0);
     advancePace();
-  }, [currentExercise, currentRound, inputWeight, inputReps, isCardio, timerElapsed, haptic, saveExerciseHistory, setLoggedData]);
+  }, [currentExercise, currentRound, inputWeight, inputReps, inputRpe, isCardio, timerElapsed, haptic, saveExerciseHistory, setLoggedData, loggedData, allLogs, session.focus, targetReps, targetRpe]);
 
   const advancePace = useCallback(() => {
     // Simplifying logic for brevity - assume standard set progression
@@ -79,15 +160,65 @@ export default function ZenSessionTracker({ session, onFinish, onCancel, allLogs
     }
   }, [currentRound, currentExercise]);
 
+  const handleSwapSelect = useCallback((replacementName: string) => {
+    haptic.medium();
+    swapExercise(currentBlockIndex, currentExerciseInBlock, replacementName);
+    setCurrentRound((loggedData[replacementName]?.length || 0) + 1);
+    setInputWeight('');
+    setInputReps('');
+    setInputRpe(null);
+    setShowSwap(false);
+  }, [haptic, swapExercise, currentBlockIndex, currentExerciseInBlock, setCurrentRound, loggedData]);
+
+  // EMOM/Tabata blocks run on the interval timer, then advance to the next block
+  const handleIntervalBlockComplete = useCallback((intervalSets: Record<string, LoggedSetDuration[]>) => {
+    const merged = { ...loggedData };
+    Object.entries(intervalSets).forEach(([name, sets]) => {
+      merged[name] = [...(merged[name] || []), ...sets];
+    });
+    setLoggedData(merged);
+
+    if (currentBlockIndex + 1 < workoutBlocks.length) {
+      setCurrentBlockIndex(currentBlockIndex + 1);
+      setCurrentExerciseInBlock(0);
+      setCurrentRound(1);
+      return;
+    }
+
+    onFinish({
+      focus: session?.focus?.trim() || 'Workout',
+      exercises: Object.entries(merged).map(([name, sets]) => ({ exercise_name: name, sets: sets as LoggedSetSRW[] })),
+      durationMinutes: Math.round(elapsedTimeMs / 60000),
+    });
+  }, [loggedData, setLoggedData, currentBlockIndex, workoutBlocks.length, setCurrentBlockIndex, setCurrentExerciseInBlock, setCurrentRound, onFinish, session?.focus, elapsedTimeMs]);
+
+  if (currentBlock?.type === 'emom' || currentBlock?.type === 'tabata') {
+    return (
+      <div className="fixed inset-0 z-50 overflow-y-auto bg-[var(--bg-primary)]">
+        <IntervalTimerScreen
+          block={currentBlock as IntervalBlock}
+          currentBlockIndex={currentBlockIndex}
+          onCancel={onCancel}
+          onComplete={handleIntervalBlockComplete}
+        />
+      </div>
+    );
+  }
+
   if (!currentExercise) return <div className="bg-black text-white h-full flex items-center justify-center">LOADING DATA...</div>;
 
   return (
     <div className="fixed inset-0 bg-black z-50 flex flex-col items-center justify-center font-inter">
+      <PRNotification message={prMessage?.message ?? null} detail={prMessage?.detail} onDismiss={dismissPR} />
+
       {/* HEADER: Minimal */}
       <div className="absolute top-0 left-0 right-0 p-6 flex justify-between items-start">
         <button onClick={onCancel} className="text-white/40 text-[10px] uppercase tracking-widest font-mono hover:text-white">ABORT</button>
-        <div className="font-mono text-[10px] text-[#525252] tracking-widest uppercase">
-          {Math.floor(elapsedTimeMs / 60000)} MIN ELAPSED
+        <div className="flex flex-col items-end gap-3">
+          <div className="font-mono text-[10px] text-[#525252] tracking-widest uppercase">
+            {Math.floor(elapsedTimeMs / 60000)} MIN ELAPSED
+          </div>
+          <button onClick={() => setShowSwap(true)} className="text-white/40 text-[10px] uppercase tracking-widest font-mono hover:text-white">SWAP</button>
         </div>
       </div>
 
@@ -126,8 +257,13 @@ export default function ZenSessionTracker({ session, onFinish, onCancel, allLogs
         {currentExercise.exercise_name}
       </h1>
       <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest mb-12">
-        TARGET: {currentExercise.metrics_template?.target_sets} X {currentExercise.metrics_template?.target_reps || 'AMRAP'}
+        TARGET: {currentExercise.metrics_template?.target_sets} X {currentExercise.metrics_template?.target_reps || 'AMRAP'}{targetRpe ? ` @ RPE ${targetRpe}` : ''}
       </p>
+      {loadSuggestion && (
+        <p className="font-mono text-[10px] text-white/60 uppercase tracking-widest -mt-10 mb-12">
+          NEXT: {loadSuggestion.weight} KG X {loadSuggestion.reps} · {loadSuggestion.reason}
+        </p>
+      )}
 
       {/* CONTROLS */}
       {isCardio ? (
@@ -146,6 +282,15 @@ export default function ZenSessionTracker({ session, onFinish, onCancel, allLogs
         </button>
       )}
 
+      <SwapExerciseSheet
+        isOpen={showSwap}
+        onClose={() => setShowSwap(false)}
+        exerciseName={currentExercise.exercise_name}
+        substitutes={showSwap ? getSubstitutes(currentExercise.exercise_name) : undefined}
+        isOffline={isOffline}
+        onSelect={handleSwapSelect}
+      />
+
       {/* INPUT OVERLAY */}
       {showInput && (
         <div className="absolute inset-0 bg-black/95 backdrop-blur-xl z-50 flex flex-col items-center justify-center p-6 animate-fade-in">
@@ -177,6 +322,26 @@ export default function ZenSessionTracker({ session, onFinish, onCancel, allLogs
             </div>
           </div>
 
+          {targetRpe && (
+            <div className="flex flex-col items-center mb-12">
+              <div className="flex gap-2 mb-2">
+                {RPE_OPTIONS.map(value => (
+                  <button
+                    key={value}
+                    onClick={() => setInputRpe(inputRpe === value ? null : value)}
+                    className={cn(
+                      "w-9 h-9 border font-mono text-xs tabular-nums transition-colors",
+                      inputRpe === value ? "bg-white text-black border-white" : "border-white/30 text-white/60 hover:border-white"
+                    )}
+                  >
+                    {value}
+                  </button>
+                ))}
+              </div>
+              <span className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">RPE · TARGET {targetRpe}</span>
+            </div>
+          )}
+
           <button
             onClick={handleCompleteSet}
             disabled={!inputWeight || !inputReps}
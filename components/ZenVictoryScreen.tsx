@@ -1,8 +1,8 @@
 import React, { useEffect, useState, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { WorkoutLog, UserProfile } from '../types';
+import { WorkoutLog, UserProfile, PRAchievement } from '../types';
 import { useCountUp, useHaptic } from '../hooks/useAnimations';
-import { detectPR } from '../services/prService';
+import { detectPR, detectSessionVolumePR, getHeadlinePR, describePR } from '../services/prService';
 import { cn } from '../lib/utils';
 
 /* ═══════════════════════════════════════════════════════════════
@@ -22,9 +22,11 @@ interface ZenVictoryScreenProps {
   onDone: () => void;
   allLogs?: WorkoutLog[];
   userProfile?: UserProfile | null;
+  /** Records the server stored for this session; falls back to client detection when absent */
+  personalRecords?: PRAchievement[];
 }
 
-export default function ZenVictoryScreen({ sessionLog, onDone, allLogs = [], userProfile }: ZenVictoryScreenProps) {
+export default function ZenVictoryScreen({ sessionLog, onDone, allLogs = [], userProfile, personalRecords }: ZenVictoryScreenProps) {
   const { t } = useTranslation();
   const haptic = useHaptic();
   const [showContent, setShowContent] = useState(false);
@@ -46,36 +48,42 @@ export default function ZenVictoryScreen({ sessionLog, onDone, allLogs = [], use
     return sum + sets.length;
   }, 0);
 
-  // Detect PRs from this session
+  // Detect PRs from this session (headline record per exercise, plus session tonnage)
   const prsAchieved = useMemo(() => {
-    const prs: { exercise: string; weight: number; reps: number }[] = [];
-
-    exercises.forEach(ex => {
-      const sets = Array.isArray(ex.sets) ? ex.sets : [];
-      sets.forEach((set: any) => {
-        if ('weight' in set && 'reps' in set) {
-          const prCheck = detectPR(ex.exercise_name, set.weight, set.reps, allLogs);
-          if (prCheck.isPR) {
-            // Only add unique PRs (highest for each exercise)
-            const existing = prs.find(p => p.exercise === ex.exercise_name);
-            const volume = set.weight * set.reps;
-            if (!existing || (existing.weight * existing.reps) < volume) {
-              if (existing) {
-                prs.splice(prs.indexOf(existing), 1);
-              }
-              prs.push({
-                exercise: ex.exercise_name,
-                weight: set.weight,
-                reps: set.reps,
-              });
-            }
+    let achievements: PRAchievement[] = [];
+
+    if (personalRecords && personalRecords.length > 0) {
+      achievements = personalRecords;
+    } else {
+      // Logs list may already contain this session once Convex syncs
+      const previousLogs = allLogs.filter(log => new Date(log.date).getTime() < new Date(sessionLog.date).getTime() - 60 * 1000);
+
+      exercises.forEach(ex => {
+        const sets = Array.isArray(ex.sets) ? ex.sets : [];
+        sets.forEach((set: any) => {
+          if ('weight' in set && 'reps' in set) {
+            const prCheck = detectPR(ex.exercise_name, Number(set.weight), Number(set.reps), previousLogs);
+            achievements.push(...prCheck.achievements);
           }
-        }
+        });
       });
+
+      const sessionVolumePR = detectSessionVolumePR(exercises, previousLogs);
+      if (sessionVolumePR) achievements.push(sessionVolumePR);
+    }
+
+    const byExercise = new Map<string, PRAchievement[]>();
+    achievements.forEach(a => {
+      byExercise.set(a.exercise_name, [...(byExercise.get(a.exercise_name) || []), a]);
     });
 
-    return prs;
-  }, [exercises, allLogs]);
+    return Array.from(byExercise.entries())
+      .map(([exercise, list]) => {
+        const headline = getHeadlinePR(list);
+        return headline ? { exercise, label: describePR(headline), type: headline.type } : null;
+      })
+      .filter((pr): pr is { exercise: string; label: string; type: PRAchievement['type'] } => pr !== null);
+  }, [exercises, allLogs, personalRecords, sessionLog.date]);
 
   // Find last similar session for comparison
   const lastSimilarSession = useMemo(() => {
@@ -263,7 +271,7 @@ export default function ZenVictoryScreen({ sessionLog, onDone, allLogs = [], use
                       {pr.exercise}
                     </span>
                     <span className="text-amber-400 font-bold text-sm whitespace-nowrap">
-                      {pr.weight}kg × {pr.reps}
+                      {pr.label}
                     </span>
                   </div>
                 ))}
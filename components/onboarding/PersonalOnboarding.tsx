@@ -1,8 +1,8 @@
 import React, { useState, useCallback } from 'react';
 import { useUser } from '@clerk/clerk-react';
-import { useMutation, useAction, useQuery } from 'convex/react';
+import { useAction, useQuery } from 'convex/react';
 import { api } from '../../convex/_generated/api';
-import { WorkoutPlan } from '../../types';
+import { WorkoutPlan, PlanSource } from '../../types';
 import { useHaptic } from '../../hooks/useAnimations';
 import { cn } from '../../lib/utils';
 import { Check } from 'lucide-react';
@@ -12,7 +12,7 @@ import { Check } from 'lucide-react';
 // ═══════════════════════════════════════════════════════════════════════════════
 
 interface PersonalOnboardingProps {
-  onPlanGenerated: (plan: Omit<WorkoutPlan, 'id'>) => void;
+  onPlanGenerated: (plan: Omit<WorkoutPlan, 'id'>, source?: PlanSource) => void;
 }
 
 // ════════════════════════════════════════════════════════════════════
@@ -111,7 +111,6 @@ export default function PersonalOnboarding({ onPlanGenerated }: PersonalOnboardi
   // Generation
   const generatePlanAction = useAction(api.ai.generateWorkoutPlan);
   const parsePlanAction = useAction(api.ai.parseWorkoutPlan);
-  const incrementPlanUsageMutation = useMutation(api.mutations.incrementPlanUsage);
   const [isGenerating, setIsGenerating] = useState(false);
   const [statusText, setStatusText] = useState('INITIALIZING');
 
@@ -131,8 +130,7 @@ export default function PersonalOnboarding({ onPlanGenerated }: PersonalOnboardi
     try {
       const plan = await parsePlanAction({ planText: importText, userId: user?.id || 'anonymous' });
       if (plan) {
-        if (user?.id) await incrementPlanUsageMutation({ userId: user.id });
-        onPlanGenerated(plan as any);
+        onPlanGenerated(plan as any, 'import');
       }
     } catch (e) {
       setIsGenerating(false);
@@ -179,7 +177,6 @@ export default function PersonalOnboarding({ onPlanGenerated }: PersonalOnboardi
 
       if (plan) {
         setStatusText('FINALIZING');
-        if (user?.id) await incrementPlanUsageMutation({ userId: user.id });
         onPlanGenerated(plan);
       }
     } catch (e) {
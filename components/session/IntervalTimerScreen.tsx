@@ -0,0 +1,312 @@
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { cn } from '../../lib/utils';
+import { XMarkIcon } from '../icons';
+import { IntervalBlock, LoggedSetDuration } from '../../types';
+import { Button } from '../ui/button';
+import { useHaptic } from '../../hooks/useAnimations';
+import { buildIntervalSchedule } from '../../lib/workoutUtils';
+
+/* ═══════════════════════════════════════════════════════════════
+   INTERVAL TIMER SCREEN - EMOM & Tabata blocks
+
+   Runs the block on a fixed clock:
+   - EMOM: one work interval per minute (or interval_seconds), exercises rotate
+   - Tabata: work/rest rounds (classic 8 × 20s/10s)
+   Cues: heavy haptic + beep at every interval start, light ticks for
+   the last 3 seconds, success haptic at the end.
+   ═══════════════════════════════════════════════════════════════ */
+
+interface IntervalTimerScreenProps {
+  block: IntervalBlock;
+  currentBlockIndex: number;
+  onCancel: () => void;
+  onComplete: (loggedSets: Record<string, LoggedSetDuration[]>) => void;
+  mute?: boolean;
+}
+
+// Shared audio context (created lazily - browsers block it before user interaction)
+let audioContext: AudioContext | null = null;
+
+const playBeep = (frequency: number, durationS: number) => {
+  if (typeof window === 'undefined') return;
+  if (!audioContext) {
+    const Ctx = window.AudioContext || (window as any).webkitAudioContext;
+    if (!Ctx) return;
+    audioContext = new Ctx();
+  }
+  if (audioContext.state === 'suspended') {
+    audioContext.resume();
+  }
+
+  const oscillator = audioContext.createOscillator();
+  const gainNode = audioContext.createGain();
+  oscillator.connect(gainNode);
+  gainNode.connect(audioContext.destination);
+
+  oscillator.type = 'sine';
+  oscillator.frequency.setValueAtTime(frequency, audioContext.currentTime);
+  gainNode.gain.setValueAtTime(0.3, audioContext.currentTime);
+  gainNode.gain.exponentialRampToValueAtTime(0.0001, audioContext.currentTime + durationS);
+
+  oscillator.start(audioContext.currentTime);
+  oscillator.stop(audioContext.currentTime + durationS);
+};
+
+const formatClock = (totalSeconds: number) => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
+};
+
+export default function IntervalTimerScreen({
+  block,
+  currentBlockIndex,
+  onCancel,
+  onComplete,
+  mute = false,
+}: IntervalTimerScreenProps) {
+  const { t } = useTranslation();
+  // The hook returns a new object every render; its callbacks are stable
+  const { light, medium, heavy, success } = useHaptic();
+  const phases = useMemo(() => buildIntervalSchedule(block), [block]);
+  const totalWorkPhases = phases.filter(p => p.kind === 'work').length;
+
+  const [phaseIndex, setPhaseIndex] = useState(0);
+  const [remainingMs, setRemainingMs] = useState(phases[0]?.seconds * 1000 || 0);
+  const [isRunning, setIsRunning] = useState(false);
+  const [hasStarted, setHasStarted] = useState(false);
+  const [isFinished, setIsFinished] = useState(false);
+
+  const phaseEndsAtRef = useRef<number>(0);
+  const lastTickSecondRef = useRef<number | null>(null);
+
+  const phase = phases[phaseIndex];
+  const nextWorkPhase = phases.slice(phaseIndex + 1).find(p => p.kind === 'work');
+
+  const cue = useCallback((kind: 'work' | 'rest' | 'tick' | 'done') => {
+    switch (kind) {
+      case 'work':
+        heavy();
+        if (!mute) playBeep(880, 0.4);
+        break;
+      case 'rest':
+        medium();
+        if (!mute) playBeep(440, 0.4);
+        break;
+      case 'tick':
+        light();
+        if (!mute) playBeep(660, 0.1);
+        break;
+      case 'done':
+        success();
+        if (!mute) playBeep(1046, 0.8);
+        break;
+    }
+  }, [light, medium, heavy, success, mute]);
+
+  // Clock: track an absolute end time so background throttling doesn't drift
+  useEffect(() => {
+    if (!isRunning || !phase) return;
+
+    const interval = setInterval(() => {
+      const remaining = Math.max(0, phaseEndsAtRef.current - Date.now());
+      setRemainingMs(remaining);
+
+      const remainingSeconds = Math.ceil(remaining / 1000);
+      if (remainingSeconds <= 3 && remainingSeconds > 0 && lastTickSecondRef.current !== remainingSeconds) {
+        lastTickSecondRef.current = remainingSeconds;
+        cue('tick');
+      }
+
+      if (remaining <= 0) {
+        const nextIndex = phaseIndex + 1;
+        lastTickSecondRef.current = null;
+
+        if (nextIndex >= phases.length) {
+          setIsRunning(false);
+          setIsFinished(true);
+          cue('done');
+          return;
+        }
+
+        const nextPhase = phases[nextIndex];
+        phaseEndsAtRef.current = Date.now() + nextPhase.seconds * 1000;
+        setPhaseIndex(nextIndex);
+        setRemainingMs(nextPhase.seconds * 1000);
+        cue(nextPhase.kind);
+      }
+    }, 200);
+
+    return () => clearInterval(interval);
+  }, [isRunning, phase, phaseIndex, phases, cue]);
+
+  const handleStart = () => {
+    if (!phase) return;
+    phaseEndsAtRef.current = Date.now() + remainingMs;
+    setHasStarted(true);
+    setIsRunning(true);
+    if (!hasStarted) cue(phase.kind);
+  };
+
+  const handlePause = () => {
+    light();
+    setIsRunning(false);
+  };
+
+  // Log every work interval that was reached as a duration set
+  const handleComplete = () => {
+    const reached = isFinished ? phases : phases.slice(0, phaseIndex + 1);
+    const loggedSets: Record<string, LoggedSetDuration[]> = {};
+
+    reached.forEach((p, i) => {
+      if (p.kind !== 'work' || !p.exercise) return;
+      // The interval in progress only counts for the time actually worked
+      const isCurrent = !isFinished && i === phaseIndex;
+      const duration = isCurrent ? Math.round(p.seconds - remainingMs / 1000) : p.seconds;
+      if (duration <= 0) return;
+
+      const name = p.exercise.exercise_name;
+      const sets = loggedSets[name] || (loggedSets[name] = []);
+      sets.push({ set: sets.length + 1, duration_s: duration });
+    });
+
+    setIsRunning(false);
+    onComplete(loggedSets);
+  };
+
+  const isEmom = block.type === 'emom';
+  const isRest = phase?.kind === 'rest';
+  const remainingSeconds = Math.ceil(remainingMs / 1000);
+  const progress = phase ? 1 - remainingMs / (phase.seconds * 1000) : 1;
+  const totalSeconds = phases.reduce((sum, p) => sum + p.seconds, 0);
+
+  return (
+    <div className={cn(
+      "min-h-screen w-full max-w-lg mx-auto flex flex-col",
+      isRest ? "bg-[var(--surface-secondary)]" : "bg-[var(--bg-primary)]",
+      "px-[var(--space-4)] pt-[var(--space-4)]",
+      "pb-[calc(var(--space-4)+env(safe-area-inset-bottom))]",
+      "transition-colors duration-[var(--duration-normal)]"
+    )}>
+      <div className="flex items-center justify-between mb-[var(--space-4)]">
+        <button
+          onClick={onCancel}
+          className={cn(
+            "p-[var(--space-1)]",
+            "min-w-[var(--height-touch-min)] min-h-[var(--height-touch-min)]",
+            "flex items-center justify-center",
+            "rounded-[var(--radius-lg)]",
+            "hover:bg-[var(--surface-secondary)]",
+            "transition-colors duration-[var(--duration-fast)]"
+          )}
+        >
+          <XMarkIcon className="w-4 h-4 text-[var(--text-secondary)]" />
+        </button>
+        <p className="text-[9px] uppercase tracking-[var(--tracking-widest)] text-[var(--brand-primary)] font-[var(--weight-bold)]">
+          {isEmom ? t('session.emomMode') : t('session.tabataMode')}
+        </p>
+        <div className="w-8" />
+      </div>
+
+      <div className="flex-1 flex flex-col items-center justify-center">
+        <h1 className="text-[var(--text-xl)] font-[var(--weight-bold)] text-[var(--text-primary)] text-center mb-[var(--space-1)]">
+          {block.title || (isEmom ? 'EMOM' : 'Tabata')}
+        </h1>
+        <p className="text-[var(--text-xs)] text-[var(--text-secondary)] text-center mb-[var(--space-6)]">
+          {isEmom
+            ? t('session.emomSummary', { minutes: block.duration_minutes, seconds: block.interval_seconds || 60 })
+            : t('session.tabataSummary', { rounds: block.rounds, work: block.work_seconds, rest: block.rest_seconds })}
+          {' · '}{formatClock(totalSeconds)}
+        </p>
+
+        {/* Countdown ring */}
+        <div className="relative w-56 h-56 mb-[var(--space-6)]">
+          <svg className="w-full h-full -rotate-90" viewBox="0 0 100 100">
+            <circle cx="50" cy="50" r="45" fill="none" stroke="var(--border-default)" strokeWidth="4" />
+            <circle
+              cx="50"
+              cy="50"
+              r="45"
+              fill="none"
+              stroke={isRest ? 'var(--text-tertiary)' : 'var(--brand-primary)'}
+              strokeWidth="4"
+              strokeLinecap="round"
+              strokeDasharray={2 * Math.PI * 45}
+              strokeDashoffset={2 * Math.PI * 45 * (1 - progress)}
+              className="transition-[stroke-dashoffset] duration-200 ease-linear"
+            />
+          </svg>
+          <div className="absolute inset-0 flex flex-col items-center justify-center">
+            <p className={cn(
+              "text-[10px] uppercase tracking-[var(--tracking-widest)] font-[var(--weight-bold)] mb-[var(--space-1)]",
+              isRest ? "text-[var(--text-tertiary)]" : "text-[var(--brand-primary)]"
+            )}>
+              {isFinished ? t('session.blockCompleteTitle') : isRest ? t('session.intervalRest') : t('session.intervalWork')}
+            </p>
+            <p className="text-[56px] leading-none font-[var(--weight-black)] text-[var(--text-primary)] tabular-nums">
+              {isFinished ? '0:00' : formatClock(remainingSeconds)}
+            </p>
+            {phase && !isFinished && (
+              <p className="text-[var(--text-xs)] text-[var(--text-secondary)] mt-[var(--space-1)] tabular-nums">
+                {t('session.roundOf', { current: phase.round, total: totalWorkPhases })}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Current / next exercise */}
+        {phase?.exercise && !isFinished && (
+          <div className={cn(
+            "w-full max-w-md",
+            "bg-[var(--surface-primary)]",
+            "border border-[var(--border-default)]",
+            "rounded-[var(--radius-lg)]",
+            "p-[var(--space-3)] mb-[var(--space-4)]",
+            "shadow-[var(--shadow-sm)]"
+          )}>
+            <p className="text-[9px] uppercase tracking-[var(--tracking-widest)] text-[var(--text-tertiary)] font-[var(--weight-bold)] mb-[var(--space-1)]">
+              {isRest ? t('session.upNext') : t('session.intervalNow')}
+            </p>
+            <p className="text-[var(--text-md)] font-[var(--weight-bold)] text-[var(--text-primary)]">
+              {phase.exercise.exercise_name}
+              {phase.exercise.metrics_template?.target_reps && (
+                <span className="text-[var(--text-secondary)] font-[var(--weight-medium)]">
+                  {' · '}{t('session.repsCount', { count: phase.exercise.metrics_template.target_reps })}
+                </span>
+              )}
+            </p>
+            {!isRest && nextWorkPhase?.exercise && nextWorkPhase.exercise !== phase.exercise && (
+              <p className="text-[var(--text-xs)] text-[var(--text-tertiary)] mt-[var(--space-1)]">
+                {t('session.next')}: {nextWorkPhase.exercise.exercise_name}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="w-full max-w-md space-y-[var(--space-2)]">
+          {!isFinished && (
+            <Button
+              onClick={isRunning ? handlePause : handleStart}
+              variant={isRunning ? 'secondary' : 'primary'}
+              size="lg"
+              className="w-full"
+            >
+              {isRunning ? t('session.pause') : hasStarted ? t('session.resume') : t('common.start')}
+            </Button>
+          )}
+          {(hasStarted || isFinished) && (
+            <Button
+              onClick={handleComplete}
+              variant={isFinished ? 'primary' : 'ghost'}
+              size="lg"
+              className="w-full"
+            >
+              {t('session.completeIntervalBlock', { number: currentBlockIndex + 1 })}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,7 +9,7 @@ import { useHaptic } from '../../hooks/useAnimations';
    SET INPUT CONTROLS - Exercise Type Aware
 
    Intelligently shows different inputs based on exercise type:
-   - Strength: Weight + Reps
+   - Strength: Weight + Reps (+ optional RPE for autoregulation)
    - Cardio/Intervals: Duration timer
    - Distance: Distance + Time
    ═══════════════════════════════════════════════════════════════ */
@@ -17,12 +17,17 @@ import { useHaptic } from '../../hooks/useAnimations';
 interface SetInputControlsProps {
   exerciseName: string;
   currentInputData: Partial<LoggedSetSRW & { duration?: number; distance?: number }>;
-  onInputChange: (field: 'weight' | 'reps' | 'duration' | 'distance', value: string) => void;
+  onInputChange: (field: 'weight' | 'reps' | 'rpe' | 'duration' | 'distance', value: string) => void;
   metricsTemplate?: MetricTemplate;
   onComplete?: (actualDuration?: number) => void; // For cardio - auto complete when timer ends, passes actual duration
   suggestedWeight?: number | null; // AI-suggested weight based on strength profile
+  suggestionReason?: string | null; // Why the suggestion was made (e.g. "RPE 9 > target 8")
+  showRpe?: boolean; // Show RPE selector (plan has a target RPE or user opted in)
 }
 
+// RPE choices shown as chips (RPE 6 = 4 reps in reserve, RPE 10 = failure)
+const RPE_OPTIONS = [6, 7, 7.5, 8, 8.5, 9, 9.5, 10];
+
 // Cardio exercise keywords for fallback detection (cardio machines and activities)
 const CARDIO_KEYWORDS = [
   'cardio', 'elliptical', 'treadmill', 'bike', 'cycling', 'rowing', 'rower',
@@ -289,6 +294,8 @@ export default function SetInputControls({
   metricsTemplate,
   onComplete,
   suggestedWeight,
+  suggestionReason,
+  showRpe = false,
 }: SetInputControlsProps) {
   const { t } = useTranslation();
   const inputType = getExerciseInputType(metricsTemplate, exerciseName);
@@ -444,7 +451,11 @@ export default function SetInputControls({
           )}
         >
           <span className="text-lg">✨</span>
-          <span>Suggested: <strong>{suggestedWeight}kg</strong> based on your profile</span>
+          {suggestionReason ? (
+            <span>{t('session.suggestedLoad', { weight: suggestedWeight })} · {suggestionReason}</span>
+          ) : (
+            <span>Suggested: <strong>{suggestedWeight}kg</strong> based on your profile</span>
+          )}
         </button>
       )}
 
@@ -537,6 +548,36 @@ export default function SetInputControls({
           placeholder="0"
         />
       </div>
+
+      {showRpe && (
+        <div>
+          <label className="text-[var(--text-xs)] font-[var(--weight-semibold)] uppercase tracking-[var(--tracking-wider)] text-[var(--text-tertiary)] mb-[var(--space-2)] flex items-center gap-[var(--space-2)]">
+            {t('session.rpeLabel')}
+          </label>
+          <div className="grid grid-cols-8 gap-[var(--space-1)]">
+            {RPE_OPTIONS.map((value) => {
+              const selected = Number(currentInputData.rpe) === value;
+              return (
+                <button
+                  key={value}
+                  onClick={() => onInputChange('rpe', selected ? '' : value.toString())}
+                  className={cn(
+                    "h-10 rounded-[var(--radius-lg)]",
+                    "font-[var(--weight-bold)] text-[var(--text-xs)] tabular-nums",
+                    "transition-all duration-[var(--duration-fast)]",
+                    "active:scale-90 border-2",
+                    selected
+                      ? "bg-[var(--brand-primary)] border-[var(--brand-primary)] text-[var(--text-on-brand)]"
+                      : "bg-[var(--surface-primary)] border-[var(--border-default)] text-[var(--text-secondary)]"
+                  )}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
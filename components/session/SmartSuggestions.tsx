@@ -2,6 +2,7 @@ import React from 'react';
 import { useTranslation } from 'react-i18next';
 import { cn } from '../../lib/utils';
 import { SparklesIcon, TrendingUpIcon, RepeatIcon, ZapIcon } from '../icons';
+import type { LoadSuggestion } from '../../services/autoregulationService';
 
 /* ═══════════════════════════════════════════════════════════════
    SMART SUGGESTIONS - Progressive Overload Helper
@@ -9,6 +10,8 @@ import { SparklesIcon, TrendingUpIcon, RepeatIcon, ZapIcon } from '../icons';
    Shows quick-action buttons based on last performance:
    - Set 1: "Use Last Week's Weight" + "Progress (+2.5kg)"
    - Set 2+: "Repeat Last Set" + "Progress (+2.5kg)"
+   - With an RPE target: the progress button becomes the
+     autoregulated load from autoregulationService
    ═══════════════════════════════════════════════════════════════ */
 
 interface SmartSuggestionsProps {
@@ -17,6 +20,7 @@ interface SmartSuggestionsProps {
   currentRound?: number;
   onRepeatLast: () => void;
   onProgressiveOverload: (weight: number, reps: number) => void;
+  suggestion?: LoadSuggestion | null; // RPE-based load, replaces the flat increment
 }
 
 export default function SmartSuggestions({
@@ -25,13 +29,19 @@ export default function SmartSuggestions({
   currentRound = 1,
   onRepeatLast,
   onProgressiveOverload,
+  suggestion,
 }: SmartSuggestionsProps) {
   const { t } = useTranslation();
   const isFirstSet = currentRound === 1;
 
   // Calculate progressive overload weight
   // Add 2.5kg for weights under 50kg, 5kg for heavier weights
-  const progressWeight = lastWeight < 50 ? lastWeight + 2.5 : lastWeight + 5;
+  // RPE autoregulation wins when available
+  const progressWeight = suggestion
+    ? suggestion.weight
+    : lastWeight < 50 ? lastWeight + 2.5 : lastWeight + 5;
+  const progressReps = suggestion ? suggestion.reps : lastReps;
+  const isBackOff = suggestion?.adjustment === 'decrease';
 
   return (
     <div className={cn(
@@ -82,24 +92,36 @@ export default function SmartSuggestions({
 
         {/* Progressive overload */}
         <button
-          onClick={() => onProgressiveOverload(progressWeight, lastReps)}
+          onClick={() => onProgressiveOverload(progressWeight, progressReps)}
           className={cn(
             "p-[var(--space-3)]",
-            "bg-gradient-to-br from-[var(--status-success-bg)]/10 to-[var(--status-success-bg)]/5",
-            "border-2 border-[var(--status-success-bg)]",
+            isBackOff
+              ? "bg-gradient-to-br from-[var(--status-warning-bg)]/10 to-[var(--status-warning-bg)]/5 border-2 border-[var(--status-warning-bg)]"
+              : "bg-gradient-to-br from-[var(--status-success-bg)]/10 to-[var(--status-success-bg)]/5 border-2 border-[var(--status-success-bg)]",
             "rounded-[var(--radius-xl)]",
             "hover:shadow-[var(--shadow-md)]",
             "transition-all duration-[var(--duration-fast)]",
             "active:scale-95"
           )}
         >
-          <p className="text-[10px] text-[var(--status-success-bg)] font-[var(--weight-bold)] mb-[var(--space-1)] flex items-center gap-[var(--space-1)]">
+          <p className={cn(
+            "text-[10px] font-[var(--weight-bold)] mb-[var(--space-1)] flex items-center gap-[var(--space-1)]",
+            isBackOff ? "text-[var(--status-warning-bg)]" : "text-[var(--status-success-bg)]"
+          )}>
             <TrendingUpIcon className="w-3 h-3" />
-            {t('session.progress', 'PROGRESS')}
+            {suggestion ? t('session.autoregulated', 'AUTO-REGULATED') : t('session.progress', 'PROGRESS')}
           </p>
-          <p className="text-[20px] font-[var(--weight-black)] text-[var(--status-success-bg)] tabular-nums">
-            {progressWeight}<span className="text-[14px] opacity-70">kg</span> × {lastReps}
+          <p className={cn(
+            "text-[20px] font-[var(--weight-black)] tabular-nums",
+            isBackOff ? "text-[var(--status-warning-bg)]" : "text-[var(--status-success-bg)]"
+          )}>
+            {progressWeight}<span className="text-[14px] opacity-70">kg</span> × {progressReps}
           </p>
+          {suggestion && (
+            <p className="text-[10px] text-[var(--text-tertiary)] mt-[var(--space-1)] truncate">
+              {suggestion.reason}
+            </p>
+          )}
         </button>
       </div>
 
@@ -0,0 +1,90 @@
+import React from 'react';
+import { X, WifiOff, AlertTriangle, Star } from 'lucide-react';
+import type { ExerciseSubstitute } from '../../services/substitutionService';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWAP EXERCISE - ranked substitutes for the current exercise (Editorial Noir)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface SwapExerciseSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  exerciseName: string;
+  /** undefined while loading */
+  substitutes: ExerciseSubstitute[] | undefined;
+  isOffline: boolean;
+  onSelect: (exerciseName: string) => void;
+}
+
+export default function SwapExerciseSheet({ isOpen, onClose, exerciseName, substitutes, isOffline, onSelect }: SwapExerciseSheetProps) {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-end" onClick={onClose}>
+      <div
+        className="w-full max-h-[85vh] overflow-y-auto bg-black border-t border-white/20 pb-safe-bottom"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="px-6 py-5 border-b border-white/10 flex justify-between items-center">
+          <div className="min-w-0">
+            <p className="font-mono text-[10px] text-[#525252] tracking-widest uppercase truncate">
+              REPLACE {exerciseName}
+            </p>
+            <h2 className="text-xl font-black italic tracking-tighter text-white uppercase leading-none">
+              SWAP
+            </h2>
+          </div>
+          <button onClick={onClose} className="w-9 h-9 border border-white/20 flex items-center justify-center text-white shrink-0">
+            <X className="w-4 h-4" />
+          </button>
+        </header>
+
+        {isOffline && (
+          <div className="px-6 py-3 border-b border-white/10 flex items-center gap-2">
+            <WifiOff className="w-3 h-3 text-[#737373]" />
+            <span className="font-mono text-[10px] text-[#737373] uppercase tracking-widest">OFFLINE · SAVED SUGGESTIONS</span>
+          </div>
+        )}
+
+        {substitutes === undefined ? (
+          <p className="px-6 py-8 font-mono text-[10px] text-[#525252] uppercase tracking-widest">LOADING...</p>
+        ) : substitutes.length === 0 ? (
+          <p className="px-6 py-8 font-mono text-[10px] text-[#525252] uppercase tracking-widest">
+            {isOffline ? 'NO SAVED SUGGESTIONS FOR THIS EXERCISE' : 'NO SUBSTITUTES FOUND'}
+          </p>
+        ) : (
+          <ul className="divide-y divide-white/10">
+            {substitutes.map((substitute) => (
+              <li key={substitute.normalized_name}>
+                <button
+                  onClick={() => onSelect(substitute.exercise_name)}
+                  className="w-full px-6 py-4 text-left hover:bg-white/5 transition-colors"
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="text-white font-bold uppercase tracking-tight truncate flex items-center gap-2">
+                      {substitute.is_favorite && <Star className="w-3 h-3 text-white fill-white shrink-0" />}
+                      {substitute.exercise_name}
+                    </span>
+                    <span className="font-mono text-[10px] text-[#737373] tabular-nums shrink-0">
+                      {substitute.exercise_tier ? `${substitute.exercise_tier} · ` : ''}{substitute.score}
+                    </span>
+                  </div>
+                  {substitute.reasons.length > 0 && (
+                    <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest mt-1">
+                      {substitute.reasons.join(' · ')}
+                    </p>
+                  )}
+                  {substitute.caution && (
+                    <p className="text-xs text-[#A3A3A3] mt-1 flex items-start gap-1">
+                      <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {substitute.caution}
+                    </p>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,42 +4,59 @@ import { useUser } from '@clerk/clerk-react';
 import { useMutation } from 'convex/react';
 import { api } from '../../convex/_generated/api';
 import useUserProfile from '../../hooks/useUserProfile';
+import {
+  SessionCheckpoint,
+  generateSessionKey,
+  getDeviceId,
+  countExercisesDone,
+  saveLocalCheckpoint,
+  markLocalCheckpointSynced,
+  toServerCheckpoint,
+} from '../../services/sessionCheckpointService';
 
 export function useSessionState(
   session: PlanDay,
   allLogs: WorkoutLog[],
-  onFinish: (log: { focus: string; exercises: LoggedExercise[]; durationMinutes: number }) => void
+  onFinish: (log: { focus: string; exercises: LoggedExercise[]; durationMinutes: number }) => void,
+  resumeFrom?: SessionCheckpoint | null
 ) {
-  const [loggedData, setLoggedData] = useState<Record<string, (LoggedSetSRW | LoggedSetDuration)[]>>({});
+  const [loggedData, setLoggedData] = useState<Record<string, (LoggedSetSRW | LoggedSetDuration)[]>>(() => resumeFrom?.loggedData || {});
   const [currentInputData, setCurrentInputData] = useState<Record<string, Partial<LoggedSetSRW>>>({});
   const [isResting, setIsResting] = useState(false);
   const [restDuration, setRestDuration] = useState(90);
-  const [startTime] = useState(new Date());
-  const [isPaused, setIsPaused] = useState(false);
-  const [elapsedTimeMs, setElapsedTimeMs] = useState(0);
-  const [currentBlockIndex, setCurrentBlockIndex] = useState(0);
-  const [currentExerciseInBlock, setCurrentExerciseInBlock] = useState(0);
-  const [currentRound, setCurrentRound] = useState(1);
+  // Resumed sessions continue from the checkpointed elapsed time, not the original clock
+  const [startTime] = useState(() => new Date(Date.now() - (resumeFrom?.elapsedMs || 0)));
+  const [isPaused, setIsPaused] = useState(resumeFrom?.isPaused || false);
+  const [elapsedTimeMs, setElapsedTimeMs] = useState(resumeFrom?.elapsedMs || 0);
+  const [currentBlockIndex, setCurrentBlockIndex] = useState(resumeFrom?.currentBlockIndex || 0);
+  const [currentExerciseInBlock, setCurrentExerciseInBlock] = useState(resumeFrom?.currentExerciseInBlock || 0);
+  const [currentRound, setCurrentRound] = useState(resumeFrom?.currentRound || 1);
   const [selectedExercise, setSelectedExercise] = useState<PlanExercise | null>(null);
   const [showExerciseList, setShowExerciseList] = useState(false);
-  const [celebratedPRs, setCelebratedPRs] = useState<Set<string>>(new Set());
-  const [completedWarmupExercises, setCompletedWarmupExercises] = useState<Set<string>>(new Set());
+  const [celebratedPRs, setCelebratedPRs] = useState<Set<string>>(() => new Set(resumeFrom?.celebratedPRs || []));
+  const [completedWarmupExercises, setCompletedWarmupExercises] = useState<Set<string>>(() => new Set(resumeFrom?.completedWarmupExercises || []));
   const [celebratedMilestones, setCelebratedMilestones] = useState<Set<number>>(new Set());
   const [showMilestoneCelebration, setShowMilestoneCelebration] = useState<{ progress: number; message: string } | null>(null);
   const [showWarmupDetails, setShowWarmupDetails] = useState(true);
   const [justCompletedSet, setJustCompletedSet] = useState(false);
+  // Mid-session swaps, keyed "blockIndex:exerciseIndex" → replacement name
+  const [exerciseSwaps, setExerciseSwaps] = useState<Record<string, string>>({});
 
   const pauseStartTime = useRef<Date | null>(null);
   const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const sessionKeyRef = useRef(resumeFrom?.sessionKey || generateSessionKey());
+  const startedAtRef = useRef(resumeFrom?.startedAt || Date.now());
 
   const { user } = useUser();
   const { userProfile } = useUserProfile();
   const userId = user?.id || null;
 
   const notifyBuddyMutation = useMutation(api.buddyMutations.notifyBuddyWorkoutStart);
+  const saveActiveSessionMutation = useMutation(api.activeSessions.saveActiveSession);
 
-  // Notify buddies on mount
+  // Notify buddies on mount (not again when resuming)
   useEffect(() => {
+    if (resumeFrom) return;
     // Guard: Ensure both userId and session.focus are valid non-empty strings
     const workoutName = session?.focus;
     if (userId && workoutName && typeof workoutName === 'string' && workoutName.trim()) {
@@ -118,12 +135,27 @@ export function useSessionState(
     }
 
     // Filter to valid blocks with exercises
-    return allBlocks.filter(block =>
+    const validBlocks = allBlocks.filter(block =>
       block &&
       Array.isArray(block.exercises) &&
       block.exercises.length > 0
     );
-  }, [session]);
+    if (Object.keys(exerciseSwaps).length === 0) return validBlocks;
+
+    return validBlocks.map((block, blockIndex) => ({
+      ...block,
+      exercises: block.exercises.map((ex, exerciseIndex) => {
+        const replacement = exerciseSwaps[`${blockIndex}:${exerciseIndex}`];
+        if (!replacement || replacement === ex.exercise_name) return ex;
+        // Notes were written for the planned exercise; targets carry over
+        return { ...ex, exercise_name: replacement, original_exercise_name: ex.original_exercise_name || ex.exercise_name, notes: null };
+      }),
+    }) as WorkoutBlock);
+  }, [session, exerciseSwaps]);
+
+  const swapExercise = useCallback((blockIndex: number, exerciseIndex: number, replacementName: string) => {
+    setExerciseSwaps(prev => ({ ...prev, [`${blockIndex}:${exerciseIndex}`]: replacementName }));
+  }, []);
 
   const currentBlock = workoutBlocks[currentBlockIndex];
 
@@ -163,6 +195,64 @@ export function useSessionState(
     return warmupExercises.every(ex => completedWarmupExercises.has(ex.exercise_name));
   }, [warmupExercises, completedWarmupExercises]);
 
+  // Checkpoint after every set / position change so an OS kill doesn't lose the workout
+  const buildCheckpoint = useCallback((): SessionCheckpoint | null => {
+    if (!userId) return null;
+    const hasProgress = Object.keys(loggedData).some(name => loggedData[name].length > 0) || currentBlockIndex > 0;
+    if (!hasProgress) return null;
+
+    const { done, total } = countExercisesDone({ ...session, blocks: workoutBlocks }, loggedData);
+    return {
+      sessionKey: sessionKeyRef.current,
+      userId,
+      session: { ...session, blocks: workoutBlocks },
+      loggedData,
+      currentBlockIndex,
+      currentExerciseInBlock,
+      currentRound,
+      completedWarmupExercises: Array.from(completedWarmupExercises),
+      celebratedPRs: Array.from(celebratedPRs),
+      startedAt: startedAtRef.current,
+      elapsedMs: Date.now() - startTime.getTime(),
+      isPaused,
+      exercisesDone: done,
+      exercisesTotal: total,
+      updatedAt: Date.now(),
+      deviceId: getDeviceId(),
+    };
+  }, [userId, session, workoutBlocks, loggedData, currentBlockIndex, currentExerciseInBlock, currentRound, completedWarmupExercises, celebratedPRs, isPaused, startTime]);
+
+  const persistCheckpoint = useCallback((checkpoint: SessionCheckpoint) => {
+    saveLocalCheckpoint(checkpoint);
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+    saveActiveSessionMutation(toServerCheckpoint(checkpoint))
+      .then(() => markLocalCheckpointSynced(checkpoint.sessionKey, checkpoint.updatedAt))
+      .catch((error) => {
+        // Silent fail - the local checkpoint still covers this device
+        console.debug('Failed to sync session checkpoint:', error);
+      });
+  }, [saveActiveSessionMutation]);
+
+  useEffect(() => {
+    const checkpoint = buildCheckpoint();
+    if (checkpoint) persistCheckpoint(checkpoint);
+    // Deliberately not keyed on buildCheckpoint: only progress changes should write
+  }, [loggedData, currentBlockIndex, currentExerciseInBlock, currentRound, completedWarmupExercises, isPaused, exerciseSwaps]);
+
+  // iOS may kill the app any time after it's backgrounded - capture elapsed time first
+  const buildCheckpointRef = useRef(buildCheckpoint);
+  buildCheckpointRef.current = buildCheckpoint;
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== 'hidden') return;
+      const checkpoint = buildCheckpointRef.current();
+      if (checkpoint) persistCheckpoint(checkpoint);
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [persistCheckpoint]);
+
   const getExerciseHistory = useCallback((exerciseName: string) => {
     const lastLog = allLogs
       .slice()
@@ -260,6 +350,7 @@ export function useSessionState(
     userProfile,
 
     // Utilities
+    swapExercise,
     getExerciseHistory,
     getExerciseHistoryFull,
   };
@@ -14,6 +14,10 @@ export interface PRRecord {
   exerciseName: string;
   weight: number;
   reps: number;
+  /** Record headline, e.g. "e1RM 120kg" or "5RM 100kg" (defaults to weight × reps) */
+  label?: string;
+  /** Improvement over the previous record in kg */
+  improvement?: number;
 }
 
 export interface PRHistoryChartProps {
@@ -72,7 +76,7 @@ export function PRHistoryChart({
       <div className="space-y-[var(--space-3)]">
         {sortedRecords.map((record, index) => (
           <div
-            key={`${record.date}-${record.exerciseName}`}
+            key={`${record.date}-${record.exerciseName}-${record.label || ''}`}
             className={cn(
               'flex items-start gap-[var(--space-3)]',
               'relative',
@@ -98,8 +102,18 @@ export function PRHistoryChart({
               </p>
               <div className="flex items-center gap-[var(--space-2)] mt-1">
                 <span className="text-[var(--text-xs)] font-bold text-[var(--brand-primary)] tabular-nums">
-                  {record.weight} kg × {record.reps}
+                  {record.label || `${record.weight} kg × ${record.reps}`}
                 </span>
+                {record.label && (
+                  <span className="text-[var(--text-2xs)] text-[var(--text-secondary)] tabular-nums">
+                    {record.weight} kg × {record.reps}
+                  </span>
+                )}
+                {record.improvement !== undefined && record.improvement > 0 && (
+                  <span className="text-[var(--text-2xs)] font-bold text-[var(--success)] tabular-nums">
+                    +{Math.round(record.improvement * 10) / 10}
+                  </span>
+                )}
                 <span className="text-[var(--text-2xs)] text-[var(--text-tertiary)]">
                   {new Date(record.date).toLocaleDateString('en-US', {
                     month: 'short',
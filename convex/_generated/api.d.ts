@@ -10,30 +10,54 @@
 
 import type * as achievementMutations from "../achievementMutations.js";
 import type * as achievementQueries from "../achievementQueries.js";
+import type * as activeSessions from "../activeSessions.js";
 import type * as adminQueries from "../adminQueries.js";
 import type * as ai from "../ai.js";
 import type * as analyticsQueries from "../analyticsQueries.js";
 import type * as auth from "../auth.js";
+import type * as autoregulationQueries from "../autoregulationQueries.js";
 import type * as backgroundImages from "../backgroundImages.js";
 import type * as buddyMutations from "../buddyMutations.js";
 import type * as buddyQueries from "../buddyQueries.js";
+import type * as calendarFeed from "../calendarFeed.js";
+import type * as cardioImport from "../cardioImport.js";
+import type * as challengeMutations from "../challengeMutations.js";
+import type * as challengeQueries from "../challengeQueries.js";
+import type * as chatCoachMutations from "../chatCoachMutations.js";
+import type * as coachingMutations from "../coachingMutations.js";
+import type * as coachingQueries from "../coachingQueries.js";
+import type * as dataExport from "../dataExport.js";
+import type * as deloadDetection from "../deloadDetection.js";
 import type * as eventTracking from "../eventTracking.js";
+import type * as exerciseSubstitutes from "../exerciseSubstitutes.js";
 import type * as generationMutations from "../generationMutations.js";
 import type * as healthMetrics from "../healthMetrics.js";
+import type * as historyImport from "../historyImport.js";
+import type * as http from "../http.js";
 import type * as hyroxActions from "../hyroxActions.js";
 import type * as hyroxQueries from "../hyroxQueries.js";
+import type * as marketplaceMutations from "../marketplaceMutations.js";
+import type * as marketplaceQueries from "../marketplaceQueries.js";
 import type * as metricsTemplateReference from "../metricsTemplateReference.js";
+import type * as muscleVolume from "../muscleVolume.js";
 import type * as mutations from "../mutations.js";
+import type * as notificationJobs from "../notificationJobs.js";
 import type * as periodizationJobs from "../periodizationJobs.js";
+import type * as personalRecordJobs from "../personalRecordJobs.js";
 import type * as photoMutations from "../photoMutations.js";
 import type * as photoQueries from "../photoQueries.js";
 import type * as planExamples from "../planExamples.js";
+import type * as planQualityValidator from "../planQualityValidator.js";
+import type * as planRevisions from "../planRevisions.js";
 import type * as planSchema from "../planSchema.js";
 import type * as planValidator from "../planValidator.js";
 import type * as populateData from "../populateData.js";
 import type * as promptBuilder from "../promptBuilder.js";
+import type * as pushDelivery from "../pushDelivery.js";
+import type * as pushMutations from "../pushMutations.js";
 import type * as queries from "../queries.js";
 import type * as rateLimiter from "../rateLimiter.js";
+import type * as readiness from "../readiness.js";
 import type * as rehab_injuryProtocolsData from "../rehab/injuryProtocolsData.js";
 import type * as scheduledJobs from "../scheduledJobs.js";
 import type * as silverPrompt from "../silverPrompt.js";
@@ -54,14 +78,34 @@ import type * as testSilverPrompt from "../testSilverPrompt.js";
 import type * as userCodeMutations from "../userCodeMutations.js";
 import type * as utils_accessControl from "../utils/accessControl.js";
 import type * as utils_aiHelpers from "../utils/aiHelpers.js";
+import type * as utils_challenges from "../utils/challenges.js";
+import type * as utils_chatActions from "../utils/chatActions.js";
+import type * as utils_coaching from "../utils/coaching.js";
 import type * as utils_constants from "../utils/constants.js";
+import type * as utils_deloadDetection from "../utils/deloadDetection.js";
 import type * as utils_errorHandling from "../utils/errorHandling.js";
+import type * as utils_exerciseSubstitution from "../utils/exerciseSubstitution.js";
+import type * as utils_icsCalendar from "../utils/icsCalendar.js";
+import type * as utils_idempotency from "../utils/idempotency.js";
+import type * as utils_localCalendar from "../utils/localCalendar.js";
 import type * as utils_logger from "../utils/logger.js";
+import type * as utils_muscleVolume from "../utils/muscleVolume.js";
+import type * as utils_oneRepMax from "../utils/oneRepMax.js";
+import type * as utils_paceCompliance from "../utils/paceCompliance.js";
 import type * as utils_pagination from "../utils/pagination.js";
 import type * as utils_performanceMetrics from "../utils/performanceMetrics.js";
 import type * as utils_periodization from "../utils/periodization.js";
+import type * as utils_personalRecords from "../utils/personalRecords.js";
+import type * as utils_planGrading from "../utils/planGrading.js";
+import type * as utils_planRevisions from "../utils/planRevisions.js";
+import type * as utils_pushProviders from "../utils/pushProviders.js";
+import type * as utils_pushScheduling from "../utils/pushScheduling.js";
 import type * as utils_queryCache from "../utils/queryCache.js";
 import type * as utils_rateLimiting from "../utils/rateLimiting.js";
+import type * as utils_readiness from "../utils/readiness.js";
+import type * as utils_scheduledNotifications from "../utils/scheduledNotifications.js";
+import type * as utils_streaks from "../utils/streaks.js";
+import type * as utils_trainingDays from "../utils/trainingDays.js";
 import type * as utils_transactionHelpers from "../utils/transactionHelpers.js";
 
 import type {
@@ -81,30 +125,54 @@ import type {
 declare const fullApi: ApiFromModules<{
   achievementMutations: typeof achievementMutations;
   achievementQueries: typeof achievementQueries;
+  activeSessions: typeof activeSessions;
   adminQueries: typeof adminQueries;
   ai: typeof ai;
   analyticsQueries: typeof analyticsQueries;
   auth: typeof auth;
+  autoregulationQueries: typeof autoregulationQueries;
   backgroundImages: typeof backgroundImages;
   buddyMutations: typeof buddyMutations;
   buddyQueries: typeof buddyQueries;
+  calendarFeed: typeof calendarFeed;
+  cardioImport: typeof cardioImport;
+  challengeMutations: typeof challengeMutations;
+  challengeQueries: typeof challengeQueries;
+  chatCoachMutations: typeof chatCoachMutations;
+  coachingMutations: typeof coachingMutations;
+  coachingQueries: typeof coachingQueries;
+  dataExport: typeof dataExport;
+  deloadDetection: typeof deloadDetection;
   eventTracking: typeof eventTracking;
+  exerciseSubstitutes: typeof exerciseSubstitutes;
   generationMutations: typeof generationMutations;
   healthMetrics: typeof healthMetrics;
+  historyImport: typeof historyImport;
+  http: typeof http;
   hyroxActions: typeof hyroxActions;
   hyroxQueries: typeof hyroxQueries;
+  marketplaceMutations: typeof marketplaceMutations;
+  marketplaceQueries: typeof marketplaceQueries;
   metricsTemplateReference: typeof metricsTemplateReference;
+  muscleVolume: typeof muscleVolume;
   mutations: typeof mutations;
+  notificationJobs: typeof notificationJobs;
   periodizationJobs: typeof periodizationJobs;
+  personalRecordJobs: typeof personalRecordJobs;
   photoMutations: typeof photoMutations;
   photoQueries: typeof photoQueries;
   planExamples: typeof planExamples;
+  planQualityValidator: typeof planQualityValidator;
+  planRevisions: typeof planRevisions;
   planSchema: typeof planSchema;
   planValidator: typeof planValidator;
   populateData: typeof populateData;
   promptBuilder: typeof promptBuilder;
+  pushDelivery: typeof pushDelivery;
+  pushMutations: typeof pushMutations;
   queries: typeof queries;
   rateLimiter: typeof rateLimiter;
+  readiness: typeof readiness;
   "rehab/injuryProtocolsData": typeof rehab_injuryProtocolsData;
   scheduledJobs: typeof scheduledJobs;
   silverPrompt: typeof silverPrompt;
@@ -125,14 +193,34 @@ declare const fullApi: ApiFromModules<{
   userCodeMutations: typeof userCodeMutations;
   "utils/accessControl": typeof utils_accessControl;
   "utils/aiHelpers": typeof utils_aiHelpers;
+  "utils/challenges": typeof utils_challenges;
+  "utils/chatActions": typeof utils_chatActions;
+  "utils/coaching": typeof utils_coaching;
   "utils/constants": typeof utils_constants;
+  "utils/deloadDetection": typeof utils_deloadDetection;
   "utils/errorHandling": typeof utils_errorHandling;
+  "utils/exerciseSubstitution": typeof utils_exerciseSubstitution;
+  "utils/icsCalendar": typeof utils_icsCalendar;
+  "utils/idempotency": typeof utils_idempotency;
+  "utils/localCalendar": typeof utils_localCalendar;
   "utils/logger": typeof utils_logger;
+  "utils/muscleVolume": typeof utils_muscleVolume;
+  "utils/oneRepMax": typeof utils_oneRepMax;
+  "utils/paceCompliance": typeof utils_paceCompliance;
   "utils/pagination": typeof utils_pagination;
   "utils/performanceMetrics": typeof utils_performanceMetrics;
   "utils/periodization": typeof utils_periodization;
+  "utils/personalRecords": typeof utils_personalRecords;
+  "utils/planGrading": typeof utils_planGrading;
+  "utils/planRevisions": typeof utils_planRevisions;
+  "utils/pushProviders": typeof utils_pushProviders;
+  "utils/pushScheduling": typeof utils_pushScheduling;
   "utils/queryCache": typeof utils_queryCache;
   "utils/rateLimiting": typeof utils_rateLimiting;
+  "utils/readiness": typeof utils_readiness;
+  "utils/scheduledNotifications": typeof utils_scheduledNotifications;
+  "utils/streaks": typeof utils_streaks;
+  "utils/trainingDays": typeof utils_trainingDays;
   "utils/transactionHelpers": typeof utils_transactionHelpers;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
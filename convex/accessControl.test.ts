@@ -0,0 +1,326 @@
+/**
+ * Access Control Tests
+ *
+ * Every user-scoped function takes the caller from auth (utils/accessControl.ts).
+ * These prove a signed-in user can't read or write someone else's data by passing
+ * their userId: queries return their empty result, mutations throw. Background jobs
+ * run without an identity and use the internal variants instead.
+ */
+
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import schema from "./schema";
+import { api, internal } from "./_generated/api";
+
+const OWNER = "user_owner";
+const INTRUDER = "user_intruder";
+
+const setup = () => convexTest(schema);
+type TestConvex = ReturnType<typeof setup>;
+
+const insertUser = (t: TestConvex, userId: string, role?: "user" | "admin" | "coach") =>
+  t.run((ctx) =>
+    ctx.db.insert("users", {
+      userId,
+      ...(role && { role }),
+      activePlanId: null,
+      lastProgressionApplied: null,
+      bodyMetrics: null,
+      goals: null,
+    })
+  );
+
+const insertWorkoutLog = (t: TestConvex, userId: string) =>
+  t.run((ctx) =>
+    ctx.db.insert("workoutLogs", {
+      userId,
+      date: new Date().toISOString(),
+      focus: "Upper Body",
+      exercises: [{ exercise_name: "Bench Press", sets: [{ set: 1, weight: 80, reps: 5, rpe: 8 }] }],
+      durationMinutes: 45,
+    })
+  );
+
+const insertSubmittedPlan = (t: TestConvex, userId: string) =>
+  t.run((ctx) =>
+    ctx.db.insert("userSubmittedPlans", {
+      userId,
+      title: "Owner's Strength Block",
+      originalText: "",
+      parsedPlan: { weeklyPlan: [] },
+      athleticGrade: "B",
+      gradeAnalysis: {
+        strengths: [],
+        weaknesses: [],
+        suggestions: [],
+        scoreBreakdown: { balance: 70, progression: 70, recovery: 70, specificity: 70, overall: 70 },
+      },
+      category: "Strength",
+      difficulty: "Intermediate",
+      isPublic: true,
+      likes: 0,
+      copies: 0,
+      createdAt: new Date().toISOString(),
+      lastUpdated: new Date().toISOString(),
+    })
+  );
+
+describe("own-data functions", () => {
+  test("getWorkoutLogs returns an empty page for another user's logs", async () => {
+    const t = setup();
+    await insertWorkoutLog(t, OWNER);
+
+    const foreign = await t.withIdentity({ subject: INTRUDER }).query(api.queries.getWorkoutLogs, { userId: OWNER });
+    expect(foreign.page).toEqual([]);
+
+    const unauthenticated = await t.query(api.queries.getWorkoutLogs, { userId: OWNER });
+    expect(unauthenticated.page).toEqual([]);
+
+    const own = await t.withIdentity({ subject: OWNER }).query(api.queries.getWorkoutLogs, { userId: OWNER });
+    expect(own.page).toHaveLength(1);
+  });
+
+  test("getMetricsSummary returns null for another user", async () => {
+    const t = setup();
+    await t.withIdentity({ subject: OWNER }).mutation(api.healthMetrics.logHealthMetrics, {
+      userId: OWNER,
+      date: new Date().toISOString().split("T")[0],
+      weight: 80,
+    });
+
+    const foreign = await t.withIdentity({ subject: INTRUDER }).query(api.healthMetrics.getMetricsSummary, {
+      userId: OWNER,
+    });
+    expect(foreign).toBeNull();
+  });
+
+  test("logHealthMetrics rejects writes for another user", async () => {
+    const t = setup();
+
+    await expect(
+      t.withIdentity({ subject: INTRUDER }).mutation(api.healthMetrics.logHealthMetrics, {
+        userId: OWNER,
+        date: "2026-01-01",
+        weight: 120,
+      })
+    ).rejects.toThrow("Unauthorized");
+
+    const rows = await t.run((ctx) => ctx.db.query("healthMetrics").collect());
+    expect(rows).toHaveLength(0);
+  });
+
+  test("updateStreak rejects another user's streak", async () => {
+    const t = setup();
+
+    await expect(
+      t.withIdentity({ subject: INTRUDER }).mutation(api.achievementMutations.updateStreak, {
+        userId: OWNER,
+        workoutDate: new Date().toISOString(),
+      })
+    ).rejects.toThrow("Unauthorized");
+
+    const streaks = await t.run((ctx) => ctx.db.query("streakData").collect());
+    expect(streaks).toHaveLength(0);
+  });
+
+  test("checkVolumeAchievements rejects another user", async () => {
+    const t = setup();
+
+    await expect(
+      t.withIdentity({ subject: INTRUDER }).mutation(api.achievementMutations.checkVolumeAchievements, {
+        userId: OWNER,
+        totalVolume: 100000,
+      })
+    ).rejects.toThrow("Unauthorized");
+
+    const achievements = await t.run((ctx) => ctx.db.query("achievements").collect());
+    expect(achievements).toHaveLength(0);
+  });
+});
+
+describe("buddy access", () => {
+  test("getBuddyRecentWorkouts needs an active relationship and the owner's shareLogs", async () => {
+    const t = setup();
+    await insertWorkoutLog(t, OWNER);
+    const asIntruder = t.withIdentity({ subject: INTRUDER });
+    const args = { userId: INTRUDER, buddyId: OWNER };
+
+    // No relationship
+    expect(await asIntruder.query(api.buddyQueries.getBuddyRecentWorkouts, args)).toEqual({
+      allowed: false,
+      workouts: [],
+    });
+
+    // Active relationship, but only the viewer's own settings share logs
+    await t.run(async (ctx) => {
+      await ctx.db.insert("workoutBuddies", {
+        userId: OWNER,
+        buddyId: INTRUDER,
+        sharedPlanId: null,
+        status: "active",
+        createdAt: new Date().toISOString(),
+        acceptedAt: new Date().toISOString(),
+      });
+      await ctx.db.insert("buddySettings", {
+        userId: INTRUDER,
+        buddyId: OWNER,
+        notifyOnWorkoutStart: false,
+        compareStats: true,
+        shareLogs: true,
+        showPRs: true,
+      });
+    });
+    expect(await asIntruder.query(api.buddyQueries.getBuddyRecentWorkouts, args)).toEqual({
+      allowed: false,
+      workouts: [],
+    });
+
+    // Passing someone else's userId doesn't borrow their relationship
+    expect(
+      await asIntruder.query(api.buddyQueries.getBuddyRecentWorkouts, { userId: OWNER, buddyId: INTRUDER })
+    ).toEqual({ allowed: false, workouts: [] });
+
+    // The owner's settings grant it
+    await t.run((ctx) =>
+      ctx.db.insert("buddySettings", {
+        userId: OWNER,
+        buddyId: INTRUDER,
+        notifyOnWorkoutStart: false,
+        compareStats: false,
+        shareLogs: true,
+        showPRs: false,
+      })
+    );
+    const granted = await asIntruder.query(api.buddyQueries.getBuddyRecentWorkouts, args);
+    expect(granted.allowed).toBe(true);
+    expect(granted.workouts).toHaveLength(1);
+  });
+});
+
+describe("coach access", () => {
+  test("getAthleteDetail returns null without an active coach link", async () => {
+    const t = setup();
+    await insertUser(t, OWNER);
+    await insertUser(t, INTRUDER);
+    const asIntruder = t.withIdentity({ subject: INTRUDER });
+    const args = { userId: INTRUDER, athleteId: OWNER };
+
+    // Not a coach
+    expect(await asIntruder.query(api.coachingQueries.getAthleteDetail, args)).toBeNull();
+
+    // A coach whose link was revoked
+    await t.run(async (ctx) => {
+      const coach = await ctx.db
+        .query("users")
+        .withIndex("by_userId", (q) => q.eq("userId", INTRUDER))
+        .first();
+      await ctx.db.patch(coach!._id, { role: "coach" });
+      await ctx.db.insert("coachAthletes", {
+        coachId: INTRUDER,
+        athleteId: OWNER,
+        status: "revoked",
+        permissions: { viewLogs: true, viewHealthMetrics: true, editPlans: true },
+        invitedAt: new Date().toISOString(),
+        respondedAt: new Date().toISOString(),
+        revokedAt: new Date().toISOString(),
+      });
+    });
+    expect(await asIntruder.query(api.coachingQueries.getAthleteDetail, args)).toBeNull();
+  });
+
+  test("addSessionComment rejects a coach without viewLogs", async () => {
+    const t = setup();
+    await insertUser(t, OWNER);
+    await insertUser(t, INTRUDER, "coach");
+    const logId = await insertWorkoutLog(t, OWNER);
+    await t.run((ctx) =>
+      ctx.db.insert("coachAthletes", {
+        coachId: INTRUDER,
+        athleteId: OWNER,
+        status: "active",
+        permissions: { viewLogs: false, viewHealthMetrics: false, editPlans: false },
+        invitedAt: new Date().toISOString(),
+        respondedAt: new Date().toISOString(),
+        revokedAt: null,
+      })
+    );
+
+    await expect(
+      t.withIdentity({ subject: INTRUDER }).mutation(api.coachingMutations.addSessionComment, {
+        userId: INTRUDER,
+        workoutLogId: logId,
+        text: "Nice work",
+      })
+    ).rejects.toThrow("Unauthorized");
+
+    const comments = await t.run((ctx) => ctx.db.query("coachComments").collect());
+    expect(comments).toHaveLength(0);
+  });
+});
+
+describe("marketplace access", () => {
+  test("only the author can change or delete a submitted plan", async () => {
+    const t = setup();
+    const submittedPlanId = await insertSubmittedPlan(t, OWNER);
+    const asIntruder = t.withIdentity({ subject: INTRUDER });
+
+    await expect(
+      asIntruder.mutation(api.marketplaceMutations.setSubmittedPlanVisibility, {
+        userId: INTRUDER,
+        submittedPlanId,
+        isPublic: false,
+      })
+    ).rejects.toThrow("unauthorized");
+    await expect(
+      asIntruder.mutation(api.marketplaceMutations.deleteSubmittedPlan, { userId: OWNER, submittedPlanId })
+    ).rejects.toThrow("Unauthorized");
+
+    const plan = await t.run((ctx) => ctx.db.get(submittedPlanId));
+    expect(plan?.isPublic).toBe(true);
+  });
+
+  test("report review is admin-only", async () => {
+    const t = setup();
+    await insertUser(t, INTRUDER);
+    const submittedPlanId = await insertSubmittedPlan(t, OWNER);
+    const asIntruder = t.withIdentity({ subject: INTRUDER });
+
+    await expect(asIntruder.query(api.marketplaceQueries.getReportedPlans, {})).rejects.toThrow(
+      "Admin access required"
+    );
+    await expect(
+      asIntruder.mutation(api.marketplaceMutations.resolvePlanReports, { submittedPlanId, resolution: "remove" })
+    ).rejects.toThrow("Admin access required");
+
+    const plan = await t.run((ctx) => ctx.db.get(submittedPlanId));
+    expect(plan?.isPublic).toBe(true);
+  });
+});
+
+describe("background jobs", () => {
+  test("plan generation reads progression and writes status without a caller identity", async () => {
+    const t = setup();
+    await insertUser(t, OWNER);
+    await insertWorkoutLog(t, OWNER);
+
+    expect(await t.query(api.queries.getWorkoutProgressionSummary, { userId: OWNER })).toBeNull();
+    const summary = await t.query(internal.queries.getWorkoutProgressionSummaryInternal, { userId: OWNER });
+    expect(summary.hasData).toBe(true);
+
+    await expect(
+      t.mutation(api.generationMutations.updateGenerationStatus, { userId: OWNER, state: "generating" })
+    ).rejects.toThrow("Unauthorized");
+    await t.mutation(internal.generationMutations.updateGenerationStatusInternal, {
+      userId: OWNER,
+      state: "generating",
+      progress: 5,
+    });
+    const user = await t.run((ctx) =>
+      ctx.db
+        .query("users")
+        .withIndex("by_userId", (q) => q.eq("userId", OWNER))
+        .first()
+    );
+    expect(user?.generationStatus?.state).toBe("generating");
+  });
+});
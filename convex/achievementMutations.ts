@@ -1,6 +1,10 @@
 import { v } from "convex/values";
-import { mutation } from "./_generated/server";
+import { mutation, MutationCtx } from "./_generated/server";
 import { executeWithRollback } from "./utils/transactionHelpers";
+import { verifyAuthenticatedUser } from "./utils/accessControl";
+import { findProcessedMutation, recordProcessedMutation } from "./utils/idempotency";
+import { daysBetween, getLocalDay } from "./utils/localCalendar";
+import { applyMonthlyFreezeGrant, bridgeStreakGap, getStreakCalendar } from "./utils/streaks";
 import {
   ACHIEVEMENT_STREAK_WEEK,
   ACHIEVEMENT_STREAK_MONTH,
@@ -13,165 +17,200 @@ import {
 
 /**
  * Update streak after completing a workout
+ * Counts days in the user's timezone; plan rest days and streak freezes bridge gaps (utils/streaks.ts).
  */
 export const updateStreak = mutation({
   args: {
     userId: v.string(),
-    workoutDate: v.string() // ISO date of completed workout
+    workoutDate: v.string(), // ISO date of completed workout
+    idempotencyKey: v.optional(v.string()), // Client UUID - replays return the original result
   },
   handler: async (ctx, args) => {
-    const now = new Date(args.workoutDate);
-    const today = now.toISOString().split('T')[0];
-
-    // Get or create streak data
-    let streakData = await ctx.db
-      .query("streakData")
-      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
-      .first();
-
-    if (!streakData) {
-      // First workout ever!
-      const streakId = await ctx.db.insert("streakData", {
-        userId: args.userId,
-        currentStreak: 1,
-        longestStreak: 1,
-        lastWorkoutDate: today,
-        streakFreezes: 0,
-        lastFreezeUsed: null,
-        totalWorkouts: 1,
-        weeklyWorkouts: [false, false, false, false, false, false, false]
-      });
-
-      // Unlock "First Workout" achievement
-      await ctx.db.insert("achievements", {
-        userId: args.userId,
-        type: "first_workout",
-        unlockedAt: new Date().toISOString(),
-        displayName: "First Step",
-        description: "Complete your first workout",
-        icon: "🎯",
-        tier: "bronze"
-      });
-
-      return { currentStreak: 1, achievementsUnlocked: ["first_workout"] };
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const processed = await findProcessedMutation(ctx, args.userId, args.idempotencyKey);
+    if (processed.found) {
+      return processed.result as { currentStreak: number; achievementsUnlocked: string[]; freezesUsed?: number };
     }
 
-    // Get existing streak data (streakData is already the full document)
-    const streakDoc = streakData;
-    if (!streakDoc) return { currentStreak: 0, achievementsUnlocked: [] };
+    const result = await applyStreakUpdate(ctx, args);
+    await recordProcessedMutation(ctx, args.userId, args.idempotencyKey, "updateStreak", result);
+    return result;
+  },
+});
 
-    const lastWorkout = new Date(streakDoc.lastWorkoutDate);
-    const daysSinceLastWorkout = Math.floor((now.getTime() - lastWorkout.getTime()) / (1000 * 60 * 60 * 24));
+// Streak + achievement update for one completed workout
+async function applyStreakUpdate(
+  ctx: MutationCtx,
+  args: { userId: string; workoutDate: string }
+): Promise<{ currentStreak: number; achievementsUnlocked: string[]; freezesUsed: number }> {
+  // Days are counted on the user's calendar - a 23:00 workout in New York is that day, not tomorrow UTC
+  const calendar = await getStreakCalendar(ctx, args.userId);
+  const workoutDay = getLocalDay(new Date(args.workoutDate), calendar.timezone).date;
+  const today = getLocalDay(new Date(), calendar.timezone).date;
 
-    let newStreak = streakDoc.currentStreak;
-    const achievementsUnlocked: string[] = [];
+  // Get or create streak data
+  let streakData = await ctx.db
+    .query("streakData")
+    .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+    .first();
 
-    // Same day workout - don't increment
-    if (daysSinceLastWorkout === 0) {
-      return { currentStreak: newStreak, achievementsUnlocked: [] };
-    }
+  if (!streakData) {
+    // First workout ever!
+    const streakId = await ctx.db.insert("streakData", {
+      userId: args.userId,
+      currentStreak: 1,
+      longestStreak: 1,
+      lastWorkoutDate: workoutDay,
+      lastFreezeUsed: null,
+      ...applyMonthlyFreezeGrant({ streakFreezes: 0 }, calendar.isPremium, today),
+      totalWorkouts: 1,
+      weeklyWorkouts: [false, false, false, false, false, false, false]
+    });
 
-    // Next day - increment streak
-    if (daysSinceLastWorkout === 1) {
-      newStreak = streakDoc.currentStreak + 1;
-    }
-    // Missed days - check for freeze
-    else if (daysSinceLastWorkout > 1) {
-      // Streak broken (for now, no freeze logic)
-      newStreak = 1;
+    // Unlock "First Workout" achievement
+    await ctx.db.insert("achievements", {
+      userId: args.userId,
+      type: "first_workout",
+      unlockedAt: new Date().toISOString(),
+      displayName: "First Step",
+      description: "Complete your first workout",
+      icon: "🎯",
+      tier: "bronze"
+    });
+
+    return { currentStreak: 1, achievementsUnlocked: ["first_workout"], freezesUsed: 0 };
+  }
+
+  // Get existing streak data (streakData is already the full document)
+  const streakDoc = streakData;
+  if (!streakDoc) return { currentStreak: 0, achievementsUnlocked: [], freezesUsed: 0 };
+
+  const freezeState = applyMonthlyFreezeGrant(streakDoc, calendar.isPremium, today);
+  const lastWorkoutDay = streakDoc.lastWorkoutDate.split('T')[0];
+  const daysSinceLastWorkout = daysBetween(lastWorkoutDay, workoutDay);
+
+  let newStreak = streakDoc.currentStreak;
+  let freezeDates: string[] = [];
+  const achievementsUnlocked: string[] = [];
+
+  // Same day workout (or an older one synced late) - don't increment
+  if (daysSinceLastWorkout <= 0) {
+    if (freezeState !== streakDoc) {
+      await ctx.db.patch(streakDoc._id, freezeState);
     }
+    return { currentStreak: newStreak, achievementsUnlocked: [], freezesUsed: 0 };
+  }
 
-    // TRANSACTION SAFETY: Wrap streak update + achievements in transaction
-    const result = await executeWithRollback(ctx.db, async (tracker) => {
-      // Update streak data
-      await ctx.db.patch(streakDoc._id, {
-        currentStreak: newStreak,
-        longestStreak: Math.max(newStreak, streakDoc.longestStreak),
-        lastWorkoutDate: today,
-        totalWorkouts: streakDoc.totalWorkouts + 1
-      });
-      tracker.trackUpdate("streakData", streakDoc._id, {
-        currentStreak: streakDoc.currentStreak,
-        longestStreak: streakDoc.longestStreak,
-        lastWorkoutDate: streakDoc.lastWorkoutDate,
-        totalWorkouts: streakDoc.totalWorkouts
-      });
-
-      // Check for streak achievements
-      if (newStreak === ACHIEVEMENT_STREAK_WEEK) {
-        const existing = await ctx.db
-          .query("achievements")
-          .withIndex("by_userId_type", (q) => q.eq("userId", args.userId).eq("type", "streak_7"))
-          .first();
-
-        if (!existing) {
-          const achievementId = await ctx.db.insert("achievements", {
-            userId: args.userId,
-            type: "streak_7",
-            unlockedAt: new Date().toISOString(),
-            displayName: "Week Warrior",
-            description: "7-day workout streak",
-            icon: "🔥",
-            tier: "silver"
-          });
-          tracker.trackInsert("achievements", achievementId);
-          achievementsUnlocked.push("streak_7");
-        }
-      }
+  // Next day - increment streak
+  if (daysSinceLastWorkout === 1) {
+    newStreak = streakDoc.currentStreak + 1;
+  }
+  // Missed days - rest days on the plan are free, the rest need a freeze each
+  else {
+    const gap = bridgeStreakGap(lastWorkoutDay, workoutDay, calendar.restDays, freezeState.streakFreezes);
+    newStreak = gap.bridged ? streakDoc.currentStreak + 1 : 1;
+    freezeDates = gap.freezeDates;
+  }
 
-      if (newStreak === ACHIEVEMENT_STREAK_MONTH) {
-        const existing = await ctx.db
-          .query("achievements")
-          .withIndex("by_userId_type", (q) => q.eq("userId", args.userId).eq("type", "streak_30"))
-          .first();
-
-        if (!existing) {
-          const achievementId = await ctx.db.insert("achievements", {
-            userId: args.userId,
-            type: "streak_30",
-            unlockedAt: new Date().toISOString(),
-            displayName: "Month Master",
-            description: "30-day workout streak",
-            icon: "⚡",
-            tier: "gold"
-          });
-          tracker.trackInsert("achievements", achievementId);
-          achievementsUnlocked.push("streak_30");
-        }
-      }
+  // TRANSACTION SAFETY: Wrap streak update + achievements in transaction
+  const result = await executeWithRollback(ctx.db, async (tracker) => {
+    // Update streak data
+    await ctx.db.patch(streakDoc._id, {
+      currentStreak: newStreak,
+      longestStreak: Math.max(newStreak, streakDoc.longestStreak),
+      lastWorkoutDate: workoutDay,
+      streakFreezes: freezeState.streakFreezes - freezeDates.length,
+      freezesGrantedMonth: freezeState.freezesGrantedMonth,
+      lastFreezeUsed: freezeDates.length > 0 ? freezeDates[freezeDates.length - 1] : streakDoc.lastFreezeUsed,
+      totalWorkouts: streakDoc.totalWorkouts + 1
+    });
+    tracker.trackUpdate("streakData", streakDoc._id, {
+      currentStreak: streakDoc.currentStreak,
+      longestStreak: streakDoc.longestStreak,
+      lastWorkoutDate: streakDoc.lastWorkoutDate,
+      streakFreezes: streakDoc.streakFreezes,
+      freezesGrantedMonth: streakDoc.freezesGrantedMonth,
+      lastFreezeUsed: streakDoc.lastFreezeUsed,
+      totalWorkouts: streakDoc.totalWorkouts
+    });
 
-      // Check workout count achievements
-      const totalWorkouts = streakDoc.totalWorkouts + 1;
+    // Check for streak achievements
+    if (newStreak === ACHIEVEMENT_STREAK_WEEK) {
+      const existing = await ctx.db
+        .query("achievements")
+        .withIndex("by_userId_type", (q) => q.eq("userId", args.userId).eq("type", "streak_7"))
+        .first();
 
-      if (totalWorkouts === ACHIEVEMENT_WORKOUTS_BEGINNER) {
-        const achievementId = await unlockAchievement(ctx, args.userId, "workouts_10", "Getting Started", "Complete 10 workouts", "💪", "bronze");
-        if (achievementId) tracker.trackInsert("achievements", achievementId);
-        achievementsUnlocked.push("workouts_10");
-      }
-      if (totalWorkouts === ACHIEVEMENT_WORKOUTS_INTERMEDIATE) {
-        const achievementId = await unlockAchievement(ctx, args.userId, "workouts_50", "Committed", "Complete 50 workouts", "🏋️", "silver");
-        if (achievementId) tracker.trackInsert("achievements", achievementId);
-        achievementsUnlocked.push("workouts_50");
+      if (!existing) {
+        const achievementId = await ctx.db.insert("achievements", {
+          userId: args.userId,
+          type: "streak_7",
+          unlockedAt: new Date().toISOString(),
+          displayName: "Week Warrior",
+          description: "7-day workout streak",
+          icon: "🔥",
+          tier: "silver"
+        });
+        tracker.trackInsert("achievements", achievementId);
+        achievementsUnlocked.push("streak_7");
       }
-      if (totalWorkouts === ACHIEVEMENT_WORKOUTS_ADVANCED) {
-        const achievementId = await unlockAchievement(ctx, args.userId, "workouts_100", "Century Club", "Complete 100 workouts", "🎖️", "gold");
-        if (achievementId) tracker.trackInsert("achievements", achievementId);
-        achievementsUnlocked.push("workouts_100");
+    }
+
+    if (newStreak === ACHIEVEMENT_STREAK_MONTH) {
+      const existing = await ctx.db
+        .query("achievements")
+        .withIndex("by_userId_type", (q) => q.eq("userId", args.userId).eq("type", "streak_30"))
+        .first();
+
+      if (!existing) {
+        const achievementId = await ctx.db.insert("achievements", {
+          userId: args.userId,
+          type: "streak_30",
+          unlockedAt: new Date().toISOString(),
+          displayName: "Month Master",
+          description: "30-day workout streak",
+          icon: "⚡",
+          tier: "gold"
+        });
+        tracker.trackInsert("achievements", achievementId);
+        achievementsUnlocked.push("streak_30");
       }
+    }
 
-      return {
-        currentStreak: newStreak,
-        achievementsUnlocked
-      };
-    });
+    // Check workout count achievements
+    const totalWorkouts = streakDoc.totalWorkouts + 1;
 
-    return result;
-  },
-});
+    if (totalWorkouts === ACHIEVEMENT_WORKOUTS_BEGINNER) {
+      const achievementId = await unlockAchievement(ctx, args.userId, "workouts_10", "Getting Started", "Complete 10 workouts", "💪", "bronze");
+      if (achievementId) tracker.trackInsert("achievements", achievementId);
+      achievementsUnlocked.push("workouts_10");
+    }
+    if (totalWorkouts === ACHIEVEMENT_WORKOUTS_INTERMEDIATE) {
+      const achievementId = await unlockAchievement(ctx, args.userId, "workouts_50", "Committed", "Complete 50 workouts", "🏋️", "silver");
+      if (achievementId) tracker.trackInsert("achievements", achievementId);
+      achievementsUnlocked.push("workouts_50");
+    }
+    if (totalWorkouts === ACHIEVEMENT_WORKOUTS_ADVANCED) {
+      const achievementId = await unlockAchievement(ctx, args.userId, "workouts_100", "Century Club", "Complete 100 workouts", "🎖️", "gold");
+      if (achievementId) tracker.trackInsert("achievements", achievementId);
+      achievementsUnlocked.push("workouts_100");
+    }
+
+    return {
+      currentStreak: newStreak,
+      achievementsUnlocked,
+      freezesUsed: freezeDates.length
+    };
+  });
+
+  return result;
+}
 
 // Helper function to unlock achievement
 async function unlockAchievement(
-  ctx: any,
+  ctx: MutationCtx,
   userId: string,
   type: string,
   displayName: string,
@@ -208,6 +247,9 @@ export const checkVolumeAchievements = mutation({
     totalVolume: v.number() // Cumulative total volume in kg
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     const achievementsUnlocked: string[] = [];
 
     if (args.totalVolume >= ACHIEVEMENT_VOLUME_HEAVY) {
@@ -1,5 +1,8 @@
 import { v } from "convex/values";
 import { query } from "./_generated/server";
+import { isAuthenticatedUser } from "./utils/accessControl";
+import { getLocalDay } from "./utils/localCalendar";
+import { applyMonthlyFreezeGrant, bridgeStreakGap, getStreakCalendar } from "./utils/streaks";
 
 /**
  * Get user's current streak data
@@ -9,32 +12,43 @@ export const getStreakData = query({
     userId: v.string()
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
     const streakData = await ctx.db
       .query("streakData")
       .withIndex("by_userId", (q) => q.eq("userId", args.userId))
       .first();
 
+    const calendar = await getStreakCalendar(ctx, args.userId);
+    const today = getLocalDay(new Date(), calendar.timezone).date;
+
     if (!streakData) {
       return {
         currentStreak: 0,
         longestStreak: 0,
         totalWorkouts: 0,
-        lastWorkoutDate: null
+        lastWorkoutDate: null,
+        streakFreezes: applyMonthlyFreezeGrant({ streakFreezes: 0 }, calendar.isPremium, today).streakFreezes,
+        lastFreezeUsed: null
       };
     }
 
-    // Check if streak is still active (within 36 hours to account for rest days)
-    const now = new Date();
-    const lastWorkout = new Date(streakData.lastWorkoutDate);
-    const hoursSince = (now.getTime() - lastWorkout.getTime()) / (1000 * 60 * 60);
-
-    const isActive = hoursSince < 48; // Within 48 hours = still active
+    // Still active if every missed day up to yesterday was a plan rest day or can be
+    // covered by a freeze (today isn't over yet). Freezes it would need are shown as spent.
+    const { streakFreezes } = applyMonthlyFreezeGrant(streakData, calendar.isPremium, today);
+    const gap = bridgeStreakGap(streakData.lastWorkoutDate.split('T')[0], today, calendar.restDays, streakFreezes);
+    const isActive = gap.bridged;
 
     return {
       currentStreak: isActive ? streakData.currentStreak : 0,
       longestStreak: streakData.longestStreak,
       totalWorkouts: streakData.totalWorkouts,
       lastWorkoutDate: streakData.lastWorkoutDate,
+      streakFreezes: streakFreezes - gap.freezeDates.length,
+      lastFreezeUsed: gap.freezeDates.length > 0 ? gap.freezeDates[gap.freezeDates.length - 1] : streakData.lastFreezeUsed,
       isActive
     };
   },
@@ -48,6 +62,11 @@ export const getUserAchievements = query({
     userId: v.string()
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns empty if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return [];
+    }
+
     const achievements = await ctx.db
       .query("achievements")
       .withIndex("by_userId", (q) => q.eq("userId", args.userId))
@@ -66,6 +85,11 @@ export const getAchievementProgress = query({
     userId: v.string()
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns empty if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return [];
+    }
+
     const streakData = await ctx.db
       .query("streakData")
       .withIndex("by_userId", (q) => q.eq("userId", args.userId))
@@ -157,6 +181,11 @@ export const getHeatMapData = query({
     userId: v.string()
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns empty if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return [];
+    }
+
     // Get last 28 days of workouts
     const twentyEightDaysAgo = new Date();
     twentyEightDaysAgo.setDate(twentyEightDaysAgo.getDate() - 28);
@@ -0,0 +1,97 @@
+/**
+ * Active Session Checkpoints
+ *
+ * Server copy of the in-progress workout (one per user) so a session killed
+ * by the OS - or started on another device - can be resumed. The client keeps
+ * its own localStorage copy; whichever checkpoint is newer wins.
+ */
+
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { verifyAuthenticatedUser, isAuthenticatedUser } from "./utils/accessControl";
+
+/**
+ * Upsert the user's active session checkpoint
+ * Ignores checkpoints older than the stored one, whatever workout they belong to
+ * (late writes from another device or from a session that was already replaced).
+ */
+export const saveActiveSession = mutation({
+  args: {
+    userId: v.string(),
+    sessionKey: v.string(), // Client-generated id for this workout
+    focus: v.string(),
+    session: v.any(), // PlanDay being performed
+    state: v.any(), // loggedData, block/exercise/round position, warmups, PRs
+    startedAt: v.number(), // Unix ms, original start
+    elapsedMs: v.number(),
+    isPaused: v.boolean(),
+    exercisesDone: v.number(),
+    exercisesTotal: v.number(),
+    updatedAt: v.number(), // Unix ms, client clock
+    deviceId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const existing = await ctx.db
+      .query("activeSessions")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .first();
+
+    if (existing) {
+      // Stale write - a newer checkpoint (this workout or a later one) is already stored
+      if (existing.updatedAt > args.updatedAt) {
+        return existing._id;
+      }
+      await ctx.db.patch(existing._id, args);
+      return existing._id;
+    }
+
+    return await ctx.db.insert("activeSessions", args);
+  },
+});
+
+/**
+ * Remove the active session checkpoint (workout finished or discarded)
+ * Pass sessionKey to avoid clearing a newer workout started on another device.
+ */
+export const clearActiveSession = mutation({
+  args: {
+    userId: v.string(),
+    sessionKey: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const existing = await ctx.db
+      .query("activeSessions")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .first();
+
+    if (existing && (!args.sessionKey || existing.sessionKey === args.sessionKey)) {
+      await ctx.db.delete(existing._id);
+    }
+  },
+});
+
+/**
+ * Get the user's active session checkpoint (null when none)
+ */
+export const getActiveSession = query({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
+    return await ctx.db
+      .query("activeSessions")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .first();
+  },
+});
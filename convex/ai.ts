@@ -5,15 +5,16 @@
  *
  * Primary AI: DeepSeek V3.2 (most features)
  * - deepseek-reasoner: Thinking mode for complex plan generation (better reasoning)
- * - deepseek-chat: Fast mode for chat, exercise explanations, quick responses
+ * - deepseek-chat: Fast mode for exercise explanations, quick responses
  *
- * Secondary AI: Gemini (vision-only features)
+ * Secondary AI: Gemini (vision + function calling)
  * - gemini-2.5-flash: Body photo analysis (DeepSeek doesn't support vision)
+ * - gemini-2.5-flash: Chat coach plan edits (typed function declarations)
  */
 
-import { action } from "./_generated/server";
+import { action, internalAction } from "./_generated/server";
 import { v } from "convex/values";
-import { api } from "./_generated/api";
+import { api, internal } from "./_generated/api";
 import { loggers } from "./utils/logger";
 import { formatSportPrompt } from "./sportData";
 import { formatSupplementPrompt } from "./supplementData";
@@ -53,9 +54,19 @@ import {
   METRICS_TEMPLATES,
 } from "./metricsTemplateReference";
 import { getExamplePlansPrompt, getCondensedExamplePrompt } from "./planExamples";
-import { validateWorkoutPlan, validateAndExplain, fixCardioTemplates } from "./planValidator";
+import { validateWorkoutPlan, validateAndExplain, fixCardioTemplates, type Plan } from "./planValidator";
+import { getUserIdFromAuth, verifyAuthenticatedUser } from "./utils/accessControl";
+import { validateAndFixPlanQuality, type PlanQualityConstraints } from "./planQualityValidator";
 import { buildPainPointPrompt, getProtocolsForPainPoints } from "./rehab/injuryProtocolsData";
 import { buildSilverPrompt, type OnboardingData } from "./silverPrompt";
+import {
+  CHAT_FUNCTION_DECLARATIONS,
+  ChatActionError,
+  applyChatAction,
+  diffWeeklyPlans,
+  getNewValidationErrors,
+  isChatActionName,
+} from "./utils/chatActions";
 
 // Type for cardio preferences
 interface CardioPreferences {
@@ -449,9 +460,12 @@ export const parseWorkoutPlan = action({
       throw new Error("DeepSeek API key not configured. Set DEEPSEEK_API_KEY in Convex environment variables.");
     }
 
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     // Rate limiting
     const { checkRateLimit } = await import("./rateLimiter");
-    checkRateLimit(args.userId, "parseWorkoutPlan");
+    await checkRateLimit(ctx, args.userId, "parseWorkoutPlan");
 
     // Create DeepSeek client
     const ai = createDeepSeekClient(apiKey);
@@ -498,10 +512,13 @@ export const parseWorkoutPlan = action({
       "estimated_duration": 60,
       "blocks": [
         {
-          "type": "single" | "superset" | "amrap",
+          "type": "single" | "superset" | "amrap" | "emom" | "tabata",
           "title": "Optional block title",
-          "rounds": 3 (for supersets - how many times to repeat),
-          "duration_minutes": 10 (for AMRAPs),
+          "rounds": 3 (for supersets/tabata - how many times to repeat),
+          "duration_minutes": 10 (for AMRAPs/EMOMs),
+          "interval_seconds": 60 (for EMOMs - 120 for "E2MOM"),
+          "work_seconds": 20 (for tabata/intervals),
+          "rest_seconds": 10 (for tabata/intervals),
           "exercises": [
             {
               "exercise_name": "Full exercise name",
@@ -639,6 +656,84 @@ IMPORTANT: For 2x/day, use "sessions" array. For single session days, use "block
   },
 });
 
+const generateWorkoutPlanArgs = {
+  userId: v.optional(v.string()),
+  preferences: v.object({
+    primary_goal: v.string(),
+    experience_level: v.string(),
+    training_frequency: v.string(),
+    pain_points: v.array(v.string()),
+    sport: v.optional(v.string()),
+    additional_notes: v.optional(v.string()),
+    equipment: v.optional(v.string()),
+    preferred_session_length: v.optional(v.string()),
+    sex: v.optional(v.string()),
+    age: v.optional(v.number()),
+    // Current strength levels for starting weight calculations
+    // Comprehensive benchmarks allow educated weight estimation for all exercises
+    current_strength: v.optional(v.object({
+      // Compound lifts (barbell)
+      squat_kg: v.optional(v.number()),
+      bench_kg: v.optional(v.number()),
+      deadlift_kg: v.optional(v.number()),
+      row_kg: v.optional(v.number()),
+      overhead_press_kg: v.optional(v.number()),
+      // Bodyweight
+      pullup_count: v.optional(v.number()),
+      pushup_count: v.optional(v.number()),
+      dip_count: v.optional(v.number()),
+      // Dumbbell (per hand)
+      dumbbell_press_kg: v.optional(v.number()),
+      dumbbell_row_kg: v.optional(v.number()),
+      goblet_squat_kg: v.optional(v.number()),
+      // Machine
+      leg_press_kg: v.optional(v.number()),
+      lat_pulldown_kg: v.optional(v.number()),
+    })),
+    // NEW: Training split for 2x daily training
+    training_split: v.optional(v.object({
+      sessions_per_day: v.union(v.literal('1'), v.literal('2')),
+      training_type: v.union(
+        v.literal('strength_only'),
+        v.literal('strength_plus_cardio'),
+        v.literal('combined'),
+        v.literal('cardio_focused')
+      ),
+      // Cardio preferences for training types with cardio
+      cardio_preferences: v.optional(v.object({
+        preferred_types: v.array(v.string()),
+        favorite_exercise: v.optional(v.string()),
+        cardio_duration_minutes: v.optional(v.number()),
+        outdoor_preferred: v.optional(v.boolean()),
+      })),
+    })),
+    // NEW: Specific goal with target date (periodization)
+    specific_goal: v.optional(v.object({
+      event_type: v.optional(v.union(v.string(), v.null())),
+      event_name: v.optional(v.union(v.string(), v.null())),
+      target_date: v.optional(v.union(v.string(), v.null())),
+      current_readiness: v.optional(v.union(v.number(), v.null())),
+      description: v.optional(v.union(v.string(), v.null())),
+    })),
+    // PERFORMANCE OPTIMIZATION FLAGS
+    _useCompressedPrompt: v.optional(v.boolean()), // 60% token reduction
+    _generateDayOneOnly: v.optional(v.boolean()), // Progressive generation step 1
+    _day1Context: v.optional(v.any()), // Progressive generation step 2
+    _forceProModel: v.optional(v.boolean()), // Force Pro model (quality mode)
+    _useFlashModel: v.optional(v.boolean()), // Force Flash model (fast mode)
+    _useSilverPrompt: v.optional(v.boolean()), // Use structured silver prompt (expert personas)
+  }),
+  // Optional supplement stack for personalized recommendations
+  supplements: v.optional(v.array(v.object({
+    name: v.string(),
+    timing: v.string(),
+    dosage: v.optional(v.string()),
+  }))),
+  // Optional periodization context for background week generation
+  // Contains phase info, previous week exercises, progression guidance
+  periodizationContext: v.optional(v.string()),
+};
+
 /**
  * Generate a personalized workout plan using Gemini 2.5 Pro
  * Server-side action to keep API key secure
@@ -646,83 +741,28 @@ IMPORTANT: For 2x/day, use "sessions" array. For single session days, use "block
  * This is the main plan generation function with comprehensive prompting
  */
 export const generateWorkoutPlan = action({
-  args: {
-    userId: v.optional(v.string()),
-    preferences: v.object({
-      primary_goal: v.string(),
-      experience_level: v.string(),
-      training_frequency: v.string(),
-      pain_points: v.array(v.string()),
-      sport: v.optional(v.string()),
-      additional_notes: v.optional(v.string()),
-      equipment: v.optional(v.string()),
-      preferred_session_length: v.optional(v.string()),
-      sex: v.optional(v.string()),
-      age: v.optional(v.number()),
-      // Current strength levels for starting weight calculations
-      // Comprehensive benchmarks allow educated weight estimation for all exercises
-      current_strength: v.optional(v.object({
-        // Compound lifts (barbell)
-        squat_kg: v.optional(v.number()),
-        bench_kg: v.optional(v.number()),
-        deadlift_kg: v.optional(v.number()),
-        row_kg: v.optional(v.number()),
-        overhead_press_kg: v.optional(v.number()),
-        // Bodyweight
-        pullup_count: v.optional(v.number()),
-        pushup_count: v.optional(v.number()),
-        dip_count: v.optional(v.number()),
-        // Dumbbell (per hand)
-        dumbbell_press_kg: v.optional(v.number()),
-        dumbbell_row_kg: v.optional(v.number()),
-        goblet_squat_kg: v.optional(v.number()),
-        // Machine
-        leg_press_kg: v.optional(v.number()),
-        lat_pulldown_kg: v.optional(v.number()),
-      })),
-      // NEW: Training split for 2x daily training
-      training_split: v.optional(v.object({
-        sessions_per_day: v.union(v.literal('1'), v.literal('2')),
-        training_type: v.union(
-          v.literal('strength_only'),
-          v.literal('strength_plus_cardio'),
-          v.literal('combined'),
-          v.literal('cardio_focused')
-        ),
-        // Cardio preferences for training types with cardio
-        cardio_preferences: v.optional(v.object({
-          preferred_types: v.array(v.string()),
-          favorite_exercise: v.optional(v.string()),
-          cardio_duration_minutes: v.optional(v.number()),
-          outdoor_preferred: v.optional(v.boolean()),
-        })),
-      })),
-      // NEW: Specific goal with target date (periodization)
-      specific_goal: v.optional(v.object({
-        event_type: v.optional(v.union(v.string(), v.null())),
-        event_name: v.optional(v.union(v.string(), v.null())),
-        target_date: v.optional(v.union(v.string(), v.null())),
-        current_readiness: v.optional(v.union(v.number(), v.null())),
-        description: v.optional(v.union(v.string(), v.null())),
-      })),
-      // PERFORMANCE OPTIMIZATION FLAGS
-      _useCompressedPrompt: v.optional(v.boolean()), // 60% token reduction
-      _generateDayOneOnly: v.optional(v.boolean()), // Progressive generation step 1
-      _day1Context: v.optional(v.any()), // Progressive generation step 2
-      _forceProModel: v.optional(v.boolean()), // Force Pro model (quality mode)
-      _useFlashModel: v.optional(v.boolean()), // Force Flash model (fast mode)
-      _useSilverPrompt: v.optional(v.boolean()), // Use structured silver prompt (expert personas)
-    }),
-    // Optional supplement stack for personalized recommendations
-    supplements: v.optional(v.array(v.object({
-      name: v.string(),
-      timing: v.string(),
-      dosage: v.optional(v.string()),
-    }))),
-    // Optional periodization context for background week generation
-    // Contains phase info, previous week exercises, progression guidance
-    periodizationContext: v.optional(v.string()),
+  args: generateWorkoutPlanArgs,
+  handler: async (ctx, args): Promise<Plan> => {
+    // SECURITY: Plans are generated for the authenticated user (userId, if passed, must match)
+    const userId = await getUserIdFromAuth(ctx);
+    if (args.userId && args.userId !== userId) {
+      throw new Error("Unauthorized: User ID mismatch");
+    }
+
+    // Rate limiting - prevent abuse of expensive AI calls
+    const { checkRateLimit } = await import("./rateLimiter");
+    await checkRateLimit(ctx, userId, "generateWorkoutPlan");
+
+    return await ctx.runAction(internal.ai.generateWorkoutPlanInternal, { ...args, userId });
   },
+});
+
+/**
+ * Plan generation itself - also run directly by background week generation,
+ * which has no caller identity and is not rate limited
+ */
+export const generateWorkoutPlanInternal = internalAction({
+  args: generateWorkoutPlanArgs,
   handler: async (ctx, args) => {
     // Use DeepSeek API (faster, cheaper, better reasoning for workout plans)
     const apiKey = process.env.DEEPSEEK_API_KEY;
@@ -731,12 +771,6 @@ export const generateWorkoutPlan = action({
       throw new Error("DeepSeek API key not configured. Set DEEPSEEK_API_KEY in Convex environment variables.");
     }
 
-    // Rate limiting - prevent abuse of expensive AI calls
-    if (args.userId) {
-      const { checkRateLimit } = await import("./rateLimiter");
-      checkRateLimit(args.userId, "generateWorkoutPlan");
-    }
-
     // Create DeepSeek client (OpenAI-compatible API)
     const ai = createDeepSeekClient(apiKey);
 
@@ -767,7 +801,7 @@ export const generateWorkoutPlan = action({
       if (!args.userId) return;
       // We use a separate mutation so it commits immediately
       try {
-        await ctx.runMutation(api.generationMutations.updateGenerationStatus, {
+        await ctx.runMutation(internal.generationMutations.updateGenerationStatusInternal, {
           userId: args.userId,
           state,
           progress,
@@ -995,12 +1029,12 @@ export const generateWorkoutPlan = action({
     let workoutHistoryPrompt = '';
     if (args.userId) {
       try {
-        const progressionSummary = await ctx.runQuery(api.queries.getWorkoutProgressionSummary, {
+        const progressionSummary = await ctx.runQuery(internal.queries.getWorkoutProgressionSummaryInternal, {
           userId: args.userId,
           weeksToAnalyze: 4,
         });
 
-        if (progressionSummary.hasData) {
+        if (progressionSummary?.hasData) {
           const strengthData = progressionSummary.strongestLifts
             .map(l => `${l.exerciseName}: ${l.maxWeight}kg × ${l.maxReps}`)
             .join(', ');
@@ -1033,6 +1067,34 @@ Example: If user benched 80kg last week, suggest 82.5kg this week with same reps
       }
     }
 
+    // ═══════════════════════════════════════════════════════════
+    // PLAN QUALITY CHECKS: Volume, balance, patterns, length, injuries
+    // ═══════════════════════════════════════════════════════════
+    let injuryProfile: PlanQualityConstraints['injuryProfile'] = null;
+    if (args.userId) {
+      try {
+        const profile = await ctx.runQuery(internal.queries.getUserProfileInternal, { userId: args.userId });
+        injuryProfile = profile?.injuryProfile ?? null;
+      } catch (error) {
+        loggers.ai.warn('Could not fetch injury profile for plan quality checks:', error);
+      }
+    }
+
+    const qualityConstraints: PlanQualityConstraints = {
+      sessionLengthMinutes: parseInt(preferred_session_length || '60') || 60,
+      experienceLevel: experience_level,
+      trainingType: training_split?.training_type,
+      painPoints: pain_points,
+      injuryProfile,
+    };
+
+    // Day-one-only plans are a single day - weekly checks don't apply
+    const planQualityCheck = _generateDayOneOnly ? undefined : (plan: any) => {
+      const outcome = validateAndFixPlanQuality(plan, qualityConstraints);
+      loggers.ai.info(`📐 Plan quality score: ${outcome.validationResult.score}/100 (${outcome.validationResult.issues.length} issues)`);
+      return { plan: outcome.plan, feedback: outcome.success ? null : outcome.regenerationFeedback ?? null };
+    };
+
     // Get session length guidance from unified schema
     const sessionLengthPrompt = preferred_session_length
       ? getSessionLengthGuidance(preferred_session_length as SessionLength)
@@ -1472,7 +1534,8 @@ Return JSON:
           },
           validateWorkoutPlan,
           2, // Reduced from 3 to 2 - 3rd attempt rarely succeeds
-          parseInt(preferred_session_length || '60') // Pass session duration for cardio fixing
+          parseInt(preferred_session_length || '60'), // Pass session duration for cardio fixing
+          planQualityCheck
         );
       } catch (deepseekError: any) {
         // DeepSeek failed - try Gemini fallback
@@ -1501,7 +1564,8 @@ Return JSON:
             },
             validateWorkoutPlan,
             2,
-            parseInt(preferred_session_length || '60')
+            parseInt(preferred_session_length || '60'),
+            planQualityCheck
           );
           usedFallback = true;
           loggers.ai.info('✅ Gemini fallback succeeded!');
@@ -1636,6 +1700,9 @@ export const explainExercise = action({
     userId: v.string(),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     // First check if exercise explanation exists in cache
     const cached = await ctx.runQuery(api.queries.getExerciseFromCache, {
       exerciseName: args.exerciseName
@@ -1654,7 +1721,7 @@ export const explainExercise = action({
 
     // Rate limiting (only for non-cached requests)
     const { checkRateLimit } = await import("./rateLimiter");
-    checkRateLimit(args.userId, "explainExercise");
+    await checkRateLimit(ctx, args.userId, "explainExercise");
 
     // Not in cache, generate explanation using DeepSeek
     const apiKey = process.env.DEEPSEEK_API_KEY;
@@ -1731,9 +1798,10 @@ Return ONLY valid JSON.`;
 });
 
 /**
- * Chatbot action - handles user messages with JSON-based function calling for workout plan modifications
- * Uses DeepSeek for fast, intelligent responses
- * Supports: substitute exercise, add exercise, modify, remove, adjust difficulty, extend/shorten workout
+ * Chatbot action - handles user messages with Gemini function calling for workout plan modifications
+ * Plan edits are dry-run server-side (validated) and returned as a diff preview;
+ * the client commits them with chatCoachMutations.applyCoachAction.
+ * Supports: substitute, modify, add, remove, adjust difficulty, shorten/extend, swap days, superset
  */
 export const handleChatMessage = action({
   args: {
@@ -1747,12 +1815,13 @@ export const handleChatMessage = action({
     language: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const apiKey = process.env.DEEPSEEK_API_KEY;
+    // Gemini: native function calling for the coach's plan edits
+    const apiKey = process.env.GEMINI_API_KEY;
     if (!apiKey) {
-      throw new Error("DeepSeek API key not configured");
+      throw new Error("Gemini API key not configured");
     }
 
-    // Get the workout plan
+    // Get the workout plan (SECURITY: getWorkoutPlan only returns the caller's own plan)
     const plan = await ctx.runQuery(api.queries.getWorkoutPlan, { planId: args.planId });
     if (!plan) {
       throw new Error("Workout plan not found");
@@ -1761,11 +1830,11 @@ export const handleChatMessage = action({
     // Rate limiting based on plan's userId
     if (plan.userId) {
       const { checkRateLimit } = await import("./rateLimiter");
-      checkRateLimit(plan.userId, "handleChatMessage");
+      await checkRateLimit(ctx, plan.userId, "handleChatMessage");
     }
 
-    // Create DeepSeek client
-    const ai = createDeepSeekClient(apiKey);
+    const { GoogleGenAI } = await import("@google/genai");
+    const ai = new GoogleGenAI({ apiKey });
 
     // Build system instruction with plan context
     const dayNames = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
@@ -1804,47 +1873,13 @@ WEEKLY OVERVIEW:
 ${weekSummary}
 
 ═══════════════════════════════════════════════════════════════
-AVAILABLE ACTIONS (respond with JSON when modifying the plan)
+PLAN EDITS (use the provided functions)
 ═══════════════════════════════════════════════════════════════
-
-1. **substituteExercise** - Swap/replace one exercise for another
-   Triggers: "swap X for Y", "replace X with Y", "change X to Y", "use Y instead of X"
-   {"action": "substituteExercise", "params": {"day_of_week": ${currentDay}, "original_exercise_name": "EXACT_NAME", "new_exercise_name": "New Exercise", "new_sets": 3, "new_reps": "8-10", "new_rest_period_s": 90}}
-
-2. **modifyExercise** - Change sets/reps/rest for a specific exercise
-   Triggers: "more sets", "less reps", "change rest time", "increase volume for X"
-   {"action": "modifyExercise", "params": {"day_of_week": ${currentDay}, "exercise_name": "EXACT_NAME", "new_sets": 4, "new_reps": "6-8", "new_rest_period_s": 120, "new_rpe": "8"}}
-
-3. **addExercise** - Add a new exercise to the plan
-   Triggers: "add bicep curls", "include cardio", "I want to do abs", "add more chest work"
-   {"action": "addExercise", "params": {"day_of_week": ${currentDay}, "exercise_name": "Exercise Name", "category": "main", "sets": 3, "reps": "12-15", "rest_period_s": 60}}
-   Categories: "warmup", "main", "cooldown"
-
-4. **removeExercise** - Remove an exercise from the plan
-   Triggers: "remove X", "take out X", "I don't want to do X", "skip X", "delete X"
-   {"action": "removeExercise", "params": {"day_of_week": ${currentDay}, "exercise_name": "EXACT_NAME"}}
-
-5. **adjustDifficulty** - Make workout harder or easier (affects ALL main exercises)
-   Triggers: "make it harder", "too easy", "make today easier", "I want more challenge", "tone it down"
-   {"action": "adjustDifficulty", "params": {"day_of_week": ${currentDay}, "direction": "harder", "method": "all"}}
-   - direction: "harder" or "easier"
-   - method: "volume" (sets), "intensity" (RPE), or "all" (both)
-
-6. **shortenWorkout** - Make the workout shorter/quicker
-   Triggers: "make it shorter", "I only have 30 minutes", "quick workout", "less exercises", "faster session"
-   {"action": "shortenWorkout", "params": {"day_of_week": ${currentDay}}}
-
-7. **extendWorkout** - Make the workout longer
-   Triggers: "make it longer", "add more exercises", "I have extra time", "extend the workout"
-   {"action": "extendWorkout", "params": {"day_of_week": ${currentDay}}}
-
-8. **swapDayFocus** - Swap workouts between two days
-   Triggers: "swap Monday and Tuesday", "move leg day to Wednesday", "switch day 1 and day 3"
-   {"action": "swapDayFocus", "params": {"day_from": 1, "day_to": 3}}
-
-9. **createSuperset** - Combine exercises into a superset
-   Triggers: "make a superset", "combine X and Y", "superset these exercises"
-   {"action": "createSuperset", "params": {"day_of_week": ${currentDay}, "exercises": [{"exercise_name": "Exercise A", "metrics_template": {"type": "sets_reps_weight", "target_sets": 3, "target_reps": "10"}}, {"exercise_name": "Exercise B", "metrics_template": {"type": "sets_reps_weight", "target_sets": 3, "target_reps": "12"}}], "rounds": 3, "rest_between_rounds": 90}}
+To change the plan, CALL one of your functions - never write JSON in your reply:
+substituteExercise, modifyExercise, addExercise, removeExercise, adjustDifficulty,
+shortenWorkout, extendWorkout, swapDayFocus, createSuperset.
+The user sees a preview of the change and confirms it, so call the function
+directly instead of asking "should I?". One function call per reply.
 
 ═══════════════════════════════════════════════════════════════
 NATURAL LANGUAGE UNDERSTANDING (BE FLEXIBLE!)
@@ -1905,7 +1940,7 @@ You are a conversational AI coach. Understand:
 RULES
 ═══════════════════════════════════════════════════════════════
 1. Be CONVERSATIONAL and EMPATHETIC - talk like a real coach
-2. For plan modifications, respond with the JSON action object
+2. For plan modifications, call the matching function (add a short sentence explaining the change)
 3. For questions/advice/conversation, respond with helpful plain text
 4. Understand the INTENT even with typos or casual language
 5. When user mentions pain/discomfort, ALWAYS offer a safer alternative
@@ -1918,71 +1953,73 @@ RULES
 
 CONTEXT:
 Plan has weeklyPlan[] with days (day_of_week 1-7, where 1=Monday), focus, and blocks.
-Blocks have type (single|superset|amrap) and exercises[] with exercise_name, metrics_template, rpe.`;
-
-    // Build conversation history for context
-    const historyText = (args.conversationHistory || [])
-      .map((msg) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
-      .join('\n');
+Blocks have type (single|superset|amrap|circuit|emom|tabata) and exercises[] with exercise_name, metrics_template, rpe.`;
 
-    const prompt = `${systemInstruction}
-
-CONVERSATION HISTORY:
-${historyText || 'No previous messages.'}
-
-USER MESSAGE: ${args.message}`;
+    // Conversation history as proper turns so the model keeps context
+    const contents = [
+      ...(args.conversationHistory || []).map((msg) => ({
+        role: msg.role,
+        parts: [{ text: msg.content }],
+      })),
+      { role: "user", parts: [{ text: args.message }] },
+    ];
 
     try {
       const result = await ai.models.generateContent({
-        model: "deepseek-chat", // Fast mode for conversational responses
-        contents: prompt,
+        model: "gemini-2.5-flash", // Fast model with function calling
+        contents,
+        config: {
+          systemInstruction,
+          temperature: 0.7,
+          tools: [{ functionDeclarations: CHAT_FUNCTION_DECLARATIONS }],
+        },
       });
 
-      const responseText = result.text || '';
-
-      // Check if response contains a function call JSON
-      // Match both compact and formatted JSON
-      const jsonMatch = responseText.match(/\{\s*"action"\s*:\s*"(\w+)"\s*,\s*"params"\s*:\s*(\{[\s\S]*?\})\s*\}/);
-      if (jsonMatch) {
-        // All supported actions - must match frontend Chatbot.tsx handlers
-        const actionMap: Record<string, string> = {
-          'substituteExercise': 'substituteExercise',
-          'modifyExercise': 'modifyExercise',
-          'addExercise': 'addExercise',
-          'removeExercise': 'removeExercise',
-          'adjustDifficulty': 'adjustDifficulty',
-          'shortenWorkout': 'shortenWorkout',
-          'extendWorkout': 'extendWorkout',
-          'swapDayFocus': 'swapDayFocus',
-          'createSuperset': 'createSuperset',
-        };
+      const functionCall = result.functionCalls?.[0];
+      const replyText = (result.text || '').trim();
+
+      if (functionCall && isChatActionName(functionCall.name)) {
+        const functionArgs = (functionCall.args || {}) as Record<string, any>;
+        loggers.ai.info(`Chat action called: ${functionCall.name}`, functionArgs);
+
+        // Dry-run the edit server-side so the client can show an exact diff before applying
         try {
-          const params = JSON.parse(jsonMatch[2]);
-          const actionName = actionMap[jsonMatch[1]] || jsonMatch[1];
-          loggers.ai.info(`Chat action detected: ${actionName}`, params);
+          const proposed = applyChatAction(plan.weeklyPlan, functionCall.name, functionArgs);
+          const before = validateWorkoutPlan({ name: plan.name, weeklyPlan: plan.weeklyPlan });
+          const after = validateWorkoutPlan({ name: plan.name, weeklyPlan: proposed.weeklyPlan });
+          const newErrors = getNewValidationErrors(before.errors, after.errors);
+
+          if (newErrors.length > 0) {
+            loggers.ai.warn(`Chat action ${functionCall.name} rejected by validator:`, newErrors);
+            return {
+              type: "text",
+              textResponse: `I can't make that change without breaking your plan (${newErrors[0]}). Want to try something else?`,
+              functionCall: null,
+            };
+          }
+
           return {
             type: "function_call",
-            functionName: actionName,
-            functionArgs: params,
-            textResponse: null,
+            functionName: functionCall.name,
+            functionArgs,
+            textResponse: replyText || null,
+            preview: {
+              summary: proposed.summary,
+              changes: diffWeeklyPlans(plan.weeklyPlan, proposed.weeklyPlan),
+              warnings: after.warnings,
+            },
           };
-        } catch (parseError) {
-          loggers.ai.warn('Failed to parse action params:', parseError);
-          // Fall through to text response if JSON parsing fails
+        } catch (actionError) {
+          if (actionError instanceof ChatActionError) {
+            return { type: "text", textResponse: actionError.message, functionCall: null };
+          }
+          throw actionError;
         }
       }
 
-      // Regular text response - clean up any partial JSON attempts
-      let cleanResponse = responseText;
-      if (responseText.includes('"action"') && !jsonMatch) {
-        // AI tried to output JSON but it was malformed, extract just the text part
-        cleanResponse = responseText.replace(/\{[\s\S]*"action"[\s\S]*\}/g, '').trim() ||
-          "I understand you want to modify your workout. Could you please be more specific about which exercise you'd like to change?";
-      }
-
       return {
         type: "text",
-        textResponse: cleanResponse,
+        textResponse: replyText || "I'm not sure what you'd like to change. Could you tell me which exercise or day?",
         functionCall: null,
       };
     } catch (error: any) {
@@ -2009,7 +2046,7 @@ export const analyzeBodyPhoto = action({
     previousPhotoBase64: v.optional(v.string()), // Optional comparison photo
     userGoal: v.optional(v.string()), // User's fitness goal for context
     language: v.optional(v.string()),
-    userId: v.optional(v.string()), // For rate limiting
+    userId: v.optional(v.string()), // Must match the authenticated user if passed
   },
   handler: async (ctx, args) => {
     const apiKey = process.env.GEMINI_API_KEY;
@@ -2017,12 +2054,16 @@ export const analyzeBodyPhoto = action({
       throw new Error("Gemini API key not configured");
     }
 
-    // Rate limiting - expensive vision API
-    if (args.userId) {
-      const { checkRateLimit } = await import("./rateLimiter");
-      checkRateLimit(args.userId, "analyzeBodyPhoto");
+    // SECURITY: Photos are analyzed for the authenticated user (userId, if passed, must match)
+    const userId = await getUserIdFromAuth(ctx);
+    if (args.userId && args.userId !== userId) {
+      throw new Error("Unauthorized: User ID mismatch");
     }
 
+    // Rate limiting - expensive vision API
+    const { checkRateLimit } = await import("./rateLimiter");
+    await checkRateLimit(ctx, userId, "analyzeBodyPhoto");
+
     try {
       const { GoogleGenAI } = await import("@google/genai");
       const ai = new GoogleGenAI({ apiKey });
@@ -2111,9 +2152,12 @@ export const analyzePairedBodyPhotos = action({
       throw new Error("Gemini API key not configured");
     }
 
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     // Rate limiting
     const { checkRateLimit } = await import("./rateLimiter");
-    checkRateLimit(args.userId, "analyzeBodyPhoto");
+    await checkRateLimit(ctx, args.userId, "analyzeBodyPhoto");
 
     try {
       const { GoogleGenAI } = await import("@google/genai");
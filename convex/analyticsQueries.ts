@@ -4,6 +4,7 @@ import { withCache, userDataCache } from "./utils/queryCache";
 import { withMetrics } from "./utils/performanceMetrics";
 import { checkRateLimit } from "./utils/rateLimiting";
 import { loggers } from "./utils/logger";
+import { verifyAdmin, verifySelfOrAdmin } from "./utils/accessControl";
 
 /**
  * Analytics Dashboard Queries
@@ -27,6 +28,9 @@ export const getUserActivitySummary = query({
     endDate: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Own analytics for any signed-in user, cross-user analytics for admins only
+    await verifySelfOrAdmin(ctx, args.userId);
+
     return await withMetrics("getUserActivitySummary", async () => {
       const cacheKey = `activity:${args.userId}:${args.startDate || "all"}:${args.endDate || "all"}`;
 
@@ -98,6 +102,9 @@ export const getPlanGenerationAnalytics = query({
     endDate: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Require admin authentication
+    await verifyAdmin(ctx);
+
     return await withMetrics("getPlanGenerationAnalytics", async () => {
       const cacheKey = `planGen:${args.startDate || "all"}:${args.endDate || "all"}`;
 
@@ -162,6 +169,9 @@ export const getWorkoutTrends = query({
     days: v.number(),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Own analytics for any signed-in user, cross-user analytics for admins only
+    await verifySelfOrAdmin(ctx, args.userId);
+
     return await withMetrics("getWorkoutTrends", async () => {
       const endDate = Date.now();
       const startDate = endDate - args.days * 24 * 60 * 60 * 1000;
@@ -228,6 +238,9 @@ export const getExerciseSubstitutionAnalytics = query({
     endDate: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Require admin authentication
+    await verifyAdmin(ctx);
+
     return await withMetrics("getExerciseSubstitutionAnalytics", async () => {
       const cacheKey = `substitutions:${args.startDate || "all"}:${args.endDate || "all"}`;
 
@@ -298,6 +311,9 @@ export const getChatbotAnalytics = query({
     endDate: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Own analytics for any signed-in user, cross-user analytics for admins only
+    await verifySelfOrAdmin(ctx, args.userId);
+
     return await withMetrics("getChatbotAnalytics", async () => {
       const cacheKey = `chatbot:${args.userId || "all"}:${args.startDate || "all"}:${args.endDate || "all"}`;
 
@@ -361,6 +377,9 @@ export const getRetentionMetrics = query({
     cohortEndDate: v.string(),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Require admin authentication
+    await verifyAdmin(ctx);
+
     return await withMetrics("getRetentionMetrics", async () => {
       await checkRateLimit(ctx, "retention", 10, 60); // 10 calls per minute
 
@@ -440,6 +459,9 @@ export const getABTestResults = query({
     metricName: v.string(),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Require admin authentication
+    await verifyAdmin(ctx);
+
     return await withMetrics("getABTestResults", async () => {
       const cacheKey = `abtest:${args.testName}:${args.metricName}`;
 
@@ -499,6 +521,9 @@ export const getABTestResults = query({
 export const getRealtimeDashboard = query({
   args: {},
   handler: async (ctx) => {
+    // SECURITY: Require admin authentication
+    await verifyAdmin(ctx);
+
     return await withMetrics("getRealtimeDashboard", async () => {
       await checkRateLimit(ctx, "dashboard", 10, 60, false); // 10 calls per minute
 
@@ -1,5 +1,6 @@
 import { query, mutation } from "./_generated/server";
 import { v } from "convex/values";
+import { isAuthenticatedUser, verifyAuthenticatedUser } from "./utils/accessControl";
 
 // Get current user - uses Clerk user ID (read-only)
 export const getCurrentUser = query({
@@ -7,6 +8,11 @@ export const getCurrentUser = query({
     userId: v.string(), // Clerk user ID
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
     const user = await ctx.db
       .query("users")
       .withIndex("by_userId", (q) => q.eq("userId", args.userId))
@@ -22,6 +28,9 @@ export const ensureUser = mutation({
     userId: v.string(), // Clerk user ID
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     const user = await ctx.db
       .query("users")
       .withIndex("by_userId", (q) => q.eq("userId", args.userId))
@@ -0,0 +1,109 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { isAuthenticatedUser } from "./utils/accessControl";
+import { estimateOneRepMaxFromRpe } from "./utils/oneRepMax";
+
+// Sessions counted as "recent" when comparing against the lifter's best
+const RECENT_SESSIONS = 3;
+
+// Loads within this fraction are treated as "the same load" for RPE drift
+const SIMILAR_LOAD_TOLERANCE = 0.05;
+
+/**
+ * Per-user fatigue model for one exercise
+ * Built from exercisePerformance (RPE per session) and exerciseHistory (last load).
+ * fatigueRatio = recent RPE-based e1RM / best RPE-based e1RM (1.0 = fresh).
+ * rpeTrend = change in average RPE at similar loads, recent vs older sessions.
+ */
+export const getExerciseFatigueProfile = query({
+  args: {
+    userId: v.string(),
+    exerciseName: v.string(),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
+    const normalized = args.exerciseName.toLowerCase().trim().replace(/\s+/g, "_");
+
+    const [performances, history] = await Promise.all([
+      ctx.db
+        .query("exercisePerformance")
+        .withIndex("by_user_exercise", (q) =>
+          q.eq("user_id", args.userId).eq("exercise_name", normalized)
+        )
+        .order("desc")
+        .take(12),
+      ctx.db
+        .query("exerciseHistory")
+        .withIndex("by_userId_exerciseName", (q) =>
+          q.eq("userId", args.userId).eq("exerciseName", normalized)
+        )
+        .first(),
+    ]);
+
+    // Newest first; only completed sessions with load, reps and RPE are usable
+    const rated = performances
+      .filter(p =>
+        p.completed && !p.skipped &&
+        p.rpe !== null && p.rpe > 0 &&
+        (p.actual_weight ?? 0) > 0 &&
+        (p.actual_reps ?? 0) > 0
+      )
+      .map(p => {
+        const repsPerSet = (p.actual_reps ?? 0) / Math.max(1, p.actual_sets ?? 1);
+        return {
+          weight: p.actual_weight as number,
+          rpe: p.rpe as number,
+          e1rm: estimateOneRepMaxFromRpe(p.actual_weight as number, repsPerSet, p.rpe as number),
+        };
+      });
+
+    if (rated.length === 0) {
+      return {
+        estimatedOneRepMax: null,
+        recentOneRepMax: null,
+        fatigueRatio: 1,
+        averageRpe: null,
+        rpeTrend: 0,
+        samples: 0,
+        lastWeight: history?.last_weight ?? null,
+        lastReps: history?.last_reps ?? null,
+      };
+    }
+
+    const best = Math.max(...rated.map(r => r.e1rm));
+    const recent = rated.slice(0, RECENT_SESSIONS);
+    const recentMax = recent.reduce((sum, r) => sum + r.e1rm, 0) / recent.length;
+    const averageRpe = rated.reduce((sum, r) => sum + r.rpe, 0) / rated.length;
+
+    // RPE drift at the current working load
+    const referenceWeight = history?.last_weight || rated[0].weight;
+    const atLoad = rated.filter(r =>
+      Math.abs(r.weight - referenceWeight) <= referenceWeight * SIMILAR_LOAD_TOLERANCE
+    );
+    let rpeTrend = 0;
+    if (atLoad.length >= 2) {
+      const half = Math.ceil(atLoad.length / 2);
+      const newer = atLoad.slice(0, half);
+      const older = atLoad.slice(half);
+      if (older.length > 0) {
+        const avg = (list: typeof atLoad) => list.reduce((sum, r) => sum + r.rpe, 0) / list.length;
+        rpeTrend = Math.round((avg(newer) - avg(older)) * 10) / 10;
+      }
+    }
+
+    return {
+      estimatedOneRepMax: Math.round(best * 10) / 10,
+      recentOneRepMax: Math.round(recentMax * 10) / 10,
+      fatigueRatio: Math.round((recentMax / best) * 1000) / 1000,
+      averageRpe: Math.round(averageRpe * 10) / 10,
+      rpeTrend,
+      samples: rated.length,
+      lastWeight: history?.last_weight ?? null,
+      lastReps: history?.last_reps ?? null,
+    };
+  },
+});
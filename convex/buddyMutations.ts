@@ -1,6 +1,8 @@
 import { v } from "convex/values";
 import { mutation } from "./_generated/server";
 import { executeWithRollback } from "./utils/transactionHelpers";
+import { recordPlanRevision } from "./utils/planRevisions";
+import { getUserIdFromAuth, verifyAuthenticatedUser } from "./utils/accessControl";
 import {
   SHARE_CODE_PREFIX,
   SHARE_CODE_LENGTH,
@@ -17,6 +19,9 @@ export const createShareCode = mutation({
     userId: v.string()
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     // Get plan details first
     const plan = await ctx.db.get(args.planId);
     if (!plan || plan.userId !== args.userId) {
@@ -74,6 +79,9 @@ export const acceptSharedPlan = mutation({
     action: v.union(v.literal("replace"), v.literal("add"), v.literal("decline"))
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     // Find shared plan
     const sharedPlan = await ctx.db
       .query("sharedPlans")
@@ -111,6 +119,14 @@ export const acceptSharedPlan = mutation({
       });
       tracker.trackInsert("workoutPlans", newPlanId);
 
+      await recordPlanRevision(ctx, {
+        userId: args.userId,
+        planId: newPlanId,
+        weeklyPlan: originalPlan.weeklyPlan,
+        author: "import",
+        summary: "Copied from a shared plan",
+      });
+
       // If replace, set as active plan
       if (args.action === "replace") {
         const user = await ctx.db
@@ -209,6 +225,9 @@ export const notifyBuddyWorkoutStart = mutation({
     workoutName: v.string()
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     // Get all active buddies
     const buddies = await ctx.db
       .query("workoutBuddies")
@@ -258,6 +277,9 @@ export const updateBuddySettings = mutation({
     })
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     const existing = await ctx.db
       .query("buddySettings")
       .withIndex("by_pair", (q) => q.eq("userId", args.userId).eq("buddyId", args.buddyId))
@@ -288,6 +310,13 @@ export const markNotificationRead = mutation({
     notificationId: v.id("buddyNotifications")
   },
   handler: async (ctx, args) => {
+    // SECURITY: Only the recipient can mark a notification read
+    const userId = await getUserIdFromAuth(ctx);
+    const notification = await ctx.db.get(args.notificationId);
+    if (!notification || notification.userId !== userId) {
+      throw new Error("Unauthorized: You don't own this notification");
+    }
+
     await ctx.db.patch(args.notificationId, {
       read: true
     });
@@ -305,6 +334,9 @@ export const removeBuddy = mutation({
     buddyId: v.string()
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     // Find and delete both buddy relationships
     const userBuddy = await ctx.db
       .query("workoutBuddies")
@@ -1,6 +1,12 @@
 import { v } from "convex/values";
 import { query } from "./_generated/server";
-import { isAuthenticatedUser } from "./utils/accessControl";
+import { isAuthenticatedUser, hasBuddyPermission } from "./utils/accessControl";
+import {
+  OneRepMaxFormula,
+  collectWeightedSets,
+  bestRecordCandidates,
+  normalizeRecordExerciseName,
+} from "./utils/personalRecords";
 
 /**
  * Get shared plan by code
@@ -95,6 +101,7 @@ export const getWorkoutBuddies = query({
 
 /**
  * Compare PRs with a buddy
+ * Ranks by estimated 1RM (Epley or Brzycki) so a heavy 8 can beat a lighter single
  * Can optionally filter to specific exercises (e.g., today's workout)
  */
 export const getBuddyPRComparison = query({
@@ -102,6 +109,7 @@ export const getBuddyPRComparison = query({
     userId: v.string(),
     buddyId: v.string(),
     exerciseFilter: v.optional(v.array(v.string())), // Optional: only show PRs for these exercises
+    formula: v.optional(v.union(v.literal("epley"), v.literal("brzycki"))),
   },
   handler: async (ctx, args) => {
     // SECURITY: Verify userId matches authenticated user (returns empty if not auth'd)
@@ -109,77 +117,63 @@ export const getBuddyPRComparison = query({
       return { allowed: false, prs: [], comparisons: [] };
     }
 
-    // Get settings first
-    const settings = await ctx.db
-      .query("buddySettings")
-      .withIndex("by_pair", (q) => q.eq("userId", args.userId).eq("buddyId", args.buddyId))
-      .first();
-
-    if (!settings?.showPRs) {
+    // SECURITY: The buddy's own settings decide whether their PRs are visible
+    if (!await hasBuddyPermission(ctx, args.userId, args.buddyId, "showPRs")) {
       return { allowed: false, prs: [], comparisons: [] };
     }
 
-    // Get user's logs (limit to recent 200 for performance)
-    const userLogs = await ctx.db
-      .query("workoutLogs")
-      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
-      .order("desc")
-      .take(200);
-
-    // Get buddy's logs (limit to recent 200 for performance)
-    const buddyLogs = await ctx.db
-      .query("workoutLogs")
-      .withIndex("by_userId", (q) => q.eq("userId", args.buddyId))
-      .order("desc")
-      .take(200);
-
-    // Calculate PRs for common exercises
-    const exerciseMap = new Map<string, {
-      userPR: { weight: number; reps: number; date: string } | null;
-      buddyPR: { weight: number; reps: number; date: string } | null;
-    }>();
-
-    // Process user logs
-    userLogs.forEach(log => {
-      log.exercises.forEach(ex => {
-        ex.sets.forEach(set => {
-          if ('weight' in set && 'reps' in set) {
-            const current = exerciseMap.get(ex.exercise_name);
-            const weight = Number(set.weight);
-            const reps = Number(set.reps);
-
-            if (!current?.userPR || weight > current.userPR.weight ||
-                (weight === current.userPR.weight && reps > current.userPR.reps)) {
-              exerciseMap.set(ex.exercise_name, {
-                userPR: { weight, reps, date: log.date },
-                buddyPR: current?.buddyPR || null
-              });
-            }
-          }
+    const formula: OneRepMaxFormula = args.formula || "epley";
+    type BuddyPR = { weight: number; reps: number; date: string; e1rm: number };
+
+    // Best e1RM set per exercise: stored records (backfilled from history) first,
+    // recent logs for any exercise without a stored record yet
+    const loadBestSets = async (userId: string): Promise<Map<string, BuddyPR>> => {
+      const best = new Map<string, BuddyPR>();
+
+      const stored = await ctx.db
+        .query("personalRecords")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .filter((q) => q.eq(q.field("recordType"), "e1rm"))
+        .collect();
+
+      // Rows from before formulas were stored are Epley
+      const storedForFormula = stored.filter(record => (record.formula ?? "epley") === formula);
+      const storedExercises = new Set(storedForFormula.map(record => record.exerciseName));
+      storedForFormula.forEach(record => {
+        best.set(record.exercise_name, {
+          weight: record.weight,
+          reps: record.reps,
+          date: record.date,
+          e1rm: record.value,
         });
       });
-    });
-
-    // Process buddy logs
-    buddyLogs.forEach(log => {
-      log.exercises.forEach(ex => {
-        ex.sets.forEach(set => {
-          if ('weight' in set && 'reps' in set) {
-            const current = exerciseMap.get(ex.exercise_name);
-            const weight = Number(set.weight);
-            const reps = Number(set.reps);
-
-            if (!current?.buddyPR || weight > current.buddyPR.weight ||
-                (weight === current.buddyPR.weight && reps > current.buddyPR.reps)) {
-              exerciseMap.set(ex.exercise_name, {
-                userPR: current?.userPR || null,
-                buddyPR: { weight, reps, date: log.date }
-              });
-            }
-          }
-        });
+
+      // Limit to recent 200 for performance
+      const logs = await ctx.db
+        .query("workoutLogs")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .order("desc")
+        .take(200);
+
+      collectWeightedSets(logs).forEach((sets, exerciseName) => {
+        if (storedExercises.has(normalizeRecordExerciseName(exerciseName))) return;
+        const e1rmRecord = bestRecordCandidates(sets, formula).find(c => c.recordType === "e1rm");
+        if (e1rmRecord) {
+          best.set(exerciseName, {
+            weight: e1rmRecord.weight,
+            reps: e1rmRecord.reps,
+            date: e1rmRecord.date,
+            e1rm: e1rmRecord.value,
+          });
+        }
       });
-    });
+      return best;
+    };
+
+    const [userBest, buddyBest] = await Promise.all([
+      loadBestSets(args.userId),
+      loadBestSets(args.buddyId),
+    ]);
 
     // Normalize exercise names for comparison (lowercase, trim)
     const normalizeExercise = (name: string) => name.toLowerCase().trim();
@@ -189,14 +183,18 @@ export const getBuddyPRComparison = query({
       ? new Set(args.exerciseFilter.map(normalizeExercise))
       : null;
 
-    // Convert to array
-    const comparisons = Array.from(exerciseMap.entries())
-      .map(([exercise, prs]) => ({
+    const buddyByName = new Map(
+      Array.from(buddyBest.entries()).map(([name, pr]) => [normalizeExercise(name), pr])
+    );
+
+    // Only show exercises both have done
+    const comparisons = Array.from(userBest.entries())
+      .map(([exercise, userPR]) => ({
         exercise,
-        userPR: prs.userPR,
-        buddyPR: prs.buddyPR
+        userPR,
+        buddyPR: buddyByName.get(normalizeExercise(exercise)) || null,
       }))
-      .filter(c => c.userPR && c.buddyPR) // Only show exercises both have done
+      .filter(c => c.buddyPR)
       .filter(c => {
         // If filter provided, only include exercises in the filter
         if (filterSet) {
@@ -204,16 +202,12 @@ export const getBuddyPRComparison = query({
         }
         return true; // No filter = show all
       })
-      .sort((a, b) => {
-        // Sort by total volume (weight × reps)
-        const aVol = (a.userPR!.weight * a.userPR!.reps) + (a.buddyPR!.weight * a.buddyPR!.reps);
-        const bVol = (b.userPR!.weight * b.userPR!.reps) + (b.buddyPR!.weight * b.buddyPR!.reps);
-        return bVol - aVol;
-      });
+      .sort((a, b) => (b.userPR.e1rm + b.buddyPR!.e1rm) - (a.userPR.e1rm + a.buddyPR!.e1rm));
 
     return {
       allowed: true,
       comparisons,
+      formula,
       filteredByDay: !!(args.exerciseFilter && args.exerciseFilter.length > 0), // Let UI know if results are filtered
     };
   },
@@ -283,13 +277,8 @@ export const getBuddyRecentWorkouts = query({
       return { allowed: false, workouts: [] };
     }
 
-    // Check if sharing enabled
-    const settings = await ctx.db
-      .query("buddySettings")
-      .withIndex("by_pair", (q) => q.eq("userId", args.userId).eq("buddyId", args.buddyId))
-      .first();
-
-    if (!settings?.shareLogs) {
+    // SECURITY: The buddy's own settings decide whether their logs are shared
+    if (!await hasBuddyPermission(ctx, args.userId, args.buddyId, "shareLogs")) {
       return { allowed: false, workouts: [] };
     }
 
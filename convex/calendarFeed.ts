@@ -0,0 +1,191 @@
+/**
+ * Training Calendar Feed
+ *
+ * Stores the user's preferred training times and a secret feed token. Calendar
+ * apps subscribe to GET /calendar/{token}.ics (see convex/http.ts), which
+ * renders the active plan with convex/utils/icsCalendar.ts. Calendar apps can't
+ * authenticate, so the token is the credential - rotating it kills old links.
+ */
+
+import { mutation, query, internalQuery } from "./_generated/server";
+import { v } from "convex/values";
+import { verifyAuthenticatedUser, isAuthenticatedUser } from "./utils/accessControl";
+import { DEFAULT_CALENDAR_TIMES } from "./utils/icsCalendar";
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Unguessable feed token (32 chars, URL-safe)
+ */
+function generateFeedToken(): string {
+  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
+  const randomBytes = new Uint8Array(32);
+  crypto.getRandomValues(randomBytes);
+
+  let token = "";
+  for (let i = 0; i < randomBytes.length; i++) {
+    token += chars[randomBytes[i] % chars.length];
+  }
+  return token;
+}
+
+/**
+ * Get calendar settings (defaults if never saved; null if not authorized)
+ */
+export const getCalendarSettings = query({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .first();
+
+    return user?.calendarSettings || {
+      ...DEFAULT_CALENDAR_TIMES,
+      timezone: user?.locationData?.timezone || "UTC",
+      feedToken: null,
+    };
+  },
+});
+
+/**
+ * Save preferred training times (and the device timezone)
+ */
+export const updateCalendarSettings = mutation({
+  args: {
+    userId: v.string(),
+    training_time: v.string(),
+    morning_time: v.string(),
+    evening_time: v.string(),
+    timezone: v.string(),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    for (const time of [args.training_time, args.morning_time, args.evening_time]) {
+      if (!TIME_PATTERN.test(time)) {
+        throw new Error(`Invalid time "${time}" - use HH:MM`);
+      }
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .first();
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    await ctx.db.patch(user._id, {
+      calendarSettings: {
+        training_time: args.training_time,
+        morning_time: args.morning_time,
+        evening_time: args.evening_time,
+        timezone: args.timezone,
+        feedToken: user.calendarSettings?.feedToken ?? null,
+      },
+    });
+  },
+});
+
+/**
+ * Create (or rotate) the subscribable feed token
+ * Any previously shared feed URL stops working.
+ */
+export const rotateCalendarFeedToken = mutation({
+  args: {
+    userId: v.string(),
+    timezone: v.string(),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .first();
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const feedToken = generateFeedToken();
+    await ctx.db.patch(user._id, {
+      calendarSettings: {
+        ...DEFAULT_CALENDAR_TIMES,
+        ...user.calendarSettings,
+        timezone: args.timezone,
+        feedToken,
+      },
+    });
+
+    return { feedToken };
+  },
+});
+
+/**
+ * Disable the subscribable feed
+ */
+export const revokeCalendarFeedToken = mutation({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .first();
+    if (!user?.calendarSettings) return;
+
+    await ctx.db.patch(user._id, {
+      calendarSettings: { ...user.calendarSettings, feedToken: null },
+    });
+  },
+});
+
+/**
+ * Everything the ICS feed needs for a token (null if the token is unknown)
+ */
+export const getCalendarFeedData = internalQuery({
+  args: {
+    feedToken: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_calendarFeedToken", (q) => q.eq("calendarSettings.feedToken", args.feedToken))
+      .first();
+    if (!user?.calendarSettings || !user.activePlanId) {
+      return null;
+    }
+
+    const plan = await ctx.db.get(user.activePlanId);
+    if (!plan) {
+      return null;
+    }
+
+    return {
+      plan: {
+        _id: plan._id,
+        name: plan.name,
+        weeklyPlan: plan.weeklyPlan,
+        periodization: plan.periodization,
+      },
+      settings: user.calendarSettings,
+      targetDate: user.trainingPreferences?.specific_goal?.target_date ?? null,
+      eventName: user.trainingPreferences?.specific_goal?.event_name ?? null,
+      preferredSessionLength: user.trainingPreferences?.preferred_session_length ?? null,
+    };
+  },
+});
@@ -0,0 +1,134 @@
+/**
+ * Cardio File Import
+ *
+ * Saves a run/ride parsed on the client from a FIT, TCX or GPX file
+ * (services/cardioFileService.ts). The activity is attached to the planned
+ * cardio exercise it was done for - in that session's log if one exists - or
+ * saved as a standalone log. Runs attached to a plan get pace compliance.
+ */
+
+import { mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { verifyAuthenticatedUser } from "./utils/accessControl";
+import { computePaceCompliance, pickPaceZone } from "./utils/paceCompliance";
+
+// A log this close to the activity start is treated as the same session
+const SAME_SESSION_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+const SPORT_LABELS: Record<string, string> = {
+  running: "Run",
+  cycling: "Ride",
+  walking: "Walk",
+  hiking: "Hike",
+  rowing: "Row",
+  swimming: "Swim",
+};
+
+const cardioActivityValidator = v.object({
+  source: v.union(v.literal("fit"), v.literal("tcx"), v.literal("gpx")),
+  sport: v.string(),
+  startTime: v.string(),
+  distance_m: v.number(),
+  duration_s: v.number(),
+  avg_hr: v.union(v.number(), v.null()),
+  max_hr: v.union(v.number(), v.null()),
+  elevation_gain_m: v.union(v.number(), v.null()),
+  splits: v.array(v.object({
+    distance_m: v.number(),
+    duration_s: v.number(),
+    avg_hr: v.union(v.number(), v.null()),
+  })),
+});
+
+/**
+ * Attach an imported activity to a planned cardio exercise or log it standalone
+ */
+export const importCardioActivity = mutation({
+  args: {
+    userId: v.string(),
+    activity: cardioActivityValidator,
+    // Planned exercise this activity was for (omit for a standalone log)
+    planned: v.optional(v.object({
+      exercise_name: v.string(),
+      focus: v.string(),
+      notes: v.union(v.string(), v.null()),
+      templateType: v.string(),
+    })),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const { activity, planned } = args;
+    const startMs = Date.parse(activity.startTime);
+    if (isNaN(startMs) || startMs > Date.now()) {
+      throw new Error("Activity start time is missing or in the future");
+    }
+    if (activity.distance_m <= 0 && activity.duration_s <= 0) {
+      throw new Error("The file has no distance or duration");
+    }
+    const startTime = new Date(startMs).toISOString();
+
+    const nearbyLogs = await ctx.db
+      .query("workoutLogs")
+      .withIndex("by_userId_date", (q) =>
+        q.eq("userId", args.userId)
+          .gte("date", new Date(startMs - SAME_SESSION_WINDOW_MS).toISOString())
+          .lte("date", new Date(startMs + SAME_SESSION_WINDOW_MS).toISOString())
+      )
+      .collect();
+
+    // Same file imported twice
+    const existing = nearbyLogs.find(log => log.exercises.some(e => e.cardio?.startTime === startTime));
+    if (existing) {
+      return { logId: existing._id, attached: false, duplicate: true, paceCompliance: null };
+    }
+
+    let paceCompliance = null;
+    if (planned && activity.sport === "running") {
+      const user = await ctx.db
+        .query("users")
+        .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+        .first();
+      const zone = pickPaceZone(`${planned.exercise_name} ${planned.notes || ""}`, planned.templateType);
+      paceCompliance = computePaceCompliance(
+        activity,
+        user?.trainingPreferences?.hyrox_profile?.comfortable_5k_minutes,
+        zone
+      );
+    }
+
+    const cardio = { ...activity, startTime, paceCompliance };
+    const sets = activity.distance_m > 0
+      ? [{ set: 1, distance_m: Math.round(activity.distance_m), rest_s: 0 }]
+      : [{ set: 1, duration_s: Math.round(activity.duration_s) }];
+
+    // Attach to the session log that already has the planned exercise
+    if (planned) {
+      const plannedName = planned.exercise_name.toLowerCase().trim();
+      const sessionLog = nearbyLogs
+        .filter(log => log.exercises.some(e => e.exercise_name.toLowerCase().trim() === plannedName))
+        .sort((a, b) => Math.abs(Date.parse(a.date) - startMs) - Math.abs(Date.parse(b.date) - startMs))[0];
+
+      if (sessionLog) {
+        await ctx.db.patch(sessionLog._id, {
+          exercises: sessionLog.exercises.map(e =>
+            e.exercise_name.toLowerCase().trim() === plannedName ? { ...e, sets, cardio } : e
+          ),
+        });
+        return { logId: sessionLog._id, attached: true, duplicate: false, paceCompliance };
+      }
+    }
+
+    const label = SPORT_LABELS[activity.sport] || "Cardio";
+    const logId = await ctx.db.insert("workoutLogs", {
+      userId: args.userId,
+      date: startTime,
+      focus: planned?.focus || label,
+      exercises: [{ exercise_name: planned?.exercise_name || label, sets, cardio }],
+      durationMinutes: activity.duration_s > 0 ? Math.round(activity.duration_s / 60) : null,
+    });
+
+    return { logId, attached: false, duplicate: false, paceCompliance };
+  },
+});
@@ -0,0 +1,331 @@
+import { v } from "convex/values";
+import { mutation, internalMutation, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { verifyAuthenticatedUser } from "./utils/accessControl";
+import { CHALLENGE_METRIC_UNITS, loadChallengeStandings } from "./utils/challenges";
+import { MAX_CHALLENGE_DAYS, MAX_CHALLENGE_INVITES } from "./utils/constants";
+import { loggers } from "./utils/logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const challengeMetric = v.union(
+  v.literal("workouts_completed"),
+  v.literal("total_volume"),
+  v.literal("streak_days"),
+  v.literal("running_km"),
+  v.literal("lift_e1rm")
+);
+
+/**
+ * Resolve user codes to active buddies of the inviter (throws on the first bad code)
+ */
+async function resolveBuddyCodes(ctx: MutationCtx, inviterId: string, codes: string[]): Promise<string[]> {
+  const userIds: string[] = [];
+
+  for (const rawCode of [...new Set(codes.map(c => c.trim().toUpperCase()))]) {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_userCode", (q) => q.eq("userCode", rawCode))
+      .first();
+
+    if (!user) {
+      throw new Error(`User code ${rawCode} not found`);
+    }
+    if (user.userId === inviterId) continue;
+
+    const relationship = await ctx.db
+      .query("workoutBuddies")
+      .withIndex("by_pair", (q) => q.eq("userId", inviterId).eq("buddyId", user.userId))
+      .first();
+
+    if (!relationship || relationship.status !== "active") {
+      throw new Error(`${rawCode} isn't your buddy yet - send a buddy request first`);
+    }
+    userIds.push(user.userId);
+  }
+
+  return userIds;
+}
+
+// Invite row + notification for each new participant
+async function inviteParticipants(
+  ctx: MutationCtx,
+  challengeId: Id<"buddyChallenges">,
+  challengeName: string,
+  inviterId: string,
+  userIds: string[]
+) {
+  for (const userId of userIds) {
+    await ctx.db.insert("challengeParticipants", {
+      challengeId,
+      userId,
+      invitedBy: inviterId,
+      status: "invited",
+      joinedAt: null,
+      finalScore: null,
+      finalRank: null,
+    });
+
+    await ctx.db.insert("buddyNotifications", {
+      userId,
+      triggeredBy: inviterId,
+      type: "challenge_invite",
+      relatedPlanId: null,
+      relatedShareCode: null,
+      relatedChallengeId: challengeId,
+      message: `challenged you: ${challengeName}`,
+      createdAt: new Date().toISOString(),
+      read: false,
+      actionTaken: false
+    });
+  }
+}
+
+/**
+ * Create a time-boxed challenge and invite buddies by user code
+ */
+export const createChallenge = mutation({
+  args: {
+    userId: v.string(),
+    name: v.string(),
+    metric: challengeMetric,
+    exerciseName: v.optional(v.string()), // Required for lift_e1rm
+    startDate: v.string(), // YYYY-MM-DD
+    endDate: v.string(), // YYYY-MM-DD
+    inviteCodes: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const name = args.name.trim();
+    if (!name) {
+      throw new Error("Challenge needs a name");
+    }
+    if (args.metric === "lift_e1rm" && !args.exerciseName?.trim()) {
+      throw new Error("Pick the lift for an e1RM challenge");
+    }
+    if (!DATE_PATTERN.test(args.startDate) || !DATE_PATTERN.test(args.endDate)) {
+      throw new Error("Dates must be YYYY-MM-DD");
+    }
+
+    const days = (Date.parse(args.endDate) - Date.parse(args.startDate)) / DAY_MS + 1;
+    if (days < 1) {
+      throw new Error("End date must be on or after the start date");
+    }
+    if (days > MAX_CHALLENGE_DAYS) {
+      throw new Error(`Challenges can run for at most ${MAX_CHALLENGE_DAYS} days`);
+    }
+    if (args.endDate < new Date().toISOString().split("T")[0]) {
+      throw new Error("End date is in the past");
+    }
+
+    const invitees = await resolveBuddyCodes(ctx, args.userId, args.inviteCodes);
+    if (invitees.length === 0) {
+      throw new Error("Invite at least one buddy");
+    }
+    if (invitees.length > MAX_CHALLENGE_INVITES) {
+      throw new Error(`You can invite up to ${MAX_CHALLENGE_INVITES} buddies`);
+    }
+
+    const now = new Date().toISOString();
+    const challengeId = await ctx.db.insert("buddyChallenges", {
+      creatorId: args.userId,
+      name,
+      metric: args.metric,
+      exerciseName: args.metric === "lift_e1rm" ? args.exerciseName!.trim() : null,
+      startDate: args.startDate,
+      endDate: args.endDate,
+      status: "active",
+      createdAt: now,
+      completedAt: null,
+      winnerIds: [],
+    });
+
+    await ctx.db.insert("challengeParticipants", {
+      challengeId,
+      userId: args.userId,
+      invitedBy: args.userId,
+      status: "joined",
+      joinedAt: now,
+      finalScore: null,
+      finalRank: null,
+    });
+
+    await inviteParticipants(ctx, challengeId, name, args.userId, invitees);
+
+    return { challengeId, invited: invitees.length };
+  },
+});
+
+/**
+ * Invite more buddies to a running challenge (any joined participant can)
+ */
+export const inviteToChallenge = mutation({
+  args: {
+    userId: v.string(),
+    challengeId: v.id("buddyChallenges"),
+    inviteCodes: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const challenge = await ctx.db.get(args.challengeId);
+    if (!challenge || challenge.status !== "active") {
+      throw new Error("Challenge not found or already finished");
+    }
+
+    const participants = await ctx.db
+      .query("challengeParticipants")
+      .withIndex("by_challengeId", (q) => q.eq("challengeId", args.challengeId))
+      .collect();
+
+    const self = participants.find(p => p.userId === args.userId);
+    if (!self || self.status !== "joined") {
+      throw new Error("Unauthorized: Join the challenge before inviting others");
+    }
+
+    const alreadyIn = new Set(participants.map(p => p.userId));
+    const invitees = (await resolveBuddyCodes(ctx, args.userId, args.inviteCodes))
+      .filter(id => !alreadyIn.has(id));
+
+    if (participants.length - 1 + invitees.length > MAX_CHALLENGE_INVITES) {
+      throw new Error(`Challenges are limited to ${MAX_CHALLENGE_INVITES + 1} people`);
+    }
+
+    await inviteParticipants(ctx, args.challengeId, challenge.name, args.userId, invitees);
+
+    return { invited: invitees.length };
+  },
+});
+
+/**
+ * Accept or decline a challenge invite
+ */
+export const respondToChallenge = mutation({
+  args: {
+    userId: v.string(),
+    challengeId: v.id("buddyChallenges"),
+    accept: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const participant = await ctx.db
+      .query("challengeParticipants")
+      .withIndex("by_challenge_user", (q) => q.eq("challengeId", args.challengeId).eq("userId", args.userId))
+      .first();
+
+    if (!participant) {
+      throw new Error("Challenge invite not found");
+    }
+    if (participant.status !== "invited") {
+      throw new Error("You've already responded to this challenge");
+    }
+
+    const challenge = await ctx.db.get(args.challengeId);
+    if (!challenge || challenge.status !== "active") {
+      throw new Error("This challenge has already finished");
+    }
+
+    await ctx.db.patch(participant._id, {
+      status: args.accept ? "joined" : "declined",
+      joinedAt: args.accept ? new Date().toISOString() : null,
+    });
+
+    // Mark the invite notification as handled
+    const invite = await ctx.db
+      .query("buddyNotifications")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .filter((q) => q.and(
+        q.eq(q.field("type"), "challenge_invite"),
+        q.eq(q.field("relatedChallengeId"), args.challengeId)
+      ))
+      .first();
+
+    if (invite) {
+      await ctx.db.patch(invite._id, { read: true, actionTaken: true });
+    }
+
+    return { success: true };
+  },
+});
+
+/**
+ * Settle challenges whose end date has passed: final ranks, result
+ * notifications and a winner achievement
+ * Called by cron daily (scheduledJobs.ts)
+ */
+export const finalizeEndedChallenges = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const today = new Date().toISOString().split("T")[0];
+
+    const ended = await ctx.db
+      .query("buddyChallenges")
+      .withIndex("by_status_endDate", (q) => q.eq("status", "active").lt("endDate", today))
+      .collect();
+
+    for (const challenge of ended) {
+      const participants = await ctx.db
+        .query("challengeParticipants")
+        .withIndex("by_challengeId", (q) => q.eq("challengeId", challenge._id))
+        .collect();
+      const joined = participants.filter(p => p.status === "joined");
+
+      const standings = await loadChallengeStandings(ctx, challenge, joined.map(p => p.userId));
+      // Nobody wins a challenge where nobody scored
+      const winnerIds = standings.filter(s => s.rank === 1 && s.score > 0).map(s => s.userId);
+      const unit = CHALLENGE_METRIC_UNITS[challenge.metric];
+      const now = new Date().toISOString();
+
+      for (const standing of standings) {
+        const participant = joined.find(p => p.userId === standing.userId)!;
+        await ctx.db.patch(participant._id, {
+          finalScore: standing.score,
+          finalRank: standing.rank,
+        });
+
+        const won = winnerIds.includes(standing.userId);
+        await ctx.db.insert("buddyNotifications", {
+          userId: standing.userId,
+          triggeredBy: winnerIds[0] ?? challenge.creatorId,
+          type: "challenge_result",
+          relatedPlanId: null,
+          relatedShareCode: null,
+          relatedChallengeId: challenge._id,
+          message: won
+            ? `You won ${challenge.name} with ${standing.score} ${unit}! 🏆`
+            : `${challenge.name} is over - you finished #${standing.rank} of ${standings.length} with ${standing.score} ${unit}`,
+          createdAt: now,
+          read: false,
+          actionTaken: false
+        });
+
+        if (won) {
+          await ctx.db.insert("achievements", {
+            userId: standing.userId,
+            type: `challenge_win_${challenge._id}`,
+            unlockedAt: now,
+            displayName: "Challenge Champion",
+            description: `Won ${challenge.name}`,
+            icon: "🏆",
+            tier: "gold"
+          });
+        }
+      }
+
+      await ctx.db.patch(challenge._id, {
+        status: "completed",
+        completedAt: now,
+        winnerIds,
+      });
+    }
+
+    loggers.mutations.info(`Finalized ${ended.length} buddy challenges`);
+    return { finalized: ended.length };
+  },
+});
@@ -0,0 +1,113 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { isAuthenticatedUser } from "./utils/accessControl";
+import { CHALLENGE_METRIC_UNITS, loadChallengeStandings } from "./utils/challenges";
+
+/**
+ * Challenges the user created, joined or was invited to
+ * Running challenges first, then finished ones (most recent first)
+ */
+export const getMyChallenges = query({
+  args: {
+    userId: v.string()
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns empty if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return [];
+    }
+
+    const participations = await ctx.db
+      .query("challengeParticipants")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .filter((q) => q.neq(q.field("status"), "declined"))
+      .collect();
+
+    const challenges = await Promise.all(participations.map(p => ctx.db.get(p.challengeId)));
+
+    return participations
+      .map((participation, idx) => ({ participation, challenge: challenges[idx] }))
+      .filter((entry): entry is typeof entry & { challenge: NonNullable<typeof entry.challenge> } => !!entry.challenge)
+      .map(({ participation, challenge }) => ({
+        ...challenge,
+        unit: CHALLENGE_METRIC_UNITS[challenge.metric],
+        myStatus: participation.status,
+        myFinalRank: participation.finalRank,
+        iWon: challenge.winnerIds.includes(args.userId),
+      }))
+      .sort((a, b) => {
+        if (a.status !== b.status) return a.status === "active" ? -1 : 1;
+        return b.endDate.localeCompare(a.endDate);
+      });
+  },
+});
+
+/**
+ * Leaderboard for one challenge
+ * Live from workoutLogs while running, the stored final standings once finished
+ */
+export const getChallengeLeaderboard = query({
+  args: {
+    userId: v.string(),
+    challengeId: v.id("buddyChallenges")
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
+    const challenge = await ctx.db.get(args.challengeId);
+    if (!challenge) return null;
+
+    const participants = await ctx.db
+      .query("challengeParticipants")
+      .withIndex("by_challengeId", (q) => q.eq("challengeId", args.challengeId))
+      .collect();
+
+    // SECURITY: Only people invited to the challenge can see scores
+    if (!participants.some(p => p.userId === args.userId && p.status !== "declined")) {
+      return null;
+    }
+
+    const joined = participants.filter(p => p.status === "joined");
+    const invited = participants.filter(p => p.status === "invited").length;
+
+    if (challenge.status === "completed") {
+      const users = await Promise.all(
+        joined.map(p =>
+          ctx.db
+            .query("users")
+            .withIndex("by_userId", (q) => q.eq("userId", p.userId))
+            .first()
+        )
+      );
+
+      return {
+        challenge,
+        unit: CHALLENGE_METRIC_UNITS[challenge.metric],
+        live: false,
+        invited,
+        entries: joined
+          .map((p, idx) => ({
+            userId: p.userId,
+            userCode: users[idx]?.userCode ?? null,
+            score: p.finalScore ?? 0,
+            rank: p.finalRank ?? joined.length,
+            isMe: p.userId === args.userId,
+          }))
+          .sort((a, b) => a.rank - b.rank),
+      };
+    }
+
+    const standings = await loadChallengeStandings(ctx, challenge, joined.map(p => p.userId));
+
+    return {
+      challenge,
+      unit: CHALLENGE_METRIC_UNITS[challenge.metric],
+      live: true,
+      invited,
+      entries: standings.map(s => ({ ...s, isMe: s.userId === args.userId })),
+    };
+  },
+});
@@ -0,0 +1,120 @@
+import { mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { verifyAuthenticatedUser } from "./utils/accessControl";
+import { validateWorkoutPlan } from "./planValidator";
+import { getLatestRevisionNumber, recordPlanRevision } from "./utils/planRevisions";
+import {
+  applyChatAction,
+  diffWeeklyPlans,
+  getNewValidationErrors,
+  isChatActionName,
+} from "./utils/chatActions";
+
+/**
+ * Apply a chat coach action to the plan as one validated write
+ * The same edit the chat previewed is recomputed here against the current plan,
+ * and rejected if it introduces validation errors.
+ */
+export const applyCoachAction = mutation({
+  args: {
+    userId: v.string(),
+    planId: v.id("workoutPlans"),
+    action: v.string(),
+    args: v.any(),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const plan = await ctx.db.get(args.planId);
+    if (!plan || plan.userId !== args.userId) {
+      throw new Error("Plan not found or access denied");
+    }
+    if (!isChatActionName(args.action)) {
+      throw new Error(`Unknown coach action: ${args.action}`);
+    }
+
+    // ChatActionError messages are user-facing and propagate as-is
+    const result = applyChatAction(plan.weeklyPlan, args.action, args.args || {});
+
+    const before = validateWorkoutPlan({ name: plan.name, weeklyPlan: plan.weeklyPlan });
+    const after = validateWorkoutPlan({ name: plan.name, weeklyPlan: result.weeklyPlan });
+    const newErrors = getNewValidationErrors(before.errors, after.errors);
+    if (newErrors.length > 0) {
+      throw new Error(`This change would break your plan: ${newErrors[0]}`);
+    }
+
+    await ctx.db.patch(args.planId, { weeklyPlan: result.weeklyPlan });
+    await recordPlanRevision(ctx, {
+      userId: args.userId,
+      planId: args.planId,
+      weeklyPlan: result.weeklyPlan,
+      previousWeeklyPlan: plan.weeklyPlan,
+      author: "chat",
+      summary: result.summary,
+    });
+
+    const editId = await ctx.db.insert("chatPlanEdits", {
+      userId: args.userId,
+      planId: args.planId,
+      action: args.action,
+      args: args.args || {},
+      summary: result.summary,
+      previousWeeklyPlan: plan.weeklyPlan,
+      appliedRevision: await getLatestRevisionNumber(ctx, args.planId),
+      appliedAt: Date.now(),
+      undoneAt: null,
+    });
+
+    return {
+      editId,
+      summary: result.summary,
+      changes: diffWeeklyPlans(plan.weeklyPlan, result.weeklyPlan),
+      warnings: after.warnings,
+    };
+  },
+});
+
+/**
+ * Undo a chat coach edit (one tap in the chat)
+ * Only allowed while the edit is still the plan's latest revision.
+ */
+export const undoCoachAction = mutation({
+  args: {
+    userId: v.string(),
+    editId: v.id("chatPlanEdits"),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const edit = await ctx.db.get(args.editId);
+    if (!edit || edit.userId !== args.userId) {
+      throw new Error("Edit not found or access denied");
+    }
+    if (edit.undoneAt !== null) {
+      throw new Error("This change was already undone");
+    }
+
+    const plan = await ctx.db.get(edit.planId);
+    if (!plan || plan.userId !== args.userId) {
+      throw new Error("Plan not found or access denied");
+    }
+    if (await getLatestRevisionNumber(ctx, edit.planId) !== edit.appliedRevision) {
+      throw new Error("Your plan has changed since this edit - undo the later changes first");
+    }
+
+    await ctx.db.patch(edit.planId, { weeklyPlan: edit.previousWeeklyPlan });
+    await recordPlanRevision(ctx, {
+      userId: args.userId,
+      planId: edit.planId,
+      weeklyPlan: edit.previousWeeklyPlan,
+      previousWeeklyPlan: plan.weeklyPlan,
+      author: "chat",
+      summary: `Undid: ${edit.summary}`,
+    });
+    await ctx.db.patch(args.editId, { undoneAt: Date.now() });
+
+    return { summary: edit.summary };
+  },
+});
@@ -0,0 +1,435 @@
+import { v } from "convex/values";
+import { mutation } from "./_generated/server";
+import { verifyAuthenticatedUser, verifyCoachPermission } from "./utils/accessControl";
+import { validateWorkoutPlan } from "./planValidator";
+import { recordPlanRevision } from "./utils/planRevisions";
+import { getNewValidationErrors } from "./utils/chatActions";
+import { executeWithRollback } from "./utils/transactionHelpers";
+import { DEFAULT_COACH_PERMISSIONS } from "./utils/coaching";
+import { MAX_ATHLETES_PER_COACH, MAX_COACH_COMMENT_LENGTH } from "./utils/constants";
+
+const permissions = v.object({
+  viewLogs: v.boolean(),
+  viewHealthMetrics: v.boolean(),
+  editPlans: v.boolean(),
+});
+
+/**
+ * Turn coach mode on or off for the user
+ * Turning it off suspends access to every athlete (links are kept for re-enabling)
+ */
+export const setCoachMode = mutation({
+  args: {
+    userId: v.string(),
+    enabled: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+    if (user.role === "admin") {
+      throw new Error("Admin accounts can't switch to coach mode");
+    }
+
+    await ctx.db.patch(user._id, { role: args.enabled ? "coach" : "user" });
+
+    return { success: true, role: args.enabled ? "coach" : "user" };
+  },
+});
+
+/**
+ * Invite an athlete by user code
+ * Creates a PENDING link - the coach sees nothing until the athlete accepts
+ */
+export const inviteAthlete = mutation({
+  args: {
+    userId: v.string(),
+    athleteCode: v.string(),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const coach = await ctx.db
+      .query("users")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .first();
+
+    if (coach?.role !== "coach") {
+      throw new Error("Turn on coach mode to invite athletes");
+    }
+
+    const code = args.athleteCode.trim().toUpperCase();
+    const athlete = await ctx.db
+      .query("users")
+      .withIndex("by_userCode", (q) => q.eq("userCode", code))
+      .first();
+
+    if (!athlete) {
+      throw new Error("User code not found");
+    }
+    if (athlete.userId === args.userId) {
+      throw new Error("You can't coach yourself");
+    }
+
+    const links = await ctx.db
+      .query("coachAthletes")
+      .withIndex("by_coachId", (q) => q.eq("coachId", args.userId))
+      .collect();
+
+    const existing = links.find(link => link.athleteId === athlete.userId);
+    if (existing?.status === "active") {
+      throw new Error("You already coach this athlete");
+    }
+    if (existing?.status === "pending") {
+      throw new Error("Invite already sent");
+    }
+    if (links.filter(link => link.status === "active" || link.status === "pending").length >= MAX_ATHLETES_PER_COACH) {
+      throw new Error(`You can coach up to ${MAX_ATHLETES_PER_COACH} athletes`);
+    }
+
+    const now = new Date().toISOString();
+
+    // Declined or revoked links are re-opened - the athlete has to accept again
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        status: "pending",
+        permissions: DEFAULT_COACH_PERMISSIONS,
+        invitedAt: now,
+        respondedAt: null,
+        revokedAt: null,
+      });
+    } else {
+      await ctx.db.insert("coachAthletes", {
+        coachId: args.userId,
+        athleteId: athlete.userId,
+        status: "pending",
+        permissions: DEFAULT_COACH_PERMISSIONS,
+        invitedAt: now,
+        respondedAt: null,
+        revokedAt: null,
+      });
+    }
+
+    await ctx.db.insert("buddyNotifications", {
+      userId: athlete.userId,
+      triggeredBy: args.userId,
+      type: "coach_invite",
+      relatedPlanId: null,
+      relatedShareCode: null,
+      message: "wants to coach you - review what they can see in Profile › Coaching",
+      createdAt: now,
+      read: false,
+      actionTaken: false
+    });
+
+    return { success: true, athleteCode: athlete.userCode, status: "pending" };
+  },
+});
+
+/**
+ * Accept or decline a coach's invite
+ * Accepting grants the chosen permissions (all by default)
+ */
+export const respondToCoachInvite = mutation({
+  args: {
+    userId: v.string(),
+    coachId: v.string(),
+    accept: v.boolean(),
+    permissions: v.optional(permissions),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const link = await ctx.db
+      .query("coachAthletes")
+      .withIndex("by_pair", (q) => q.eq("coachId", args.coachId).eq("athleteId", args.userId))
+      .first();
+
+    if (!link) {
+      throw new Error("Coach invite not found");
+    }
+    if (link.status !== "pending") {
+      throw new Error("You've already responded to this invite");
+    }
+
+    await ctx.db.patch(link._id, {
+      status: args.accept ? "active" : "declined",
+      permissions: args.permissions ?? DEFAULT_COACH_PERMISSIONS,
+      respondedAt: new Date().toISOString(),
+    });
+
+    // Mark the invite notification as handled
+    const invite = await ctx.db
+      .query("buddyNotifications")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .filter((q) => q.and(
+        q.eq(q.field("type"), "coach_invite"),
+        q.eq(q.field("triggeredBy"), args.coachId),
+        q.eq(q.field("actionTaken"), false)
+      ))
+      .first();
+
+    if (invite) {
+      await ctx.db.patch(invite._id, { read: true, actionTaken: true });
+    }
+
+    return { success: true };
+  },
+});
+
+/**
+ * Change what an active coach can see or edit (athlete only)
+ */
+export const updateCoachPermissions = mutation({
+  args: {
+    userId: v.string(),
+    coachId: v.string(),
+    permissions,
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const link = await ctx.db
+      .query("coachAthletes")
+      .withIndex("by_pair", (q) => q.eq("coachId", args.coachId).eq("athleteId", args.userId))
+      .first();
+
+    if (!link || link.status !== "active") {
+      throw new Error("Coach not found");
+    }
+
+    await ctx.db.patch(link._id, { permissions: args.permissions });
+
+    return { success: true };
+  },
+});
+
+/**
+ * End a coaching link
+ * The athlete revokes their coach's access; a coach can also drop an athlete.
+ * Comments and plans the coach assigned stay with the athlete.
+ */
+export const revokeCoachAccess = mutation({
+  args: {
+    userId: v.string(),
+    linkId: v.id("coachAthletes"),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const link = await ctx.db.get(args.linkId);
+    if (!link || (link.athleteId !== args.userId && link.coachId !== args.userId)) {
+      throw new Error("Coaching link not found");
+    }
+    if (link.status === "revoked" || link.status === "declined") {
+      return { success: true };
+    }
+
+    await ctx.db.patch(link._id, {
+      status: "revoked",
+      revokedAt: new Date().toISOString(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Give an athlete a copy of one of the coach's plans
+ */
+export const assignAthletePlan = mutation({
+  args: {
+    userId: v.string(),
+    athleteId: v.string(),
+    sourcePlanId: v.id("workoutPlans"),
+    setActive: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    // SECURITY: Athlete must have granted plan editing
+    await verifyCoachPermission(ctx, args.userId, args.athleteId, "editPlans");
+
+    const source = await ctx.db.get(args.sourcePlanId);
+    if (!source || source.userId !== args.userId) {
+      throw new Error("Plan not found or unauthorized");
+    }
+
+    const validation = validateWorkoutPlan({ name: source.name, weeklyPlan: source.weeklyPlan });
+    if (!validation.valid) {
+      throw new Error(`This plan can't be assigned: ${validation.errors[0]}`);
+    }
+
+    // TRANSACTION SAFETY: New plan and active-plan switch change together
+    return await executeWithRollback(ctx.db, async (tracker) => {
+      const planId = await ctx.db.insert("workoutPlans", {
+        userId: args.athleteId,
+        name: source.name,
+        weeklyPlan: source.weeklyPlan,
+        dailyRoutine: source.dailyRoutine ?? null,
+        createdAt: new Date().toISOString()
+      });
+      tracker.trackInsert("workoutPlans", planId);
+
+      await recordPlanRevision(ctx, {
+        userId: args.athleteId,
+        planId,
+        weeklyPlan: source.weeklyPlan,
+        author: "coach",
+        summary: "Assigned by your coach",
+      });
+
+      if (args.setActive) {
+        const athlete = await ctx.db
+          .query("users")
+          .withIndex("by_userId", (q) => q.eq("userId", args.athleteId))
+          .first();
+
+        if (athlete) {
+          await ctx.db.patch(athlete._id, { activePlanId: planId });
+          tracker.trackUpdate("users", athlete._id, { activePlanId: athlete.activePlanId });
+        }
+      }
+
+      return { planId };
+    });
+  },
+});
+
+/**
+ * Edit an athlete's plan
+ * Rejected if the edit introduces validation errors; recorded as a "coach" revision
+ * so the athlete can see and roll back the change.
+ */
+export const updateAthletePlan = mutation({
+  args: {
+    userId: v.string(),
+    athleteId: v.string(),
+    planId: v.id("workoutPlans"),
+    name: v.optional(v.string()),
+    weeklyPlan: v.array(v.any()),
+    summary: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    // SECURITY: Athlete must have granted plan editing
+    await verifyCoachPermission(ctx, args.userId, args.athleteId, "editPlans");
+
+    const plan = await ctx.db.get(args.planId);
+    if (!plan || plan.userId !== args.athleteId) {
+      throw new Error("Plan not found or unauthorized");
+    }
+
+    const name = args.name?.trim() || plan.name;
+    const before = validateWorkoutPlan({ name: plan.name, weeklyPlan: plan.weeklyPlan });
+    const after = validateWorkoutPlan({ name, weeklyPlan: args.weeklyPlan });
+    const newErrors = getNewValidationErrors(before.errors, after.errors);
+    if (newErrors.length > 0) {
+      throw new Error(`This change would break the plan: ${newErrors[0]}`);
+    }
+
+    await ctx.db.patch(args.planId, { name, weeklyPlan: args.weeklyPlan });
+    await recordPlanRevision(ctx, {
+      userId: args.athleteId,
+      planId: args.planId,
+      weeklyPlan: args.weeklyPlan,
+      previousWeeklyPlan: plan.weeklyPlan,
+      author: "coach",
+      summary: args.summary?.trim() || "Edited by your coach",
+    });
+
+    return { success: true, warnings: after.warnings };
+  },
+});
+
+/**
+ * Comment on one of an athlete's logged sessions
+ */
+export const addSessionComment = mutation({
+  args: {
+    userId: v.string(),
+    workoutLogId: v.id("workoutLogs"),
+    text: v.string(),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const log = await ctx.db.get(args.workoutLogId);
+    if (!log) {
+      throw new Error("Workout log not found");
+    }
+
+    // SECURITY: Athlete must have shared their logs
+    await verifyCoachPermission(ctx, args.userId, log.userId, "viewLogs");
+
+    const text = args.text.trim();
+    if (!text) {
+      throw new Error("Comment can't be empty");
+    }
+    if (text.length > MAX_COACH_COMMENT_LENGTH) {
+      throw new Error(`Comments are limited to ${MAX_COACH_COMMENT_LENGTH} characters`);
+    }
+
+    const now = new Date().toISOString();
+    const commentId = await ctx.db.insert("coachComments", {
+      coachId: args.userId,
+      athleteId: log.userId,
+      workoutLogId: args.workoutLogId,
+      text,
+      createdAt: now,
+    });
+
+    await ctx.db.insert("buddyNotifications", {
+      userId: log.userId,
+      triggeredBy: args.userId,
+      type: "coach_comment",
+      relatedPlanId: null,
+      relatedShareCode: null,
+      message: `commented on ${log.focus}: ${text.length > 80 ? `${text.slice(0, 77)}...` : text}`,
+      createdAt: now,
+      read: false,
+      actionTaken: true
+    });
+
+    return { commentId };
+  },
+});
+
+/**
+ * Delete a comment (its author only)
+ */
+export const deleteSessionComment = mutation({
+  args: {
+    userId: v.string(),
+    commentId: v.id("coachComments"),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const comment = await ctx.db.get(args.commentId);
+    if (!comment || comment.coachId !== args.userId) {
+      throw new Error("Comment not found or unauthorized");
+    }
+
+    await ctx.db.delete(args.commentId);
+
+    return { success: true };
+  },
+});
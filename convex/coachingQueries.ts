@@ -0,0 +1,247 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { isAuthenticatedUser } from "./utils/accessControl";
+import { computeAdherence } from "./utils/coaching";
+import { COACH_ADHERENCE_WEEKS } from "./utils/constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECENT_LOG_LIMIT = 20;
+const HEALTH_METRICS_DAYS = 30;
+const RECENT_COMMENT_LIMIT = 5;
+
+/**
+ * Coach dashboard: coach mode state and every pending/active athlete
+ * Adherence is only included where the athlete shares their logs
+ */
+export const getCoachDashboard = query({
+  args: {
+    userId: v.string()
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .first();
+
+    const isCoach = user?.role === "coach";
+    if (!isCoach) {
+      return { isCoach, canBecomeCoach: user?.role !== "admin", athletes: [] };
+    }
+
+    const links = await ctx.db
+      .query("coachAthletes")
+      .withIndex("by_coachId", (q) => q.eq("coachId", args.userId))
+      .filter((q) => q.or(q.eq(q.field("status"), "active"), q.eq(q.field("status"), "pending")))
+      .collect();
+
+    const since = new Date(Date.now() - COACH_ADHERENCE_WEEKS * 7 * DAY_MS).toISOString();
+
+    const athletes = await Promise.all(
+      links.map(async (link) => {
+        const athlete = await ctx.db
+          .query("users")
+          .withIndex("by_userId", (q) => q.eq("userId", link.athleteId))
+          .first();
+
+        let adherence = null;
+        if (link.status === "active" && link.permissions.viewLogs) {
+          const [plan, windowLogs, lastLog] = await Promise.all([
+            athlete?.activePlanId ? ctx.db.get(athlete.activePlanId) : null,
+            ctx.db
+              .query("workoutLogs")
+              .withIndex("by_userId_date", (q) => q.eq("userId", link.athleteId).gte("date", since))
+              .collect(),
+            ctx.db
+              .query("workoutLogs")
+              .withIndex("by_userId_date", (q) => q.eq("userId", link.athleteId))
+              .order("desc")
+              .first(),
+          ]);
+
+          adherence = computeAdherence(
+            plan?.weeklyPlan ?? null,
+            lastLog ? [...windowLogs, lastLog] : windowLogs,
+            COACH_ADHERENCE_WEEKS
+          );
+        }
+
+        return {
+          linkId: link._id,
+          athleteId: link.athleteId,
+          athleteCode: athlete?.userCode ?? null,
+          status: link.status,
+          permissions: link.permissions,
+          invitedAt: link.invitedAt,
+          adherence,
+        };
+      })
+    );
+
+    return {
+      isCoach,
+      canBecomeCoach: true,
+      athletes: athletes.sort((a, b) => {
+        if (a.status !== b.status) return a.status === "active" ? -1 : 1;
+        return (a.adherence?.percent ?? 101) - (b.adherence?.percent ?? 101); // Least adherent first
+      }),
+    };
+  },
+});
+
+/**
+ * One athlete, as their coach sees them
+ * Each section is null unless the athlete granted the matching permission
+ */
+export const getAthleteDetail = query({
+  args: {
+    userId: v.string(),
+    athleteId: v.string()
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
+    const [coach, link, athlete] = await Promise.all([
+      ctx.db
+        .query("users")
+        .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+        .first(),
+      ctx.db
+        .query("coachAthletes")
+        .withIndex("by_pair", (q) => q.eq("coachId", args.userId).eq("athleteId", args.athleteId))
+        .first(),
+      ctx.db
+        .query("users")
+        .withIndex("by_userId", (q) => q.eq("userId", args.athleteId))
+        .first(),
+    ]);
+
+    // SECURITY: Only a coach the athlete accepted (and hasn't revoked)
+    if (coach?.role !== "coach" || !link || link.status !== "active" || !athlete) {
+      return null;
+    }
+
+    const { viewLogs, viewHealthMetrics, editPlans } = link.permissions;
+    const activePlan = (viewLogs || editPlans) && athlete.activePlanId ? await ctx.db.get(athlete.activePlanId) : null;
+
+    let logs = null;
+    let adherence = null;
+    if (viewLogs) {
+      const since = new Date(Date.now() - COACH_ADHERENCE_WEEKS * 7 * DAY_MS).toISOString();
+      const [recent, windowLogs] = await Promise.all([
+        ctx.db
+          .query("workoutLogs")
+          .withIndex("by_userId_date", (q) => q.eq("userId", args.athleteId))
+          .order("desc")
+          .take(RECENT_LOG_LIMIT),
+        ctx.db
+          .query("workoutLogs")
+          .withIndex("by_userId_date", (q) => q.eq("userId", args.athleteId).gte("date", since))
+          .collect(),
+      ]);
+
+      const comments = await Promise.all(
+        recent.map(log =>
+          ctx.db
+            .query("coachComments")
+            .withIndex("by_workoutLogId", (q) => q.eq("workoutLogId", log._id))
+            .collect()
+        )
+      );
+
+      logs = recent.map((log, idx) => ({
+        _id: log._id,
+        date: log.date,
+        focus: log.focus,
+        durationMinutes: log.durationMinutes,
+        exercises: log.exercises,
+        comments: comments[idx]
+          .filter(c => c.coachId === args.userId)
+          .map(c => ({ _id: c._id, text: c.text, createdAt: c.createdAt })),
+      }));
+      adherence = computeAdherence(activePlan?.weeklyPlan ?? null, [...windowLogs, ...recent.slice(0, 1)], COACH_ADHERENCE_WEEKS);
+    }
+
+    let healthMetrics = null;
+    if (viewHealthMetrics) {
+      const startDate = new Date(Date.now() - HEALTH_METRICS_DAYS * DAY_MS).toISOString().split("T")[0];
+      healthMetrics = await ctx.db
+        .query("healthMetrics")
+        .withIndex("by_userId_date", (q) => q.eq("userId", args.athleteId).gte("date", startDate))
+        .order("desc")
+        .collect();
+    }
+
+    return {
+      linkId: link._id,
+      athleteCode: athlete.userCode ?? null,
+      permissions: link.permissions,
+      activePlan: activePlan ? { _id: activePlan._id, name: activePlan.name, weeklyPlan: activePlan.weeklyPlan } : null,
+      adherence,
+      logs,
+      healthMetrics,
+    };
+  },
+});
+
+/**
+ * The athlete's side: coaches with pending or active access, plus their latest comments
+ */
+export const getMyCoaches = query({
+  args: {
+    userId: v.string()
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns empty if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return [];
+    }
+
+    const links = await ctx.db
+      .query("coachAthletes")
+      .withIndex("by_athleteId", (q) => q.eq("athleteId", args.userId))
+      .filter((q) => q.or(q.eq(q.field("status"), "active"), q.eq(q.field("status"), "pending")))
+      .collect();
+
+    const comments = await ctx.db
+      .query("coachComments")
+      .withIndex("by_athleteId", (q) => q.eq("athleteId", args.userId))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      links.map(async (link) => {
+        const coach = await ctx.db
+          .query("users")
+          .withIndex("by_userId", (q) => q.eq("userId", link.coachId))
+          .first();
+
+        const coachComments = comments.filter(c => c.coachId === link.coachId).slice(0, RECENT_COMMENT_LIMIT);
+        const commentLogs = await Promise.all(coachComments.map(c => ctx.db.get(c.workoutLogId)));
+
+        return {
+          linkId: link._id,
+          coachId: link.coachId,
+          coachCode: coach?.userCode ?? null,
+          status: link.status,
+          permissions: link.permissions,
+          invitedAt: link.invitedAt,
+          recentComments: coachComments.map((c, idx) => ({
+            _id: c._id,
+            text: c.text,
+            createdAt: c.createdAt,
+            logFocus: commentLogs[idx]?.focus ?? null,
+            logDate: commentLogs[idx]?.date ?? null,
+          })),
+        };
+      })
+    );
+  },
+});
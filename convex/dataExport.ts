@@ -0,0 +1,100 @@
+/**
+ * Data Export
+ *
+ * Reads behind the export center on ProfilePage. Logs and health metrics grow
+ * without bound, so they're read page by page and the client assembles the
+ * full export (services/dataExportService.ts collectPages). Formatting (CSV,
+ * versioned JSON bundle, printable plan) happens client-side too.
+ */
+
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { isAuthenticatedUser } from "./utils/accessControl";
+import { MAX_PAGE_SIZE } from "./utils/constants";
+
+/**
+ * Plans, personal records and the active plan id for one user
+ */
+export const getExportSummary = query({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
+    const [user, plans, personalRecords] = await Promise.all([
+      ctx.db
+        .query("users")
+        .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+        .first(),
+      ctx.db
+        .query("workoutPlans")
+        .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+        .collect(),
+      ctx.db
+        .query("personalRecords")
+        .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+        .collect(),
+    ]);
+
+    return {
+      activePlanId: user?.activePlanId ?? null,
+      plans,
+      personalRecords,
+    };
+  },
+});
+
+/**
+ * One page of workout logs, oldest first
+ */
+export const getExportWorkoutLogs = query({
+  args: {
+    userId: v.string(),
+    limit: v.optional(v.number()),
+    cursor: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns empty page if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+
+    return await ctx.db
+      .query("workoutLogs")
+      .withIndex("by_userId_date", (q) => q.eq("userId", args.userId))
+      .order("asc")
+      .paginate({
+        numItems: Math.min(args.limit ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE),
+        cursor: args.cursor || null,
+      });
+  },
+});
+
+/**
+ * One page of health metrics
+ */
+export const getExportHealthMetrics = query({
+  args: {
+    userId: v.string(),
+    limit: v.optional(v.number()),
+    cursor: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns empty page if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+
+    return await ctx.db
+      .query("healthMetrics")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .paginate({
+        numItems: Math.min(args.limit ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE),
+        cursor: args.cursor || null,
+      });
+  },
+});
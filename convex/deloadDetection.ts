@@ -0,0 +1,80 @@
+/**
+ * Deload Detection
+ *
+ * Gathers the last few weeks of logs, RPE, completion and readiness for a
+ * plan and runs the performance-driven deload check (utils/deloadDetection.ts).
+ * Called by generateNextWeekForPlan before it builds the next week.
+ */
+
+import { internalQuery } from "./_generated/server";
+import { v } from "convex/values";
+import {
+  assessDeloadNeed,
+  DeloadAssessment,
+  DELOAD_LOOKBACK_DAYS,
+  MIN_WEEKS_BETWEEN_DELOADS,
+} from "./utils/deloadDetection";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Should the week after `currentWeek` be a deload, based on how training is going?
+ */
+export const getDeloadAssessment = internalQuery({
+  args: {
+    userId: v.string(),
+    planId: v.id("workoutPlans"),
+    currentWeek: v.number(),
+  },
+  handler: async (ctx, args): Promise<DeloadAssessment> => {
+    const plan = await ctx.db.get(args.planId);
+    if (!plan || plan.userId !== args.userId) {
+      return { action: "none", signals: [], reason: null };
+    }
+
+    const weeks = await ctx.db
+      .query("weekHistory")
+      .withIndex("by_userId_planId", (q) => q.eq("userId", args.userId).eq("planId", args.planId))
+      .order("desc")
+      .take(MIN_WEEKS_BETWEEN_DELOADS);
+
+    // Too soon after the last deload (the current week counts as one if flagged)
+    const recentDeload = plan.periodization?.is_deload ||
+      weeks.some(w => w.isDeloadWeek && args.currentWeek - w.weekNumber < MIN_WEEKS_BETWEEN_DELOADS);
+    if (recentDeload) {
+      return { action: "none", signals: [], reason: null };
+    }
+
+    const now = Date.now();
+    const since = new Date(now - DELOAD_LOOKBACK_DAYS * DAY_MS).toISOString();
+
+    const [logs, history, performances, metrics] = await Promise.all([
+      ctx.db
+        .query("workoutLogs")
+        .withIndex("by_userId_date", (q) => q.eq("userId", args.userId).gte("date", since))
+        .collect(),
+      ctx.db
+        .query("exerciseHistory")
+        .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+        .collect(),
+      ctx.db
+        .query("exercisePerformance")
+        .withIndex("by_user", (q) => q.eq("user_id", args.userId))
+        .filter((q) => q.gte(q.field("timestamp"), since))
+        .collect(),
+      ctx.db
+        .query("healthMetrics")
+        .withIndex("by_userId_date", (q) => q.eq("userId", args.userId).gte("date", since.split("T")[0]))
+        .collect(),
+    ]);
+
+    return assessDeloadNeed({
+      logs,
+      trackedExercises: new Set(history.filter(h => h.last_logged >= since).map(h => h.exerciseName)),
+      performances,
+      weeks,
+      metrics,
+      now,
+    });
+  },
+});
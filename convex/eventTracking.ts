@@ -1,5 +1,6 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
+import { getUserIdFromAuth, isAuthenticatedUser, verifyAdmin, verifyAuthenticatedUser, verifySelfOrAdmin } from "./utils/accessControl";
 
 /**
  * Track a user event for analytics
@@ -41,6 +42,9 @@ export const trackEvent = mutation({
     })),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     const timestamp = new Date().toISOString();
     const createdAt = Date.now();
 
@@ -80,6 +84,12 @@ export const trackEventBatch = mutation({
     })),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Every event in the batch must belong to the authenticated user
+    const userId = await getUserIdFromAuth(ctx);
+    if (args.events.some((event) => event.userId !== userId)) {
+      throw new Error("Unauthorized: User ID mismatch");
+    }
+
     const timestamp = new Date().toISOString();
     const createdAt = Date.now();
 
@@ -111,6 +121,11 @@ export const getUserEvents = query({
     eventType: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns empty if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return [];
+    }
+
     const limit = args.limit || 100;
 
     let events;
@@ -145,6 +160,9 @@ export const getEventsByType = query({
     endDate: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Cross-user analytics are admin-only
+    await verifyAdmin(ctx);
+
     const limit = args.limit || 1000;
 
     let events = await ctx.db
@@ -174,6 +192,9 @@ export const getSessionEvents = query({
     sessionId: v.string(),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Cross-user analytics are admin-only
+    await verifyAdmin(ctx);
+
     const events = await ctx.db
       .query("events")
       .withIndex("by_sessionId", (q) => q.eq("sessionId", args.sessionId))
@@ -194,6 +215,9 @@ export const getEventCounts = query({
     endDate: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Own counts for any signed-in user, everyone's counts for admins only
+    await verifySelfOrAdmin(ctx, args.userId);
+
     let events;
 
     if (args.userId) {
@@ -233,6 +257,9 @@ export const deleteOldEvents = mutation({
     olderThanDays: v.number(), // Delete events older than X days
   },
   handler: async (ctx, args) => {
+    // SECURITY: Data retention runs are admin-only
+    await verifyAdmin(ctx);
+
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - args.olderThanDays);
     const cutoffTimestamp = cutoffDate.toISOString();
@@ -0,0 +1,107 @@
+/**
+ * Exercise Substitutes
+ *
+ * Deterministic swap suggestions for the session tracker. Ranking lives in
+ * convex/utils/exerciseSubstitution.ts; the client caches the per-session
+ * result (services/substitutionService.ts) so the Swap sheet works offline.
+ */
+
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { GenericQueryCtx } from "convex/server";
+import { DataModel, Doc } from "./_generated/dataModel";
+import { isAuthenticatedUser } from "./utils/accessControl";
+import {
+  buildSubstituteUserContext,
+  findExerciseSubstitutes,
+  ExerciseSubstitute,
+} from "./utils/exerciseSubstitution";
+
+const MAX_SESSION_EXERCISES = 30;
+const SESSION_SUBSTITUTES_PER_EXERCISE = 6;
+
+async function loadUserRankingInputs(ctx: GenericQueryCtx<DataModel>, userId: string) {
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .first();
+
+  const preferenceDocs = await ctx.db
+    .query("userExercisePreferences")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .collect();
+
+  return {
+    context: buildSubstituteUserContext(user),
+    preferences: new Map<string, Doc<"userExercisePreferences">>(
+      preferenceDocs.map((pref) => [pref.exerciseName, pref])
+    ),
+  };
+}
+
+/**
+ * Ranked substitutes for one exercise (null if not authorized)
+ */
+export const getSubstitutes = query({
+  args: {
+    userId: v.string(),
+    exerciseName: v.string(),
+    exclude: v.optional(v.array(v.string())),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
+    const { context, preferences } = await loadUserRankingInputs(ctx, args.userId);
+    const result = await findExerciseSubstitutes(ctx, {
+      exerciseName: args.exerciseName,
+      context,
+      preferences,
+      exclude: args.exclude,
+      limit: Math.min(Math.max(args.limit ?? 8, 1), 20),
+    });
+
+    return {
+      exercise_name: args.exerciseName,
+      movement_pattern: result.movementPattern,
+      substitutes: result.substitutes,
+    };
+  },
+});
+
+/**
+ * Substitutes for every exercise in a session, keyed by exercise name
+ * Fetched when the session starts so the Swap sheet has a cached subset offline.
+ */
+export const getSessionSubstitutes = query({
+  args: {
+    userId: v.string(),
+    exerciseNames: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
+    const exerciseNames = Array.from(new Set(args.exerciseNames)).slice(0, MAX_SESSION_EXERCISES);
+    const { context, preferences } = await loadUserRankingInputs(ctx, args.userId);
+
+    const substitutesByExercise: Record<string, ExerciseSubstitute[]> = {};
+    for (const exerciseName of exerciseNames) {
+      const result = await findExerciseSubstitutes(ctx, {
+        exerciseName,
+        context,
+        preferences,
+        exclude: exerciseNames,
+        limit: SESSION_SUBSTITUTES_PER_EXERCISE,
+      });
+      substitutesByExercise[exerciseName] = result.substitutes;
+    }
+
+    return substitutesByExercise;
+  },
+});
@@ -6,6 +6,7 @@
 
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
+import { getUserIdFromAuth, isAuthenticatedUser, verifyAuthenticatedUser } from "./utils/accessControl";
 
 /**
  * Log health metrics for a specific date
@@ -58,6 +59,9 @@ export const logHealthMetrics = mutation({
     notes: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     // Check if entry exists for this date
     const existing = await ctx.db
       .query("healthMetrics")
@@ -119,6 +123,11 @@ export const getMetricsForDate = query({
     date: v.string(), // YYYY-MM-DD
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
     const metrics = await ctx.db
       .query("healthMetrics")
       .withIndex("by_userId_date", (q) => q.eq("userId", args.userId).eq("date", args.date))
@@ -137,6 +146,11 @@ export const getMetricsHistory = query({
     days: v.optional(v.number()), // Default 30 days
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns empty if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return [];
+    }
+
     const days = args.days ?? 30;
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
@@ -161,6 +175,11 @@ export const getLatestMetrics = query({
     userId: v.string(),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
     const latest = await ctx.db
       .query("healthMetrics")
       .withIndex("by_userId", (q) => q.eq("userId", args.userId))
@@ -180,6 +199,11 @@ export const getMetricsSummary = query({
     days: v.optional(v.number()), // Default 30 days
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
     const days = args.days ?? 30;
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
@@ -238,6 +262,13 @@ export const deleteMetrics = mutation({
     id: v.id("healthMetrics"),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Only the owner can delete their entry
+    const userId = await getUserIdFromAuth(ctx);
+    const entry = await ctx.db.get(args.id);
+    if (!entry || entry.userId !== userId) {
+      throw new Error("Unauthorized: You don't own this health metrics entry");
+    }
+
     await ctx.db.delete(args.id);
     return { success: true };
   },
@@ -260,6 +291,9 @@ export const updateLocationData = mutation({
     lastUpdated: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     const user = await ctx.db
       .query("users")
       .withIndex("by_userId", (q) => q.eq("userId", args.userId))
@@ -308,6 +342,9 @@ export const updateDeviceData = mutation({
     lastUpdated: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     const user = await ctx.db
       .query("users")
       .withIndex("by_userId", (q) => q.eq("userId", args.userId))
@@ -0,0 +1,277 @@
+/**
+ * Workout History Import
+ *
+ * Brings past logs from Strong, Hevy or the generic CSV format into
+ * `workoutLogs`. Parsing and lbs→kg conversion happen on the client
+ * (services/workoutHistoryImportService.ts); this module resolves exercise
+ * names and writes the logs in batches, backfilling exerciseHistory,
+ * personal records and the streak.
+ */
+
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { GenericMutationCtx, GenericQueryCtx } from "convex/server";
+import { DataModel } from "./_generated/dataModel";
+import { verifyAuthenticatedUser, isAuthenticatedUser } from "./utils/accessControl";
+import { normalizeExerciseName } from "./sportKnowledge/exerciseMappings";
+import { recordPersonalRecords } from "./utils/personalRecords";
+import { getLocalDay } from "./utils/localCalendar";
+import { applyMonthlyFreezeGrant, bridgeStreakGap, getStreakCalendar } from "./utils/streaks";
+
+const MAX_RESOLVE_NAMES = 200;
+const MAX_IMPORT_BATCH = 25;
+
+const importedSetValidator = v.union(
+  v.object({
+    set: v.number(),
+    weight: v.number(),
+    reps: v.number(),
+    rpe: v.union(v.number(), v.null()),
+  }),
+  v.object({
+    set: v.number(),
+    duration_s: v.number(),
+  }),
+  v.object({
+    set: v.number(),
+    distance_m: v.number(),
+    rest_s: v.number(),
+  })
+);
+
+const importedWorkoutValidator = v.object({
+  date: v.string(), // ISO start time
+  focus: v.string(),
+  durationMinutes: v.union(v.number(), v.null()),
+  exercises: v.array(
+    v.object({
+      exercise_name: v.string(),
+      sets: v.array(importedSetValidator),
+    })
+  ),
+});
+
+const toKey = (name: string) => name.toLowerCase().trim().replace(/\s+/g, "_");
+
+const toDisplayName = (key: string) =>
+  key.split("_").filter(Boolean).map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(" ");
+
+// Exercise cache first (canonical library), then the user's own history
+async function findKnownExercise(
+  ctx: GenericQueryCtx<DataModel>,
+  userId: string,
+  name: string
+): Promise<string | null> {
+  const keys = [...new Set([toKey(name), toKey(normalizeExerciseName(name))])].filter(Boolean);
+
+  for (const key of keys) {
+    const cached = await ctx.db
+      .query("exerciseCache")
+      .withIndex("by_exerciseName", (q) => q.eq("exercise_name", key))
+      .first();
+    if (cached) return toDisplayName(cached.exercise_name);
+  }
+
+  for (const key of keys) {
+    const history = await ctx.db
+      .query("exerciseHistory")
+      .withIndex("by_userId_exerciseName", (q) => q.eq("userId", userId).eq("exerciseName", key))
+      .first();
+    if (history) return history.exercise_name;
+  }
+
+  return null;
+}
+
+/**
+ * Match imported exercise names against the exercise library
+ * Unmatched names (resolvedName: null) go to the review step on the client
+ */
+export const resolveImportedExercises = query({
+  args: {
+    userId: v.string(),
+    names: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns empty if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return [];
+    }
+
+    const names = [...new Set(args.names)].slice(0, MAX_RESOLVE_NAMES);
+    return Promise.all(
+      names.map(async (name) => ({
+        name,
+        resolvedName: await findKnownExercise(ctx, args.userId, name),
+      }))
+    );
+  },
+});
+
+// Latest set per exercise, same rules as saveExerciseHistory (newer entries win)
+async function backfillExerciseHistory(
+  ctx: GenericMutationCtx<DataModel>,
+  userId: string,
+  workouts: Array<{ date: string; exercises: Array<{ exercise_name: string; sets: any[] }> }>
+) {
+  const latest = new Map<string, { exercise_name: string; weight: number; reps: number; date: string }>();
+
+  for (const workout of workouts) {
+    for (const exercise of workout.exercises) {
+      const weighted = exercise.sets.filter(s => typeof s.weight === "number" && s.weight > 0 && s.reps > 0);
+      if (weighted.length === 0) continue;
+
+      const key = toKey(exercise.exercise_name);
+      const current = latest.get(key);
+      if (current && current.date >= workout.date) continue;
+
+      const lastSet = weighted[weighted.length - 1];
+      latest.set(key, { exercise_name: exercise.exercise_name, weight: lastSet.weight, reps: lastSet.reps, date: workout.date });
+    }
+  }
+
+  for (const [key, entry] of latest) {
+    const existing = await ctx.db
+      .query("exerciseHistory")
+      .withIndex("by_userId_exerciseName", (q) => q.eq("userId", userId).eq("exerciseName", key))
+      .first();
+
+    if (existing && existing.last_logged >= entry.date) continue;
+
+    const historyData = {
+      userId,
+      exerciseName: key,
+      exercise_name: entry.exercise_name,
+      last_weight: entry.weight,
+      last_reps: entry.reps,
+      last_logged: entry.date,
+    };
+
+    if (existing) {
+      await ctx.db.patch(existing._id, historyData);
+    } else {
+      await ctx.db.insert("exerciseHistory", historyData);
+    }
+  }
+}
+
+// Recompute streak counters from every logged day (imports arrive out of order)
+// Same rules as updateStreak: local calendar days, plan rest days bridge gaps. Past
+// gaps can't spend freezes; the current streak survives only if the gap to today bridges.
+async function rebuildStreakFromLogs(ctx: GenericMutationCtx<DataModel>, userId: string) {
+  const logs = await ctx.db
+    .query("workoutLogs")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .collect();
+
+  if (logs.length === 0) return null;
+
+  const calendar = await getStreakCalendar(ctx, userId);
+  const today = getLocalDay(new Date(), calendar.timezone).date;
+  const days = [...new Set(logs.map(log => getLocalDay(new Date(log.date), calendar.timezone).date))].sort();
+
+  let longestStreak = 1;
+  let run = 1;
+  for (let i = 1; i < days.length; i++) {
+    run = bridgeStreakGap(days[i - 1], days[i], calendar.restDays, 0).bridged ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  }
+
+  const existing = await ctx.db
+    .query("streakData")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .first();
+
+  const lastWorkoutDate = days[days.length - 1];
+  const freezeState = applyMonthlyFreezeGrant(existing ?? { streakFreezes: 0 }, calendar.isPremium, today);
+  const alive = bridgeStreakGap(lastWorkoutDate, today, calendar.restDays, freezeState.streakFreezes).bridged;
+
+  const streak = {
+    currentStreak: alive ? run : 0,
+    lastWorkoutDate,
+    totalWorkouts: logs.length,
+  };
+
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      ...streak,
+      longestStreak: Math.max(longestStreak, existing.longestStreak),
+    });
+  } else {
+    await ctx.db.insert("streakData", {
+      userId,
+      ...streak,
+      longestStreak,
+      ...freezeState,
+      lastFreezeUsed: null,
+      weeklyWorkouts: [false, false, false, false, false, false, false],
+    });
+  }
+
+  return streak;
+}
+
+/**
+ * Import a batch of past workouts (oldest first)
+ * Workouts already logged at the same start time are skipped, so a re-run is safe.
+ * Pass `finalBatch: true` on the last call to rebuild the streak.
+ */
+export const importWorkoutHistory = mutation({
+  args: {
+    userId: v.string(),
+    source: v.union(v.literal("strong"), v.literal("hevy"), v.literal("csv")),
+    workouts: v.array(importedWorkoutValidator),
+    finalBatch: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    if (args.workouts.length > MAX_IMPORT_BATCH) {
+      throw new Error(`Import at most ${MAX_IMPORT_BATCH} workouts per batch`);
+    }
+
+    const now = Date.now();
+    const workouts = args.workouts
+      .filter(w => {
+        const time = Date.parse(w.date);
+        return !isNaN(time) && time <= now && w.exercises.length > 0;
+      })
+      .map(w => ({ ...w, date: new Date(w.date).toISOString() }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    let imported = 0;
+    let skipped = args.workouts.length - workouts.length;
+    let personalRecords = 0;
+
+    for (const workout of workouts) {
+      const duplicate = await ctx.db
+        .query("workoutLogs")
+        .withIndex("by_userId_date", (q) => q.eq("userId", args.userId).eq("date", workout.date))
+        .first();
+      if (duplicate) {
+        skipped++;
+        continue;
+      }
+
+      const logId = await ctx.db.insert("workoutLogs", {
+        userId: args.userId,
+        date: workout.date,
+        focus: workout.focus,
+        exercises: workout.exercises,
+        durationMinutes: workout.durationMinutes,
+      });
+
+      const improved = await recordPersonalRecords(ctx, args.userId, logId, workout.date, workout.exercises);
+      // e1RM improves once per formula - count each record once
+      personalRecords += improved.filter(record => record.formula !== "brzycki").length;
+      imported++;
+    }
+
+    await backfillExerciseHistory(ctx, args.userId, workouts);
+
+    const streak = args.finalBatch ? await rebuildStreakFromLogs(ctx, args.userId) : null;
+
+    return { imported, skipped, personalRecords, streak };
+  },
+});
@@ -0,0 +1,47 @@
+import { httpRouter } from "convex/server";
+import { httpAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { generateIcsContent, getTodayInTimezone } from "./utils/icsCalendar";
+
+const http = httpRouter();
+
+/**
+ * Subscribable training calendar: GET /calendar/{feedToken}.ics
+ * Served from the deployment's .convex.site domain.
+ */
+http.route({
+  pathPrefix: "/calendar/",
+  method: "GET",
+  handler: httpAction(async (ctx, request) => {
+    const path = new URL(request.url).pathname;
+    const feedToken = path.slice("/calendar/".length).replace(/\.ics$/, "");
+
+    if (!/^[a-z0-9]{32}$/.test(feedToken)) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const data = await ctx.runQuery(internal.calendarFeed.getCalendarFeedData, { feedToken });
+    if (!data) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const ics = generateIcsContent(data.plan, {
+      times: data.settings,
+      targetDate: data.targetDate,
+      eventName: data.eventName,
+      preferredSessionLength: data.preferredSessionLength,
+      today: getTodayInTimezone(data.settings.timezone),
+    });
+
+    return new Response(ics, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="rebld.ics"',
+        "Cache-Control": "private, max-age=900",
+      },
+    });
+  }),
+});
+
+export default http;
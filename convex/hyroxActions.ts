@@ -15,6 +15,7 @@ import { action } from "./_generated/server";
 import { v } from "convex/values";
 import { api } from "./_generated/api";
 import { loggers } from "./utils/logger";
+import { verifyAuthenticatedUser } from "./utils/accessControl";
 import {
   createDeepSeekClient,
   extractAndParseJSON,
@@ -125,6 +126,9 @@ export const generateHyroxPlan = action({
     forceModel: v.optional(v.union(v.literal("reasoner"), v.literal("chat"))),
   },
   handler: async (ctx, args): Promise<HyroxGenerationResult> => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     const startTime = Date.now();
 
     try {
@@ -497,6 +501,9 @@ export const checkGenerationReadiness = action({
     userId: v.string(),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     // Get profile
     const profile = await ctx.runQuery(api.hyroxQueries.getUserHyroxProfile, {
       userId: args.userId,
@@ -11,6 +11,7 @@
 import { query } from "./_generated/server";
 import { v } from "convex/values";
 import { Id } from "./_generated/dataModel";
+import { isAuthenticatedUser } from "./utils/accessControl";
 import { normalizeExerciseName, categorizeExercise, type HyroxStation } from "./sportKnowledge/exerciseMappings";
 
 // =============================================================================
@@ -65,6 +66,11 @@ function normalizeExperienceLevel(
 export const getUserHyroxProfile = query({
   args: { userId: v.string() },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
     // Get user document
     const user = await ctx.db
       .query("users")
@@ -193,6 +199,11 @@ export const getWeekSummaries = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns empty if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return [];
+    }
+
     let query = ctx.db
       .query("weekSummary")
       .withIndex("by_userId", (q) => q.eq("userId", args.userId));
@@ -227,6 +238,11 @@ export const getLatestWeekSummary = query({
     planId: v.id("workoutPlans"),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
     const summaries = await ctx.db
       .query("weekSummary")
       .withIndex("by_planId", (q) => q.eq("planId", args.planId))
@@ -251,6 +267,11 @@ export const getLatestWeekSummary = query({
 export const hasHyroxProfile = query({
   args: { userId: v.string() },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns false if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return false;
+    }
+
     const user = await ctx.db
       .query("users")
       .withIndex("by_userId", (q) => q.eq("userId", args.userId))
@@ -285,7 +306,8 @@ export const computeAdaptationSignals = query({
   handler: async (ctx, args) => {
     const summary = await ctx.db.get(args.weekSummaryId);
 
-    if (!summary) {
+    // SECURITY: Only the owner can read their week summary (returns null if not auth'd)
+    if (!summary || !await isAuthenticatedUser(ctx, summary.userId)) {
       return null;
     }
 
@@ -421,6 +443,11 @@ export const getPreviousWeekPlan = query({
     currentWeekNumber: v.number(),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
     // For week 1, there is no previous week
     if (args.currentWeekNumber <= 1) {
       return null;
@@ -474,6 +501,11 @@ export const getPreviousWeeksStationsCovered = query({
     currentWeekNumber: v.number(),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns empty if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return [];
+    }
+
     const allStations = new Set<HyroxStation>();
 
     // For week 1, no previous weeks exist
@@ -0,0 +1,379 @@
+import { v } from "convex/values";
+import { mutation } from "./_generated/server";
+import { executeWithRollback } from "./utils/transactionHelpers";
+import { recordPlanRevision } from "./utils/planRevisions";
+import { verifyAdmin, verifyAuthenticatedUser } from "./utils/accessControl";
+import { gradeSubmittedPlan, planToOutline } from "./utils/planGrading";
+import { MARKETPLACE_CATEGORIES, MARKETPLACE_REPORT_HIDE_THRESHOLD } from "./utils/constants";
+
+const difficulty = v.union(v.literal("Beginner"), v.literal("Intermediate"), v.literal("Advanced"));
+
+/**
+ * Publish one of the user's plans to the community marketplace
+ * The plan is snapshotted and graded at publish time
+ */
+export const publishPlan = mutation({
+  args: {
+    userId: v.string(),
+    planId: v.id("workoutPlans"),
+    title: v.string(),
+    category: v.string(),
+    difficulty,
+    isPublic: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const plan = await ctx.db.get(args.planId);
+    if (!plan || plan.userId !== args.userId) {
+      throw new Error("Plan not found or unauthorized");
+    }
+
+    const title = args.title.trim();
+    if (!title) {
+      throw new Error("Give your plan a title");
+    }
+    if (!MARKETPLACE_CATEGORIES.includes(args.category)) {
+      throw new Error(`Unknown category: ${args.category}`);
+    }
+
+    const { athleticGrade, gradeAnalysis } = gradeSubmittedPlan(plan, args.difficulty);
+    const now = new Date().toISOString();
+
+    const submittedPlanId = await ctx.db.insert("userSubmittedPlans", {
+      userId: args.userId,
+      title,
+      originalText: planToOutline(plan),
+      parsedPlan: {
+        name: plan.name,
+        weeklyPlan: plan.weeklyPlan,
+        dailyRoutine: plan.dailyRoutine,
+      },
+      athleticGrade,
+      gradeAnalysis,
+      category: args.category,
+      difficulty: args.difficulty,
+      isPublic: args.isPublic ?? true,
+      likes: 0,
+      copies: 0,
+      sourcePlanId: args.planId,
+      reportCount: 0,
+      hiddenForReview: false,
+      createdAt: now,
+      lastUpdated: now,
+    });
+
+    return { submittedPlanId, athleticGrade };
+  },
+});
+
+/**
+ * Show or hide one of the author's published plans
+ */
+export const setSubmittedPlanVisibility = mutation({
+  args: {
+    userId: v.string(),
+    submittedPlanId: v.id("userSubmittedPlans"),
+    isPublic: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const submitted = await ctx.db.get(args.submittedPlanId);
+    if (!submitted || submitted.userId !== args.userId) {
+      throw new Error("Plan not found or unauthorized");
+    }
+
+    await ctx.db.patch(args.submittedPlanId, {
+      isPublic: args.isPublic,
+      lastUpdated: new Date().toISOString(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Like or unlike a community plan (toggles)
+ */
+export const toggleSubmittedPlanLike = mutation({
+  args: {
+    userId: v.string(),
+    submittedPlanId: v.id("userSubmittedPlans"),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const submitted = await ctx.db.get(args.submittedPlanId);
+    if (!submitted || (!submitted.isPublic && submitted.userId !== args.userId)) {
+      throw new Error("Plan not found");
+    }
+
+    const existing = await ctx.db
+      .query("submittedPlanLikes")
+      .withIndex("by_plan_user", (q) => q.eq("submittedPlanId", args.submittedPlanId).eq("userId", args.userId))
+      .first();
+
+    // TRANSACTION SAFETY: Like row and counter change together
+    return await executeWithRollback(ctx.db, async (tracker) => {
+      if (existing) {
+        await ctx.db.delete(existing._id);
+        await ctx.db.patch(submitted._id, { likes: Math.max(0, submitted.likes - 1) });
+        tracker.trackUpdate("userSubmittedPlans", submitted._id, { likes: submitted.likes });
+        return { liked: false, likes: Math.max(0, submitted.likes - 1) };
+      }
+
+      const likeId = await ctx.db.insert("submittedPlanLikes", {
+        submittedPlanId: args.submittedPlanId,
+        userId: args.userId,
+        createdAt: new Date().toISOString(),
+      });
+      tracker.trackInsert("submittedPlanLikes", likeId);
+
+      await ctx.db.patch(submitted._id, { likes: submitted.likes + 1 });
+      tracker.trackUpdate("userSubmittedPlans", submitted._id, { likes: submitted.likes });
+
+      return { liked: true, likes: submitted.likes + 1 };
+    });
+  },
+});
+
+/**
+ * Copy a community plan into the user's plans
+ * The copies counter only counts each user once
+ */
+export const copySubmittedPlan = mutation({
+  args: {
+    userId: v.string(),
+    submittedPlanId: v.id("userSubmittedPlans"),
+    setActive: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const submitted = await ctx.db.get(args.submittedPlanId);
+    if (!submitted || (!submitted.isPublic && submitted.userId !== args.userId) || submitted.hiddenForReview) {
+      throw new Error("Plan not found");
+    }
+
+    const source = submitted.parsedPlan || {};
+    if (!Array.isArray(source.weeklyPlan) || source.weeklyPlan.length === 0) {
+      throw new Error("This plan has no workouts to copy");
+    }
+
+    const previousCopy = await ctx.db
+      .query("submittedPlanCopies")
+      .withIndex("by_plan_user", (q) => q.eq("submittedPlanId", args.submittedPlanId).eq("userId", args.userId))
+      .first();
+
+    // TRANSACTION SAFETY: New plan, copy record and counter change together
+    return await executeWithRollback(ctx.db, async (tracker) => {
+      const newPlanId = await ctx.db.insert("workoutPlans", {
+        userId: args.userId,
+        name: submitted.title,
+        weeklyPlan: source.weeklyPlan,
+        dailyRoutine: source.dailyRoutine ?? null,
+        createdAt: new Date().toISOString()
+      });
+      tracker.trackInsert("workoutPlans", newPlanId);
+
+      await recordPlanRevision(ctx, {
+        userId: args.userId,
+        planId: newPlanId,
+        weeklyPlan: source.weeklyPlan,
+        author: "import",
+        summary: "Copied from a community plan",
+      });
+
+      if (args.setActive) {
+        const user = await ctx.db
+          .query("users")
+          .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+          .first();
+
+        if (user) {
+          await ctx.db.patch(user._id, { activePlanId: newPlanId });
+          tracker.trackUpdate("users", user._id, { activePlanId: user.activePlanId });
+        }
+      }
+
+      // Authors copying their own plan don't inflate the count
+      const counts = !previousCopy && submitted.userId !== args.userId;
+      const copyId = await ctx.db.insert("submittedPlanCopies", {
+        submittedPlanId: args.submittedPlanId,
+        userId: args.userId,
+        planId: newPlanId,
+        createdAt: new Date().toISOString(),
+      });
+      tracker.trackInsert("submittedPlanCopies", copyId);
+
+      if (counts) {
+        await ctx.db.patch(submitted._id, { copies: submitted.copies + 1 });
+        tracker.trackUpdate("userSubmittedPlans", submitted._id, { copies: submitted.copies });
+      }
+
+      return { planId: newPlanId, copies: submitted.copies + (counts ? 1 : 0) };
+    });
+  },
+});
+
+/**
+ * Report a community plan
+ * Enough open reports hide it from browse until reviewed
+ */
+export const reportSubmittedPlan = mutation({
+  args: {
+    userId: v.string(),
+    submittedPlanId: v.id("userSubmittedPlans"),
+    reason: v.union(
+      v.literal("unsafe"),
+      v.literal("spam"),
+      v.literal("inappropriate"),
+      v.literal("copyright"),
+      v.literal("other")
+    ),
+    details: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const submitted = await ctx.db.get(args.submittedPlanId);
+    if (!submitted || !submitted.isPublic) {
+      throw new Error("Plan not found");
+    }
+    if (submitted.userId === args.userId) {
+      throw new Error("You can't report your own plan");
+    }
+
+    const existing = await ctx.db
+      .query("submittedPlanReports")
+      .withIndex("by_plan_reporter", (q) => q.eq("submittedPlanId", args.submittedPlanId).eq("reporterId", args.userId))
+      .first();
+
+    if (existing) {
+      return { success: true, alreadyReported: true };
+    }
+
+    // TRANSACTION SAFETY: Report row and counter change together
+    return await executeWithRollback(ctx.db, async (tracker) => {
+      const reportId = await ctx.db.insert("submittedPlanReports", {
+        submittedPlanId: args.submittedPlanId,
+        reporterId: args.userId,
+        reason: args.reason,
+        details: args.details?.trim().slice(0, 500) || null,
+        status: "open",
+        createdAt: new Date().toISOString(),
+      });
+      tracker.trackInsert("submittedPlanReports", reportId);
+
+      const reportCount = (submitted.reportCount ?? 0) + 1;
+      await ctx.db.patch(submitted._id, {
+        reportCount,
+        hiddenForReview: submitted.hiddenForReview || reportCount >= MARKETPLACE_REPORT_HIDE_THRESHOLD,
+      });
+      tracker.trackUpdate("userSubmittedPlans", submitted._id, {
+        reportCount: submitted.reportCount,
+        hiddenForReview: submitted.hiddenForReview,
+      });
+
+      return { success: true, alreadyReported: false };
+    });
+  },
+});
+
+/**
+ * Remove one of the author's published plans (copies users already made stay)
+ */
+export const deleteSubmittedPlan = mutation({
+  args: {
+    userId: v.string(),
+    submittedPlanId: v.id("userSubmittedPlans"),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const submitted = await ctx.db.get(args.submittedPlanId);
+    if (!submitted || submitted.userId !== args.userId) {
+      throw new Error("Plan not found or unauthorized");
+    }
+
+    const [likes, copies, reports] = await Promise.all([
+      ctx.db
+        .query("submittedPlanLikes")
+        .withIndex("by_plan_user", (q) => q.eq("submittedPlanId", args.submittedPlanId))
+        .collect(),
+      ctx.db
+        .query("submittedPlanCopies")
+        .withIndex("by_plan_user", (q) => q.eq("submittedPlanId", args.submittedPlanId))
+        .collect(),
+      ctx.db
+        .query("submittedPlanReports")
+        .withIndex("by_plan_reporter", (q) => q.eq("submittedPlanId", args.submittedPlanId))
+        .collect(),
+    ]);
+
+    for (const row of [...likes, ...copies, ...reports]) {
+      await ctx.db.delete(row._id);
+    }
+    await ctx.db.delete(args.submittedPlanId);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Admin: close a reported plan's open reports
+ * "dismiss" puts the plan back in browse; "remove" unpublishes it and keeps it
+ * hidden, so the author can't simply switch it public again.
+ */
+export const resolvePlanReports = mutation({
+  args: {
+    submittedPlanId: v.id("userSubmittedPlans"),
+    resolution: v.union(v.literal("dismiss"), v.literal("remove")),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Require admin authentication
+    await verifyAdmin(ctx);
+
+    const submitted = await ctx.db.get(args.submittedPlanId);
+    if (!submitted) {
+      throw new Error("Plan not found");
+    }
+
+    const openReports = (await ctx.db
+      .query("submittedPlanReports")
+      .withIndex("by_plan_reporter", (q) => q.eq("submittedPlanId", args.submittedPlanId))
+      .collect())
+      .filter(report => report.status === "open");
+
+    // TRANSACTION SAFETY: Reports and the plan's visibility change together
+    return await executeWithRollback(ctx.db, async (tracker) => {
+      const status = args.resolution === "dismiss" ? "dismissed" : "actioned";
+      for (const report of openReports) {
+        await ctx.db.patch(report._id, { status });
+        tracker.trackUpdate("submittedPlanReports", report._id, { status: report.status });
+      }
+
+      await ctx.db.patch(submitted._id, {
+        reportCount: 0,
+        hiddenForReview: args.resolution === "remove",
+        ...(args.resolution === "remove" && { isPublic: false }),
+        lastUpdated: new Date().toISOString(),
+      });
+      tracker.trackUpdate("userSubmittedPlans", submitted._id, {
+        reportCount: submitted.reportCount,
+        hiddenForReview: submitted.hiddenForReview,
+        isPublic: submitted.isPublic,
+        lastUpdated: submitted.lastUpdated,
+      });
+
+      return { success: true, resolved: openReports.length };
+    });
+  },
+});
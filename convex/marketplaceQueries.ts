@@ -0,0 +1,264 @@
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { query, QueryCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { isAuthenticatedUser, verifyAdmin } from "./utils/accessControl";
+import { MARKETPLACE_CATEGORIES } from "./utils/constants";
+import { isTrainingDay } from "./utils/trainingDays";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_BROWSE_LIMIT = 100;
+const MAX_REPORT_REVIEW_ROWS = 500;
+
+type BrowseSort = "popular" | "copied" | "grade" | "newest";
+
+// Card data for lists - the full plan and outline only load on the detail view
+const toListing = (plan: Doc<"userSubmittedPlans">) => {
+  const weeklyPlan: any[] = Array.isArray(plan.parsedPlan?.weeklyPlan) ? plan.parsedPlan.weeklyPlan : [];
+  const trainingDays = weeklyPlan.filter(isTrainingDay).length;
+
+  return {
+    _id: plan._id,
+    userId: plan.userId,
+    title: plan.title,
+    category: plan.category,
+    difficulty: plan.difficulty,
+    athleticGrade: plan.athleticGrade,
+    overallScore: plan.gradeAnalysis.scoreBreakdown.overall,
+    likes: plan.likes,
+    copies: plan.copies,
+    trainingDays,
+    createdAt: plan.createdAt,
+  };
+};
+
+/**
+ * Public plans in browse order, narrowed to a category by its own index
+ */
+function queryPublicPlans(ctx: QueryCtx, sort: BrowseSort, category: string | undefined) {
+  const plans = ctx.db.query("userSubmittedPlans");
+  if (category) {
+    switch (sort) {
+      case "copied":
+        return plans.withIndex("by_public_category_copies", (q) => q.eq("isPublic", true).eq("category", category));
+      case "grade":
+        return plans.withIndex("by_public_category_score", (q) => q.eq("isPublic", true).eq("category", category));
+      case "newest":
+        return plans.withIndex("by_public_category_createdAt", (q) => q.eq("isPublic", true).eq("category", category));
+      default:
+        return plans.withIndex("by_public_category_likes", (q) => q.eq("isPublic", true).eq("category", category));
+    }
+  }
+  switch (sort) {
+    case "copied":
+      return plans.withIndex("by_public_copies", (q) => q.eq("isPublic", true));
+    case "grade":
+      return plans.withIndex("by_public_score", (q) => q.eq("isPublic", true));
+    case "newest":
+      return plans.withIndex("by_public_createdAt", (q) => q.eq("isPublic", true));
+    default:
+      return plans.withIndex("by_public_likes", (q) => q.eq("isPublic", true));
+  }
+}
+
+/**
+ * Browse/search public community plans (paginated)
+ * Searching matches titles and is ordered by relevance; otherwise plans come in
+ * `sort` order. Grades are letters, so "minGrade B" is athleticGrade <= "B".
+ */
+export const browseSubmittedPlans = query({
+  args: {
+    userId: v.string(),
+    search: v.optional(v.string()),
+    category: v.optional(v.string()),
+    difficulty: v.optional(v.union(v.literal("Beginner"), v.literal("Intermediate"), v.literal("Advanced"))),
+    minGrade: v.optional(v.union(v.literal("A"), v.literal("B"), v.literal("C"), v.literal("D"), v.literal("F"))),
+    sort: v.optional(v.union(v.literal("popular"), v.literal("copied"), v.literal("grade"), v.literal("newest"))),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns empty page if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+
+    const search = args.search?.trim();
+    const plans = search
+      ? ctx.db.query("userSubmittedPlans").withSearchIndex("search_title", (q) => {
+          const matches = q.search("title", search).eq("isPublic", true);
+          const inCategory = args.category ? matches.eq("category", args.category) : matches;
+          return args.difficulty ? inCategory.eq("difficulty", args.difficulty) : inCategory;
+        })
+      : queryPublicPlans(ctx, args.sort || "popular", args.category).order("desc");
+
+    const result = await plans
+      .filter((q) => q.and(
+        q.neq(q.field("hiddenForReview"), true),
+        args.difficulty && !search ? q.eq(q.field("difficulty"), args.difficulty) : true,
+        args.minGrade ? q.lte(q.field("athleticGrade"), args.minGrade) : true
+      ))
+      .paginate({
+        ...args.paginationOpts,
+        numItems: Math.min(args.paginationOpts.numItems, MAX_BROWSE_LIMIT),
+      });
+
+    const myLikes = await Promise.all(
+      result.page.map(plan =>
+        ctx.db
+          .query("submittedPlanLikes")
+          .withIndex("by_plan_user", (q) => q.eq("submittedPlanId", plan._id).eq("userId", args.userId))
+          .first()
+      )
+    );
+
+    return {
+      ...result,
+      page: result.page.map((plan, idx) => ({
+        ...toListing(plan),
+        likedByMe: !!myLikes[idx],
+        isMine: plan.userId === args.userId,
+      })),
+    };
+  },
+});
+
+/**
+ * Full community plan with grade analysis (public plans, or the author's own)
+ */
+export const getSubmittedPlan = query({
+  args: {
+    userId: v.string(),
+    submittedPlanId: v.id("userSubmittedPlans"),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
+    const plan = await ctx.db.get(args.submittedPlanId);
+    const isMine = plan?.userId === args.userId;
+    if (!plan || (!isMine && (!plan.isPublic || plan.hiddenForReview))) {
+      return null;
+    }
+
+    const [like, copy, report] = await Promise.all([
+      ctx.db
+        .query("submittedPlanLikes")
+        .withIndex("by_plan_user", (q) => q.eq("submittedPlanId", plan._id).eq("userId", args.userId))
+        .first(),
+      ctx.db
+        .query("submittedPlanCopies")
+        .withIndex("by_plan_user", (q) => q.eq("submittedPlanId", plan._id).eq("userId", args.userId))
+        .first(),
+      ctx.db
+        .query("submittedPlanReports")
+        .withIndex("by_plan_reporter", (q) => q.eq("submittedPlanId", plan._id).eq("reporterId", args.userId))
+        .first(),
+    ]);
+
+    return {
+      ...toListing(plan),
+      weeklyPlan: Array.isArray(plan.parsedPlan?.weeklyPlan) ? plan.parsedPlan.weeklyPlan : [],
+      gradeAnalysis: plan.gradeAnalysis,
+      likedByMe: !!like,
+      copiedByMe: !!copy,
+      reportedByMe: !!report,
+      isMine,
+    };
+  },
+});
+
+/**
+ * Author dashboard: the user's published plans with like/copy stats
+ */
+export const getMySubmittedPlans = query({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns empty if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return [];
+    }
+
+    const plans = await ctx.db
+      .query("userSubmittedPlans")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .collect();
+
+    const weekAgo = new Date(Date.now() - 7 * DAY_MS).toISOString();
+
+    return await Promise.all(
+      plans.map(async (plan) => {
+        const [likes, copies] = await Promise.all([
+          ctx.db
+            .query("submittedPlanLikes")
+            .withIndex("by_plan_user", (q) => q.eq("submittedPlanId", plan._id))
+            .collect(),
+          ctx.db
+            .query("submittedPlanCopies")
+            .withIndex("by_plan_user", (q) => q.eq("submittedPlanId", plan._id))
+            .collect(),
+        ]);
+
+        return {
+          ...toListing(plan),
+          isPublic: plan.isPublic,
+          hiddenForReview: plan.hiddenForReview ?? false,
+          likesThisWeek: likes.filter(l => l.createdAt >= weekAgo).length,
+          copiesThisWeek: new Set(
+            copies.filter(c => c.createdAt >= weekAgo && c.userId !== args.userId).map(c => c.userId)
+          ).size,
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Admin review queue: plans with open reports, most reported first
+ * Hidden plans (MARKETPLACE_REPORT_HIDE_THRESHOLD) stay hidden until
+ * marketplaceMutations.resolvePlanReports dismisses or actions them.
+ */
+export const getReportedPlans = query({
+  args: {},
+  handler: async (ctx) => {
+    // SECURITY: Require admin authentication
+    await verifyAdmin(ctx);
+
+    const openReports = await ctx.db
+      .query("submittedPlanReports")
+      .withIndex("by_status", (q) => q.eq("status", "open"))
+      .take(MAX_REPORT_REVIEW_ROWS);
+
+    const byPlan = new Map<string, Doc<"submittedPlanReports">[]>();
+    for (const report of openReports) {
+      byPlan.set(report.submittedPlanId, [...(byPlan.get(report.submittedPlanId) || []), report]);
+    }
+
+    const reported = await Promise.all(
+      [...byPlan.values()].map(async (reports) => {
+        const plan = await ctx.db.get(reports[0].submittedPlanId);
+        return plan && {
+          ...toListing(plan),
+          hiddenForReview: plan.hiddenForReview ?? false,
+          reports: reports.map(r => ({ reason: r.reason, details: r.details, createdAt: r.createdAt })),
+        };
+      })
+    );
+
+    return reported
+      .filter((plan): plan is NonNullable<typeof plan> => plan !== null)
+      .sort((a, b) => b.reports.length - a.reports.length);
+  },
+});
+
+/**
+ * Categories a plan can be published under / filtered by
+ */
+export const getMarketplaceCategories = query({
+  args: {},
+  handler: async () => MARKETPLACE_CATEGORIES,
+});
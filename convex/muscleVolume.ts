@@ -0,0 +1,144 @@
+/**
+ * Muscle Volume Analytics
+ *
+ * Weekly hard sets per muscle group - logged (rolling 7 days) and planned
+ * (active plan's week) - compared to the weekly set range for the user's
+ * goal. Drives the body heatmap and under/over-trained insights on the
+ * Dashboard. Attribution rules live in utils/muscleVolume.ts.
+ */
+
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { isAuthenticatedUser } from "./utils/accessControl";
+import { normalizeExerciseName } from "./sportKnowledge/exerciseMappings";
+import { getPlannedWorkingSets } from "./planQualityValidator";
+import {
+  ALL_HEATMAP_MUSCLES,
+  HeatmapMuscle,
+  MuscleTargets,
+  addSetsToMuscles,
+  classifyVolume,
+  emptyMuscleTally,
+  getWeeklySetTarget,
+  isFlaggedMuscle,
+  resolveMuscleTargets,
+} from "./utils/muscleVolume";
+
+// Logged sets at a lower RPE than this are warm-ups, not hard sets
+const MIN_HARD_SET_RPE = 6;
+
+// Only these plan templates prescribe resistance work
+const HARD_SET_TEMPLATES = ["sets_reps_weight", "sets_reps", "sets_duration_weight"];
+
+const NON_HARD_SET_ROLES = ["cardio", "mobility"];
+const NON_HARD_SET_PATTERNS = ["cardio", "mobility"];
+
+const toKey = (name: string) => name.toLowerCase().trim().replace(/\s+/g, "_");
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Weekly sets per muscle (logged + planned) vs the goal's set range
+ */
+export const getWeeklyMuscleVolume = query({
+  args: {
+    userId: v.string(),
+    since: v.string(), // ISO - start of the user's local day 6 days ago
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .first();
+
+    const [logs, plan] = await Promise.all([
+      ctx.db
+        .query("workoutLogs")
+        .withIndex("by_userId_date", (q) => q.eq("userId", args.userId).gte("date", args.since))
+        .collect(),
+      user?.activePlanId ? ctx.db.get(user.activePlanId) : null,
+    ]);
+
+    // Muscle targets per exercise name, resolved once from the cache
+    const targetsByName = new Map<string, MuscleTargets | null>();
+    const resolveTargets = async (name: string): Promise<MuscleTargets | null> => {
+      const nameKey = name.toLowerCase().trim();
+      if (targetsByName.has(nameKey)) return targetsByName.get(nameKey)!;
+
+      let cached = null;
+      for (const key of [...new Set([toKey(name), toKey(normalizeExerciseName(name))])]) {
+        cached = await ctx.db
+          .query("exerciseCache")
+          .withIndex("by_exerciseName", (q) => q.eq("exercise_name", key))
+          .first();
+        if (cached) break;
+      }
+
+      const isHardSetExercise =
+        !NON_HARD_SET_ROLES.includes(cached?.exercise_role ?? "") &&
+        !NON_HARD_SET_PATTERNS.includes(cached?.movement_pattern ?? "");
+      const targets = isHardSetExercise
+        ? resolveMuscleTargets(name, cached?.muscles_worked, cached?.movement_pattern)
+        : null;
+
+      targetsByName.set(nameKey, targets);
+      return targets;
+    };
+
+    const logged = emptyMuscleTally();
+    for (const log of logs) {
+      for (const exercise of log.exercises) {
+        const hardSets = exercise.sets.filter(set =>
+          "reps" in set &&
+          Number(set.reps) > 0 &&
+          (set.rpe === null || set.rpe >= MIN_HARD_SET_RPE)
+        ).length;
+        if (hardSets === 0) continue;
+
+        const targets = await resolveTargets(exercise.exercise_name);
+        if (targets) addSetsToMuscles(logged, targets, hardSets);
+      }
+    }
+
+    const planned = emptyMuscleTally();
+    if (plan) {
+      for (const exercise of getPlannedWorkingSets(plan)) {
+        if (!HARD_SET_TEMPLATES.includes(exercise.templateType)) continue;
+        const targets = await resolveTargets(exercise.exercise_name);
+        if (targets) addSetsToMuscles(planned, targets, exercise.sets);
+      }
+    }
+
+    const range = getWeeklySetTarget(user?.trainingPreferences?.primary_goal);
+    const muscles = ALL_HEATMAP_MUSCLES.map(muscle => ({
+      muscle,
+      logged: round1(logged[muscle]),
+      planned: round1(planned[muscle]),
+      status: classifyVolume(logged[muscle], range),
+      plannedStatus: classifyVolume(planned[muscle], range),
+    }));
+
+    const flagged = (pick: (m: typeof muscles[number]) => boolean): HeatmapMuscle[] =>
+      muscles
+        .filter(m => isFlaggedMuscle(m.muscle) && pick(m))
+        .sort((a, b) => a.logged - b.logged)
+        .map(m => m.muscle);
+
+    return {
+      since: args.since,
+      goal: range.goal,
+      range: { min: range.min, max: range.max },
+      hasPlan: !!plan,
+      muscles,
+      underTrained: flagged(m => m.status === "under"),
+      overTrained: flagged(m => m.status === "over"),
+      // Muscles the plan itself doesn't give enough sets
+      planGaps: plan ? flagged(m => m.plannedStatus === "under") : [],
+    };
+  },
+});
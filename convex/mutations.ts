@@ -1,5 +1,5 @@
-import { mutation } from "./_generated/server";
-import { v } from "convex/values";
+import { internalMutation, mutation, MutationCtx } from "./_generated/server";
+import { ObjectType, v } from "convex/values";
 import { api } from "./_generated/api";
 import { executeWithRollback } from "./utils/transactionHelpers";
 import { loggers } from "./utils/logger";
@@ -10,6 +10,10 @@ import {
   MIN_REPS,
 } from "./utils/constants";
 import { verifyAuthenticatedUser, verifyAdmin } from "./utils/accessControl";
+import { recordPersonalRecords } from "./utils/personalRecords";
+import { findProcessedMutation, recordProcessedMutation } from "./utils/idempotency";
+import { recordPlanRevision } from "./utils/planRevisions";
+import { Id } from "./_generated/dataModel";
 
 // Ensure user exists - creates user if doesn't exist (called on sign-in)
 export const ensureUserExists = mutation({
@@ -321,6 +325,8 @@ export const createWorkoutPlan = mutation({
       weeks_in_phase: v.optional(v.number()),
       phase_end_week: v.optional(v.number()),
     })),
+    // Where the plan came from, for revision history (defaults to AI generation)
+    source: v.optional(v.union(v.literal("ai"), v.literal("import"))),
   },
   handler: async (ctx, args) => {
     // SECURITY: Verify userId matches authenticated user
@@ -371,7 +377,9 @@ export const createWorkoutPlan = mutation({
 
       // Default type to "single" if missing
       let blockType = String(block.type || "single").toLowerCase();
-      if (blockType !== "single" && blockType !== "superset" && blockType !== "amrap" && blockType !== "circuit") {
+      // Generic intervals (6×800m runs) stay single - only explicit emom/tabata are timed blocks
+      if (blockType === "interval" || blockType === "intervals") blockType = "single";
+      if (blockType !== "single" && blockType !== "superset" && blockType !== "amrap" && blockType !== "circuit" && blockType !== "emom" && blockType !== "tabata") {
         loggers.mutations.warn(`Invalid block type "${block.type}" at index ${blockIndex}, defaulting to "single"`);
         blockType = "single";
       }
@@ -421,6 +429,47 @@ export const createWorkoutPlan = mutation({
           duration_minutes: duration,
           exercises: normalizedExercises,
         };
+      } else if (blockType === "emom") {
+        let duration: number = 10;
+        if (block.duration_minutes !== undefined && block.duration_minutes !== null) {
+          const parsed = typeof block.duration_minutes === "number" ? block.duration_minutes : parseFloat(block.duration_minutes);
+          if (!isNaN(parsed) && isFinite(parsed) && parsed > 0) {
+            duration = parsed;
+          }
+        }
+
+        // E2MOM/E3MOM use longer intervals; anything else is a standard 60s minute
+        let interval: number | undefined;
+        if (block.interval_seconds !== undefined && block.interval_seconds !== null) {
+          const parsed = typeof block.interval_seconds === "number" ? block.interval_seconds : parseFloat(block.interval_seconds);
+          if (!isNaN(parsed) && isFinite(parsed) && parsed >= 15) {
+            interval = parsed;
+          }
+        }
+
+        return {
+          type: "emom" as const,
+          title: block.title ?? null,
+          duration_minutes: duration,
+          ...(interval !== undefined && { interval_seconds: interval }),
+          exercises: normalizedExercises,
+        };
+      } else if (blockType === "tabata") {
+        // Defaults are the classic protocol: 8 rounds of 20s work / 10s rest
+        const parsePositive = (value: any, fallback: number): number => {
+          if (value === undefined || value === null) return fallback;
+          const parsed = typeof value === "number" ? value : parseFloat(value);
+          return !isNaN(parsed) && isFinite(parsed) && parsed > 0 ? parsed : fallback;
+        };
+
+        return {
+          type: "tabata" as const,
+          title: block.title ?? null,
+          rounds: parsePositive(block.rounds, 8),
+          work_seconds: parsePositive(block.work_seconds, 20),
+          rest_seconds: parsePositive(block.rest_seconds, 10),
+          exercises: normalizedExercises,
+        };
       } else if (blockType === "circuit") {
         // Circuit blocks can have rounds OR duration_minutes (or both)
         let rounds: number | undefined;
@@ -695,6 +744,15 @@ export const createWorkoutPlan = mutation({
         loggers.mutations.info(`Added ${newExercisesAdded} new exercises to database`);
       }
 
+      // First revision: the plan as created
+      await recordPlanRevision(ctx, {
+        userId,
+        planId,
+        weeklyPlan: normalizedWeeklyPlan,
+        author: args.source || "ai",
+        summary: args.source === "import" ? "Plan imported" : "Plan generated",
+      });
+
       // Return both planId and extracted exercises for client to use
       return {
         planId,
@@ -760,6 +818,17 @@ export const updateWorkoutPlan = mutation({
     }
 
     await ctx.db.patch(args.planId, updates);
+
+    if (args.weeklyPlan !== undefined) {
+      await recordPlanRevision(ctx, {
+        userId,
+        planId: args.planId,
+        weeklyPlan: args.weeklyPlan,
+        previousWeeklyPlan: plan.weeklyPlan,
+        author: "user",
+        summary: "Edited plan",
+      });
+    }
   },
 });
 
@@ -801,6 +870,26 @@ export const deleteWorkoutPlan = mutation({
       await ctx.db.delete(buddy._id);
     }
 
+    // 2b. Delete chat coach edit history for this plan
+    const chatPlanEdits = await ctx.db
+      .query("chatPlanEdits")
+      .withIndex("by_planId_appliedAt", (q) => q.eq("planId", args.planId))
+      .collect();
+
+    for (const edit of chatPlanEdits) {
+      await ctx.db.delete(edit._id);
+    }
+
+    // 2c. Delete revision history for this plan
+    const planRevisions = await ctx.db
+      .query("planRevisions")
+      .withIndex("by_planId_revision", (q) => q.eq("planId", args.planId))
+      .collect();
+
+    for (const revision of planRevisions) {
+      await ctx.db.delete(revision._id);
+    }
+
     // 3. If this is the active plan, clear it
     const user = await ctx.db
       .query("users")
@@ -853,6 +942,8 @@ export const addWorkoutLog = mutation({
     focus: v.string(),
     exercises: v.array(v.any()),
     durationMinutes: v.optional(v.union(v.number(), v.null())),
+    date: v.optional(v.string()), // ISO completion time (offline replays finish later than the workout)
+    idempotencyKey: v.optional(v.string()), // Client UUID - replays return the original result
   },
   handler: async (ctx, args) => {
     // SECURITY: Verify userId matches authenticated user
@@ -860,13 +951,31 @@ export const addWorkoutLog = mutation({
 
     const userId = args.userId;
 
-    await ctx.db.insert("workoutLogs", {
+    const processed = await findProcessedMutation(ctx, userId, args.idempotencyKey);
+    if (processed.found) {
+      return processed.result as { logId: Id<"workoutLogs">; personalRecords: Awaited<ReturnType<typeof recordPersonalRecords>> };
+    }
+
+    // Accept the client's completion time unless it's in the future
+    const clientDate = args.date ? new Date(args.date) : null;
+    const date = clientDate && !isNaN(clientDate.getTime()) && clientDate.getTime() <= Date.now()
+      ? clientDate.toISOString()
+      : new Date().toISOString();
+
+    const logId = await ctx.db.insert("workoutLogs", {
       userId,
-      date: new Date().toISOString(),
+      date,
       focus: args.focus,
       exercises: args.exercises,
       durationMinutes: args.durationMinutes || null,
     });
+
+    // Update stored e1RM / rep-range / volume records; return what improved for the UI
+    const personalRecords = await recordPersonalRecords(ctx, userId, logId, date, args.exercises);
+
+    const result = { logId, personalRecords };
+    await recordProcessedMutation(ctx, userId, args.idempotencyKey, "addWorkoutLog", result);
+    return result;
   },
 });
 
@@ -904,11 +1013,17 @@ export const saveExerciseHistory = mutation({
     exerciseName: v.string(),
     weight: v.number(),
     reps: v.number(),
+    loggedAt: v.optional(v.string()), // ISO time the set was logged (offline replays)
+    idempotencyKey: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     // SECURITY: Verify userId matches authenticated user
     await verifyAuthenticatedUser(ctx, args.userId);
 
+    if ((await findProcessedMutation(ctx, args.userId, args.idempotencyKey)).found) {
+      return;
+    }
+
     // INPUT VALIDATION
     if (!args.exerciseName || !args.exerciseName.trim()) {
       throw new Error("Exercise name cannot be empty");
@@ -939,14 +1054,22 @@ export const saveExerciseHistory = mutation({
       exercise_name: args.exerciseName,
       last_weight: args.weight,
       last_reps: args.reps,
-      last_logged: new Date().toISOString(),
+      last_logged: args.loggedAt || new Date().toISOString(),
     };
 
+    // A replayed offline set must not overwrite a newer one
+    if (existing && existing.last_logged > historyData.last_logged) {
+      await recordProcessedMutation(ctx, userId, args.idempotencyKey, "saveExerciseHistory", null);
+      return;
+    }
+
     if (existing) {
       await ctx.db.patch(existing._id, historyData);
     } else {
       await ctx.db.insert("exerciseHistory", historyData);
     }
+
+    await recordProcessedMutation(ctx, userId, args.idempotencyKey, "saveExerciseHistory", null);
   },
 });
 
@@ -1371,6 +1494,9 @@ export const updateUserExercisePreference = mutation({
     }),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     const normalized = args.exerciseName.toLowerCase().trim().replace(/\s+/g, "_");
 
     const existing = await ctx.db
@@ -1421,6 +1547,9 @@ export const updateUserExerciseAnalytics = mutation({
     ),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     const normalized = args.exerciseName.toLowerCase().trim().replace(/\s+/g, "_");
 
     // Calculate analytics
@@ -1512,6 +1641,9 @@ export const recordExerciseInjury = mutation({
     notes: v.string(),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     const normalized = args.exerciseName.toLowerCase().trim().replace(/\s+/g, "_");
 
     const existing = await ctx.db
@@ -1752,6 +1884,11 @@ export const logGenerationAttempt = mutation({
     sport: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Attempts can only be logged for the authenticated user
+    if (args.user_id) {
+      await verifyAuthenticatedUser(ctx, args.user_id);
+    }
+
     return await ctx.db.insert("generationLog", {
       profile_key: args.profile_key,
       user_id: args.user_id || null,
@@ -1965,11 +2102,21 @@ export const recordExercisePerformance = mutation({
     pain_location: v.optional(v.union(v.string(), v.null())),
     was_pr: v.boolean(),
     notes: v.optional(v.union(v.string(), v.null())),
+    timestamp: v.optional(v.string()), // ISO time performed (offline replays)
+    idempotencyKey: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify user_id matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.user_id);
+
+    const processed = await findProcessedMutation(ctx, args.user_id, args.idempotencyKey);
+    if (processed.found) {
+      return processed.result as Id<"exercisePerformance">;
+    }
+
     const normalized = args.exercise_name.toLowerCase().trim().replace(/\s+/g, "_");
 
-    return await ctx.db.insert("exercisePerformance", {
+    const performanceId = await ctx.db.insert("exercisePerformance", {
       user_id: args.user_id,
       exercise_name: normalized,
       sport_context: args.sport_context || null,
@@ -1988,126 +2135,20 @@ export const recordExercisePerformance = mutation({
       pain_location: args.pain_location || null,
       was_pr: args.was_pr,
       notes: args.notes || null,
-      timestamp: new Date().toISOString(),
+      timestamp: args.timestamp || new Date().toISOString(),
     });
-  },
-});
-
-// API Usage Tracking Mutations
-
-export const incrementPlanUsage = mutation({
-  args: { userId: v.string() },
-  handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
-      .first();
-
-    if (!user) return;
-
-    const now = new Date();
-    const apiUsage = user.apiUsage || {
-      tier: "free",
-      plansGenerated: 0,
-      chatMessagesSent: 0,
-      plansParsed: 0,
-      periodStart: now.toISOString(),
-      periodEnd: new Date(now.getFullYear(), now.getMonth() + 1, 1).toISOString(),
-      lastReset: null
-    };
-
-    // Check if period expired
-    if (new Date(apiUsage.periodEnd) < now) {
-      // Reset usage
-      apiUsage.plansGenerated = 0;
-      apiUsage.chatMessagesSent = 0;
-      apiUsage.plansParsed = 0;
-      apiUsage.periodStart = now.toISOString();
-      apiUsage.periodEnd = new Date(now.getFullYear(), now.getMonth() + 1, 1).toISOString();
-      apiUsage.lastReset = now.toISOString();
-    }
-
-    apiUsage.plansGenerated += 1;
-
-    await ctx.db.patch(user._id, { apiUsage });
-  },
-});
-
-export const incrementChatUsage = mutation({
-  args: { userId: v.string() },
-  handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
-      .first();
-
-    if (!user) return;
-
-    const now = new Date();
-    const apiUsage = user.apiUsage || {
-      tier: "free",
-      plansGenerated: 0,
-      chatMessagesSent: 0,
-      plansParsed: 0,
-      periodStart: now.toISOString(),
-      periodEnd: new Date(now.getFullYear(), now.getMonth() + 1, 1).toISOString(),
-      lastReset: null
-    };
-
-    if (new Date(apiUsage.periodEnd) < now) {
-      apiUsage.plansGenerated = 0;
-      apiUsage.chatMessagesSent = 0;
-      apiUsage.plansParsed = 0;
-      apiUsage.periodStart = now.toISOString();
-      apiUsage.periodEnd = new Date(now.getFullYear(), now.getMonth() + 1, 1).toISOString();
-      apiUsage.lastReset = now.toISOString();
-    }
-
-    apiUsage.chatMessagesSent += 1;
 
-    await ctx.db.patch(user._id, { apiUsage });
-  },
-});
-
-export const incrementParseUsage = mutation({
-  args: { userId: v.string() },
-  handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
-      .first();
-
-    if (!user) return;
-
-    const now = new Date();
-    const apiUsage = user.apiUsage || {
-      tier: "free",
-      plansGenerated: 0,
-      chatMessagesSent: 0,
-      plansParsed: 0,
-      periodStart: now.toISOString(),
-      periodEnd: new Date(now.getFullYear(), now.getMonth() + 1, 1).toISOString(),
-      lastReset: null
-    };
-
-    if (new Date(apiUsage.periodEnd) < now) {
-      apiUsage.plansGenerated = 0;
-      apiUsage.chatMessagesSent = 0;
-      apiUsage.plansParsed = 0;
-      apiUsage.periodStart = now.toISOString();
-      apiUsage.periodEnd = new Date(now.getFullYear(), now.getMonth() + 1, 1).toISOString();
-      apiUsage.lastReset = now.toISOString();
-    }
-
-    apiUsage.plansParsed += 1;
-
-    await ctx.db.patch(user._id, { apiUsage });
+    await recordProcessedMutation(ctx, args.user_id, args.idempotencyKey, "recordExercisePerformance", performanceId);
+    return performanceId;
   },
 });
 
 export const upgradeToPremium = mutation({
   args: { userId: v.string() },
   handler: async (ctx, args) => {
+    // SECURITY: Tier changes are admin-only (the tier drives server-side rate limits)
+    await verifyAdmin(ctx);
+
     const user = await ctx.db
       .query("users")
       .withIndex("by_userId", (q) => q.eq("userId", args.userId))
@@ -2138,7 +2179,7 @@ export const upgradeToPremium = mutation({
 export const setAdminRole = mutation({
   args: {
     targetUserId: v.string(),
-    role: v.union(v.literal("user"), v.literal("admin")),
+    role: v.union(v.literal("user"), v.literal("admin"), v.literal("coach")),
   },
   handler: async (ctx, args) => {
     // Get authenticated user
@@ -2245,6 +2286,60 @@ export const deleteUserAccount = mutation({
       await ctx.db.delete(history._id);
     }
 
+    // 4b. Delete personal records
+    const personalRecords = await ctx.db
+      .query("personalRecords")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect();
+    for (const record of personalRecords) {
+      await ctx.db.delete(record._id);
+    }
+
+    // 4c. Delete idempotency receipts
+    const processedMutations = await ctx.db
+      .query("processedMutations")
+      .withIndex("by_userId_processedAt", (q) => q.eq("userId", userId))
+      .collect();
+    for (const receipt of processedMutations) {
+      await ctx.db.delete(receipt._id);
+    }
+
+    // 4d. Delete in-progress session checkpoint
+    const activeSessions = await ctx.db
+      .query("activeSessions")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect();
+    for (const activeSession of activeSessions) {
+      await ctx.db.delete(activeSession._id);
+    }
+
+    // 4e. Delete chat coach edit history
+    const chatPlanEdits = await ctx.db
+      .query("chatPlanEdits")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect();
+    for (const edit of chatPlanEdits) {
+      await ctx.db.delete(edit._id);
+    }
+
+    // 4f. Delete plan revision history
+    const planRevisions = await ctx.db
+      .query("planRevisions")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect();
+    for (const revision of planRevisions) {
+      await ctx.db.delete(revision._id);
+    }
+
+    // 4g. Delete rate limit events
+    const rateLimitEvents = await ctx.db
+      .query("rateLimitEvents")
+      .withIndex("by_userId_action_createdAt", (q) => q.eq("userId", userId))
+      .collect();
+    for (const event of rateLimitEvents) {
+      await ctx.db.delete(event._id);
+    }
+
     // 5. Delete user exercise preferences
     const userExercisePreferences = await ctx.db
       .query("userExercisePreferences")
@@ -2331,9 +2426,46 @@ export const deleteUserAccount = mutation({
       .withIndex("by_userId", (q) => q.eq("userId", userId))
       .collect();
     for (const usp of userSubmittedPlans) {
+      for (const table of ["submittedPlanLikes", "submittedPlanCopies"] as const) {
+        const rows = await ctx.db
+          .query(table)
+          .withIndex("by_plan_user", (q) => q.eq("submittedPlanId", usp._id))
+          .collect();
+        for (const row of rows) {
+          await ctx.db.delete(row._id);
+        }
+      }
+      const reports = await ctx.db
+        .query("submittedPlanReports")
+        .withIndex("by_plan_reporter", (q) => q.eq("submittedPlanId", usp._id))
+        .collect();
+      for (const report of reports) {
+        await ctx.db.delete(report._id);
+      }
       await ctx.db.delete(usp._id);
     }
 
+    // 13b. Withdraw likes on other authors' plans (keeps their counters accurate)
+    const likesGiven = await ctx.db
+      .query("submittedPlanLikes")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect();
+    for (const like of likesGiven) {
+      const liked = await ctx.db.get(like.submittedPlanId);
+      if (liked) {
+        await ctx.db.patch(liked._id, { likes: Math.max(0, liked.likes - 1) });
+      }
+      await ctx.db.delete(like._id);
+    }
+
+    const copiesMade = await ctx.db
+      .query("submittedPlanCopies")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect();
+    for (const copy of copiesMade) {
+      await ctx.db.delete(copy._id);
+    }
+
     // 14. Delete progress photos
     const progressPhotos = await ctx.db
       .query("progressPhotos")
@@ -2370,6 +2502,35 @@ export const deleteUserAccount = mutation({
       await ctx.db.delete(perf._id);
     }
 
+    // 18. Delete challenge participation (challenges themselves stay for the other participants)
+    const challengeParticipants = await ctx.db
+      .query("challengeParticipants")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect();
+    for (const participant of challengeParticipants) {
+      await ctx.db.delete(participant._id);
+    }
+
+    // 19. Delete coaching links and comments (as coach and as athlete)
+    const [coachLinks, athleteLinks, commentsWritten, commentsReceived] = await Promise.all([
+      ctx.db.query("coachAthletes").withIndex("by_coachId", (q) => q.eq("coachId", userId)).collect(),
+      ctx.db.query("coachAthletes").withIndex("by_athleteId", (q) => q.eq("athleteId", userId)).collect(),
+      ctx.db.query("coachComments").withIndex("by_coachId", (q) => q.eq("coachId", userId)).collect(),
+      ctx.db.query("coachComments").withIndex("by_athleteId", (q) => q.eq("athleteId", userId)).collect(),
+    ]);
+    for (const row of [...coachLinks, ...athleteLinks, ...commentsWritten, ...commentsReceived]) {
+      await ctx.db.delete(row._id);
+    }
+
+    // 20. Delete push notifications and push settings (device token)
+    const [pushNotifications, pushSettings] = await Promise.all([
+      ctx.db.query("pushNotifications").withIndex("by_userId", (q) => q.eq("userId", userId)).collect(),
+      ctx.db.query("pushSettings").withIndex("by_userId", (q) => q.eq("userId", userId)).collect(),
+    ]);
+    for (const row of [...pushNotifications, ...pushSettings]) {
+      await ctx.db.delete(row._id);
+    }
+
     return { success: true };
   },
 });
@@ -2421,52 +2582,83 @@ export const updatePlanPeriodization = mutation({
   },
 });
 
+const planWeeklyContentArgs = {
+  planId: v.id("workoutPlans"),
+  userId: v.string(),
+  weeklyPlan: v.array(v.any()),
+  periodization: v.optional(v.object({
+    total_weeks: v.number(),
+    current_week: v.number(),
+    phase: v.union(
+      v.literal("base"),
+      v.literal("build"),
+      v.literal("peak"),
+      v.literal("taper"),
+      v.literal("recovery")
+    ),
+    phase_description: v.optional(v.string()),
+    weeks_in_phase: v.optional(v.number()),
+    phase_end_week: v.optional(v.number()),
+    is_deload: v.optional(v.boolean()),
+    deload_reason: v.optional(v.string()),
+  })),
+  summary: v.optional(v.string()), // Revision summary (e.g. weekly progression changes)
+};
+
 /**
  * Update the current week's plan (replace weeklyPlan with new week's training)
  * This is called after AI generates the next week
  */
 export const updatePlanWeeklyContent = mutation({
-  args: {
-    planId: v.id("workoutPlans"),
-    userId: v.string(),
-    weeklyPlan: v.array(v.any()),
-    periodization: v.optional(v.object({
-      total_weeks: v.number(),
-      current_week: v.number(),
-      phase: v.union(
-        v.literal("base"),
-        v.literal("build"),
-        v.literal("peak"),
-        v.literal("taper"),
-        v.literal("recovery")
-      ),
-      phase_description: v.optional(v.string()),
-      weeks_in_phase: v.optional(v.number()),
-      phase_end_week: v.optional(v.number()),
-    })),
-  },
+  args: planWeeklyContentArgs,
   handler: async (ctx, args) => {
     // SECURITY: Verify userId matches authenticated user
     await verifyAuthenticatedUser(ctx, args.userId);
 
-    // Verify plan belongs to user
-    const plan = await ctx.db.get(args.planId);
-    if (!plan || plan.userId !== args.userId) {
-      throw new Error("Plan not found or access denied");
-    }
-
-    const updates: Record<string, unknown> = {
-      weeklyPlan: args.weeklyPlan,
-    };
-
-    if (args.periodization) {
-      updates.periodization = args.periodization;
-    }
-
-    await ctx.db.patch(args.planId, updates);
-
-    loggers.mutations.info(`Updated weekly content for plan ${args.planId}${args.periodization ? `, Week ${args.periodization.current_week}` : ''}`);
-
-    return { success: true };
+    return await applyPlanWeeklyContent(ctx, args);
   },
 });
+
+/**
+ * Same update for background week generation (scheduled jobs carry no caller identity)
+ */
+export const updatePlanWeeklyContentInternal = internalMutation({
+  args: planWeeklyContentArgs,
+  handler: async (ctx, args) => applyPlanWeeklyContent(ctx, args),
+});
+
+async function applyPlanWeeklyContent(
+  ctx: MutationCtx,
+  args: ObjectType<typeof planWeeklyContentArgs>
+): Promise<{ success: true }> {
+  // Verify plan belongs to user
+  const plan = await ctx.db.get(args.planId);
+  if (!plan || plan.userId !== args.userId) {
+    throw new Error("Plan not found or access denied");
+  }
+
+  const updates: Record<string, unknown> = {
+    weeklyPlan: args.weeklyPlan,
+  };
+
+  if (args.periodization) {
+    updates.periodization = args.periodization;
+  }
+
+  await ctx.db.patch(args.planId, updates);
+
+  await recordPlanRevision(ctx, {
+    userId: args.userId,
+    planId: args.planId,
+    weeklyPlan: args.weeklyPlan,
+    previousWeeklyPlan: plan.weeklyPlan,
+    author: "ai",
+    summary: args.summary ?? (args.periodization
+      ? `Generated week ${args.periodization.current_week} (${args.periodization.phase})`
+      : "Generated new week"),
+  });
+
+  loggers.mutations.info(`Updated weekly content for plan ${args.planId}${args.periodization ? `, Week ${args.periodization.current_week}` : ''}`);
+
+  return { success: true };
+}
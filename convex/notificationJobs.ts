@@ -0,0 +1,326 @@
+/**
+ * Scheduled Notification Generators
+ *
+ * Hourly crons (scheduledJobs.ts) that create the reminder-style notifications:
+ * - workout_reminder: today is a training day on the active plan and nothing is logged yet
+ * - streak_at_risk: a training day is ending with nothing logged and no freeze to cover it
+ * - deload_reminder: the active plan's current week is a deload (isDeloadWeek or detected)
+ * - event_countdown: milestone days before specific_goal.target_date
+ *
+ * Each generator only considers users with a registered device who have the type
+ * switched on, fires at a local hour in the user's timezone, and gives every
+ * notification a deterministic dedupe key so re-runs never create it twice.
+ * Devices are walked a page at a time; each page schedules the next with the
+ * run's start time, so every page judges local hours against the same clock.
+ * Rows are created "pending" - pushDelivery.ts still applies quiet hours.
+ */
+
+import { v } from "convex/values";
+import { internalMutation, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc } from "./_generated/dataModel";
+import { isDeloadWeek } from "./utils/periodization";
+import {
+  buildDeloadReminder,
+  buildEventCountdown,
+  buildStreakAtRiskAlert,
+  buildWorkoutReminder,
+  getPlanDay,
+  getWorkoutReminderHour,
+} from "./utils/scheduledNotifications";
+import { daysBetween, getLocalDay, resolveTimezone } from "./utils/localCalendar";
+import { applyMonthlyFreezeGrant, bridgeStreakGap, getStreakCalendar } from "./utils/streaks";
+import { getLocalHour } from "./utils/pushScheduling";
+import {
+  EVENT_COUNTDOWN_MILESTONES,
+  PLAN_REMINDER_HOUR,
+  SCHEDULED_NOTIFICATION_LOOKBACK_DAYS,
+  STREAK_AT_RISK_HOUR,
+  STREAK_AT_RISK_MIN_STREAK,
+  WORKOUT_REMINDER_LEAD_HOURS,
+} from "./utils/constants";
+import { loggers } from "./utils/logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ScheduledType = "workout_reminder" | "streak_at_risk" | "deload_reminder" | "event_countdown";
+
+const RECIPIENT_BATCH_SIZE = 100;
+
+const pageArgs = {
+  cursor: v.optional(v.union(v.string(), v.null())),
+  startedAt: v.optional(v.string()), // ISO - set on follow-up pages
+};
+
+// One page of registered devices (token set), narrowed to those with the type switched on
+async function getRecipientPage(ctx: MutationCtx, type: ScheduledType, cursor: string | null | undefined) {
+  const page = await ctx.db
+    .query("pushSettings")
+    .withIndex("by_pushToken", (q) => q.gt("pushToken", ""))
+    .paginate({ cursor: cursor ?? null, numItems: RECIPIENT_BATCH_SIZE });
+  return {
+    recipients: page.page.filter(s => s.enabledTypes[type]),
+    isDone: page.isDone,
+    continueCursor: page.continueCursor,
+  };
+}
+
+const getUser = (ctx: MutationCtx, userId: string) =>
+  ctx.db
+    .query("users")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .first();
+
+async function getActivePlan(ctx: MutationCtx, user: Doc<"users"> | null): Promise<Doc<"workoutPlans"> | null> {
+  if (!user?.activePlanId) return null;
+  const plan = await ctx.db.get(user.activePlanId);
+  return plan && plan.userId === user.userId ? plan : null;
+}
+
+/**
+ * Insert a pending notification unless one with the same dedupe key was created recently
+ * Returns whether it was created.
+ */
+async function createScheduledNotification(
+  ctx: MutationCtx,
+  now: Date,
+  notification: {
+    userId: string;
+    type: ScheduledType;
+    title: string;
+    body: string;
+    data: Record<string, unknown>;
+    dedupeKey: string;
+  }
+): Promise<boolean> {
+  const lookback = new Date(now.getTime() - SCHEDULED_NOTIFICATION_LOOKBACK_DAYS * DAY_MS).toISOString();
+  const existing = await ctx.db
+    .query("pushNotifications")
+    .withIndex("by_userId_type", (q) => q.eq("userId", notification.userId).eq("type", notification.type))
+    .filter((q) => q.and(
+      q.eq(q.field("dedupeKey"), notification.dedupeKey),
+      q.gte(q.field("sentAt"), lookback)
+    ))
+    .first();
+  if (existing) return false;
+
+  await ctx.db.insert("pushNotifications", {
+    ...notification,
+    read: false,
+    sentAt: now.toISOString(),
+    delivered: false,
+    deliveryStatus: "pending", // Pushed by pushDelivery.deliverPendingNotifications
+  });
+  return true;
+}
+
+/**
+ * Remind users before today's session on their active plan
+ * Sent WORKOUT_REMINDER_LEAD_HOURS before their calendar training time, skipped
+ * on rest days and once a workout is already logged today.
+ */
+export const generateWorkoutReminders = internalMutation({
+  args: pageArgs,
+  handler: async (ctx, args) => {
+    const now = args.startedAt ? new Date(args.startedAt) : new Date();
+    const { recipients, isDone, continueCursor } = await getRecipientPage(ctx, "workout_reminder", args.cursor);
+    let created = 0;
+
+    for (const settings of recipients) {
+      const user = await getUser(ctx, settings.userId);
+      const timezone = resolveTimezone(settings, user);
+      const plan = await getActivePlan(ctx, user);
+      if (!plan) continue;
+
+      const today = getLocalDay(now, timezone);
+      const day = getPlanDay(plan.weeklyPlan, today.dayOfWeek);
+      if (!day) continue;
+
+      const reminderHour = getWorkoutReminderHour(day, user?.calendarSettings, WORKOUT_REMINDER_LEAD_HOURS);
+      if (getLocalHour(now, timezone) !== reminderHour) continue;
+
+      const recentLogs = await ctx.db
+        .query("workoutLogs")
+        .withIndex("by_userId_date", (q) =>
+          q.eq("userId", settings.userId).gte("date", new Date(now.getTime() - DAY_MS).toISOString())
+        )
+        .collect();
+      if (recentLogs.some(log => getLocalDay(new Date(log.date), timezone).date === today.date)) continue;
+
+      const { title, body } = buildWorkoutReminder(day);
+      const inserted = await createScheduledNotification(ctx, now, {
+        userId: settings.userId,
+        type: "workout_reminder",
+        title,
+        body,
+        data: { planId: plan._id, dayOfWeek: today.dayOfWeek, date: today.date },
+        dedupeKey: `workout_reminder:${today.date}`,
+      });
+      if (inserted) created++;
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.notificationJobs.generateWorkoutReminders, {
+        cursor: continueCursor,
+        startedAt: now.toISOString(),
+      });
+    }
+    if (created > 0) {
+      loggers.mutations.info(`🔔 Created ${created} workout reminders`);
+    }
+    return { created, isDone };
+  },
+});
+
+/**
+ * Warn users whose streak ends tonight
+ * At risk when today is a training day on their plan, nothing is logged yet by
+ * STREAK_AT_RISK_HOUR, the streak is still alive and no freeze is left to cover today.
+ */
+export const generateStreakAtRiskAlerts = internalMutation({
+  args: pageArgs,
+  handler: async (ctx, args) => {
+    const now = args.startedAt ? new Date(args.startedAt) : new Date();
+    const { recipients, isDone, continueCursor } = await getRecipientPage(ctx, "streak_at_risk", args.cursor);
+    let created = 0;
+
+    for (const settings of recipients) {
+      const timezone = resolveTimezone(settings, await getUser(ctx, settings.userId));
+      if (getLocalHour(now, timezone) !== STREAK_AT_RISK_HOUR) continue;
+
+      const streak = await ctx.db
+        .query("streakData")
+        .withIndex("by_userId", (q) => q.eq("userId", settings.userId))
+        .first();
+      if (!streak || streak.currentStreak < STREAK_AT_RISK_MIN_STREAK) continue;
+
+      const calendar = await getStreakCalendar(ctx, settings.userId);
+      const { date: today, dayOfWeek } = getLocalDay(now, calendar.timezone);
+      const lastWorkoutDay = streak.lastWorkoutDate.split("T")[0];
+      if (lastWorkoutDay >= today || calendar.restDays.includes(dayOfWeek)) continue;
+
+      const { streakFreezes } = applyMonthlyFreezeGrant(streak, calendar.isPremium, today);
+      const gap = bridgeStreakGap(lastWorkoutDay, today, calendar.restDays, streakFreezes);
+      if (!gap.bridged || streakFreezes - gap.freezeDates.length > 0) continue;
+
+      const { title, body } = buildStreakAtRiskAlert(streak.currentStreak);
+      const inserted = await createScheduledNotification(ctx, now, {
+        userId: settings.userId,
+        type: "streak_at_risk",
+        title,
+        body,
+        data: { currentStreak: streak.currentStreak, date: today },
+        dedupeKey: `streak_at_risk:${today}`,
+      });
+      if (inserted) created++;
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.notificationJobs.generateStreakAtRiskAlerts, {
+        cursor: continueCursor,
+        startedAt: now.toISOString(),
+      });
+    }
+    if (created > 0) {
+      loggers.mutations.info(`🔔 Created ${created} streak-at-risk alerts`);
+    }
+    return { created, isDone };
+  },
+});
+
+/**
+ * Remind users when their active plan's current week is a deload
+ * Once per plan week - shares its dedupe key with the deload notification
+ * periodizationJobs creates when the week is generated, so only one of them is sent.
+ */
+export const generateDeloadReminders = internalMutation({
+  args: pageArgs,
+  handler: async (ctx, args) => {
+    const now = args.startedAt ? new Date(args.startedAt) : new Date();
+    const { recipients, isDone, continueCursor } = await getRecipientPage(ctx, "deload_reminder", args.cursor);
+    let created = 0;
+
+    for (const settings of recipients) {
+      const user = await getUser(ctx, settings.userId);
+      const timezone = resolveTimezone(settings, user);
+      if (getLocalHour(now, timezone) !== PLAN_REMINDER_HOUR) continue;
+
+      const periodization = (await getActivePlan(ctx, user))?.periodization;
+      if (!periodization) continue;
+
+      const weekNumber = periodization.current_week;
+      const isDeload = periodization.is_deload || isDeloadWeek(weekNumber, periodization.total_weeks);
+      if (!isDeload) continue;
+
+      const { title, body } = buildDeloadReminder(weekNumber, periodization.deload_reason);
+      const inserted = await createScheduledNotification(ctx, now, {
+        userId: settings.userId,
+        type: "deload_reminder",
+        title,
+        body,
+        data: { weekNumber, phase: periodization.phase, isDeloadWeek: true, deloadReason: periodization.deload_reason },
+        dedupeKey: `deload_reminder:week${weekNumber}`,
+      });
+      if (inserted) created++;
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.notificationJobs.generateDeloadReminders, {
+        cursor: continueCursor,
+        startedAt: now.toISOString(),
+      });
+    }
+    if (created > 0) {
+      loggers.mutations.info(`🔔 Created ${created} deload reminders`);
+    }
+    return { created, isDone };
+  },
+});
+
+/**
+ * Count down to the user's event (trainingPreferences.specific_goal.target_date)
+ * Sent on EVENT_COUNTDOWN_MILESTONES days before it, in the user's local calendar.
+ */
+export const generateEventCountdowns = internalMutation({
+  args: pageArgs,
+  handler: async (ctx, args) => {
+    const now = args.startedAt ? new Date(args.startedAt) : new Date();
+    const { recipients, isDone, continueCursor } = await getRecipientPage(ctx, "event_countdown", args.cursor);
+    let created = 0;
+
+    for (const settings of recipients) {
+      const user = await getUser(ctx, settings.userId);
+      const timezone = resolveTimezone(settings, user);
+      if (getLocalHour(now, timezone) !== PLAN_REMINDER_HOUR) continue;
+
+      const goal = user?.trainingPreferences?.specific_goal;
+      if (!goal?.target_date) continue;
+
+      const targetDate = goal.target_date.split("T")[0];
+      const daysLeft = daysBetween(getLocalDay(now, timezone).date, targetDate);
+      if (!EVENT_COUNTDOWN_MILESTONES.includes(daysLeft)) continue;
+
+      const { title, body } = buildEventCountdown(daysLeft, goal.event_name);
+      const inserted = await createScheduledNotification(ctx, now, {
+        userId: settings.userId,
+        type: "event_countdown",
+        title,
+        body,
+        data: { daysLeft, targetDate, eventName: goal.event_name, eventType: goal.event_type },
+        dedupeKey: `event_countdown:${targetDate}:${daysLeft}`,
+      });
+      if (inserted) created++;
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.notificationJobs.generateEventCountdowns, {
+        cursor: continueCursor,
+        startedAt: now.toISOString(),
+      });
+    }
+    if (created > 0) {
+      loggers.mutations.info(`🔔 Created ${created} event countdowns`);
+    }
+    return { created, isDone };
+  },
+});
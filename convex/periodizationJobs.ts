@@ -19,14 +19,18 @@
  * 5. AI generates next week based on:
  *    - Current phase (BASE/BUILD/PEAK/TAPER)
  *    - Previous week's plan (for progression)
- *    - Deload status
+ *    - Deload status (fixed schedule, or detected stagnation/fatigue -
+ *      see deloadDetection.ts)
  * 6. Update plan, release lock
  */
 
 import { internalMutation, internalAction, internalQuery } from "./_generated/server";
 import { v } from "convex/values";
-import { internal, api } from "./_generated/api";
+import { internal } from "./_generated/api";
 import { loggers } from "./utils/logger";
+import { calculateSessionTonnage } from "./utils/personalRecords";
+import { isTrainingDay } from "./utils/trainingDays";
+import { DeloadAssessment } from "./utils/deloadDetection";
 import {
   calculateCurrentWeek,
   advanceToNextWeek,
@@ -39,6 +43,30 @@ import {
 // Lock expiry time in milliseconds (30 minutes - generation shouldn't take longer)
 const LOCK_EXPIRY_MS = 30 * 60 * 1000;
 
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Completion, tonnage, duration and average RPE for one plan week
+ */
+function computeWeekStats(
+  weeklyPlan: any[],
+  logs: Array<{ date: string; durationMinutes?: number | null; exercises: Array<{ sets: any[] }> }>
+) {
+  const workoutsPlanned = (Array.isArray(weeklyPlan) ? weeklyPlan : []).filter(isTrainingDay).length;
+
+  const rpes = logs.flatMap(log =>
+    log.exercises.flatMap(ex => ex.sets.map(set => set.rpe).filter((rpe): rpe is number => typeof rpe === 'number'))
+  );
+
+  return {
+    workoutsCompleted: new Set(logs.map(log => log.date.split('T')[0])).size,
+    workoutsPlanned,
+    totalVolume: Math.round(logs.reduce((sum, log) => sum + calculateSessionTonnage(log.exercises), 0)),
+    totalDuration: logs.reduce((sum, log) => sum + (log.durationMinutes || 0), 0),
+    ...(rpes.length > 0 ? { avgRpe: Math.round((rpes.reduce((a, b) => a + b, 0) / rpes.length) * 10) / 10 } : {}),
+  };
+}
+
 /**
  * Check if a generation lock exists and is still valid
  */
@@ -332,12 +360,12 @@ export const generateNextWeekForPlan = internalAction({
 
     try {
       // 1. Get the current plan and user preferences
-      const plan = await ctx.runQuery(api.queries.getWorkoutPlan, { planId: args.planId as any });
+      const plan = await ctx.runQuery(internal.queries.getWorkoutPlanInternal, { planId: args.planId as any });
       if (!plan) {
         throw new Error(`Plan ${args.planId} not found`);
       }
 
-      const user = await ctx.runQuery(api.queries.getUserProfile, { userId: args.userId });
+      const user = await ctx.runQuery(internal.queries.getUserProfileInternal, { userId: args.userId });
       if (!user) {
         throw new Error(`User ${args.userId} not found`);
       }
@@ -375,7 +403,8 @@ export const generateNextWeekForPlan = internalAction({
       // 5. Calculate new periodization (advances week + potentially phase)
       const newPeriodization = advanceToNextWeek(currentPeriodization);
       const phaseChanged = currentPeriodization.phase !== newPeriodization.phase;
-      const isDeload = isDeloadWeek(args.targetWeek, currentPeriodization.total_weeks);
+      const phaseChars = PHASE_CHARACTERISTICS[newPeriodization.phase];
+      const scheduledDeload = isDeloadWeek(args.targetWeek, currentPeriodization.total_weeks);
 
       // 6. Save current week to history before generating new one
       await ctx.runMutation(internal.periodizationJobs.saveWeekToHistory, {
@@ -384,9 +413,32 @@ export const generateNextWeekForPlan = internalAction({
         weekNumber: currentPeriodization.current_week,
         phase: currentPeriodization.phase,
         weeklyPlan: plan.weeklyPlan,
-        isDeloadWeek: false,
+        isDeloadWeek: currentPeriodization.is_deload ?? false,
+        deloadReason: currentPeriodization.deload_reason,
       });
 
+      // 6b. Performance-driven deload check (taper is already a reduced phase)
+      const deloadAssessment: DeloadAssessment | null = scheduledDeload || newPeriodization.phase === "taper"
+        ? null
+        : await ctx.runQuery(internal.deloadDetection.getDeloadAssessment, {
+            userId: args.userId,
+            planId: args.planId as any,
+            currentWeek: currentPeriodization.current_week,
+          });
+      // Peak has no deloads - signals there only produce a recommendation
+      const detectedDeload = deloadAssessment?.action === "insert" && phaseChars.deloadEveryNWeeks > 0;
+      const isDeload = scheduledDeload || detectedDeload;
+      const deloadReason = scheduledDeload
+        ? `Scheduled deload (every ${phaseChars.deloadEveryNWeeks} weeks in ${newPeriodization.phase.toUpperCase()})`
+        : detectedDeload ? deloadAssessment!.reason : null;
+      const deloadRecommendation = !isDeload && deloadAssessment && deloadAssessment.action !== "none"
+        ? deloadAssessment.reason
+        : null;
+
+      if (deloadAssessment && deloadAssessment.action !== "none") {
+        loggers.ai.info(`Deload signals for plan ${args.planId} (${deloadAssessment.action}): ${deloadAssessment.reason}`);
+      }
+
       // 7. Get periodization info for the AI prompt
       const periodizationInfo = getPeriodizationInfo(
         plan.createdAt,
@@ -408,13 +460,15 @@ export const generateNextWeekForPlan = internalAction({
         newPhase: newPeriodization.phase,
         phaseChanged,
         isDeload,
+        deloadReason: detectedDeload ? deloadReason : null,
+        deloadRecommendation,
         weekNumber: args.targetWeek,
         totalWeeks: currentPeriodization.total_weeks,
         periodizationInfo,
       });
 
       // 9. Generate the new week using AI with progression context
-      const newWeekPlan = await ctx.runAction(api.ai.generateWorkoutPlan, {
+      const newWeekPlan = await ctx.runAction(internal.ai.generateWorkoutPlanInternal, {
         userId: args.userId,
         preferences: {
           primary_goal: preferences.primary_goal || "general_fitness",
@@ -439,11 +493,18 @@ export const generateNextWeekForPlan = internalAction({
       }
 
       // 10. Update the plan with new weekly content
-      await ctx.runMutation(api.mutations.updatePlanWeeklyContent, {
+      await ctx.runMutation(internal.mutations.updatePlanWeeklyContentInternal, {
         planId: args.planId as any,
         userId: args.userId,
         weeklyPlan: newWeekPlan.weeklyPlan,
-        periodization: newPeriodization,
+        periodization: {
+          ...newPeriodization,
+          is_deload: isDeload,
+          ...(deloadReason ? { deload_reason: deloadReason } : {}),
+        },
+        summary: isDeload
+          ? `Generated week ${args.targetWeek} (${newPeriodization.phase}, deload)`
+          : undefined,
       });
 
       // 11. Mark lock as completed
@@ -461,6 +522,8 @@ export const generateNextWeekForPlan = internalAction({
         phase: newPeriodization.phase,
         phaseChanged,
         isDeloadWeek: isDeload,
+        deloadReason: detectedDeload ? deloadReason ?? undefined : undefined,
+        deloadRecommendation: deloadRecommendation ?? undefined,
       });
 
       return {
@@ -468,6 +531,8 @@ export const generateNextWeekForPlan = internalAction({
         week: args.targetWeek,
         phase: newPeriodization.phase,
         phaseChanged,
+        isDeload,
+        deloadReason,
       };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : "Unknown error";
@@ -497,11 +562,13 @@ function buildProgressionContext(params: {
   newPhase: PeriodizationPhase;
   phaseChanged: boolean;
   isDeload: boolean;
+  deloadReason?: string | null; // Set when the deload was detected rather than scheduled
+  deloadRecommendation?: string | null; // Fatigue signals that weren't enough to force a deload
   weekNumber: number;
   totalWeeks: number;
   periodizationInfo: any;
 }): string {
-  const { previousWeek, newPhase, phaseChanged, isDeload, weekNumber, totalWeeks, periodizationInfo } = params;
+  const { previousWeek, newPhase, phaseChanged, isDeload, deloadReason, deloadRecommendation, weekNumber, totalWeeks, periodizationInfo } = params;
   const phaseChars = PHASE_CHARACTERISTICS[newPhase];
 
   let context = `
@@ -538,6 +605,16 @@ ${phaseChars.keyPrinciples.map(p => `✓ ${p}`).join('\n')}
 - Reduce intensity (lower RPE by 1-2 points)
 - Maintain movement patterns and exercise selection
 - Focus on recovery and technique refinement
+${deloadReason ? `- Triggered by the athlete's recent training, not the schedule: ${deloadReason}\n` : ''}`;
+  }
+
+  // Fatigue signals below the deload threshold
+  if (deloadRecommendation) {
+    context += `
+**⚠️ EARLY FATIGUE SIGNALS**
+- ${deloadRecommendation}
+- Do NOT add load this week - repeat last week's weights/reps
+- Keep working sets at the low end of the RPE range
 `;
   }
 
@@ -655,6 +732,7 @@ export const saveWeekToHistory = internalMutation({
     phase: v.string(),
     weeklyPlan: v.any(),
     isDeloadWeek: v.boolean(),
+    deloadReason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     // Check if this week already exists in history
@@ -671,8 +749,21 @@ export const saveWeekToHistory = internalMutation({
       return existing._id;
     }
 
-    // Calculate basic stats from workout logs for this week
-    // For now, just save the plan snapshot - stats can be computed later
+    // Stats from the week's workout logs (completion feeds deload detection)
+    const plan = await ctx.db.get(args.planId);
+    let stats = undefined;
+    if (plan?.createdAt) {
+      const weekStart = new Date(new Date(plan.createdAt).getTime() + (args.weekNumber - 1) * WEEK_MS);
+      const weekEnd = new Date(weekStart.getTime() + WEEK_MS);
+      const logs = await ctx.db
+        .query("workoutLogs")
+        .withIndex("by_userId_date", (q) =>
+          q.eq("userId", args.userId).gte("date", weekStart.toISOString()).lt("date", weekEnd.toISOString())
+        )
+        .collect();
+      stats = computeWeekStats(args.weeklyPlan, logs);
+    }
+
     const historyId = await ctx.db.insert("weekHistory", {
       userId: args.userId,
       planId: args.planId,
@@ -680,7 +771,9 @@ export const saveWeekToHistory = internalMutation({
       phase: args.phase as "base" | "build" | "peak" | "taper" | "recovery",
       weeklyPlan: args.weeklyPlan,
       completedAt: new Date().toISOString(),
+      stats,
       isDeloadWeek: args.isDeloadWeek,
+      deloadReason: args.deloadReason,
     });
 
     loggers.mutations.info(`📚 Saved Week ${args.weekNumber} to history for plan ${args.planId}`);
@@ -698,6 +791,8 @@ export const createNewWeekNotification = internalMutation({
     phase: v.string(),
     phaseChanged: v.boolean(),
     isDeloadWeek: v.boolean(),
+    deloadReason: v.optional(v.string()), // Detected (not scheduled) deload
+    deloadRecommendation: v.optional(v.string()), // Fatigue signals below the deload threshold
   },
   handler: async (ctx, args) => {
     const phaseLabels: Record<string, string> = {
@@ -727,7 +822,9 @@ export const createNewWeekNotification = internalMutation({
     } else if (args.isDeloadWeek) {
       notificationType = "deload_reminder";
       title = "🔄 Deload Week";
-      body = `Week ${args.weekNumber} is a deload week. Focus on recovery and technique.`;
+      body = args.deloadReason
+        ? `Week ${args.weekNumber} is a deload week - your training says you need one. ${args.deloadReason}.`
+        : `Week ${args.weekNumber} is a deload week. Focus on recovery and technique.`;
     } else {
       title = `📋 Week ${args.weekNumber} Ready`;
       body = `Your new training week has been generated. ${phaseEmojis[args.phase]} ${phaseLabels[args.phase]} phase continues.`;
@@ -743,13 +840,35 @@ export const createNewWeekNotification = internalMutation({
         weekNumber: args.weekNumber,
         phase: args.phase,
         isDeloadWeek: args.isDeloadWeek,
+        deloadReason: args.deloadReason,
       },
       read: false,
       sentAt: new Date().toISOString(),
-      delivered: true,
-      deliveredAt: new Date().toISOString(),
+      delivered: false,
+      deliveryStatus: "pending", // Pushed by pushDelivery.deliverPendingNotifications
+      dedupeKey: `${notificationType}:week${args.weekNumber}`,
     });
 
+    // Signals that didn't force a deload - the week progresses, but flag it
+    if (args.deloadRecommendation) {
+      await ctx.db.insert("pushNotifications", {
+        userId: args.userId,
+        type: "deload_reminder",
+        title: "⚠️ Consider a Lighter Week",
+        body: `Early fatigue signs: ${args.deloadRecommendation}. Week ${args.weekNumber} holds your loads - take a deload if it keeps feeling hard.`,
+        data: {
+          weekNumber: args.weekNumber,
+          recommendation: true,
+          deloadReason: args.deloadRecommendation,
+        },
+        read: false,
+        sentAt: new Date().toISOString(),
+        delivered: false,
+        deliveryStatus: "pending",
+        dedupeKey: `deload_recommendation:week${args.weekNumber}`,
+      });
+    }
+
     loggers.mutations.info(`🔔 Created notification for user ${args.userId}: ${title}`);
     return notificationId;
   },
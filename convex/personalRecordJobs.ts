@@ -0,0 +1,48 @@
+/**
+ * Personal Record Backfill
+ *
+ * personalRecords only learns from sessions logged after it existed, so a lifter's
+ * first new session would "beat" records that ignore their whole history.
+ * This one-off job replays every workoutLog through recordPersonalRecords
+ * (best-value upserts, so order and re-runs don't matter):
+ *
+ *   npx convex run personalRecordJobs:backfillPersonalRecords
+ *
+ * Each batch schedules the next until the table is done.
+ */
+
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { recordPersonalRecords } from "./utils/personalRecords";
+import { loggers } from "./utils/logger";
+
+const BACKFILL_BATCH_SIZE = 100;
+
+export const backfillPersonalRecords = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+    processed: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("workoutLogs")
+      .paginate({ cursor: args.cursor ?? null, numItems: BACKFILL_BATCH_SIZE });
+
+    for (const log of page.page) {
+      await recordPersonalRecords(ctx, log.userId, log._id, log.date, log.exercises);
+    }
+
+    const processed = (args.processed ?? 0) + page.page.length;
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.personalRecordJobs.backfillPersonalRecords, {
+        cursor: page.continueCursor,
+        processed,
+      });
+    } else {
+      loggers.mutations.info(`🏆 Personal record backfill complete: ${processed} logs`);
+    }
+
+    return { processed, isDone: page.isDone };
+  },
+});
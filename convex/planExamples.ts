@@ -467,7 +467,7 @@ Day structure:
 }
 \`\`\`
 
-Block types: "single" (normal), "superset" (back-to-back), "amrap" (timed circuit with duration_minutes)
+Block types: "single" (normal), "superset" (back-to-back), "amrap" (timed circuit with duration_minutes), "emom" (every minute on the minute with duration_minutes), "tabata" (rounds of work_seconds/rest_seconds)
 
 RULES:
 - Standard plans use "blocks" array directly on day
@@ -0,0 +1,861 @@
+/**
+ * PLAN QUALITY VALIDATOR - Programming checks for every generated plan
+ *
+ * planValidator.ts checks that a plan is well-formed. This checks that it is
+ * good programming, with the same loop as sportKnowledge/validateHyroxPlan.ts:
+ *
+ * 1. LLM generates plan (already structurally valid + fixCardioTemplates)
+ * 2. validatePlanQuality() checks weekly sets per muscle group, push/pull
+ *    balance, movement-pattern coverage, session length and injuries
+ * 3. autoFixPlanQuality() fixes what it can deterministically
+ * 4. If errors remain, regenerate with generatePlanQualityFeedback()
+ *
+ * Exercise → pattern/muscle mapping is keyword based (deterministic), like
+ * sportKnowledge/exerciseMappings.ts does for Hyrox stations. It comes from
+ * utils/muscleVolume.ts so plans are checked against the same muscles the
+ * volume heatmap shows. The fixed plan is re-checked by planValidator in
+ * aiHelpers before it's used - fixes add and remove blocks.
+ */
+
+import { estimateWorkoutDuration } from "./utils/aiHelpers";
+import {
+  classifyMovementPattern,
+  HeatmapMuscle,
+  MovementPattern,
+  resolveMuscleTargets,
+} from "./utils/muscleVolume";
+import { isTrainingDay } from "./utils/trainingDays";
+import { INJURY_PROTOCOLS, InjuryProtocol } from "./rehab/injuryProtocolsData";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface MetricsTemplate {
+  type: string;
+  [key: string]: any;
+}
+
+interface Exercise {
+  exercise_name: string;
+  category: string;
+  metrics_template: MetricsTemplate;
+  notes?: string | null;
+  rpe?: string | null;
+}
+
+interface Block {
+  type: string;
+  exercises: Exercise[];
+  rounds?: number;
+  duration_minutes?: number;
+  [key: string]: any;
+}
+
+interface Session {
+  session_name: string;
+  time_of_day: string;
+  blocks: Block[];
+  estimated_duration?: number;
+}
+
+interface Day {
+  day_of_week: number;
+  focus: string;
+  blocks?: Block[];
+  sessions?: Session[];
+  estimated_duration?: number;
+}
+
+interface Plan {
+  name: string;
+  weeklyPlan: Day[];
+  [key: string]: any;
+}
+
+export type MuscleGroup =
+  | 'chest'
+  | 'back'
+  | 'shoulders'
+  | 'quads'
+  | 'hamstrings'
+  | 'glutes'
+  | 'biceps'
+  | 'triceps'
+  | 'calves';
+
+type FundamentalPattern = 'squat' | 'hinge' | 'push' | 'pull';
+
+export interface PlanQualityConstraints {
+  sessionLengthMinutes: number;
+  experienceLevel?: string;
+  trainingType?: string; // training_split.training_type
+  painPoints?: string[]; // trainingPreferences.pain_points
+  injuryProfile?: {
+    current_injuries?: Array<{ injury_type: string; affected_area: string }>;
+    movement_restrictions?: string[];
+    pain_triggers?: string[];
+  } | null;
+}
+
+export interface PlanQualityIssue {
+  type: 'error' | 'warning';
+  category:
+    | 'muscle_volume_low'
+    | 'muscle_volume_high'
+    | 'push_pull_balance'
+    | 'movement_pattern_coverage'
+    | 'session_duration_long'
+    | 'session_duration_short'
+    | 'injury_contraindication';
+  message: string;
+  details?: Record<string, unknown>;
+  autoFixable: boolean;
+}
+
+export interface PlanQualityResult {
+  valid: boolean;
+  score: number; // 0-100
+  issues: PlanQualityIssue[];
+  weeklySetsByMuscle: Record<MuscleGroup, number>;
+  pushSets: number;
+  pullSets: number;
+  patternsCovered: FundamentalPattern[];
+}
+
+// =============================================================================
+// THRESHOLDS
+// =============================================================================
+
+/** Weekly hard sets per muscle group (RP volume landmarks, simplified) */
+const WEEKLY_SET_RANGE: Record<string, { min: number; max: number }> = {
+  beginner: { min: 6, max: 14 },
+  intermediate: { min: 8, max: 20 },
+  advanced: { min: 10, max: 24 },
+};
+
+/** Minimum volume is only enforced for the big groups - arms/calves get indirect work */
+const MIN_VOLUME_GROUPS: MuscleGroup[] = ['chest', 'back', 'quads', 'hamstrings'];
+
+const PUSH_PULL_WARNING_RATIO = 1.5;
+const PUSH_PULL_ERROR_RATIO = 2;
+const MIN_SETS_FOR_BALANCE_CHECK = 6;
+
+const DURATION_OVER_TOLERANCE = 1.25; // Same 25% tolerance ai.ts logs mismatches at
+const DURATION_UNDER_TOLERANCE = 0.6;
+
+const MIN_TRAINING_DAYS_FOR_COVERAGE = 3;
+const MAX_SETS_PER_EXERCISE = 5;
+const MIN_SETS_PER_EXERCISE = 2;
+const DEFAULT_SETS = 3;
+const MAX_FIX_PASSES = 2;
+
+// =============================================================================
+// EXERCISE CLASSIFICATION
+// =============================================================================
+
+export { classifyMovementPattern };
+export type { MovementPattern };
+
+/** Heatmap muscles folded into the coarser groups volume is checked on */
+const GROUP_OF: Partial<Record<HeatmapMuscle, MuscleGroup>> = {
+  chest: 'chest',
+  front_delts: 'shoulders',
+  side_delts: 'shoulders',
+  rear_delts: 'shoulders',
+  upper_back: 'back',
+  lats: 'back',
+  quads: 'quads',
+  hamstrings: 'hamstrings',
+  glutes: 'glutes',
+  biceps: 'biceps',
+  triceps: 'triceps',
+  calves: 'calves',
+};
+
+/**
+ * Muscle groups an exercise's hard sets count toward (its primary movers)
+ * Same classifier as the volume heatmap (utils/muscleVolume.ts), so a plan is
+ * judged on the muscles the user later sees it hit.
+ */
+export function classifyMuscleGroups(exerciseName: string): MuscleGroup[] {
+  const groups = resolveMuscleTargets(exerciseName).primary
+    .map(muscle => GROUP_OF[muscle])
+    .filter((group): group is MuscleGroup => group !== undefined);
+  return [...new Set(groups)];
+}
+
+const ISOLATION_KEYWORDS = ['curl', 'raise', 'extension', 'pushdown', 'fly', 'flye', 'calf', 'kickback', 'shrug', 'skull crusher'];
+
+const FUNDAMENTAL_OF: Partial<Record<MovementPattern, FundamentalPattern>> = {
+  squat: 'squat',
+  hinge: 'hinge',
+  push_horizontal: 'push',
+  push_vertical: 'push',
+  pull_horizontal: 'pull',
+  pull_vertical: 'pull',
+};
+
+const ALL_MUSCLES: MuscleGroup[] = ['chest', 'back', 'shoulders', 'quads', 'hamstrings', 'glutes', 'biceps', 'triceps', 'calves'];
+const FUNDAMENTAL_PATTERNS: FundamentalPattern[] = ['squat', 'hinge', 'push', 'pull'];
+
+/** Templates added when a fundamental pattern is missing (equipment-light on purpose) */
+const PATTERN_TEMPLATES: Record<FundamentalPattern, Exercise> = {
+  squat: { exercise_name: 'Goblet Squat', category: 'main', metrics_template: { type: 'sets_reps_weight', target_sets: 3, target_reps: '8-10', rest_period_s: 90 }, rpe: '7' },
+  hinge: { exercise_name: 'Dumbbell Romanian Deadlift', category: 'main', metrics_template: { type: 'sets_reps_weight', target_sets: 3, target_reps: '8-10', rest_period_s: 90 }, rpe: '7' },
+  push: { exercise_name: 'Push-up', category: 'main', metrics_template: { type: 'sets_reps', target_sets: 3, target_reps: '8-12', rest_period_s: 60 }, rpe: '7' },
+  pull: { exercise_name: 'Dumbbell Row', category: 'main', metrics_template: { type: 'sets_reps_weight', target_sets: 3, target_reps: '10-12', rest_period_s: 60 }, rpe: '7' },
+};
+
+// =============================================================================
+// PLAN TRAVERSAL HELPERS
+// =============================================================================
+
+interface ExerciseRef {
+  day: Day;
+  blocks: Block[]; // Block list the exercise lives in (day or session)
+  block: Block;
+  exercise: Exercise;
+}
+
+const getBlockLists = <B>(day: { blocks?: B[]; sessions?: Array<{ blocks: B[] }> }): B[][] => {
+  if (day.sessions && day.sessions.length > 0) {
+    return day.sessions.map(session => session.blocks || []);
+  }
+  return [day.blocks || []];
+};
+
+const collectExercises = (plan: Plan): ExerciseRef[] =>
+  (plan.weeklyPlan || []).flatMap(day =>
+    getBlockLists(day).flatMap(blocks =>
+      blocks.flatMap(block => (block.exercises || []).map(exercise => ({ day, blocks, block, exercise })))
+    )
+  );
+
+const isMainExercise = (exercise: Pick<Exercise, 'exercise_name' | 'category'>): boolean =>
+  (exercise.category || 'main') === 'main' && !!exercise.exercise_name;
+
+const isMainWork = (ref: ExerciseRef): boolean => isMainExercise(ref.exercise);
+
+const toNumber = (value: unknown): number | null => {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : value;
+  return typeof parsed === 'number' && !isNaN(parsed) && parsed > 0 ? parsed : null;
+};
+
+/** Working sets an exercise contributes (superset/circuit rounds override per-exercise sets) */
+const countWorkingSets = (block: Pick<Block, 'type' | 'rounds'>, exercise: Pick<Exercise, 'metrics_template'>): number => {
+  if ((block.type === 'superset' || block.type === 'circuit') && toNumber(block.rounds)) {
+    return toNumber(block.rounds)!;
+  }
+  const template = exercise.metrics_template || { type: '' };
+  return toNumber(template.target_sets) ?? toNumber(template.sets) ?? DEFAULT_SETS;
+};
+
+const getWorkingSets = (ref: ExerciseRef): number => countWorkingSets(ref.block, ref.exercise);
+
+/** Only what planned volume reads, so stored plans (rpe as string | number) fit without mapping */
+interface PlannedVolumeBlock {
+  type: string;
+  rounds?: number;
+  exercises: Array<Pick<Exercise, 'exercise_name' | 'category' | 'metrics_template'>>;
+}
+
+interface PlannedVolumeSource {
+  weeklyPlan: Array<{ blocks?: PlannedVolumeBlock[]; sessions?: Array<{ blocks: PlannedVolumeBlock[] }> }>;
+}
+
+/**
+ * Main-work exercises of a plan with the working sets each contributes per week
+ * (used by muscleVolume.ts for planned per-muscle volume)
+ */
+export function getPlannedWorkingSets(
+  plan: PlannedVolumeSource
+): Array<{ exercise_name: string; templateType: string; sets: number }> {
+  return (plan.weeklyPlan || []).flatMap(day =>
+    getBlockLists(day).flatMap(blocks =>
+      blocks.flatMap(block =>
+        (block.exercises || []).filter(isMainExercise).map(exercise => ({
+          exercise_name: exercise.exercise_name,
+          templateType: exercise.metrics_template?.type || '',
+          sets: countWorkingSets(block, exercise),
+        }))
+      )
+    )
+  );
+}
+
+const setWorkingSets = (ref: ExerciseRef, sets: number): void => {
+  const template = ref.exercise.metrics_template;
+  if (!template) return;
+  template.target_sets = sets;
+  if (template.sets !== undefined) template.sets = sets;
+};
+
+const canAdjustSets = (ref: ExerciseRef): boolean =>
+  ref.block.type !== 'superset' && ref.block.type !== 'circuit' && ref.block.type !== 'emom' && ref.block.type !== 'tabata';
+
+const dayLabel = (day: Day): string => `Day ${day.day_of_week} (${day.focus})`;
+
+// =============================================================================
+// INJURY MATCHING
+// =============================================================================
+
+const AREA_TO_PROTOCOL: Array<{ keyword: string; issue: string }> = [
+  { keyword: 'knee', issue: 'knee_pain' },
+  { keyword: 'back', issue: 'lower_back_pain' },
+  { keyword: 'spine', issue: 'lower_back_pain' },
+  { keyword: 'shoulder', issue: 'shoulder_pain' },
+  { keyword: 'hip', issue: 'hip_pain' },
+  { keyword: 'wrist', issue: 'wrist_pain' },
+  { keyword: 'ankle', issue: 'ankle_pain' },
+  { keyword: 'elbow', issue: 'elbow_pain' },
+];
+
+const getInjuryProtocols = (constraints: PlanQualityConstraints): InjuryProtocol[] => {
+  const areas = [
+    ...(constraints.painPoints || []),
+    ...(constraints.injuryProfile?.current_injuries || []).flatMap(injury => [injury.affected_area, injury.injury_type]),
+  ].map(area => area.toLowerCase());
+
+  const issues = new Set(
+    AREA_TO_PROTOCOL.filter(({ keyword }) => areas.some(area => area.includes(keyword))).map(({ issue }) => issue)
+  );
+  return INJURY_PROTOCOLS.filter(protocol => issues.has(protocol.issue));
+};
+
+/** "Leg Extensions (heavy)" → "leg extension" */
+const normalizeAvoidName = (name: string): string =>
+  name.toLowerCase().replace(/\(.*?\)/g, '').replace(/s\b/g, '').replace(/\s+/g, ' ').trim();
+
+interface Contraindication {
+  reason: string;
+  replacement: string | null;
+  source: string;
+}
+
+const findContraindication = (
+  exerciseName: string,
+  protocols: InjuryProtocol[],
+  constraints: PlanQualityConstraints
+): Contraindication | null => {
+  const name = normalizeAvoidName(exerciseName);
+
+  for (const protocol of protocols) {
+    const alternative = protocol.safe_alternatives.find(alt => name.includes(normalizeAvoidName(alt.avoid)));
+    if (alternative) {
+      return { reason: alternative.reason, replacement: alternative.use_instead, source: protocol.display_name };
+    }
+    const avoided = protocol.exercises_to_avoid.find(avoid => name.includes(normalizeAvoidName(avoid.exercise)));
+    if (avoided) {
+      return { reason: avoided.reason, replacement: null, source: protocol.display_name };
+    }
+  }
+
+  const restrictions = [
+    ...(constraints.injuryProfile?.movement_restrictions || []),
+    ...(constraints.injuryProfile?.pain_triggers || []),
+  ];
+  const restriction = restrictions.find(r => r.trim() && exerciseName.toLowerCase().includes(r.toLowerCase().trim()));
+  if (restriction) {
+    return { reason: `Listed as a movement restriction / pain trigger: ${restriction}`, replacement: null, source: 'Injury profile' };
+  }
+
+  return null;
+};
+
+// =============================================================================
+// MAIN VALIDATION FUNCTION
+// =============================================================================
+
+/**
+ * Validate programming quality of a structurally valid plan
+ */
+export function validatePlanQuality(plan: Plan, constraints: PlanQualityConstraints): PlanQualityResult {
+  const issues: PlanQualityIssue[] = [];
+  const exercises = collectExercises(plan);
+  const mainWork = exercises.filter(isMainWork);
+  const trainingDays = (plan.weeklyPlan || []).filter(isTrainingDay);
+  const isCardioFocused = constraints.trainingType === 'cardio_focused';
+  const level = (constraints.experienceLevel || 'intermediate').toLowerCase();
+  const setRange = WEEKLY_SET_RANGE[level] || WEEKLY_SET_RANGE.intermediate;
+
+  // ==========================================================================
+  // WEEKLY SETS PER MUSCLE GROUP
+  // ==========================================================================
+  const weeklySetsByMuscle = Object.fromEntries(ALL_MUSCLES.map(muscle => [muscle, 0])) as Record<MuscleGroup, number>;
+  let pushSets = 0;
+  let pullSets = 0;
+  const patternsCovered = new Set<FundamentalPattern>();
+
+  for (const ref of mainWork) {
+    const sets = getWorkingSets(ref);
+    classifyMuscleGroups(ref.exercise.exercise_name).forEach(muscle => {
+      weeklySetsByMuscle[muscle] += sets;
+    });
+
+    const fundamental = FUNDAMENTAL_OF[classifyMovementPattern(ref.exercise.exercise_name) || 'cardio'];
+    if (fundamental) patternsCovered.add(fundamental);
+    if (fundamental === 'push') pushSets += sets;
+    if (fundamental === 'pull') pullSets += sets;
+  }
+
+  if (!isCardioFocused) {
+    for (const muscle of ALL_MUSCLES) {
+      const sets = weeklySetsByMuscle[muscle];
+      if (sets > setRange.max) {
+        issues.push({
+          type: 'error',
+          category: 'muscle_volume_high',
+          message: `Too much ${muscle} volume: ${sets} weekly sets (max for ${level}: ${setRange.max})`,
+          details: { muscle, sets, max: setRange.max },
+          autoFixable: true, // Can trim sets across the muscle's exercises
+        });
+      } else if (
+        MIN_VOLUME_GROUPS.includes(muscle) &&
+        trainingDays.length >= MIN_TRAINING_DAYS_FOR_COVERAGE &&
+        sets < setRange.min
+      ) {
+        issues.push({
+          type: 'warning',
+          category: 'muscle_volume_low',
+          message: `Low ${muscle} volume: ${sets} weekly sets (min for ${level}: ${setRange.min})`,
+          details: { muscle, sets, min: setRange.min },
+          autoFixable: sets > 0, // Can add sets if the muscle is trained at all
+        });
+      }
+    }
+  }
+
+  // ==========================================================================
+  // PUSH / PULL BALANCE
+  // ==========================================================================
+  if (!isCardioFocused && pushSets >= MIN_SETS_FOR_BALANCE_CHECK && pushSets > pullSets * PUSH_PULL_WARNING_RATIO) {
+    const ratio = pullSets > 0 ? pushSets / pullSets : Infinity;
+    issues.push({
+      type: ratio > PUSH_PULL_ERROR_RATIO ? 'error' : 'warning',
+      category: 'push_pull_balance',
+      message: `Push/pull imbalance: ${pushSets} push sets vs ${pullSets} pull sets (pull should be at least ${Math.ceil(pushSets / PUSH_PULL_WARNING_RATIO)})`,
+      details: { pushSets, pullSets, targetPullSets: Math.ceil(pushSets / PUSH_PULL_WARNING_RATIO) },
+      autoFixable: true, // Can add pull sets or a row
+    });
+  }
+
+  // ==========================================================================
+  // MOVEMENT PATTERN COVERAGE
+  // ==========================================================================
+  const protocols = getInjuryProtocols(constraints);
+
+  if (!isCardioFocused && trainingDays.length >= MIN_TRAINING_DAYS_FOR_COVERAGE) {
+    for (const pattern of FUNDAMENTAL_PATTERNS) {
+      if (patternsCovered.has(pattern)) continue;
+      const template = PATTERN_TEMPLATES[pattern];
+      issues.push({
+        type: 'warning',
+        category: 'movement_pattern_coverage',
+        message: `No ${pattern} pattern in the week - include at least one ${pattern} exercise`,
+        details: { pattern },
+        // Don't add a template the user's injuries rule out - regenerate instead
+        autoFixable: !findContraindication(template.exercise_name, protocols, constraints),
+      });
+    }
+  }
+
+  // ==========================================================================
+  // SESSION LENGTH FIT
+  // ==========================================================================
+  const target = constraints.sessionLengthMinutes;
+  if (target > 0) {
+    for (const day of trainingDays) {
+      getBlockLists(day).forEach((blocks, sessionIndex) => {
+        const hasWork = blocks.some(block => (block.exercises || []).length > 0);
+        if (!hasWork) return;
+
+        const minutes = estimateWorkoutDuration({ blocks });
+        const label = day.sessions?.length ? `${dayLabel(day)} session ${sessionIndex + 1}` : dayLabel(day);
+
+        if (minutes > target * DURATION_OVER_TOLERANCE) {
+          issues.push({
+            type: 'error',
+            category: 'session_duration_long',
+            message: `${label} runs ~${minutes} min (requested ${target} min)`,
+            details: { dayOfWeek: day.day_of_week, sessionIndex, minutes, target },
+            autoFixable: true, // Can drop isolation work / trim sets
+          });
+        } else if (minutes < target * DURATION_UNDER_TOLERANCE) {
+          issues.push({
+            type: 'warning',
+            category: 'session_duration_short',
+            message: `${label} runs only ~${minutes} min (requested ${target} min) - add exercises`,
+            details: { dayOfWeek: day.day_of_week, sessionIndex, minutes, target },
+            autoFixable: false,
+          });
+        }
+      });
+    }
+  }
+
+  // ==========================================================================
+  // INJURY CONTRAINDICATIONS
+  // ==========================================================================
+  const flagged = new Set<string>();
+  for (const ref of exercises) {
+    const name = ref.exercise.exercise_name;
+    if (!name || flagged.has(name.toLowerCase())) continue;
+
+    const contraindication = findContraindication(name, protocols, constraints);
+    if (!contraindication) continue;
+
+    flagged.add(name.toLowerCase());
+    issues.push({
+      type: 'error',
+      category: 'injury_contraindication',
+      message: `"${name}" conflicts with ${contraindication.source}: ${contraindication.reason}` +
+        (contraindication.replacement ? ` (use ${contraindication.replacement})` : ''),
+      details: { exercise: name, replacement: contraindication.replacement },
+      autoFixable: true, // Swap for the protocol's alternative, or remove
+    });
+  }
+
+  const errors = issues.filter(i => i.type === 'error').length;
+  const warnings = issues.length - errors;
+
+  return {
+    valid: errors === 0,
+    score: Math.max(0, 100 - errors * 15 - warnings * 5),
+    issues,
+    weeklySetsByMuscle,
+    pushSets,
+    pullSets,
+    patternsCovered: FUNDAMENTAL_PATTERNS.filter(pattern => patternsCovered.has(pattern)),
+  };
+}
+
+// =============================================================================
+// AUTO-FIX FUNCTIONS
+// =============================================================================
+
+/**
+ * Attempt to automatically fix issues in a plan
+ */
+export function autoFixPlanQuality(
+  plan: Plan,
+  issues: PlanQualityIssue[],
+  constraints: PlanQualityConstraints
+): Plan {
+  // Deep clone the plan
+  const fixed = JSON.parse(JSON.stringify(plan)) as Plan;
+
+  // Injuries first so later fixes never add volume to an exercise that's about to go
+  const order: PlanQualityIssue['category'][] = [
+    'injury_contraindication',
+    'movement_pattern_coverage',
+    'push_pull_balance',
+    'muscle_volume_low',
+    'muscle_volume_high',
+    'session_duration_long',
+  ];
+  const autoFixableIssues = issues
+    .filter(i => i.autoFixable)
+    .sort((a, b) => order.indexOf(a.category) - order.indexOf(b.category));
+
+  for (const issue of autoFixableIssues) {
+    switch (issue.category) {
+      case 'injury_contraindication':
+        fixInjuryContraindication(fixed, issue.details?.exercise as string, issue.details?.replacement as string | null);
+        break;
+      case 'movement_pattern_coverage':
+        fixMissingPattern(fixed, issue.details?.pattern as FundamentalPattern);
+        break;
+      case 'push_pull_balance':
+        fixPushPullBalance(fixed, issue.details?.targetPullSets as number);
+        break;
+      case 'muscle_volume_low':
+        fixMuscleVolume(fixed, issue.details?.muscle as MuscleGroup, issue.details?.min as number);
+        break;
+      case 'muscle_volume_high':
+        fixMuscleVolume(fixed, issue.details?.muscle as MuscleGroup, issue.details?.max as number);
+        break;
+      case 'session_duration_long':
+        fixSessionDuration(
+          fixed,
+          issue.details?.dayOfWeek as number,
+          issue.details?.sessionIndex as number,
+          constraints.sessionLengthMinutes
+        );
+        break;
+    }
+  }
+
+  return fixed;
+}
+
+/**
+ * Swap a contraindicated exercise for the protocol's alternative, or remove it
+ */
+function fixInjuryContraindication(plan: Plan, exerciseName: string, replacement: string | null): void {
+  const target = exerciseName.toLowerCase();
+
+  for (const day of plan.weeklyPlan) {
+    for (const blocks of getBlockLists(day)) {
+      for (const block of blocks) {
+        if (!block.exercises) continue;
+
+        if (replacement) {
+          block.exercises.forEach(ex => {
+            if (ex.exercise_name.toLowerCase() !== target) return;
+            ex.exercise_name = replacement;
+            ex.notes = `${ex.notes || ''} [Swapped from ${exerciseName} for injury safety]`.trim();
+          });
+        } else {
+          block.exercises = block.exercises.filter(ex => ex.exercise_name.toLowerCase() !== target);
+        }
+      }
+      // Drop blocks the removal emptied
+      const remaining = blocks.filter(block => (block.exercises || []).length > 0);
+      blocks.splice(0, blocks.length, ...remaining);
+    }
+  }
+}
+
+/**
+ * Add a template exercise for a missing pattern to the shortest training day
+ */
+function fixMissingPattern(plan: Plan, pattern: FundamentalPattern): void {
+  const template = PATTERN_TEMPLATES[pattern];
+  if (!template) return;
+
+  const candidates = plan.weeklyPlan
+    .filter(isTrainingDay)
+    .map(day => {
+      const lists = getBlockLists(day);
+      // On 2x days, add to the session with the most strength work
+      const blocks = lists.reduce((best, current) =>
+        current.filter(b => b.exercises?.some(ex => classifyMuscleGroups(ex.exercise_name).length > 0)).length >
+        best.filter(b => b.exercises?.some(ex => classifyMuscleGroups(ex.exercise_name).length > 0)).length ? current : best
+      , lists[0]);
+      return { day, blocks, minutes: estimateWorkoutDuration({ blocks }) };
+    })
+    .sort((a, b) => a.minutes - b.minutes || a.day.day_of_week - b.day.day_of_week);
+
+  const target = candidates[0];
+  if (!target) return;
+
+  // Insert before the cooldown block if there is one
+  const cooldownIndex = target.blocks.findIndex(block =>
+    (block.exercises || []).length > 0 && block.exercises.every(ex => ex.category === 'cooldown')
+  );
+  const newBlock: Block = {
+    type: 'single',
+    title: `${pattern.charAt(0).toUpperCase()}${pattern.slice(1)} pattern`,
+    exercises: [{ ...template, metrics_template: { ...template.metrics_template }, notes: 'Added for movement-pattern balance' }],
+  };
+  target.blocks.splice(cooldownIndex === -1 ? target.blocks.length : cooldownIndex, 0, newBlock);
+}
+
+/**
+ * Raise pull volume (adding a row if needed), then trim pressing until
+ * the push/pull ratio is back in range
+ */
+function fixPushPullBalance(plan: Plan, targetPullSets: number): void {
+  const refsFor = (pattern: FundamentalPattern) => collectExercises(plan).filter(ref =>
+    isMainWork(ref) && FUNDAMENTAL_OF[classifyMovementPattern(ref.exercise.exercise_name) || 'cardio'] === pattern
+  );
+  const totalSets = (refs: ExerciseRef[]) => refs.reduce((sum, ref) => sum + getWorkingSets(ref), 0);
+
+  const raisePulls = () => {
+    let pullSets = totalSets(refsFor('pull'));
+    for (const ref of refsFor('pull')) {
+      while (pullSets < targetPullSets && canAdjustSets(ref) && getWorkingSets(ref) < MAX_SETS_PER_EXERCISE) {
+        setWorkingSets(ref, getWorkingSets(ref) + 1);
+        pullSets++;
+      }
+    }
+    return pullSets;
+  };
+
+  if (raisePulls() < targetPullSets) {
+    fixMissingPattern(plan, 'pull');
+    raisePulls();
+  }
+
+  // Still short - bring pressing down to match
+  const pullSets = totalSets(refsFor('pull'));
+  let pushSets = totalSets(refsFor('push'));
+  let trimmed = true;
+  while (pushSets > pullSets * PUSH_PULL_WARNING_RATIO && trimmed) {
+    trimmed = false;
+    const biggest = refsFor('push')
+      .filter(ref => canAdjustSets(ref) && getWorkingSets(ref) > MIN_SETS_PER_EXERCISE)
+      .sort((a, b) => getWorkingSets(b) - getWorkingSets(a))[0];
+    if (biggest) {
+      setWorkingSets(biggest, getWorkingSets(biggest) - 1);
+      pushSets--;
+      trimmed = true;
+    }
+  }
+}
+
+/**
+ * Move a muscle group's weekly sets toward a target (adds or trims 1 set at a time)
+ */
+function fixMuscleVolume(plan: Plan, muscle: MuscleGroup, targetSets: number): void {
+  const refs = collectExercises(plan).filter(ref =>
+    isMainWork(ref) && canAdjustSets(ref) && classifyMuscleGroups(ref.exercise.exercise_name).includes(muscle)
+  );
+  if (refs.length === 0) return;
+
+  let total = collectExercises(plan)
+    .filter(ref => isMainWork(ref) && classifyMuscleGroups(ref.exercise.exercise_name).includes(muscle))
+    .reduce((sum, ref) => sum + getWorkingSets(ref), 0);
+
+  // Round-robin so no single exercise absorbs the whole change
+  let changed = true;
+  while (total !== targetSets && changed) {
+    changed = false;
+    for (const ref of refs) {
+      if (total === targetSets) break;
+      const sets = getWorkingSets(ref);
+      if (total < targetSets && sets < MAX_SETS_PER_EXERCISE) {
+        setWorkingSets(ref, sets + 1);
+        total++;
+        changed = true;
+      } else if (total > targetSets && sets > MIN_SETS_PER_EXERCISE) {
+        setWorkingSets(ref, sets - 1);
+        total--;
+        changed = true;
+      }
+    }
+  }
+}
+
+/**
+ * Bring an overlong session back toward the requested length:
+ * drop isolation work first, then trim sets on the remaining main lifts
+ */
+function fixSessionDuration(plan: Plan, dayOfWeek: number, sessionIndex: number, targetMinutes: number): void {
+  const day = plan.weeklyPlan.find(d => d.day_of_week === dayOfWeek);
+  const blocks = day ? getBlockLists(day)[sessionIndex] : undefined;
+  if (!blocks) return;
+
+  const limit = targetMinutes * 1.1;
+  const mainExercises = () => blocks.flatMap(block =>
+    (block.exercises || []).filter(ex => (ex.category || 'main') === 'main').map(exercise => ({ block, exercise }))
+  );
+
+  // 1. Remove isolation exercises, last first, keeping at least 2 main exercises
+  const isolation = mainExercises()
+    .filter(({ exercise }) => ISOLATION_KEYWORDS.some(keyword => exercise.exercise_name.toLowerCase().includes(keyword)))
+    .reverse();
+  for (const { block, exercise } of isolation) {
+    if (estimateWorkoutDuration({ blocks }) <= limit || mainExercises().length <= 2) break;
+    block.exercises = block.exercises.filter(ex => ex !== exercise);
+  }
+
+  // 2. Trim one set at a time from the biggest main exercises
+  let trimmed = true;
+  while (estimateWorkoutDuration({ blocks }) > limit && trimmed) {
+    trimmed = false;
+    const refs = mainExercises()
+      .map(({ block, exercise }) => ({ day: day!, blocks, block, exercise }))
+      .filter(ref => canAdjustSets(ref) && getWorkingSets(ref) > MIN_SETS_PER_EXERCISE)
+      .sort((a, b) => getWorkingSets(b) - getWorkingSets(a));
+    if (refs[0]) {
+      setWorkingSets(refs[0], getWorkingSets(refs[0]) - 1);
+      trimmed = true;
+    }
+  }
+
+  const remaining = blocks.filter(block => (block.exercises || []).length > 0);
+  blocks.splice(0, blocks.length, ...remaining);
+}
+
+// =============================================================================
+// REGENERATION FEEDBACK
+// =============================================================================
+
+/**
+ * Generate feedback for regeneration attempt
+ */
+export function generatePlanQualityFeedback(result: PlanQualityResult): string {
+  const lines: string[] = [
+    'The previous plan had the following programming issues that must be fixed:',
+    '',
+  ];
+
+  for (const issue of result.issues) {
+    const prefix = issue.type === 'error' ? '❌ ERROR' : '⚠️ WARNING';
+    lines.push(`${prefix}: ${issue.message}`);
+  }
+
+  lines.push('');
+  lines.push('Please regenerate the plan addressing ALL of these issues.');
+  lines.push('');
+
+  // Add specific guidance
+  const missingPatterns = FUNDAMENTAL_PATTERNS.filter(pattern => !result.patternsCovered.includes(pattern));
+  if (missingPatterns.length > 0) {
+    lines.push(`Specific guidance: Every week needs at least one exercise for each of: ${missingPatterns.join(', ')}.`);
+  }
+  if (result.issues.some(i => i.category === 'push_pull_balance')) {
+    lines.push('Specific guidance: Program at least as many pulling sets (rows, pull-ups) as pressing sets.');
+  }
+  if (result.issues.some(i => i.category === 'injury_contraindication')) {
+    lines.push('Specific guidance: Use the "USE INSTEAD" alternatives from the injury protocols - never the avoided exercises.');
+  }
+
+  return lines.join('\n');
+}
+
+// =============================================================================
+// FULL VALIDATION WORKFLOW
+// =============================================================================
+
+export interface PlanQualityOutcome {
+  success: boolean;
+  plan: Plan;
+  validationResult: PlanQualityResult;
+  regenerationFeedback?: string;
+}
+
+/**
+ * Full validation workflow with auto-fix attempt
+ *
+ * Unlike the Hyrox flow, fixable warnings are fixed too - they're cheap
+ * deterministic edits and never worth a regeneration on their own.
+ */
+export function validateAndFixPlanQuality(plan: Plan, constraints: PlanQualityConstraints): PlanQualityOutcome {
+  // First validation pass
+  const firstValidation = validatePlanQuality(plan, constraints);
+
+  // Check if any issues are auto-fixable
+  if (!firstValidation.issues.some(i => i.autoFixable)) {
+    return firstValidation.valid
+      ? { success: true, plan, validationResult: firstValidation }
+      : {
+          success: false,
+          plan,
+          validationResult: firstValidation,
+          regenerationFeedback: generatePlanQualityFeedback(firstValidation),
+        };
+  }
+
+  // Attempt auto-fix, then re-validate. A second pass catches fixes that
+  // pull against each other (e.g. trimming an overlong day undoes pull sets)
+  let fixedPlan = plan;
+  let validation = firstValidation;
+  for (let pass = 0; pass < MAX_FIX_PASSES && validation.issues.some(i => i.autoFixable); pass++) {
+    fixedPlan = autoFixPlanQuality(fixedPlan, validation.issues, constraints);
+    validation = validatePlanQuality(fixedPlan, constraints);
+    if (validation.valid) {
+      return { success: true, plan: fixedPlan, validationResult: validation };
+    }
+  }
+
+  // Auto-fix didn't fully resolve issues
+  return {
+    success: false,
+    plan: fixedPlan,
+    validationResult: validation,
+    regenerationFeedback: generatePlanQualityFeedback(validation),
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Plan Revision History
+ *
+ * Lists a plan's revisions, diffs a revision against the version before it
+ * (and against the current plan), and restores any revision. Restoring is
+ * itself recorded as a new revision, so it can be rolled back too.
+ */
+
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { verifyAuthenticatedUser, isAuthenticatedUser } from "./utils/accessControl";
+import { recordPlanRevision } from "./utils/planRevisions";
+import { diffWeeklyPlans } from "./utils/chatActions";
+
+/**
+ * Revisions of a plan, newest first (null if not authorized)
+ */
+export const getPlanRevisions = query({
+  args: {
+    userId: v.string(),
+    planId: v.id("workoutPlans"),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
+    const plan = await ctx.db.get(args.planId);
+    if (!plan || plan.userId !== args.userId) {
+      return null;
+    }
+
+    const revisions = await ctx.db
+      .query("planRevisions")
+      .withIndex("by_planId_revision", (q) => q.eq("planId", args.planId))
+      .collect();
+
+    const currentJson = JSON.stringify(plan.weeklyPlan);
+    return revisions
+      .map((revision, i) => ({
+        _id: revision._id,
+        revision: revision.revision,
+        author: revision.author,
+        summary: revision.summary,
+        createdAt: revision.createdAt,
+        restoredFromRevision: revision.restoredFromRevision ?? null,
+        changeCount: i > 0 ? diffWeeklyPlans(revisions[i - 1].weeklyPlan, revision.weeklyPlan).length : 0,
+        isCurrent: JSON.stringify(revision.weeklyPlan) === currentJson,
+      }))
+      .reverse();
+  },
+});
+
+/**
+ * Per-exercise diff for one revision
+ * `changes`: what this revision changed from the one before it.
+ * `restoreChanges`: what restoring it would change in the current plan.
+ */
+export const getPlanRevisionDiff = query({
+  args: {
+    userId: v.string(),
+    revisionId: v.id("planRevisions"),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
+    const revision = await ctx.db.get(args.revisionId);
+    if (!revision || revision.userId !== args.userId) {
+      return null;
+    }
+
+    const plan = await ctx.db.get(revision.planId);
+    if (!plan) {
+      return null;
+    }
+
+    const previous = await ctx.db
+      .query("planRevisions")
+      .withIndex("by_planId_revision", (q) =>
+        q.eq("planId", revision.planId).lt("revision", revision.revision)
+      )
+      .order("desc")
+      .first();
+
+    return {
+      revision: revision.revision,
+      author: revision.author,
+      summary: revision.summary,
+      createdAt: revision.createdAt,
+      changes: previous ? diffWeeklyPlans(previous.weeklyPlan, revision.weeklyPlan) : [],
+      restoreChanges: diffWeeklyPlans(plan.weeklyPlan, revision.weeklyPlan),
+    };
+  },
+});
+
+/**
+ * Restore a plan to a previous revision
+ */
+export const restorePlanRevision = mutation({
+  args: {
+    userId: v.string(),
+    revisionId: v.id("planRevisions"),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const revision = await ctx.db.get(args.revisionId);
+    if (!revision || revision.userId !== args.userId) {
+      throw new Error("Revision not found or access denied");
+    }
+
+    const plan = await ctx.db.get(revision.planId);
+    if (!plan || plan.userId !== args.userId) {
+      throw new Error("Plan not found or access denied");
+    }
+
+    await ctx.db.patch(revision.planId, { weeklyPlan: revision.weeklyPlan });
+    await recordPlanRevision(ctx, {
+      userId: args.userId,
+      planId: revision.planId,
+      weeklyPlan: revision.weeklyPlan,
+      previousWeeklyPlan: plan.weeklyPlan,
+      author: "user",
+      summary: `Restored version ${revision.revision}`,
+      restoredFromRevision: revision.revision,
+    });
+
+    return { revision: revision.revision };
+  },
+});
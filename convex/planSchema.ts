@@ -22,7 +22,7 @@ export type SessionLength = '30' | '45' | '60' | '90' | '120' | '150+';
 export type PeriodizationPhase = 'base' | 'build' | 'peak' | 'taper' | 'recovery';
 
 // Block types for workout structure
-export type BlockType = 'single' | 'superset' | 'amrap' | 'circuit' | 'emom';
+export type BlockType = 'single' | 'superset' | 'amrap' | 'circuit' | 'emom' | 'tabata';
 
 /**
  * JSON Schema Prompt for AI Generation/Parsing
@@ -46,10 +46,13 @@ export const PLAN_SCHEMA_PROMPT = `
 
     // For SINGLE session days, use "blocks":
     "blocks": [{
-      "type": "single|superset|amrap|circuit|emom",
+      "type": "single|superset|amrap|circuit|emom|tabata",
       "exercises": [...],
-      "rounds": 4,  // For superset/circuit
+      "rounds": 4,  // For superset/circuit/tabata
       "duration_minutes": 10,  // For amrap/emom
+      "interval_seconds": 60,  // For emom (120 = E2MOM)
+      "work_seconds": 20,  // For tabata
+      "rest_seconds": 10,  // For tabata
       "notes": "Block notes"
     }],
 
@@ -68,7 +71,8 @@ export const PLAN_SCHEMA_PROMPT = `
 - "superset": 2-4 exercises performed back-to-back, has "rounds" field
 - "amrap": As Many Rounds As Possible, has "duration_minutes" field
 - "circuit": 4+ exercises with minimal rest, has "rounds" field
-- "emom": Every Minute On the Minute, has "duration_minutes" field
+- "emom": Every Minute On the Minute, has "duration_minutes" (+ optional "interval_seconds") field; exercises rotate each interval
+- "tabata": Fixed work/rest intervals, has "rounds", "work_seconds", "rest_seconds" fields (classic = 8 × 20s/10s)
 
 **EXERCISE FORMAT:**
 {
@@ -233,6 +237,17 @@ EMOM (Every Minute On the Minute):
     { "exercise_name": "Even: Box Jumps", "metrics_template": { "type": "SetsReps", "reps": 5 } }
   ]
 }
+
+TABATA (work/rest intervals):
+{
+  "type": "tabata",
+  "rounds": 8,
+  "work_seconds": 20,
+  "rest_seconds": 10,
+  "exercises": [
+    { "exercise_name": "Assault Bike Sprint", "metrics_template": { "type": "SetsDuration", "duration_seconds": 20 } }
+  ]
+}
 `;
 
 /**
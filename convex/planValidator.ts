@@ -70,17 +70,20 @@ interface Exercise {
   category: string;
   metrics_template: MetricsTemplateFields;
   notes?: string | null;
-  rpe?: string | null;
+  rpe?: number | string | null;
   original_exercise_name?: string;
 }
 
 interface Block {
   type: string;
   exercises: Exercise[];
-  title?: string;
-  notes?: string;
+  title?: string | null;
+  notes?: string | null;
   rounds?: number;
   duration_minutes?: number;
+  interval_seconds?: number; // emom
+  work_seconds?: number; // tabata
+  rest_seconds?: number; // tabata
 }
 
 interface Session {
@@ -95,11 +98,11 @@ interface Day {
   focus: string;
   blocks?: Block[];
   sessions?: Session[];
-  notes?: string;
+  notes?: string | null;
   estimated_duration?: number;
 }
 
-interface Plan {
+export interface Plan {
   name: string;
   weeklyPlan: Day[];
   periodization?: {
@@ -316,7 +319,7 @@ function validateBlock(block: Block, blockIndex: number, parentLabel: string, er
   const blockLabel = `${parentLabel} > Block ${blockIndex + 1}`;
 
   // Check block type
-  const validBlockTypes = ['single', 'superset', 'amrap', 'circuit', 'emom'];
+  const validBlockTypes = ['single', 'superset', 'amrap', 'circuit', 'emom', 'tabata'];
   if (!block.type) {
     errors.push(`${blockLabel}: Missing 'type' field`);
   } else if (!validBlockTypes.includes(block.type)) {
@@ -346,6 +349,28 @@ function validateBlock(block: Block, blockIndex: number, parentLabel: string, er
       errors.push(`${blockLabel}: ${block.type} must have 'duration_minutes' field (number >= 1)`);
     }
   }
+
+  if (block.type === 'emom') {
+    if (block.interval_seconds !== undefined && (typeof block.interval_seconds !== 'number' || block.interval_seconds < 15)) {
+      errors.push(`${blockLabel}: emom 'interval_seconds' must be a number >= 15`);
+    }
+    const intervals = (block.duration_minutes || 0) * 60 / (block.interval_seconds || 60);
+    if (intervals > 0 && intervals < block.exercises.length) {
+      warnings.push(`${blockLabel}: emom has fewer intervals (${Math.floor(intervals)}) than exercises (${block.exercises.length})`);
+    }
+  }
+
+  if (block.type === 'tabata') {
+    if (!block.rounds || typeof block.rounds !== 'number' || block.rounds < 1) {
+      errors.push(`${blockLabel}: tabata must have 'rounds' field (number >= 1)`);
+    }
+    if (!block.work_seconds || typeof block.work_seconds !== 'number' || block.work_seconds < 5) {
+      errors.push(`${blockLabel}: tabata must have 'work_seconds' field (number >= 5)`);
+    }
+    if (block.rest_seconds === undefined || typeof block.rest_seconds !== 'number' || block.rest_seconds < 0) {
+      errors.push(`${blockLabel}: tabata must have 'rest_seconds' field (number >= 0)`);
+    }
+  }
 }
 
 // Cardio exercises that should NEVER use sets_reps_weight
@@ -882,6 +907,10 @@ export function fixCardioTemplates(plan: Plan, sessionDurationMinutes?: number):
         'circuits': 'circuit',
         'amraps': 'amrap',
         'emoms': 'emom',
+        'tabatas': 'tabata',
+        // Generic intervals (6×800m runs) aren't Tabata - only explicit emom/tabata get a timer
+        'interval': 'single',
+        'intervals': 'single',
         'singles': 'single',
         // DeepSeek often uses descriptive block types instead of structural ones
         'warmup': 'single',
@@ -917,6 +946,19 @@ export function fixCardioTemplates(plan: Plan, sessionDurationMinutes?: number):
         console.log(`[planValidator] Added missing 'rounds: 3' to ${block.type} block`);
       }
 
+      // ═══════════════════════════════════════════════════════════
+      // FIX: Timed blocks missing their timing fields
+      // ═══════════════════════════════════════════════════════════
+      if (block.type === 'emom' && !block.duration_minutes) {
+        block.duration_minutes = Math.max(block.exercises?.length || 1, 10);
+        console.log(`[planValidator] Added missing 'duration_minutes: ${block.duration_minutes}' to emom block`);
+      }
+      if (block.type === 'tabata') {
+        if (!block.rounds) block.rounds = 8;
+        if (!block.work_seconds) block.work_seconds = 20;
+        if (block.rest_seconds === undefined) block.rest_seconds = 10;
+      }
+
       if (block.exercises && Array.isArray(block.exercises)) {
         processExercises(block.exercises);
       }
@@ -132,7 +132,7 @@ export const populateExerciseCacheForPlan = action({
   },
   handler: async (ctx, args) => {
     // Get the plan
-    const plan = await ctx.runQuery(api.queries.getWorkoutPlan, { planId: args.planId });
+    const plan = await ctx.runQuery(internal.queries.getWorkoutPlanInternal, { planId: args.planId });
     if (!plan) {
       return { success: false, error: "Plan not found" };
     }
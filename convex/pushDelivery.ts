@@ -0,0 +1,300 @@
+/**
+ * Push Delivery Worker
+ *
+ * Every notification row starts "pending". A cron (scheduledJobs.ts) runs
+ * `deliverPendingNotifications`, which:
+ * 1. Claims a batch - suppressing what shouldn't be pushed (type disabled, no token,
+ *    duplicate, stale) and deferring what falls in the user's quiet hours until they end
+ * 2. Sends one push per user through the platform's provider (utils/pushProviders.ts)
+ * 3. Records the outcome - sent, retried, failed - and prunes tokens providers report dead
+ *
+ * Suppressed notifications are still shown in-app; only the push is skipped.
+ */
+
+import { v } from "convex/values";
+import { internalAction, internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc } from "./_generated/dataModel";
+import { getPushProvider, PushPlatform, PushProvider, PushResult } from "./utils/pushProviders";
+import {
+  buildPushGroup,
+  getDedupeKey,
+  getQuietHoursEnd,
+  isInQuietHours,
+  PushGroup,
+} from "./utils/pushScheduling";
+import {
+  PUSH_CLAIM_TIMEOUT_MINUTES,
+  PUSH_DEDUPE_WINDOW_HOURS,
+  PUSH_DELIVERY_BATCH_SIZE,
+  PUSH_MAX_AGE_HOURS,
+  PUSH_MAX_ATTEMPTS,
+} from "./utils/constants";
+import { loggers } from "./utils/logger";
+
+const HOUR_MS = 60 * 60 * 1000;
+const SEND_CONCURRENCY = 20;
+
+/**
+ * Claim the next batch of pending notifications and group them into pushes
+ */
+export const claimPendingNotifications = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<{ groups: PushGroup[]; suppressed: number; deferred: number }> => {
+    const now = new Date();
+    const nowIso = now.toISOString();
+
+    // Claims from a run that died mid-send go back in the queue
+    const claimCutoff = new Date(now.getTime() - PUSH_CLAIM_TIMEOUT_MINUTES * 60 * 1000).toISOString();
+    const abandoned = await ctx.db
+      .query("pushNotifications")
+      .withIndex("by_deliveryStatus_sentAt", (q) => q.eq("deliveryStatus", "sending"))
+      .filter((q) => q.lt(q.field("deliveryClaimedAt"), claimCutoff))
+      .take(PUSH_DELIVERY_BATCH_SIZE);
+    for (const notification of abandoned) {
+      await ctx.db.patch(notification._id, { deliveryStatus: "pending", deliveryClaimedAt: undefined });
+    }
+
+    // Only rows that are due: ones deferred by quiet hours carry deliverAfter and stay
+    // out of the batch until then, so they can't crowd out deliverable work.
+    // Rows without it (undefined sorts first) are due now.
+    const pending = await ctx.db
+      .query("pushNotifications")
+      .withIndex("by_deliveryStatus_deliverAfter", (q) =>
+        q.eq("deliveryStatus", "pending").lte("deliverAfter", nowIso)
+      )
+      .take(PUSH_DELIVERY_BATCH_SIZE);
+
+    const byUser = new Map<string, Doc<"pushNotifications">[]>();
+    for (const notification of pending) {
+      byUser.set(notification.userId, [...(byUser.get(notification.userId) || []), notification]);
+    }
+
+    const staleCutoff = new Date(now.getTime() - PUSH_MAX_AGE_HOURS * HOUR_MS).toISOString();
+    const dedupeCutoff = new Date(now.getTime() - PUSH_DEDUPE_WINDOW_HOURS * HOUR_MS).toISOString();
+    const groups: PushGroup[] = [];
+    let suppressed = 0;
+    let deferred = 0;
+
+    const suppress = async (notification: Doc<"pushNotifications">, reason: string) => {
+      await ctx.db.patch(notification._id, { deliveryStatus: "suppressed", deliveryError: reason });
+      suppressed++;
+    };
+
+    for (const [userId, notifications] of byUser) {
+      const settings = await ctx.db
+        .query("pushSettings")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .first();
+
+      const deliverAfter = settings && isInQuietHours(now, settings)
+        ? getQuietHoursEnd(now, settings).toISOString()
+        : null;
+      const seenKeys = new Set<string>();
+      const deliverable: Doc<"pushNotifications">[] = [];
+
+      for (const notification of notifications) {
+        if (notification.sentAt < staleCutoff) {
+          await suppress(notification, "stale");
+          continue;
+        }
+        if (!settings?.pushToken) {
+          await suppress(notification, "no push token");
+          continue;
+        }
+        if (!settings.enabledTypes[notification.type]) {
+          await suppress(notification, "type disabled");
+          continue;
+        }
+
+        const key = getDedupeKey(notification);
+        const alreadySent = seenKeys.has(key) || await ctx.db
+          .query("pushNotifications")
+          .withIndex("by_userId_type", (q) => q.eq("userId", userId).eq("type", notification.type))
+          .filter((q) => q.and(
+            q.eq(q.field("deliveryStatus"), "sent"),
+            q.gte(q.field("deliveredAt"), dedupeCutoff)
+          ))
+          .collect()
+          .then(sent => sent.some(s => getDedupeKey(s) === key));
+        if (alreadySent) {
+          await suppress(notification, "duplicate");
+          continue;
+        }
+        seenKeys.add(key);
+
+        // Stays pending - picked up by the first run after quiet hours end
+        if (deliverAfter) {
+          await ctx.db.patch(notification._id, { deliverAfter });
+          deferred++;
+          continue;
+        }
+        deliverable.push(notification);
+      }
+
+      if (deliverable.length === 0 || !settings?.pushToken) continue;
+
+      for (const notification of deliverable) {
+        await ctx.db.patch(notification._id, {
+          deliveryStatus: "sending",
+          deliveryClaimedAt: nowIso,
+          pushToken: settings.pushToken,
+        });
+      }
+      groups.push(buildPushGroup(userId, settings.pushToken, settings.platform, deliverable));
+    }
+
+    return { groups, suppressed, deferred };
+  },
+});
+
+/**
+ * Record provider results for claimed notifications
+ * Dead tokens are removed from pushSettings so no further pushes are attempted.
+ */
+export const recordDeliveryResults = internalMutation({
+  args: {
+    results: v.array(v.object({
+      userId: v.string(),
+      token: v.string(),
+      notificationIds: v.array(v.id("pushNotifications")),
+      ok: v.boolean(),
+      error: v.optional(v.string()),
+      invalidToken: v.optional(v.boolean()),
+      retryable: v.optional(v.boolean()),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const nowIso = new Date().toISOString();
+    let sent = 0;
+    let retried = 0;
+    let failed = 0;
+    let prunedTokens = 0;
+
+    for (const result of args.results) {
+      for (const notificationId of result.notificationIds) {
+        const notification = await ctx.db.get(notificationId);
+        if (!notification || notification.deliveryStatus !== "sending") continue;
+
+        const attempts = (notification.deliveryAttempts ?? 0) + 1;
+
+        if (result.ok) {
+          await ctx.db.patch(notificationId, {
+            deliveryStatus: "sent",
+            delivered: true,
+            deliveredAt: nowIso,
+            deliveryAttempts: attempts,
+            deliveryError: undefined,
+            deliveryClaimedAt: undefined,
+          });
+          sent++;
+        } else if (result.retryable && !result.invalidToken && attempts < PUSH_MAX_ATTEMPTS) {
+          await ctx.db.patch(notificationId, {
+            deliveryStatus: "pending",
+            deliveryAttempts: attempts,
+            deliveryError: result.error,
+            deliveryClaimedAt: undefined,
+          });
+          retried++;
+        } else {
+          await ctx.db.patch(notificationId, {
+            deliveryStatus: "failed",
+            deliveryAttempts: attempts,
+            deliveryError: result.error,
+            deliveryClaimedAt: undefined,
+          });
+          failed++;
+        }
+      }
+
+      if (result.invalidToken) {
+        const settings = await ctx.db
+          .query("pushSettings")
+          .withIndex("by_userId", (q) => q.eq("userId", result.userId))
+          .first();
+
+        // Only if the device hasn't re-registered a new token in the meantime
+        if (settings?.pushToken === result.token) {
+          await ctx.db.patch(settings._id, {
+            pushToken: undefined,
+            tokenInvalidatedAt: nowIso,
+            lastUpdated: nowIso,
+          });
+          prunedTokens++;
+        }
+      }
+    }
+
+    return { sent, retried, failed, prunedTokens };
+  },
+});
+
+/**
+ * Deliver pending push notifications
+ * Called by cron every 5 minutes (scheduledJobs.ts)
+ */
+export const deliverPendingNotifications = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const claim: { groups: PushGroup[]; suppressed: number; deferred: number } =
+      await ctx.runMutation(internal.pushDelivery.claimPendingNotifications, {});
+
+    if (claim.groups.length === 0) {
+      if (claim.suppressed > 0 || claim.deferred > 0) {
+        loggers.actions.info(`📲 Nothing to push (${claim.suppressed} suppressed, ${claim.deferred} in quiet hours)`);
+      }
+      return { pushes: 0, suppressed: claim.suppressed, deferred: claim.deferred };
+    }
+
+    // One provider per platform per run, so auth tokens are reused across sends
+    const providers = new Map<PushPlatform | undefined, PushProvider>();
+    const providerFor = (platform: PushPlatform | undefined) => {
+      if (!providers.has(platform)) providers.set(platform, getPushProvider(platform));
+      return providers.get(platform)!;
+    };
+
+    const results: Array<PushResult & Pick<PushGroup, "userId" | "token" | "notificationIds">> = [];
+    for (let i = 0; i < claim.groups.length; i += SEND_CONCURRENCY) {
+      const chunk = claim.groups.slice(i, i + SEND_CONCURRENCY);
+      const chunkResults = await Promise.all(
+        chunk.map(async (group): Promise<PushResult> => {
+          try {
+            return await providerFor(group.platform).send({
+              token: group.token,
+              title: group.title,
+              body: group.body,
+              data: group.data,
+            });
+          } catch (error: any) {
+            // Network errors and provider auth failures are worth another try
+            return { ok: false, error: error?.message || String(error), retryable: true };
+          }
+        })
+      );
+
+      chunk.forEach((group, idx) => {
+        const { ok, error, invalidToken, retryable } = chunkResults[idx];
+        results.push({
+          userId: group.userId,
+          token: group.token,
+          notificationIds: group.notificationIds,
+          ok,
+          ...(error !== undefined && { error }),
+          ...(invalidToken !== undefined && { invalidToken }),
+          ...(retryable !== undefined && { retryable }),
+        });
+      });
+    }
+
+    const recorded: { sent: number; retried: number; failed: number; prunedTokens: number } =
+      await ctx.runMutation(internal.pushDelivery.recordDeliveryResults, { results });
+
+    loggers.actions.info(
+      `📲 Pushed ${claim.groups.length} (${recorded.sent} notifications sent, ${recorded.retried} retrying, ` +
+      `${recorded.failed} failed, ${recorded.prunedTokens} dead tokens pruned, ${claim.suppressed} suppressed, ` +
+      `${claim.deferred} in quiet hours)`
+    );
+
+    return { pushes: claim.groups.length, suppressed: claim.suppressed, deferred: claim.deferred, ...recorded };
+  },
+});
@@ -0,0 +1,135 @@
+import { v } from "convex/values";
+import { mutation } from "./_generated/server";
+import { verifyAuthenticatedUser } from "./utils/accessControl";
+
+const DEFAULT_ENABLED_TYPES = {
+  new_week_ready: true,
+  phase_change: true,
+  deload_reminder: true,
+  event_countdown: true,
+  workout_reminder: true,
+  streak_at_risk: true,
+  pr_achieved: true,
+};
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Register the device push token (called on app launch after permission is granted)
+ * A token moves with the device - it's removed from any other account that had it.
+ */
+export const registerPushToken = mutation({
+  args: {
+    userId: v.string(),
+    pushToken: v.string(),
+    platform: v.union(v.literal("ios"), v.literal("android")),
+    timezone: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const now = new Date().toISOString();
+    const timezone = args.timezone && isValidTimezone(args.timezone) ? args.timezone : undefined;
+
+    const previousOwners = await ctx.db
+      .query("pushSettings")
+      .withIndex("by_pushToken", (q) => q.eq("pushToken", args.pushToken))
+      .collect();
+    for (const owner of previousOwners.filter(o => o.userId !== args.userId)) {
+      await ctx.db.patch(owner._id, { pushToken: undefined, lastUpdated: now });
+    }
+
+    const settings = await ctx.db
+      .query("pushSettings")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .first();
+
+    if (settings) {
+      await ctx.db.patch(settings._id, {
+        pushToken: args.pushToken,
+        platform: args.platform,
+        tokenInvalidatedAt: undefined,
+        ...(timezone && { timezone }),
+        lastUpdated: now,
+      });
+    } else {
+      await ctx.db.insert("pushSettings", {
+        userId: args.userId,
+        pushToken: args.pushToken,
+        platform: args.platform,
+        enabledTypes: DEFAULT_ENABLED_TYPES,
+        timezone,
+        lastUpdated: now,
+      });
+    }
+
+    return { success: true };
+  },
+});
+
+/**
+ * Update push preferences: per-type toggles, quiet hours, timezone
+ */
+export const updatePushSettings = mutation({
+  args: {
+    userId: v.string(),
+    enabledTypes: v.optional(v.object({
+      new_week_ready: v.boolean(),
+      phase_change: v.boolean(),
+      deload_reminder: v.boolean(),
+      event_countdown: v.boolean(),
+      workout_reminder: v.boolean(),
+      streak_at_risk: v.boolean(),
+      pr_achieved: v.boolean(),
+    })),
+    quietHoursStart: v.optional(v.union(v.number(), v.null())), // null clears quiet hours
+    quietHoursEnd: v.optional(v.union(v.number(), v.null())),
+    timezone: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    for (const hour of [args.quietHoursStart, args.quietHoursEnd]) {
+      if (typeof hour === "number" && (!Number.isInteger(hour) || hour < 0 || hour > 23)) {
+        throw new Error("Quiet hours must be whole hours between 0 and 23");
+      }
+    }
+    if (args.timezone !== undefined && !isValidTimezone(args.timezone)) {
+      throw new Error(`Unknown timezone: ${args.timezone}`);
+    }
+
+    const updates = {
+      ...(args.enabledTypes && { enabledTypes: args.enabledTypes }),
+      ...(args.quietHoursStart !== undefined && { quietHoursStart: args.quietHoursStart ?? undefined }),
+      ...(args.quietHoursEnd !== undefined && { quietHoursEnd: args.quietHoursEnd ?? undefined }),
+      ...(args.timezone !== undefined && { timezone: args.timezone }),
+      lastUpdated: new Date().toISOString(),
+    };
+
+    const settings = await ctx.db
+      .query("pushSettings")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .first();
+
+    if (settings) {
+      await ctx.db.patch(settings._id, updates);
+    } else {
+      await ctx.db.insert("pushSettings", {
+        userId: args.userId,
+        enabledTypes: DEFAULT_ENABLED_TYPES,
+        ...updates,
+      });
+    }
+
+    return { success: true };
+  },
+});
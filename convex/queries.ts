@@ -1,5 +1,5 @@
-import { query } from "./_generated/server";
-import { v } from "convex/values";
+import { internalQuery, query, QueryCtx } from "./_generated/server";
+import { ObjectType, v } from "convex/values";
 import { verifyAdmin, isAuthenticatedUser } from "./utils/accessControl";
 
 // Get user profile
@@ -8,6 +8,11 @@ export const getUserProfile = query({
     userId: v.string(),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
     const user = await ctx.db
       .query("users")
       .withIndex("by_userId", (q) => q.eq("userId", args.userId))
@@ -17,6 +22,19 @@ export const getUserProfile = query({
   },
 });
 
+// Get user profile for background jobs (no caller identity)
+export const getUserProfileInternal = internalQuery({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("users")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .first();
+  },
+});
+
 // Get all workout plans for the current user (paginated)
 export const getWorkoutPlans = query({
   args: {
@@ -25,6 +43,11 @@ export const getWorkoutPlans = query({
     cursor: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns empty page if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+
     const limit = args.limit ?? 20; // Default to 20 plans per page
 
     const result = await ctx.db
@@ -48,6 +71,11 @@ export const getActivePlan = query({
     userId: v.string(),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
     const user = await ctx.db
       .query("users")
       .withIndex("by_userId", (q) => q.eq("userId", args.userId))
@@ -64,6 +92,23 @@ export const getActivePlan = query({
 
 // Get a single workout plan by ID
 export const getWorkoutPlan = query({
+  args: {
+    planId: v.id("workoutPlans"),
+  },
+  handler: async (ctx, args) => {
+    const plan = await ctx.db.get(args.planId);
+
+    // SECURITY: Only the owner reads a plan by ID (shared plans go through getSharedPlan)
+    if (!plan || !await isAuthenticatedUser(ctx, plan.userId)) {
+      return null;
+    }
+
+    return plan;
+  },
+});
+
+// Get a single workout plan by ID for background jobs (no caller identity)
+export const getWorkoutPlanInternal = internalQuery({
   args: {
     planId: v.id("workoutPlans"),
   },
@@ -81,6 +126,11 @@ export const getWorkoutLogs = query({
     cursor: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns empty page if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+
     const limit = args.limit ?? 20; // Default to 20 logs per page
 
     const result = await ctx.db
@@ -103,6 +153,11 @@ export const getExerciseHistory = query({
     exerciseName: v.string(),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
     const normalized = args.exerciseName.toLowerCase().replace(/\s+/g, "_");
     const history = await ctx.db
       .query("exerciseHistory")
@@ -115,6 +170,35 @@ export const getExerciseHistory = query({
   },
 });
 
+// Get stored personal records (e1RM, rep-range and volume), optionally for one exercise
+export const getPersonalRecords = query({
+  args: {
+    userId: v.string(),
+    exerciseName: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns empty if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return [];
+    }
+
+    if (args.exerciseName) {
+      const normalized = args.exerciseName.toLowerCase().trim().replace(/\s+/g, "_");
+      return await ctx.db
+        .query("personalRecords")
+        .withIndex("by_userId_exerciseName", (q) =>
+          q.eq("userId", args.userId).eq("exerciseName", normalized)
+        )
+        .collect();
+    }
+
+    return await ctx.db
+      .query("personalRecords")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .collect();
+  },
+});
+
 // Get cached exercise explanation
 export const getCachedExercise = query({
   args: {
@@ -850,154 +934,176 @@ export const getExercisesWithoutSteps = query({
   },
 });
 
+const progressionSummaryArgs = {
+  userId: v.string(),
+  weeksToAnalyze: v.optional(v.number()), // Default 4 weeks
+};
+
 /**
  * Get workout performance summary for AI progression recommendations
  * Returns aggregated data about recent workouts to inform intelligent weight suggestions
  */
 export const getWorkoutProgressionSummary = query({
-  args: {
-    userId: v.string(),
-    weeksToAnalyze: v.optional(v.number()), // Default 4 weeks
-  },
+  args: progressionSummaryArgs,
   handler: async (ctx, args) => {
-    const weeks = args.weeksToAnalyze ?? 4;
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - weeks * 7);
-    const cutoffDateStr = cutoffDate.toISOString().split('T')[0];
-
-    // Get recent workout logs
-    const logs = await ctx.db
-      .query("workoutLogs")
-      .withIndex("by_userId_date", (q) => q.eq("userId", args.userId))
-      .order("desc")
-      .take(50);
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
 
-    // Filter to only include logs within the analysis window
-    const recentLogs = logs.filter(log => log.date >= cutoffDateStr);
+    return await buildWorkoutProgressionSummary(ctx, args);
+  },
+});
 
-    if (recentLogs.length === 0) {
-      return {
-        hasData: false,
-        totalWorkouts: 0,
-        exerciseProgress: [],
-        strongestLifts: [],
-        recentPRs: [],
-        avgWorkoutsPerWeek: 0,
-        summary: "No recent workout data available.",
-      };
-    }
+/**
+ * Same summary for plan generation in background jobs (no caller identity)
+ */
+export const getWorkoutProgressionSummaryInternal = internalQuery({
+  args: progressionSummaryArgs,
+  handler: async (ctx, args) => buildWorkoutProgressionSummary(ctx, args),
+});
 
-    // Aggregate exercise data
-    const exerciseMap = new Map<string, {
-      name: string;
-      performances: { weight: number; reps: number; date: string }[];
-      maxWeight: number;
-      maxReps: number;
-      totalSets: number;
-    }>();
-
-    for (const log of recentLogs) {
-      for (const exercise of (log.exercises || [])) {
-        const normalized = exercise.exercise_name.toLowerCase().replace(/\s+/g, '_');
-
-        if (!exerciseMap.has(normalized)) {
-          exerciseMap.set(normalized, {
-            name: exercise.exercise_name,
-            performances: [],
-            maxWeight: 0,
-            maxReps: 0,
-            totalSets: 0,
-          });
-        }
+async function buildWorkoutProgressionSummary(
+  ctx: QueryCtx,
+  args: ObjectType<typeof progressionSummaryArgs>
+) {
+  const weeks = args.weeksToAnalyze ?? 4;
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - weeks * 7);
+  const cutoffDateStr = cutoffDate.toISOString().split('T')[0];
+
+  // Get recent workout logs
+  const logs = await ctx.db
+    .query("workoutLogs")
+    .withIndex("by_userId_date", (q) => q.eq("userId", args.userId))
+    .order("desc")
+    .take(50);
+
+  // Filter to only include logs within the analysis window
+  const recentLogs = logs.filter(log => log.date >= cutoffDateStr);
+
+  if (recentLogs.length === 0) {
+    return {
+      hasData: false,
+      totalWorkouts: 0,
+      exerciseProgress: [],
+      strongestLifts: [],
+      recentPRs: [],
+      avgWorkoutsPerWeek: 0,
+      summary: "No recent workout data available.",
+    };
+  }
+
+  // Aggregate exercise data
+  const exerciseMap = new Map<string, {
+    name: string;
+    performances: { weight: number; reps: number; date: string }[];
+    maxWeight: number;
+    maxReps: number;
+    totalSets: number;
+  }>();
+
+  for (const log of recentLogs) {
+    for (const exercise of (log.exercises || [])) {
+      const normalized = exercise.exercise_name.toLowerCase().replace(/\s+/g, '_');
+
+      if (!exerciseMap.has(normalized)) {
+        exerciseMap.set(normalized, {
+          name: exercise.exercise_name,
+          performances: [],
+          maxWeight: 0,
+          maxReps: 0,
+          totalSets: 0,
+        });
+      }
 
-        const data = exerciseMap.get(normalized)!;
-
-        for (const set of (exercise.sets || [])) {
-          // Handle weight-based sets (most common)
-          if ('weight' in set && 'reps' in set) {
-            const weight = typeof set.weight === 'number' ? set.weight : parseFloat(String(set.weight)) || 0;
-            const reps = typeof set.reps === 'number' ? set.reps : parseInt(String(set.reps)) || 0;
-
-            if (weight > 0 && reps > 0) {
-              data.performances.push({
-                weight,
-                reps,
-                date: log.date,
-              });
-              data.maxWeight = Math.max(data.maxWeight, weight);
-              data.maxReps = Math.max(data.maxReps, reps);
-            }
-            data.totalSets++;
+      const data = exerciseMap.get(normalized)!;
+
+      for (const set of (exercise.sets || [])) {
+        // Handle weight-based sets (most common)
+        if ('weight' in set && 'reps' in set) {
+          const weight = typeof set.weight === 'number' ? set.weight : parseFloat(String(set.weight)) || 0;
+          const reps = typeof set.reps === 'number' ? set.reps : parseInt(String(set.reps)) || 0;
+
+          if (weight > 0 && reps > 0) {
+            data.performances.push({
+              weight,
+              reps,
+              date: log.date,
+            });
+            data.maxWeight = Math.max(data.maxWeight, weight);
+            data.maxReps = Math.max(data.maxReps, reps);
           }
+          data.totalSets++;
         }
       }
     }
+  }
+
+  // Calculate progression for each exercise
+  const exerciseProgress = Array.from(exerciseMap.entries())
+    .filter(([, data]) => data.performances.length >= 2)
+    .map(([normalized, data]) => {
+      const sorted = [...data.performances].sort((a, b) =>
+        new Date(a.date).getTime() - new Date(b.date).getTime()
+      );
 
-    // Calculate progression for each exercise
-    const exerciseProgress = Array.from(exerciseMap.entries())
-      .filter(([, data]) => data.performances.length >= 2)
-      .map(([normalized, data]) => {
-        const sorted = [...data.performances].sort((a, b) =>
-          new Date(a.date).getTime() - new Date(b.date).getTime()
-        );
-
-        const firstWeight = sorted[0].weight;
-        const lastWeight = sorted[sorted.length - 1].weight;
-        const weightChange = lastWeight - firstWeight;
-        const percentChange = firstWeight > 0
-          ? ((lastWeight - firstWeight) / firstWeight * 100).toFixed(1)
-          : "0";
-
-        return {
-          exerciseName: data.name,
-          normalizedName: normalized,
-          currentMaxWeight: data.maxWeight,
-          currentMaxReps: data.maxReps,
-          weightChange,
-          percentChange: parseFloat(percentChange),
-          totalSets: data.totalSets,
-          trend: weightChange > 0 ? 'increasing' : weightChange < 0 ? 'decreasing' : 'stable',
-        };
-      })
-      .sort((a, b) => b.totalSets - a.totalSets)
-      .slice(0, 20); // Top 20 most performed exercises
-
-    // Get strongest lifts (highest weight exercises)
-    const strongestLifts = Array.from(exerciseMap.entries())
-      .filter(([, data]) => data.maxWeight > 0)
-      .sort((a, b) => b[1].maxWeight - a[1].maxWeight)
-      .slice(0, 5)
-      .map(([, data]) => ({
-        exerciseName: data.name,
-        maxWeight: data.maxWeight,
-        maxReps: data.maxReps,
-      }));
-
-    // Calculate workout frequency
-    const avgWorkoutsPerWeek = (recentLogs.length / weeks).toFixed(1);
-
-    // Build summary string for AI context
-    const summaryParts: string[] = [];
-    summaryParts.push(`${recentLogs.length} workouts in past ${weeks} weeks (${avgWorkoutsPerWeek}/week avg).`);
-
-    if (strongestLifts.length > 0) {
-      const topLift = strongestLifts[0];
-      summaryParts.push(`Strongest lift: ${topLift.exerciseName} at ${topLift.maxWeight}kg.`);
-    }
-
-    const improving = exerciseProgress.filter(e => e.trend === 'increasing');
-    if (improving.length > 0) {
-      summaryParts.push(`Progressive overload achieved on ${improving.length} exercises.`);
-    }
+      const firstWeight = sorted[0].weight;
+      const lastWeight = sorted[sorted.length - 1].weight;
+      const weightChange = lastWeight - firstWeight;
+      const percentChange = firstWeight > 0
+        ? ((lastWeight - firstWeight) / firstWeight * 100).toFixed(1)
+        : "0";
 
-    return {
-      hasData: true,
-      totalWorkouts: recentLogs.length,
-      exerciseProgress,
-      strongestLifts,
-      recentPRs: [], // Could be enhanced to track actual PRs
-      avgWorkoutsPerWeek: parseFloat(avgWorkoutsPerWeek),
-      summary: summaryParts.join(' '),
-    };
-  },
-});
+      return {
+        exerciseName: data.name,
+        normalizedName: normalized,
+        currentMaxWeight: data.maxWeight,
+        currentMaxReps: data.maxReps,
+        weightChange,
+        percentChange: parseFloat(percentChange),
+        totalSets: data.totalSets,
+        trend: weightChange > 0 ? 'increasing' : weightChange < 0 ? 'decreasing' : 'stable',
+      };
+    })
+    .sort((a, b) => b.totalSets - a.totalSets)
+    .slice(0, 20); // Top 20 most performed exercises
+
+  // Get strongest lifts (highest weight exercises)
+  const strongestLifts = Array.from(exerciseMap.entries())
+    .filter(([, data]) => data.maxWeight > 0)
+    .sort((a, b) => b[1].maxWeight - a[1].maxWeight)
+    .slice(0, 5)
+    .map(([, data]) => ({
+      exerciseName: data.name,
+      maxWeight: data.maxWeight,
+      maxReps: data.maxReps,
+    }));
+
+  // Calculate workout frequency
+  const avgWorkoutsPerWeek = (recentLogs.length / weeks).toFixed(1);
+
+  // Build summary string for AI context
+  const summaryParts: string[] = [];
+  summaryParts.push(`${recentLogs.length} workouts in past ${weeks} weeks (${avgWorkoutsPerWeek}/week avg).`);
+
+  if (strongestLifts.length > 0) {
+    const topLift = strongestLifts[0];
+    summaryParts.push(`Strongest lift: ${topLift.exerciseName} at ${topLift.maxWeight}kg.`);
+  }
+
+  const improving = exerciseProgress.filter(e => e.trend === 'increasing');
+  if (improving.length > 0) {
+    summaryParts.push(`Progressive overload achieved on ${improving.length} exercises.`);
+  }
+
+  return {
+    hasData: true,
+    totalWorkouts: recentLogs.length,
+    exerciseProgress,
+    strongestLifts,
+    recentPRs: [], // Could be enhanced to track actual PRs
+    avgWorkoutsPerWeek: parseFloat(avgWorkoutsPerWeek),
+    summary: summaryParts.join(' '),
+  };
+}
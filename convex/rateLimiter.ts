@@ -2,117 +2,319 @@
  * Rate Limiter for Convex Actions
  *
  * Prevents abuse of expensive AI operations by limiting calls per user per time window.
+ *
+ * Durable: every allowed call is a row in `rateLimitEvents`, so limits survive
+ * isolate restarts and are shared by every instance. Windows slide (the last
+ * hour, not the current clock hour) and depend on `users.apiUsage.tier`.
+ * Monthly quotas are the `apiUsage` counters, checked and incremented in the
+ * same transaction as the window check.
  */
 
-import { GenericQueryCtx, GenericMutationCtx, GenericActionCtx } from "convex/server";
-import { DataModel } from "./_generated/dataModel";
+import { GenericActionCtx, GenericMutationCtx } from "convex/server";
+import { internalMutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { DataModel, Doc } from "./_generated/dataModel";
+import { isAuthenticatedUser } from "./utils/accessControl";
+
+export type UserTier = "free" | "premium";
+
+type UsageCounter = "plansGenerated" | "chatMessagesSent" | "plansParsed";
+
+const HOUR_MS = 60 * 60 * 1000;
 
 // Rate limit configurations
 export const RATE_LIMITS = {
   // AI Plan Generation - expensive, limit to 3 per hour
   generateWorkoutPlan: {
-    maxCalls: 3,
-    windowMs: 60 * 60 * 1000, // 1 hour
+    maxCalls: { free: 3, premium: 10 },
+    windowMs: HOUR_MS,
+    usageCounter: "plansGenerated",
     errorMessage: "Plan generation limit reached. Please wait before generating another plan."
   },
 
   // Body Photo Analysis - expensive vision API, limit to 5 per hour
   analyzeBodyPhoto: {
-    maxCalls: 5,
-    windowMs: 60 * 60 * 1000, // 1 hour
+    maxCalls: { free: 5, premium: 15 },
+    windowMs: HOUR_MS,
+    usageCounter: null,
     errorMessage: "Photo analysis limit reached. Please wait before analyzing another photo."
   },
 
   // Chatbot messages - moderate cost, limit to 20 per hour
   handleChatMessage: {
-    maxCalls: 20,
-    windowMs: 60 * 60 * 1000, // 1 hour
+    maxCalls: { free: 20, premium: 100 },
+    windowMs: HOUR_MS,
+    usageCounter: "chatMessagesSent",
     errorMessage: "Chat message limit reached. Please slow down."
   },
 
   // Exercise explanations - cheap, limit to 50 per hour
   explainExercise: {
-    maxCalls: 50,
-    windowMs: 60 * 60 * 1000, // 1 hour
+    maxCalls: { free: 50, premium: 150 },
+    windowMs: HOUR_MS,
+    usageCounter: null,
     errorMessage: "Exercise explanation limit reached."
   },
 
   // Plan parsing - moderate cost, limit to 10 per hour
   parseWorkoutPlan: {
-    maxCalls: 10,
-    windowMs: 60 * 60 * 1000, // 1 hour
+    maxCalls: { free: 10, premium: 30 },
+    windowMs: HOUR_MS,
+    usageCounter: "plansParsed",
     errorMessage: "Plan parsing limit reached."
   },
-} as const;
+} as const satisfies Record<string, {
+  maxCalls: Record<UserTier, number>;
+  windowMs: number;
+  usageCounter: UsageCounter | null;
+  errorMessage: string;
+}>;
 
 export type RateLimitKey = keyof typeof RATE_LIMITS;
 
-// In-memory cache for rate limit tracking (resets on server restart)
-// Format: userId:actionName -> { count: number, resetAt: number }
-const rateLimitCache = new Map<string, { count: number; resetAt: number }>();
+/**
+ * Monthly quotas by tier (the `apiUsage` counters)
+ * NOTE: Limits set to unlimited for development - restore before production
+ */
+export const MONTHLY_QUOTAS: Record<UserTier, Record<UsageCounter, number>> = {
+  free: {
+    plansGenerated: 99999,   // DEV: unlimited
+    chatMessagesSent: 99999, // DEV: unlimited
+    plansParsed: 99999,      // DEV: unlimited
+  },
+  premium: {
+    plansGenerated: 99999,
+    chatMessagesSent: 99999,
+    plansParsed: 99999,
+  },
+};
+
+const QUOTA_MESSAGES: Record<UsageCounter, string> = {
+  plansGenerated: "You've used all plan generations for this month.",
+  chatMessagesSent: "You've used all AI coach messages for this month.",
+  plansParsed: "You've used all plan imports for this month.",
+};
+
+const rateLimitActionValidator = v.union(
+  v.literal("generateWorkoutPlan"),
+  v.literal("analyzeBodyPhoto"),
+  v.literal("handleChatMessage"),
+  v.literal("explainExercise"),
+  v.literal("parseWorkoutPlan")
+);
 
 /**
- * Check if user is rate limited for a specific action
+ * Current-period apiUsage (rolled over if the month ended)
  */
-export function checkRateLimit(userId: string, action: RateLimitKey): void {
-  const limit = RATE_LIMITS[action];
-  const cacheKey = `${userId}:${action}`;
-  const now = Date.now();
-
-  const cached = rateLimitCache.get(cacheKey);
-
-  if (!cached || now > cached.resetAt) {
-    // No cache or cache expired, create new entry
-    rateLimitCache.set(cacheKey, {
-      count: 1,
-      resetAt: now + limit.windowMs
-    });
-    return; // Allowed
-  }
+function currentApiUsage(user: Doc<"users"> | null, now: Date): NonNullable<Doc<"users">["apiUsage"]> {
+  const nextPeriodEnd = new Date(now.getFullYear(), now.getMonth() + 1, 1).toISOString();
+  const apiUsage = user?.apiUsage || {
+    tier: "free" as const,
+    plansGenerated: 0,
+    chatMessagesSent: 0,
+    plansParsed: 0,
+    periodStart: now.toISOString(),
+    periodEnd: nextPeriodEnd,
+    lastReset: null,
+  };
 
-  if (cached.count >= limit.maxCalls) {
-    // Rate limit exceeded
-    const minutesRemaining = Math.ceil((cached.resetAt - now) / (60 * 1000));
-    throw new Error(`${limit.errorMessage} Try again in ${minutesRemaining} minute${minutesRemaining === 1 ? '' : 's'}.`);
+  if (new Date(apiUsage.periodEnd) < now) {
+    return {
+      ...apiUsage,
+      plansGenerated: 0,
+      chatMessagesSent: 0,
+      plansParsed: 0,
+      periodStart: now.toISOString(),
+      periodEnd: nextPeriodEnd,
+      lastReset: now.toISOString(),
+    };
   }
-
-  // Increment count
-  cached.count++;
-  rateLimitCache.set(cacheKey, cached);
+  return apiUsage;
 }
 
+const formatWait = (ms: number): string => {
+  const minutes = Math.max(1, Math.ceil(ms / (60 * 1000)));
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
 /**
- * Reset rate limit for a user (admin use)
+ * Record one call if the user is within their window and monthly quota
+ * Returns the rejection instead of throwing so the calling action can surface it.
  */
-export function resetRateLimit(userId: string, action?: RateLimitKey): void {
-  if (action) {
-    const cacheKey = `${userId}:${action}`;
-    rateLimitCache.delete(cacheKey);
-  } else {
-    // Reset all limits for user
-    const keysToDelete: string[] = [];
-    for (const key of rateLimitCache.keys()) {
-      if (key.startsWith(`${userId}:`)) {
-        keysToDelete.push(key);
+export const consumeRateLimit = internalMutation({
+  args: {
+    userId: v.string(),
+    action: rateLimitActionValidator,
+  },
+  handler: async (ctx, args): Promise<{ allowed: true } | { allowed: false; message: string; retryAfterMs: number | null }> => {
+    const limit = RATE_LIMITS[args.action];
+    const now = Date.now();
+    const windowStart = now - limit.windowMs;
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .first();
+    const apiUsage = currentApiUsage(user, new Date(now));
+    const tier = apiUsage.tier;
+
+    // Prune calls that slid out of the window (keeps the table bounded per user/action)
+    await pruneExpiredEvents(ctx, args.userId, args.action, windowStart);
+
+    const recent = await ctx.db
+      .query("rateLimitEvents")
+      .withIndex("by_userId_action_createdAt", (q) =>
+        q.eq("userId", args.userId).eq("action", args.action).gt("createdAt", windowStart)
+      )
+      .collect();
+
+    const maxCalls = limit.maxCalls[tier];
+    if (recent.length >= maxCalls) {
+      // Oldest call in the window frees the next slot
+      const retryAfterMs = recent[0].createdAt + limit.windowMs - now;
+      return {
+        allowed: false,
+        message: `${limit.errorMessage} Try again in ${formatWait(retryAfterMs)}.`,
+        retryAfterMs,
+      };
+    }
+
+    if (limit.usageCounter) {
+      if (apiUsage[limit.usageCounter] >= MONTHLY_QUOTAS[tier][limit.usageCounter]) {
+        return {
+          allowed: false,
+          message: `${QUOTA_MESSAGES[limit.usageCounter]} Your quota resets on ${apiUsage.periodEnd.split("T")[0]}.`,
+          retryAfterMs: null,
+        };
+      }
+      if (user) {
+        await ctx.db.patch(user._id, {
+          apiUsage: { ...apiUsage, [limit.usageCounter]: apiUsage[limit.usageCounter] + 1 },
+        });
       }
     }
-    keysToDelete.forEach(key => rateLimitCache.delete(key));
+
+    await ctx.db.insert("rateLimitEvents", {
+      userId: args.userId,
+      action: args.action,
+      createdAt: now,
+    });
+
+    return { allowed: true };
+  },
+});
+
+async function pruneExpiredEvents(
+  ctx: GenericMutationCtx<DataModel>,
+  userId: string,
+  action: string,
+  windowStart: number
+): Promise<void> {
+  const expired = await ctx.db
+    .query("rateLimitEvents")
+    .withIndex("by_userId_action_createdAt", (q) =>
+      q.eq("userId", userId).eq("action", action).lte("createdAt", windowStart)
+    )
+    .take(100);
+  for (const event of expired) {
+    await ctx.db.delete(event._id);
   }
 }
 
 /**
- * Get remaining calls for a user
+ * Check (and record) a call from an action - throws when the user is limited
  */
-export function getRemainingCalls(userId: string, action: RateLimitKey): number {
-  const limit = RATE_LIMITS[action];
-  const cacheKey = `${userId}:${action}`;
-  const now = Date.now();
+export async function checkRateLimit(
+  ctx: GenericActionCtx<DataModel>,
+  userId: string,
+  action: RateLimitKey
+): Promise<void> {
+  const result = await ctx.runMutation(internal.rateLimiter.consumeRateLimit, { userId, action });
+  if (!result.allowed) {
+    throw new Error(result.message);
+  }
+}
 
-  const cached = rateLimitCache.get(cacheKey);
+/**
+ * Reset rate limit windows for a user (admin use)
+ */
+export const resetRateLimit = internalMutation({
+  args: {
+    userId: v.string(),
+    action: v.optional(rateLimitActionValidator),
+  },
+  handler: async (ctx, args) => {
+    const events = await ctx.db
+      .query("rateLimitEvents")
+      .withIndex("by_userId_action_createdAt", (q) =>
+        args.action ? q.eq("userId", args.userId).eq("action", args.action) : q.eq("userId", args.userId)
+      )
+      .collect();
+    for (const event of events) {
+      await ctx.db.delete(event._id);
+    }
+    return { deleted: events.length };
+  },
+});
 
-  if (!cached || now > cached.resetAt) {
-    return limit.maxCalls;
-  }
+/**
+ * Remaining calls per action and remaining monthly quota (null if not authorized)
+ * Drives the limit messages in the UI; enforcement stays in consumeRateLimit.
+ */
+export const getUsageQuota = query({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
 
-  return Math.max(0, limit.maxCalls - cached.count);
-}
+    const nowMs = Date.now();
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .first();
+    const apiUsage = currentApiUsage(user, new Date(nowMs));
+    const tier = apiUsage.tier;
+
+    const actions = {} as Record<RateLimitKey, {
+      limit: number;
+      remaining: number;
+      windowMs: number;
+      resetsAt: number | null; // When the next slot frees up (null if none used)
+      monthly: { limit: number; used: number; remaining: number } | null;
+    }>;
+
+    for (const action of Object.keys(RATE_LIMITS) as RateLimitKey[]) {
+      const limit = RATE_LIMITS[action];
+      const recent = await ctx.db
+        .query("rateLimitEvents")
+        .withIndex("by_userId_action_createdAt", (q) =>
+          q.eq("userId", args.userId).eq("action", action).gt("createdAt", nowMs - limit.windowMs)
+        )
+        .collect();
+
+      const monthlyLimit = limit.usageCounter ? MONTHLY_QUOTAS[tier][limit.usageCounter] : null;
+      const used = limit.usageCounter ? apiUsage[limit.usageCounter] : 0;
+
+      actions[action] = {
+        limit: limit.maxCalls[tier],
+        remaining: Math.max(0, limit.maxCalls[tier] - recent.length),
+        windowMs: limit.windowMs,
+        resetsAt: recent.length > 0 ? recent[0].createdAt + limit.windowMs : null,
+        monthly: monthlyLimit !== null
+          ? { limit: monthlyLimit, used, remaining: Math.max(0, monthlyLimit - used) }
+          : null,
+      };
+    }
+
+    return {
+      tier,
+      periodEnd: apiUsage.periodEnd,
+      actions,
+    };
+  },
+});
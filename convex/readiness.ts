@@ -0,0 +1,139 @@
+/**
+ * Daily Readiness
+ *
+ * Morning check-in + baseline-relative readiness score for PreWorkoutScreen.
+ * Scoring lives in convex/utils/readiness.ts; the session adjustment it drives
+ * is applied client-side (services/readinessService.ts) so the user can accept
+ * or ignore it before starting.
+ */
+
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { isAuthenticatedUser, verifyAuthenticatedUser } from "./utils/accessControl";
+import { computeReadiness, READINESS_BASELINE_DAYS } from "./utils/readiness";
+
+const shiftDate = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+};
+
+/**
+ * Readiness for a day (null if not authorized)
+ * `date` is the user's local YYYY-MM-DD so "today" matches their morning
+ */
+export const getReadiness = query({
+  args: {
+    userId: v.string(),
+    date: v.string(), // YYYY-MM-DD
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
+    const today = await ctx.db
+      .query("healthMetrics")
+      .withIndex("by_userId_date", (q) => q.eq("userId", args.userId).eq("date", args.date))
+      .first();
+
+    const history = await ctx.db
+      .query("healthMetrics")
+      .withIndex("by_userId_date", (q) =>
+        q.eq("userId", args.userId)
+          .gte("date", shiftDate(args.date, -READINESS_BASELINE_DAYS))
+          .lt("date", args.date)
+      )
+      .collect();
+
+    const readiness = computeReadiness(today, history);
+
+    return {
+      date: args.date,
+      hasCheckIn: !!today && readiness.components.length > 0,
+      ...readiness,
+    };
+  },
+});
+
+/**
+ * Save the morning check-in
+ * Only touches the check-in fields - unlike logHealthMetrics, which replaces the whole entry
+ */
+export const logReadinessCheckIn = mutation({
+  args: {
+    userId: v.string(),
+    date: v.string(), // YYYY-MM-DD
+    sleepHours: v.optional(v.number()),
+    sleepQuality: v.optional(v.number()), // 1-10
+    restingHeartRate: v.optional(v.number()),
+    energyLevel: v.optional(v.number()), // 1-10
+    sorenessLevel: v.optional(v.number()), // 1-10
+    stressLevel: v.optional(v.number()), // 1-10
+  },
+  handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
+    const rating = (value: number | undefined) =>
+      value === undefined ? undefined : Math.max(1, Math.min(10, Math.round(value)));
+
+    const checkIn = Object.fromEntries(
+      Object.entries({
+        sleepHours: args.sleepHours === undefined ? undefined : Math.max(0, Math.min(24, args.sleepHours)),
+        sleepQuality: rating(args.sleepQuality),
+        restingHeartRate: args.restingHeartRate === undefined ? undefined : Math.round(args.restingHeartRate),
+        energyLevel: rating(args.energyLevel),
+        sorenessLevel: rating(args.sorenessLevel),
+        stressLevel: rating(args.stressLevel),
+      }).filter(([, value]) => value !== undefined)
+    ) as Partial<Record<"sleepHours" | "sleepQuality" | "restingHeartRate" | "energyLevel" | "sorenessLevel" | "stressLevel", number>>;
+
+    const existing = await ctx.db
+      .query("healthMetrics")
+      .withIndex("by_userId_date", (q) => q.eq("userId", args.userId).eq("date", args.date))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, checkIn);
+      return { success: true, id: existing._id };
+    }
+
+    const id = await ctx.db.insert("healthMetrics", {
+      userId: args.userId,
+      date: args.date,
+      weight: null,
+      bodyFat: null,
+      muscleMass: null,
+      chest: null,
+      waist: null,
+      hips: null,
+      biceps: null,
+      thighs: null,
+      calves: null,
+      shoulders: null,
+      neck: null,
+      restingHeartRate: null,
+      bloodPressureSystolic: null,
+      bloodPressureDiastolic: null,
+      sleepHours: null,
+      sleepQuality: null,
+      stepsToday: null,
+      activeMinutes: null,
+      caloriesConsumed: null,
+      proteinGrams: null,
+      carbsGrams: null,
+      fatGrams: null,
+      waterLiters: null,
+      energyLevel: null,
+      moodRating: null,
+      stressLevel: null,
+      sorenessLevel: null,
+      notes: null,
+      createdAt: new Date().toISOString(),
+      ...checkIn,
+    });
+    return { success: true, id };
+  },
+});
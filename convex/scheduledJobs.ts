@@ -3,6 +3,8 @@
  *
  * Handles background tasks that run on a schedule, including:
  * - Weekly plan generation for periodized training
+ * - Buddy challenge results
+ * - Push notification delivery and scheduled reminders
  * - Data cleanup
  * - Analytics aggregation
  */
@@ -36,4 +38,58 @@ crons.daily(
   internal.periodizationJobs.dailyWeekCheck
 );
 
+/**
+ * Settle buddy challenges that ended yesterday
+ * Runs every day at 0:30 AM UTC
+ *
+ * Challenge end dates are inclusive UTC days, so this runs just after the last one closes
+ */
+crons.daily(
+  "finalize-buddy-challenges",
+  { hourUTC: 0, minuteUTC: 30 },
+  internal.challengeMutations.finalizeEndedChallenges
+);
+
+/**
+ * Push pending notifications (quiet hours, enabled types, dedupe)
+ * Runs every 5 minutes
+ *
+ * Quiet hours are checked in each user's own timezone, so deferred pushes go out
+ * within 5 minutes of the window ending
+ */
+crons.interval(
+  "deliver-push-notifications",
+  { minutes: 5 },
+  internal.pushDelivery.deliverPendingNotifications
+);
+
+/**
+ * Reminder notifications (see notificationJobs.ts)
+ * Each runs every hour and fires for users whose local time has reached its hour,
+ * staggered so they don't all scan push settings at once
+ */
+crons.hourly(
+  "workout-reminders",
+  { minuteUTC: 0 },
+  internal.notificationJobs.generateWorkoutReminders
+);
+
+crons.hourly(
+  "streak-at-risk-alerts",
+  { minuteUTC: 10 },
+  internal.notificationJobs.generateStreakAtRiskAlerts
+);
+
+crons.hourly(
+  "deload-reminders",
+  { minuteUTC: 20 },
+  internal.notificationJobs.generateDeloadReminders
+);
+
+crons.hourly(
+  "event-countdowns",
+  { minuteUTC: 30 },
+  internal.notificationJobs.generateEventCountdowns
+);
+
 export default crons;
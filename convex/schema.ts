@@ -7,7 +7,7 @@ export default defineSchema({
   users: defineTable({
     userId: v.string(), // Same as auth token subject
     userCode: v.optional(v.string()), // Unique permanent code for buddy connections (REBLD-ABC123)
-    role: v.optional(v.union(v.literal("user"), v.literal("admin"))), // User role for access control
+    role: v.optional(v.union(v.literal("user"), v.literal("admin"), v.literal("coach"))), // User role for access control
     activePlanId: v.union(v.id("workoutPlans"), v.null()),
     lastProgressionApplied: v.union(v.string(), v.null()), // ISO date string
     bodyMetrics: v.union(
@@ -278,10 +278,19 @@ export default defineSchema({
       error: v.optional(v.string()),
       lastUpdated: v.string(), // ISO date
     })),
+    // Calendar export preferences (local "HH:MM" times) and the secret feed token
+    calendarSettings: v.optional(v.object({
+      training_time: v.string(), // Single-session days and all-day sessions
+      morning_time: v.string(), // AM session of 2x/day days
+      evening_time: v.string(), // PM session of 2x/day days
+      timezone: v.string(), // IANA, so the feed knows the user's "today"
+      feedToken: v.union(v.string(), v.null()), // Subscribable ICS feed (null = disabled)
+    })),
   })
     .index("by_userId", ["userId"])
     .index("by_userCode", ["userCode"])
-    .index("by_activePlan", ["activePlanId"]),
+    .index("by_activePlan", ["activePlanId"])
+    .index("by_calendarFeedToken", ["calendarSettings.feedToken"]),
 
   // Workout plans - user's workout programs
   workoutPlans: defineTable({
@@ -301,6 +310,8 @@ export default defineSchema({
       phase_description: v.optional(v.string()),
       weeks_in_phase: v.optional(v.number()),
       phase_end_week: v.optional(v.number()),
+      is_deload: v.optional(v.boolean()), // Current week is a deload (scheduled or detected)
+      deload_reason: v.optional(v.string()), // Why - schedule or detected signals (utils/deloadDetection.ts)
     })),
     weeklyPlan: v.array(
       v.object({
@@ -370,6 +381,49 @@ export default defineSchema({
                 })
               ),
             }),
+            // EMOM block (exercises rotate every interval)
+            v.object({
+              type: v.literal("emom"),
+              title: v.union(v.string(), v.null()),
+              duration_minutes: v.number(),
+              interval_seconds: v.optional(v.number()), // Default 60 (120 = E2MOM)
+              exercises: v.array(
+                v.object({
+                  exercise_name: v.string(),
+                  notes: v.union(v.string(), v.null()),
+                  metrics_template: v.any(),
+                  original_exercise_name: v.union(v.string(), v.null()),
+                  rpe: v.union(v.string(), v.number(), v.null()),
+                  category: v.union(
+                    v.literal("warmup"),
+                    v.literal("main"),
+                    v.literal("cooldown")
+                  ),
+                })
+              ),
+            }),
+            // Tabata / interval block (fixed work/rest rounds)
+            v.object({
+              type: v.literal("tabata"),
+              title: v.union(v.string(), v.null()),
+              rounds: v.number(),
+              work_seconds: v.number(),
+              rest_seconds: v.number(),
+              exercises: v.array(
+                v.object({
+                  exercise_name: v.string(),
+                  notes: v.union(v.string(), v.null()),
+                  metrics_template: v.any(),
+                  original_exercise_name: v.union(v.string(), v.null()),
+                  rpe: v.union(v.string(), v.number(), v.null()),
+                  category: v.union(
+                    v.literal("warmup"),
+                    v.literal("main"),
+                    v.literal("cooldown")
+                  ),
+                })
+              ),
+            }),
             // Circuit block (rounds-based or time-based circuit training)
             v.object({
               type: v.literal("circuit"),
@@ -460,6 +514,49 @@ export default defineSchema({
                     })
                   ),
                 }),
+                // EMOM block (exercises rotate every interval)
+                v.object({
+                  type: v.literal("emom"),
+                  title: v.union(v.string(), v.null()),
+                  duration_minutes: v.number(),
+                  interval_seconds: v.optional(v.number()), // Default 60 (120 = E2MOM)
+                  exercises: v.array(
+                    v.object({
+                      exercise_name: v.string(),
+                      notes: v.union(v.string(), v.null()),
+                      metrics_template: v.any(),
+                      original_exercise_name: v.union(v.string(), v.null()),
+                      rpe: v.union(v.string(), v.number(), v.null()),
+                      category: v.union(
+                        v.literal("warmup"),
+                        v.literal("main"),
+                        v.literal("cooldown")
+                      ),
+                    })
+                  ),
+                }),
+                // Tabata / interval block (fixed work/rest rounds)
+                v.object({
+                  type: v.literal("tabata"),
+                  title: v.union(v.string(), v.null()),
+                  rounds: v.number(),
+                  work_seconds: v.number(),
+                  rest_seconds: v.number(),
+                  exercises: v.array(
+                    v.object({
+                      exercise_name: v.string(),
+                      notes: v.union(v.string(), v.null()),
+                      metrics_template: v.any(),
+                      original_exercise_name: v.union(v.string(), v.null()),
+                      rpe: v.union(v.string(), v.number(), v.null()),
+                      category: v.union(
+                        v.literal("warmup"),
+                        v.literal("main"),
+                        v.literal("cooldown")
+                      ),
+                    })
+                  ),
+                }),
                 // Circuit block (rounds-based or time-based circuit training)
                 v.object({
                   type: v.literal("circuit"),
@@ -540,6 +637,34 @@ export default defineSchema({
             })
           )
         ),
+        // Imported FIT/TCX/GPX data (convex/cardioImport.ts)
+        cardio: v.optional(v.object({
+          source: v.union(v.literal("fit"), v.literal("tcx"), v.literal("gpx")),
+          sport: v.string(),
+          startTime: v.string(), // ISO
+          distance_m: v.number(),
+          duration_s: v.number(),
+          avg_hr: v.union(v.number(), v.null()),
+          max_hr: v.union(v.number(), v.null()),
+          elevation_gain_m: v.union(v.number(), v.null()),
+          splits: v.array(v.object({
+            distance_m: v.number(),
+            duration_s: v.number(),
+            avg_hr: v.union(v.number(), v.null()),
+          })),
+          paceCompliance: v.union(
+            v.object({
+              zone: v.union(v.literal("race"), v.literal("zone2"), v.literal("tempo"), v.literal("interval")),
+              targetPace: v.string(), // calculateRunningPaces format ("5:30/km")
+              actualPace: v.string(),
+              deltaSecondsPerKm: v.number(), // Positive = slower than target
+              status: v.union(v.literal("on_target"), v.literal("too_fast"), v.literal("too_slow")),
+              splitsOnTarget: v.number(),
+              splitCount: v.number(),
+            }),
+            v.null()
+          ),
+        })),
       })
     ),
     durationMinutes: v.union(v.number(), v.null()),
@@ -548,6 +673,77 @@ export default defineSchema({
     .index("by_userId_date", ["userId", "date"])
     .index("by_date", ["date"]), // For finding recent workouts across all users
 
+  // Plan edits made by the chat coach (applied server-side; previous weeklyPlan kept for undo)
+  chatPlanEdits: defineTable({
+    userId: v.string(),
+    planId: v.id("workoutPlans"),
+    action: v.string(), // One of the chat coach function names (substituteExercise, ...)
+    args: v.any(), // Function-call arguments from the model
+    summary: v.string(),
+    previousWeeklyPlan: v.array(v.any()),
+    appliedRevision: v.number(), // planRevisions.revision the edit produced - undo only while it's still the latest
+    appliedAt: v.number(), // Unix ms
+    undoneAt: v.union(v.number(), v.null()),
+  })
+    .index("by_planId_appliedAt", ["planId", "appliedAt"])
+    .index("by_userId", ["userId"]),
+
+  // Plan revision history: a snapshot of weeklyPlan after every edit, so any version can be restored
+  planRevisions: defineTable({
+    userId: v.string(),
+    planId: v.id("workoutPlans"),
+    revision: v.number(), // 1, 2, 3... per plan
+    author: v.union(
+      v.literal("user"), // Manual edit or restore
+      v.literal("chat"), // Chat coach edit / undo
+      v.literal("ai"), // Plan generation or periodization week generation
+      v.literal("import"), // Parsed from text or copied from a shared plan
+      v.literal("coach") // Assigned or edited by the athlete's coach
+    ),
+    summary: v.string(),
+    weeklyPlan: v.array(v.any()), // Plan content after this revision
+    restoredFromRevision: v.optional(v.number()),
+    createdAt: v.number(), // Unix ms
+  })
+    .index("by_planId_revision", ["planId", "revision"])
+    .index("by_userId", ["userId"]),
+
+  // Idempotency receipts for replayed offline mutations (keyed by client-generated UUID)
+  processedMutations: defineTable({
+    userId: v.string(),
+    idempotencyKey: v.string(),
+    mutationName: v.string(), // "addWorkoutLog" | "saveExerciseHistory" | "recordExercisePerformance" | "updateStreak"
+    result: v.any(), // Original return value, replayed to duplicate requests
+    processedAt: v.number(), // Unix ms
+  })
+    .index("by_userId_key", ["userId", "idempotencyKey"])
+    .index("by_userId_processedAt", ["userId", "processedAt"]),
+
+  // Sliding-window rate limiting for AI actions: one row per allowed call, pruned as the window slides
+  rateLimitEvents: defineTable({
+    userId: v.string(),
+    action: v.string(), // RateLimitKey from convex/rateLimiter.ts
+    createdAt: v.number(), // Unix ms
+  })
+    .index("by_userId_action_createdAt", ["userId", "action", "createdAt"]),
+
+  // In-progress workout checkpoint (one per user) for crash-safe / cross-device resume
+  activeSessions: defineTable({
+    userId: v.string(),
+    sessionKey: v.string(), // Client-generated id for this workout
+    focus: v.string(),
+    session: v.any(), // PlanDay being performed
+    state: v.any(), // loggedData, block/exercise/round position, warmups, PRs
+    startedAt: v.number(), // Unix ms
+    elapsedMs: v.number(),
+    isPaused: v.boolean(),
+    exercisesDone: v.number(),
+    exercisesTotal: v.number(),
+    updatedAt: v.number(), // Unix ms
+    deviceId: v.string(),
+  })
+    .index("by_userId", ["userId"]),
+
   // Exercise history - last weight/reps used per exercise per user
   exerciseHistory: defineTable({
     userId: v.string(),
@@ -560,6 +756,29 @@ export default defineSchema({
     .index("by_userId", ["userId"])
     .index("by_userId_exerciseName", ["userId", "exerciseName"]),
 
+  // Personal records - best e1RM, rep-range (1/3/5/10RM) and volume per exercise
+  personalRecords: defineTable({
+    userId: v.string(),
+    exerciseName: v.string(), // Normalized: lowercase with underscores ("_session" for session tonnage)
+    exercise_name: v.string(), // Original exercise name
+    recordType: v.union(
+      v.literal("e1rm"),
+      v.literal("rep_max"),
+      v.literal("set_volume"),
+      v.literal("session_volume")
+    ),
+    repRange: v.union(v.number(), v.null()), // Only for rep_max: 1, 3, 5 or 10
+    formula: v.optional(v.union(v.literal("epley"), v.literal("brzycki"))), // Only for e1rm (missing = epley)
+    weight: v.number(), // Weight of the set that set the record
+    reps: v.number(),
+    value: v.number(), // e1RM kg (per formula), nRM weight, or volume kg
+    previousValue: v.union(v.number(), v.null()),
+    date: v.string(), // ISO date string
+    logId: v.union(v.id("workoutLogs"), v.null()),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_userId_exerciseName", ["userId", "exerciseName"]),
+
   // Exercise cache - global exercise explanations (shared across all users)
   exerciseCache: defineTable({
     exercise_name: v.string(), // Normalized: lowercase with underscores
@@ -699,6 +918,7 @@ export default defineSchema({
   }).index("by_exerciseName", ["exercise_name"])
     .index("by_tier", ["exercise_tier"])
     .index("by_category", ["primary_category"])
+    .index("by_movementPattern", ["movement_pattern"]) // Same-pattern substitutes
     .index("by_hit_count", ["hit_count"]), // For finding popular exercises
 
   // Programming knowledge from books - teaches AI HOW to select exercises
@@ -1027,10 +1247,15 @@ export default defineSchema({
       v.literal("workout_started"),
       v.literal("pr_achieved"),
       v.literal("buddy_request"),
-      v.literal("plan_shared")
+      v.literal("plan_shared"),
+      v.literal("challenge_invite"),
+      v.literal("challenge_result"),
+      v.literal("coach_invite"),
+      v.literal("coach_comment")
     ),
     relatedPlanId: v.union(v.id("workoutPlans"), v.null()),
     relatedShareCode: v.union(v.string(), v.null()),
+    relatedChallengeId: v.optional(v.id("buddyChallenges")),
     message: v.string(),
     createdAt: v.string(),
     read: v.boolean(),
@@ -1038,6 +1263,72 @@ export default defineSchema({
   }).index("by_userId", ["userId"])
     .index("by_userId_read", ["userId", "read"]),
 
+  // Time-boxed buddy challenges (convex/challengeMutations.ts)
+  buddyChallenges: defineTable({
+    creatorId: v.string(),
+    name: v.string(),
+    metric: v.union(
+      v.literal("workouts_completed"),
+      v.literal("total_volume"), // kg lifted (weight × reps)
+      v.literal("streak_days"), // Longest run of consecutive training days
+      v.literal("running_km"),
+      v.literal("lift_e1rm") // Best e1RM on exerciseName
+    ),
+    exerciseName: v.union(v.string(), v.null()), // Only for lift_e1rm
+    startDate: v.string(), // YYYY-MM-DD, inclusive
+    endDate: v.string(), // YYYY-MM-DD, inclusive
+    status: v.union(v.literal("active"), v.literal("completed")),
+    createdAt: v.string(),
+    completedAt: v.union(v.string(), v.null()),
+    winnerIds: v.array(v.string()), // Ties share the win
+  })
+    .index("by_creatorId", ["creatorId"])
+    .index("by_status_endDate", ["status", "endDate"]),
+
+  challengeParticipants: defineTable({
+    challengeId: v.id("buddyChallenges"),
+    userId: v.string(),
+    invitedBy: v.string(),
+    status: v.union(v.literal("invited"), v.literal("joined"), v.literal("declined")),
+    joinedAt: v.union(v.string(), v.null()),
+    finalScore: v.union(v.number(), v.null()), // Set when the challenge completes
+    finalRank: v.union(v.number(), v.null()),
+  })
+    .index("by_challengeId", ["challengeId"])
+    .index("by_userId", ["userId"])
+    .index("by_challenge_user", ["challengeId", "userId"]),
+
+  // Coach ↔ athlete links (convex/coachingMutations.ts)
+  // The athlete's acceptance is the permission grant; they can narrow or revoke it at any time
+  coachAthletes: defineTable({
+    coachId: v.string(),
+    athleteId: v.string(),
+    status: v.union(v.literal("pending"), v.literal("active"), v.literal("declined"), v.literal("revoked")),
+    permissions: v.object({
+      viewLogs: v.boolean(), // workoutLogs + adherence + session comments
+      viewHealthMetrics: v.boolean(),
+      editPlans: v.boolean(), // Assign / edit workoutPlans
+    }),
+    invitedAt: v.string(),
+    respondedAt: v.union(v.string(), v.null()),
+    revokedAt: v.union(v.string(), v.null()),
+  })
+    .index("by_coachId", ["coachId"])
+    .index("by_athleteId", ["athleteId"])
+    .index("by_pair", ["coachId", "athleteId"]),
+
+  // Coach comments on an athlete's logged sessions
+  coachComments: defineTable({
+    coachId: v.string(),
+    athleteId: v.string(),
+    workoutLogId: v.id("workoutLogs"),
+    text: v.string(),
+    createdAt: v.string(),
+  })
+    .index("by_workoutLogId", ["workoutLogId"])
+    .index("by_athleteId", ["athleteId"])
+    .index("by_coachId", ["coachId"]),
+
   // Streaks & Achievements System
   achievements: defineTable({
     userId: v.string(),
@@ -1056,9 +1347,10 @@ export default defineSchema({
     userId: v.string(),
     currentStreak: v.number(),
     longestStreak: v.number(),
-    lastWorkoutDate: v.string(), // ISO date
+    lastWorkoutDate: v.string(), // "YYYY-MM-DD" in the user's timezone (older rows: UTC)
     streakFreezes: v.number(), // Available freezes (premium gets 1/month)
-    lastFreezeUsed: v.union(v.string(), v.null()),
+    lastFreezeUsed: v.union(v.string(), v.null()), // Local date the last freeze covered
+    freezesGrantedMonth: v.optional(v.string()), // "YYYY-MM" of the last premium top-up
     totalWorkouts: v.number(),
     weeklyWorkouts: v.array(v.boolean()) // [Mon, Tue, Wed, Thu, Fri, Sat, Sun]
   }).index("by_userId", ["userId"]),
@@ -1087,12 +1379,60 @@ export default defineSchema({
     isPublic: v.boolean(), // Can other users see/copy this plan?
     likes: v.number(),
     copies: v.number(),
+    sourcePlanId: v.optional(v.id("workoutPlans")), // Author's plan it was published from
+    reportCount: v.optional(v.number()),
+    hiddenForReview: v.optional(v.boolean()), // Set once reports reach MARKETPLACE_REPORT_HIDE_THRESHOLD
     createdAt: v.string(),
     lastUpdated: v.string()
   }).index("by_userId", ["userId"])
-    .index("by_isPublic", ["isPublic"])
-    .index("by_category", ["category"])
-    .index("by_grade", ["athleticGrade"]),
+    // Browse: one index per sort order, with and without the category filter
+    .index("by_public_likes", ["isPublic", "likes"])
+    .index("by_public_copies", ["isPublic", "copies"])
+    .index("by_public_score", ["isPublic", "gradeAnalysis.scoreBreakdown.overall"])
+    .index("by_public_createdAt", ["isPublic", "createdAt"])
+    .index("by_public_category_likes", ["isPublic", "category", "likes"])
+    .index("by_public_category_copies", ["isPublic", "category", "copies"])
+    .index("by_public_category_score", ["isPublic", "category", "gradeAnalysis.scoreBreakdown.overall"])
+    .index("by_public_category_createdAt", ["isPublic", "category", "createdAt"])
+    .searchIndex("search_title", {
+      searchField: "title",
+      filterFields: ["isPublic", "category", "difficulty"],
+    }),
+
+  // Marketplace interactions - one row per user per plan keeps the counters honest
+  submittedPlanLikes: defineTable({
+    submittedPlanId: v.id("userSubmittedPlans"),
+    userId: v.string(),
+    createdAt: v.string(),
+  })
+    .index("by_plan_user", ["submittedPlanId", "userId"])
+    .index("by_userId", ["userId"]),
+
+  submittedPlanCopies: defineTable({
+    submittedPlanId: v.id("userSubmittedPlans"),
+    userId: v.string(),
+    planId: v.id("workoutPlans"), // The copy in the user's plans
+    createdAt: v.string(),
+  })
+    .index("by_plan_user", ["submittedPlanId", "userId"])
+    .index("by_userId", ["userId"]),
+
+  submittedPlanReports: defineTable({
+    submittedPlanId: v.id("userSubmittedPlans"),
+    reporterId: v.string(),
+    reason: v.union(
+      v.literal("unsafe"),
+      v.literal("spam"),
+      v.literal("inappropriate"),
+      v.literal("copyright"),
+      v.literal("other")
+    ),
+    details: v.union(v.string(), v.null()),
+    status: v.union(v.literal("open"), v.literal("dismissed"), v.literal("actioned")),
+    createdAt: v.string(),
+  })
+    .index("by_plan_reporter", ["submittedPlanId", "reporterId"])
+    .index("by_status", ["status"]),
 
   // Progress Photos - Track physical transformation over time
   progressPhotos: defineTable({
@@ -1206,6 +1546,7 @@ export default defineSchema({
       prsAchieved: v.optional(v.number()),
     })),
     isDeloadWeek: v.boolean(),
+    deloadReason: v.optional(v.string()),
   })
     .index("by_userId", ["userId"])
     .index("by_planId", ["planId"])
@@ -1234,11 +1575,26 @@ export default defineSchema({
     pushToken: v.optional(v.string()),
     delivered: v.boolean(),
     deliveredAt: v.optional(v.string()),
+    // Delivery worker state (convex/pushDelivery.ts) - rows without it predate the worker
+    deliveryStatus: v.optional(v.union(
+      v.literal("pending"), // Waiting for the worker (or for quiet hours to end)
+      v.literal("sending"), // Claimed by a worker run
+      v.literal("sent"),
+      v.literal("failed"), // Provider rejected it or retries ran out
+      v.literal("suppressed") // Not pushed: type disabled, no token, duplicate or stale (still shown in-app)
+    )),
+    deliveryAttempts: v.optional(v.number()),
+    deliveryError: v.optional(v.string()), // Last failure / suppression reason
+    deliveryClaimedAt: v.optional(v.string()), // ISO - reclaimed if a worker run dies mid-send
+    dedupeKey: v.optional(v.string()), // Same key for the same user within the dedupe window is pushed once
+    deliverAfter: v.optional(v.string()), // ISO - set when deferred by quiet hours; missing means due now
   })
     .index("by_userId", ["userId"])
     .index("by_userId_read", ["userId", "read"])
     .index("by_userId_type", ["userId", "type"])
-    .index("by_sentAt", ["sentAt"]),
+    .index("by_sentAt", ["sentAt"])
+    .index("by_deliveryStatus_sentAt", ["deliveryStatus", "sentAt"])
+    .index("by_deliveryStatus_deliverAfter", ["deliveryStatus", "deliverAfter"]),
 
   // User push notification settings and tokens
   pushSettings: defineTable({
@@ -1259,9 +1615,11 @@ export default defineSchema({
     quietHoursStart: v.optional(v.number()), // Hour in 24h format (0-23)
     quietHoursEnd: v.optional(v.number()),
     timezone: v.optional(v.string()), // e.g., "America/Los_Angeles"
+    tokenInvalidatedAt: v.optional(v.string()), // Set when a provider reports the token dead (token is cleared)
     lastUpdated: v.string(),
   })
-    .index("by_userId", ["userId"]),
+    .index("by_userId", ["userId"])
+    .index("by_pushToken", ["pushToken"]),
 
   // Background Images - Admin-uploaded backgrounds for pages
   backgroundImages: defineTable({
@@ -1233,7 +1233,7 @@ PROGRAMMING RULES (MUST FOLLOW):
 1. EXACT DAY COUNT: Generate exactly ${data.trainingDays.length} training days + ${7 - data.trainingDays.length} rest days = 7 total days
 2. EVERY strength exercise MUST have "target_weight_kg" specified (calculate from user's strength levels)
 3. EVERY training day MUST end with a cooldown block (stretches, foam rolling, or rehab exercises)
-4. Block type MUST be: "single", "superset", "circuit", "amrap", or "emom" (NOT "warmup", "strength", etc.)
+4. Block type MUST be: "single", "superset", "circuit", "amrap", "emom", or "tabata" (NOT "warmup", "strength", etc.)
 5. Category MUST be: "warmup", "main", or "cooldown" (NOT "strength", "conditioning", "cardio", etc.)
 6. For cardio/distance exercises use: "distance_time" (NOT "time_distance")
 ${isTwoADay ? `
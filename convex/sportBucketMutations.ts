@@ -1,5 +1,6 @@
 import { v } from "convex/values";
 import { mutation } from "./_generated/server";
+import { verifyAuthenticatedUser } from "./utils/accessControl";
 
 // Update sport bucket when a plan is used
 export const updateSportBucket = mutation({
@@ -11,6 +12,9 @@ export const updateSportBucket = mutation({
     userId: v.string(),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     const normalized = args.exercise_name.toLowerCase().trim().replace(/\s+/g, "_");
     
     // Find existing sport bucket entry
@@ -127,6 +131,9 @@ export const saveExercisePerformance = mutation({
     notes: v.union(v.string(), v.null()),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify user_id matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.user_id);
+
     const normalized = args.exercise_name.toLowerCase().trim().replace(/\s+/g, "_");
     
     await ctx.db.insert("exercisePerformance", {
@@ -176,6 +183,9 @@ export const updateUserInjuryProfile = mutation({
     }),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     const user = await ctx.db
       .query("users")
       .withIndex("by_userId", q => q.eq("userId", args.userId))
@@ -1,5 +1,6 @@
 import { v } from "convex/values";
 import { query } from "./_generated/server";
+import { isAuthenticatedUser } from "./utils/accessControl";
 
 // Get sport-specific exercises sorted by performance
 export const getSportBucketExercises = query({
@@ -63,6 +64,11 @@ export const getUserExercisePerformance = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns null if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return null;
+    }
+
     const normalized = args.exercise_name.toLowerCase().trim().replace(/\s+/g, "_");
     
     let query = ctx.db
@@ -122,6 +128,11 @@ export const getSafeExercisesForUser = query({
     sport: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user (returns empty if not auth'd)
+    if (!await isAuthenticatedUser(ctx, args.userId)) {
+      return [];
+    }
+
     // Get user's injury profile
     const user = await ctx.db
       .query("users")
@@ -9,7 +9,36 @@
 
 import { action, query, mutation } from "./_generated/server";
 import { v } from "convex/values";
-import { api } from "./_generated/api";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+
+interface CacheCheck {
+  total: number;
+  cached: number;
+  withExplanation: number;
+  details: { name: string; cached: boolean; hasExplanation: boolean }[];
+}
+
+interface CacheStats {
+  total: number;
+  withExplanation: number;
+  withStepByStep: number;
+  withMuscles: number;
+  recentlyAdded: number;
+  sampleExercises: { name: string; hasExplanation: boolean; hasSteps: boolean; hasMuscles: boolean }[];
+}
+
+interface FullFlowResult {
+  success: boolean;
+  genTimeMs: number;
+  saveTimeMs: number;
+  exercisesInPlan: number;
+  cacheBeforeSave: number;
+  cacheAfterSave: number;
+  newExercisesCached: number;
+  phase2Triggered: boolean;
+  overallCacheStats: CacheStats;
+}
 
 // ═══════════════════════════════════════════════════════════════════════════
 // CHECK EXERCISE CACHE STATUS
@@ -95,7 +124,8 @@ export const testFullFlow = action({
   args: {
     testUserId: v.optional(v.string()),
   },
-  handler: async (ctx, args) => {
+  // Explicit types: this action calls back into this module through api.testPhase2
+  handler: async (ctx, args): Promise<FullFlowResult> => {
     const testUserId = args.testUserId || "test_phase2_user_" + Date.now();
 
     console.log(`\n${'═'.repeat(60)}`);
@@ -107,7 +137,7 @@ export const testFullFlow = action({
     console.log("▶ Step 1: Generating plan...");
     const startGen = Date.now();
 
-    const generatedPlan = await ctx.runAction(api.ai.generateWorkoutPlan, {
+    const generatedPlan: { name: string; weeklyPlan: any[] } = await ctx.runAction(internal.ai.generateWorkoutPlanInternal, {
       preferences: {
         primary_goal: "aesthetic",
         experience_level: "intermediate",
@@ -140,7 +170,7 @@ export const testFullFlow = action({
 
     // Step 2: Check which exercises are already cached BEFORE saving
     console.log("\n▶ Step 2: Checking exercise cache (before save)...");
-    const beforeSave = await ctx.runQuery(api.testPhase2.checkExercisesCached, {
+    const beforeSave: CacheCheck = await ctx.runQuery(api.testPhase2.checkExercisesCached, {
       exerciseNames: Array.from(exerciseNames),
     });
     console.log(`  Already cached: ${beforeSave.cached}/${beforeSave.total}`);
@@ -172,7 +202,7 @@ export const testFullFlow = action({
       })),
     };
 
-    const saveResult = await ctx.runMutation(api.mutations.createWorkoutPlan, {
+    const saveResult: { planId: Id<"workoutPlans">; newExercisesAdded: number } = await ctx.runMutation(api.mutations.createWorkoutPlan, {
       userId: testUserId,
       name: normalizedPlan.name,
       weeklyPlan: normalizedPlan.weeklyPlan,
@@ -191,7 +221,7 @@ export const testFullFlow = action({
     await new Promise(resolve => setTimeout(resolve, 10000));
 
     // Check cache status
-    const afterPhase2 = await ctx.runQuery(api.testPhase2.checkExercisesCached, {
+    const afterPhase2: CacheCheck = await ctx.runQuery(api.testPhase2.checkExercisesCached, {
       exerciseNames: Array.from(exerciseNames),
     });
     console.log(`  After Phase 2 start:`);
@@ -200,7 +230,7 @@ export const testFullFlow = action({
 
     // Step 5: Get overall cache stats
     console.log("\n▶ Step 5: Overall exercise cache stats...");
-    const cacheStats = await ctx.runQuery(api.testPhase2.getExerciseCacheStats, {});
+    const cacheStats: CacheStats = await ctx.runQuery(api.testPhase2.getExerciseCacheStats, {});
     console.log(`  Total exercises in cache: ${cacheStats.total}`);
     console.log(`  With explanations: ${cacheStats.withExplanation}`);
     console.log(`  With step-by-step: ${cacheStats.withStepByStep}`);
@@ -7,7 +7,7 @@
 
 import { action } from "./_generated/server";
 import { v } from "convex/values";
-import { api } from "./_generated/api";
+import { internal } from "./_generated/api";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TEST CASES
@@ -363,7 +363,7 @@ export const runSingleTest = action({
     const startTime = Date.now();
 
     try {
-      const result = await ctx.runAction(api.ai.generateWorkoutPlan, testCase.payload);
+      const result = await ctx.runAction(internal.ai.generateWorkoutPlanInternal, testCase.payload);
       const elapsedMs = Date.now() - startTime;
       const elapsedSec = (elapsedMs / 1000).toFixed(2);
 
@@ -414,7 +414,7 @@ export const runAllTests = action({
       const startTime = Date.now();
 
       try {
-        const result = await ctx.runAction(api.ai.generateWorkoutPlan, testCase.payload);
+        const result = await ctx.runAction(internal.ai.generateWorkoutPlanInternal, testCase.payload);
         const elapsedMs = Date.now() - startTime;
 
         const validation = validatePlanStructure(result);
@@ -484,7 +484,7 @@ export const quickTest = action({
     const startTime = Date.now();
 
     try {
-      const result = await ctx.runAction(api.ai.generateWorkoutPlan, testCase.payload);
+      const result = await ctx.runAction(internal.ai.generateWorkoutPlanInternal, testCase.payload);
       const elapsedMs = Date.now() - startTime;
 
       return {
@@ -1,5 +1,6 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { verifyAuthenticatedUser } from "./utils/accessControl";
 
 /**
  * Generate unique user code (REBLD-ABC12345)
@@ -29,6 +30,9 @@ export const ensureUserCode = mutation({
     userId: v.string()
   },
   handler: async (ctx, args) => {
+    // SECURITY: Verify userId matches authenticated user
+    await verifyAuthenticatedUser(ctx, args.userId);
+
     const user = await ctx.db
       .query("users")
       .withIndex("by_userId", (q) => q.eq("userId", args.userId))
@@ -5,7 +5,7 @@
  * ALWAYS call these before modifying data in mutations.
  */
 
-import { GenericMutationCtx, GenericQueryCtx } from "convex/server";
+import { GenericActionCtx, GenericMutationCtx, GenericQueryCtx } from "convex/server";
 import { DataModel } from "../_generated/dataModel";
 import { Id } from "../_generated/dataModel";
 
@@ -86,6 +86,76 @@ export async function verifySharedPlanOwnership(
   }
 }
 
+/**
+ * Check whether a buddy has granted the viewer access to their data (non-throwing)
+ * Requires an active buddy relationship AND the owner's setting - the viewer's own
+ * settings row never grants access to someone else's logs or PRs.
+ */
+export async function hasBuddyPermission(
+  ctx: GenericMutationCtx<DataModel> | GenericQueryCtx<DataModel>,
+  viewerId: string,
+  ownerId: string,
+  permission: "shareLogs" | "showPRs" | "compareStats"
+): Promise<boolean> {
+  const relationship = await ctx.db
+    .query("workoutBuddies")
+    .withIndex("by_pair", (q) => q.eq("userId", ownerId).eq("buddyId", viewerId))
+    .first();
+
+  if (!relationship || relationship.status !== "active") {
+    return false;
+  }
+
+  const ownerSettings = await ctx.db
+    .query("buddySettings")
+    .withIndex("by_pair", (q) => q.eq("userId", ownerId).eq("buddyId", viewerId))
+    .first();
+
+  return ownerSettings?.[permission] === true;
+}
+
+/**
+ * Check whether an athlete has granted a coach a permission (non-throwing)
+ * Requires the caller to still be a coach AND an active link the athlete accepted -
+ * revoking the link (or turning a permission off) cuts access immediately.
+ */
+export async function hasCoachPermission(
+  ctx: GenericMutationCtx<DataModel> | GenericQueryCtx<DataModel>,
+  coachId: string,
+  athleteId: string,
+  permission: "viewLogs" | "viewHealthMetrics" | "editPlans"
+): Promise<boolean> {
+  const coach = await ctx.db
+    .query("users")
+    .withIndex("by_userId", (q) => q.eq("userId", coachId))
+    .first();
+
+  if (coach?.role !== "coach") {
+    return false;
+  }
+
+  const link = await ctx.db
+    .query("coachAthletes")
+    .withIndex("by_pair", (q) => q.eq("coachId", coachId).eq("athleteId", athleteId))
+    .first();
+
+  return link?.status === "active" && link.permissions[permission] === true;
+}
+
+/**
+ * Verify an athlete has granted a coach a permission
+ */
+export async function verifyCoachPermission(
+  ctx: GenericMutationCtx<DataModel> | GenericQueryCtx<DataModel>,
+  coachId: string,
+  athleteId: string,
+  permission: "viewLogs" | "viewHealthMetrics" | "editPlans"
+): Promise<void> {
+  if (!await hasCoachPermission(ctx, coachId, athleteId, permission)) {
+    throw new Error("Unauthorized: This athlete hasn't given you access");
+  }
+}
+
 /**
  * Verify user owns their profile
  */
@@ -147,7 +217,7 @@ export async function verifyExerciseHistoryOwnership(
  * Get userId from Clerk auth (standard pattern)
  */
 export async function getUserIdFromAuth(
-  ctx: GenericMutationCtx<DataModel> | GenericQueryCtx<DataModel>
+  ctx: GenericMutationCtx<DataModel> | GenericQueryCtx<DataModel> | GenericActionCtx<DataModel>
 ): Promise<string> {
   const identity = await ctx.auth.getUserIdentity();
 
@@ -160,10 +230,10 @@ export async function getUserIdFromAuth(
 
 /**
  * Verify authenticated user matches userId parameter
- * For MUTATIONS: throws error if not authenticated or mismatch
+ * For MUTATIONS and ACTIONS: throws error if not authenticated or mismatch
  */
 export async function verifyAuthenticatedUser(
-  ctx: GenericMutationCtx<DataModel> | GenericQueryCtx<DataModel>,
+  ctx: GenericMutationCtx<DataModel> | GenericQueryCtx<DataModel> | GenericActionCtx<DataModel>,
   userId: string
 ): Promise<void> {
   const authenticatedUserId = await getUserIdFromAuth(ctx);
@@ -178,7 +248,7 @@ export async function verifyAuthenticatedUser(
  * For QUERIES: returns false if not authenticated or mismatch (allows graceful handling)
  */
 export async function isAuthenticatedUser(
-  ctx: GenericMutationCtx<DataModel> | GenericQueryCtx<DataModel>,
+  ctx: GenericMutationCtx<DataModel> | GenericQueryCtx<DataModel> | GenericActionCtx<DataModel>,
   userId: string
 ): Promise<boolean> {
   const identity = await ctx.auth.getUserIdentity();
@@ -240,3 +310,18 @@ export async function isAdmin(
 
   return user?.role === "admin";
 }
+
+/**
+ * Verify the caller is asking about themselves, or is an admin
+ * For cross-user analytics: a missing userId means "all users" and requires admin
+ */
+export async function verifySelfOrAdmin(
+  ctx: GenericMutationCtx<DataModel> | GenericQueryCtx<DataModel>,
+  userId: string | undefined
+): Promise<void> {
+  const authenticatedUserId = await getUserIdFromAuth(ctx);
+
+  if (userId !== authenticatedUserId) {
+    await verifyAdmin(ctx);
+  }
+}
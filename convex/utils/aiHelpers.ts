@@ -30,8 +30,8 @@ interface Exercise {
   category: string;
   metrics_template: MetricsTemplate;
   rest_seconds?: number;
-  rpe?: string;
-  notes?: string;
+  rpe?: number | string | null;
+  notes?: string | null;
 }
 
 interface Block {
@@ -39,6 +39,8 @@ interface Block {
   exercises: Exercise[];
   duration_minutes?: number;
   rounds?: number;
+  work_seconds?: number;
+  rest_seconds?: number;
 }
 
 interface Session {
@@ -117,22 +119,29 @@ export async function generateWithRetry(
   config: GenerationConfig,
   validateFn?: (parsed: Plan) => ValidationResult,
   maxAttempts: number = 3,
-  sessionDurationMinutes: number = 60 // For cardio template fixing
+  sessionDurationMinutes: number = 60, // For cardio template fixing
+  qualityCheck?: (plan: Plan) => { plan: Plan; feedback: string | null } // Programming checks (planQualityValidator)
 ): Promise<Plan> {
   let lastError: Error | null = null;
   let validationErrors: string[] = [];
+  let qualityFeedback: string | null = null;
+  const basePrompt = typeof config.contents === 'string' ? config.contents : null;
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     try {
       console.log(`[Attempt ${attempt}/${maxAttempts}] Generating content...`);
 
       // Add validation feedback to subsequent attempts
-      if (attempt > 1 && validationErrors.length > 0) {
+      if (attempt > 1 && (validationErrors.length > 0 || qualityFeedback)) {
         const errorList = validationErrors.map((e, i) => `${i + 1}. ${e}`).join('\n');
-        const feedbackText = `\n\nPREVIOUS ATTEMPT HAD ERRORS - FIX THESE:\n${errorList}\n\nRegenerate with these fixes applied.`;
-
-        // Add feedback to the prompt
-        if (typeof config.contents !== 'string' && Array.isArray(config.contents) && config.contents.length > 0 && config.contents[0]?.parts) {
+        const feedbackText = validationErrors.length > 0
+          ? `\n\nPREVIOUS ATTEMPT HAD ERRORS - FIX THESE:\n${errorList}\n\nRegenerate with these fixes applied.`
+          : `\n\n${qualityFeedback}`;
+
+        // Add feedback to the prompt (string prompts are rebuilt so feedback doesn't stack)
+        if (basePrompt !== null) {
+          config.contents = `${basePrompt}${feedbackText}`;
+        } else if (typeof config.contents !== 'string' && Array.isArray(config.contents) && config.contents.length > 0 && config.contents[0]?.parts) {
           config.contents[0].parts.push({ text: feedbackText });
         }
       }
@@ -157,15 +166,39 @@ export async function generateWithRetry(
         const validation = validateFn(fixedPlan);
 
         if (validation.valid) {
-          console.log(`[Attempt ${attempt}] SUCCESS - Valid plan generated`);
           if (validation.warnings.length > 0) {
             console.warn(`[Warnings] ${validation.warnings.join(', ')}`);
           }
+
+          // Structurally valid - now check programming quality (auto-fixes what it can)
+          if (qualityCheck) {
+            const quality = qualityCheck(fixedPlan);
+            if (quality.feedback && attempt < maxAttempts) {
+              validationErrors = [];
+              qualityFeedback = quality.feedback;
+              console.warn(`[Attempt ${attempt}] QUALITY ISSUES - Regenerating with feedback`);
+              continue;
+            }
+            if (quality.feedback) {
+              // Out of attempts - a best-effort fixed plan beats failing the whole generation
+              console.warn(`[Attempt ${attempt}] Quality issues remain after ${maxAttempts} attempts - using auto-fixed plan`);
+            }
+            // Auto-fixes edit blocks, so the fixed plan has to pass structural validation again
+            const fixValidation = quality.plan === fixedPlan ? validation : validateFn(quality.plan);
+            if (fixValidation.valid) {
+              fixedPlan = quality.plan;
+            } else {
+              console.warn(`[Attempt ${attempt}] Quality auto-fix broke the plan (${fixValidation.errors.join(', ')}) - keeping the unfixed plan`);
+            }
+          }
+
+          console.log(`[Attempt ${attempt}] SUCCESS - Valid plan generated`);
           return fixedPlan; // Return the auto-fixed plan
         }
 
         // Invalid - prepare for retry
         validationErrors = validation.errors;
+        qualityFeedback = null;
         console.warn(`[Attempt ${attempt}] INVALID - Errors: ${validation.errors.join(', ')}`);
 
         if (attempt === maxAttempts) {
@@ -284,6 +317,16 @@ export function estimateWorkoutDuration(day: Day | { blocks?: Block[] }): number
   blocksToProcess.forEach(block => {
     if (!block.exercises || !Array.isArray(block.exercises)) return;
 
+    // Interval blocks run on a fixed clock regardless of exercise count
+    if (block.type === 'emom') {
+      totalMinutes += block.duration_minutes || 10;
+      return;
+    }
+    if (block.type === 'tabata') {
+      totalMinutes += ((block.rounds || 8) * ((block.work_seconds || 20) + (block.rest_seconds || 10))) / 60;
+      return;
+    }
+
     block.exercises.forEach((ex: Exercise) => {
       const category = ex.category || 'main';
       const metricsTemplate = ex.metrics_template || {} as MetricsTemplate;
@@ -0,0 +1,179 @@
+/**
+ * Buddy Challenge Scoring
+ *
+ * Scores come straight from workoutLogs inside the challenge window, so the
+ * leaderboard is live and the final result uses the exact same numbers.
+ * Days are each participant's local calendar days (utils/localCalendar.ts).
+ */
+
+import { GenericQueryCtx } from "convex/server";
+import { DataModel, Doc } from "../_generated/dataModel";
+import {
+  calculateSessionTonnage,
+  collectWeightedSets,
+  estimateOneRepMax,
+  MAX_E1RM_REPS,
+  normalizeRecordExerciseName,
+} from "./personalRecords";
+import { daysBetween, getLocalDay, resolveTimezone, shiftDate } from "./localCalendar";
+
+export type ChallengeMetric = Doc<"buddyChallenges">["metric"];
+
+type ChallengeLog = Pick<Doc<"workoutLogs">, "date" | "exercises">;
+
+export interface LeaderboardEntry {
+  userId: string;
+  userCode: string | null;
+  score: number;
+  rank: number;
+}
+
+export const CHALLENGE_METRIC_UNITS: Record<ChallengeMetric, string> = {
+  workouts_completed: "workouts",
+  total_volume: "kg",
+  streak_days: "days",
+  running_km: "km",
+  lift_e1rm: "kg e1RM",
+};
+
+const RUNNING_PATTERN = /\b(run|running|jog|jogging)\b/i;
+
+const logDay = (log: { date: string }, timezone: string | undefined) =>
+  getLocalDay(new Date(log.date), timezone).date;
+
+/**
+ * Longest run of consecutive calendar days with at least one log
+ */
+function longestDayStreak(days: string[]): number {
+  const sorted = [...new Set(days)].sort();
+  let longest = 0;
+  let current = 0;
+  let previous: string | null = null;
+
+  for (const day of sorted) {
+    current = previous !== null && daysBetween(previous, day) === 1 ? current + 1 : 1;
+    longest = Math.max(longest, current);
+    previous = day;
+  }
+  return longest;
+}
+
+/**
+ * Metres run in one logged exercise - imported files first, then distance sets
+ */
+function runningMetres(exercise: ChallengeLog["exercises"][number]): number {
+  if (exercise.cardio) {
+    return RUNNING_PATTERN.test(exercise.cardio.sport) || RUNNING_PATTERN.test(exercise.exercise_name)
+      ? exercise.cardio.distance_m
+      : 0;
+  }
+  if (!RUNNING_PATTERN.test(exercise.exercise_name)) return 0;
+
+  return exercise.sets.reduce((sum, set) => {
+    const metres = "distance_m" in set ? Number(set.distance_m) : 0;
+    return sum + (metres > 0 ? metres : 0);
+  }, 0);
+}
+
+/**
+ * One participant's score from their logs inside the challenge window
+ */
+export function computeChallengeScore(
+  metric: ChallengeMetric,
+  logs: ChallengeLog[],
+  exerciseName: string | null,
+  timezone: string | undefined
+): number {
+  switch (metric) {
+    case "workouts_completed":
+      return new Set(logs.map(log => logDay(log, timezone))).size;
+
+    case "total_volume":
+      return Math.round(logs.reduce((sum, log) => sum + calculateSessionTonnage(log.exercises), 0));
+
+    case "streak_days":
+      return longestDayStreak(logs.map(log => logDay(log, timezone)));
+
+    case "running_km": {
+      const metres = logs.reduce(
+        (sum, log) => sum + log.exercises.reduce((s, ex) => s + runningMetres(ex), 0),
+        0
+      );
+      return Math.round(metres / 100) / 10;
+    }
+
+    case "lift_e1rm": {
+      if (!exerciseName) return 0;
+      const target = normalizeRecordExerciseName(exerciseName);
+      let best = 0;
+      for (const [name, sets] of collectWeightedSets(logs)) {
+        if (normalizeRecordExerciseName(name) !== target) continue;
+        for (const set of sets) {
+          if (set.reps <= MAX_E1RM_REPS) best = Math.max(best, estimateOneRepMax(set.weight, set.reps));
+        }
+      }
+      return best;
+    }
+  }
+}
+
+/**
+ * Highest score first; equal scores share a rank (1, 1, 3)
+ */
+export function rankScores<T extends { score: number }>(entries: T[]): Array<T & { rank: number }> {
+  const sorted = [...entries].sort((a, b) => b.score - a.score);
+  let rank = 0;
+  return sorted.map((entry, i) => {
+    if (i === 0 || sorted[i - 1].score !== entry.score) rank = i + 1;
+    return { ...entry, rank };
+  });
+}
+
+/**
+ * Live standings for every joined participant
+ */
+export async function loadChallengeStandings(
+  ctx: GenericQueryCtx<DataModel>,
+  challenge: Doc<"buddyChallenges">,
+  participantIds: string[]
+): Promise<LeaderboardEntry[]> {
+  // Dates are local to each participant - fetch a day either side of the UTC window,
+  // then keep the logs whose local day is inside it (endDate inclusive)
+  const windowStart = `${shiftDate(challenge.startDate, -1)}T00:00:00.000Z`;
+  const windowEnd = `${shiftDate(challenge.endDate, 2)}T00:00:00.000Z`;
+
+  const entries = await Promise.all(
+    participantIds.map(async (userId) => {
+      const [logs, user, settings] = await Promise.all([
+        ctx.db
+          .query("workoutLogs")
+          .withIndex("by_userId_date", (q) =>
+            q.eq("userId", userId).gte("date", windowStart).lt("date", windowEnd)
+          )
+          .collect(),
+        ctx.db
+          .query("users")
+          .withIndex("by_userId", (q) => q.eq("userId", userId))
+          .first(),
+        ctx.db
+          .query("pushSettings")
+          .withIndex("by_userId", (q) => q.eq("userId", userId))
+          .first(),
+      ]);
+
+      const timezone = resolveTimezone(settings, user);
+      const inWindow = logs.filter(log => {
+        const day = logDay(log, timezone);
+        return day >= challenge.startDate && day <= challenge.endDate;
+      });
+
+      return {
+        userId,
+        userCode: user?.userCode ?? null,
+        score: computeChallengeScore(challenge.metric, inWindow, challenge.exerciseName, timezone),
+      };
+    })
+  );
+
+  return rankScores(entries);
+}
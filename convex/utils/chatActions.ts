@@ -0,0 +1,599 @@
+/**
+ * Chat Coach Actions
+ *
+ * The nine plan edits the chat coach can make, declared as Gemini function
+ * declarations (typed JSON schemas) and applied here - server-side - to a
+ * copy of the plan. Used by `handleChatMessage` to build a diff preview and
+ * by `applyCoachAction` to commit the same edit.
+ */
+
+export const CHAT_ACTION_NAMES = [
+  "substituteExercise",
+  "modifyExercise",
+  "addExercise",
+  "removeExercise",
+  "adjustDifficulty",
+  "shortenWorkout",
+  "extendWorkout",
+  "swapDayFocus",
+  "createSuperset",
+] as const;
+
+export type ChatActionName = typeof CHAT_ACTION_NAMES[number];
+
+export function isChatActionName(name: string | undefined): name is ChatActionName {
+  return !!name && (CHAT_ACTION_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Thrown when an action can't be applied (unknown day, exercise not found, ...)
+ * The message is shown to the user as the coach's reply.
+ */
+export class ChatActionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChatActionError";
+  }
+}
+
+// ═══════════════════════════════════════════════════════════
+// FUNCTION DECLARATIONS (Gemini tools)
+// ═══════════════════════════════════════════════════════════
+
+const DAY_OF_WEEK = { type: "integer", minimum: 1, maximum: 7, description: "1=Monday ... 7=Sunday" };
+const EXERCISE_NAME = { type: "string", description: "Exact exercise name as it appears in the plan" };
+const SETS = { type: "integer", minimum: 1, maximum: 10 };
+const REPS = { type: "string", description: "Rep target, e.g. \"8-10\" or \"12\"" };
+const REST = { type: "integer", minimum: 0, maximum: 600, description: "Rest between sets in seconds" };
+const RPE = { type: "string", description: "Target RPE, e.g. \"8\" or \"7-8\"" };
+const CATEGORY = { type: "string", enum: ["warmup", "main", "cooldown"] };
+
+const NEW_EXERCISE = {
+  type: "object",
+  properties: {
+    exercise_name: { type: "string" },
+    category: CATEGORY,
+    sets: SETS,
+    reps: REPS,
+    rest_period_s: REST,
+    duration_minutes: { type: "integer", minimum: 1, maximum: 180, description: "For cardio - replaces sets/reps" },
+  },
+  required: ["exercise_name"],
+};
+
+export const CHAT_FUNCTION_DECLARATIONS = [
+  {
+    name: "substituteExercise",
+    description: "Replace one exercise with another (preference, pain, missing equipment).",
+    parametersJsonSchema: {
+      type: "object",
+      properties: {
+        day_of_week: DAY_OF_WEEK,
+        original_exercise_name: EXERCISE_NAME,
+        new_exercise_name: { type: "string" },
+        new_sets: SETS,
+        new_reps: REPS,
+        new_rest_period_s: REST,
+        new_rpe: RPE,
+      },
+      required: ["day_of_week", "original_exercise_name", "new_exercise_name"],
+    },
+  },
+  {
+    name: "modifyExercise",
+    description: "Change sets, reps, rest or RPE for one exercise.",
+    parametersJsonSchema: {
+      type: "object",
+      properties: {
+        day_of_week: DAY_OF_WEEK,
+        exercise_name: EXERCISE_NAME,
+        new_sets: SETS,
+        new_reps: REPS,
+        new_rest_period_s: REST,
+        new_rpe: RPE,
+      },
+      required: ["day_of_week", "exercise_name"],
+    },
+  },
+  {
+    name: "addExercise",
+    description: "Add one exercise to a day (warmups go first, cooldowns last, main work after the warmup).",
+    parametersJsonSchema: {
+      type: "object",
+      properties: {
+        day_of_week: DAY_OF_WEEK,
+        exercise_name: { type: "string" },
+        category: CATEGORY,
+        sets: SETS,
+        reps: REPS,
+        rest_period_s: REST,
+        duration_minutes: NEW_EXERCISE.properties.duration_minutes,
+      },
+      required: ["day_of_week", "exercise_name", "category"],
+    },
+  },
+  {
+    name: "removeExercise",
+    description: "Remove an exercise from a day.",
+    parametersJsonSchema: {
+      type: "object",
+      properties: {
+        day_of_week: DAY_OF_WEEK,
+        exercise_name: EXERCISE_NAME,
+      },
+      required: ["day_of_week", "exercise_name"],
+    },
+  },
+  {
+    name: "adjustDifficulty",
+    description: "Make every main exercise on a day harder or easier via volume (sets), intensity (RPE) or both.",
+    parametersJsonSchema: {
+      type: "object",
+      properties: {
+        day_of_week: DAY_OF_WEEK,
+        direction: { type: "string", enum: ["harder", "easier"] },
+        method: { type: "string", enum: ["volume", "intensity", "all"] },
+      },
+      required: ["day_of_week", "direction"],
+    },
+  },
+  {
+    name: "shortenWorkout",
+    description: "Make a day shorter by removing exercises. Name them, or give a time budget to drop trailing main accessories.",
+    parametersJsonSchema: {
+      type: "object",
+      properties: {
+        day_of_week: DAY_OF_WEEK,
+        target_minutes: { type: "integer", minimum: 10, maximum: 180 },
+        exercises_to_remove: { type: "array", items: EXERCISE_NAME },
+      },
+      required: ["day_of_week"],
+    },
+  },
+  {
+    name: "extendWorkout",
+    description: "Make a day longer by adding exercises before the cooldown.",
+    parametersJsonSchema: {
+      type: "object",
+      properties: {
+        day_of_week: DAY_OF_WEEK,
+        exercises: { type: "array", items: NEW_EXERCISE, minItems: 1 },
+      },
+      required: ["day_of_week", "exercises"],
+    },
+  },
+  {
+    name: "swapDayFocus",
+    description: "Swap the whole workout (focus, notes, blocks) between two days.",
+    parametersJsonSchema: {
+      type: "object",
+      properties: {
+        day_from: DAY_OF_WEEK,
+        day_to: DAY_OF_WEEK,
+      },
+      required: ["day_from", "day_to"],
+    },
+  },
+  {
+    name: "createSuperset",
+    description: "Group two or more exercises into a superset. Existing exercises are moved into it; new ones are created.",
+    parametersJsonSchema: {
+      type: "object",
+      properties: {
+        day_of_week: DAY_OF_WEEK,
+        exercises: {
+          type: "array",
+          minItems: 2,
+          items: {
+            type: "object",
+            properties: { exercise_name: { type: "string" }, sets: SETS, reps: REPS },
+            required: ["exercise_name"],
+          },
+        },
+        rounds: { type: "integer", minimum: 1, maximum: 10 },
+        rest_between_rounds: REST,
+      },
+      required: ["day_of_week", "exercises"],
+    },
+  },
+];
+
+// ═══════════════════════════════════════════════════════════
+// APPLYING ACTIONS
+// ═══════════════════════════════════════════════════════════
+
+const DAY_NAMES = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+// Rough per-exercise time used when shortening to a time budget (matches the home page estimate)
+const MINUTES_PER_EXERCISE = 4;
+
+export interface ChatActionResult {
+  weeklyPlan: any[];
+  summary: string;
+}
+
+export interface PlanChange {
+  day_of_week: number;
+  kind: "added" | "removed" | "modified" | "focus";
+  exercise_name: string | null;
+  before: string | null;
+  after: string | null;
+}
+
+const normalizeName = (name: string) =>
+  String(name || "").toLowerCase().replace(/^[a-z]\d+[:.)]\s*/, "").replace(/\s+/g, " ").trim();
+
+function dayLabel(dayOfWeek: number): string {
+  return DAY_NAMES[dayOfWeek - 1] || `day ${dayOfWeek}`;
+}
+
+// Blocks live on the day, or on each session for 2x-daily days
+function getBlockLists(day: any): any[][] {
+  const lists: any[][] = [];
+  if (Array.isArray(day.blocks)) lists.push(day.blocks);
+  if (Array.isArray(day.sessions)) {
+    day.sessions.forEach((session: any) => {
+      if (Array.isArray(session.blocks)) lists.push(session.blocks);
+    });
+  }
+  return lists;
+}
+
+function getDayExercises(day: any): any[] {
+  return getBlockLists(day).flatMap(blocks => blocks.flatMap((b: any) => b.exercises || []));
+}
+
+function findDay(weeklyPlan: any[], dayOfWeek: number): any {
+  const day = weeklyPlan.find((d: any) => d.day_of_week === Number(dayOfWeek));
+  if (!day) throw new ChatActionError(`I couldn't find ${dayLabel(Number(dayOfWeek))} in your plan.`);
+  return day;
+}
+
+/**
+ * Exact (case-insensitive) match first, then a unique partial match ("bench" → "Barbell Bench Press")
+ */
+function findExercise(day: any, name: string): any {
+  const target = normalizeName(name);
+  const exercises = getDayExercises(day);
+  const exact = exercises.find(ex => normalizeName(ex.exercise_name) === target);
+  if (exact) return exact;
+
+  const partial = exercises.filter(ex => normalizeName(ex.exercise_name).includes(target));
+  if (partial.length === 1) return partial[0];
+
+  throw new ChatActionError(`I couldn't find "${name}" on ${dayLabel(day.day_of_week)}.`);
+}
+
+function removeExercises(day: any, toRemove: Set<any>) {
+  const prune = (blocks: any[]) => blocks
+    .map((block: any) => ({ ...block, exercises: (block.exercises || []).filter((ex: any) => !toRemove.has(ex)) }))
+    .filter((block: any) => block.exercises.length > 0);
+
+  if (Array.isArray(day.blocks)) day.blocks = prune(day.blocks);
+  if (Array.isArray(day.sessions)) {
+    day.sessions = day.sessions.map((session: any) => ({ ...session, blocks: prune(session.blocks || []) }));
+  }
+}
+
+// The block list new work goes into: the day's blocks, or the first session's for 2x-daily days
+function getTargetBlocks(day: any): any[] {
+  if (Array.isArray(day.blocks) && day.blocks.length > 0) return day.blocks;
+  if (Array.isArray(day.sessions) && day.sessions.length > 0) {
+    day.sessions[0].blocks = day.sessions[0].blocks || [];
+    return day.sessions[0].blocks;
+  }
+  day.blocks = day.blocks || [];
+  return day.blocks;
+}
+
+function insertBlock(day: any, block: any, category: string) {
+  const blocks = getTargetBlocks(day);
+  if (category === "warmup") {
+    const lastWarmup = blocks.reduce((last: number, b: any, i: number) =>
+      (b.exercises || []).some((ex: any) => ex.category === "warmup") ? i : last, -1);
+    blocks.splice(lastWarmup + 1, 0, block);
+    return;
+  }
+  const firstCooldown = blocks.findIndex((b: any) =>
+    (b.exercises || []).length > 0 && b.exercises.every((ex: any) => ex.category === "cooldown"));
+  if (category === "cooldown" || firstCooldown === -1) {
+    blocks.push(block);
+  } else {
+    blocks.splice(firstCooldown, 0, block);
+  }
+}
+
+function buildExercise(spec: {
+  exercise_name: string;
+  category?: string;
+  sets?: number;
+  reps?: string;
+  rest_period_s?: number;
+  duration_minutes?: number;
+  rpe?: string | null;
+}): any {
+  const category = spec.category === "warmup" || spec.category === "cooldown" ? spec.category : "main";
+  const metrics_template = spec.duration_minutes
+    ? { type: "duration_only", duration_minutes: spec.duration_minutes }
+    : {
+        type: "sets_reps_weight",
+        target_sets: spec.sets || 3,
+        target_reps: spec.reps || (category === "main" ? "8-12" : "10"),
+        rest_period_s: spec.rest_period_s ?? (category === "main" ? 90 : 30),
+      };
+
+  return {
+    exercise_name: spec.exercise_name.trim(),
+    notes: null,
+    metrics_template,
+    original_exercise_name: null,
+    rpe: spec.rpe ?? null,
+    category,
+  };
+}
+
+function applyPrescription(ex: any, args: { sets?: number; reps?: string; rest?: number; rpe?: string }) {
+  const template = { ...(ex.metrics_template || { type: "sets_reps_weight" }) };
+  if (args.sets !== undefined) template.target_sets = args.sets;
+  if (args.reps !== undefined) template.target_reps = args.reps;
+  if (args.rest !== undefined) template.rest_period_s = args.rest;
+  ex.metrics_template = template;
+  if (args.rpe !== undefined) ex.rpe = args.rpe;
+}
+
+/**
+ * Apply a chat action to a copy of the weekly plan
+ * @throws ChatActionError when the action doesn't match the plan
+ */
+export function applyChatAction(weeklyPlanInput: any[], name: ChatActionName, args: Record<string, any>): ChatActionResult {
+  const weeklyPlan = JSON.parse(JSON.stringify(weeklyPlanInput || []));
+
+  switch (name) {
+    case "substituteExercise": {
+      const day = findDay(weeklyPlan, args.day_of_week);
+      const ex = findExercise(day, args.original_exercise_name);
+      const original = ex.exercise_name;
+      ex.original_exercise_name = ex.original_exercise_name || original;
+      ex.exercise_name = String(args.new_exercise_name).trim();
+      applyPrescription(ex, { sets: args.new_sets, reps: args.new_reps, rest: args.new_rest_period_s, rpe: args.new_rpe });
+      return { weeklyPlan, summary: `Swapped ${original} for ${ex.exercise_name} on ${dayLabel(day.day_of_week)}` };
+    }
+
+    case "modifyExercise": {
+      const day = findDay(weeklyPlan, args.day_of_week);
+      const ex = findExercise(day, args.exercise_name);
+      if ([args.new_sets, args.new_reps, args.new_rest_period_s, args.new_rpe].every(value => value === undefined)) {
+        throw new ChatActionError(`What would you like to change about ${ex.exercise_name} - sets, reps, rest or RPE?`);
+      }
+      applyPrescription(ex, { sets: args.new_sets, reps: args.new_reps, rest: args.new_rest_period_s, rpe: args.new_rpe });
+      return { weeklyPlan, summary: `Updated ${ex.exercise_name} on ${dayLabel(day.day_of_week)}` };
+    }
+
+    case "addExercise": {
+      const day = findDay(weeklyPlan, args.day_of_week);
+      const ex = buildExercise({
+        exercise_name: args.exercise_name,
+        category: args.category,
+        sets: args.sets,
+        reps: args.reps,
+        rest_period_s: args.rest_period_s,
+        duration_minutes: args.duration_minutes,
+      });
+      insertBlock(day, { type: "single", title: null, exercises: [ex] }, ex.category);
+      return { weeklyPlan, summary: `Added ${ex.exercise_name} to ${dayLabel(day.day_of_week)}` };
+    }
+
+    case "removeExercise": {
+      const day = findDay(weeklyPlan, args.day_of_week);
+      const ex = findExercise(day, args.exercise_name);
+      removeExercises(day, new Set([ex]));
+      return { weeklyPlan, summary: `Removed ${ex.exercise_name} from ${dayLabel(day.day_of_week)}` };
+    }
+
+    case "adjustDifficulty": {
+      const day = findDay(weeklyPlan, args.day_of_week);
+      const harder = args.direction === "harder";
+      const method = args.method || "all";
+      let changed = 0;
+
+      getDayExercises(day).forEach((ex: any) => {
+        if (ex.category !== "main") return;
+        const before = JSON.stringify([ex.metrics_template, ex.rpe]);
+
+        const sets = ex.metrics_template?.target_sets;
+        if ((method === "volume" || method === "all") && typeof sets === "number") {
+          if (harder && sets < 6) applyPrescription(ex, { sets: sets + 1 });
+          if (!harder && sets > 2) applyPrescription(ex, { sets: sets - 1 });
+        }
+
+        if (method === "intensity" || method === "all") {
+          const rpe = parseFloat(String(ex.rpe ?? "7")) || 7;
+          const next = harder ? Math.min(rpe + 1, 10) : Math.max(rpe - 1, 5);
+          if (next !== rpe) ex.rpe = String(next);
+        }
+
+        if (JSON.stringify([ex.metrics_template, ex.rpe]) !== before) changed++;
+      });
+
+      if (changed === 0) {
+        throw new ChatActionError(`There's nothing left to make ${args.direction} on ${dayLabel(day.day_of_week)}.`);
+      }
+      return { weeklyPlan, summary: `Made ${dayLabel(day.day_of_week)} ${args.direction} (${changed} exercises)` };
+    }
+
+    case "shortenWorkout": {
+      const day = findDay(weeklyPlan, args.day_of_week);
+      const toRemove = new Set<any>();
+
+      if (Array.isArray(args.exercises_to_remove) && args.exercises_to_remove.length > 0) {
+        args.exercises_to_remove.forEach((exerciseName: string) => toRemove.add(findExercise(day, exerciseName)));
+      } else if (args.target_minutes) {
+        // Drop the last main exercises first (accessories usually come after the compound lifts)
+        const exercises = getDayExercises(day);
+        const mains = exercises.filter((ex: any) => ex.category === "main");
+        let estimate = exercises.length * MINUTES_PER_EXERCISE;
+        for (let i = mains.length - 1; i > 0 && estimate > args.target_minutes; i--) {
+          toRemove.add(mains[i]);
+          estimate -= MINUTES_PER_EXERCISE;
+        }
+      } else {
+        throw new ChatActionError(`How much time do you have, or which exercises should I cut from ${dayLabel(day.day_of_week)}?`);
+      }
+
+      if (toRemove.size === 0) {
+        throw new ChatActionError(`${dayLabel(day.day_of_week)} already fits in ${args.target_minutes} minutes.`);
+      }
+      const names = Array.from(toRemove).map((ex: any) => ex.exercise_name);
+      removeExercises(day, toRemove);
+      return { weeklyPlan, summary: `Shortened ${dayLabel(day.day_of_week)}: removed ${names.join(", ")}` };
+    }
+
+    case "extendWorkout": {
+      const day = findDay(weeklyPlan, args.day_of_week);
+      const specs = Array.isArray(args.exercises) ? args.exercises : [];
+      if (specs.length === 0) {
+        throw new ChatActionError(`Which exercises should I add to ${dayLabel(day.day_of_week)}?`);
+      }
+      const added = specs.map((spec: any) => {
+        const ex = buildExercise(spec);
+        insertBlock(day, { type: "single", title: null, exercises: [ex] }, ex.category);
+        return ex.exercise_name;
+      });
+      return { weeklyPlan, summary: `Extended ${dayLabel(day.day_of_week)}: added ${added.join(", ")}` };
+    }
+
+    case "swapDayFocus": {
+      const from = findDay(weeklyPlan, args.day_from);
+      const to = findDay(weeklyPlan, args.day_to);
+      if (from === to) throw new ChatActionError("Those are the same day.");
+
+      const swapped = ["focus", "notes", "blocks", "sessions", "estimated_duration"] as const;
+      swapped.forEach(key => {
+        const fromValue = from[key];
+        const toValue = to[key];
+        if (toValue === undefined) delete from[key]; else from[key] = toValue;
+        if (fromValue === undefined) delete to[key]; else to[key] = fromValue;
+      });
+      return { weeklyPlan, summary: `Swapped ${dayLabel(from.day_of_week)} and ${dayLabel(to.day_of_week)}` };
+    }
+
+    case "createSuperset": {
+      const day = findDay(weeklyPlan, args.day_of_week);
+      const specs = Array.isArray(args.exercises) ? args.exercises : [];
+      if (specs.length < 2) {
+        throw new ChatActionError("A superset needs at least 2 exercises - which ones should I pair?");
+      }
+
+      // Move existing exercises into the superset; create the ones that aren't in the plan yet
+      const moved = new Set<any>();
+      const exercises = specs.map((spec: any) => {
+        let existing: any = null;
+        try {
+          existing = findExercise(day, spec.exercise_name);
+        } catch {
+          existing = null;
+        }
+        if (existing && !moved.has(existing)) {
+          moved.add(existing);
+          const copy = { ...existing };
+          applyPrescription(copy, { sets: spec.sets, reps: spec.reps });
+          return copy;
+        }
+        return buildExercise({ exercise_name: spec.exercise_name, sets: spec.sets, reps: spec.reps });
+      });
+
+      if (args.rest_between_rounds !== undefined) {
+        applyPrescription(exercises[exercises.length - 1], { rest: args.rest_between_rounds });
+      }
+      removeExercises(day, moved);
+      insertBlock(day, {
+        type: "superset",
+        title: `Superset: ${exercises.map((ex: any) => ex.exercise_name).join(" + ")}`,
+        rounds: args.rounds || 3,
+        exercises,
+      }, "main");
+      return {
+        weeklyPlan,
+        summary: `Created a ${args.rounds || 3}-round superset on ${dayLabel(day.day_of_week)}: ${exercises.map((ex: any) => ex.exercise_name).join(" + ")}`,
+      };
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════
+// DIFF
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * One-line prescription used in the diff ("4×6-8 · 120s · RPE 8", "30 min")
+ */
+function describeExercise(ex: any, blockType: string): string {
+  const t = ex.metrics_template || {};
+  const parts: string[] = [];
+  if (t.duration_minutes || t.target_duration_minutes) {
+    parts.push(`${t.duration_minutes || t.target_duration_minutes} min`);
+  } else if (t.target_sets || t.target_reps) {
+    parts.push(`${t.target_sets ?? "?"}×${t.target_reps ?? "?"}`);
+  }
+  if (t.rest_period_s) parts.push(`${t.rest_period_s}s`);
+  if (ex.rpe) parts.push(`RPE ${ex.rpe}`);
+  if (blockType !== "single") parts.push(blockType);
+  return parts.join(" · ") || "—";
+}
+
+function indexDay(day: any): Map<string, { name: string; description: string }> {
+  const map = new Map<string, { name: string; description: string }>();
+  getBlockLists(day).forEach(blocks => blocks.forEach((block: any) => {
+    (block.exercises || []).forEach((ex: any) => {
+      map.set(normalizeName(ex.exercise_name), {
+        name: ex.exercise_name,
+        description: describeExercise(ex, block.type || "single"),
+      });
+    });
+  }));
+  return map;
+}
+
+/**
+ * Exercise-level diff between two weekly plans, for the chat preview
+ */
+export function diffWeeklyPlans(before: any[], after: any[]): PlanChange[] {
+  const changes: PlanChange[] = [];
+  const days = new Set<number>([...(before || []), ...(after || [])].map((d: any) => d.day_of_week));
+
+  Array.from(days).sort((a, b) => a - b).forEach(dayOfWeek => {
+    const oldDay = (before || []).find((d: any) => d.day_of_week === dayOfWeek) || {};
+    const newDay = (after || []).find((d: any) => d.day_of_week === dayOfWeek) || {};
+
+    if ((oldDay.focus || null) !== (newDay.focus || null)) {
+      changes.push({ day_of_week: dayOfWeek, kind: "focus", exercise_name: null, before: oldDay.focus || null, after: newDay.focus || null });
+    }
+
+    const oldExercises = indexDay(oldDay);
+    const newExercises = indexDay(newDay);
+
+    oldExercises.forEach((old, key) => {
+      const next = newExercises.get(key);
+      if (!next) {
+        changes.push({ day_of_week: dayOfWeek, kind: "removed", exercise_name: old.name, before: old.description, after: null });
+      } else if (next.description !== old.description) {
+        changes.push({ day_of_week: dayOfWeek, kind: "modified", exercise_name: next.name, before: old.description, after: next.description });
+      }
+    });
+    newExercises.forEach((next, key) => {
+      if (!oldExercises.has(key)) {
+        changes.push({ day_of_week: dayOfWeek, kind: "added", exercise_name: next.name, before: null, after: next.description });
+      }
+    });
+  });
+
+  return changes;
+}
+
+/**
+ * Validation errors the edit introduced (pre-existing issues in the plan don't block it)
+ */
+export function getNewValidationErrors(beforeErrors: string[], afterErrors: string[]): string[] {
+  const existing = new Set(beforeErrors);
+  return afterErrors.filter(error => !existing.has(error));
+}
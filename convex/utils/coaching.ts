@@ -0,0 +1,56 @@
+/**
+ * Coaching Helpers
+ *
+ * Adherence for the coach dashboard: sessions the athlete logged against the
+ * training days their active plan schedules, over a rolling window.
+ */
+
+import { Doc } from "../_generated/dataModel";
+import { isTrainingDay } from "./trainingDays";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CoachPermissions = Doc<"coachAthletes">["permissions"];
+
+export const DEFAULT_COACH_PERMISSIONS: CoachPermissions = {
+  viewLogs: true,
+  viewHealthMetrics: true,
+  editPlans: true,
+};
+
+export interface AdherenceSummary {
+  weeks: number;
+  plannedSessions: number;
+  completedSessions: number;
+  percent: number | null; // null when the athlete has no plan to adhere to
+  lastWorkoutDate: string | null;
+}
+
+/**
+ * Logged training days vs scheduled training days over the last `weeks` weeks
+ * Multiple logs on the same day count once.
+ */
+export function computeAdherence(
+  weeklyPlan: any[] | null,
+  logs: Array<Pick<Doc<"workoutLogs">, "date">>,
+  weeks: number,
+  now: number = Date.now()
+): AdherenceSummary {
+  const since = new Date(now - weeks * 7 * DAY_MS).toISOString();
+  const recent = logs.filter(log => log.date >= since);
+  const completedSessions = new Set(recent.map(log => log.date.slice(0, 10))).size;
+  const plannedSessions = (weeklyPlan || []).filter(isTrainingDay).length * weeks;
+
+  const lastWorkoutDate = logs.reduce<string | null>(
+    (latest, log) => (!latest || log.date > latest ? log.date : latest),
+    null
+  );
+
+  return {
+    weeks,
+    plannedSessions,
+    completedSessions,
+    percent: plannedSessions > 0 ? Math.min(100, Math.round((completedSessions / plannedSessions) * 100)) : null,
+    lastWorkoutDate,
+  };
+}
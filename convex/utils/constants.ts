@@ -77,11 +77,78 @@ export const ACHIEVEMENT_VOLUME_HEAVY = 10000;
 /** Volume for "Beast Mode" achievement (in kg) */
 export const ACHIEVEMENT_VOLUME_BEAST = 50000;
 
+// ==================== CHALLENGE CONSTANTS ====================
+
+/** Max buddies that can be invited into one challenge (excluding the creator) */
+export const MAX_CHALLENGE_INVITES = 10;
+
+/** Longest allowed challenge window */
+export const MAX_CHALLENGE_DAYS = 90;
+
+// ==================== MARKETPLACE CONSTANTS ====================
+
+/** Categories a community plan can be published under */
+export const MARKETPLACE_CATEGORIES = ["Strength", "Hypertrophy", "Athletic", "Endurance", "Hybrid", "General Fitness"];
+
+/** Open reports that hide a plan from browse until reviewed */
+export const MARKETPLACE_REPORT_HIDE_THRESHOLD = 3;
+
+// ==================== COACHING CONSTANTS ====================
+
+/** Active + pending athletes one coach can have */
+export const MAX_ATHLETES_PER_COACH = 50;
+
+/** Window for the adherence figure coaches see */
+export const COACH_ADHERENCE_WEEKS = 4;
+
+/** Longest coach comment on a session */
+export const MAX_COACH_COMMENT_LENGTH = 1000;
+
+// ==================== PUSH DELIVERY CONSTANTS ====================
+
+/** Notifications claimed per delivery worker run */
+export const PUSH_DELIVERY_BATCH_SIZE = 200;
+
+/** Send attempts before a notification is marked failed */
+export const PUSH_MAX_ATTEMPTS = 3;
+
+/** Pending notifications older than this are dropped instead of pushed late */
+export const PUSH_MAX_AGE_HOURS = 24;
+
+/** Identical notifications (same dedupe key) within this window are pushed once */
+export const PUSH_DEDUPE_WINDOW_HOURS = 12;
+
+/** A claim older than this is assumed dead and the notification is retried */
+export const PUSH_CLAIM_TIMEOUT_MINUTES = 10;
+
+// ==================== SCHEDULED NOTIFICATION CONSTANTS ====================
+
+/** Workout reminders go out this many hours before the user's calendar training time */
+export const WORKOUT_REMINDER_LEAD_HOURS = 1;
+
+/** Local hour the streak-at-risk alert goes out if nothing is logged yet */
+export const STREAK_AT_RISK_HOUR = 19;
+
+/** Streaks shorter than this aren't worth an alert */
+export const STREAK_AT_RISK_MIN_STREAK = 2;
+
+/** Local hour for deload reminders and event countdowns */
+export const PLAN_REMINDER_HOUR = 8;
+
+/** Days before the event that get a countdown notification */
+export const EVENT_COUNTDOWN_MILESTONES = [56, 28, 14, 7, 3, 1];
+
+/** A scheduled notification with the same dedupe key this recent is not created again */
+export const SCHEDULED_NOTIFICATION_LOOKBACK_DAYS = 7;
+
 // ==================== STREAK CONSTANTS ====================
 
 /** Streak freezes per month for premium users */
 export const STREAK_FREEZES_PER_MONTH = 1;
 
+/** Unused freezes carry over up to this many */
+export const STREAK_MAX_FREEZES = 3;
+
 // ==================== SHARE CODE CONSTANTS ====================
 
 /** Share code prefix */
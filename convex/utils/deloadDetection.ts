@@ -0,0 +1,238 @@
+/**
+ * Performance-driven Deload Detection
+ *
+ * The fixed schedule (`isDeloadWeek` in periodization.ts) deloads every Nth
+ * week of a phase regardless of how training is going. This looks at what
+ * actually happened over the last few weeks and flags stagnation/fatigue:
+ *
+ * - e1rm_stagnation:  best e1RM flat or down on most tracked lifts
+ * - rpe_creep:        same load feeling harder (exercisePerformance RPE)
+ * - completion_drop:  fewer planned sessions completed (weekHistory.stats)
+ * - readiness_decline: morning readiness trending down (healthMetrics)
+ *
+ * One signal → recommend a deload. Two or more → insert one.
+ */
+
+import { Doc } from "../_generated/dataModel";
+import { collectWeightedSets, estimateOneRepMax, MAX_E1RM_REPS, normalizeRecordExerciseName } from "./personalRecords";
+import { computeReadiness, getReadinessBand, READINESS_BASELINE_DAYS } from "./readiness";
+
+export type DeloadSignalType = "e1rm_stagnation" | "rpe_creep" | "completion_drop" | "readiness_decline";
+
+export interface DeloadSignal {
+  type: DeloadSignalType;
+  detail: string; // Human readable, shown in the notification and the AI prompt
+}
+
+export interface DeloadAssessment {
+  action: "none" | "recommend" | "insert";
+  signals: DeloadSignal[];
+  reason: string | null;
+}
+
+/** How far back the detector looks */
+export const DELOAD_LOOKBACK_DAYS = 28;
+
+/** Never auto-deload twice in quick succession */
+export const MIN_WEEKS_BETWEEN_DELOADS = 3;
+
+const SIGNALS_TO_INSERT = 2;
+
+// e1RM: "flat" = less than 1% better over the recent half of the window
+const E1RM_FLAT_TOLERANCE = 1.01;
+const MIN_LIFTS_FOR_TREND = 2;
+const STALLED_SHARE = 0.6;
+
+// RPE at the same load (±0.5kg) rising by at least this much
+const RPE_CREEP_POINTS = 1;
+const MIN_RPE_CREEP_EXERCISES = 2;
+
+// Completion: latest week under this rate and down by at least this much
+const LOW_COMPLETION_RATE = 0.75;
+const COMPLETION_DROP = 0.15;
+
+// Readiness: this many scored days needed in the recent week
+const MIN_READINESS_DAYS = 3;
+const READINESS_DROP_POINTS = 8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, n) => sum + n, 0) / values.length : null;
+
+const toDisplayName = (key: string) =>
+  key.split("_").filter(Boolean).map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(" ");
+
+// =============================================================================
+// SIGNALS
+// =============================================================================
+
+/**
+ * Best e1RM in the recent half of the window vs the earlier half, per lift
+ * Only lifts tracked in exerciseHistory and logged in both halves count
+ */
+export function detectE1rmStagnation(
+  logs: Array<Pick<Doc<"workoutLogs">, "date" | "exercises">>,
+  trackedExercises: Set<string>,
+  now: number
+): DeloadSignal | null {
+  const midpoint = now - (DELOAD_LOOKBACK_DAYS / 2) * DAY_MS;
+  const trends: Array<{ name: string; change: number }> = [];
+
+  for (const [name, sets] of collectWeightedSets(logs)) {
+    const key = normalizeRecordExerciseName(name);
+    if (!trackedExercises.has(key)) continue;
+
+    let earlier = 0;
+    let recent = 0;
+    for (const set of sets) {
+      if (set.reps > MAX_E1RM_REPS) continue;
+      const e1rm = estimateOneRepMax(set.weight, set.reps);
+      if (Date.parse(set.date) >= midpoint) recent = Math.max(recent, e1rm);
+      else earlier = Math.max(earlier, e1rm);
+    }
+    if (earlier > 0 && recent > 0) {
+      trends.push({ name: toDisplayName(key), change: recent / earlier });
+    }
+  }
+
+  if (trends.length < MIN_LIFTS_FOR_TREND) return null;
+
+  const stalled = trends.filter(t => t.change < E1RM_FLAT_TOLERANCE);
+  if (stalled.length / trends.length < STALLED_SHARE) return null;
+
+  const examples = stalled
+    .sort((a, b) => a.change - b.change)
+    .slice(0, 3)
+    .map(t => `${t.name} ${t.change >= 1 ? "±0" : `${Math.round((t.change - 1) * 100)}`}%`);
+
+  return {
+    type: "e1rm_stagnation",
+    detail: `e1RM flat or down on ${stalled.length} of ${trends.length} lifts (${examples.join(", ")})`,
+  };
+}
+
+/**
+ * RPE rising at an unchanged load across exercisePerformance entries
+ */
+export function detectRpeCreep(
+  performances: Array<Pick<Doc<"exercisePerformance">, "exercise_name" | "actual_weight" | "rpe" | "timestamp">>
+): DeloadSignal | null {
+  const byExerciseLoad = new Map<string, Array<{ rpe: number; timestamp: string }>>();
+  for (const p of performances) {
+    if (p.rpe === null || p.actual_weight === null || p.actual_weight <= 0) continue;
+    const key = `${normalizeRecordExerciseName(p.exercise_name)}@${Math.round(p.actual_weight * 2) / 2}`;
+    const entries = byExerciseLoad.get(key) || [];
+    entries.push({ rpe: p.rpe, timestamp: p.timestamp });
+    byExerciseLoad.set(key, entries);
+  }
+
+  const creeping = new Map<string, number>();
+  for (const [key, entries] of byExerciseLoad) {
+    if (entries.length < 2) continue;
+    entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const rise = entries[entries.length - 1].rpe - entries[0].rpe;
+    if (rise >= RPE_CREEP_POINTS) {
+      const exercise = key.split("@")[0];
+      if (!creeping.has(exercise) || rise > creeping.get(exercise)!) creeping.set(exercise, rise);
+    }
+  }
+
+  if (creeping.size < MIN_RPE_CREEP_EXERCISES) return null;
+
+  const examples = [...creeping.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([exercise, rise]) => `${toDisplayName(exercise)} +${rise} RPE`);
+
+  return {
+    type: "rpe_creep",
+    detail: `Same loads feeling harder on ${creeping.size} exercises (${examples.join(", ")})`,
+  };
+}
+
+/**
+ * Completion rate of the last two finished weeks (newest first)
+ */
+export function detectCompletionDrop(
+  weeks: Array<Pick<Doc<"weekHistory">, "weekNumber" | "stats">>
+): DeloadSignal | null {
+  const rates = weeks
+    .filter(w => w.stats && w.stats.workoutsPlanned > 0)
+    .map(w => ({ week: w.weekNumber, rate: w.stats!.workoutsCompleted / w.stats!.workoutsPlanned }));
+  if (rates.length < 2) return null;
+
+  const [latest, previous] = rates;
+  if (latest.rate >= LOW_COMPLETION_RATE || previous.rate - latest.rate < COMPLETION_DROP) return null;
+
+  return {
+    type: "completion_drop",
+    detail: `Completed ${Math.round(latest.rate * 100)}% of week ${latest.week} (down from ${Math.round(previous.rate * 100)}%)`,
+  };
+}
+
+/**
+ * Average readiness of the last 7 days vs the 7 before, each day scored
+ * against its own trailing baseline like the morning check-in
+ */
+export function detectReadinessDecline(
+  metrics: Array<Doc<"healthMetrics">>,
+  now: number
+): DeloadSignal | null {
+  const sorted = [...metrics].sort((a, b) => a.date.localeCompare(b.date));
+  const recentStart = now - 7 * DAY_MS;
+  const previousStart = now - 14 * DAY_MS;
+
+  const recent: number[] = [];
+  const previous: number[] = [];
+  sorted.forEach((entry, i) => {
+    const time = Date.parse(`${entry.date}T12:00:00Z`);
+    if (time < previousStart) return;
+    const history = sorted.slice(0, i).filter(h => time - Date.parse(`${h.date}T12:00:00Z`) <= READINESS_BASELINE_DAYS * DAY_MS);
+    const { score } = computeReadiness(entry, history);
+    if (score === null) return;
+    (time >= recentStart ? recent : previous).push(score);
+  });
+
+  if (recent.length < MIN_READINESS_DAYS) return null;
+
+  const recentAvg = Math.round(average(recent)!);
+  const previousAvg = average(previous);
+  const dropped = previousAvg !== null && previous.length >= MIN_READINESS_DAYS && previousAvg - recentAvg >= READINESS_DROP_POINTS;
+  if (!dropped && getReadinessBand(recentAvg) !== "reduced") return null;
+
+  return {
+    type: "readiness_decline",
+    detail: dropped
+      ? `Readiness averaging ${recentAvg} this week (down from ${Math.round(previousAvg!)})`
+      : `Readiness averaging ${recentAvg} this week`,
+  };
+}
+
+// =============================================================================
+// ASSESSMENT
+// =============================================================================
+
+export function assessDeloadNeed(input: {
+  logs: Array<Pick<Doc<"workoutLogs">, "date" | "exercises">>;
+  trackedExercises: Set<string>;
+  performances: Array<Pick<Doc<"exercisePerformance">, "exercise_name" | "actual_weight" | "rpe" | "timestamp">>;
+  weeks: Array<Pick<Doc<"weekHistory">, "weekNumber" | "stats">>;
+  metrics: Array<Doc<"healthMetrics">>;
+  now: number;
+}): DeloadAssessment {
+  const signals = [
+    detectE1rmStagnation(input.logs, input.trackedExercises, input.now),
+    detectRpeCreep(input.performances),
+    detectCompletionDrop(input.weeks),
+    detectReadinessDecline(input.metrics, input.now),
+  ].filter((s): s is DeloadSignal => s !== null);
+
+  if (signals.length === 0) return { action: "none", signals, reason: null };
+
+  return {
+    action: signals.length >= SIGNALS_TO_INSERT ? "insert" : "recommend",
+    signals,
+    reason: signals.map(s => s.detail).join("; "),
+  };
+}
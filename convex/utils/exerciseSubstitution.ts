@@ -0,0 +1,303 @@
+/**
+ * Exercise Substitution
+ *
+ * Deterministic replacement ranking for the session tracker's Swap sheet - no
+ * AI call, so the same exercise and profile always give the same list.
+ *
+ * Candidates come from `exerciseRelationships`, the injury alternatives listed
+ * on the exercise itself and same-`movement_pattern` entries in `exerciseCache`.
+ * Each is scored on pattern match, equipment the user has, injury safety, tier
+ * and the user's own `userExercisePreferences`.
+ */
+
+import { GenericQueryCtx } from "convex/server";
+import { DataModel, Doc } from "../_generated/dataModel";
+
+export type EquipmentAccess = "minimal" | "home_gym" | "commercial_gym";
+
+export interface SubstituteUserContext {
+  equipment: EquipmentAccess | null;
+  experienceLevel: string | null;
+  injuryKeys: string[]; // Normalized areas/types from injuries, pain points, restrictions
+}
+
+export interface ExerciseSubstitute {
+  exercise_name: string; // Display name ("Goblet Squat")
+  normalized_name: string; // exerciseCache key ("goblet_squat")
+  score: number; // 0-100
+  movement_pattern: string | null;
+  exercise_tier: "S" | "A" | "B" | "C" | null;
+  equipment_required: string[];
+  reasons: string[];
+  caution: string | null;
+  is_favorite: boolean;
+}
+
+interface CandidateSource {
+  relationshipType: Doc<"exerciseRelationships">["relationship_type"] | null;
+  similarity: number;
+  injuryAlternative: boolean;
+}
+
+const MAX_RELATIONSHIPS = 50;
+const MAX_PATTERN_CANDIDATES = 60;
+const DEFAULT_LIMIT = 8;
+
+const TIER_POINTS: Record<string, number> = { S: 20, A: 14, B: 8, C: 3 };
+const RELATIONSHIP_WEIGHT: Record<string, number> = {
+  alternative: 0.35,
+  similar_pattern: 0.35,
+  regression: 0.3,
+  progression: 0.2,
+  compound_to_isolation: 0.1,
+};
+const EXPERIENCE_RANK: Record<string, number> = { beginner: 0, intermediate: 1, advanced: 2 };
+
+// Keyword lists match services/exerciseDatabaseService.ts isExerciseCompatibleWithEquipment
+const BODYWEIGHT_KEYWORDS = ["bodyweight", "body weight", "no equipment", "none", "push-up", "pull-up", "sit-up", "plank", "squat", "lunge", "burpee"];
+const MINIMAL_EQUIPMENT = ["resistance band", "band", "dumbbell", "db", "kettlebell", "kb"];
+const HOME_GYM_EQUIPMENT = [...MINIMAL_EQUIPMENT, "barbell", "bench", "pull-up bar", "pullup bar", "pull up bar", "cable"];
+const COMMERCIAL_GYM_EQUIPMENT = [...HOME_GYM_EQUIPMENT, "machine", "cable machine", "smith machine", "leg press", "sled"];
+
+export const normalizeSubstituteName = (name: string): string =>
+  name.toLowerCase().trim().replace(/\s+/g, "_");
+
+export const toDisplayName = (normalized: string): string =>
+  normalized
+    .split("_")
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+
+const toWords = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[_-]+/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => (word.length > 3 && word.endsWith("s") ? word.slice(0, -1) : word))
+    .join(" ");
+
+const matchesInjury = (text: string, injuryKeys: string[]): string | null => {
+  const words = toWords(text);
+  if (!words) return null;
+  return injuryKeys.find((key) => words.includes(key) || key.includes(words)) || null;
+};
+
+/**
+ * Every required item must be within the user's equipment access
+ * (unknown requirements are allowed, like the client-side filter)
+ */
+export function isEquipmentAvailable(
+  equipmentRequired: string[] | undefined,
+  equipment: EquipmentAccess | null
+): boolean {
+  const required = (equipmentRequired || []).map((eq) => eq.toLowerCase());
+  if (!equipment || required.length === 0) return true;
+
+  const allowed = equipment === "minimal"
+    ? MINIMAL_EQUIPMENT
+    : equipment === "home_gym"
+      ? HOME_GYM_EQUIPMENT
+      : COMMERCIAL_GYM_EQUIPMENT;
+  return required.every((eq) =>
+    BODYWEIGHT_KEYWORDS.some((keyword) => eq.includes(keyword)) || allowed.some((item) => eq.includes(item))
+  );
+}
+
+/**
+ * Build the ranking context from the user's profile
+ */
+export function buildSubstituteUserContext(user: Doc<"users"> | null): SubstituteUserContext {
+  const injuries = user?.injuryProfile;
+  const rawKeys = [
+    ...(injuries?.current_injuries || []).flatMap((injury) => [injury.affected_area, injury.injury_type]),
+    ...(injuries?.movement_restrictions || []),
+    ...(injuries?.pain_triggers || []),
+    ...(user?.trainingPreferences?.pain_points || []),
+  ];
+
+  return {
+    equipment: user?.trainingPreferences?.equipment ?? null,
+    experienceLevel: user?.trainingPreferences?.experience_level?.toLowerCase() ?? null,
+    injuryKeys: Array.from(new Set(rawKeys.map(toWords).filter((key) => key.length > 2))).sort(),
+  };
+}
+
+/**
+ * Score a single candidate (null = excluded)
+ */
+export function scoreSubstitute(
+  candidate: Doc<"exerciseCache">,
+  source: { movementPattern: string | null; candidate: CandidateSource },
+  context: SubstituteUserContext,
+  preference: Doc<"userExercisePreferences"> | null
+): ExerciseSubstitute | null {
+  // Hard filters: user blacklist and equipment the user doesn't have
+  if (preference?.never_suggest) return null;
+  if (!isEquipmentAvailable(candidate.equipment_required, context.equipment)) return null;
+
+  const reasons: string[] = [];
+  let caution: string | null = null;
+  let score = 0;
+
+  // Movement pattern
+  const pattern = candidate.movement_pattern ?? null;
+  if (source.movementPattern && pattern === source.movementPattern) {
+    score += 35;
+    reasons.push(`Same ${pattern.replace(/_/g, " ")} pattern`);
+  }
+  const { relationshipType, similarity, injuryAlternative } = source.candidate;
+  if (relationshipType) {
+    score += Math.round(similarity * (RELATIONSHIP_WEIGHT[relationshipType] ?? 0));
+    if (relationshipType === "regression") reasons.push("Easier variation");
+    else if (relationshipType === "progression") reasons.push("Harder variation");
+    else if (relationshipType !== "compound_to_isolation") reasons.push(`${similarity}% similar`);
+  }
+
+  // Injury safety
+  if (context.injuryKeys.length > 0) {
+    for (const contra of candidate.injury_contraindications || []) {
+      if (!matchesInjury(contra.injury_type, context.injuryKeys)) continue;
+      if (contra.severity === "absolute") return null;
+      score -= contra.severity === "caution" ? 20 : 5;
+      if (contra.severity === "caution" && !caution) caution = contra.reason;
+    }
+    const contraindication = (candidate.contraindications || [])
+      .find((contra) => matchesInjury(contra, context.injuryKeys));
+    if (contraindication) {
+      score -= 20;
+      caution = caution || `Not advised with ${contraindication.replace(/_/g, " ")}`;
+    }
+    if (candidate.injury_risk === "high") score -= 5;
+    if (injuryAlternative) {
+      score += 15;
+      reasons.push("Injury-friendly alternative");
+    } else if (!caution && candidate.injury_risk === "low") {
+      reasons.push("Low injury risk");
+    }
+  }
+
+  // Experience
+  const required = EXPERIENCE_RANK[candidate.minimum_experience_level?.toLowerCase() || ""];
+  const level = EXPERIENCE_RANK[context.experienceLevel || ""];
+  if (required !== undefined && level !== undefined && required > level) {
+    score -= 15;
+  }
+
+  // Tier
+  const tier = candidate.exercise_tier ?? null;
+  score += tier ? TIER_POINTS[tier] : 5;
+  if (tier === "S" || tier === "A") reasons.push(`${tier}-tier`);
+
+  // Personal preference
+  const isFavorite = preference?.is_favorite ?? false;
+  if (isFavorite) {
+    score += 15;
+    reasons.unshift("Your favorite");
+  }
+  if (preference?.personal_rating) {
+    score += (preference.personal_rating - 3) * 4;
+    if (preference.personal_rating >= 4 && !isFavorite) reasons.push(`You rated ${preference.personal_rating}/5`);
+  }
+
+  return {
+    exercise_name: toDisplayName(candidate.exercise_name),
+    normalized_name: candidate.exercise_name,
+    score: Math.max(0, Math.min(100, score)),
+    movement_pattern: pattern,
+    exercise_tier: tier,
+    equipment_required: candidate.equipment_required || [],
+    reasons,
+    caution,
+    is_favorite: isFavorite,
+  };
+}
+
+/**
+ * Ranked substitutes for an exercise
+ *
+ * `exclude` holds exercises already in the session so a swap never duplicates one.
+ */
+export async function findExerciseSubstitutes(
+  ctx: GenericQueryCtx<DataModel>,
+  args: {
+    exerciseName: string;
+    context: SubstituteUserContext;
+    preferences: Map<string, Doc<"userExercisePreferences">>;
+    exclude?: string[];
+    limit?: number;
+  }
+): Promise<{ movementPattern: string | null; substitutes: ExerciseSubstitute[] }> {
+  const normalized = normalizeSubstituteName(args.exerciseName);
+  const excluded = new Set([normalized, ...(args.exclude || []).map(normalizeSubstituteName)]);
+
+  const getCached = (name: string) => ctx.db
+    .query("exerciseCache")
+    .withIndex("by_exerciseName", (q) => q.eq("exercise_name", name))
+    .first();
+
+  const sourceExercise = await getCached(normalized);
+  const movementPattern = sourceExercise?.movement_pattern && sourceExercise.movement_pattern !== "unknown"
+    ? sourceExercise.movement_pattern
+    : null;
+
+  const candidates = new Map<string, CandidateSource>();
+  const addCandidate = (name: string, update: Partial<CandidateSource>) => {
+    const key = normalizeSubstituteName(name);
+    if (excluded.has(key)) return;
+    const existing = candidates.get(key) || { relationshipType: null, similarity: 0, injuryAlternative: false };
+    candidates.set(key, { ...existing, ...update });
+  };
+
+  const relationships = await ctx.db
+    .query("exerciseRelationships")
+    .withIndex("by_primary", (q) => q.eq("primary_exercise", normalized))
+    .take(MAX_RELATIONSHIPS);
+  for (const relationship of relationships) {
+    if (relationship.relationship_type === "antagonist") continue;
+    const existing = candidates.get(normalizeSubstituteName(relationship.related_exercise));
+    if (existing?.relationshipType && existing.similarity >= relationship.similarity_score) continue;
+    addCandidate(relationship.related_exercise, {
+      relationshipType: relationship.relationship_type,
+      similarity: relationship.similarity_score,
+    });
+  }
+
+  for (const contra of sourceExercise?.injury_contraindications || []) {
+    if (!matchesInjury(contra.injury_type, args.context.injuryKeys)) continue;
+    for (const alternative of contra.alternative_exercises) {
+      addCandidate(alternative, { injuryAlternative: true });
+    }
+  }
+
+  const loaded = new Map<string, Doc<"exerciseCache">>();
+  if (movementPattern) {
+    const samePattern = await ctx.db
+      .query("exerciseCache")
+      .withIndex("by_movementPattern", (q) => q.eq("movement_pattern", movementPattern))
+      .take(MAX_PATTERN_CANDIDATES);
+    for (const exercise of samePattern) {
+      if (excluded.has(exercise.exercise_name)) continue;
+      loaded.set(exercise.exercise_name, exercise);
+      addCandidate(exercise.exercise_name, {});
+    }
+  }
+
+  const substitutes: ExerciseSubstitute[] = [];
+  for (const [name, candidate] of candidates) {
+    const exercise = loaded.get(name) || await getCached(name);
+    if (!exercise) continue;
+
+    const scored = scoreSubstitute(
+      exercise,
+      { movementPattern, candidate },
+      args.context,
+      args.preferences.get(name) || null
+    );
+    if (scored) substitutes.push(scored);
+  }
+
+  substitutes.sort((a, b) => b.score - a.score || a.normalized_name.localeCompare(b.normalized_name));
+  return { movementPattern, substitutes: substitutes.slice(0, args.limit ?? DEFAULT_LIMIT) };
+}
@@ -0,0 +1,230 @@
+/**
+ * iCalendar (.ics) builder - the one copy behind both calendar exports
+ *
+ * Used by the subscribable feed (convex/http.ts) and the client-side download
+ * (services/calendarService.ts), so both describe the same events.
+ *
+ * Lays the plan out week by week from today until the goal's target date
+ * (or `weeksAhead` weeks), one event per training day - or per session on
+ * 2x/day days - at the user's preferred times. Event times are "floating"
+ * (no timezone), so they stay at e.g. 18:00 wherever the calendar is.
+ * UIDs are derived from plan + date + session, so re-importing (or the feed
+ * refreshing) updates events instead of duplicating them.
+ */
+
+import { calculatePhase, PeriodizationPhase } from "./periodization";
+import { isTrainingDay } from "./trainingDays";
+
+export interface CalendarTimes {
+  training_time: string; // "HH:MM"
+  morning_time: string;
+  evening_time: string;
+}
+
+export interface IcsExportOptions {
+  times?: Partial<CalendarTimes>;
+  targetDate?: string | null;
+  eventName?: string | null;
+  preferredSessionLength?: string | null;
+  weeksAhead?: number;
+  today: string; // "YYYY-MM-DD" in the user's timezone
+}
+
+export const DEFAULT_CALENDAR_TIMES: CalendarTimes = {
+  training_time: "18:00",
+  morning_time: "07:00",
+  evening_time: "18:00",
+};
+
+const DEFAULT_WEEKS_AHEAD = 4;
+const MAX_WEEKS = 52;
+const DEFAULT_DURATION_MINUTES = 60;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const PHASE_LABELS: Record<PeriodizationPhase, string> = {
+  base: "Base",
+  build: "Build",
+  peak: "Peak",
+  taper: "Taper",
+  recovery: "Recovery",
+};
+
+const textEncoder = new TextEncoder();
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+const parseCalendarDate = (isoDate: string): number | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(isoDate);
+  return match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+};
+
+const formatDateOnly = (calendarDate: number): string => {
+  const d = new Date(calendarDate);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}`;
+};
+
+const parseTime = (time: string | undefined, fallback: string): number => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time || "") || /^(\d{1,2}):(\d{2})$/.exec(fallback)!;
+  return Math.min(23, Number(match[1])) * 60 + Math.min(59, Number(match[2]));
+};
+
+const formatLocalDateTime = (calendarDate: number, minutesFromMidnight: number): string => {
+  const d = new Date(calendarDate + minutesFromMidnight * 60 * 1000);
+  return `${formatDateOnly(d.getTime())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}00`;
+};
+
+const formatIcsDate = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+};
+
+const escapeIcsText = (text: string): string => {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\n/g, "\\n");
+};
+
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = textEncoder.encode(char).length;
+    if (currentBytes + charBytes > 74) {
+      parts.push(current);
+      current = " ";
+      currentBytes = 1;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n");
+};
+
+const getBlockExerciseNames = (blocks: any[] | undefined): string[] =>
+  (blocks || []).flatMap((block: any) => (block.exercises || []).map((ex: any) => ex.exercise_name));
+
+const getDayEvents = (day: any, times: CalendarTimes, fallbackDuration: number) => {
+  if (day.sessions && day.sessions.length > 0) {
+    return day.sessions.map((session: any, i: number) => ({
+      key: `s${i + 1}`,
+      title: `${day.focus} - ${session.session_name}`,
+      startMinutes: session.time_of_day === "morning"
+        ? parseTime(times.morning_time, DEFAULT_CALENDAR_TIMES.morning_time)
+        : session.time_of_day === "evening"
+          ? parseTime(times.evening_time, DEFAULT_CALENDAR_TIMES.evening_time)
+          : parseTime(times.training_time, DEFAULT_CALENDAR_TIMES.training_time),
+      durationMinutes: session.estimated_duration || fallbackDuration,
+      exercises: getBlockExerciseNames(session.blocks),
+    })).filter((event: { exercises: string[] }) => event.exercises.length > 0);
+  }
+
+  return [{
+    key: "s1",
+    title: day.focus,
+    startMinutes: parseTime(times.training_time, DEFAULT_CALENDAR_TIMES.training_time),
+    durationMinutes: day.estimated_duration || fallbackDuration,
+    exercises: getBlockExerciseNames(day.blocks),
+  }];
+};
+
+/**
+ * Today's date ("YYYY-MM-DD") in an IANA timezone (falls back to UTC)
+ */
+export function getTodayInTimezone(timezone: string | null | undefined, now: Date = new Date()): string {
+  try {
+    return new Intl.DateTimeFormat("en-CA", {
+      timeZone: timezone || "UTC",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    }).format(now);
+  } catch {
+    return now.toISOString().split("T")[0];
+  }
+}
+
+export function generateIcsContent(
+  plan: { _id: string; name: string; weeklyPlan: any[]; periodization?: any },
+  options: IcsExportOptions
+): string {
+  const events: string[] = [];
+  const dtstamp = formatIcsDate(new Date());
+  const times = { ...DEFAULT_CALENDAR_TIMES, ...options.times };
+  const fallbackDuration = Number.parseInt(options.preferredSessionLength || "", 10) || DEFAULT_DURATION_MINUTES;
+
+  const today = parseCalendarDate(options.today) ?? parseCalendarDate(getTodayInTimezone(null))!;
+  const mondayOffset = (new Date(today).getUTCDay() + 6) % 7;
+  const firstMonday = today - mondayOffset * MS_PER_DAY;
+
+  const targetDate = options.targetDate ? parseCalendarDate(options.targetDate) : null;
+  const lastDay = targetDate && targetDate >= today
+    ? Math.min(targetDate, firstMonday + MAX_WEEKS * 7 * MS_PER_DAY - MS_PER_DAY)
+    : firstMonday + (options.weeksAhead || DEFAULT_WEEKS_AHEAD) * 7 * MS_PER_DAY - MS_PER_DAY;
+
+  const periodization = plan.periodization;
+
+  for (let weekIndex = 0; firstMonday + weekIndex * 7 * MS_PER_DAY <= lastDay; weekIndex++) {
+    const weekStart = firstMonday + weekIndex * 7 * MS_PER_DAY;
+    const weekNumber = periodization ? periodization.current_week + weekIndex : null;
+    const phase: PeriodizationPhase | null = periodization && weekNumber
+      ? (weekIndex === 0 ? periodization.phase : calculatePhase(weekNumber, periodization.total_weeks).phase)
+      : null;
+    const weekLabel = phase
+      ? `Week ${weekNumber} of ${periodization.total_weeks} - ${PHASE_LABELS[phase]} phase`
+      : null;
+
+    (plan.weeklyPlan || []).forEach((day: any) => {
+      if (!isTrainingDay(day)) return;
+
+      const date = weekStart + (day.day_of_week - 1) * MS_PER_DAY;
+      if (date < today || date > lastDay) return;
+
+      getDayEvents(day, times, fallbackDuration).forEach((event: any) => {
+        const description = [
+          weekLabel,
+          weekIndex > 0 ? "Planned - details update when this week is generated." : null,
+          `Focus: ${day.focus}`,
+          "",
+          "Exercises:",
+          ...event.exercises.map((name: string) => `- ${name}`),
+        ].filter(line => line !== null).join("\n");
+
+        events.push([
+          "BEGIN:VEVENT",
+          `UID:${plan._id}-${formatDateOnly(date)}-${event.key}@rebld.app`,
+          `DTSTAMP:${dtstamp}`,
+          `DTSTART:${formatLocalDateTime(date, event.startMinutes)}`,
+          `DTEND:${formatLocalDateTime(date, event.startMinutes + event.durationMinutes)}`,
+          `SUMMARY:${escapeIcsText(`REBLD: ${event.title}`)}`,
+          `DESCRIPTION:${escapeIcsText(description)}`,
+          "END:VEVENT",
+        ].map(foldLine).join("\r\n"));
+      });
+    });
+  }
+
+  if (targetDate && targetDate >= today && options.eventName) {
+    events.push([
+      "BEGIN:VEVENT",
+      `UID:${plan._id}-goal-${formatDateOnly(targetDate)}@rebld.app`,
+      `DTSTAMP:${dtstamp}`,
+      `DTSTART;VALUE=DATE:${formatDateOnly(targetDate)}`,
+      `DTEND;VALUE=DATE:${formatDateOnly(targetDate + MS_PER_DAY)}`,
+      `SUMMARY:${escapeIcsText(`REBLD Goal: ${options.eventName}`)}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    ].map(foldLine).join("\r\n"));
+  }
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//REBLD//Workout Plan//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    foldLine(`X-WR-CALNAME:${escapeIcsText(`REBLD: ${plan.name}`)}`),
+    "REFRESH-INTERVAL;VALUE=DURATION:PT6H",
+    "X-PUBLISHED-TTL:PT6H",
+    ...events,
+    "END:VCALENDAR",
+  ].join("\r\n");
+}
@@ -0,0 +1,75 @@
+/**
+ * Idempotency Utilities
+ *
+ * Offline clients replay queued mutations after reconnecting, and a request
+ * that timed out may already have committed. Mutations that accept an
+ * `idempotencyKey` record their result here so a replay returns the original
+ * result instead of writing twice.
+ */
+
+import { GenericMutationCtx } from "convex/server";
+import { DataModel } from "../_generated/dataModel";
+
+/** Receipts older than this are pruned opportunistically (offline queues never wait this long) */
+const RECEIPT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type IdempotentMutationName =
+  | "addWorkoutLog"
+  | "saveExerciseHistory"
+  | "recordExercisePerformance"
+  | "updateStreak";
+
+/**
+ * Look up a previously processed mutation for this user + key
+ * Returns `{ found: false }` when no key was supplied or it hasn't been seen.
+ */
+export async function findProcessedMutation(
+  ctx: GenericMutationCtx<DataModel>,
+  userId: string,
+  idempotencyKey: string | undefined
+): Promise<{ found: true; result: any } | { found: false }> {
+  if (!idempotencyKey) return { found: false };
+
+  const receipt = await ctx.db
+    .query("processedMutations")
+    .withIndex("by_userId_key", (q) =>
+      q.eq("userId", userId).eq("idempotencyKey", idempotencyKey)
+    )
+    .first();
+
+  return receipt ? { found: true, result: receipt.result } : { found: false };
+}
+
+/**
+ * Store the result of a processed mutation under its idempotency key
+ * No-op when the client didn't send a key.
+ */
+export async function recordProcessedMutation(
+  ctx: GenericMutationCtx<DataModel>,
+  userId: string,
+  idempotencyKey: string | undefined,
+  mutationName: IdempotentMutationName,
+  result: any
+): Promise<void> {
+  if (!idempotencyKey) return;
+
+  const now = Date.now();
+  await ctx.db.insert("processedMutations", {
+    userId,
+    idempotencyKey,
+    mutationName,
+    result: result ?? null,
+    processedAt: now,
+  });
+
+  // Prune a few expired receipts for this user so the table stays small
+  const expired = await ctx.db
+    .query("processedMutations")
+    .withIndex("by_userId_processedAt", (q) =>
+      q.eq("userId", userId).lt("processedAt", now - RECEIPT_TTL_MS)
+    )
+    .take(20);
+  for (const receipt of expired) {
+    await ctx.db.delete(receipt._id);
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Local Calendar Helpers
+ *
+ * "Which day is it for this user" - streaks and reminders count days on the
+ * user's own calendar, not UTC, so a 23:00 workout in New York lands on the
+ * day it happened.
+ */
+
+import { Doc } from "../_generated/dataModel";
+import { getTodayInTimezone } from "./icsCalendar";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUtcMidnight = (isoDate: string): number => {
+  const [year, month, day] = isoDate.split("T")[0].split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+/**
+ * The user's timezone: push settings (device), then login location; undefined means UTC
+ */
+export function resolveTimezone(
+  settings: Pick<Doc<"pushSettings">, "timezone"> | null,
+  user: Pick<Doc<"users">, "locationData"> | null
+): string | undefined {
+  return settings?.timezone || user?.locationData?.timezone || undefined;
+}
+
+/**
+ * The user's local calendar day and plan weekday (1=Mon ... 7=Sun, as in weeklyPlan.day_of_week)
+ */
+export function getLocalDay(date: Date, timezone: string | null | undefined): { date: string; dayOfWeek: number } {
+  const localDate = getTodayInTimezone(timezone, date);
+  return { date: localDate, dayOfWeek: getDayOfWeek(localDate) };
+}
+
+/**
+ * Plan weekday (1=Mon ... 7=Sun) of a "YYYY-MM-DD" date
+ */
+export function getDayOfWeek(isoDate: string): number {
+  const utcDay = new Date(toUtcMidnight(isoDate)).getUTCDay();
+  return utcDay === 0 ? 7 : utcDay;
+}
+
+/**
+ * "YYYY-MM-DD" shifted by whole days
+ */
+export function shiftDate(isoDate: string, days: number): string {
+  return new Date(toUtcMidnight(isoDate) + days * DAY_MS).toISOString().split("T")[0];
+}
+
+/**
+ * Whole calendar days from `from` to `to` (negative when `to` is earlier)
+ * Accepts dates or full ISO timestamps - only the date part is used.
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUtcMidnight(to) - toUtcMidnight(from)) / DAY_MS);
+}
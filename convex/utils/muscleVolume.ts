@@ -0,0 +1,232 @@
+/**
+ * Per-muscle weekly volume
+ *
+ * Attributes hard sets to the muscles an exercise trains: a full set to each
+ * primary mover, half a set to each secondary mover (fractional set counting).
+ * Muscles come from exerciseCache `muscles_worked` (first entry = primary,
+ * same order the cache prompt asks for), falling back to the exercise name and
+ * then the movement pattern.
+ *
+ * Groups are finer than planQualityValidator's MuscleGroup so the body heatmap
+ * can show e.g. rear delts separately from the rest of the shoulder; the
+ * validator folds these targets into its groups rather than keeping its own
+ * keyword lists.
+ */
+
+export type HeatmapMuscle =
+  | "chest"
+  | "front_delts"
+  | "side_delts"
+  | "rear_delts"
+  | "biceps"
+  | "triceps"
+  | "forearms"
+  | "abs"
+  | "obliques"
+  | "upper_back"
+  | "lats"
+  | "lower_back"
+  | "glutes"
+  | "quads"
+  | "hamstrings"
+  | "adductors"
+  | "calves";
+
+export interface MuscleTargets {
+  primary: HeatmapMuscle[];
+  secondary: HeatmapMuscle[];
+}
+
+export type VolumeStatus = "under" | "optimal" | "over";
+
+export const ALL_HEATMAP_MUSCLES: HeatmapMuscle[] = [
+  "chest", "front_delts", "side_delts", "rear_delts", "biceps", "triceps", "forearms",
+  "abs", "obliques", "upper_back", "lats", "lower_back", "glutes", "quads", "hamstrings",
+  "adductors", "calves",
+];
+
+/** Small or heavily indirectly-trained groups - shown on the map, never flagged */
+const UNFLAGGED_MUSCLES: HeatmapMuscle[] = ["forearms", "abs", "obliques", "lower_back", "adductors"];
+
+export const PRIMARY_SET_WEIGHT = 1;
+export const SECONDARY_SET_WEIGHT = 0.5;
+
+/**
+ * Weekly hard sets per muscle by primary goal
+ * Hypertrophy: ≥10 sets/week dose-response (Schoenfeld 2017), ~20 as the
+ * practical ceiling. Strength: similar gains from lower volume. Health: ACSM
+ * 2-4 sets per muscle, 2×/week.
+ */
+const WEEKLY_SET_TARGETS: Record<string, { min: number; max: number }> = {
+  hypertrophy: { min: 10, max: 20 },
+  strength: { min: 6, max: 15 },
+  athletic: { min: 6, max: 12 },
+  health: { min: 4, max: 10 },
+};
+
+export function getWeeklySetTarget(primaryGoal: string | null | undefined): { goal: string; min: number; max: number } {
+  const goal = (primaryGoal || "").toLowerCase();
+  const key = /aesthetic|physique|muscle|hypertrophy/.test(goal) ? "hypertrophy"
+    : /strength|power/.test(goal) ? "strength"
+    : /athletic|competition|sport|performance/.test(goal) ? "athletic"
+    : /health|longevity|general/.test(goal) ? "health"
+    : "hypertrophy";
+  return { goal: key, ...WEEKLY_SET_TARGETS[key] };
+}
+
+export function classifyVolume(sets: number, range: { min: number; max: number }): VolumeStatus {
+  if (sets < range.min) return "under";
+  if (sets > range.max) return "over";
+  return "optimal";
+}
+
+export const isFlaggedMuscle = (muscle: HeatmapMuscle): boolean => !UNFLAGGED_MUSCLES.includes(muscle);
+
+// =============================================================================
+// MUSCLE NAME MATCHING
+// =============================================================================
+
+/** Checked in order - specific heads before generic words ("biceps femoris" is a hamstring) */
+const MUSCLE_KEYWORDS: Array<{ muscle: HeatmapMuscle; pattern: RegExp }> = [
+  { muscle: "hamstrings", pattern: /hamstring|biceps femoris|semitend|semimem/ },
+  { muscle: "quads", pattern: /quad|vastus|rectus femoris/ },
+  { muscle: "rear_delts", pattern: /rear delt|posterior delt/ },
+  { muscle: "side_delts", pattern: /side delt|lateral delt|medial delt|middle delt/ },
+  { muscle: "front_delts", pattern: /front delt|anterior delt|delt|shoulder/ },
+  { muscle: "chest", pattern: /pec|chest/ },
+  { muscle: "lats", pattern: /\blats?\b|latissimus|teres major/ },
+  { muscle: "upper_back", pattern: /trap|rhomboid|upper back|mid(dle)? back|teres minor|infraspinatus/ },
+  { muscle: "lower_back", pattern: /erector|lower back|spinal|lumbar/ },
+  { muscle: "triceps", pattern: /tricep/ },
+  { muscle: "biceps", pattern: /bicep|brachialis/ },
+  { muscle: "forearms", pattern: /forearm|brachioradialis|grip|wrist/ },
+  { muscle: "obliques", pattern: /oblique/ },
+  { muscle: "abs", pattern: /abdomin|\babs\b|core|transvers/ },
+  { muscle: "glutes", pattern: /glute/ },
+  { muscle: "adductors", pattern: /adductor|inner thigh|groin/ },
+  { muscle: "calves", pattern: /calf|calves|gastrocnemius|soleus/ },
+];
+
+export function matchMuscle(text: string): HeatmapMuscle | null {
+  const lower = text.toLowerCase();
+  return MUSCLE_KEYWORDS.find(({ pattern }) => pattern.test(lower))?.muscle ?? null;
+}
+
+// =============================================================================
+// MOVEMENT PATTERNS
+// =============================================================================
+
+export type MovementPattern =
+  | "squat"
+  | "hinge"
+  | "push_horizontal"
+  | "push_vertical"
+  | "pull_horizontal"
+  | "pull_vertical"
+  | "carry"
+  | "core"
+  | "cardio";
+
+/** Checked in order - first match wins (carry/cardio before "row"/"walk" pulls) */
+const PATTERN_KEYWORDS: Array<{ pattern: MovementPattern; keywords: string[] }> = [
+  { pattern: "carry", keywords: ["carry", "carries", "farmer", "suitcase", "yoke"] },
+  { pattern: "cardio", keywords: ["run", "running", "jog", "jogging", "sprint", "bike", "biking", "cycling", "rowing", "rower", "erg", "elliptical", "swim", "swimming", "treadmill", "walk", "walking", "jump rope", "stair"] },
+  { pattern: "core", keywords: ["plank", "crunch", "dead bug", "pallof", "ab wheel", "rollout", "sit-up", "sit up", "leg raise", "hollow", "russian twist", "bird dog", "woodchop"] },
+  { pattern: "push_vertical", keywords: ["overhead press", "ohp", "shoulder press", "military press", "push press", "arnold press", "landmine press", "handstand", "pike push"] },
+  { pattern: "push_horizontal", keywords: ["bench", "push-up", "push up", "pushup", "chest press", "dip", "floor press", "fly", "flye", "pec deck"] },
+  { pattern: "pull_vertical", keywords: ["pull-up", "pull up", "pullup", "chin-up", "chin up", "chinup", "pulldown", "pull-down", "lat pull"] },
+  { pattern: "pull_horizontal", keywords: ["row", "face pull", "reverse fly", "rear delt", "pull-apart", "pull apart"] },
+  { pattern: "hinge", keywords: ["deadlift", "rdl", "romanian", "good morning", "hip thrust", "glute bridge", "swing", "hip hinge", "back extension", "hyperextension", "pull-through"] },
+  { pattern: "squat", keywords: ["squat", "lunge", "leg press", "step-up", "step up", "pistol"] },
+];
+
+/**
+ * Movement pattern from the exercise name (keyword based, deterministic)
+ */
+export function classifyMovementPattern(exerciseName: string): MovementPattern | null {
+  const name = exerciseName.toLowerCase();
+  // Whole-word match for single words so "row" doesn't hit "narrow" or "throw"
+  const words = ` ${name.replace(/[^a-z0-9-]+/g, " ")} `;
+  for (const { pattern, keywords } of PATTERN_KEYWORDS) {
+    if (keywords.some(keyword => keyword.includes(" ") || keyword.includes("-") ? name.includes(keyword) : new RegExp(`\\s${keyword}s?\\s`).test(words))) {
+      return pattern;
+    }
+  }
+  return null;
+}
+
+// =============================================================================
+// FALLBACKS (no cached muscles)
+// =============================================================================
+
+/** Isolation work recognised by name - checked before the movement pattern */
+const NAME_TARGETS: Array<{ pattern: RegExp; targets: MuscleTargets }> = [
+  { pattern: /glute|hip thrust|abduction/, targets: { primary: ["glutes"], secondary: ["hamstrings"] } },
+  { pattern: /leg curl|hamstring curl|nordic/, targets: { primary: ["hamstrings"], secondary: ["calves"] } },
+  { pattern: /face pull|reverse fl(y|ye)|rear delt|pull[- ]apart/, targets: { primary: ["rear_delts"], secondary: ["upper_back"] } },
+  { pattern: /lateral raise|side raise|upright row/, targets: { primary: ["side_delts"], secondary: ["upper_back"] } },
+  { pattern: /front raise/, targets: { primary: ["front_delts"], secondary: [] } },
+  { pattern: /tricep|pushdown|skull crusher|kickback/, targets: { primary: ["triceps"], secondary: [] } },
+  { pattern: /wrist curl|forearm/, targets: { primary: ["forearms"], secondary: [] } },
+  { pattern: /curl/, targets: { primary: ["biceps"], secondary: ["forearms"] } },
+  { pattern: /leg extension/, targets: { primary: ["quads"], secondary: [] } },
+  { pattern: /calf/, targets: { primary: ["calves"], secondary: [] } },
+  { pattern: /shrug/, targets: { primary: ["upper_back"], secondary: ["forearms"] } },
+  { pattern: /adduct|copenhagen/, targets: { primary: ["adductors"], secondary: [] } },
+  { pattern: /russian twist|woodchop|side plank|oblique/, targets: { primary: ["obliques"], secondary: ["abs"] } },
+  { pattern: /fl(y|ye)\b|pec deck/, targets: { primary: ["chest"], secondary: ["front_delts"] } },
+];
+
+const PATTERN_TARGETS: Partial<Record<MovementPattern, MuscleTargets>> = {
+  squat: { primary: ["quads", "glutes"], secondary: ["adductors", "lower_back"] },
+  hinge: { primary: ["hamstrings", "glutes"], secondary: ["lower_back", "forearms"] },
+  push_horizontal: { primary: ["chest"], secondary: ["front_delts", "triceps"] },
+  push_vertical: { primary: ["front_delts", "side_delts"], secondary: ["triceps", "upper_back"] },
+  pull_horizontal: { primary: ["upper_back", "lats"], secondary: ["rear_delts", "biceps"] },
+  pull_vertical: { primary: ["lats"], secondary: ["biceps", "upper_back"] },
+  carry: { primary: ["forearms", "upper_back"], secondary: ["obliques", "abs"] },
+  core: { primary: ["abs"], secondary: ["obliques"] },
+};
+
+const uniqueMuscles = (muscles: Array<HeatmapMuscle | null>): HeatmapMuscle[] =>
+  [...new Set(muscles.filter((m): m is HeatmapMuscle => m !== null))];
+
+/**
+ * Primary/secondary movers for an exercise
+ * Returns empty lists for cardio, mobility and anything unrecognised
+ */
+export function resolveMuscleTargets(
+  exerciseName: string,
+  musclesWorked?: string[] | null,
+  movementPattern?: string | null
+): MuscleTargets {
+  if (musclesWorked && musclesWorked.length > 0) {
+    const [first, ...rest] = musclesWorked.map(matchMuscle);
+    const primary = uniqueMuscles([first]);
+    if (primary.length > 0) {
+      return { primary, secondary: uniqueMuscles(rest).filter(m => !primary.includes(m)) };
+    }
+  }
+
+  const name = exerciseName.toLowerCase();
+  const byName = NAME_TARGETS.find(({ pattern }) => pattern.test(name));
+  if (byName) return byName.targets;
+
+  const pattern = (movementPattern as MovementPattern | null) || classifyMovementPattern(exerciseName);
+  return (pattern && PATTERN_TARGETS[pattern]) || { primary: [], secondary: [] };
+}
+
+/**
+ * Add `sets` hard sets of an exercise to a per-muscle tally
+ */
+export function addSetsToMuscles(
+  tally: Record<HeatmapMuscle, number>,
+  targets: MuscleTargets,
+  sets: number
+): void {
+  targets.primary.forEach(muscle => { tally[muscle] += sets * PRIMARY_SET_WEIGHT; });
+  targets.secondary.forEach(muscle => { tally[muscle] += sets * SECONDARY_SET_WEIGHT; });
+}
+
+export const emptyMuscleTally = (): Record<HeatmapMuscle, number> =>
+  Object.fromEntries(ALL_HEATMAP_MUSCLES.map(muscle => [muscle, 0])) as Record<HeatmapMuscle, number>;
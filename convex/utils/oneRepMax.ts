@@ -0,0 +1,67 @@
+/**
+ * One-Rep Max Estimation
+ *
+ * The single e1RM implementation for server (PR records, buddy comparisons, fatigue
+ * profiles) and client (services/prService.ts, services/autoregulationService.ts).
+ * Rep-based formulas (Epley/Brzycki) plus the RPE chart used for autoregulation.
+ * Pure - no Convex imports, so the app bundle can use it.
+ */
+
+export type OneRepMaxFormula = "epley" | "brzycki";
+
+export const ONE_REP_MAX_FORMULAS: OneRepMaxFormula[] = ["epley", "brzycki"];
+
+/** Estimates above this rep count are unreliable, so they never set an e1RM PR */
+export const MAX_E1RM_REPS = 12;
+
+/**
+ * Estimate a one-rep max from a submaximal set
+ * Epley: w × (1 + r/30). Brzycki: w × 36 / (37 − r).
+ */
+export function estimateOneRepMax(
+  weight: number,
+  reps: number,
+  formula: OneRepMaxFormula = "epley"
+): number {
+  if (!Number.isFinite(weight) || !Number.isFinite(reps) || weight <= 0 || reps <= 0) {
+    return 0;
+  }
+  if (reps === 1) return weight;
+
+  const estimate = formula === "brzycki"
+    ? (weight * 36) / (37 - Math.min(reps, 36))
+    : weight * (1 + reps / 30);
+
+  return Math.round(estimate * 10) / 10;
+}
+
+// ═══════════════════════════════════════════════════════════
+// RPE-BASED (autoregulation)
+// ═══════════════════════════════════════════════════════════
+
+// %1RM for 1–12 reps at RPE 10 (failure), the RTS chart. Each RPE point below 10 = one more rep in reserve.
+const PERCENT_AT_FAILURE = [
+  1.0, 0.955, 0.922, 0.892, 0.863, 0.837, 0.811, 0.786, 0.762, 0.739, 0.707, 0.68,
+];
+
+/**
+ * Fraction of 1RM that can be lifted for `reps` at `rpe`
+ */
+export function getPercentOfOneRepMax(reps: number, rpe: number): number {
+  const repsInReserve = Math.max(0, 10 - rpe);
+  const repsToFailure = Math.max(1, Math.round(reps + repsInReserve));
+
+  if (repsToFailure <= PERCENT_AT_FAILURE.length) {
+    return PERCENT_AT_FAILURE[repsToFailure - 1];
+  }
+  // Past the chart, fall back to Epley
+  return 1 / (1 + repsToFailure / 30);
+}
+
+/**
+ * Estimate 1RM from a set and its RPE (more accurate than rep-only formulas)
+ */
+export function estimateOneRepMaxFromRpe(weight: number, reps: number, rpe: number): number {
+  if (weight <= 0 || reps <= 0) return 0;
+  return Math.round((weight / getPercentOfOneRepMax(reps, rpe)) * 10) / 10;
+}
@@ -0,0 +1,91 @@
+/**
+ * Pace compliance for imported runs
+ *
+ * Targets come from `calculateRunningPaces` (sportKnowledge/hyrox.ts), fed the
+ * same way the Hyrox prompt feeds it (comfortable 5K time × 2), so the check
+ * matches the paces the plan was written with.
+ */
+
+import { calculateRunningPaces } from "../sportKnowledge/hyrox";
+
+export type PaceZone = "race" | "zone2" | "tempo" | "interval";
+
+export interface PaceCompliance {
+  zone: PaceZone;
+  targetPace: string;
+  actualPace: string;
+  deltaSecondsPerKm: number;
+  status: "on_target" | "too_fast" | "too_slow";
+  splitsOnTarget: number;
+  splitCount: number;
+}
+
+// Seconds/km allowed either side of the target. Easy runs may drift slower.
+const PACE_TOLERANCE: Record<PaceZone, { fast: number; slow: number }> = {
+  zone2: { fast: 15, slow: 45 },
+  tempo: { fast: 10, slow: 10 },
+  interval: { fast: 10, slow: 10 },
+  race: { fast: 10, slow: 10 },
+};
+
+// Splits shorter than this are too noisy to judge
+const MIN_SPLIT_M = 400;
+
+const parsePace = (pace: string): number | null => {
+  const match = /^(\d+):(\d{2})/.exec(pace);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+export const formatPace = (secondsPerKm: number): string => {
+  const rounded = Math.round(secondsPerKm);
+  return `${Math.floor(rounded / 60)}:${(rounded % 60).toString().padStart(2, "0")}/km`;
+};
+
+/**
+ * Which pace a planned run is written for, from its name/notes and template
+ */
+export function pickPaceZone(text: string, templateType?: string): PaceZone {
+  const lower = text.toLowerCase();
+  if (/zone\s*2|z2|easy|recovery|aerobic|long run|conversational/.test(lower)) return "zone2";
+  if (/tempo|threshold|steady/.test(lower)) return "tempo";
+  if (/interval|repeats?|x\s*\d+\s*m|\d+\s*x\s*\d+|sprint|vo2/.test(lower) || templateType === "sets_distance_rest") return "interval";
+  if (/race|compromised|hyrox/.test(lower)) return "race";
+  return "zone2";
+}
+
+/**
+ * Compare an activity's pace (overall and per split) to the zone target
+ * Returns null when there's no 5K time to derive targets from or no distance
+ */
+export function computePaceCompliance(
+  activity: { distance_m: number; duration_s: number; splits: Array<{ distance_m: number; duration_s: number }> },
+  comfortable5kMinutes: number | null | undefined,
+  zone: PaceZone
+): PaceCompliance | null {
+  if (!comfortable5kMinutes || activity.distance_m <= 0 || activity.duration_s <= 0) return null;
+
+  const paces = calculateRunningPaces(comfortable5kMinutes * 2);
+  const targetPace = zone === "zone2" ? paces.zone2 : zone === "tempo" ? paces.tempo : zone === "interval" ? paces.interval : paces.perKm;
+  const target = parsePace(targetPace);
+  if (target === null) return null;
+
+  const tolerance = PACE_TOLERANCE[zone];
+  const classify = (secondsPerKm: number): PaceCompliance["status"] => {
+    if (secondsPerKm < target - tolerance.fast) return "too_fast";
+    if (secondsPerKm > target + tolerance.slow) return "too_slow";
+    return "on_target";
+  };
+
+  const actual = activity.duration_s / (activity.distance_m / 1000);
+  const judgedSplits = activity.splits.filter(s => s.distance_m >= MIN_SPLIT_M && s.duration_s > 0);
+
+  return {
+    zone,
+    targetPace,
+    actualPace: formatPace(actual),
+    deltaSecondsPerKm: Math.round(actual - target),
+    status: classify(actual),
+    splitsOnTarget: judgedSplits.filter(s => classify(s.duration_s / (s.distance_m / 1000)) === "on_target").length,
+    splitCount: judgedSplits.length,
+  };
+}
@@ -0,0 +1,213 @@
+/**
+ * Personal Record Utilities
+ *
+ * Rep-range and volume PR math shared by mutations and queries, plus the upsert
+ * that keeps the personalRecords table current. e1RM math lives in oneRepMax.ts.
+ */
+
+import { GenericMutationCtx } from "convex/server";
+import { DataModel, Id } from "../_generated/dataModel";
+import { estimateOneRepMax, MAX_E1RM_REPS, ONE_REP_MAX_FORMULAS, OneRepMaxFormula } from "./oneRepMax";
+
+export { estimateOneRepMax, MAX_E1RM_REPS };
+export type { OneRepMaxFormula };
+
+export type PersonalRecordType = "e1rm" | "rep_max" | "set_volume" | "session_volume";
+
+/** Rep ranges that get their own "nRM" record (best weight for at least n reps) */
+export const PR_REP_RANGES = [1, 3, 5, 10] as const;
+
+/** Sentinel exerciseName for whole-session tonnage records */
+export const SESSION_RECORD_KEY = "_session";
+
+export interface SetPerformance {
+  weight: number;
+  reps: number;
+  date: string;
+}
+
+export interface RecordCandidate {
+  recordType: PersonalRecordType;
+  repRange: number | null;
+  formula?: OneRepMaxFormula; // e1rm only - one record per formula
+  weight: number;
+  reps: number;
+  value: number;
+  date: string;
+}
+
+/**
+ * Normalize exercise names the same way exerciseHistory does
+ */
+export function normalizeRecordExerciseName(name: string): string {
+  return name.toLowerCase().trim().replace(/\s+/g, "_");
+}
+
+/**
+ * Pull every weighted set out of a log's exercises, grouped by exercise name
+ */
+export function collectWeightedSets(
+  logs: Array<{ date: string; exercises: Array<{ exercise_name: string; sets: any[] }> }>
+): Map<string, SetPerformance[]> {
+  const byExercise = new Map<string, SetPerformance[]>();
+
+  for (const log of logs) {
+    for (const exercise of log.exercises) {
+      for (const set of exercise.sets) {
+        if (!("weight" in set) || !("reps" in set)) continue;
+        const weight = Number(set.weight);
+        const reps = Number(set.reps);
+        if (!(weight > 0) || !(reps > 0)) continue;
+
+        const sets = byExercise.get(exercise.exercise_name) || [];
+        sets.push({ weight, reps, date: log.date });
+        byExercise.set(exercise.exercise_name, sets);
+      }
+    }
+  }
+
+  return byExercise;
+}
+
+/**
+ * Total weight × reps across a session
+ */
+export function calculateSessionTonnage(
+  exercises: Array<{ sets: any[] }>
+): number {
+  let total = 0;
+  for (const exercise of exercises) {
+    for (const set of exercise.sets) {
+      if ("weight" in set && "reps" in set) {
+        const weight = Number(set.weight);
+        const reps = Number(set.reps);
+        if (weight > 0 && reps > 0) total += weight * reps;
+      }
+    }
+  }
+  return total;
+}
+
+/**
+ * Best e1RM, nRM and set-volume candidates for one exercise's sets
+ */
+export function bestRecordCandidates(
+  sets: SetPerformance[],
+  formula: OneRepMaxFormula = "epley"
+): RecordCandidate[] {
+  const candidates: RecordCandidate[] = [];
+  let bestE1rm: RecordCandidate | null = null;
+  let bestVolume: RecordCandidate | null = null;
+  const bestRepMax = new Map<number, RecordCandidate>();
+
+  for (const set of sets) {
+    if (set.reps <= MAX_E1RM_REPS) {
+      const e1rm = estimateOneRepMax(set.weight, set.reps, formula);
+      if (!bestE1rm || e1rm > bestE1rm.value) {
+        bestE1rm = { recordType: "e1rm", repRange: null, formula, weight: set.weight, reps: set.reps, value: e1rm, date: set.date };
+      }
+    }
+
+    const volume = set.weight * set.reps;
+    if (!bestVolume || volume > bestVolume.value) {
+      bestVolume = { recordType: "set_volume", repRange: null, weight: set.weight, reps: set.reps, value: volume, date: set.date };
+    }
+
+    for (const range of PR_REP_RANGES) {
+      if (set.reps < range) continue;
+      const current = bestRepMax.get(range);
+      if (!current || set.weight > current.value) {
+        bestRepMax.set(range, { recordType: "rep_max", repRange: range, weight: set.weight, reps: set.reps, value: set.weight, date: set.date });
+      }
+    }
+  }
+
+  if (bestE1rm) candidates.push(bestE1rm);
+  if (bestVolume) candidates.push(bestVolume);
+  candidates.push(...bestRepMax.values());
+
+  return candidates;
+}
+
+/**
+ * Compare a finished session against stored records and upsert any that were beaten
+ * e1RM is kept for every formula, so either setting reads a true best.
+ * Returns the records that improved (first-ever records included)
+ */
+export async function recordPersonalRecords(
+  ctx: GenericMutationCtx<DataModel>,
+  userId: string,
+  logId: Id<"workoutLogs">,
+  date: string,
+  exercises: Array<{ exercise_name: string; sets: any[] }>
+): Promise<Array<RecordCandidate & { exercise_name: string; previousValue: number | null }>> {
+  const improved: Array<RecordCandidate & { exercise_name: string; previousValue: number | null }> = [];
+  const setsByExercise = collectWeightedSets([{ date, exercises }]);
+
+  const upsertAll = async (exerciseName: string, candidates: RecordCandidate[]) => {
+    const normalized = exerciseName === SESSION_RECORD_KEY
+      ? SESSION_RECORD_KEY
+      : normalizeRecordExerciseName(exerciseName);
+
+    const stored = await ctx.db
+      .query("personalRecords")
+      .withIndex("by_userId_exerciseName", (q) =>
+        q.eq("userId", userId).eq("exerciseName", normalized)
+      )
+      .collect();
+
+    for (const candidate of candidates) {
+      // Rows from before formulas were stored are Epley
+      const existing = stored.find(r =>
+        r.recordType === candidate.recordType &&
+        r.repRange === candidate.repRange &&
+        (r.formula ?? "epley") === (candidate.formula ?? "epley")
+      );
+      if (existing && existing.value >= candidate.value) continue;
+
+      const record = {
+        userId,
+        exerciseName: normalized,
+        exercise_name: normalized === SESSION_RECORD_KEY ? "Session" : exerciseName,
+        recordType: candidate.recordType,
+        repRange: candidate.repRange,
+        ...(candidate.formula && { formula: candidate.formula }),
+        weight: candidate.weight,
+        reps: candidate.reps,
+        value: candidate.value,
+        previousValue: existing?.value ?? null,
+        date,
+        logId,
+      };
+
+      if (existing) {
+        await ctx.db.patch(existing._id, record);
+      } else {
+        await ctx.db.insert("personalRecords", record);
+      }
+      improved.push({ ...candidate, exercise_name: record.exercise_name, previousValue: record.previousValue });
+    }
+  };
+
+  for (const [exerciseName, sets] of setsByExercise) {
+    const [primary, ...others] = ONE_REP_MAX_FORMULAS;
+    await upsertAll(exerciseName, [
+      ...bestRecordCandidates(sets, primary),
+      ...others.flatMap(formula => bestRecordCandidates(sets, formula).filter(c => c.recordType === "e1rm")),
+    ]);
+  }
+
+  const tonnage = calculateSessionTonnage(exercises);
+  if (tonnage > 0) {
+    await upsertAll(SESSION_RECORD_KEY, [{
+      recordType: "session_volume",
+      repRange: null,
+      weight: 0,
+      reps: 0,
+      value: tonnage,
+      date,
+    }]);
+  }
+
+  return improved;
+}
@@ -0,0 +1,115 @@
+/**
+ * Community Plan Grading
+ *
+ * Grades a plan published to the marketplace (userSubmittedPlans) with the
+ * same programming checks generated plans go through (planQualityValidator),
+ * broken down into balance / progression / recovery / specificity.
+ */
+
+import { Doc } from "../_generated/dataModel";
+import { validatePlanQuality } from "../planQualityValidator";
+import { isTrainingDay } from "./trainingDays";
+
+type SubmittedPlan = Doc<"userSubmittedPlans">;
+export type AthleticGrade = SubmittedPlan["athleticGrade"];
+export type GradeAnalysis = SubmittedPlan["gradeAnalysis"];
+
+const GRADE_THRESHOLDS: Array<{ grade: AthleticGrade; min: number }> = [
+  { grade: "A", min: 85 },
+  { grade: "B", min: 70 },
+  { grade: "C", min: 55 },
+  { grade: "D", min: 40 },
+  { grade: "F", min: 0 },
+];
+
+const FUNDAMENTAL_PATTERN_COUNT = 4; // squat, hinge, push, pull
+
+// Any explicit intensity target (RPE, %1RM) counts as a progression anchor
+const hasIntensityTargets = (weeklyPlan: any[]) =>
+  weeklyPlan.some(day =>
+    (day.sessions?.length ? day.sessions.flatMap((s: any) => s.blocks || []) : day.blocks || [])
+      .some((block: any) => (block.exercises || []).some((ex: any) =>
+        !!ex.rpe || !!ex.metrics_template?.one_rep_max_percentage
+      ))
+  );
+
+export function letterGrade(overall: number): AthleticGrade {
+  return GRADE_THRESHOLDS.find(t => overall >= t.min)!.grade;
+}
+
+/**
+ * Grade a plan for the marketplace
+ */
+export function gradeSubmittedPlan(
+  plan: { name: string; weeklyPlan: any[]; periodization?: unknown },
+  difficulty: SubmittedPlan["difficulty"]
+): { athleticGrade: AthleticGrade; gradeAnalysis: GradeAnalysis } {
+  const weeklyPlan = Array.isArray(plan.weeklyPlan) ? plan.weeklyPlan : [];
+  const quality = validatePlanQuality(
+    { name: plan.name, weeklyPlan },
+    { sessionLengthMinutes: 0, experienceLevel: difficulty.toLowerCase() } // Author's session length is unknown
+  );
+
+  const trainingDays = weeklyPlan.filter(isTrainingDay).length;
+  const restDays = 7 - trainingDays;
+
+  // Balance: push/pull ratio + fundamental pattern coverage
+  const pushPullRatio = Math.max(quality.pushSets, quality.pullSets) > 0
+    ? Math.min(quality.pushSets, quality.pullSets) / Math.max(quality.pushSets, quality.pullSets)
+    : 0;
+  const balance = Math.round(100 * (0.5 * pushPullRatio + 0.5 * quality.patternsCovered.length / FUNDAMENTAL_PATTERN_COUNT));
+
+  // Progression: periodized > intensity targets > fixed sets/reps
+  const progression = plan.periodization ? 90 : hasIntensityTargets(weeklyPlan) ? 75 : 55;
+
+  // Recovery: 1-3 rest days is the sweet spot; too much volume eats into it
+  const restScore = restDays >= 1 && restDays <= 3 ? 100 : restDays === 0 ? 40 : restDays === 4 ? 75 : 60;
+  const volumeHigh = quality.issues.filter(i => i.category === "muscle_volume_high").length;
+  const recovery = Math.max(0, restScore - volumeHigh * 10);
+
+  // Specificity: volume + coverage fit for the stated difficulty
+  const specificity = trainingDays > 0 ? quality.score : 0;
+
+  const overall = Math.round(0.3 * specificity + 0.25 * balance + 0.2 * progression + 0.25 * recovery);
+
+  const strengths: string[] = [];
+  const weaknesses: string[] = [];
+  const suggestions: string[] = [];
+
+  if (balance >= 80) strengths.push("Balanced push/pull and full movement-pattern coverage");
+  if (progression >= 75) strengths.push(plan.periodization ? "Periodized week-to-week progression" : "Clear intensity targets to progress against");
+  if (recovery >= 80) strengths.push(`${restDays} rest day${restDays === 1 ? "" : "s"} per week`);
+  if (specificity >= 80) strengths.push(`Weekly volume fits ${difficulty.toLowerCase()} lifters`);
+
+  quality.issues.slice(0, 4).forEach(issue => weaknesses.push(issue.message));
+  if (restDays === 0) weaknesses.push("No rest days");
+
+  if (balance < 60) suggestions.push("Add pulling or missing squat/hinge patterns to balance the week");
+  if (progression < 75) suggestions.push("Add RPE or %1RM targets so lifters know how to progress");
+  if (recovery < 60) suggestions.push("Add a rest day or trim sets on the highest-volume muscles");
+  if (specificity < 60) suggestions.push(`Adjust weekly sets to the ${difficulty.toLowerCase()} range`);
+
+  return {
+    athleticGrade: letterGrade(overall),
+    gradeAnalysis: {
+      strengths,
+      weaknesses,
+      suggestions,
+      scoreBreakdown: { balance, progression, recovery, specificity, overall },
+    },
+  };
+}
+
+/**
+ * Plain-text outline of a plan (stored as originalText for search and preview)
+ */
+export function planToOutline(plan: { name: string; weeklyPlan: any[] }): string {
+  const lines = [`# ${plan.name}`];
+  for (const day of Array.isArray(plan.weeklyPlan) ? plan.weeklyPlan : []) {
+    const blocks = day.sessions?.length ? day.sessions.flatMap((s: any) => s.blocks || []) : day.blocks || [];
+    const exercises = blocks.flatMap((b: any) => (b.exercises || []).map((ex: any) => ex.exercise_name)).filter(Boolean);
+    lines.push(`## ${day.focus || "Day"}${exercises.length === 0 ? " (rest)" : ""}`);
+    exercises.forEach((name: string) => lines.push(`- ${name}`));
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,101 @@
+/**
+ * Plan Revision Utilities
+ *
+ * Every write to `workoutPlans.weeklyPlan` records a snapshot in `planRevisions`
+ * so a bad chat edit, manual edit or week regeneration can always be rolled back.
+ */
+
+import { GenericMutationCtx } from "convex/server";
+import { DataModel, Id } from "../_generated/dataModel";
+
+/** Oldest revisions beyond this are pruned (snapshots are full weekly plans) */
+const MAX_REVISIONS_PER_PLAN = 50;
+
+export type PlanRevisionAuthor = "user" | "chat" | "ai" | "import" | "coach";
+
+/**
+ * Revision number of the plan's current content (0 before any history exists)
+ */
+export async function getLatestRevisionNumber(
+  ctx: GenericMutationCtx<DataModel>,
+  planId: Id<"workoutPlans">
+): Promise<number> {
+  const latest = await ctx.db
+    .query("planRevisions")
+    .withIndex("by_planId_revision", (q) => q.eq("planId", planId))
+    .order("desc")
+    .first();
+  return latest?.revision ?? 0;
+}
+
+/**
+ * Record the plan content after an edit as the next revision
+ *
+ * Plans created before revision history existed have no revisions yet - pass
+ * `previousWeeklyPlan` so their pre-edit content is kept as revision 1.
+ * Returns null when the content matches the latest revision (nothing changed).
+ */
+export async function recordPlanRevision(
+  ctx: GenericMutationCtx<DataModel>,
+  args: {
+    userId: string;
+    planId: Id<"workoutPlans">;
+    weeklyPlan: any[];
+    previousWeeklyPlan?: any[];
+    author: PlanRevisionAuthor;
+    summary: string;
+    restoredFromRevision?: number;
+  }
+): Promise<Id<"planRevisions"> | null> {
+  const latest = await ctx.db
+    .query("planRevisions")
+    .withIndex("by_planId_revision", (q) => q.eq("planId", args.planId))
+    .order("desc")
+    .first();
+
+  if (latest && JSON.stringify(latest.weeklyPlan) === JSON.stringify(args.weeklyPlan)) {
+    return null;
+  }
+
+  const now = Date.now();
+  let revision = latest ? latest.revision + 1 : 1;
+
+  if (!latest && args.previousWeeklyPlan &&
+      JSON.stringify(args.previousWeeklyPlan) !== JSON.stringify(args.weeklyPlan)) {
+    await ctx.db.insert("planRevisions", {
+      userId: args.userId,
+      planId: args.planId,
+      revision,
+      author: "user",
+      summary: "Earlier version",
+      weeklyPlan: args.previousWeeklyPlan,
+      createdAt: now,
+    });
+    revision++;
+  }
+
+  const revisionId = await ctx.db.insert("planRevisions", {
+    userId: args.userId,
+    planId: args.planId,
+    revision,
+    author: args.author,
+    summary: args.summary,
+    weeklyPlan: args.weeklyPlan,
+    ...(args.restoredFromRevision !== undefined && { restoredFromRevision: args.restoredFromRevision }),
+    createdAt: now,
+  });
+
+  if (revision > MAX_REVISIONS_PER_PLAN) {
+    const expired = await ctx.db
+      .query("planRevisions")
+      .withIndex("by_planId_revision", (q) =>
+        q.eq("planId", args.planId).lte("revision", revision - MAX_REVISIONS_PER_PLAN)
+      )
+      .collect();
+    for (const old of expired) {
+      await ctx.db.delete(old._id);
+    }
+  }
+
+  return revisionId;
+}
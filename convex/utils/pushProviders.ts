@@ -0,0 +1,267 @@
+/**
+ * Push Providers
+ *
+ * One interface for every way a push leaves the backend, so the delivery worker
+ * (convex/pushDelivery.ts) doesn't care whether it's APNs, FCM or a dev log.
+ *
+ * Configured through environment variables:
+ * - APNs: APNS_KEY_ID, APNS_TEAM_ID, APNS_BUNDLE_ID, APNS_PRIVATE_KEY (.p8 contents), APNS_USE_SANDBOX
+ * - FCM:  FCM_PROJECT_ID, FCM_CLIENT_EMAIL, FCM_PRIVATE_KEY (service account)
+ * A platform without credentials falls back to the logging provider.
+ */
+
+import { loggers } from "./logger";
+
+export interface PushMessage {
+  token: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+export interface PushResult {
+  ok: boolean;
+  error?: string;
+  invalidToken?: boolean; // Token is dead - remove it, never retry
+  retryable?: boolean; // Transient (rate limit, provider outage)
+}
+
+export interface PushProvider {
+  name: "apns" | "fcm" | "log";
+  send(message: PushMessage): Promise<PushResult>;
+}
+
+export type PushPlatform = "ios" | "android";
+
+// ═══════════════════════════════════════════════════════════
+// JWT SIGNING (WebCrypto)
+// ═══════════════════════════════════════════════════════════
+
+const base64Url = (input: ArrayBuffer | string): string => {
+  const bytes = typeof input === "string" ? new TextEncoder().encode(input) : new Uint8Array(input);
+  let binary = "";
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+// Env vars often carry PEM newlines escaped as "\n"
+const pemToPkcs8 = (pem: string): ArrayBuffer => {
+  const body = pem
+    .replace(/\\n/g, "\n")
+    .replace(/-----(BEGIN|END) [A-Z ]+-----/g, "")
+    .replace(/\s+/g, "");
+  const binary = atob(body);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+async function signJwt(
+  header: Record<string, string>,
+  claims: Record<string, unknown>,
+  privateKeyPem: string,
+  algorithm: "ES256" | "RS256"
+): Promise<string> {
+  const keyParams = algorithm === "ES256"
+    ? { name: "ECDSA", namedCurve: "P-256" }
+    : { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" };
+  const key = await crypto.subtle.importKey("pkcs8", pemToPkcs8(privateKeyPem), keyParams, false, ["sign"]);
+
+  const signingInput = `${base64Url(JSON.stringify({ ...header, alg: algorithm, typ: "JWT" }))}.${base64Url(JSON.stringify(claims))}`;
+  const signParams = algorithm === "ES256" ? { name: "ECDSA", hash: "SHA-256" } : { name: "RSASSA-PKCS1-v1_5" };
+  const signature = await crypto.subtle.sign(signParams, key, new TextEncoder().encode(signingInput));
+
+  return `${signingInput}.${base64Url(signature)}`;
+}
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// ═══════════════════════════════════════════════════════════
+// APNs (iOS)
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Apple Push Notification service, token-based auth
+ * APNs only accepts HTTP/2 - if the runtime's fetch can't negotiate it, route iOS
+ * through FCM instead (leave the APNS_* variables unset and register FCM tokens).
+ */
+export function createApnsProvider(config: {
+  keyId: string;
+  teamId: string;
+  bundleId: string;
+  privateKey: string;
+  sandbox: boolean;
+}): PushProvider {
+  const host = config.sandbox ? "https://api.sandbox.push.apple.com" : "https://api.push.apple.com";
+  let cachedJwt: { token: string; issuedAt: number } | null = null;
+
+  // Apple wants the provider token refreshed at most every 20-60 minutes
+  const getJwt = async () => {
+    const now = Math.floor(Date.now() / 1000);
+    if (!cachedJwt || now - cachedJwt.issuedAt > 45 * 60) {
+      const token = await signJwt({ kid: config.keyId }, { iss: config.teamId, iat: now }, config.privateKey, "ES256");
+      cachedJwt = { token, issuedAt: now };
+    }
+    return cachedJwt.token;
+  };
+
+  return {
+    name: "apns",
+    async send(message) {
+      const response = await fetch(`${host}/3/device/${message.token}`, {
+        method: "POST",
+        headers: {
+          authorization: `bearer ${await getJwt()}`,
+          "apns-topic": config.bundleId,
+          "apns-push-type": "alert",
+          "apns-priority": "10",
+          "content-type": "application/json",
+        },
+        body: JSON.stringify({
+          aps: { alert: { title: message.title, body: message.body }, sound: "default" },
+          ...(message.data || {}),
+        }),
+      });
+
+      if (response.ok) return { ok: true };
+
+      const reason = await response.json().then((json: any) => json?.reason as string | undefined).catch(() => undefined);
+      return {
+        ok: false,
+        error: `APNs ${response.status}${reason ? ` ${reason}` : ""}`,
+        invalidToken: response.status === 410 || reason === "BadDeviceToken" || reason === "Unregistered",
+        retryable: isRetryableStatus(response.status),
+      };
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════
+// FCM (Android, or iOS via Firebase)
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Firebase Cloud Messaging HTTP v1 API with a service account
+ */
+export function createFcmProvider(config: {
+  projectId: string;
+  clientEmail: string;
+  privateKey: string;
+}): PushProvider {
+  let cachedAccessToken: { token: string; expiresAt: number } | null = null;
+
+  const getAccessToken = async () => {
+    const now = Math.floor(Date.now() / 1000);
+    if (cachedAccessToken && cachedAccessToken.expiresAt - 60 > now) {
+      return cachedAccessToken.token;
+    }
+
+    const assertion = await signJwt(
+      {},
+      {
+        iss: config.clientEmail,
+        scope: "https://www.googleapis.com/auth/firebase.messaging",
+        aud: "https://oauth2.googleapis.com/token",
+        iat: now,
+        exp: now + 3600,
+      },
+      config.privateKey,
+      "RS256"
+    );
+
+    const response = await fetch("https://oauth2.googleapis.com/token", {
+      method: "POST",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      body: `grant_type=${encodeURIComponent("urn:ietf:params:oauth:grant-type:jwt-bearer")}&assertion=${assertion}`,
+    });
+    if (!response.ok) {
+      throw new Error(`FCM auth failed: ${response.status}`);
+    }
+
+    const json = await response.json();
+    cachedAccessToken = { token: json.access_token, expiresAt: now + (json.expires_in || 3600) };
+    return cachedAccessToken.token;
+  };
+
+  return {
+    name: "fcm",
+    async send(message) {
+      // FCM data values must be strings
+      const data = Object.fromEntries(
+        Object.entries(message.data || {}).map(([key, value]) => [key, typeof value === "string" ? value : JSON.stringify(value)])
+      );
+
+      const response = await fetch(`https://fcm.googleapis.com/v1/projects/${config.projectId}/messages:send`, {
+        method: "POST",
+        headers: {
+          authorization: `Bearer ${await getAccessToken()}`,
+          "content-type": "application/json",
+        },
+        body: JSON.stringify({
+          message: {
+            token: message.token,
+            notification: { title: message.title, body: message.body },
+            data,
+          },
+        }),
+      });
+
+      if (response.ok) return { ok: true };
+
+      const error = await response.json().then((json: any) => json?.error).catch(() => undefined);
+      const errorCode: string | undefined = error?.details?.find((d: any) => d?.errorCode)?.errorCode ?? error?.status;
+      return {
+        ok: false,
+        error: `FCM ${response.status}${errorCode ? ` ${errorCode}` : ""}`,
+        invalidToken: response.status === 404 || errorCode === "UNREGISTERED" ||
+          (response.status === 400 && /registration token/i.test(error?.message || "")),
+        retryable: isRetryableStatus(response.status),
+      };
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════
+// LOGGING (dev)
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Dev provider: logs the push instead of sending it (always succeeds)
+ */
+export function createLoggingProvider(): PushProvider {
+  return {
+    name: "log",
+    async send(message) {
+      loggers.actions.info(`📲 [push:log] ${message.token.slice(0, 12)}… "${message.title}" - ${message.body}`);
+      return { ok: true };
+    },
+  };
+}
+
+/**
+ * Provider for a device platform, from environment configuration
+ * iOS prefers APNs, then FCM (Firebase-registered tokens); Android uses FCM.
+ */
+export function getPushProvider(platform: PushPlatform | undefined): PushProvider {
+  const env = process.env;
+  const hasApns = !!(env.APNS_KEY_ID && env.APNS_TEAM_ID && env.APNS_BUNDLE_ID && env.APNS_PRIVATE_KEY);
+  const hasFcm = !!(env.FCM_PROJECT_ID && env.FCM_CLIENT_EMAIL && env.FCM_PRIVATE_KEY);
+
+  if (platform === "ios" && hasApns) {
+    return createApnsProvider({
+      keyId: env.APNS_KEY_ID!,
+      teamId: env.APNS_TEAM_ID!,
+      bundleId: env.APNS_BUNDLE_ID!,
+      privateKey: env.APNS_PRIVATE_KEY!,
+      sandbox: env.APNS_USE_SANDBOX === "true",
+    });
+  }
+  if (hasFcm) {
+    return createFcmProvider({
+      projectId: env.FCM_PROJECT_ID!,
+      clientEmail: env.FCM_CLIENT_EMAIL!,
+      privateKey: env.FCM_PRIVATE_KEY!,
+    });
+  }
+  return createLoggingProvider();
+}
@@ -0,0 +1,117 @@
+/**
+ * Push Scheduling Helpers
+ *
+ * Pure rules the delivery worker applies before anything is sent: quiet hours
+ * in the user's own timezone, dedupe keys, and folding several notifications
+ * for one user into a single push.
+ */
+
+import { Doc, Id } from "../_generated/dataModel";
+import { PushPlatform } from "./pushProviders";
+
+type PushNotification = Doc<"pushNotifications">;
+
+/** One push to send: every notification for a user in this run, folded together */
+export interface PushGroup {
+  userId: string;
+  token: string;
+  platform: PushPlatform | undefined;
+  notificationIds: Id<"pushNotifications">[];
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Hour of day (0-23) in the given IANA timezone
+ * Unknown or missing timezones fall back to UTC.
+ */
+export function getLocalHour(date: Date, timezone: string | undefined): number {
+  try {
+    const hour = new Intl.DateTimeFormat("en-US", {
+      hour: "numeric",
+      hourCycle: "h23",
+      timeZone: timezone || "UTC",
+    }).format(date);
+    return parseInt(hour, 10) % 24;
+  } catch {
+    return date.getUTCHours();
+  }
+}
+
+/**
+ * Whether `date` falls inside the user's quiet hours
+ * The window may wrap midnight (22 → 7). Equal or missing bounds mean no quiet hours.
+ */
+export function isInQuietHours(
+  date: Date,
+  settings: Pick<Doc<"pushSettings">, "quietHoursStart" | "quietHoursEnd" | "timezone">
+): boolean {
+  const { quietHoursStart: start, quietHoursEnd: end } = settings;
+  if (start === undefined || end === undefined || start === end) {
+    return false;
+  }
+
+  const hour = getLocalHour(date, settings.timezone);
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * First quarter-hour at or after `date` that is outside the user's quiet hours
+ * Quarter hours so half-hour timezone offsets land on the real end of the window.
+ */
+export function getQuietHoursEnd(
+  date: Date,
+  settings: Pick<Doc<"pushSettings">, "quietHoursStart" | "quietHoursEnd" | "timezone">
+): Date {
+  const step = 15 * 60 * 1000;
+  let candidate = new Date(Math.ceil(date.getTime() / step) * step);
+  for (let i = 0; i < 24 * 4 && isInQuietHours(candidate, settings); i++) {
+    candidate = new Date(candidate.getTime() + step);
+  }
+  return candidate;
+}
+
+/**
+ * Notifications with the same key for the same user are pushed once per dedupe window
+ */
+export function getDedupeKey(notification: Pick<PushNotification, "type" | "title" | "dedupeKey">): string {
+  return notification.dedupeKey ?? `${notification.type}:${notification.title}`;
+}
+
+/**
+ * Fold a user's deliverable notifications into one push
+ * A single notification goes out as-is; several become one summary so a user
+ * coming out of quiet hours gets one buzz, not five.
+ */
+export function buildPushGroup(
+  userId: string,
+  token: string,
+  platform: PushPlatform | undefined,
+  notifications: PushNotification[]
+): PushGroup {
+  const notificationIds = notifications.map(n => n._id);
+
+  if (notifications.length === 1) {
+    const [notification] = notifications;
+    return {
+      userId,
+      token,
+      platform,
+      notificationIds,
+      title: notification.title,
+      body: notification.body,
+      data: { type: notification.type, notificationId: notification._id },
+    };
+  }
+
+  return {
+    userId,
+    token,
+    platform,
+    notificationIds,
+    title: `${notifications.length} updates from REBLD`,
+    body: notifications.map(n => n.title).join(" · "),
+    data: { type: "batch", notificationIds },
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Daily Readiness
+ *
+ * Turns a day's healthMetrics entry into a 0-100 readiness score, relative to
+ * the user's own recent baseline (resting HR vs 14-day average, sleep vs usual
+ * sleep) plus the subjective 1-10 check-in ratings.
+ *
+ * The band drives how today's PlanDay is adjusted on the client
+ * (services/readinessService.ts): reduced / normal / push.
+ */
+
+import { Doc } from "../_generated/dataModel";
+
+export const READINESS_BASELINE_DAYS = 14;
+const MIN_BASELINE_ENTRIES = 3; // Fewer than this and a "baseline" is just noise
+const DEFAULT_SLEEP_TARGET_HOURS = 7.5;
+
+const REDUCED_BELOW = 45;
+const PUSH_ABOVE = 75;
+
+export type ReadinessBand = "reduced" | "normal" | "push";
+
+export type ReadinessComponentKey =
+  | "restingHeartRate"
+  | "sleepHours"
+  | "sleepQuality"
+  | "energyLevel"
+  | "sorenessLevel"
+  | "stressLevel";
+
+export interface ReadinessComponent {
+  key: ReadinessComponentKey;
+  value: number;
+  baseline: number | null; // Personal average when the component is baseline-relative
+  score: number; // 0-100
+  weight: number;
+}
+
+export interface ReadinessResult {
+  score: number | null; // null when nothing was logged today
+  band: ReadinessBand;
+  components: ReadinessComponent[];
+  baselineEntries: number;
+}
+
+/** Relative importance - renormalized over the components actually logged */
+const WEIGHTS: Record<ReadinessComponentKey, number> = {
+  restingHeartRate: 0.25,
+  sleepHours: 0.2,
+  sleepQuality: 0.15,
+  energyLevel: 0.15,
+  sorenessLevel: 0.15,
+  stressLevel: 0.1,
+};
+
+type MetricsEntry = Pick<Doc<"healthMetrics">, ReadinessComponentKey>;
+
+const clamp = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, n) => sum + n, 0) / values.length : null;
+
+const baselineOf = (history: MetricsEntry[], key: ReadinessComponentKey): number | null => {
+  const values = history
+    .map((entry) => entry[key])
+    .filter((value): value is number => typeof value === "number" && value > 0);
+  return values.length >= MIN_BASELINE_ENTRIES ? average(values) : null;
+};
+
+export function getReadinessBand(score: number | null): ReadinessBand {
+  if (score === null) return "normal";
+  if (score < REDUCED_BELOW) return "reduced";
+  if (score > PUSH_ABOVE) return "push";
+  return "normal";
+}
+
+/**
+ * Score today's entry against the previous READINESS_BASELINE_DAYS of entries
+ */
+export function computeReadiness(today: MetricsEntry | null, history: MetricsEntry[]): ReadinessResult {
+  const components: ReadinessComponent[] = [];
+  const add = (key: ReadinessComponentKey, value: number, baseline: number | null, score: number) => {
+    components.push({ key, value, baseline, score: clamp(score), weight: WEIGHTS[key] });
+  };
+
+  if (today) {
+    // Resting HR: every 1% above baseline costs 4 points, below baseline earns 2
+    if (today.restingHeartRate) {
+      const baseline = baselineOf(history, "restingHeartRate");
+      if (baseline) {
+        const deltaPct = ((today.restingHeartRate - baseline) / baseline) * 100;
+        add("restingHeartRate", today.restingHeartRate, Math.round(baseline), 70 - (deltaPct > 0 ? deltaPct * 4 : deltaPct * 2));
+      }
+    }
+
+    // Sleep duration vs the user's usual sleep (never judged against less than the default target)
+    if (today.sleepHours) {
+      const baseline = baselineOf(history, "sleepHours");
+      const target = Math.max(baseline ?? 0, DEFAULT_SLEEP_TARGET_HOURS);
+      add("sleepHours", today.sleepHours, baseline !== null ? Math.round(baseline * 10) / 10 : null, (today.sleepHours / target) * 85);
+    }
+
+    // Subjective 1-10 ratings (soreness and stress are inverted)
+    if (today.sleepQuality) add("sleepQuality", today.sleepQuality, null, today.sleepQuality * 10);
+    if (today.energyLevel) add("energyLevel", today.energyLevel, null, today.energyLevel * 10);
+    if (today.sorenessLevel) add("sorenessLevel", today.sorenessLevel, null, (11 - today.sorenessLevel) * 10);
+    if (today.stressLevel) add("stressLevel", today.stressLevel, null, (11 - today.stressLevel) * 10);
+  }
+
+  const totalWeight = components.reduce((sum, c) => sum + c.weight, 0);
+  const score = totalWeight > 0
+    ? clamp(components.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight)
+    : null;
+
+  return {
+    score,
+    band: getReadinessBand(score),
+    components,
+    baselineEntries: history.length,
+  };
+}
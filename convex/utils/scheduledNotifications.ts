@@ -0,0 +1,78 @@
+/**
+ * Scheduled Notification Helpers
+ *
+ * Pure rules behind the reminder generators (convex/notificationJobs.ts): which
+ * plan day is today, when to remind, and what each notification says.
+ * Local calendar days come from utils/localCalendar.ts.
+ */
+
+import { DEFAULT_CALENDAR_TIMES } from "./icsCalendar";
+import { isTrainingDay } from "./trainingDays";
+
+/**
+ * Today's training day from the active plan, or null on rest days
+ */
+export function getPlanDay(weeklyPlan: any[] | undefined, dayOfWeek: number): any | null {
+  const day = (weeklyPlan || []).find((d: any) => d?.day_of_week === dayOfWeek);
+  return isTrainingDay(day) ? day : null;
+}
+
+/**
+ * Local hour to send a workout reminder: `leadHours` before the session's calendar time
+ * 2x/day days use the morning session time.
+ */
+export function getWorkoutReminderHour(
+  day: any,
+  times: { training_time?: string; morning_time?: string } | undefined,
+  leadHours: number
+): number {
+  const time = (day.sessions?.length ?? 0) > 1
+    ? times?.morning_time || DEFAULT_CALENDAR_TIMES.morning_time
+    : times?.training_time || DEFAULT_CALENDAR_TIMES.training_time;
+  const hour = parseInt(time.split(":")[0], 10);
+  return Number.isNaN(hour) ? 0 : Math.max(0, hour - leadHours);
+}
+
+const countExercises = (day: any): number =>
+  [...(day.blocks || []), ...(day.sessions || []).flatMap((s: any) => s.blocks || [])]
+    .reduce((sum: number, block: any) => sum + (block.exercises || []).length, 0);
+
+export function buildWorkoutReminder(day: any): { title: string; body: string } {
+  const duration = day.estimated_duration ? ` · ~${day.estimated_duration} min` : "";
+  return {
+    title: `💪 Today: ${day.focus}`,
+    body: `${countExercises(day)} exercises${duration}. Your session is on the plan - let's get it done.`,
+  };
+}
+
+export function buildStreakAtRiskAlert(currentStreak: number): { title: string; body: string } {
+  return {
+    title: `🔥 ${currentStreak}-day streak at risk`,
+    body: "You haven't trained today. Log a workout before midnight to keep it alive.",
+  };
+}
+
+export function buildDeloadReminder(weekNumber: number, deloadReason?: string): { title: string; body: string } {
+  return {
+    title: "🔄 Deload Week",
+    body: deloadReason
+      ? `Week ${weekNumber} is a deload week - ${deloadReason}. Keep loads light and let recovery catch up.`
+      : `Week ${weekNumber} is a deload week. Keep loads light and focus on technique and recovery.`,
+  };
+}
+
+export function buildEventCountdown(daysLeft: number, eventName: string | null): { title: string; body: string } {
+  const event = eventName || "your event";
+  if (daysLeft === 1) {
+    return {
+      title: `🎯 ${event} is tomorrow`,
+      body: "The work is done. Sleep well, eat well, and trust your training.",
+    };
+  }
+  return {
+    title: `🎯 ${daysLeft} days to ${event}`,
+    body: daysLeft <= 7
+      ? "Final stretch - stick to the taper and stay sharp."
+      : "Stay consistent - every session on the plan counts toward race day.",
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Streak Rules
+ *
+ * A streak counts workout days on the user's local calendar. Missed days between
+ * two workouts don't break it when:
+ * - the active plan schedules them as rest days, or
+ * - a streak freeze covers them (premium: STREAK_FREEZES_PER_MONTH, used automatically)
+ *
+ * Rest days are taken from the plan that's active now - it's the best record we
+ * keep of which days were meant to be off.
+ */
+
+import { GenericMutationCtx, GenericQueryCtx } from "convex/server";
+import { DataModel, Doc } from "../_generated/dataModel";
+import { isTrainingDay } from "./trainingDays";
+import { getDayOfWeek, resolveTimezone, shiftDate } from "./localCalendar";
+import { STREAK_FREEZES_PER_MONTH, STREAK_MAX_FREEZES } from "./constants";
+
+export interface StreakCalendar {
+  timezone: string | undefined;
+  restDays: number[]; // Plan weekdays (1=Mon ... 7=Sun) with no training
+  isPremium: boolean;
+}
+
+type FreezeState = Pick<Doc<"streakData">, "streakFreezes" | "freezesGrantedMonth">;
+
+/**
+ * Timezone, plan rest days and tier - everything the streak rules need about a user
+ */
+export async function getStreakCalendar(
+  ctx: GenericMutationCtx<DataModel> | GenericQueryCtx<DataModel>,
+  userId: string
+): Promise<StreakCalendar> {
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .first();
+  const settings = await ctx.db
+    .query("pushSettings")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .first();
+  const plan = user?.activePlanId ? await ctx.db.get(user.activePlanId) : null;
+
+  const trainingDays = new Set(
+    (plan?.userId === userId ? plan.weeklyPlan : [])
+      .filter(isTrainingDay)
+      .map(day => day.day_of_week)
+  );
+
+  return {
+    timezone: resolveTimezone(settings, user),
+    // A plan with no training days at all can't excuse anything
+    restDays: trainingDays.size > 0 ? [1, 2, 3, 4, 5, 6, 7].filter(d => !trainingDays.has(d)) : [],
+    isPremium: user?.apiUsage?.tier === "premium",
+  };
+}
+
+/**
+ * Premium monthly top-up, applied lazily (whenever the streak is read or updated)
+ * `today` is the user's local date; returns the state unchanged if nothing is due.
+ */
+export function applyMonthlyFreezeGrant(state: FreezeState, isPremium: boolean, today: string): FreezeState {
+  const month = today.slice(0, 7);
+  if (!isPremium || state.freezesGrantedMonth === month) {
+    return state;
+  }
+  return {
+    streakFreezes: Math.min(STREAK_MAX_FREEZES, state.streakFreezes + STREAK_FREEZES_PER_MONTH),
+    freezesGrantedMonth: month,
+  };
+}
+
+/**
+ * Walk the days strictly between `lastWorkoutDate` and `untilDate`
+ * Rest days are skipped; every other missed day needs a freeze. Returns whether the
+ * streak survives and which days the freezes would cover.
+ */
+export function bridgeStreakGap(
+  lastWorkoutDate: string,
+  untilDate: string,
+  restDays: number[],
+  freezes: number
+): { bridged: boolean; freezeDates: string[] } {
+  const freezeDates: string[] = [];
+
+  for (let day = shiftDate(lastWorkoutDate, 1); day < untilDate; day = shiftDate(day, 1)) {
+    if (restDays.includes(getDayOfWeek(day))) continue;
+    if (freezeDates.length >= freezes) {
+      return { bridged: false, freezeDates: [] };
+    }
+    freezeDates.push(day);
+  }
+
+  return { bridged: true, freezeDates };
+}
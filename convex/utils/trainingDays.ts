@@ -0,0 +1,16 @@
+/**
+ * Training days
+ *
+ * The one definition every plan-day count uses (adherence, streaks, reminders,
+ * calendar export, grading, week stats, marketplace cards): a day trains when
+ * it has at least one exercise and isn't labelled a rest day. 2x/day days keep
+ * their blocks under `sessions`.
+ */
+
+const getDayBlocks = (day: any): any[] =>
+  day?.sessions?.length ? day.sessions.flatMap((s: any) => s.blocks || []) : day?.blocks || [];
+
+export const isTrainingDay = (day: any): boolean =>
+  !!day &&
+  getDayBlocks(day).some((block: any) => (block.exercises || []).length > 0) &&
+  !(day.focus || "").toLowerCase().includes("rest");
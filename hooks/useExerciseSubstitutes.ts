@@ -0,0 +1,48 @@
+/**
+ * useExerciseSubstitutes Hook
+ *
+ * Subscribes to swap suggestions for every exercise in the session and mirrors
+ * them into localStorage. Offline (or before the query resolves) the last
+ * cached ranking is served instead.
+ */
+
+import { useEffect, useCallback, useMemo } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { useOnlineStatus } from './useOnlineStatus';
+import {
+  ExerciseSubstitute,
+  cacheSubstitutes,
+  getCachedSubstitutes,
+} from '../services/substitutionService';
+
+export function useExerciseSubstitutes(userId: string | null | undefined, exerciseNames: string[]) {
+  const { isOnline } = useOnlineStatus();
+
+  // Sorted, de-duplicated args so re-renders don't resubscribe
+  const namesKey = useMemo(() => Array.from(new Set(exerciseNames)).sort().join('|'), [exerciseNames]);
+  const sessionNames = useMemo(() => (namesKey ? namesKey.split('|') : []), [namesKey]);
+
+  const live = useQuery(
+    api.exerciseSubstitutes.getSessionSubstitutes,
+    userId && isOnline && sessionNames.length > 0 ? { userId, exerciseNames: sessionNames } : "skip"
+  );
+
+  useEffect(() => {
+    if (userId && live) cacheSubstitutes(userId, live);
+  }, [userId, live]);
+
+  const getSubstitutes = useCallback((exerciseName: string): ExerciseSubstitute[] | undefined => {
+    const fromLive = live?.[exerciseName];
+    if (fromLive) return fromLive;
+    const cached = userId ? getCachedSubstitutes(userId, exerciseName) : null;
+    if (cached) return cached;
+    // Still loading online; nothing to show offline
+    return isOnline && live === undefined ? undefined : [];
+  }, [live, userId, isOnline]);
+
+  return {
+    getSubstitutes,
+    isOffline: !isOnline,
+  };
+}
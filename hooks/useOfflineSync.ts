@@ -0,0 +1,59 @@
+/**
+ * Offline Sync Hook
+ *
+ * Connects the durable offline queue (services/offlineService) to Convex.
+ * Mount once inside the authenticated app: replays persisted mutations on
+ * launch, on reconnect and on their backoff schedule.
+ * Only the signed-in user's mutations are replayed; signing out drops theirs.
+ */
+
+import { useEffect, useRef } from 'react';
+import { useUser } from '@clerk/clerk-react';
+import { useConvex, useConvexAuth } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { offlineQueue, QueuedMutation } from '../services/offlineService';
+
+export function useOfflineSync() {
+  const convex = useConvex();
+  const { isAuthenticated } = useConvexAuth();
+  const { user, isLoaded } = useUser();
+  const userId = user?.id ?? null;
+  const previousUserId = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const previous = previousUserId.current;
+    previousUserId.current = userId;
+
+    if (previous && previous !== userId) {
+      offlineQueue.signOut(previous).catch(error => {
+        console.error('Failed to clear offline queue on sign-out:', error);
+      });
+    }
+    offlineQueue.setUser(userId);
+  }, [userId, isLoaded]);
+
+  useEffect(() => {
+    // Mutations verify the caller - don't burn retries before auth is ready
+    if (!isAuthenticated) return;
+
+    offlineQueue.setExecutor((mutation: QueuedMutation) => {
+      // Rows persisted by an older build may carry a name this one no longer knows
+      const name: string = mutation.name;
+      switch (mutation.name) {
+        case 'addWorkoutLog':
+          return convex.mutation(api.mutations.addWorkoutLog, mutation.args);
+        case 'saveExerciseHistory':
+          return convex.mutation(api.mutations.saveExerciseHistory, mutation.args);
+        case 'recordExercisePerformance':
+          return convex.mutation(api.mutations.recordExercisePerformance, mutation.args);
+        case 'updateStreak':
+          return convex.mutation(api.achievementMutations.updateStreak, mutation.args);
+        default:
+          return Promise.reject(new Error(`Unknown queued mutation: ${name}`));
+      }
+    });
+
+    return () => offlineQueue.setExecutor(null);
+  }, [convex, isAuthenticated]);
+}
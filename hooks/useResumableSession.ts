@@ -0,0 +1,73 @@
+/**
+ * useResumableSession Hook
+ *
+ * Finds an unfinished workout to offer on the home page: the local checkpoint
+ * (survives an OS kill on this device) or the server copy (started on another
+ * device), whichever is newer.
+ */
+
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import {
+  SessionCheckpoint,
+  ServerSessionCheckpoint,
+  loadLocalCheckpoint,
+  clearLocalCheckpoint,
+  fromServerCheckpoint,
+  pickResumableCheckpoint,
+} from '../services/sessionCheckpointService';
+
+export function useResumableSession(userId: string | null | undefined) {
+  const [localCheckpoint, setLocalCheckpoint] = useState<SessionCheckpoint | null>(
+    () => (userId ? loadLocalCheckpoint(userId) : null)
+  );
+  const [dismissedKey, setDismissedKey] = useState<string | null>(null);
+
+  // Clerk may resolve the user after first render
+  useEffect(() => {
+    setLocalCheckpoint(userId ? loadLocalCheckpoint(userId) : null);
+  }, [userId]);
+
+  const remoteDoc = useQuery(api.activeSessions.getActiveSession, userId ? { userId } : "skip");
+  const clearActiveSessionMutation = useMutation(api.activeSessions.clearActiveSession);
+
+  const checkpoint = useMemo(() => {
+    const local = userId && localCheckpoint?.userId === userId ? localCheckpoint : null;
+    const remote = remoteDoc === undefined
+      ? undefined
+      : remoteDoc ? fromServerCheckpoint(remoteDoc as unknown as ServerSessionCheckpoint) : null;
+    const picked = pickResumableCheckpoint(local, remote);
+    return picked && picked.sessionKey !== dismissedKey ? picked : null;
+  }, [userId, localCheckpoint, remoteDoc, dismissedKey]);
+
+  /**
+   * Throw away the unfinished workout (locally and on the server)
+   */
+  const discard = useCallback(() => {
+    if (!checkpoint || !userId) return;
+    setDismissedKey(checkpoint.sessionKey);
+    clearLocalCheckpoint();
+    setLocalCheckpoint(null);
+    clearActiveSessionMutation({ userId, sessionKey: checkpoint.sessionKey }).catch(() => {
+      // Silent fail - dismissedKey keeps the prompt hidden for this launch
+    });
+  }, [checkpoint, userId, clearActiveSessionMutation]);
+
+  /**
+   * Hide a checkpoint's prompt (resumed, or its session just ended and the
+   * server copy hasn't been cleared yet)
+   */
+  const dismiss = useCallback((sessionKey: string) => {
+    setDismissedKey(sessionKey);
+  }, []);
+
+  /**
+   * Re-read the local checkpoint (after a session ends)
+   */
+  const refresh = useCallback(() => {
+    setLocalCheckpoint(userId ? loadLocalCheckpoint(userId) : null);
+  }, [userId]);
+
+  return { checkpoint, discard, dismiss, refresh };
+}
@@ -1,15 +1,18 @@
 import { useCallback, useEffect, useState } from 'react';
+import { OneRepMaxFormula } from '../types';
 
 export interface SettingsState {
   autoStartRest: boolean;
   restSound: boolean;
   restVibration: boolean;
+  oneRepMaxFormula: OneRepMaxFormula;
 }
 
 const DEFAULTS: SettingsState = {
   autoStartRest: true,
   restSound: true,
   restVibration: true,
+  oneRepMaxFormula: 'epley',
 };
 
 const STORAGE_KEY = 'rebld:settings:v1';
@@ -0,0 +1,46 @@
+import { useQuery } from "convex/react";
+import { useUser } from '@clerk/clerk-react';
+import { api } from "../convex/_generated/api";
+
+type QuotaAction = 'generateWorkoutPlan' | 'analyzeBodyPhoto' | 'handleChatMessage' | 'explainExercise' | 'parseWorkoutPlan';
+
+/**
+ * Remaining AI quota from the server (convex/rateLimiter.ts).
+ * The server enforces limits; this only lets the UI explain a limit before a call fails.
+ */
+export default function useUsageQuota() {
+    const { user } = useUser();
+    const userId = user?.id || null;
+
+    const quota = useQuery(
+        api.rateLimiter.getUsageQuota,
+        userId ? { userId } : "skip"
+    );
+
+    /**
+     * Message to show when `action` is out of quota, null while calls remain (or quota is loading)
+     */
+    const getLimitMessage = (action: QuotaAction): string | null => {
+        const entry = quota?.actions[action];
+        if (!entry) return null;
+
+        if (entry.monthly && entry.monthly.remaining === 0) {
+            const resetsOn = new Date(quota.periodEnd).toLocaleDateString();
+            return quota.tier === 'free'
+                ? `You've used this month's free quota. It resets on ${resetsOn} - upgrade to Premium for more.`
+                : `You've reached your monthly limit. It resets on ${resetsOn}.`;
+        }
+
+        if (entry.remaining === 0) {
+            const minutes = entry.resetsAt ? Math.max(1, Math.ceil((entry.resetsAt - Date.now()) / 60000)) : 60;
+            return `Limit reached (${entry.limit} per hour). Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+        }
+
+        return null;
+    };
+
+    return {
+        quota,
+        getLimitMessage,
+    };
+}
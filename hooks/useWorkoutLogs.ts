@@ -1,7 +1,9 @@
-import { useQuery, useMutation } from "convex/react";
+import { useQuery } from "convex/react";
 import { useUser } from '@clerk/clerk-react';
 import { api } from "../convex/_generated/api";
-import { WorkoutLog } from '../types';
+import { WorkoutLog, PRAchievement, OneRepMaxFormula } from '../types';
+import { offlineQueue } from '../services/offlineService';
+import useSettings from './useSettings';
 
 // Omit 'id' and 'date' because Convex will generate them
 type NewLog = Omit<WorkoutLog, 'id' | 'date'>;
@@ -10,17 +12,21 @@ type NewLog = Omit<WorkoutLog, 'id' | 'date'>;
 interface AddLogResult {
     success: boolean;
     error?: string;
+    // Records this session beat (excludes first-ever records for an exercise)
+    personalRecords?: PRAchievement[];
+    // Saved to the offline queue; will sync when reconnected
+    queued?: boolean;
 }
 
 export default function useWorkoutLogs() {
     const { user } = useUser();
     const userId = user?.id || null;
+    const { settings } = useSettings();
 
     const logsResult = useQuery(
         api.queries.getWorkoutLogs,
         userId ? { userId, limit: 100 } : "skip" // Fetch up to 100 logs
     );
-    const addLogMutation = useMutation(api.mutations.addWorkoutLog);
 
     const addLog = async (newLog: NewLog): Promise<AddLogResult> => {
         if (!userId) {
@@ -43,13 +49,44 @@ export default function useWorkoutLogs() {
         }
 
         try {
-            await addLogMutation({
+            // Persisted before sending, so the log survives the app being killed offline
+            const outcome = await offlineQueue.run('addWorkoutLog', {
                 userId,
                 focus: focus.trim(),
                 exercises: newLog.exercises,
                 durationMinutes: newLog.durationMinutes || undefined,
+                date: new Date().toISOString(),
             });
-            return { success: true };
+            if (outcome.status === 'queued') {
+                return { success: true, queued: true, personalRecords: [] };
+            }
+
+            const result = outcome.result as { personalRecords?: Array<{
+                recordType: PRAchievement['type'];
+                formula?: OneRepMaxFormula;
+                exercise_name: string;
+                value: number;
+                previousValue: number | null;
+                repRange: number | null;
+                weight: number;
+                reps: number;
+                date: string;
+            }> };
+            const personalRecords: PRAchievement[] = (result?.personalRecords || [])
+                .filter(record => record.previousValue !== null)
+                // e1RM is recorded for every formula - show the one the user picked
+                .filter(record => record.recordType !== 'e1rm' || (record.formula ?? 'epley') === settings.oneRepMaxFormula)
+                .map(record => ({
+                    type: record.recordType,
+                    exercise_name: record.exercise_name,
+                    value: record.value,
+                    previousValue: record.previousValue ?? undefined,
+                    repRange: record.repRange ?? undefined,
+                    weight: record.weight,
+                    reps: record.reps,
+                    date: record.date,
+                }));
+            return { success: true, personalRecords };
         } catch (e) {
             const error = "Failed to save workout to database";
             console.error(error, e);
@@ -1,7 +1,7 @@
 import { useQuery, useMutation } from "convex/react";
 import { useUser } from '@clerk/clerk-react';
 import { api } from "../convex/_generated/api";
-import { WorkoutPlan } from '../types';
+import { WorkoutPlan, PlanSource } from '../types';
 import { Id } from "../convex/_generated/dataModel";
 // NOTE: saveExercisesFromExtractedList disabled - causes 200+ client-side Gemini API errors
 // import { saveExercisesFromExtractedList } from '../services/exerciseDatabaseService';
@@ -26,7 +26,6 @@ export default function useWorkoutPlan() {
     const setActivePlanMutation = useMutation(api.mutations.setActivePlan);
     const cacheExerciseMutation = useMutation(api.mutations.cacheExerciseExplanation);
     const updateSportBucketMutation = useMutation(api.sportBucketMutations.updateSportBucket);
-    const incrementPlanUsageMutation = useMutation(api.mutations.incrementPlanUsage);
 
     const setActivePlan = async (planId: Id<"workoutPlans">) => {
         if (!userId) return;
@@ -90,6 +89,13 @@ export default function useWorkoutPlan() {
                 baseBlock.rounds = block.rounds;
             } else if (block.type === 'amrap') {
                 baseBlock.duration_minutes = block.duration_minutes;
+            } else if (block.type === 'emom') {
+                baseBlock.duration_minutes = block.duration_minutes;
+                if (block.interval_seconds) baseBlock.interval_seconds = block.interval_seconds;
+            } else if (block.type === 'tabata') {
+                baseBlock.rounds = block.rounds;
+                baseBlock.work_seconds = block.work_seconds;
+                baseBlock.rest_seconds = block.rest_seconds;
             }
 
             return baseBlock;
@@ -138,7 +144,7 @@ export default function useWorkoutPlan() {
         };
     };
 
-    const addPlan = async (newPlanData: Omit<WorkoutPlan, 'id' | 'createdAt'>) => {
+    const addPlan = async (newPlanData: Omit<WorkoutPlan, 'id' | 'createdAt'>, source: PlanSource = 'ai') => {
         if (!userId) return;
         
         try {
@@ -155,11 +161,9 @@ export default function useWorkoutPlan() {
                 name: normalizedPlan.name,
                 weeklyPlan: normalizedPlan.weeklyPlan as any,
                 dailyRoutine: normalizedPlan.dailyRoutine || undefined,
+                source,
             });
 
-            // Track plan generation for rate limiting
-            await incrementPlanUsageMutation({ userId });
-
             // Extract exercises is now done server-side - use the returned exercises
             const planId = result.planId;
             const extractedExercises = result.extractedExercises || [];
@@ -293,6 +297,7 @@ export default function useWorkoutPlan() {
         weeklyPlan: activePlan.weeklyPlan,
         dailyRoutine: activePlan.dailyRoutine || undefined,
         createdAt: activePlan.createdAt,
+        periodization: activePlan.periodization || undefined,
     } : null;
 
     const planLoaded = (allPlans !== undefined && activePlan !== undefined) || !userId;
@@ -1,4 +1,12 @@
-import { PlanDay, PlanExercise } from '../types';
+import {
+  CircuitBlock,
+  IntervalBlock,
+  MetricTemplate,
+  PlanDay,
+  PlanExercise,
+  SupersetBlock,
+  WorkoutBlock,
+} from '../types';
 
 /**
  * Calculate workout intensity based on RPE and exercise count
@@ -244,10 +252,14 @@ export function suggestWeight(
     row_kg?: number;
     overhead_press_kg?: number;
   } | undefined | null,
-  targetReps: number = 10
+  targetReps: number = 10,
+  targetRpe?: number | null
 ): number | null {
   if (!strengthProfile) return null;
 
+  // Reps in reserve behave like extra reps: 8 @ RPE 8 ≈ a 10-rep max
+  const effectiveReps = targetRpe ? targetReps + Math.max(0, 10 - targetRpe) : targetReps;
+
   const lowerName = exerciseName.toLowerCase().trim();
 
   // Find matching exercise in our mapping
@@ -258,7 +270,7 @@ export function suggestWeight(
       if (lowerName.includes(key) || key.includes(lowerName)) {
         const baseWeight = getBaseWeight(value.baseExercise, strengthProfile);
         if (baseWeight) {
-          return calculateWorkingWeight(baseWeight * value.multiplier, targetReps);
+          return calculateWorkingWeight(baseWeight * value.multiplier, effectiveReps);
         }
       }
     }
@@ -268,7 +280,7 @@ export function suggestWeight(
   const baseWeight = getBaseWeight(mapping.baseExercise, strengthProfile);
   if (!baseWeight) return null;
 
-  return calculateWorkingWeight(baseWeight * mapping.multiplier, targetReps);
+  return calculateWorkingWeight(baseWeight * mapping.multiplier, effectiveReps);
 }
 
 function getBaseWeight(
@@ -305,3 +317,87 @@ function calculateWorkingWeight(estimatedMax: number, targetReps: number): numbe
   // Round to nearest 2.5kg for practical gym use
   return Math.round(weight / 2.5) * 2.5;
 }
+
+/**
+ * One timed phase of an EMOM/Tabata block
+ */
+export interface IntervalPhase {
+  kind: 'work' | 'rest';
+  seconds: number;
+  round: number; // 1-based interval (EMOM) or round (Tabata)
+  exercise: PlanExercise | null;
+}
+
+/**
+ * Expand an EMOM/Tabata block into its timed phases
+ * EMOM: one work phase per interval, exercises rotate (odd/even minutes)
+ * Tabata: work/rest per round, exercises rotate per round, no trailing rest
+ */
+export function buildIntervalSchedule(block: IntervalBlock): IntervalPhase[] {
+  const exercises = Array.isArray(block.exercises) ? block.exercises : [];
+  const exerciseAt = (index: number) => exercises.length > 0 ? exercises[index % exercises.length] : null;
+  const phases: IntervalPhase[] = [];
+
+  if (block.type === 'emom') {
+    const interval = block.interval_seconds || 60;
+    const count = Math.max(1, Math.floor(((block.duration_minutes || 10) * 60) / interval));
+    for (let i = 0; i < count; i++) {
+      phases.push({ kind: 'work', seconds: interval, round: i + 1, exercise: exerciseAt(i) });
+    }
+    return phases;
+  }
+
+  const rounds = Math.max(1, block.rounds || 8);
+  const work = block.work_seconds || 20;
+  const rest = block.rest_seconds ?? 10;
+  for (let i = 0; i < rounds; i++) {
+    phases.push({ kind: 'work', seconds: work, round: i + 1, exercise: exerciseAt(i) });
+    if (rest > 0 && i < rounds - 1) {
+      phases.push({ kind: 'rest', seconds: rest, round: i + 1, exercise: exerciseAt(i + 1) });
+    }
+  }
+  return phases;
+}
+
+/**
+ * Total clock time of an EMOM/Tabata block in seconds
+ */
+export function getIntervalBlockSeconds(block: IntervalBlock): number {
+  return buildIntervalSchedule(block).reduce((sum, phase) => sum + phase.seconds, 0);
+}
+
+/**
+ * Superset/circuit block whose volume is its round count, not per-exercise sets
+ */
+export type RoundsBlock = (SupersetBlock | CircuitBlock) & { rounds: number };
+
+export function isRoundsBlock(block: WorkoutBlock): block is RoundsBlock {
+  return (block.type === 'superset' || block.type === 'circuit') && typeof block.rounds === 'number';
+}
+
+/**
+ * Block name for change summaries - its title, else its exercises joined
+ */
+export function getBlockLabel(block: WorkoutBlock): string {
+  return block.title || block.exercises.map(ex => ex.exercise_name).join(' + ');
+}
+
+/**
+ * Working sets on a template (target_sets, or the `sets` alias some templates carry)
+ * AI plans sometimes send numbers as strings; those count too.
+ */
+export function getTemplateSets(template: MetricTemplate | undefined): number | null {
+  if (!template) return null;
+  const raw: unknown = template.target_sets ?? ('sets' in template ? template.sets : undefined);
+  const sets = typeof raw === 'string' ? parseFloat(raw) : raw;
+  return typeof sets === 'number' && !isNaN(sets) ? sets : null;
+}
+
+/**
+ * Copy of a template with a new set count (the `sets` alias is kept in sync)
+ */
+export function withTemplateSets<T extends MetricTemplate>(template: T, sets: number): T {
+  return 'sets' in template && template.sets !== undefined
+    ? { ...template, target_sets: sets, sets }
+    : { ...template, target_sets: sets };
+}
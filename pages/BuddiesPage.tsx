@@ -4,6 +4,7 @@ import { useUser } from '@clerk/clerk-react';
 import { api } from '../convex/_generated/api';
 import BuddyComparisonCard from '../components/BuddyComparisonCard';
 import BuddyWorkoutLog from '../components/BuddyWorkoutLog';
+import BuddyChallenges from '../components/BuddyChallenges';
 import EnterCodeDialog from '../components/EnterCodeDialog';
 import { notify } from '../components/layout/Toast';
 import { cn } from '../lib/utils';
@@ -38,6 +39,14 @@ export default function BuddiesPage() {
     return exercises;
   }, [activePlan]);
 
+  // Challenges invite by user code
+  const invitableBuddies = useMemo(() =>
+    (buddies || [])
+      .filter(b => b.buddyUser?.userCode)
+      .map(b => ({ buddyId: b.buddyId, userCode: b.buddyUser!.userCode! })),
+    [buddies]
+  );
+
   // Pull to Refresh
   const { pullDistance, isRefreshing, isTriggered } = usePullToRefresh({ onRefresh: async () => await new Promise(r => setTimeout(r, 800)) });
 
@@ -117,6 +126,9 @@ export default function BuddiesPage() {
                 ))}
               </div>
 
+              {/* CHALLENGES */}
+              <BuddyChallenges userId={userId!} buddies={invitableBuddies} />
+
               {/* DETAILED LIST */}
               <div className="divide-y divide-white/10">
                 {buddies.map((buddy, i) => (
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { useUser } from '@clerk/clerk-react';
+import { ArrowLeft, UserPlus } from 'lucide-react';
+import { api } from '../convex/_generated/api';
+import { Id } from '../convex/_generated/dataModel';
+import AthleteDetailSheet from '../components/AthleteDetailSheet';
+import { notify } from '../components/layout/Toast';
+import { cn } from '../lib/utils';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// COACH PAGE - Athletes, adherence, invites (Editorial Noir)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface CoachPageProps {
+  onBack: () => void;
+}
+
+const adherenceColor = (percent: number | null) =>
+  percent === null ? 'text-[#525252]' : percent >= 80 ? 'text-green-500' : percent >= 50 ? 'text-yellow-500' : 'text-red-500';
+
+export default function CoachPage({ onBack }: CoachPageProps) {
+  const { user } = useUser();
+  const userId = user?.id || null;
+  const [athleteCode, setAthleteCode] = useState('');
+  const [isInviting, setIsInviting] = useState(false);
+  const [openAthleteId, setOpenAthleteId] = useState<string | null>(null);
+
+  const dashboard = useQuery(api.coachingQueries.getCoachDashboard, userId ? { userId } : 'skip');
+  const setCoachMode = useMutation(api.coachingMutations.setCoachMode);
+  const inviteAthlete = useMutation(api.coachingMutations.inviteAthlete);
+  const revokeCoachAccess = useMutation(api.coachingMutations.revokeCoachAccess);
+
+  const handleCoachMode = async (enabled: boolean) => {
+    if (!userId) return;
+    if (!enabled && !confirm('TURN OFF COACH MODE? YOUR ATHLETES STAY LINKED BUT YOU LOSE ACCESS UNTIL YOU TURN IT BACK ON.')) return;
+    try {
+      await setCoachMode({ userId, enabled });
+    } catch (e: any) {
+      notify({ type: 'error', message: e.message });
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!userId || !athleteCode.trim()) return;
+    setIsInviting(true);
+    try {
+      await inviteAthlete({ userId, athleteCode });
+      notify({ type: 'success', message: 'INVITE SENT · WAITING FOR ATHLETE' });
+      setAthleteCode('');
+    } catch (e: any) {
+      notify({ type: 'error', message: e.message });
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleCancelInvite = async (linkId: Id<'coachAthletes'>) => {
+    if (!userId) return;
+    try {
+      await revokeCoachAccess({ userId, linkId });
+    } catch (e: any) {
+      notify({ type: 'error', message: e.message });
+    }
+  };
+
+  return (
+    <div className="h-full w-full bg-black flex flex-col pt-safe-top">
+      <header className="px-6 py-6 border-b border-white/10">
+        <div className="flex justify-between items-end">
+          <div>
+            <p className="font-mono text-[10px] text-[#525252] mb-1 tracking-widest uppercase">COACH MODE</p>
+            <h1 className="text-4xl font-black italic tracking-tighter text-white uppercase leading-none">ATHLETES</h1>
+          </div>
+          <button
+            onClick={onBack}
+            aria-label="Back to profile"
+            className="w-10 h-10 border border-white/20 flex items-center justify-center text-white hover:bg-white hover:text-black transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto px-6 py-6 pb-32">
+        {!dashboard ? (
+          <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">LOADING...</p>
+        ) : !dashboard.isCoach ? (
+          <div className="border border-white/10 p-5 space-y-4">
+            <p className="text-sm text-white/80">
+              Invite athletes by their user code. Once they accept, you can follow their sessions, health metrics
+              and adherence, assign or edit their plans, and comment on their workouts.
+            </p>
+            <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">
+              ATHLETES CHOOSE WHAT YOU SEE AND CAN REVOKE ACCESS ANY TIME
+            </p>
+            <button
+              onClick={() => handleCoachMode(true)}
+              disabled={!dashboard.canBecomeCoach}
+              className="w-full py-4 bg-white text-black font-black uppercase tracking-widest text-xs disabled:opacity-30"
+            >
+              {dashboard.canBecomeCoach ? 'TURN ON COACH MODE' : 'NOT AVAILABLE FOR ADMIN ACCOUNTS'}
+            </button>
+          </div>
+        ) : (
+          <>
+            {/* INVITE */}
+            <div className="flex gap-2 mb-8">
+              <input
+                value={athleteCode}
+                onChange={(e) => setAthleteCode(e.target.value.toUpperCase())}
+                placeholder="REBLD-ABC123"
+                className="flex-1 bg-transparent border border-white/20 px-4 py-3 font-mono text-sm text-white placeholder:text-white/20 focus:border-white outline-none"
+              />
+              <button
+                onClick={handleInvite}
+                disabled={!athleteCode.trim() || isInviting}
+                aria-label="Invite athlete"
+                className="px-4 bg-white text-black flex items-center gap-2 font-black uppercase tracking-widest text-xs disabled:opacity-30"
+              >
+                <UserPlus className="w-4 h-4" />
+                INVITE
+              </button>
+            </div>
+
+            {/* ATHLETES */}
+            <p className="font-mono text-[10px] text-white/40 mb-2 uppercase tracking-widest">
+              {dashboard.athletes.length} ATHLETE{dashboard.athletes.length === 1 ? '' : 'S'}
+            </p>
+            {dashboard.athletes.length === 0 ? (
+              <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest border border-white/10 p-4">
+                NO ATHLETES YET · INVITE ONE WITH THEIR USER CODE
+              </p>
+            ) : (
+              <div className="divide-y divide-white/10 border-y border-white/10">
+                {dashboard.athletes.map(athlete => (
+                  athlete.status === 'pending' ? (
+                    <div key={athlete.linkId} className="py-4 flex items-center justify-between gap-4">
+                      <div>
+                        <p className="font-mono text-sm text-white/60">{athlete.athleteCode || 'ATHLETE'}</p>
+                        <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest mt-1">INVITE PENDING</p>
+                      </div>
+                      <button
+                        onClick={() => handleCancelInvite(athlete.linkId)}
+                        className="font-mono text-[10px] text-[#525252] hover:text-red-500 uppercase tracking-widest"
+                      >
+                        CANCEL
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      key={athlete.linkId}
+                      onClick={() => setOpenAthleteId(athlete.athleteId)}
+                      className="w-full text-left py-4 flex items-center gap-4"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="font-mono text-sm text-white">{athlete.athleteCode || 'ATHLETE'}</p>
+                        <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest mt-1">
+                          {athlete.adherence
+                            ? athlete.adherence.lastWorkoutDate
+                              ? `LAST SESSION ${new Date(athlete.adherence.lastWorkoutDate).toLocaleDateString()}`
+                              : 'NO SESSIONS LOGGED'
+                            : 'LOGS NOT SHARED'}
+                        </p>
+                      </div>
+                      {athlete.adherence && (
+                        <div className="text-right">
+                          <p className={cn('text-2xl font-black italic leading-none', adherenceColor(athlete.adherence.percent))}>
+                            {athlete.adherence.percent === null ? '—' : `${athlete.adherence.percent}%`}
+                          </p>
+                          <p className="font-mono text-[9px] text-[#525252] uppercase tracking-widest mt-1">
+                            {athlete.adherence.completedSessions}/{athlete.adherence.plannedSessions} · {athlete.adherence.weeks} WK
+                          </p>
+                        </div>
+                      )}
+                    </button>
+                  )
+                ))}
+              </div>
+            )}
+
+            <button
+              onClick={() => handleCoachMode(false)}
+              className="mt-10 font-mono text-[10px] text-[#525252] hover:text-red-500 uppercase tracking-widest"
+            >
+              TURN OFF COACH MODE
+            </button>
+          </>
+        )}
+      </main>
+
+      {userId && (
+        <AthleteDetailSheet
+          athleteId={openAthleteId}
+          onClose={() => setOpenAthleteId(null)}
+          userId={userId}
+        />
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { WorkoutLog, WorkoutPlan, PlanDay, DailyRoutine, WorkoutSession } from '
 import { DumbbellIcon, FireIcon, CheckIcon } from '../components/icons';
 import { useUser } from '@clerk/clerk-react';
 import PerformanceAnalytics from '../components/PerformanceAnalytics';
+import MuscleHeatmap from '../components/MuscleHeatmap';
 import useUserProfile from '../hooks/useUserProfile';
 import { cn } from '../lib/utils';
 import { usePullToRefresh } from '../hooks/usePullToRefresh';
@@ -18,6 +19,7 @@ import { useHaptic } from '../hooks/useAnimations';
    - Key lifts with percentage progression
    - Next session preview with one-tap start
    - Weekly completion tracker
+   - Per-muscle weekly volume heatmap
    ═══════════════════════════════════════════════════════════════ */
 
 interface DashboardPageProps {
@@ -392,6 +394,9 @@ export default function DashboardPage({ logs, plan, onStartSession }: DashboardP
         </p>
       </div>
 
+      {/* Muscle Volume Heatmap */}
+      {userId && <MuscleHeatmap userId={userId} />}
+
       {/* Next Session */}
       {nextSession && onStartSession && (
         <button
@@ -14,6 +14,7 @@ import { calculateWorkoutIntensity, getWorkoutType } from '../lib/workoutUtils';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '../convex/_generated/api';
 import { XMarkIcon } from '../components/icons';
+import { SessionCheckpoint, getDeviceId } from '../services/sessionCheckpointService';
 
 /* ═══════════════════════════════════════════════════════════════
    HOMEPAGE - Phase 9.4 Page Redesign
@@ -31,6 +32,9 @@ interface HomePageProps {
     onOpenChat: () => void;
     userProfile?: UserProfile | null;
     onRefreshPlan?: () => Promise<void>;
+    resumableSession?: SessionCheckpoint | null;
+    onResumeSession?: () => void;
+    onDiscardResumableSession?: () => void;
 }
 
 // Helper function to get weekday names with translations
@@ -331,6 +335,8 @@ const WorkoutCard: React.FC<{
                                                 {block.title || `Block ${blockIdx + 1}`}
                                                 {block.type === 'superset' && ' • Superset'}
                                                 {block.type === 'amrap' && ' • AMRAP'}
+                                                {block.type === 'emom' && ' • EMOM'}
+                                                {block.type === 'tabata' && ' • Tabata'}
                                             </p>
                                             <div className="h-px flex-1 bg-[var(--border-default)]"></div>
                                         </div>
@@ -516,7 +522,7 @@ const DaySelectorButton: React.FC<DaySelectorButtonProps> = ({
 // HOMEPAGE MAIN COMPONENT
 // ─────────────────────────────────────────────────────────────
 
-export default function HomePage({ plan, onStartSession, onOpenChat, userProfile, onRefreshPlan }: HomePageProps) {
+export default function HomePage({ plan, onStartSession, onOpenChat, userProfile, onRefreshPlan, resumableSession, onResumeSession, onDiscardResumableSession }: HomePageProps) {
     const { t } = useTranslation();
     const { user } = useUser();
     const userId = user?.id || null;
@@ -697,6 +703,41 @@ export default function HomePage({ plan, onStartSession, onOpenChat, userProfile
                     WebkitOverflowScrolling: 'touch' // iOS momentum scrolling
                 }}
             >
+                {/* Unfinished workout (app was killed, or started on another device) */}
+                {resumableSession && onResumeSession && (
+                    <div className={cn(
+                        "p-[var(--space-4)]",
+                        "bg-[var(--surface-primary)]",
+                        "border border-[var(--brand-primary)]",
+                        "rounded-[var(--radius-2xl)]",
+                        "shadow-[var(--shadow-md)]",
+                        "animate-fade-in"
+                    )}>
+                        <p className="text-[var(--text-sm)] font-[var(--weight-bold)] text-[var(--text-primary)]">
+                            {t('home.resumeWorkout', {
+                                time: new Date(resumableSession.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+                            })}
+                        </p>
+                        <p className="text-[var(--text-xs)] text-[var(--text-secondary)] mt-[var(--space-1)]">
+                            {resumableSession.session.focus} · {t('home.resumeProgress', {
+                                done: resumableSession.exercisesDone,
+                                total: resumableSession.exercisesTotal,
+                            })}
+                            {resumableSession.deviceId !== getDeviceId() && ` · ${t('home.resumeOtherDevice')}`}
+                        </p>
+                        <div className="flex gap-[var(--space-2)] mt-[var(--space-3)]">
+                            <Button onClick={onResumeSession} variant="primary" size="sm" className="flex-1">
+                                {t('home.resume')}
+                            </Button>
+                            {onDiscardResumableSession && (
+                                <Button onClick={onDiscardResumableSession} variant="secondary" size="sm">
+                                    {t('home.discard')}
+                                </Button>
+                            )}
+                        </div>
+                    </div>
+                )}
+
                 {/* Buddy notification banner - NO skeleton to avoid layout shift */}
                 {notifications && notifications.length > 0 && (
                     <div className={cn(
@@ -0,0 +1,316 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, usePaginatedQuery } from 'convex/react';
+import { useUser } from '@clerk/clerk-react';
+import { ArrowLeft, Heart, Copy, Search } from 'lucide-react';
+import { api } from '../convex/_generated/api';
+import { Id } from '../convex/_generated/dataModel';
+import MarketplacePlanSheet from '../components/MarketplacePlanSheet';
+import { notify } from '../components/layout/Toast';
+import { cn } from '../lib/utils';
+import useWorkoutPlan from '../hooks/useWorkoutPlan';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// MARKETPLACE PAGE - Community plans (Editorial Noir)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface MarketplacePageProps {
+  onBack: () => void;
+}
+
+type Tab = 'browse' | 'mine';
+type Difficulty = 'Beginner' | 'Intermediate' | 'Advanced';
+type Grade = 'A' | 'B' | 'C' | 'D' | 'F';
+type Sort = 'popular' | 'copied' | 'grade' | 'newest';
+
+const BROWSE_PAGE_SIZE = 30;
+const DIFFICULTIES: Difficulty[] = ['Beginner', 'Intermediate', 'Advanced'];
+const MIN_GRADES: Grade[] = ['A', 'B', 'C'];
+const SORTS: Array<{ sort: Sort; label: string }> = [
+  { sort: 'popular', label: 'LIKED' },
+  { sort: 'copied', label: 'COPIED' },
+  { sort: 'grade', label: 'GRADE' },
+  { sort: 'newest', label: 'NEW' },
+];
+
+const Chip: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
+  <button
+    onClick={onClick}
+    className={cn(
+      'px-3 py-1.5 border font-mono text-[10px] uppercase tracking-widest whitespace-nowrap transition-colors',
+      active ? 'bg-white text-black border-white' : 'border-white/20 text-white/60'
+    )}
+  >
+    {children}
+  </button>
+);
+
+export default function MarketplacePage({ onBack }: MarketplacePageProps) {
+  const { user } = useUser();
+  const userId = user?.id || null;
+  const { activePlan } = useWorkoutPlan();
+  const [tab, setTab] = useState<Tab>('browse');
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState<string | undefined>();
+  const [difficulty, setDifficulty] = useState<Difficulty | undefined>();
+  const [minGrade, setMinGrade] = useState<Grade | undefined>();
+  const [sort, setSort] = useState<Sort>('popular');
+  const [openPlanId, setOpenPlanId] = useState<Id<'userSubmittedPlans'> | null>(null);
+
+  // Publish form
+  const [publishTitle, setPublishTitle] = useState('');
+  const [publishCategory, setPublishCategory] = useState('');
+  const [publishDifficulty, setPublishDifficulty] = useState<Difficulty>('Intermediate');
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  const categories = useQuery(api.marketplaceQueries.getMarketplaceCategories, {});
+  const { results: plans, status: browseStatus, loadMore } = usePaginatedQuery(
+    api.marketplaceQueries.browseSubmittedPlans,
+    userId && tab === 'browse'
+      ? { userId, search: search || undefined, category, difficulty, minGrade, sort }
+      : 'skip',
+    { initialNumItems: BROWSE_PAGE_SIZE }
+  );
+  const myPlans = useQuery(api.marketplaceQueries.getMySubmittedPlans, userId && tab === 'mine' ? { userId } : 'skip');
+  const publishPlan = useMutation(api.marketplaceMutations.publishPlan);
+  const setVisibility = useMutation(api.marketplaceMutations.setSubmittedPlanVisibility);
+  const deletePlan = useMutation(api.marketplaceMutations.deleteSubmittedPlan);
+
+  const handlePublish = async () => {
+    if (!userId || !activePlan?._id) return;
+    setIsPublishing(true);
+    try {
+      const result = await publishPlan({
+        userId,
+        planId: activePlan._id as Id<'workoutPlans'>,
+        title: publishTitle || activePlan.name,
+        category: publishCategory,
+        difficulty: publishDifficulty,
+      });
+      notify({ type: 'success', message: `PUBLISHED · GRADE ${result.athleticGrade}` });
+      setPublishTitle('');
+    } catch (e: any) {
+      notify({ type: 'error', message: e.message });
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleDelete = async (submittedPlanId: Id<'userSubmittedPlans'>) => {
+    if (!userId || !confirm('REMOVE THIS PLAN FROM THE MARKETPLACE?')) return;
+    try {
+      await deletePlan({ userId, submittedPlanId });
+      notify({ type: 'success', message: 'PLAN REMOVED' });
+    } catch (e: any) {
+      notify({ type: 'error', message: e.message });
+    }
+  };
+
+  return (
+    <div className="h-full w-full bg-black flex flex-col pt-safe-top">
+      <header className="px-6 py-6 border-b border-white/10">
+        <div className="flex justify-between items-end">
+          <div>
+            <p className="font-mono text-[10px] text-[#525252] mb-1 tracking-widest uppercase">COMMUNITY</p>
+            <h1 className="text-4xl font-black italic tracking-tighter text-white uppercase leading-none">PLANS</h1>
+          </div>
+          <button
+            onClick={onBack}
+            aria-label="Back to plan"
+            className="w-10 h-10 border border-white/20 flex items-center justify-center text-white hover:bg-white hover:text-black transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="flex gap-6 mt-6">
+          {(['browse', 'mine'] as Tab[]).map(t => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={cn(
+                'font-mono text-[10px] uppercase tracking-widest pb-1 border-b',
+                tab === t ? 'text-white border-white' : 'text-[#525252] border-transparent'
+              )}
+            >
+              {t === 'browse' ? 'BROWSE' : 'MY PLANS'}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto px-6 py-6 pb-32">
+        {tab === 'browse' ? (
+          <>
+            {/* SEARCH + FILTERS */}
+            <div className="flex items-center gap-2 border border-white/20 px-3 mb-4">
+              <Search className="w-4 h-4 text-[#525252]" />
+              <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search plans"
+                className="flex-1 bg-transparent py-3 text-sm text-white placeholder:text-white/20 outline-none"
+              />
+            </div>
+            <div className="space-y-2 mb-6">
+              <div className="flex gap-2 overflow-x-auto hide-scrollbar">
+                <Chip active={!category} onClick={() => setCategory(undefined)}>ALL</Chip>
+                {(categories || []).map(c => (
+                  <Chip key={c} active={category === c} onClick={() => setCategory(category === c ? undefined : c)}>{c}</Chip>
+                ))}
+              </div>
+              <div className="flex gap-2 overflow-x-auto hide-scrollbar">
+                {DIFFICULTIES.map(d => (
+                  <Chip key={d} active={difficulty === d} onClick={() => setDifficulty(difficulty === d ? undefined : d)}>{d}</Chip>
+                ))}
+                {MIN_GRADES.map(g => (
+                  <Chip key={g} active={minGrade === g} onClick={() => setMinGrade(minGrade === g ? undefined : g)}>
+                    {g === 'A' ? 'A ONLY' : `${g}+`}
+                  </Chip>
+                ))}
+              </div>
+              <div className="flex gap-2 items-center">
+                <span className="font-mono text-[10px] text-[#525252] uppercase tracking-widest mr-1">SORT</span>
+                {SORTS.map(s => (
+                  <Chip key={s.sort} active={sort === s.sort} onClick={() => setSort(s.sort)}>{s.label}</Chip>
+                ))}
+              </div>
+            </div>
+
+            {/* RESULTS */}
+            {browseStatus === 'LoadingFirstPage' ? (
+              <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">LOADING...</p>
+            ) : plans.length === 0 ? (
+              <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest border border-white/10 p-4">
+                NO PLANS MATCH · TRY FEWER FILTERS
+              </p>
+            ) : (
+              <div className="divide-y divide-white/10 border-y border-white/10">
+                {plans.map(plan => (
+                  <button
+                    key={plan._id}
+                    onClick={() => setOpenPlanId(plan._id)}
+                    className="w-full text-left py-4 flex items-center gap-4"
+                  >
+                    <span className="w-10 text-3xl font-black italic text-white text-center">{plan.athleticGrade}</span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-bold text-white uppercase tracking-wide truncate">{plan.title}</p>
+                      <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest mt-1">
+                        {plan.category} · {plan.difficulty} · {plan.trainingDays}D
+                      </p>
+                    </div>
+                    <div className="flex flex-col items-end gap-1 font-mono text-[10px] text-white/60">
+                      <span className="flex items-center gap-1">
+                        <Heart className={cn('w-3 h-3', plan.likedByMe && 'fill-white text-white')} /> {plan.likes}
+                      </span>
+                      <span className="flex items-center gap-1"><Copy className="w-3 h-3" /> {plan.copies}</span>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+            {browseStatus === 'CanLoadMore' && (
+              <button
+                onClick={() => loadMore(BROWSE_PAGE_SIZE)}
+                className="w-full mt-4 py-3 border border-white/20 font-mono text-[10px] text-white uppercase tracking-widest"
+              >
+                LOAD MORE
+              </button>
+            )}
+          </>
+        ) : (
+          <>
+            {/* PUBLISH ACTIVE PLAN */}
+            {activePlan && (
+              <div className="border border-white/10 p-4 mb-8 space-y-3">
+                <p className="font-mono text-[10px] text-white/40 uppercase tracking-widest">PUBLISH ACTIVE PLAN</p>
+                <input
+                  value={publishTitle}
+                  onChange={(e) => setPublishTitle(e.target.value)}
+                  placeholder={activePlan.name}
+                  maxLength={80}
+                  className="w-full bg-transparent border border-white/20 px-4 py-3 text-sm text-white placeholder:text-white/30 focus:border-white outline-none"
+                />
+                <div className="flex gap-2 overflow-x-auto hide-scrollbar">
+                  {(categories || []).map(c => (
+                    <Chip key={c} active={publishCategory === c} onClick={() => setPublishCategory(c)}>{c}</Chip>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  {DIFFICULTIES.map(d => (
+                    <Chip key={d} active={publishDifficulty === d} onClick={() => setPublishDifficulty(d)}>{d}</Chip>
+                  ))}
+                </div>
+                <button
+                  onClick={handlePublish}
+                  disabled={!publishCategory || isPublishing}
+                  className="w-full py-3 bg-white text-black font-black uppercase tracking-widest text-xs disabled:opacity-30"
+                >
+                  {isPublishing ? 'GRADING...' : 'PUBLISH'}
+                </button>
+              </div>
+            )}
+
+            {/* AUTHOR STATS */}
+            {!myPlans ? (
+              <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">LOADING...</p>
+            ) : myPlans.length === 0 ? (
+              <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest">NOTHING PUBLISHED YET</p>
+            ) : (
+              <div className="space-y-2">
+                {myPlans.map(plan => (
+                  <div key={plan._id} className="border border-white/10 p-4">
+                    <div className="flex justify-between items-start gap-4">
+                      <button onClick={() => setOpenPlanId(plan._id)} className="text-left min-w-0">
+                        <p className="text-sm font-bold text-white uppercase tracking-wide truncate">{plan.title}</p>
+                        <p className="font-mono text-[10px] text-[#525252] uppercase tracking-widest mt-1">
+                          GRADE {plan.athleticGrade} · {plan.category} · {plan.difficulty}
+                        </p>
+                      </button>
+                      <span className={cn(
+                        'font-mono text-[10px] uppercase tracking-widest shrink-0',
+                        plan.hiddenForReview ? 'text-red-500' : plan.isPublic ? 'text-green-500' : 'text-[#525252]'
+                      )}>
+                        {plan.hiddenForReview ? 'IN REVIEW' : plan.isPublic ? 'PUBLIC' : 'PRIVATE'}
+                      </span>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 mt-4">
+                      <div className="border border-white/10 p-3">
+                        <p className="text-2xl font-black text-white">{plan.likes}</p>
+                        <p className="font-mono text-[9px] text-[#525252] uppercase tracking-widest">LIKES · +{plan.likesThisWeek} THIS WEEK</p>
+                      </div>
+                      <div className="border border-white/10 p-3">
+                        <p className="text-2xl font-black text-white">{plan.copies}</p>
+                        <p className="font-mono text-[9px] text-[#525252] uppercase tracking-widest">COPIES · +{plan.copiesThisWeek} THIS WEEK</p>
+                      </div>
+                    </div>
+                    <div className="flex gap-4 mt-3">
+                      <button
+                        onClick={() => userId && setVisibility({ userId, submittedPlanId: plan._id, isPublic: !plan.isPublic })}
+                        className="font-mono text-[10px] text-white/60 uppercase tracking-widest"
+                      >
+                        {plan.isPublic ? 'MAKE PRIVATE' : 'MAKE PUBLIC'}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(plan._id)}
+                        className="font-mono text-[10px] text-[#525252] hover:text-red-500 uppercase tracking-widest"
+                      >
+                        REMOVE
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      {userId && (
+        <MarketplacePlanSheet
+          submittedPlanId={openPlanId}
+          onClose={() => setOpenPlanId(null)}
+          userId={userId}
+        />
+      )}
+    </div>
+  );
+}
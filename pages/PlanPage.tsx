@@ -1,10 +1,13 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { WorkoutPlan, PlanDay } from '../types';
-import { Share2 } from 'lucide-react';
+import { WorkoutPlan, PlanDay, WorkoutLog } from '../types';
+import { Share2, History, CalendarDays, TrendingUp, Store } from 'lucide-react';
 import { notify } from '../components/layout/Toast';
 import { cn } from '../lib/utils';
 import SharePlanDialog from '../components/SharePlanDialog';
+import PlanHistorySheet from '../components/PlanHistorySheet';
+import CalendarExportSheet from '../components/CalendarExportSheet';
+import WeeklyProgressionSheet from '../components/WeeklyProgressionSheet';
 import { useUser } from '@clerk/clerk-react';
 import { usePullToRefresh } from '../hooks/usePullToRefresh';
 import { PullToRefreshIndicator } from '../components/ui/PullToRefreshIndicator';
@@ -17,7 +20,9 @@ import { Id } from '../convex/_generated/dataModel';
 
 interface PlanPageProps {
   activePlan: WorkoutPlan;
+  logs: WorkoutLog[];
   onStartSession: (session: PlanDay) => void;
+  onOpenMarketplace?: () => void;
 }
 
 // Helpers
@@ -30,12 +35,15 @@ const getExercisesFromDay = (day: PlanDay): any[] => {
 
 const hasTwoADaySessions = (day: PlanDay): boolean => !!(day as any).sessions && (day as any).sessions.length > 0;
 
-export default function PlanPage({ activePlan, onStartSession }: PlanPageProps) {
+export default function PlanPage({ activePlan, logs, onStartSession, onOpenMarketplace }: PlanPageProps) {
   const { t } = useTranslation();
   const { user } = useUser();
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [weekStart, setWeekStart] = useState<Date>(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
   const [showShareDialog, setShowShareDialog] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showCalendarExport, setShowCalendarExport] = useState(false);
+  const [showProgression, setShowProgression] = useState(false);
 
   const weeklyPlan = Array.isArray(activePlan?.weeklyPlan) ? activePlan.weeklyPlan : [];
   const { pullDistance, isRefreshing } = usePullToRefresh({ onRefresh: async () => await new Promise(r => setTimeout(r, 500)) });
@@ -81,12 +89,47 @@ export default function PlanPage({ activePlan, onStartSession }: PlanPageProps)
             PLAN
           </h1>
         </div>
-        <button
-          onClick={() => setShowShareDialog(true)}
-          className="w-10 h-10 border border-white/20 flex items-center justify-center hover:bg-white hover:text-black transition-colors"
-        >
-          <Share2 className="w-5 h-5" />
-        </button>
+        <div className="flex gap-2">
+          {/* Periodized plans get their next week from the background generator */}
+          {!activePlan.periodization && (
+            <button
+              onClick={() => setShowProgression(true)}
+              aria-label="Progress to next week"
+              className="w-10 h-10 border border-white/20 flex items-center justify-center hover:bg-white hover:text-black transition-colors"
+            >
+              <TrendingUp className="w-5 h-5" />
+            </button>
+          )}
+          <button
+            onClick={() => setShowCalendarExport(true)}
+            aria-label="Export to calendar"
+            className="w-10 h-10 border border-white/20 flex items-center justify-center hover:bg-white hover:text-black transition-colors"
+          >
+            <CalendarDays className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setShowHistory(true)}
+            aria-label="Plan history"
+            className="w-10 h-10 border border-white/20 flex items-center justify-center hover:bg-white hover:text-black transition-colors"
+          >
+            <History className="w-5 h-5" />
+          </button>
+          {onOpenMarketplace && (
+            <button
+              onClick={onOpenMarketplace}
+              aria-label="Community plans"
+              className="w-10 h-10 border border-white/20 flex items-center justify-center hover:bg-white hover:text-black transition-colors"
+            >
+              <Store className="w-5 h-5" />
+            </button>
+          )}
+          <button
+            onClick={() => setShowShareDialog(true)}
+            className="w-10 h-10 border border-white/20 flex items-center justify-center hover:bg-white hover:text-black transition-colors"
+          >
+            <Share2 className="w-5 h-5" />
+          </button>
+        </div>
       </header>
 
       <div className="flex-1 overflow-y-auto px-6 py-8">
@@ -176,6 +219,31 @@ export default function PlanPage({ activePlan, onStartSession }: PlanPageProps)
         planName={activePlan.name}
         userId={user?.id || ''}
       />
+
+      {/* Revision History */}
+      <PlanHistorySheet
+        isOpen={showHistory}
+        onClose={() => setShowHistory(false)}
+        planId={activePlan._id as Id<"workoutPlans">}
+        userId={user?.id || ''}
+      />
+
+      {/* Calendar Export */}
+      <CalendarExportSheet
+        isOpen={showCalendarExport}
+        onClose={() => setShowCalendarExport(false)}
+        plan={activePlan}
+        userId={user?.id || ''}
+      />
+
+      {/* Weekly Progression */}
+      <WeeklyProgressionSheet
+        isOpen={showProgression}
+        onClose={() => setShowProgression(false)}
+        plan={activePlan}
+        logs={logs}
+        userId={user?.id || ''}
+      />
     </div>
   );
 }
@@ -11,6 +11,9 @@ import StreakCounter from '../components/StreakCounter';
 import PhotoCaptureDialog from '../components/PhotoCaptureDialog';
 import ProgressPhotoCard from '../components/ProgressPhotoCard';
 import PhotoTimeline from '../components/PhotoTimeline';
+import HistoryImportSheet from '../components/HistoryImportSheet';
+import ExportCenterSheet from '../components/ExportCenterSheet';
+import CoachAccessSheet from '../components/CoachAccessSheet';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '../convex/_generated/api';
 import { Card, CardHeader, CardContent } from '../components/ui/card';
@@ -21,7 +24,8 @@ import { PullToRefreshIndicator } from '../components/ui/PullToRefreshIndicator'
 import { ProgressChart } from '../components/ui/ProgressChart';
 import { VolumeChart } from '../components/ui/VolumeChart';
 import { PRHistoryChart } from '../components/ui/PRHistoryChart';
-import { getAllPRs } from '../services/prService';
+import { getPRHistory, describePR } from '../services/prService';
+import useSettings from '../hooks/useSettings';
 
 /* ═══════════════════════════════════════════════════════════════
    PROFILE PAGE - Premium iOS Typography
@@ -42,9 +46,10 @@ interface ProfilePageProps {
   userProfile: UserProfile | null;
   onUpdateProfile: (data: Partial<UserProfile>) => void;
   onCreateNewPlan?: () => void;
+  onOpenCoachMode?: () => void;
 }
 
-export default function ProfilePage({ logs, userProfile, onUpdateProfile, onCreateNewPlan }: ProfilePageProps) {
+export default function ProfilePage({ logs, userProfile, onUpdateProfile, onCreateNewPlan, onOpenCoachMode }: ProfilePageProps) {
   const { t } = useTranslation();
   const [isEditingMetrics, setIsEditingMetrics] = useState(false);
   const [isPhotoCaptureOpen, setIsPhotoCaptureOpen] = useState(false);
@@ -52,6 +57,9 @@ export default function ProfilePage({ logs, userProfile, onUpdateProfile, onCrea
   const [showTrainingPrefs, setShowTrainingPrefs] = useState(false);
   const [showInjuryProfile, setShowInjuryProfile] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [isHistoryImportOpen, setIsHistoryImportOpen] = useState(false);
+  const [isExportCenterOpen, setIsExportCenterOpen] = useState(false);
+  const [isCoachAccessOpen, setIsCoachAccessOpen] = useState(false);
   const [mounted, setMounted] = useState(false);
   const { signOut } = useClerk();
   const { user } = useUser();
@@ -137,15 +145,20 @@ export default function ProfilePage({ logs, userProfile, onUpdateProfile, onCrea
     }));
   }, [logs]);
 
+  const { settings, update: updateSettings } = useSettings();
+  const oneRepMaxFormula = settings.oneRepMaxFormula;
+
+  // e1RM progression, so a heavier set of 8 counts even without a new top weight
   const prHistory = useMemo(() => {
-    const prs = getAllPRs(logs);
-    return prs.map(pr => ({
+    return getPRHistory(logs, oneRepMaxFormula).map(pr => ({
       date: pr.date || new Date().toISOString(),
       exerciseName: pr.exercise_name,
       weight: pr.weight,
-      reps: pr.reps
+      reps: pr.reps,
+      label: describePR(pr),
+      improvement: pr.previousValue !== undefined ? pr.value - pr.previousValue : undefined,
     }));
-  }, [logs]);
+  }, [logs, oneRepMaxFormula]);
 
   return (
     <>
@@ -527,7 +540,29 @@ export default function ProfilePage({ logs, userProfile, onUpdateProfile, onCrea
           {logs.length > 0 && (
             <div className="space-y-4">
               <VolumeChart data={volumeData} />
-              <PRHistoryChart records={prHistory} />
+              <PRHistoryChart records={prHistory} title="Estimated 1RM Records" />
+              <div className="flex items-center justify-between px-1">
+                <span className="text-[11px] uppercase tracking-wider text-white/50 font-bold">
+                  1RM Formula
+                </span>
+                <div className="flex gap-2">
+                  {(['epley', 'brzycki'] as const).map(formula => (
+                    <button
+                      key={formula}
+                      onClick={() => updateSettings({ oneRepMaxFormula: formula })}
+                      className={cn(
+                        "px-3 py-1 rounded-full text-[11px] font-bold uppercase tracking-wider",
+                        "transition-all duration-200 active:scale-[0.98]",
+                        oneRepMaxFormula === formula
+                          ? "bg-[#E54D42] text-white"
+                          : "bg-white/[0.05] text-white/50 border border-white/10"
+                      )}
+                    >
+                      {formula}
+                    </button>
+                  ))}
+                </div>
+              </div>
             </div>
           )}
 
@@ -766,6 +801,20 @@ export default function ProfilePage({ logs, userProfile, onUpdateProfile, onCrea
               >
                 {t('profile.createNewPlan')}
               </button>
+              <button
+                onClick={() => setIsHistoryImportOpen(true)}
+                className={cn(
+                  "w-full flex items-center justify-between mt-2",
+                  "px-4 py-4 rounded-xl",
+                  "bg-white/[0.05] border border-white/10",
+                  "active:bg-white/10 transition-all duration-200"
+                )}
+              >
+                <span className="text-[14px] font-medium text-white">
+                  Import History (Strong, Hevy, CSV)
+                </span>
+                <span className="text-white/30 text-lg">›</span>
+              </button>
             </div>
 
             {/* Preferences */}
@@ -801,6 +850,7 @@ export default function ProfilePage({ logs, userProfile, onUpdateProfile, onCrea
                   <span className="text-white/30 text-lg">›</span>
                 </button>
                 <button
+                  onClick={() => setIsExportCenterOpen(true)}
                   className={cn(
                     "w-full flex items-center justify-between",
                     "px-4 py-4 rounded-xl",
@@ -813,6 +863,36 @@ export default function ProfilePage({ logs, userProfile, onUpdateProfile, onCrea
                   </span>
                   <span className="text-white/30 text-lg">›</span>
                 </button>
+                <button
+                  onClick={() => setIsCoachAccessOpen(true)}
+                  className={cn(
+                    "w-full flex items-center justify-between",
+                    "px-4 py-4 rounded-xl",
+                    "bg-white/[0.05] border border-white/10",
+                    "active:bg-white/10 transition-all duration-200"
+                  )}
+                >
+                  <span className="text-[14px] font-medium text-white">
+                    Coaching (who can see your data)
+                  </span>
+                  <span className="text-white/30 text-lg">›</span>
+                </button>
+                {onOpenCoachMode && (
+                  <button
+                    onClick={onOpenCoachMode}
+                    className={cn(
+                      "w-full flex items-center justify-between",
+                      "px-4 py-4 rounded-xl",
+                      "bg-white/[0.05] border border-white/10",
+                      "active:bg-white/10 transition-all duration-200"
+                    )}
+                  >
+                    <span className="text-[14px] font-medium text-white">
+                      Coach Mode (manage athletes)
+                    </span>
+                    <span className="text-white/30 text-lg">›</span>
+                  </button>
+                )}
 
                 {/* Delete Account - Danger Zone */}
                 <div className="pt-3">
@@ -848,6 +928,33 @@ export default function ProfilePage({ logs, userProfile, onUpdateProfile, onCrea
           onConfirm={handleDeleteAccount}
         />
 
+        {/* Workout History Import */}
+        {userId && (
+          <HistoryImportSheet
+            userId={userId}
+            isOpen={isHistoryImportOpen}
+            onClose={() => setIsHistoryImportOpen(false)}
+          />
+        )}
+
+        {/* Export Center */}
+        {userId && (
+          <ExportCenterSheet
+            userId={userId}
+            isOpen={isExportCenterOpen}
+            onClose={() => setIsExportCenterOpen(false)}
+          />
+        )}
+
+        {/* Coach Access */}
+        {userId && (
+          <CoachAccessSheet
+            userId={userId}
+            isOpen={isCoachAccessOpen}
+            onClose={() => setIsCoachAccessOpen(false)}
+          />
+        )}
+
         {/* Photo Capture Dialog */}
         {userId && (
           <PhotoCaptureDialog
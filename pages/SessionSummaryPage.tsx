@@ -1,5 +1,5 @@
 import React from 'react';
-import { WorkoutLog, UserProfile } from '../types';
+import { WorkoutLog, UserProfile, PRAchievement } from '../types';
 import ZenVictoryScreen from '../components/ZenVictoryScreen';
 
 interface SessionSummaryPageProps {
@@ -7,15 +7,17 @@ interface SessionSummaryPageProps {
   onDone: () => void;
   allLogs?: WorkoutLog[];
   userProfile?: UserProfile | null;
+  personalRecords?: PRAchievement[];
 }
 
-export default function SessionSummaryPage({ sessionLog, onDone, allLogs, userProfile }: SessionSummaryPageProps) {
+export default function SessionSummaryPage({ sessionLog, onDone, allLogs, userProfile, personalRecords }: SessionSummaryPageProps) {
   return (
     <ZenVictoryScreen
       sessionLog={sessionLog}
       onDone={onDone}
       allLogs={allLogs}
       userProfile={userProfile}
+      personalRecords={personalRecords}
     />
   );
 }
@@ -1,8 +1,11 @@
 import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
+import { useUser } from '@clerk/clerk-react';
 import { WorkoutPlan, PlanDay, DailyRoutine, UserProfile, WorkoutSession } from '../types';
 import { cn } from '../lib/utils';
 import { useHaptic } from '../hooks/useAnimations';
 import { usePageBackground, BackgroundOverlay } from '../hooks/usePageBackground';
+import { SessionCheckpoint, getDeviceId } from '../services/sessionCheckpointService';
+import CardioImportSheet from '../components/CardioImportSheet';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // ZEN HOME PAGE - Editorial Noir (Brutalist Edition)
@@ -15,6 +18,9 @@ interface ZenHomePageProps {
   onStartSession: (session: SessionType) => void;
   onOpenChat: () => void;
   userProfile?: UserProfile | null;
+  resumableSession?: SessionCheckpoint | null;
+  onResumeSession?: () => void;
+  onDiscardResumableSession?: () => void;
 }
 
 // NOIR UTILS
@@ -24,9 +30,11 @@ const isCardioExercise = (name: string): boolean => {
   return keywords.some(k => name.toLowerCase().includes(k));
 };
 
-export default function ZenHomePage({ plan, onStartSession, userProfile }: ZenHomePageProps) {
+export default function ZenHomePage({ plan, onStartSession, userProfile, resumableSession, onResumeSession, onDiscardResumableSession }: ZenHomePageProps) {
   const haptic = useHaptic();
+  const { user } = useUser();
   const [mounted, setMounted] = useState(false);
+  const [showCardioImport, setShowCardioImport] = useState(false);
   const { backgroundStyles, hasBackground } = usePageBackground('home');
 
   useEffect(() => {
@@ -170,6 +178,37 @@ export default function ZenHomePage({ plan, onStartSession, userProfile }: ZenHo
 
       {/* MAIN CONTENT */}
       <main className="flex-1 overflow-y-auto px-6 py-8">
+        {/* RESUME: Unfinished workout (app killed / other device) */}
+        {resumableSession && onResumeSession && (
+          <div className="mb-8 border border-white/20 p-4 animate-fade-in-up">
+            <p className="font-mono text-[10px] text-[#525252] tracking-widest uppercase mb-2">
+              UNFINISHED SESSION{resumableSession.deviceId !== getDeviceId() ? ' · OTHER DEVICE' : ''}
+            </p>
+            <p className="text-white font-bold text-lg leading-tight">
+              Resume workout from {new Date(resumableSession.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </p>
+            <p className="font-mono text-xs text-[#A3A3A3] mt-1">
+              {formatFocusName(resumableSession.session.focus || 'WORKOUT').toUpperCase()} · {resumableSession.exercisesDone} of {resumableSession.exercisesTotal} exercises done
+            </p>
+            <div className="flex gap-3 mt-4">
+              <button
+                onClick={() => { haptic.medium(); onResumeSession(); }}
+                className="flex-1 bg-white text-black font-black uppercase tracking-wider text-sm py-3 active:scale-[0.98] transition-transform"
+              >
+                RESUME
+              </button>
+              {onDiscardResumableSession && (
+                <button
+                  onClick={() => { haptic.light(); onDiscardResumableSession(); }}
+                  className="px-4 border border-white/20 text-white/60 font-mono text-xs uppercase tracking-widest hover:text-white"
+                >
+                  DISCARD
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
         {hasWorkout && workoutInfo ? (
           <div className="animate-fade-in-up">
             {/* HERO CARD: Current Focus */}
@@ -250,6 +289,15 @@ export default function ZenHomePage({ plan, onStartSession, userProfile }: ZenHo
               ))}
             </div>
 
+            {user && (
+              <button
+                onClick={() => setShowCardioImport(true)}
+                className="w-full mt-4 py-3 border border-white/10 font-mono text-[10px] text-[#737373] uppercase tracking-widest hover:text-white hover:border-white/30 transition-colors"
+              >
+                UPLOAD CARDIO FILE · FIT / TCX / GPX
+              </button>
+            )}
+
             {/* START BUTTON (Mobile/Bottom) */}
             <div className="h-24" /> {/* Spacer */}
             <button
@@ -267,9 +315,26 @@ export default function ZenHomePage({ plan, onStartSession, userProfile }: ZenHo
             </div>
             <h2 className="text-2xl font-black text-white uppercase tracking-tight mb-2">RECOVERY</h2>
             <p className="font-mono text-xs text-[#737373] uppercase tracking-widest">SYSTEM RECHARGE IN PROGRESS</p>
+            {user && (
+              <button
+                onClick={() => setShowCardioImport(true)}
+                className="mt-8 px-6 py-3 border border-white/20 font-mono text-[10px] text-white uppercase tracking-widest"
+              >
+                UPLOAD CARDIO FILE
+              </button>
+            )}
           </div>
         )}
       </main>
+
+      {user && (
+        <CardioImportSheet
+          isOpen={showCardioImport}
+          onClose={() => setShowCardioImport(false)}
+          userId={user.id}
+          day={activeDayPlan}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,193 @@
+/**
+ * Autoregulation Service for REBLD Workout App
+ *
+ * RPE/RIR-based load prescription: turns the plan's target RPE and the
+ * lifter's reported RPE into the next set's weight and the next session's
+ * starting weight. Uses the RPE → %1RM chart popularised by RTS
+ * (reps + reps-in-reserve ≈ reps to failure).
+ */
+
+import type { PlanExercise, WorkoutLog, LoggedSetSRW } from '../types';
+import { estimateOneRepMaxFromRpe, getPercentOfOneRepMax } from '../convex/utils/oneRepMax';
+
+export { estimateOneRepMaxFromRpe, getPercentOfOneRepMax };
+
+// Don't chase small RPE misses; only adjust when off by at least half a point
+const RPE_TOLERANCE = 0.5;
+
+// Each RPE point of miss ≈ 4% load (one rep in reserve ≈ 3–4% 1RM)
+const LOAD_PER_RPE_POINT = 0.04;
+
+// Cap live adjustments so one bad set doesn't swing the load wildly
+const MAX_SET_ADJUSTMENT = 0.1;
+
+export type LoadAdjustment = 'increase' | 'hold' | 'decrease';
+
+export interface LoadSuggestion {
+  weight: number;
+  reps: number;
+  adjustment: LoadAdjustment;
+  reason: string;
+  targetRpe: number | null;
+}
+
+/**
+ * Per-user, per-exercise fatigue model (from getExerciseFatigueProfile)
+ * fatigueRatio < 1 means recent RPE-based e1RM is below the lifter's best
+ */
+export interface FatigueProfile {
+  estimatedOneRepMax: number | null;
+  recentOneRepMax: number | null;
+  fatigueRatio: number;
+  averageRpe: number | null;
+  rpeTrend: number; // Positive = RPE creeping up at similar loads
+  samples: number;
+  lastWeight?: number | null;
+  lastReps?: number | null;
+}
+
+/**
+ * Parse the plan's RPE field ("8", "7-8", "RPE 8", "@8") into a number
+ */
+export function parseTargetRpe(rpe: PlanExercise['rpe'] | number | undefined): number | null {
+  if (rpe === null || rpe === undefined) return null;
+  if (typeof rpe === 'number') return rpe >= 1 && rpe <= 10 ? rpe : null;
+
+  const numbers = String(rpe).match(/\d+(\.\d+)?/g)?.map(Number).filter(n => n >= 1 && n <= 10) || [];
+  if (numbers.length === 0) return null;
+
+  // Ranges like "7-8" use the midpoint
+  const value = numbers.length > 1 ? (numbers[0] + numbers[1]) / 2 : numbers[0];
+  return Math.round(value * 2) / 2;
+}
+
+/**
+ * Parse target reps ("8-10", "12", "AMRAP") into a single number, favouring the low end
+ */
+export function parseTargetReps(targetReps: string | number | null | undefined, fallback = 10): number {
+  if (typeof targetReps === 'number') return targetReps > 0 ? targetReps : fallback;
+  const match = String(targetReps ?? '').match(/\d+/);
+  return match ? Number(match[0]) : fallback;
+}
+
+/**
+ * Round to the nearest plate jump (2.5kg, or 1.25kg under 20kg for DBs/isolation)
+ */
+export function roundToIncrement(weight: number): number {
+  const increment = weight < 20 ? 1.25 : 2.5;
+  return Math.max(0, Math.round(weight / increment) * increment);
+}
+
+/**
+ * Next set's load from the last set's RPE vs the plan's target RPE
+ */
+export function suggestNextSetLoad(params: {
+  lastWeight: number;
+  lastReps: number;
+  lastRpe: number | null | undefined;
+  targetReps: number;
+  targetRpe: number | null;
+}): LoadSuggestion | null {
+  const { lastWeight, lastReps, lastRpe, targetReps, targetRpe } = params;
+  if (!lastWeight || !lastReps || !lastRpe || !targetRpe) return null;
+
+  const rpeMiss = targetRpe - lastRpe; // Positive = set felt easier than planned
+
+  if (Math.abs(rpeMiss) < RPE_TOLERANCE && lastReps >= targetReps) {
+    return {
+      weight: lastWeight,
+      reps: targetReps,
+      adjustment: 'hold',
+      reason: `On target (RPE ${lastRpe})`,
+      targetRpe,
+    };
+  }
+
+  // Re-derive the load from today's RPE-based e1RM so reps and RPE are both accounted for
+  const todaysMax = estimateOneRepMaxFromRpe(lastWeight, lastReps, lastRpe);
+  const prescribed = todaysMax * getPercentOfOneRepMax(targetReps, targetRpe);
+  const bounded = Math.min(
+    lastWeight * (1 + MAX_SET_ADJUSTMENT),
+    Math.max(lastWeight * (1 - MAX_SET_ADJUSTMENT), prescribed)
+  );
+  const weight = roundToIncrement(bounded);
+  const adjustment: LoadAdjustment = weight > lastWeight ? 'increase' : weight < lastWeight ? 'decrease' : 'hold';
+
+  return {
+    weight,
+    reps: targetReps,
+    adjustment,
+    reason: adjustment === 'increase'
+      ? `RPE ${lastRpe} < target ${targetRpe}`
+      : adjustment === 'decrease'
+        ? `RPE ${lastRpe} > target ${targetRpe}`
+        : `Hold at RPE ${targetRpe}`,
+    targetRpe,
+  };
+}
+
+/**
+ * Next session's starting load from previous sessions' RPE and the fatigue model
+ */
+export function suggestNextSessionLoad(params: {
+  exerciseName: string;
+  allLogs: WorkoutLog[];
+  targetReps: number;
+  targetRpe: number | null;
+  fatigue?: FatigueProfile | null;
+}): LoadSuggestion | null {
+  const { exerciseName, allLogs, targetReps, targetRpe, fatigue } = params;
+
+  const lastLog = allLogs
+    .slice()
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .find(log => log.exercises.some(ex => ex.exercise_name === exerciseName));
+  const exercise = lastLog?.exercises.find(ex => ex.exercise_name === exerciseName);
+  const sets = (exercise?.sets || []).filter(
+    (set): set is LoggedSetSRW => 'weight' in set && 'reps' in set && Number(set.weight) > 0
+  );
+  if (sets.length === 0) return null;
+
+  // Heaviest RPE-rated set is the best signal; fall back to the last set
+  const rated = sets.filter(set => typeof set.rpe === 'number' && set.rpe > 0);
+  const anchor = rated.length > 0
+    ? rated.reduce((best, set) => Number(set.weight) > Number(best.weight) ? set : best)
+    : sets[sets.length - 1];
+  const anchorWeight = Number(anchor.weight);
+  const anchorReps = Number(anchor.reps);
+
+  if (!targetRpe || !anchor.rpe) {
+    return {
+      weight: anchorWeight,
+      reps: targetReps,
+      adjustment: 'hold',
+      reason: 'Last session',
+      targetRpe,
+    };
+  }
+
+  let max = estimateOneRepMaxFromRpe(anchorWeight, anchorReps, anchor.rpe);
+
+  // Accumulated fatigue: scale toward recent capacity; fresh lifter: allow small progression
+  let fatigueNote = '';
+  if (fatigue && fatigue.samples >= 3) {
+    if (fatigue.fatigueRatio < 0.97 || fatigue.rpeTrend > 0.5) {
+      max *= Math.max(0.9, Math.min(fatigue.fatigueRatio, 0.98));
+      fatigueNote = ' · fatigue detected';
+    } else if (fatigue.fatigueRatio >= 1 && fatigue.rpeTrend <= 0) {
+      max *= 1 + LOAD_PER_RPE_POINT / 2;
+      fatigueNote = ' · trending up';
+    }
+  }
+
+  const weight = roundToIncrement(max * getPercentOfOneRepMax(targetReps, targetRpe));
+  const adjustment: LoadAdjustment = weight > anchorWeight ? 'increase' : weight < anchorWeight ? 'decrease' : 'hold';
+
+  return {
+    weight,
+    reps: targetReps,
+    adjustment,
+    reason: `${targetReps} @ RPE ${targetRpe}${fatigueNote}`,
+    targetRpe,
+  };
+}
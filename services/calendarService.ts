@@ -1,73 +1,61 @@
 import { WorkoutPlan } from '../types';
-
-// Helper to format date/time for iCalendar spec (YYYYMMDDTHHMMSSZ)
-const formatIcsDate = (date: Date): string => {
-  return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+import {
+  CalendarTimes,
+  DEFAULT_CALENDAR_TIMES,
+  generateIcsContent as buildIcsContent,
+  IcsExportOptions,
+} from '../convex/utils/icsCalendar';
+
+/**
+ * Calendar Export (iCalendar / .ics)
+ *
+ * Client-side download of the plan. The .ics itself is built by
+ * convex/utils/icsCalendar.ts, the same builder as the subscribable feed.
+ */
+
+export { DEFAULT_CALENDAR_TIMES };
+export type { CalendarTimes };
+
+export interface CalendarExportOptions extends Omit<IcsExportOptions, 'today'> {
+  startDate?: Date; // Defaults to today
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// The device's local date - the download follows the calendar the user is looking at
+const toLocalDate = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const generateIcsContent = (plan: WorkoutPlan, options: CalendarExportOptions = {}): string => {
+  const { startDate, ...icsOptions } = options;
+  return buildIcsContent(
+    { ...plan, _id: plan._id || plan.id || 'plan' },
+    { ...icsOptions, today: toLocalDate(startDate || new Date()) }
+  );
 };
 
-// Helper to escape text for iCalendar spec
-const escapeIcsText = (text: string): string => {
-  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+/**
+ * Trigger a download of the plan as an .ics file
+ */
+export const downloadIcsFile = (plan: WorkoutPlan, options: CalendarExportOptions = {}): void => {
+  const content = generateIcsContent(plan, options);
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${plan.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'rebld-plan'}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
 };
 
-export const generateIcsContent = (plan: WorkoutPlan): string => {
-  const events: string[] = [];
-  const now = new Date();
-  
-  // Find the date of the next Monday
-  const today = new Date();
-  const dayOfWeek = today.getDay(); // Sunday - 0, Monday - 1, ...
-  const daysUntilMonday = (dayOfWeek === 0) ? 1 : (8 - dayOfWeek);
-  const nextMonday = new Date(today);
-  nextMonday.setDate(today.getDate() + daysUntilMonday);
-  nextMonday.setHours(9, 0, 0, 0); // Default workout time to 9 AM
-
-  (plan?.weeklyPlan || []).forEach((day) => {
-    // FIX: Updated logic to check for exercises within the new 'blocks' structure.
-    // Skip rest days
-    if (!day || (day?.blocks || []).flatMap(b => b.exercises).length === 0 || day.focus.toLowerCase().includes('rest')) {
-      return;
-    }
-
-    const eventDate = new Date(nextMonday);
-    // day.day_of_week is 1 for Monday, 7 for Sunday
-    eventDate.setDate(nextMonday.getDate() + (day.day_of_week - 1));
-
-    const startDate = new Date(eventDate);
-    const endDate = new Date(eventDate);
-    endDate.setHours(startDate.getHours() + 1); // Assume 1-hour workouts
-
-    const eventTitle = `REBLD: ${day.focus}`;
-    
-    // FIX: Updated logic to extract exercises from the new 'blocks' structure.
-    const exerciseList = (day?.blocks || [])
-        .flatMap(block => block.exercises)
-        .map(ex => `- ${ex.exercise_name}`)
-        .join('\\n');
-
-    const eventDescription = `Today's focus: ${day.focus}.\\n\\nExercises:\\n${exerciseList}`;
-
-    const event = [
-      'BEGIN:VEVENT',
-      `UID:${Date.now()}${Math.random()}@rebld.app`,
-      `DTSTAMP:${formatIcsDate(now)}`,
-      `DTSTART:${formatIcsDate(startDate)}`,
-      `DTEND:${formatIcsDate(endDate)}`,
-      `SUMMARY:${escapeIcsText(eventTitle)}`,
-      `DESCRIPTION:${escapeIcsText(eventDescription)}`,
-      // Recur weekly
-      'RRULE:FREQ=WEEKLY',
-      'END:VEVENT'
-    ].join('\r\n');
-
-    events.push(event);
-  });
-
-  return [
-    'BEGIN:VCALENDAR',
-    'VERSION:2.0',
-    'PRODID:-//REBLD//Workout Plan//EN',
-    ...events,
-    'END:VCALENDAR'
-  ].join('\r\n');
-};
\ No newline at end of file
+/**
+ * Subscribable feed URL (served by convex/http.ts)
+ * HTTP actions live on the deployment's .convex.site domain.
+ */
+export const getCalendarFeedUrl = (feedToken: string): string | null => {
+  const convexUrl = import.meta.env.VITE_CONVEX_URL;
+  if (!convexUrl) return null;
+  return `${convexUrl.replace(/\.convex\.cloud\/?$/, '.convex.site')}/calendar/${feedToken}.ics`;
+};
@@ -0,0 +1,454 @@
+/**
+ * Cardio File Parsing
+ *
+ * Reads FIT, TCX and GPX files on the device (nothing is uploaded raw) and
+ * summarises them for `cardioImport.importCardioActivity`: distance, duration,
+ * per-km splits, average/max HR and elevation gain.
+ */
+
+import { CardioActivity, CardioFileSource, CardioSplit, PlanDay, PlanExercise } from '../types';
+
+interface TrackPoint {
+  time: number; // ms since epoch
+  distance: number | null; // cumulative metres when the device recorded it
+  lat: number | null;
+  lon: number | null;
+  ele: number | null;
+  hr: number | null;
+}
+
+// Totals the file states directly (FIT session / TCX laps) win over recomputed ones
+interface FileTotals {
+  sport: string;
+  distance_m: number | null;
+  duration_s: number | null;
+  avg_hr: number | null;
+  max_hr: number | null;
+  elevation_gain_m: number | null;
+}
+
+const EARTH_RADIUS_M = 6371000;
+// Ignore GPS/barometer jitter below this when summing climb
+const ELEVATION_NOISE_M = 2;
+
+export const CARDIO_TEMPLATE_TYPES = ['distance_time', 'sets_distance_rest', 'duration_only'];
+
+const haversine = (a: TrackPoint, b: TrackPoint): number => {
+  if (a.lat === null || a.lon === null || b.lat === null || b.lon === null) return 0;
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+};
+
+const normalizeSport = (sport: string | null | undefined): string => {
+  const lower = (sport || '').toLowerCase();
+  if (/run|jog/.test(lower)) return 'running';
+  if (/bik|cycl|ride/.test(lower)) return 'cycling';
+  if (/walk/.test(lower)) return 'walking';
+  if (/hik/.test(lower)) return 'hiking';
+  if (/row/.test(lower)) return 'rowing';
+  if (/swim/.test(lower)) return 'swimming';
+  return 'other';
+};
+
+// ═══════════════════════════════════════════════════════════
+// XML formats (GPX, TCX)
+// ═══════════════════════════════════════════════════════════
+
+const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid XML');
+  }
+  return doc;
+};
+
+// Namespace-agnostic lookups (gpxtpx:hr, ns3:TPX, ...)
+const childrenByLocalName = (el: Element | Document, name: string): Element[] =>
+  Array.from(el.getElementsByTagName('*')).filter(node => node.localName === name);
+
+const firstText = (el: Element, name: string): string | null =>
+  childrenByLocalName(el, name)[0]?.textContent?.trim() || null;
+
+const toNumberOrNull = (value: string | null): number | null => {
+  if (value === null) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+function parseGpx(text: string): { points: TrackPoint[]; totals: FileTotals } {
+  const doc = parseXml(text);
+  const points = childrenByLocalName(doc, 'trkpt').map(pt => ({
+    time: Date.parse(firstText(pt, 'time') || ''),
+    distance: null,
+    lat: toNumberOrNull(pt.getAttribute('lat')),
+    lon: toNumberOrNull(pt.getAttribute('lon')),
+    ele: toNumberOrNull(firstText(pt, 'ele')),
+    hr: toNumberOrNull(firstText(pt, 'hr')),
+  })).filter(p => !isNaN(p.time));
+
+  const track = childrenByLocalName(doc, 'trk')[0];
+  return {
+    points,
+    totals: {
+      sport: normalizeSport(track ? firstText(track, 'type') || firstText(track, 'name') : null),
+      distance_m: null,
+      duration_s: null,
+      avg_hr: null,
+      max_hr: null,
+      elevation_gain_m: null,
+    },
+  };
+}
+
+function parseTcx(text: string): { points: TrackPoint[]; totals: FileTotals } {
+  const doc = parseXml(text);
+  const activity = childrenByLocalName(doc, 'Activity')[0];
+
+  const points = childrenByLocalName(doc, 'Trackpoint').map(tp => {
+    const position = childrenByLocalName(tp, 'Position')[0];
+    const heartRate = childrenByLocalName(tp, 'HeartRateBpm')[0];
+    return {
+      time: Date.parse(firstText(tp, 'Time') || ''),
+      distance: toNumberOrNull(firstText(tp, 'DistanceMeters')),
+      lat: position ? toNumberOrNull(firstText(position, 'LatitudeDegrees')) : null,
+      lon: position ? toNumberOrNull(firstText(position, 'LongitudeDegrees')) : null,
+      ele: toNumberOrNull(firstText(tp, 'AltitudeMeters')),
+      hr: heartRate ? toNumberOrNull(firstText(heartRate, 'Value')) : null,
+    };
+  }).filter(p => !isNaN(p.time));
+
+  // Lap summaries hold the device's own totals
+  const laps = childrenByLocalName(doc, 'Lap');
+  const sumLaps = (name: string) => {
+    const values = laps.map(lap => toNumberOrNull(
+      Array.from(lap.children).find(c => c.localName === name)?.textContent?.trim() || null
+    ));
+    return values.every(v => v !== null) && values.length > 0 ? values.reduce((s, v) => s + (v as number), 0) : null;
+  };
+
+  return {
+    points,
+    totals: {
+      sport: normalizeSport(activity?.getAttribute('Sport')),
+      distance_m: sumLaps('DistanceMeters'),
+      duration_s: sumLaps('TotalTimeSeconds'),
+      avg_hr: null,
+      max_hr: null,
+      elevation_gain_m: null,
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════
+// FIT (binary)
+// ═══════════════════════════════════════════════════════════
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_MS = 631065600000;
+const FIT_SEMICIRCLE_TO_DEG = 180 / 2 ** 31;
+const FIT_MESG_SESSION = 18;
+const FIT_MESG_RECORD = 20;
+const FIT_SPORTS: Record<number, string> = { 1: 'running', 2: 'cycling', 5: 'swimming', 11: 'walking', 15: 'rowing', 17: 'hiking' };
+
+interface FitFieldDef { num: number; size: number; baseType: number }
+interface FitMessageDef { littleEndian: boolean; globalNum: number; fields: FitFieldDef[]; devSize: number }
+
+// Returns null for the base type's "invalid" marker
+function readFitValue(view: DataView, offset: number, field: FitFieldDef, littleEndian: boolean): number | null {
+  switch (field.baseType & 0x1f) {
+    case 0: case 2: case 13: { // enum, uint8, byte
+      if (field.size !== 1) return null;
+      const v = view.getUint8(offset);
+      return v === 0xff ? null : v;
+    }
+    case 1: {
+      if (field.size !== 1) return null;
+      const v = view.getInt8(offset);
+      return v === 0x7f ? null : v;
+    }
+    case 10: {
+      if (field.size !== 1) return null;
+      const v = view.getUint8(offset);
+      return v === 0 ? null : v;
+    }
+    case 3: {
+      if (field.size !== 2) return null;
+      const v = view.getInt16(offset, littleEndian);
+      return v === 0x7fff ? null : v;
+    }
+    case 4: case 11: {
+      if (field.size !== 2) return null;
+      const v = view.getUint16(offset, littleEndian);
+      return v === 0xffff || (field.baseType & 0x1f) === 11 && v === 0 ? null : v;
+    }
+    case 5: {
+      if (field.size !== 4) return null;
+      const v = view.getInt32(offset, littleEndian);
+      return v === 0x7fffffff ? null : v;
+    }
+    case 6: case 12: {
+      if (field.size !== 4) return null;
+      const v = view.getUint32(offset, littleEndian);
+      return v === 0xffffffff || (field.baseType & 0x1f) === 12 && v === 0 ? null : v;
+    }
+    case 8: {
+      if (field.size !== 4) return null;
+      const v = view.getFloat32(offset, littleEndian);
+      return Number.isFinite(v) ? v : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function parseFit(buffer: ArrayBuffer): { points: TrackPoint[]; totals: FileTotals } {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12) throw new Error('The file is too short to be a FIT file');
+
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+  const signature = String.fromCharCode(view.getUint8(8), view.getUint8(9), view.getUint8(10), view.getUint8(11));
+  if (signature !== '.FIT') throw new Error('Not a FIT file');
+
+  const end = Math.min(buffer.byteLength, headerSize + dataSize);
+  const definitions = new Map<number, FitMessageDef>();
+  const points: TrackPoint[] = [];
+  const totals: FileTotals = { sport: 'other', distance_m: null, duration_s: null, avg_hr: null, max_hr: null, elevation_gain_m: null };
+  let lastTimestamp = 0;
+  let offset = headerSize;
+
+  while (offset < end) {
+    const header = view.getUint8(offset++);
+    let localType: number;
+    let compressedTime: number | null = null;
+
+    if (header & 0x80) {
+      // Compressed timestamp header: 5-bit offset from the last full timestamp
+      localType = (header >> 5) & 0x03;
+      const timeOffset = header & 0x1f;
+      compressedTime = (lastTimestamp & ~0x1f) + timeOffset + (timeOffset < (lastTimestamp & 0x1f) ? 0x20 : 0);
+      lastTimestamp = compressedTime;
+    } else if (header & 0x40) {
+      localType = header & 0x0f;
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const globalNum = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = view.getUint8(offset + 4);
+      offset += 5;
+      const fields: FitFieldDef[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({ num: view.getUint8(offset), size: view.getUint8(offset + 1), baseType: view.getUint8(offset + 2) });
+        offset += 3;
+      }
+      let devSize = 0;
+      if (header & 0x20) {
+        const devCount = view.getUint8(offset++);
+        for (let i = 0; i < devCount; i++) {
+          devSize += view.getUint8(offset + 1);
+          offset += 3;
+        }
+      }
+      definitions.set(localType, { littleEndian, globalNum, fields, devSize });
+      continue;
+    } else {
+      localType = header & 0x0f;
+    }
+
+    const def = definitions.get(localType);
+    if (!def) throw new Error('Corrupt FIT file (data before its definition)');
+
+    const values = new Map<number, number | null>();
+    for (const field of def.fields) {
+      values.set(field.num, readFitValue(view, offset, field, def.littleEndian));
+      offset += field.size;
+    }
+    offset += def.devSize;
+
+    const timestamp = values.get(253) ?? compressedTime;
+    if (values.get(253) != null) lastTimestamp = values.get(253)!;
+
+    if (def.globalNum === FIT_MESG_RECORD && timestamp !== null) {
+      const lat = values.get(0);
+      const lon = values.get(1);
+      const enhancedAltitude = values.get(78);
+      const altitude = values.get(2);
+      const distance = values.get(5);
+      points.push({
+        time: FIT_EPOCH_MS + timestamp * 1000,
+        distance: distance != null ? distance / 100 : null,
+        lat: lat != null ? lat * FIT_SEMICIRCLE_TO_DEG : null,
+        lon: lon != null ? lon * FIT_SEMICIRCLE_TO_DEG : null,
+        ele: enhancedAltitude != null ? enhancedAltitude / 5 - 500 : altitude != null ? altitude / 5 - 500 : null,
+        hr: values.get(3) ?? null,
+      });
+    } else if (def.globalNum === FIT_MESG_SESSION) {
+      const sport = values.get(5);
+      const timerTime = values.get(8) ?? values.get(7);
+      const distance = values.get(9);
+      totals.sport = sport != null ? FIT_SPORTS[sport] || 'other' : totals.sport;
+      totals.duration_s = timerTime != null ? timerTime / 1000 : totals.duration_s;
+      totals.distance_m = distance != null ? distance / 100 : totals.distance_m;
+      totals.avg_hr = values.get(16) ?? totals.avg_hr;
+      totals.max_hr = values.get(17) ?? totals.max_hr;
+      totals.elevation_gain_m = values.get(22) ?? totals.elevation_gain_m;
+    }
+  }
+
+  return { points, totals };
+}
+
+// ═══════════════════════════════════════════════════════════
+// Summary
+// ═══════════════════════════════════════════════════════════
+
+function buildSplits(points: Array<TrackPoint & { cumulative: number }>): CardioSplit[] {
+  const splits: CardioSplit[] = [];
+  if (points.length < 2) return splits;
+
+  let splitStartTime = points[0].time;
+  let splitStartDistance = 0;
+  let hrSum = 0;
+  let hrCount = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const point = points[i];
+    if (point.hr !== null) {
+      hrSum += point.hr;
+      hrCount++;
+    }
+
+    // Interpolate the moment each whole km was crossed
+    while (point.cumulative >= splitStartDistance + 1000 && point.cumulative > prev.cumulative) {
+      const boundary = splitStartDistance + 1000;
+      const fraction = (boundary - prev.cumulative) / (point.cumulative - prev.cumulative);
+      const crossedAt = prev.time + Math.max(0, Math.min(1, fraction)) * (point.time - prev.time);
+      splits.push({
+        distance_m: 1000,
+        duration_s: Math.round((crossedAt - splitStartTime) / 1000),
+        avg_hr: hrCount > 0 ? Math.round(hrSum / hrCount) : null,
+      });
+      splitStartTime = crossedAt;
+      splitStartDistance = boundary;
+      hrSum = 0;
+      hrCount = 0;
+    }
+  }
+
+  const last = points[points.length - 1];
+  const remainder = last.cumulative - splitStartDistance;
+  if (remainder >= 50) {
+    splits.push({
+      distance_m: Math.round(remainder),
+      duration_s: Math.round((last.time - splitStartTime) / 1000),
+      avg_hr: hrCount > 0 ? Math.round(hrSum / hrCount) : null,
+    });
+  }
+
+  return splits;
+}
+
+function summarize(source: CardioFileSource, points: TrackPoint[], totals: FileTotals): CardioActivity {
+  const sorted = [...points].sort((a, b) => a.time - b.time);
+  if (sorted.length === 0 && totals.duration_s === null) {
+    throw new Error('No track data found in the file');
+  }
+
+  // Prefer the device's cumulative distance; fall back to GPS
+  let cumulative = 0;
+  const withDistance = sorted.map((point, i) => {
+    if (point.distance !== null) {
+      cumulative = Math.max(cumulative, point.distance);
+    } else if (i > 0) {
+      cumulative += haversine(sorted[i - 1], point);
+    }
+    return { ...point, cumulative };
+  });
+
+  let climb = 0;
+  let anchor: number | null = null;
+  for (const point of sorted) {
+    if (point.ele === null) continue;
+    if (anchor === null) {
+      anchor = point.ele;
+    } else if (Math.abs(point.ele - anchor) >= ELEVATION_NOISE_M) {
+      if (point.ele > anchor) climb += point.ele - anchor;
+      anchor = point.ele;
+    }
+  }
+
+  const heartRates = sorted.map(p => p.hr).filter((hr): hr is number => hr !== null && hr > 0);
+  const hasElevation = sorted.some(p => p.ele !== null);
+  const trackSeconds = sorted.length > 1 ? (sorted[sorted.length - 1].time - sorted[0].time) / 1000 : 0;
+
+  return {
+    source,
+    sport: totals.sport,
+    startTime: new Date(sorted[0]?.time ?? Date.now()).toISOString(),
+    distance_m: Math.round(totals.distance_m ?? cumulative),
+    duration_s: Math.round(totals.duration_s ?? trackSeconds),
+    avg_hr: totals.avg_hr ?? (heartRates.length > 0 ? Math.round(heartRates.reduce((s, hr) => s + hr, 0) / heartRates.length) : null),
+    max_hr: totals.max_hr ?? (heartRates.length > 0 ? Math.max(...heartRates) : null),
+    elevation_gain_m: totals.elevation_gain_m ?? (hasElevation ? Math.round(climb) : null),
+    splits: buildSplits(withDistance),
+  };
+}
+
+/**
+ * Parse a FIT, TCX or GPX file into an activity summary
+ * Throws with a user-facing message for unsupported or broken files
+ */
+export async function parseCardioFile(file: File): Promise<CardioActivity> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  if (extension === 'fit') {
+    let parsed: ReturnType<typeof parseFit>;
+    try {
+      parsed = parseFit(await file.arrayBuffer());
+    } catch (error) {
+      // DataView reads past the end of a truncated file
+      if (error instanceof RangeError) throw new Error('The FIT file is incomplete or corrupt');
+      throw error;
+    }
+    return summarize('fit', parsed.points, parsed.totals);
+  }
+  if (extension === 'tcx') {
+    const { points, totals } = parseTcx(await file.text());
+    return summarize('tcx', points, totals);
+  }
+  if (extension === 'gpx') {
+    const { points, totals } = parseGpx(await file.text());
+    return summarize('gpx', points, totals);
+  }
+
+  throw new Error('Choose a .fit, .tcx or .gpx file');
+}
+
+/**
+ * Planned cardio exercises for a day (distance/duration templates)
+ */
+export function getPlannedCardioExercises(day: PlanDay | undefined): Array<PlanExercise & { focus: string }> {
+  if (!day) return [];
+  const blocks = day.sessions && day.sessions.length > 0
+    ? day.sessions.flatMap(session => session.blocks || [])
+    : day.blocks || [];
+
+  return blocks
+    .flatMap(block => block.exercises || [])
+    .filter(ex => CARDIO_TEMPLATE_TYPES.includes(ex.metrics_template?.type))
+    .map(ex => ({ ...ex, focus: day.focus }));
+}
+
+export const formatDuration = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.round(seconds % 60);
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}` : `${m}:${String(s).padStart(2, '0')}`;
+};
+
+export const formatPacePerKm = (distanceM: number, durationS: number): string | null => {
+  if (distanceM <= 0 || durationS <= 0) return null;
+  return `${formatDuration(durationS / (distanceM / 1000))}/km`;
+};
@@ -0,0 +1,314 @@
+/**
+ * Data Export
+ *
+ * Turns the `dataExport` reads into the three export center outputs:
+ * - Workout logs as CSV, one row per set. Columns match the generic CSV that
+ *   services/workoutHistoryImportService.ts reads, so an export can be
+ *   re-imported.
+ * - A versioned REBLD JSON bundle (plans, logs, health metrics, PRs)
+ * - The active plan as printable HTML (the browser's print dialog saves PDF)
+ */
+
+import { WorkoutPlan, PlanDay, PlanExercise, WorkoutBlock } from '../types';
+
+export const EXPORT_FORMAT = 'rebld-export';
+export const EXPORT_FORMAT_VERSION = 1;
+
+const DAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const LOG_CSV_COLUMNS = [
+  'date', 'workout', 'exercise', 'set', 'weight', 'unit', 'reps', 'rpe',
+  'duration_seconds', 'distance_m', 'duration_minutes',
+];
+
+interface ExportedLog {
+  date: string;
+  focus: string;
+  durationMinutes: number | null;
+  exercises: Array<{ exercise_name: string; sets: Array<Record<string, unknown>> }>;
+}
+
+// Convex documents carry userId/_creationTime; the bundle keeps ids so records can reference each other
+type ExportDoc = { userId?: string; _creationTime?: number } & Record<string, unknown>;
+
+export interface ExportData {
+  activePlanId: string | null;
+  plans: ExportDoc[];
+  workoutLogs: ExportDoc[];
+  healthMetrics: ExportDoc[];
+  personalRecords: ExportDoc[];
+}
+
+export interface ExportPage<T> {
+  page: T[];
+  isDone: boolean;
+  continueCursor: string;
+}
+
+/**
+ * Read a paginated export query (logs, health metrics) to the end
+ */
+export async function collectPages<P extends ExportPage<unknown>>(
+  fetchPage: (cursor: string | undefined) => Promise<P>
+): Promise<P['page'][number][]> {
+  const items: P['page'][number][] = [];
+  let cursor: string | undefined;
+  for (;;) {
+    const result = await fetchPage(cursor);
+    items.push(...result.page);
+    if (result.isDone) return items;
+    cursor = result.continueCursor;
+  }
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Local "YYYY-MM-DD HH:MM" - what spreadsheets and the importer both read
+const formatLocalDateTime = (iso: string): string => {
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return iso;
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const escapeCsvField = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Workout logs as CSV, one row per set (weights in kg)
+ */
+export function logsToCsv(logs: ExportedLog[]): string {
+  const rows = [LOG_CSV_COLUMNS.join(',')];
+
+  for (const log of logs) {
+    const date = formatLocalDateTime(log.date);
+    for (const exercise of log.exercises) {
+      for (const set of exercise.sets) {
+        const hasLoad = 'reps' in set || 'weight' in set;
+        rows.push([
+          date,
+          log.focus,
+          exercise.exercise_name,
+          set.set,
+          set.weight ?? '',
+          hasLoad ? 'kg' : '',
+          set.reps ?? '',
+          set.rpe ?? '',
+          set.duration_s ?? '',
+          set.distance_m ?? '',
+          log.durationMinutes ?? '',
+        ].map(escapeCsvField).join(','));
+      }
+    }
+  }
+
+  return rows.join('\r\n') + '\r\n';
+}
+
+const stripOwner = ({ userId, _creationTime, ...doc }: ExportDoc) => doc;
+
+/**
+ * Versioned JSON bundle of everything the user owns
+ */
+export function buildExportBundle(data: ExportData) {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    activePlanId: data.activePlanId,
+    plans: data.plans.map(stripOwner),
+    workoutLogs: data.workoutLogs.map(stripOwner),
+    healthMetrics: data.healthMetrics.map(stripOwner),
+    personalRecords: data.personalRecords.map(stripOwner),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════
+// Printable plan
+// ═══════════════════════════════════════════════════════════
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Target line for one exercise ("4 × 6-8 @ 75% 1RM · rest 120s · RPE 8")
+ */
+export function describeExerciseTarget(exercise: PlanExercise): string {
+  const t = exercise.metrics_template as PlanExercise['metrics_template'] & Record<string, any>;
+  const sets = t.target_sets ?? t.sets;
+  const reps = t.reps_per_set?.length ? t.reps_per_set.join('/') : t.target_reps;
+  const parts: string[] = [];
+
+  switch (t.type) {
+    case 'sets_duration':
+      parts.push(`${sets ?? 1} × ${t.target_duration_s ?? t.duration_seconds ?? '?'}s`);
+      break;
+    case 'sets_distance_rest':
+      parts.push(`${sets ?? 1} × ${t.target_distance_m ?? '?'}m`);
+      if (t.target_rest_s) parts.push(`rest ${t.target_rest_s}s`);
+      break;
+    case 'sets_duration_rest':
+      parts.push(`${sets ?? 1} × ${t.work_duration_s ?? t.duration_seconds ?? '?'}s on / ${t.rest_duration_s ?? t.rest_seconds ?? '?'}s off`);
+      break;
+    case 'sets_duration_weight':
+      parts.push(`${sets ?? 1} × ${t.duration_seconds ?? '?'}s${t.target_weight ? ` @ ${t.target_weight}${t.weight_unit || 'kg'}` : ''}`);
+      break;
+    case 'distance_time': {
+      const km = t.target_distance_km ?? t.distance_km;
+      const m = t.target_distance_m ?? t.distance_m;
+      parts.push(km ? `${km} km` : m ? `${m} m` : 'Distance');
+      break;
+    }
+    case 'duration_only': {
+      const minutes = t.target_duration_minutes ?? t.duration_minutes;
+      parts.push(minutes ? `${minutes} min` : t.target_duration_s ? `${t.target_duration_s}s` : 'Duration');
+      break;
+    }
+    default:
+      if (sets || reps) parts.push(`${sets ?? '?'} × ${reps ?? '?'}`);
+      if (t.one_rep_max_percentage) parts.push(`@ ${t.one_rep_max_percentage} 1RM`);
+      if (t.target_tempo) parts.push(`tempo ${t.target_tempo}`);
+  }
+
+  if (t.incline) parts.push(`incline ${t.incline}`);
+  if (t.speed) parts.push(`speed ${t.speed}`);
+  if (t.pulse_target) parts.push(`HR ${t.pulse_target}`);
+  if (t.rest_period_s) parts.push(`rest ${t.rest_period_s}s`);
+  if (exercise.rpe) parts.push(`RPE ${exercise.rpe}`);
+
+  return parts.join(' · ');
+}
+
+const describeBlock = (block: WorkoutBlock): string => {
+  switch (block.type) {
+    case 'superset': return `Superset · ${block.rounds} rounds`;
+    case 'amrap': return `AMRAP · ${block.duration_minutes} min`;
+    case 'circuit': return `Circuit${block.rounds ? ` · ${block.rounds} rounds` : ''}${block.duration_minutes ? ` · ${block.duration_minutes} min` : ''}`;
+    case 'emom': return `EMOM · ${block.duration_minutes} min${block.interval_seconds && block.interval_seconds !== 60 ? ` · every ${block.interval_seconds}s` : ''}`;
+    case 'tabata': return `Tabata · ${block.rounds} × ${block.work_seconds}s / ${block.rest_seconds}s`;
+    default: return '';
+  }
+};
+
+const renderBlocks = (blocks: WorkoutBlock[] | undefined): string =>
+  (blocks || []).map((block, blockIndex) => {
+    const letter = String.fromCharCode(65 + (blockIndex % 26));
+    const grouped = block.type !== 'single';
+    const heading = [describeBlock(block), block.title].filter(Boolean).join(' — ');
+
+    const rows = (block.exercises || []).map((exercise, i) => `
+      <tr>
+        <td class="label">${grouped ? `${letter}${i + 1}` : letter}</td>
+        <td>
+          <strong>${escapeHtml(exercise.exercise_name)}</strong>
+          ${exercise.notes ? `<div class="note">${escapeHtml(exercise.notes)}</div>` : ''}
+        </td>
+        <td class="target">${escapeHtml(describeExerciseTarget(exercise))}</td>
+      </tr>`).join('');
+
+    return `
+      <div class="block${grouped ? ' grouped' : ''}">
+        ${heading ? `<div class="block-title">${escapeHtml(heading)}</div>` : ''}
+        <table>${rows}</table>
+        ${block.notes ? `<div class="note">${escapeHtml(block.notes)}</div>` : ''}
+      </div>`;
+  }).join('');
+
+const renderDay = (day: PlanDay): string => {
+  const body = day.sessions && day.sessions.length > 0
+    ? day.sessions.map(session => `
+        <h3>${escapeHtml(session.session_name)}${session.estimated_duration ? ` · ${session.estimated_duration} min` : ''}</h3>
+        ${renderBlocks(session.blocks)}`).join('')
+    : renderBlocks(day.blocks);
+
+  return `
+    <section class="day">
+      <h2>${DAY_NAMES[day.day_of_week - 1] || `Day ${day.day_of_week}`} <span>${escapeHtml(day.focus)}${day.estimated_duration ? ` · ${day.estimated_duration} min` : ''}</span></h2>
+      ${day.notes ? `<div class="note">${escapeHtml(day.notes)}</div>` : ''}
+      ${body || '<div class="note">Rest</div>'}
+    </section>`;
+};
+
+/**
+ * Standalone print-ready HTML for a plan
+ */
+export function planToPrintableHtml(plan: WorkoutPlan): string {
+  const days = [...plan.weeklyPlan].sort((a, b) => a.day_of_week - b.day_of_week);
+  const periodization = plan.periodization
+    ? `Week ${plan.periodization.current_week} of ${plan.periodization.total_weeks} · ${plan.periodization.phase}`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(plan.name)} — REBLD</title>
+<style>
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, 'Helvetica Neue', Arial, sans-serif; color: #000; margin: 24px; font-size: 12px; }
+  h1 { font-size: 24px; margin: 0; text-transform: uppercase; letter-spacing: -0.5px; }
+  .meta { color: #555; margin: 4px 0 20px; text-transform: uppercase; font-size: 10px; letter-spacing: 1px; }
+  .day { border-top: 2px solid #000; padding-top: 8px; margin-bottom: 16px; page-break-inside: avoid; }
+  h2 { font-size: 15px; margin: 0 0 6px; text-transform: uppercase; }
+  h2 span { font-weight: normal; color: #555; }
+  h3 { font-size: 12px; margin: 8px 0 4px; text-transform: uppercase; }
+  .block { margin: 6px 0; }
+  .block.grouped { border-left: 3px solid #000; padding-left: 8px; }
+  .block-title { font-size: 10px; font-weight: bold; text-transform: uppercase; letter-spacing: 1px; margin-bottom: 2px; }
+  table { width: 100%; border-collapse: collapse; }
+  td { padding: 3px 4px; border-bottom: 1px solid #ddd; vertical-align: top; }
+  td.label { width: 28px; font-weight: bold; color: #555; }
+  td.target { text-align: right; white-space: nowrap; font-family: Menlo, monospace; font-size: 11px; }
+  .note { color: #555; font-style: italic; font-size: 11px; }
+  @media print { body { margin: 12mm; } }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(plan.name)}</h1>
+  <div class="meta">REBLD${periodization ? ` · ${escapeHtml(periodization)}` : ''} · Printed ${new Date().toLocaleDateString()}</div>
+  ${days.map(renderDay).join('')}
+</body>
+</html>`;
+}
+
+// ═══════════════════════════════════════════════════════════
+// Delivery
+// ═══════════════════════════════════════════════════════════
+
+export const exportFileName = (base: string, extension: string): string =>
+  `${base.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'rebld'}-${new Date().toISOString().split('T')[0]}.${extension}`;
+
+/**
+ * Trigger a download of text content
+ */
+export const downloadTextFile = (content: string, fileName: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Open the plan in a print window ("Save as PDF" in the print dialog)
+ * Falls back to downloading the HTML when popups are blocked
+ */
+export const printPlan = (plan: WorkoutPlan): void => {
+  const html = planToPrintableHtml(plan);
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    downloadTextFile(html, exportFileName(plan.name, 'html'), 'text/html');
+    return;
+  }
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
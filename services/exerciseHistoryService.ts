@@ -1,6 +1,7 @@
-import { useMutation, useQuery } from "convex/react";
+import { useQuery } from "convex/react";
 import { useUser } from '@clerk/clerk-react';
 import { api } from "../convex/_generated/api";
+import { offlineQueue } from "./offlineService";
 
 /**
  * Hook to save exercise history for auto-fill next time
@@ -9,7 +10,6 @@ import { api } from "../convex/_generated/api";
 export const useSaveExerciseHistory = () => {
   const { user } = useUser();
   const userId = user?.id || null;
-  const saveHistory = useMutation(api.mutations.saveExerciseHistory);
 
   return async (
     exerciseName: string,
@@ -19,7 +19,14 @@ export const useSaveExerciseHistory = () => {
     if (!userId) return;
     
     try {
-      await saveHistory({ userId, exerciseName, weight, reps });
+      // Queued durably; replays are deduplicated server-side by idempotency key
+      await offlineQueue.run('saveExerciseHistory', {
+        userId,
+        exerciseName,
+        weight,
+        reps,
+        loggedAt: new Date().toISOString(),
+      });
     } catch (error) {
       console.error("Failed to save exercise history:", error);
     }
@@ -1,5 +1,6 @@
 import { GoogleGenAI, Type, Chat, Part, FunctionDeclaration } from "@google/genai";
-import { WorkoutPlan, PlanDay, PlanExercise, DailyRoutine, WorkoutLog, WorkoutBlock } from '../types';
+import { WorkoutPlan, PlanDay, PlanExercise, DailyRoutine, WorkoutLog, WorkoutBlock, MetricTemplate } from '../types';
+import { getBlockLabel, getTemplateSets, isRoundsBlock, withTemplateSets } from '../lib/workoutUtils';
 import { resolveAbbreviations, identifyColloquialTerms, detectWorkoutFormat, WORKOUT_PATTERNS } from './workoutAbbreviations';
 import { api } from '../convex/_generated/api';
 import { convex } from '../convexClient';
@@ -127,6 +128,16 @@ Do NOT return empty blocks unless the day is EXPLICITLY marked as "Rest" or has
    - Extract 'duration_minutes' from "10 min AMRAP", "5 minute AMRAP"
    - Each exercise is performed as many times as possible in the time
 
+4b. **EMOM** (type: 'emom')
+   - Indicators: "EMOM", "Every Minute On the Minute", "E2MOM", "Every 2 min"
+   - Extract 'duration_minutes' from "12 min EMOM"
+   - Set 'interval_seconds' to 120 for E2MOM (180 for E3MOM), otherwise omit
+   - Exercises rotate each interval ("Odd: ...", "Even: ...")
+
+4c. **TABATA / INTERVALS** (type: 'tabata')
+   - Indicators: "Tabata", "20/10", "40s on / 20s off", "8 rounds :20 work :10 rest"
+   - Extract 'rounds', 'work_seconds', 'rest_seconds' (Tabata default: 8, 20, 10)
+
 4. **SINGLE EXERCISE** (type: 'single')
    - Standard individual exercises
    - Has sets × reps
@@ -362,10 +373,13 @@ const exerciseSchema = {
 const blockSchema = {
     type: Type.OBJECT,
     properties: {
-        type: { type: Type.STRING, description: "Must be 'single', 'superset', or 'amrap'." },
+        type: { type: Type.STRING, description: "Must be 'single', 'superset', 'amrap', 'emom', or 'tabata'." },
         title: { type: Type.STRING, nullable: true, description: "The title of the block, e.g., 'A: The Sled Gauntlet'." },
-        rounds: { type: Type.INTEGER, nullable: true, description: "Number of rounds for a superset." },
-        duration_minutes: { type: Type.INTEGER, nullable: true, description: "Duration for an AMRAP block." },
+        rounds: { type: Type.INTEGER, nullable: true, description: "Number of rounds for a superset or tabata block." },
+        duration_minutes: { type: Type.INTEGER, nullable: true, description: "Duration for an AMRAP or EMOM block." },
+        interval_seconds: { type: Type.INTEGER, nullable: true, description: "Interval length for an EMOM block (120 for E2MOM)." },
+        work_seconds: { type: Type.INTEGER, nullable: true, description: "Work interval for a tabata block." },
+        rest_seconds: { type: Type.INTEGER, nullable: true, description: "Rest interval for a tabata block." },
         exercises: { type: Type.ARRAY, items: exerciseSchema },
     },
     required: ["type", "exercises"],
@@ -1207,13 +1221,296 @@ Return as JSON object with exercise names as keys:
   }
 }
 
-export const generateWeeklyProgression = async (plan: WorkoutPlan, logs: WorkoutLog[], feedback: 'too easy' | 'just right' | 'too hard'): Promise<WorkoutPlan> => {
-    // This function would need a significant refactor to navigate the new block structure.
-    // For now, we'll return the plan unmodified to prevent errors.
-    console.warn("generateWeeklyProgression needs to be updated for the new WorkoutBlock architecture.");
-    return plan;
+/**
+ * WEEKLY PROGRESSION (non-periodized plans)
+ *
+ * Deterministic - walks weeklyPlan → blocks/sessions → metrics_template and
+ * adjusts load, volume and reps from the user's "how was this week?" answer
+ * plus what they actually logged. Periodized plans get their next week from
+ * convex/periodizationJobs.ts instead.
+ */
+export type WeeklyFeedback = 'too easy' | 'just right' | 'too hard';
+
+export interface ProgressionChange {
+  day_of_week: number;
+  exercise_name: string;
+  description: string; // e.g. "80kg → 82.5kg"
+}
+
+export interface WeeklyProgressionResult {
+  plan: WorkoutPlan;
+  changes: ProgressionChange[];
+  summary: string;
+}
+
+interface LoggedPerformance {
+  setsLogged: number;
+  topWeight: number | null;
+  topWeightReps: number | null;
+  minReps: number | null;
+  avgRpe: number | null;
 }
 
+const PROGRESSION_WINDOW_DAYS = 7;
+const MIN_SETS = 2;
+const MAX_SETS = 5;
+const MAX_ROUNDS = 6;
+const HARD_RPE = 9.5; // Never add load when sets were already this close to failure
+
+/** Load / duration multipliers per feedback */
+const LOAD_STEP: Record<WeeklyFeedback, number> = { 'too easy': 1.05, 'just right': 1.025, 'too hard': 0.95 };
+const ENDURANCE_STEP: Record<WeeklyFeedback, number> = { 'too easy': 1.1, 'just right': 1.05, 'too hard': 0.9 };
+
+const toNum = (value: unknown): number | null => {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && !isNaN(parsed) ? parsed : null;
+};
+
+const parseRepRange = (reps: unknown): { low: number; high: number } | null => {
+  if (typeof reps === 'number') return { low: reps, high: reps };
+  const match = typeof reps === 'string' ? reps.match(/^\s*(\d+)\s*(?:-\s*(\d+))?\s*$/) : null;
+  if (!match) return null; // "AMRAP", "max", "5/3/1"...
+  const low = parseInt(match[1], 10);
+  return { low, high: match[2] ? parseInt(match[2], 10) : low };
+};
+
+const formatRepRange = ({ low, high }: { low: number; high: number }): string =>
+  low === high ? `${low}` : `${low}-${high}`;
+
+/** Round to plate/dumbbell increments, always moving at least one increment */
+const stepLoad = (weight: number, multiplier: number): number => {
+  const increment = weight >= 20 ? 2.5 : 1;
+  const rounded = Math.round((weight * multiplier) / increment) * increment;
+  if (rounded !== weight) return Math.max(increment, rounded);
+  return multiplier > 1 ? weight + increment : Math.max(increment, weight - increment);
+};
+
+const summarizeLogs = (logs: WorkoutLog[], now: Date): Map<string, LoggedPerformance> => {
+  const since = now.getTime() - PROGRESSION_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  const byExercise = new Map<string, LoggedPerformance & { rpeTotal: number; rpeCount: number }>();
+
+  logs
+    .filter(log => new Date(log.date).getTime() >= since)
+    .forEach(log => (log.exercises || []).forEach(ex => {
+      const key = ex.exercise_name.toLowerCase().trim();
+      const perf = byExercise.get(key) || {
+        setsLogged: 0, topWeight: null, topWeightReps: null, minReps: null, avgRpe: null, rpeTotal: 0, rpeCount: 0,
+      };
+      (ex.sets || []).forEach(set => {
+        perf.setsLogged++;
+        if (!('reps' in set)) return;
+        const weight = toNum(set.weight);
+        const reps = toNum(set.reps);
+        const rpe = toNum(set.rpe);
+        if (reps !== null) perf.minReps = perf.minReps === null ? reps : Math.min(perf.minReps, reps);
+        if (weight !== null && weight > 0 && (perf.topWeight === null || weight > perf.topWeight)) {
+          perf.topWeight = weight;
+          perf.topWeightReps = reps;
+        }
+        if (rpe !== null) {
+          perf.rpeTotal += rpe;
+          perf.rpeCount++;
+        }
+      });
+      byExercise.set(key, perf);
+    }));
+
+  const result = new Map<string, LoggedPerformance>();
+  byExercise.forEach(({ rpeTotal, rpeCount, ...perf }, key) => {
+    result.set(key, { ...perf, avgRpe: rpeCount > 0 ? Math.round((rpeTotal / rpeCount) * 10) / 10 : null });
+  });
+  return result;
+};
+
+const withProgressionNote = (notes: string | null | undefined, note: string): string =>
+  `${(notes || '').replace(/\s*\[Target [^\]]*\]/g, '').trim()} [${note}]`.trim();
+
+/** Shift "70-75%" style percentages by a number of points */
+const shiftPercentage = (value: string, points: number): string =>
+  value.replace(/\d+(\.\d+)?/g, match => `${Math.min(95, Math.max(40, parseFloat(match) + points))}`);
+
+/**
+ * Progressed copy of one exercise, with human-readable changes
+ */
+const progressExercise = (
+  exercise: PlanExercise,
+  feedback: WeeklyFeedback,
+  perf: LoggedPerformance | undefined,
+  roundsDriven: boolean
+): { exercise: PlanExercise; changes: string[] } => {
+  if (!exercise.metrics_template) return { exercise, changes: [] };
+  // AI templates carry extra or differently named fields - read them by name
+  let template: MetricTemplate & Record<string, unknown> = { ...exercise.metrics_template };
+  const progressed: PlanExercise = { ...exercise };
+  const changes: string[] = [];
+  const sets = getTemplateSets(template);
+  const reps = parseRepRange(template.target_reps);
+  const tooHardLastWeek = perf?.avgRpe != null && perf.avgRpe >= HARD_RPE;
+  const hitBottom = !!perf && reps !== null && perf.minReps !== null && perf.minReps >= reps.low;
+  const hitTop = !!perf && reps !== null && perf.minReps !== null && perf.minReps >= reps.high;
+
+  const setSets = (target: number) => {
+    if (sets === null || roundsDriven || target === sets) return;
+    template = withTemplateSets(template, target);
+    changes.push(`${sets} → ${target} sets`);
+  };
+
+  const scaleField = (fields: string[], unit: string, round: (n: number) => number) => {
+    const field = fields.find(f => toNum(template[f]) !== null);
+    if (!field) return;
+    const before = toNum(template[field])!;
+    const after = round(before * ENDURANCE_STEP[feedback]);
+    if (after === before || after <= 0) return;
+    template[field] = after;
+    changes.push(`${before}${unit} → ${after}${unit}`);
+  };
+
+  switch (template.type) {
+    case 'sets_reps_weight':
+    case 'sets_reps_weight_tempo':
+    case 'tempo':
+    case 'sets_duration_weight': {
+      const loadReady = feedback === 'too easy' ? (!perf || hitBottom) : hitTop;
+
+      if (feedback !== 'too hard' && loadReady && !tooHardLastWeek) {
+        if (typeof template.one_rep_max_percentage === 'string' && /\d/.test(template.one_rep_max_percentage)) {
+          const before = template.one_rep_max_percentage;
+          template.one_rep_max_percentage = shiftPercentage(before, feedback === 'too easy' ? 5 : 2.5);
+          changes.push(`${before} → ${template.one_rep_max_percentage} 1RM`);
+        } else if (toNum(template.target_weight)) {
+          const before = toNum(template.target_weight)!;
+          template.target_weight = stepLoad(before, LOAD_STEP[feedback]);
+          changes.push(`${before}kg → ${template.target_weight}kg`);
+        } else if (perf?.topWeight) {
+          const next = stepLoad(perf.topWeight, LOAD_STEP[feedback]);
+          progressed.notes = withProgressionNote(progressed.notes, `Target ${next}kg · last week ${perf.topWeight}kg × ${perf.topWeightReps ?? '?'}`);
+          changes.push(`${perf.topWeight}kg → ${next}kg`);
+        } else if (feedback === 'too easy' && sets !== null) {
+          setSets(Math.min(MAX_SETS, sets + 1)); // Unlogged - add volume instead of guessing load
+        }
+      } else if (feedback === 'too hard') {
+        if (perf?.topWeight && reps !== null && perf.minReps !== null && perf.minReps < reps.low) {
+          // Missed reps - drop the load, keep the volume
+          const next = stepLoad(perf.topWeight, LOAD_STEP[feedback]);
+          progressed.notes = withProgressionNote(progressed.notes, `Target ${next}kg · last week ${perf.topWeight}kg × ${perf.topWeightReps ?? '?'}`);
+          changes.push(`${perf.topWeight}kg → ${next}kg`);
+        } else if (sets !== null) {
+          setSets(Math.max(MIN_SETS, sets - 1));
+        }
+      }
+      break;
+    }
+
+    case 'sets_reps': {
+      // Bodyweight - progress reps, then sets
+      if (!reps) break;
+      const shift = feedback === 'too easy' ? 2 : feedback === 'just right' ? (hitTop ? 1 : 0) : -2;
+      if (shift === 0) break;
+      const next = { low: Math.max(1, reps.low + shift), high: Math.max(1, reps.high + shift) };
+      template.target_reps = formatRepRange(next);
+      changes.push(`${formatRepRange(reps)} → ${template.target_reps} reps`);
+      if (feedback === 'too hard' && sets !== null) setSets(Math.max(MIN_SETS, sets - 1));
+      break;
+    }
+
+    case 'sets_duration':
+    case 'sets_duration_rest':
+      if (feedback === 'just right' && !perf) break;
+      scaleField(['target_duration_s', 'duration_seconds', 'work_duration_s'], 's', n => Math.max(5, Math.round(n / 5) * 5));
+      break;
+
+    case 'duration_only':
+      if (feedback === 'just right' && !perf) break;
+      scaleField(['target_duration_minutes', 'duration_minutes'], ' min', n => Math.max(1, Math.round(n)));
+      break;
+
+    case 'distance_time':
+      if (feedback === 'just right' && !perf) break;
+      scaleField(['target_distance_km', 'distance_km'], 'km', n => Math.round(n * 10) / 10);
+      scaleField(['target_distance_m', 'distance_m'], 'm', n => Math.round(n / 50) * 50);
+      break;
+
+    case 'sets_distance_rest':
+      if (feedback === 'just right' && !perf) break;
+      scaleField(['target_distance_m', 'distance_m'], 'm', n => Math.round(n / 10) * 10);
+      break;
+  }
+
+  // RPE target follows the feedback (only when the week was off)
+  // Plans from the AI sometimes carry a bare number - keep whichever type came in
+  const rpe = toNum(exercise.rpe);
+  if (rpe !== null && feedback !== 'just right') {
+    const adjust = (n: number) => Math.min(10, Math.max(5, n + (feedback === 'too easy' ? 0.5 : -1)));
+    const before: string | number = exercise.rpe as string | number;
+    const after = typeof before === 'number'
+      ? adjust(before)
+      : before.replace(/\d+(\.\d+)?/g, m => `${adjust(parseFloat(m))}`);
+    progressed.rpe = after as string;
+    if (after !== before) changes.push(`RPE ${before} → ${after}`);
+  }
+
+  return { exercise: { ...progressed, metrics_template: template }, changes };
+};
+
+/**
+ * Build next week's plan from this week's feedback and workout logs
+ */
+export const generateWeeklyProgression = async (
+  plan: WorkoutPlan,
+  logs: WorkoutLog[],
+  feedback: WeeklyFeedback,
+  now: Date = new Date()
+): Promise<WeeklyProgressionResult> => {
+  const nextPlan: WorkoutPlan = JSON.parse(JSON.stringify(plan));
+  const performance = summarizeLogs(logs, now);
+  const changes: ProgressionChange[] = [];
+
+  const progressBlock = (day: PlanDay, block: WorkoutBlock): WorkoutBlock => {
+    const roundsDriven = isRoundsBlock(block);
+    let next = block;
+
+    // Superset/circuit volume lives on the block
+    if (isRoundsBlock(block) && feedback !== 'just right') {
+      const before = block.rounds;
+      const after = feedback === 'too easy' ? Math.min(MAX_ROUNDS, before + 1) : Math.max(MIN_SETS, before - 1);
+      if (after !== before) {
+        next = { ...block, rounds: after };
+        changes.push({ day_of_week: day.day_of_week, exercise_name: getBlockLabel(block), description: `${before} → ${after} rounds` });
+      }
+    }
+
+    return {
+      ...next,
+      exercises: (next.exercises || []).map(exercise => {
+        if (exercise.category !== 'main') return exercise;
+        const perf = performance.get(exercise.exercise_name.toLowerCase().trim());
+        const progressed = progressExercise(exercise, feedback, perf, roundsDriven);
+        progressed.changes.forEach(description => {
+          changes.push({ day_of_week: day.day_of_week, exercise_name: exercise.exercise_name, description });
+        });
+        return progressed.exercise;
+      }),
+    };
+  };
+
+  nextPlan.weeklyPlan = (nextPlan.weeklyPlan || []).map(day => ({
+    ...day,
+    ...(day.blocks && { blocks: day.blocks.map(block => progressBlock(day, block)) }),
+    ...(day.sessions && {
+      sessions: day.sessions.map(session => ({
+        ...session,
+        blocks: (session.blocks || []).map(block => progressBlock(day, block)),
+      })),
+    }),
+  }));
+
+  const summary = changes.length === 0
+    ? `Week repeated (${feedback}) - no changes`
+    : `Week progressed (${feedback}): ${changes.length} change${changes.length === 1 ? '' : 's'}`;
+
+  return { plan: nextPlan, changes, summary };
+};
+
 /**
  * Validate that the user's question is workout-related
  * Less strict when there's ongoing conversation (allows short contextual responses)
@@ -1484,7 +1781,7 @@ Current plan: ${plan.name}
 ${formatPlanForContext(plan, dayOfWeek)}
 
 Schema: weeklyPlan[] has days with day_of_week (1..7), focus, and blocks.
-Blocks: type single|superset|amrap, optional title, and exercises[].
+Blocks: type single|superset|amrap|circuit|emom|tabata, optional title, and exercises[].
 Exercises: exercise_name, category (warmup|main|cooldown), optional rpe, and metrics_template.
 
 **🧠 DATABASE INTELLIGENCE (Your Advantage Over Basic AI):**
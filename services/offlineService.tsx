@@ -7,6 +7,8 @@
  */
 
 import { useEffect, useState } from 'react';
+import type { FunctionArgs } from 'convex/server';
+import type { api } from '../convex/_generated/api';
 
 export interface OfflineState {
   /** Whether user is currently offline */
@@ -97,52 +99,399 @@ export function OfflineIndicator() {
   );
 }
 
+// ═══════════════════════════════════════════════════════════
+// DURABLE OFFLINE MUTATION QUEUE
+// Mutations are persisted to IndexedDB as serializable descriptors before
+// they are sent, so a workout finished without signal survives the app being
+// killed. Each descriptor carries a client-generated idempotency key that the
+// server honours, making replays after a timeout or crash safe.
+// Descriptors belong to the user who queued them: only the signed-in user's
+// are replayed, and they are dropped when that user signs out.
+// ═══════════════════════════════════════════════════════════
+
+/** Mutations that can be queued, by descriptor name */
+interface QueueableMutations {
+  addWorkoutLog: typeof api.mutations.addWorkoutLog;
+  saveExerciseHistory: typeof api.mutations.saveExerciseHistory;
+  recordExercisePerformance: typeof api.mutations.recordExercisePerformance;
+  updateStreak: typeof api.achievementMutations.updateStreak;
+}
+
+export type QueuedMutationName = keyof QueueableMutations;
+
+export type QueuedMutationArgs<N extends QueuedMutationName> = FunctionArgs<QueueableMutations[N]>;
+
+interface QueuedMutationState {
+  /** Idempotency key (also sent as args.idempotencyKey) */
+  id: string;
+  /** Owner - taken from args.userId / args.user_id */
+  userId: string;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  /** Gave up after MAX_ATTEMPTS - kept for manual retry, never dropped */
+  failed: boolean;
+}
+
+/** A persisted descriptor - each name carries its own mutation's args */
+export type QueuedMutation<N extends QueuedMutationName = QueuedMutationName> = {
+  [K in N]: QueuedMutationState & { name: K; args: QueuedMutationArgs<K> };
+}[N];
+
+export interface QueueStatus {
+  pending: number;
+  failed: number;
+}
+
+export type MutationExecutor = (mutation: QueuedMutation) => Promise<any>;
+
+export type RunResult =
+  | { status: 'sent'; result: any }
+  | { status: 'queued'; id: string };
+
+const DB_NAME = 'rebld-offline';
+const DB_VERSION = 2;
+const STORE_NAME = 'mutations';
+const USER_INDEX = 'by_userId';
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 10;
+
+function generateIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+function getMutationOwner(args: { userId?: string; user_id?: string }): string | null {
+  return args.userId || args.user_id || null;
+}
+
+/** Exponential backoff with jitter: 2s, 4s, 8s ... capped at 5 min */
+function getRetryDelay(attempts: number): number {
+  const delay = Math.min(BASE_RETRY_MS * Math.pow(2, attempts - 1), MAX_RETRY_MS);
+  return delay + Math.floor(Math.random() * delay * 0.2);
+}
+
 /**
- * Queue for offline mutations
- * Stores mutations to retry when back online
+ * Minimal IndexedDB key-value store for queued mutations
+ * Falls back to memory when IndexedDB is unavailable (private mode, SSR)
+ */
+class MutationStore {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private memory = new Map<string, QueuedMutation>();
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.objectStoreNames.contains(STORE_NAME)
+            ? request.transaction!.objectStore(STORE_NAME)
+            : request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          if (!store.indexNames.contains(USER_INDEX)) {
+            store.createIndex(USER_INDEX, 'userId');
+          }
+          // v1 rows had no owner - stamp it from their args so they stay replayable
+          store.openCursor().onsuccess = (event) => {
+            const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            const mutation = cursor.value as QueuedMutation;
+            if (!mutation.userId) {
+              const userId = getMutationOwner(mutation.args || {});
+              if (userId) cursor.update({ ...mutation, userId });
+              else cursor.delete();
+            }
+            cursor.continue();
+          };
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('IndexedDB unavailable, offline queue is memory-only:', request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('IndexedDB unavailable, offline queue is memory-only:', error);
+        resolve(null);
+      }
+    });
+    return this.dbPromise;
+  }
+
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T | undefined> {
+    const db = await this.open();
+    if (!db) return undefined;
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async getAll(userId: string): Promise<QueuedMutation[]> {
+    const db = await this.open();
+    if (!db) return Array.from(this.memory.values()).filter(m => m.userId === userId);
+    return (await this.withStore('readonly', store =>
+      store.index(USER_INDEX).getAll(userId) as IDBRequest<QueuedMutation[]>
+    )) || [];
+  }
+
+  async put(mutation: QueuedMutation): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      this.memory.set(mutation.id, mutation);
+      return;
+    }
+    await this.withStore('readwrite', store => store.put(mutation));
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      this.memory.delete(id);
+      return;
+    }
+    await this.withStore('readwrite', store => store.delete(id));
+  }
+
+  async clear(userId: string): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      this.memory.forEach((m, id) => m.userId === userId && this.memory.delete(id));
+      return;
+    }
+    await this.withStore('readwrite', store => {
+      const request = store.index(USER_INDEX).openCursor(userId);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        cursor.delete();
+        cursor.continue();
+      };
+      return request;
+    });
+  }
+}
+
+/**
+ * Durable queue for offline mutations
+ * Persists first, then sends; replays in creation order with exponential backoff
  */
 class OfflineQueue {
-  private queue: Array<() => Promise<void>> = [];
+  private store = new MutationStore();
+  private executor: MutationExecutor | null = null;
+  private userId: string | null = null;
   private isProcessing = false;
+  private inFlight = new Set<string>();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<(status: QueueStatus) => void>();
+  private status: QueueStatus = { pending: 0, failed: 0 };
+
+  /** Register how descriptors are sent (set by useOfflineSync once Convex auth is ready) */
+  setExecutor(executor: MutationExecutor | null) {
+    this.executor = executor;
+    if (executor) this.processQueue();
+  }
+
+  /** Signed-in user whose mutations are replayed (set by useOfflineSync) */
+  setUser(userId: string | null) {
+    if (this.userId === userId) return;
+    this.userId = userId;
+    this.refreshStatus();
+    this.processQueue();
+  }
+
+  /** Drop everything the user queued - their data must not outlive the session on this device */
+  async signOut(userId: string) {
+    await this.store.clear(userId);
+    if (this.userId === userId) this.userId = null;
+    await this.refreshStatus();
+  }
+
+  private async getQueued(): Promise<QueuedMutation[]> {
+    return this.userId ? this.store.getAll(this.userId) : [];
+  }
+
+  /** Persist a mutation without attempting to send it */
+  async enqueue<N extends QueuedMutationName>(name: N, args: QueuedMutationArgs<N>): Promise<QueuedMutation> {
+    const userId = getMutationOwner(args);
+    if (!userId) throw new Error(`Queued mutation ${name} has no userId`);
+
+    const id = args.idempotencyKey || generateIdempotencyKey();
+    // Checked against this name's args, then widened: TS can't relate a generic N to the union
+    const mutation = {
+      id,
+      userId,
+      name,
+      args: { ...args, idempotencyKey: id },
+      createdAt: Date.now(),
+      attempts: 0,
+      nextAttemptAt: 0,
+      lastError: null,
+      failed: false,
+    } satisfies QueuedMutation<N> as QueuedMutation;
+    await this.store.put(mutation);
+    await this.refreshStatus();
+    return mutation;
+  }
+
+  /**
+   * Persist, then try to send immediately when online
+   * Resolves with the server result, or `queued` if it will be replayed later
+   */
+  async run<N extends QueuedMutationName>(name: N, args: QueuedMutationArgs<N>): Promise<RunResult> {
+    const mutation = await this.enqueue(name, args);
+
+    const canSend = this.executor && mutation.userId === this.userId;
+    if (!canSend || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+      return { status: 'queued', id: mutation.id };
+    }
+
+    // Earlier mutations go first so e.g. a log is saved before its streak update
+    const earlier = (await this.getQueued()).some(m => !m.failed && m.createdAt < mutation.createdAt);
+    if (earlier) {
+      this.processQueue();
+      return { status: 'queued', id: mutation.id };
+    }
+
+    try {
+      const result = await this.attempt(mutation);
+      return { status: 'sent', result };
+    } catch {
+      return { status: 'queued', id: mutation.id };
+    }
+  }
+
+  private async attempt(mutation: QueuedMutation): Promise<any> {
+    if (!this.executor) throw new Error('Offline queue has no executor');
+    if (this.inFlight.has(mutation.id)) throw new Error('Mutation already in flight');
 
-  add(mutation: () => Promise<void>) {
-    this.queue.push(mutation);
+    this.inFlight.add(mutation.id);
+    try {
+      const result = await this.executor(mutation);
+      await this.store.delete(mutation.id);
+      return result;
+    } catch (error) {
+      const attempts = mutation.attempts + 1;
+      await this.store.put({
+        ...mutation,
+        attempts,
+        nextAttemptAt: Date.now() + getRetryDelay(attempts),
+        lastError: error instanceof Error ? error.message : String(error),
+        failed: attempts >= MAX_ATTEMPTS,
+      });
+      throw error;
+    } finally {
+      this.inFlight.delete(mutation.id);
+      await this.refreshStatus();
+      this.scheduleRetry();
+    }
   }
 
   async processQueue() {
-    if (this.isProcessing || this.queue.length === 0) return;
+    if (this.isProcessing || !this.executor) return;
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
 
     this.isProcessing = true;
-    console.log(`Processing ${this.queue.length} queued mutations...`);
+    try {
+      const queued = (await this.getQueued())
+        .filter(m => !m.failed)
+        .sort((a, b) => a.createdAt - b.createdAt);
+      if (queued.length > 0) {
+        console.log(`Processing ${queued.length} queued mutations...`);
+      }
 
-    while (this.queue.length > 0) {
-      const mutation = this.queue.shift();
-      if (mutation) {
+      for (const mutation of queued) {
+        // Preserve order: stop at the first one still backing off or failing
+        if (mutation.nextAttemptAt > Date.now() || this.inFlight.has(mutation.id)) break;
         try {
-          await mutation();
+          await this.attempt(mutation);
         } catch (error) {
-          console.error('Failed to process queued mutation:', error);
-          // Re-queue if failed
-          this.queue.unshift(mutation);
+          console.error(`Failed to process queued mutation ${mutation.name}:`, error);
           break;
         }
       }
+    } finally {
+      this.isProcessing = false;
+    }
+    this.scheduleRetry();
+  }
+
+  /** Re-arm mutations that exhausted their attempts */
+  async retryFailed() {
+    const failed = (await this.getQueued()).filter(m => m.failed);
+    for (const mutation of failed) {
+      await this.store.put({ ...mutation, failed: false, attempts: 0, nextAttemptAt: 0 });
     }
+    await this.refreshStatus();
+    this.processQueue();
+  }
+
+  // Wake up when the oldest mutation (which gates the rest) is due again
+  private async scheduleRetry() {
+    if (this.isProcessing || this.inFlight.size > 0) return;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+
+    const oldest = (await this.getQueued())
+      .filter(m => !m.failed)
+      .sort((a, b) => a.createdAt - b.createdAt)[0];
+    if (!oldest) return;
 
-    this.isProcessing = false;
+    this.retryTimer = setTimeout(() => this.processQueue(), Math.max(0, oldest.nextAttemptAt - Date.now()));
   }
 
-  clear() {
-    this.queue = [];
+  private async refreshStatus() {
+    const all = await this.getQueued();
+    const failed = all.filter(m => m.failed).length;
+    this.status = { pending: all.length - failed, failed };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+
+  subscribe(listener: (status: QueueStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.status);
+    this.refreshStatus();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async clear() {
+    if (this.userId) await this.store.clear(this.userId);
+    await this.refreshStatus();
   }
 
   get size() {
-    return this.queue.length;
+    return this.status.pending + this.status.failed;
   }
 }
 
 export const offlineQueue = new OfflineQueue();
 
+/**
+ * Pending/failed counts for the offline queue (for badges)
+ */
+export function useOfflineQueueStatus(): QueueStatus {
+  const [status, setStatus] = useState<QueueStatus>({ pending: 0, failed: 0 });
+  useEffect(() => offlineQueue.subscribe(setStatus), []);
+  return status;
+}
+
 /**
  * Auto-process queue when connection is restored
  */
@@ -1,42 +1,86 @@
-import { WorkoutLog, PersonalRecord } from '../types';
+import { WorkoutLog, PersonalRecord, PRAchievement, PRType, OneRepMaxFormula, LoggedExercise } from '../types';
+import { estimateOneRepMax, MAX_E1RM_REPS } from '../convex/utils/oneRepMax';
+
+/** Rep ranges that get their own "nRM" record (best weight for at least n reps) */
+export const PR_REP_RANGES = [1, 3, 5, 10];
+
+/** Which PR to headline when one set beats several records */
+const PR_TYPE_PRIORITY: PRType[] = ['e1rm', 'rep_max', 'weight', 'set_volume', 'session_volume'];
+
+type SetPerformance = { weight: number; reps: number; date: string };
 
 /**
- * Detect if a new PR (Personal Record) was achieved
- * Only applicable for weight-based exercises
+ * All weighted sets logged for an exercise
  */
-export const detectPR = (
-  exerciseName: string,
-  newWeight: number,
-  newReps: number,
-  allLogs: WorkoutLog[]
-): { isPR: boolean; previousBest?: { weight: number; reps: number; date: string } } => {
-  // Get all historical performances for this exercise
-  const exerciseHistory: Array<{ weight: number; reps: number; date: string }> = [];
+const getExerciseSets = (exerciseName: string, allLogs: WorkoutLog[]): SetPerformance[] => {
+  const sets: SetPerformance[] = [];
 
   allLogs.forEach(log => {
     const exercise = log.exercises.find(ex => ex.exercise_name === exerciseName);
     if (exercise) {
       exercise.sets.forEach(set => {
         if ('weight' in set && 'reps' in set) {
-          exerciseHistory.push({
-            weight: Number(set.weight),
-            reps: Number(set.reps),
-            date: log.date
-          });
+          const weight = Number(set.weight);
+          const reps = Number(set.reps);
+          if (weight > 0 && reps > 0) {
+            sets.push({ weight, reps, date: log.date });
+          }
         }
       });
     }
   });
 
+  return sets;
+};
+
+/**
+ * Total weight × reps across a session's exercises
+ */
+export const calculateSessionVolume = (exercises: LoggedExercise[]): number => {
+  return exercises.reduce((total, ex) => total + ex.sets.reduce((setTotal, set) => {
+    if ('weight' in set && 'reps' in set) {
+      const weight = Number(set.weight);
+      const reps = Number(set.reps);
+      if (weight > 0 && reps > 0) return setTotal + weight * reps;
+    }
+    return setTotal;
+  }, 0), 0);
+};
+
+/**
+ * Detect if a new PR (Personal Record) was achieved
+ * Checks top weight, estimated 1RM, 1/3/5/10RM and best set volume.
+ * Only applicable for weight-based exercises
+ */
+export const detectPR = (
+  exerciseName: string,
+  newWeight: number,
+  newReps: number,
+  allLogs: WorkoutLog[],
+  formula: OneRepMaxFormula = 'epley'
+): {
+  isPR: boolean;
+  previousBest?: { weight: number; reps: number; date: string };
+  achievements: PRAchievement[];
+} => {
+  // Get all historical performances for this exercise
+  const exerciseHistory = getExerciseSets(exerciseName, allLogs);
+  const date = new Date().toISOString();
+
   if (exerciseHistory.length === 0) {
     // First time doing this exercise = automatic PR
-    return { isPR: true };
+    return {
+      isPR: true,
+      achievements: [{ type: 'weight', exercise_name: exerciseName, value: newWeight, weight: newWeight, reps: newReps, date }],
+    };
   }
 
   // Find the best performance (highest weight, or same weight with more reps)
   let bestWeight = 0;
   let bestReps = 0;
   let bestDate = '';
+  let bestE1rm = 0;
+  let bestVolume = 0;
 
   exerciseHistory.forEach(perf => {
     if (perf.weight > bestWeight) {
@@ -47,21 +91,111 @@ export const detectPR = (
       bestReps = perf.reps;
       bestDate = perf.date;
     }
+    if (perf.reps <= MAX_E1RM_REPS) {
+      bestE1rm = Math.max(bestE1rm, estimateOneRepMax(perf.weight, perf.reps, formula));
+    }
+    bestVolume = Math.max(bestVolume, perf.weight * perf.reps);
   });
 
-  // Check if new performance beats the best
-  const isPR = newWeight > bestWeight || (newWeight === bestWeight && newReps > bestReps);
+  const achievements: PRAchievement[] = [];
+  const base = { exercise_name: exerciseName, weight: newWeight, reps: newReps, date };
+
+  if (newWeight > bestWeight || (newWeight === bestWeight && newReps > bestReps)) {
+    achievements.push({ ...base, type: 'weight', value: newWeight, previousValue: bestWeight });
+  }
+
+  const newE1rm = estimateOneRepMax(newWeight, newReps, formula);
+  if (newReps <= MAX_E1RM_REPS && bestE1rm > 0 && newE1rm > bestE1rm) {
+    achievements.push({ ...base, type: 'e1rm', value: newE1rm, previousValue: bestE1rm });
+  }
+
+  // Only rep ranges the lifter has trained before, so a first set of 10 isn't a "10RM PR"
+  PR_REP_RANGES.forEach(range => {
+    if (newReps < range) return;
+    const rangeSets = exerciseHistory.filter(perf => perf.reps >= range);
+    if (rangeSets.length === 0) return;
+    const bestInRange = Math.max(...rangeSets.map(perf => perf.weight));
+    if (newWeight > bestInRange) {
+      achievements.push({ ...base, type: 'rep_max', repRange: range, value: newWeight, previousValue: bestInRange });
+    }
+  });
+
+  const newVolume = newWeight * newReps;
+  if (newVolume > bestVolume) {
+    achievements.push({ ...base, type: 'set_volume', value: newVolume, previousValue: bestVolume });
+  }
+
+  const isPR = achievements.length > 0;
 
   return {
     isPR,
-    previousBest: isPR ? { weight: bestWeight, reps: bestReps, date: bestDate } : undefined
+    previousBest: isPR ? { weight: bestWeight, reps: bestReps, date: bestDate } : undefined,
+    achievements,
+  };
+};
+
+/**
+ * Detect a session tonnage PR (total weight × reps beats every previous session)
+ */
+export const detectSessionVolumePR = (
+  exercises: LoggedExercise[],
+  allLogs: WorkoutLog[]
+): PRAchievement | null => {
+  const volume = calculateSessionVolume(exercises);
+  if (volume <= 0 || allLogs.length === 0) return null;
+
+  const previousBest = Math.max(0, ...allLogs.map(log => calculateSessionVolume(log.exercises)));
+  if (volume <= previousBest) return null;
+
+  return {
+    type: 'session_volume',
+    exercise_name: 'Session',
+    value: volume,
+    previousValue: previousBest,
+    weight: 0,
+    reps: 0,
+    date: new Date().toISOString(),
   };
 };
 
+/**
+ * Pick the most meaningful PR to headline from a set's achievements
+ */
+export const getHeadlinePR = (achievements: PRAchievement[]): PRAchievement | null => {
+  for (const type of PR_TYPE_PRIORITY) {
+    const matches = achievements.filter(a => a.type === type);
+    if (matches.length > 0) {
+      // For rep maxes, the heaviest range (e.g. 5RM over 1RM at the same weight) reads best
+      return matches.reduce((best, a) => ((a.repRange ?? 0) > (best.repRange ?? 0) ? a : best));
+    }
+  }
+  return null;
+};
+
+/**
+ * Short human-readable label for a PR, e.g. "e1RM 120kg", "5RM 100kg", "Volume 800kg"
+ */
+export const describePR = (achievement: PRAchievement): string => {
+  const value = Math.round(achievement.value * 10) / 10;
+  switch (achievement.type) {
+    case 'e1rm':
+      return `e1RM ${value}kg`;
+    case 'rep_max':
+      return `${achievement.repRange}RM ${value}kg`;
+    case 'set_volume':
+      return `Set volume ${value}kg`;
+    case 'session_volume':
+      return `Session volume ${value}kg`;
+    default:
+      return `${achievement.weight}kg × ${achievement.reps}`;
+  }
+};
+
 /**
  * Get all PRs for a user from their workout logs
+ * Each record carries top weight plus e1RM, rep-range bests and best set volume
  */
-export const getAllPRs = (allLogs: WorkoutLog[]): PersonalRecord[] => {
+export const getAllPRs = (allLogs: WorkoutLog[], formula: OneRepMaxFormula = 'epley'): PersonalRecord[] => {
   const exercisePRs: Record<string, PersonalRecord> = {};
 
   allLogs.forEach(log => {
@@ -101,9 +235,78 @@ export const getAllPRs = (allLogs: WorkoutLog[]): PersonalRecord[] => {
     });
   });
 
+  // Enrich with e1RM, rep-range and volume bests
+  Object.values(exercisePRs).forEach(record => {
+    const sets = getExerciseSets(record.exercise_name, allLogs);
+    const repMaxes = new Map<number, { repRange: number; weight: number; reps: number; date: string }>();
+
+    sets.forEach(perf => {
+      if (perf.reps <= MAX_E1RM_REPS) {
+        const value = estimateOneRepMax(perf.weight, perf.reps, formula);
+        if (!record.e1rm || value > record.e1rm.value) {
+          record.e1rm = { value, weight: perf.weight, reps: perf.reps, date: perf.date };
+        }
+      }
+
+      const volume = perf.weight * perf.reps;
+      if (!record.bestSetVolume || volume > record.bestSetVolume.value) {
+        record.bestSetVolume = { value: volume, weight: perf.weight, reps: perf.reps, date: perf.date };
+      }
+
+      PR_REP_RANGES.forEach(range => {
+        if (perf.reps < range) return;
+        const current = repMaxes.get(range);
+        if (!current || perf.weight > current.weight) {
+          repMaxes.set(range, { repRange: range, weight: perf.weight, reps: perf.reps, date: perf.date });
+        }
+      });
+    });
+
+    if (repMaxes.size > 0) {
+      record.repMaxes = Array.from(repMaxes.values()).sort((a, b) => a.repRange - b.repRange);
+    }
+  });
+
   return Object.values(exercisePRs);
 };
 
+/**
+ * Chronological e1RM PR events per exercise, for timelines like PRHistoryChart
+ */
+export const getPRHistory = (allLogs: WorkoutLog[], formula: OneRepMaxFormula = 'epley'): PRAchievement[] => {
+  const history: PRAchievement[] = [];
+  const bestByExercise: Record<string, number> = {};
+
+  [...allLogs]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .forEach(log => {
+      log.exercises.forEach(exercise => {
+        // Only the best set of the session can register the PR
+        let sessionBest: PRAchievement | null = null;
+
+        for (const set of exercise.sets) {
+          if (!('weight' in set) || !('reps' in set)) continue;
+          const weight = Number(set.weight);
+          const reps = Number(set.reps);
+          if (!(weight > 0) || !(reps > 0) || reps > MAX_E1RM_REPS) continue;
+
+          const value = estimateOneRepMax(weight, reps, formula);
+          if (!sessionBest || value > sessionBest.value) {
+            sessionBest = { type: 'e1rm', exercise_name: exercise.exercise_name, value, weight, reps, date: log.date };
+          }
+        }
+
+        const previous = bestByExercise[exercise.exercise_name];
+        if (sessionBest && (previous === undefined || sessionBest.value > previous)) {
+          history.push({ ...sessionBest, previousValue: previous });
+          bestByExercise[exercise.exercise_name] = sessionBest.value;
+        }
+      });
+    });
+
+  return history;
+};
+
 /**
  * Check if an exercise should track PRs
  * Excludes bodyweight exercises, stretching, cardio, etc.
@@ -0,0 +1,90 @@
+/**
+ * Readiness Adjustment
+ *
+ * Applies the readiness band from `readiness.getReadiness` to today's PlanDay
+ * before the session starts. The plan itself is never changed - the adjusted
+ * copy is only used for this session, and only if the user accepts it.
+ */
+
+import { PlanDay, PlanExercise, WorkoutBlock } from '../types';
+import { getBlockLabel, getTemplateSets, isRoundsBlock, withTemplateSets } from '../lib/workoutUtils';
+
+export type ReadinessBand = 'reduced' | 'normal' | 'push';
+
+export interface ReadinessAdjustment {
+  day: PlanDay;
+  changes: string[]; // Human-readable, e.g. "Back Squat: 4 → 3 sets"
+}
+
+const MIN_SETS = 2;
+const MAX_SETS = 5;
+const PUSH_EXTRA_SET_EXERCISES = 2; // Only the first main lifts get the extra set
+
+/**
+ * Local YYYY-MM-DD (readiness is keyed by the user's calendar day, not UTC)
+ */
+export const getLocalDateString = (date: Date = new Date()): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const shiftRpe = (rpe: string, delta: number): string =>
+  rpe.replace(/\d+(\.\d+)?/g, match => `${Math.min(10, Math.max(5, parseFloat(match) + delta))}`);
+
+/**
+ * Adjust sets and RPE targets of a day for today's readiness band
+ */
+export const adjustPlanDayForReadiness = (day: PlanDay, band: ReadinessBand): ReadinessAdjustment => {
+  if (band === 'normal') return { day, changes: [] };
+
+  const changes: string[] = [];
+  let boostedExercises = 0;
+
+  const adjustExercise = (exercise: PlanExercise, roundsDriven: boolean): PlanExercise => {
+    if (exercise.category !== 'main') return exercise;
+    let next = exercise;
+
+    const sets = getTemplateSets(exercise.metrics_template);
+    const wantsSet = band === 'reduced' || boostedExercises < PUSH_EXTRA_SET_EXERCISES;
+    if (!roundsDriven && sets !== null && wantsSet) {
+      const target = Math.min(MAX_SETS, Math.max(MIN_SETS, sets + (band === 'reduced' ? -1 : 1)));
+      if (target !== sets) {
+        next = { ...next, metrics_template: withTemplateSets(next.metrics_template, target) };
+        changes.push(`${exercise.exercise_name}: ${sets} → ${target} sets`);
+        if (band === 'push') boostedExercises++;
+      }
+    }
+
+    if (exercise.rpe && /\d/.test(exercise.rpe)) {
+      const rpe = shiftRpe(exercise.rpe, band === 'reduced' ? -1 : 0.5);
+      if (rpe !== exercise.rpe) {
+        next = { ...next, rpe };
+        changes.push(`${exercise.exercise_name}: RPE ${exercise.rpe} → ${rpe}`);
+      }
+    }
+
+    return next;
+  };
+
+  const adjustBlock = (block: WorkoutBlock): WorkoutBlock => {
+    const roundsDriven = isRoundsBlock(block);
+    let next = block;
+
+    if (isRoundsBlock(block) && band === 'reduced' && block.rounds > MIN_SETS) {
+      next = { ...block, rounds: block.rounds - 1 };
+      changes.push(`${getBlockLabel(block)}: ${block.rounds} → ${block.rounds - 1} rounds`);
+    }
+
+    return { ...next, exercises: next.exercises.map(exercise => adjustExercise(exercise, roundsDriven)) };
+  };
+
+  const adjusted: PlanDay = {
+    ...day,
+    ...(day.blocks && { blocks: day.blocks.map(adjustBlock) }),
+    ...(day.sessions && {
+      sessions: day.sessions.map(session => ({ ...session, blocks: (session.blocks || []).map(adjustBlock) })),
+    }),
+  };
+
+  return { day: adjusted, changes };
+};
@@ -0,0 +1,211 @@
+/**
+ * Session Checkpoint Service
+ *
+ * Snapshots the in-progress workout after every set so an iOS backgrounding
+ * kill (or a reload) doesn't wipe it. The snapshot lives in localStorage and,
+ * when online, in the `activeSessions` Convex table for cross-device resume.
+ */
+
+import type { PlanDay, LoggedSetSRW, LoggedSetDuration } from '../types';
+
+const STORAGE_KEY = 'rebld:session:checkpoint';
+const DEVICE_ID_KEY = 'rebld:deviceId';
+const EXPIRY_HOURS = 24;
+
+export interface SessionCheckpoint {
+  sessionKey: string;
+  userId: string;
+  session: PlanDay;
+  loggedData: Record<string, (LoggedSetSRW | LoggedSetDuration)[]>;
+  currentBlockIndex: number;
+  currentExerciseInBlock: number;
+  currentRound: number;
+  completedWarmupExercises: string[];
+  celebratedPRs: string[];
+  startedAt: number; // Unix ms, original start time
+  elapsedMs: number; // Active workout time (time the app was dead isn't counted)
+  isPaused: boolean;
+  exercisesDone: number;
+  exercisesTotal: number;
+  updatedAt: number;
+  deviceId: string;
+  /** Local copy only: true once the server has a copy at least this new */
+  synced?: boolean;
+}
+
+/**
+ * Shape stored in `activeSessions` (see convex/activeSessions.ts)
+ */
+export interface ServerSessionCheckpoint {
+  userId: string;
+  sessionKey: string;
+  focus: string;
+  session: PlanDay;
+  state: {
+    loggedData: SessionCheckpoint['loggedData'];
+    currentBlockIndex: number;
+    currentExerciseInBlock: number;
+    currentRound: number;
+    completedWarmupExercises: string[];
+    celebratedPRs: string[];
+  };
+  startedAt: number;
+  elapsedMs: number;
+  isPaused: boolean;
+  exercisesDone: number;
+  exercisesTotal: number;
+  updatedAt: number;
+  deviceId: string;
+}
+
+export function generateSessionKey(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Stable per-install id, used to tell "this device" from another device's checkpoint
+ */
+export function getDeviceId(): string {
+  try {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = generateSessionKey();
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Exercises with at least one logged set, out of all exercises in the session
+ */
+export function countExercisesDone(
+  session: PlanDay,
+  loggedData: SessionCheckpoint['loggedData']
+): { done: number; total: number } {
+  const exercises = (session.blocks || []).flatMap(block => block.exercises || []);
+  const done = exercises.filter(ex => (loggedData[ex.exercise_name]?.length || 0) > 0).length;
+  return { done, total: exercises.length };
+}
+
+export function saveLocalCheckpoint(checkpoint: SessionCheckpoint): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(checkpoint));
+  } catch (error) {
+    // Quota exceeded / private mode - the server copy is the fallback
+    console.warn('Failed to save session checkpoint:', error);
+  }
+}
+
+/**
+ * Load this user's checkpoint (null if missing, another user's, or expired)
+ */
+export function loadLocalCheckpoint(userId: string): SessionCheckpoint | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    const checkpoint = JSON.parse(raw) as SessionCheckpoint;
+    if (checkpoint.userId !== userId) return null;
+
+    const ageHours = (Date.now() - checkpoint.updatedAt) / (1000 * 60 * 60);
+    if (ageHours > EXPIRY_HOURS) {
+      localStorage.removeItem(STORAGE_KEY);
+      return null;
+    }
+    return checkpoint;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Mark the local checkpoint as uploaded (only if it's still the same snapshot)
+ */
+export function markLocalCheckpointSynced(sessionKey: string, updatedAt: number): void {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return;
+    const checkpoint = JSON.parse(raw) as SessionCheckpoint;
+    if (checkpoint.sessionKey === sessionKey && checkpoint.updatedAt === updatedAt) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...checkpoint, synced: true }));
+    }
+  } catch {
+    // Ignore - worst case the checkpoint is re-offered until the server copy arrives
+  }
+}
+
+export function clearLocalCheckpoint(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Ignore
+  }
+}
+
+export function toServerCheckpoint(checkpoint: SessionCheckpoint): ServerSessionCheckpoint {
+  return {
+    userId: checkpoint.userId,
+    sessionKey: checkpoint.sessionKey,
+    focus: checkpoint.session.focus || 'Workout',
+    session: checkpoint.session,
+    state: {
+      loggedData: checkpoint.loggedData,
+      currentBlockIndex: checkpoint.currentBlockIndex,
+      currentExerciseInBlock: checkpoint.currentExerciseInBlock,
+      currentRound: checkpoint.currentRound,
+      completedWarmupExercises: checkpoint.completedWarmupExercises,
+      celebratedPRs: checkpoint.celebratedPRs,
+    },
+    startedAt: checkpoint.startedAt,
+    elapsedMs: checkpoint.elapsedMs,
+    isPaused: checkpoint.isPaused,
+    exercisesDone: checkpoint.exercisesDone,
+    exercisesTotal: checkpoint.exercisesTotal,
+    updatedAt: checkpoint.updatedAt,
+    deviceId: checkpoint.deviceId,
+  };
+}
+
+export function fromServerCheckpoint(doc: ServerSessionCheckpoint): SessionCheckpoint {
+  const state = doc.state || ({} as ServerSessionCheckpoint['state']);
+  return {
+    sessionKey: doc.sessionKey,
+    userId: doc.userId,
+    session: doc.session,
+    loggedData: state.loggedData || {},
+    currentBlockIndex: state.currentBlockIndex || 0,
+    currentExerciseInBlock: state.currentExerciseInBlock || 0,
+    currentRound: state.currentRound || 1,
+    completedWarmupExercises: state.completedWarmupExercises || [],
+    celebratedPRs: state.celebratedPRs || [],
+    startedAt: doc.startedAt,
+    elapsedMs: doc.elapsedMs,
+    isPaused: doc.isPaused,
+    exercisesDone: doc.exercisesDone,
+    exercisesTotal: doc.exercisesTotal,
+    updatedAt: doc.updatedAt,
+    deviceId: doc.deviceId,
+    synced: true,
+  };
+}
+
+/**
+ * Pick the checkpoint to offer for resume
+ * `remote` is undefined while loading, null when the server has none.
+ * A synced local copy with no server copy was finished/discarded elsewhere.
+ */
+export function pickResumableCheckpoint(
+  local: SessionCheckpoint | null,
+  remote: SessionCheckpoint | null | undefined
+): SessionCheckpoint | null {
+  if (remote === undefined) return local;
+  if (!remote) return local && !local.synced ? local : null;
+  if (!local) return remote;
+  return remote.updatedAt > local.updatedAt ? remote : local;
+}
@@ -0,0 +1,73 @@
+/**
+ * Exercise Substitution Cache
+ *
+ * The Swap sheet ranks replacements with the deterministic
+ * `exerciseSubstitutes.getSessionSubstitutes` query. Results for the exercises
+ * of recent sessions are kept in localStorage so swapping still works with no
+ * signal in the gym.
+ */
+
+const STORAGE_KEY_PREFIX = 'rebld:substitutes:';
+const MAX_CACHED_EXERCISES = 150;
+
+/**
+ * Shape returned by convex/exerciseSubstitutes.ts
+ */
+export interface ExerciseSubstitute {
+  exercise_name: string;
+  normalized_name: string;
+  score: number;
+  movement_pattern: string | null;
+  exercise_tier: 'S' | 'A' | 'B' | 'C' | null;
+  equipment_required: string[];
+  reasons: string[];
+  caution: string | null;
+  is_favorite: boolean;
+}
+
+interface CachedSubstitutes {
+  substitutes: ExerciseSubstitute[];
+  cachedAt: number;
+}
+
+export const normalizeSubstituteKey = (exerciseName: string): string =>
+  exerciseName.toLowerCase().trim().replace(/\s+/g, '_');
+
+const readCache = (userId: string): Record<string, CachedSubstitutes> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY_PREFIX + userId);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Merge fresh results into the cache (oldest entries are evicted)
+ */
+export const cacheSubstitutes = (userId: string, substitutesByExercise: Record<string, ExerciseSubstitute[]>): void => {
+  const cache = readCache(userId);
+  const now = Date.now();
+  Object.entries(substitutesByExercise).forEach(([exerciseName, substitutes]) => {
+    cache[normalizeSubstituteKey(exerciseName)] = { substitutes, cachedAt: now };
+  });
+
+  const trimmed = Object.fromEntries(
+    Object.entries(cache)
+      .sort(([, a], [, b]) => b.cachedAt - a.cachedAt)
+      .slice(0, MAX_CACHED_EXERCISES)
+  );
+
+  try {
+    localStorage.setItem(STORAGE_KEY_PREFIX + userId, JSON.stringify(trimmed));
+  } catch {
+    // Storage full - the live query still works online
+  }
+};
+
+/**
+ * Cached substitutes for an exercise (null if never fetched)
+ */
+export const getCachedSubstitutes = (userId: string, exerciseName: string): ExerciseSubstitute[] | null => {
+  return readCache(userId)[normalizeSubstituteKey(exerciseName)]?.substitutes ?? null;
+};
@@ -0,0 +1,376 @@
+/**
+ * Workout History Import
+ *
+ * Parses Strong, Hevy and generic CSV exports into workouts ready for
+ * `historyImport.importWorkoutHistory`. Weights are converted to kg here;
+ * exercise names are cleaned up and expanded with workoutAbbreviations before
+ * the server matches them against the exercise library.
+ *
+ * Generic CSV (one row per set, header row required, `,` or `;` separated):
+ *   date             - required, `YYYY-MM-DD` or `YYYY-MM-DD HH:MM`
+ *   exercise         - required
+ *   workout          - optional, sessions are grouped by date + workout
+ *   set              - optional set number (defaults to row order)
+ *   weight, unit     - optional, unit is `kg` or `lbs` (defaults to the chosen unit)
+ *   reps, rpe        - optional
+ *   duration_seconds - optional, for timed sets
+ *   distance_m       - optional, for distance sets
+ *   duration_minutes - optional, session length
+ */
+
+import { convertWeight, WeightUnit } from '../lib/unitUtils';
+import { resolveAbbreviations } from './workoutAbbreviations';
+
+export type ImportSource = 'strong' | 'hevy' | 'csv';
+
+export type ImportedSet =
+  | { set: number; weight: number; reps: number; rpe: number | null }
+  | { set: number; duration_s: number }
+  | { set: number; distance_m: number; rest_s: number };
+
+export interface ImportedWorkout {
+  date: string; // ISO start time
+  focus: string;
+  durationMinutes: number | null;
+  exercises: Array<{ exercise_name: string; sets: ImportedSet[] }>;
+}
+
+export interface ParsedHistory {
+  source: ImportSource;
+  workouts: ImportedWorkout[];
+  exerciseNames: string[];
+  setCount: number;
+  skippedRows: number;
+}
+
+export const IMPORT_BATCH_SIZE = 25;
+
+export const SOURCE_LABELS: Record<ImportSource, string> = {
+  strong: 'Strong',
+  hevy: 'Hevy',
+  csv: 'Generic CSV',
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MILE_M = 1609.344;
+
+/**
+ * Split CSV text into rows (quoted fields, escaped quotes, CRLF)
+ */
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(cell => cell.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(cell => cell.trim() !== '')) rows.push(row);
+  return rows;
+}
+
+const normalizeHeader = (header: string) => header.replace(/^\uFEFF/, '').trim().toLowerCase();
+
+/**
+ * Recognise the exporting app from the header row
+ */
+export function detectImportSource(headers: string[]): ImportSource | null {
+  const set = new Set(headers.map(normalizeHeader));
+  if (set.has('exercise_title') && set.has('start_time')) return 'hevy';
+  if (set.has('exercise name') && set.has('set order')) return 'strong';
+  if (set.has('date') && set.has('exercise')) return 'csv';
+  return null;
+}
+
+/**
+ * Parse export dates as local time
+ * Handles `2024-02-22 08:05:00`, ISO strings and Hevy's `22 Feb 2024, 08:05`
+ */
+export function parseImportDate(value: string): Date | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (/[zZ]$|[+-]\d{2}:?\d{2}$/.test(trimmed)) {
+    const date = new Date(trimmed);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (iso) {
+    const [, y, m, d, h = '0', min = '0', s = '0'] = iso;
+    return new Date(Number(y), Number(m) - 1, Number(d), Number(h), Number(min), Number(s));
+  }
+
+  const hevy = trimmed.match(/^(\d{1,2}) ([A-Za-z]{3})[a-z]* (\d{4}),? (\d{1,2}):(\d{2})/);
+  if (hevy) {
+    const month = MONTHS.indexOf(hevy[2].toLowerCase());
+    if (month === -1) return null;
+    return new Date(Number(hevy[3]), month, Number(hevy[1]), Number(hevy[4]), Number(hevy[5]));
+  }
+
+  const date = new Date(trimmed);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Strong writes session length as "1h 5m" / "45m" / "58s"
+const parseStrongDuration = (value: string): number | null => {
+  const hours = Number(value.match(/(\d+)\s*h/)?.[1] || 0);
+  const minutes = Number(value.match(/(\d+)\s*m(?!i)/)?.[1] || 0);
+  const total = hours * 60 + minutes;
+  return total > 0 ? total : null;
+};
+
+const toNumber = (value: string | undefined): number | null => {
+  if (value === undefined) return null;
+  const n = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(n) ? n : null;
+};
+
+/**
+ * Clean an exported exercise name for matching
+ * "Bench Press (Barbell)" → "Barbell Bench Press", abbreviations expanded
+ */
+export function cleanImportedExerciseName(name: string): string {
+  let cleaned = name.trim().replace(/\s+/g, ' ');
+  const equipment = cleaned.match(/^(.*?)\s*\(([^)]+)\)$/);
+  if (equipment) {
+    const variant = equipment[2].trim();
+    cleaned = /assisted|weighted|machine|cable|barbell|dumbbell|kettlebell|band|smith/i.test(variant)
+      ? `${variant} ${equipment[1]}`
+      : equipment[1];
+  }
+  return resolveAbbreviations(cleaned).trim();
+}
+
+interface RawSetRow {
+  sessionKey: string;
+  date: Date;
+  focus: string;
+  durationMinutes: number | null;
+  exercise: string;
+  setNumber: number | null;
+  weightKg: number | null;
+  reps: number | null;
+  rpe: number | null;
+  durationSeconds: number | null;
+  distanceM: number | null;
+}
+
+function buildSet(row: RawSetRow, setNumber: number): ImportedSet | null {
+  if (row.reps !== null && row.reps > 0) {
+    return { set: setNumber, weight: row.weightKg ?? 0, reps: Math.round(row.reps), rpe: row.rpe };
+  }
+  if (row.distanceM !== null && row.distanceM > 0) {
+    return { set: setNumber, distance_m: Math.round(row.distanceM), rest_s: 0 };
+  }
+  if (row.durationSeconds !== null && row.durationSeconds > 0) {
+    return { set: setNumber, duration_s: Math.round(row.durationSeconds) };
+  }
+  return null;
+}
+
+function readRows(source: ImportSource, headers: string[], rows: string[][], defaultUnit: WeightUnit): { sets: RawSetRow[]; skipped: number } {
+  const index = new Map(headers.map((h, i) => [normalizeHeader(h), i]));
+  const col = (row: string[], name: string) => {
+    const i = index.get(name);
+    return i === undefined ? undefined : row[i]?.trim();
+  };
+
+  const sets: RawSetRow[] = [];
+  let skipped = 0;
+
+  for (const row of rows) {
+    let parsed: RawSetRow | null = null;
+
+    if (source === 'strong') {
+      const setOrder = col(row, 'set order') || '';
+      const date = parseImportDate(col(row, 'date') || '');
+      const exercise = col(row, 'exercise name');
+      // Rest timer rows and notes carry no set data
+      if (date && exercise && !/rest/i.test(setOrder)) {
+        const unit = (col(row, 'weight unit') || defaultUnit).toLowerCase().startsWith('lb') ? 'lbs' : 'kg';
+        const distanceUnit = (col(row, 'distance unit') || (defaultUnit === 'lbs' ? 'mi' : 'km')).toLowerCase();
+        const weight = toNumber(col(row, 'weight'));
+        const distance = toNumber(col(row, 'distance'));
+        parsed = {
+          sessionKey: `${col(row, 'date')}|${col(row, 'workout name')}`,
+          date,
+          focus: col(row, 'workout name') || 'Imported Workout',
+          durationMinutes: parseStrongDuration(col(row, 'duration') || ''),
+          exercise,
+          setNumber: toNumber(setOrder),
+          weightKg: weight !== null ? convertWeight(weight, unit, 'kg') : null,
+          reps: toNumber(col(row, 'reps')),
+          rpe: toNumber(col(row, 'rpe')),
+          durationSeconds: toNumber(col(row, 'seconds')),
+          distanceM: distance !== null ? distance * (distanceUnit.startsWith('mi') ? MILE_M : distanceUnit === 'm' ? 1 : 1000) : null,
+        };
+      }
+    } else if (source === 'hevy') {
+      const start = parseImportDate(col(row, 'start_time') || '');
+      const end = parseImportDate(col(row, 'end_time') || '');
+      const exercise = col(row, 'exercise_title');
+      if (start && exercise) {
+        const weightLbs = toNumber(col(row, 'weight_lbs'));
+        const weightKg = toNumber(col(row, 'weight_kg'));
+        const miles = toNumber(col(row, 'distance_miles'));
+        const km = toNumber(col(row, 'distance_km'));
+        const setIndex = toNumber(col(row, 'set_index'));
+        parsed = {
+          sessionKey: `${col(row, 'start_time')}|${col(row, 'title')}`,
+          date: start,
+          focus: col(row, 'title') || 'Imported Workout',
+          durationMinutes: end ? Math.max(0, Math.round((end.getTime() - start.getTime()) / 60000)) || null : null,
+          exercise,
+          setNumber: setIndex !== null ? setIndex + 1 : null, // Hevy counts from 0
+          weightKg: weightKg ?? (weightLbs !== null ? convertWeight(weightLbs, 'lbs', 'kg') : null),
+          reps: toNumber(col(row, 'reps')),
+          rpe: toNumber(col(row, 'rpe')),
+          durationSeconds: toNumber(col(row, 'duration_seconds')),
+          distanceM: km !== null ? km * 1000 : miles !== null ? miles * MILE_M : null,
+        };
+      }
+    } else {
+      const date = parseImportDate(col(row, 'date') || '');
+      const exercise = col(row, 'exercise');
+      if (date && exercise) {
+        const unit: WeightUnit = (col(row, 'unit') || defaultUnit).toLowerCase().startsWith('lb') ? 'lbs' : 'kg';
+        const weight = toNumber(col(row, 'weight'));
+        parsed = {
+          sessionKey: `${col(row, 'date')}|${col(row, 'workout') || ''}`,
+          date,
+          focus: col(row, 'workout') || 'Imported Workout',
+          durationMinutes: toNumber(col(row, 'duration_minutes')),
+          exercise,
+          setNumber: toNumber(col(row, 'set')),
+          weightKg: weight !== null ? convertWeight(weight, unit, 'kg') : null,
+          reps: toNumber(col(row, 'reps')),
+          rpe: toNumber(col(row, 'rpe')),
+          durationSeconds: toNumber(col(row, 'duration_seconds')),
+          distanceM: toNumber(col(row, 'distance_m')),
+        };
+      }
+    }
+
+    if (parsed) {
+      sets.push(parsed);
+    } else {
+      skipped++;
+    }
+  }
+
+  return { sets, skipped };
+}
+
+/**
+ * Parse an export file into workouts (oldest first)
+ * Throws with a user-facing message when the format isn't recognised
+ */
+export function parseWorkoutHistory(text: string, defaultUnit: WeightUnit = 'kg'): ParsedHistory {
+  const [headers, ...rows] = parseCsv(text);
+  if (!headers || rows.length === 0) {
+    throw new Error('The file is empty');
+  }
+
+  const source = detectImportSource(headers);
+  if (!source) {
+    throw new Error('Unrecognised file. Export a CSV from Strong or Hevy, or use the generic CSV columns.');
+  }
+
+  const { sets, skipped } = readRows(source, headers, rows, defaultUnit);
+  let skippedRows = skipped;
+  let setCount = 0;
+
+  const sessions = new Map<string, ImportedWorkout & { byExercise: Map<string, ImportedSet[]> }>();
+  for (const row of sets) {
+    let session = sessions.get(row.sessionKey);
+    if (!session) {
+      session = {
+        date: row.date.toISOString(),
+        focus: row.focus,
+        durationMinutes: row.durationMinutes,
+        exercises: [],
+        byExercise: new Map(),
+      };
+      sessions.set(row.sessionKey, session);
+    }
+
+    const exerciseName = cleanImportedExerciseName(row.exercise);
+    let exerciseSets = session.byExercise.get(exerciseName);
+    if (!exerciseSets) {
+      exerciseSets = [];
+      session.byExercise.set(exerciseName, exerciseSets);
+      session.exercises.push({ exercise_name: exerciseName, sets: exerciseSets });
+    }
+
+    const set = buildSet(row, row.setNumber ?? exerciseSets.length + 1);
+    if (set) {
+      exerciseSets.push(set);
+      setCount++;
+    } else {
+      skippedRows++;
+    }
+  }
+
+  const workouts = Array.from(sessions.values())
+    .map(({ byExercise, ...workout }) => ({
+      ...workout,
+      exercises: workout.exercises.filter(e => e.sets.length > 0),
+    }))
+    .filter(w => w.exercises.length > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const exerciseNames = [...new Set(workouts.flatMap(w => w.exercises.map(e => e.exercise_name)))].sort();
+
+  return { source, workouts, exerciseNames, setCount, skippedRows };
+}
+
+/**
+ * Rename exercises after the review step (names missing from the map are kept)
+ */
+export function applyExerciseNameMapping(workouts: ImportedWorkout[], mapping: Record<string, string>): ImportedWorkout[] {
+  return workouts.map(workout => {
+    const merged = new Map<string, ImportedSet[]>();
+    for (const exercise of workout.exercises) {
+      const name = mapping[exercise.exercise_name]?.trim() || exercise.exercise_name;
+      merged.set(name, [...(merged.get(name) || []), ...exercise.sets]);
+    }
+    return {
+      ...workout,
+      exercises: Array.from(merged, ([exercise_name, sets]) => ({ exercise_name, sets })),
+    };
+  });
+}
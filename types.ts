@@ -104,7 +104,7 @@ export interface PlanExercise {
 
 // NEW BLOCK-BASED ARCHITECTURE
 export interface BaseBlock {
-  type: 'single' | 'superset' | 'amrap' | 'circuit';
+  type: 'single' | 'superset' | 'amrap' | 'circuit' | 'emom' | 'tabata';
   title?: string;
   notes?: string;
   exercises: PlanExercise[];
@@ -130,7 +130,25 @@ export interface CircuitBlock extends BaseBlock {
   duration_minutes?: number;
 }
 
-export type WorkoutBlock = SingleExerciseBlock | SupersetBlock | AmrapBlock | CircuitBlock;
+// Every Minute On the Minute - exercises rotate each interval
+export interface EmomBlock extends BaseBlock {
+  type: 'emom';
+  duration_minutes: number;
+  interval_seconds?: number; // Default 60 (120 = E2MOM)
+}
+
+// Fixed work/rest intervals (classic Tabata = 20s/10s × 8)
+export interface TabataBlock extends BaseBlock {
+  type: 'tabata';
+  rounds: number;
+  work_seconds: number;
+  rest_seconds: number;
+}
+
+// Timer-driven blocks that use the interval timer screen
+export type IntervalBlock = EmomBlock | TabataBlock;
+
+export type WorkoutBlock = SingleExerciseBlock | SupersetBlock | AmrapBlock | CircuitBlock | EmomBlock | TabataBlock;
 
 // NEW: Session for 2x/day training
 export interface WorkoutSession {
@@ -162,6 +180,8 @@ export interface Periodization {
   phase_description?: string;
   weeks_in_phase?: number;
   phase_end_week?: number;
+  is_deload?: boolean; // Set by weekly generation (scheduled or performance-detected deload)
+  deload_reason?: string;
 }
 
 export interface DailyRoutine {
@@ -205,9 +225,47 @@ export interface LoggedSetSDR {
   rest_s: number | string;
 }
 
+// Cardio imported from a FIT/TCX/GPX file (services/cardioFileService.ts)
+export type CardioFileSource = 'fit' | 'tcx' | 'gpx';
+
+export interface CardioSplit {
+  distance_m: number; // 1000 except for the final partial split
+  duration_s: number;
+  avg_hr: number | null;
+}
+
+export type PaceZone = 'race' | 'zone2' | 'tempo' | 'interval';
+
+export interface PaceCompliance {
+  zone: PaceZone;
+  targetPace: string; // "5:30/km" from calculateRunningPaces
+  actualPace: string;
+  deltaSecondsPerKm: number; // Positive = slower than target
+  status: 'on_target' | 'too_fast' | 'too_slow';
+  splitsOnTarget: number;
+  splitCount: number;
+}
+
+export interface CardioActivity {
+  source: CardioFileSource;
+  sport: string; // running, cycling, walking, other...
+  startTime: string; // ISO
+  distance_m: number;
+  duration_s: number;
+  avg_hr: number | null;
+  max_hr: number | null;
+  elevation_gain_m: number | null;
+  splits: CardioSplit[];
+}
+
+export interface LoggedCardio extends CardioActivity {
+  paceCompliance: PaceCompliance | null;
+}
+
 export interface LoggedExercise {
   exercise_name: string;
   sets: (LoggedSetSRW | LoggedSetDuration)[];
+  cardio?: LoggedCardio;
 }
 
 export interface WorkoutLog {
@@ -224,8 +282,34 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   functionCall?: any;
+  proposal?: CoachProposal; // Plan edit awaiting confirmation (or applied/undone)
 }
 
+// One exercise-level line in a plan diff - chat previews and revision history (see convex/utils/chatActions.ts)
+export interface PlanChange {
+  day_of_week: number;
+  kind: 'added' | 'removed' | 'modified' | 'focus';
+  exercise_name: string | null;
+  before: string | null;
+  after: string | null;
+}
+
+export interface CoachProposal {
+  functionName: string;
+  functionArgs: Record<string, any>;
+  summary: string;
+  changes: PlanChange[];
+  warnings: string[];
+  status: 'pending' | 'applying' | 'applied' | 'dismissed' | 'undone';
+  editId?: string; // chatPlanEdits id once applied (for undo)
+}
+
+// Who made a plan revision (see convex/planRevisions.ts)
+export type PlanRevisionAuthor = 'user' | 'chat' | 'ai' | 'import' | 'coach';
+
+// How a new plan was created: generated by AI or imported from text
+export type PlanSource = Extract<PlanRevisionAuthor, 'ai' | 'import'>;
+
 // Cardio Preferences (for training types that include cardio)
 export interface CardioPreferences {
   preferred_types: string[]; // ["running", "cycling", "rowing", "swimming", "elliptical", "stair_climber"]
@@ -369,6 +453,19 @@ export interface UserGoal {
 }
 
 // Personal Records
+export type OneRepMaxFormula = 'epley' | 'brzycki';
+
+// e1rm = estimated 1RM, rep_max = best weight for >= N reps (1/3/5/10RM),
+// set_volume = best weight × reps, session_volume = best session tonnage
+export type PRType = 'weight' | 'e1rm' | 'rep_max' | 'set_volume' | 'session_volume';
+
+export interface RepMaxRecord {
+  repRange: number; // 1, 3, 5, 10
+  weight: number;
+  reps: number;
+  date: string; // ISO date string
+}
+
 export interface PersonalRecord {
   exercise_name: string;
   weight: number;
@@ -379,6 +476,32 @@ export interface PersonalRecord {
     reps: number;
     date: string; // ISO date string
   };
+  // Estimated 1RM from the best set (formula chosen by the user)
+  e1rm?: {
+    value: number;
+    weight: number;
+    reps: number;
+    date: string; // ISO date string
+  };
+  repMaxes?: RepMaxRecord[];
+  bestSetVolume?: {
+    value: number; // weight × reps
+    weight: number;
+    reps: number;
+    date: string; // ISO date string
+  };
+}
+
+// A single PR achieved by a set or session
+export interface PRAchievement {
+  type: PRType;
+  exercise_name: string;
+  value: number; // kg (weight, e1RM, nRM) or kg volume
+  previousValue?: number;
+  repRange?: number; // Only for rep_max
+  weight: number;
+  reps: number;
+  date: string; // ISO date string
 }
 
 // Progress Photos
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Convex function tests (convex-test) - separate from vite.config.ts so the app build is untouched
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['convex/**/*.test.ts'],
+    server: { deps: { inline: ['convex-test'] } },
+  },
+});